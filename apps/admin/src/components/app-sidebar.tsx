@@ -33,6 +33,7 @@ const data = {
         { title: "Teams", url: "/teams" },
         { title: "Official Groups", url: "/official-groups" },
         { title: "Badges", url: "/badges" },
+        { title: "Outrights", url: "/outrights" },
       ],
     },
     {
@@ -15,6 +15,7 @@ import SettingsPage from "@/pages/settings";
 import ActivityLogPage from "@/pages/activity-log";
 import OfficialGroupsPage from "@/pages/official-groups";
 import BadgesPage from "@/pages/badges";
+import OutrightsPage from "@/pages/outrights";
 import LoginPage from "@/pages/login";
 import { AdminLayout } from "@/components/layout";
 
@@ -48,6 +49,7 @@ export const routes: RouteObject[] = [
       { path: "/activity-log", element: <ActivityLogPage /> },
       { path: "/official-groups", element: <OfficialGroupsPage /> },
       { path: "/badges", element: <BadgesPage /> },
+      { path: "/outrights", element: <OutrightsPage /> },
       {
         path: "*",
         element: (
@@ -3,11 +3,13 @@ import {
   jobsService,
   type GetJobRunsParams,
   type GetJobRunsForJobParams,
+  type GetJobQueueParams,
   type GetRunItemsParams,
 } from "@/services/jobs.service";
 import type {
   AdminBatchItemsResponse,
   AdminJobDetailResponse,
+  AdminJobQueueListResponse,
   AdminJobRunResponse,
   AdminJobsListResponse,
   AdminJobRunsListResponse,
@@ -50,6 +52,14 @@ export function useJobRunsForJob(
   });
 }
 
+export function useJobQueue(params: GetJobQueueParams) {
+  return useQuery<AdminJobQueueListResponse>({
+    queryKey: ["job-queue", params],
+    queryFn: () => jobsService.getQueue(params),
+    staleTime: Infinity,
+  });
+}
+
 export function useRun(runId: number | null) {
   return useQuery<AdminJobRunResponse>({
     queryKey: ["job-run", runId],
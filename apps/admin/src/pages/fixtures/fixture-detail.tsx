@@ -19,7 +19,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { fixturesService } from "@/services/fixtures.service";
-import { normalizeResult } from "@/utils/fixtures";
+import { normalizeResult, isSettleableState } from "@/utils/fixtures";
 import { useHeaderTitle } from "@/contexts/header-title";
 import { HeaderActions } from "@/contexts/header-actions";
 import type { AdminFixtureAuditLogEntry } from "@repo/types";
@@ -49,6 +49,7 @@ import {
   ScoreOverrideDialog,
   type FixtureForOverride,
 } from "./score-override-dialog";
+import { ResettlePreviewDialog } from "./resettle-preview-dialog";
 import { toast } from "sonner";
 
 const ISSUE_DESCRIPTIONS: Record<string, string> = {
@@ -94,6 +95,7 @@ export default function FixtureDetailPage() {
   const fixtureId = id ? parseInt(id, 10) : NaN;
   const [overrideDialogOpen, setOverrideDialogOpen] = useState(false);
   const [resettling, setResettling] = useState(false);
+  const [resettleDialogOpen, setResettleDialogOpen] = useState(false);
   const [syncing, setSyncing] = useState(false);
   const [syncDialogOpen, setSyncDialogOpen] = useState(false);
   const { data, isLoading, isError, error, isFetching: fetchingFixture } = useQuery({
@@ -145,6 +147,13 @@ export default function FixtureDetailPage() {
     staleTime: 5 * 60 * 1000, // 5 min
   });
 
+  const { data: ledgerData } = useQuery({
+    queryKey: ["fixture", fixtureId, "ledger"],
+    queryFn: () => fixturesService.getLedger(fixtureId),
+    enabled: Number.isFinite(fixtureId) && !!data?.data,
+    staleTime: 5 * 60 * 1000, // 5 min
+  });
+
   const isRefreshing = fetchingFixture || fetchingAudit || fetchingProvider || fetchingGroups;
 
   const refreshAll = () => {
@@ -163,6 +172,7 @@ export default function FixtureDetailPage() {
       toast.success("Re-settlement completed", {
         description: `${result.predictionsRecalculated} predictions in ${result.groupsAffected} group(s)`,
       });
+      setResettleDialogOpen(false);
       queryClient.invalidateQueries({ queryKey: ["fixture", fixtureId] });
     } catch (err) {
       toast.error(err instanceof Error ? err.message : "Re-settlement failed");
@@ -463,12 +473,12 @@ export default function FixtureDetailPage() {
           <CardHeader className="pb-2 sm:pb-3">
             <div className="flex items-center justify-between">
               <CardTitle className="text-sm sm:text-base">Groups</CardTitle>
-              {f.state === "FT" && (
+              {isSettleableState(f.state) && (
                 <Button
                   variant="outline"
                   size="sm"
                   className="h-7 text-xs"
-                  onClick={handleResettle}
+                  onClick={() => setResettleDialogOpen(true)}
                   disabled={resettling}
                 >
                   <RefreshCw className={`h-3 w-3 mr-1 ${resettling ? "animate-spin" : ""}`} />
@@ -507,6 +517,45 @@ export default function FixtureDetailPage() {
           </CardContent>
         </Card>
 
+        {/* Settlement Ledger — every points award with the run or override behind it */}
+        {ledgerData && ledgerData.data.length > 0 && (
+          <Card>
+            <CardHeader className="pb-2 sm:pb-3">
+              <CardTitle className="text-sm sm:text-base">Settlement Ledger</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="divide-y rounded-lg border text-xs">
+                {ledgerData.data.map((entry) => (
+                  <div key={entry.id} className="flex flex-wrap items-center gap-x-3 gap-y-1 px-3 py-2">
+                    <span className="font-medium truncate">{entry.username ?? `User #${entry.userId}`}</span>
+                    <span className="text-muted-foreground">Group #{entry.groupId}</span>
+                    <span>
+                      {entry.previousPoints ?? "—"} → <span className="font-semibold">{entry.points}</span>
+                    </span>
+                    <Badge variant="secondary" className="text-[10px]">
+                      {entry.reason}
+                    </Badge>
+                    <span className="text-muted-foreground">
+                      {entry.fixtureState} {entry.homeScore90 ?? "—"}-{entry.awayScore90 ?? "—"}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {entry.adminUserId !== null
+                        ? `Admin #${entry.adminUserId}`
+                        : entry.jobRun
+                          ? `${entry.jobRun.jobKey} run #${entry.jobRun.id}`
+                          : "Manual"}
+                      {entry.fixtureAudit && ` · ${entry.fixtureAudit.source} change #${entry.fixtureAudit.id}`}
+                    </span>
+                    <span className="text-muted-foreground font-mono ml-auto">
+                      {format(new Date(entry.createdAt), "dd/MM HH:mm")}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Timeline */}
         <Card>
           <CardHeader className="pb-2 sm:pb-3">
@@ -563,6 +612,15 @@ export default function FixtureDetailPage() {
         onSuccess={handleSuccess}
       />
 
+      <ResettlePreviewDialog
+        fixtureId={fixtureId}
+        fixtureName={f.name}
+        open={resettleDialogOpen}
+        onOpenChange={setResettleDialogOpen}
+        onConfirm={() => void handleResettle()}
+        confirming={resettling}
+      />
+
       {/* Sync Preview Dialog — uses already-loaded comparisonRows, no extra API call */}
       {(() => {
         const diffs = comparisonRows.filter((row) => !row.match);
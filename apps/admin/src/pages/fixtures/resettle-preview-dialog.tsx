@@ -0,0 +1,144 @@
+import { useQuery } from "@tanstack/react-query";
+import { ArrowRight, RefreshCw } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { fixturesService } from "@/services/fixtures.service";
+
+interface ResettlePreviewDialogProps {
+  fixtureId: number;
+  fixtureName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: () => void;
+  confirming: boolean;
+}
+
+function formatPoints(points: number | null): string {
+  return points === null ? "—" : String(points);
+}
+
+/**
+ * Shows the point and rank changes a resettle would make per group, so the
+ * admin can review them before committing.
+ */
+export function ResettlePreviewDialog({
+  fixtureId,
+  fixtureName,
+  open,
+  onOpenChange,
+  onConfirm,
+  confirming,
+}: ResettlePreviewDialogProps) {
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ["fixture", fixtureId, "resettle-preview"],
+    queryFn: () => fixturesService.getResettlePreview(fixtureId),
+    enabled: open,
+    staleTime: 0,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[95vw] sm:max-w-2xl p-0 gap-0 overflow-hidden">
+        <div className="px-4 pt-4 pb-3 sm:px-5 sm:pt-5">
+          <DialogHeader>
+            <DialogTitle className="text-base">Re-settle Fixture</DialogTitle>
+            <DialogDescription>{fixtureName}</DialogDescription>
+          </DialogHeader>
+        </div>
+
+        <div className="border-t max-h-[60vh] overflow-y-auto">
+          {isLoading ? (
+            <div className="px-4 py-4 sm:px-5 space-y-2">
+              <Skeleton className="h-6 w-full" />
+              <Skeleton className="h-6 w-full" />
+            </div>
+          ) : isError ? (
+            <div className="px-4 py-6 sm:px-5 text-center text-sm text-destructive">
+              {error instanceof Error ? error.message : "Failed to load preview"}
+            </div>
+          ) : !data || data.groups.length === 0 ? (
+            <div className="px-4 py-6 sm:px-5 text-center text-sm text-muted-foreground">
+              No changes — every prediction already has these points.
+            </div>
+          ) : (
+            <div className="divide-y">
+              {data.groups.map((group) => (
+                <div key={group.groupId} className="px-4 py-3 sm:px-5 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm font-medium truncate">{group.groupName}</p>
+                    <span className="text-[10px] text-muted-foreground font-mono shrink-0">
+                      rules {group.ruleVersion}
+                    </span>
+                  </div>
+
+                  <div className="space-y-1">
+                    <p className="text-[10px] font-medium text-muted-foreground uppercase tracking-wider">
+                      Points ({group.predictionChanges.length})
+                    </p>
+                    {group.predictionChanges.map((change) => (
+                      <div key={change.predictionId} className="flex items-center gap-2 text-xs">
+                        <span className="flex-1 truncate">{change.username ?? `User #${change.userId}`}</span>
+                        <span className="text-red-600 dark:text-red-400 line-through">
+                          {formatPoints(change.previousPoints)}
+                        </span>
+                        <ArrowRight className="h-3 w-3 text-muted-foreground shrink-0" />
+                        <span className="text-green-600 dark:text-green-400 font-semibold">
+                          {change.newPoints}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="space-y-1">
+                    <p className="text-[10px] font-medium text-muted-foreground uppercase tracking-wider">
+                      Ranking ({group.rankChanges.length})
+                    </p>
+                    {group.rankChanges.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">No rank changes.</p>
+                    ) : (
+                      group.rankChanges.map((change) => (
+                        <div key={change.userId} className="flex items-center gap-2 text-xs">
+                          <span className="flex-1 truncate">{change.username ?? `User #${change.userId}`}</span>
+                          <span className="text-muted-foreground">
+                            #{change.previousRank} ({change.previousPoints})
+                          </span>
+                          <ArrowRight className="h-3 w-3 text-muted-foreground shrink-0" />
+                          <span className="font-semibold">
+                            #{change.newRank} ({change.newPoints})
+                          </span>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="border-t px-4 py-3 sm:px-5 flex gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="flex-1 sm:flex-initial">
+            Cancel
+          </Button>
+          <Button
+            onClick={onConfirm}
+            disabled={confirming || isLoading || isError || !data?.predictionsChanged}
+            className="flex-1 sm:flex-initial sm:ml-auto"
+          >
+            <RefreshCw className={`mr-2 h-4 w-4 ${confirming ? "animate-spin" : ""}`} />
+            {data?.predictionsChanged
+              ? `Re-settle ${data.predictionsChanged} prediction(s)`
+              : "Re-settle"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -20,6 +20,7 @@ import {
 import { Checkbox } from "@/components/ui/checkbox";
 import { FixtureState } from "@repo/types/sport-data/common";
 import { fixturesService } from "@/services/fixtures.service";
+import { isSettleableState } from "@/utils/fixtures";
 
 const FIXTURE_STATE_VALUES = Object.values(FixtureState);
 
@@ -130,13 +131,13 @@ export function ScoreOverrideDialog({
         ...(leg !== (fixture.leg ?? "") && { leg: leg || null }),
       });
       toast.success("Score and state updated");
-      if (triggerResettle && state === "FT") {
+      if (triggerResettle && isSettleableState(state)) {
         const result = await fixturesService.resettle(fixture.id);
         toast.success("Re-settlement completed", {
           description: `${result.predictionsRecalculated} predictions in ${result.groupsAffected} group(s)`,
         });
-      } else if (triggerResettle && state !== "FT") {
-        toast.info("Re-settlement only runs for FT fixtures; skipped.");
+      } else if (triggerResettle) {
+        toast.info("Re-settlement only runs for finished fixtures; skipped.");
       }
       handleOpenChange(false);
       onSuccess?.();
@@ -244,7 +245,7 @@ export function ScoreOverrideDialog({
                   htmlFor="triggerResettle"
                   className="text-xs font-normal cursor-pointer"
                 >
-                  Trigger re-settlement (only for FT)
+                  Trigger re-settlement (only for FT, AET or FT_PEN)
                 </Label>
               </div>
             </div>
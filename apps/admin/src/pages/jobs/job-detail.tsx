@@ -28,14 +28,20 @@ import {
   SheetDescription,
 } from "@/components/ui/sheet";
 import { StatusBadge } from "@/components/table/status-badge";
-import { useJobFromDb, useJobRunsForJob, useRun, useRunItems } from "@/hooks/use-jobs";
+import {
+  useJobFromDb,
+  useJobQueue,
+  useJobRunsForJob,
+  useRun,
+  useRunItems,
+} from "@/hooks/use-jobs";
 import { useBookmakersFromProvider } from "@/hooks/use-bookmakers";
 import { useMarketsFromProvider } from "@/hooks/use-markets";
 import { jobsService } from "@/services/jobs.service";
-import type { AdminJobDetailResponse } from "@repo/types";
+import type { AdminJobDetailResponse, AdminJobQueueEntry } from "@repo/types";
 import type { MultiSelectOption } from "@/components/filters/multi-select-combobox";
 import { Input } from "@/components/ui/input";
-import { ChevronRight, RefreshCw, Search } from "lucide-react";
+import { ChevronRight, RefreshCw, RotateCcw, Search } from "lucide-react";
 import {
   formatDateTime,
   formatRelativeTime,
@@ -44,6 +50,7 @@ import {
   formatHoursAsDaysHours,
   jobNameFromKey,
   getRunReason,
+  getRunOrigin,
   titleCaseWords,
   truncate,
   camelToHuman,
@@ -78,6 +85,11 @@ export default function JobDetailPage() {
   const runs = runsQuery.data?.data ?? [];
   const nextCursor = runsQuery.data?.nextCursor ?? null;
 
+  const queueQuery = useJobQueue({ jobKey: jobKey ?? undefined, limit: 10 });
+  const pendingQueueEntries = (queueQuery.data?.data ?? []).filter(
+    (e) => e.status !== "succeeded"
+  );
+
   const { data: bookmakersProviderData } = useBookmakersFromProvider();
   const bookmakerOptions: MultiSelectOption[] = useMemo(() => {
     if (!bookmakersProviderData?.data) return [];
@@ -144,6 +156,34 @@ export default function JobDetailPage() {
     },
   });
 
+  const invalidateQueue = () => {
+    queryClient.invalidateQueries({ queryKey: ["job-queue"] });
+    queryClient.invalidateQueries({ queryKey: ["job-runs"] });
+    queryClient.invalidateQueries({ queryKey: ["job-run"] });
+  };
+
+  const requeueRunMutation = useMutation({
+    mutationFn: (runId: number) => jobsService.requeueRun(runId),
+    onSuccess: () => {
+      toast.success("Job requeued");
+      invalidateQueue();
+    },
+    onError: (e: Error) => {
+      toast.error("Requeue failed", { description: e.message });
+    },
+  });
+
+  const requeueEntryMutation = useMutation({
+    mutationFn: (queueId: number) => jobsService.requeueQueueEntry(queueId),
+    onSuccess: () => {
+      toast.success("Job requeued");
+      invalidateQueue();
+    },
+    onError: (e: Error) => {
+      toast.error("Requeue failed", { description: e.message });
+    },
+  });
+
   // Alert context for this job
   const { data: alertsData } = useAlerts();
   const jobAlerts = useMemo(
@@ -214,9 +254,11 @@ export default function JobDetailPage() {
 
   const jobForForm: AdminJobDetailResponse["data"] = job;
 
-  const isAnyFetching = jobQuery.isFetching || runsQuery.isFetching;
+  const isAnyFetching =
+    jobQuery.isFetching || runsQuery.isFetching || queueQuery.isFetching;
   const refreshAll = () => {
     queryClient.invalidateQueries({ queryKey: ["jobs"] });
+    queryClient.invalidateQueries({ queryKey: ["job-queue"] });
     queryClient.invalidateQueries({ queryKey: ["job-runs"] });
     queryClient.invalidateQueries({ queryKey: ["job-run"] });
     queryClient.invalidateQueries({ queryKey: ["run-items"] });
@@ -288,6 +330,23 @@ export default function JobDetailPage() {
           </CardContent>
         </Card>
 
+        {(job.graph.upstream.length > 0 || job.graph.downstream.length > 0) && (
+          <JobRunGraphCard
+            job={job}
+            onOpenJob={(key) => navigate(`/jobs/${encodeURIComponent(key)}`)}
+            onOpenRun={setSelectedRunId}
+          />
+        )}
+
+        {pendingQueueEntries.length > 0 && (
+          <JobQueueCard
+            entries={pendingQueueEntries}
+            onOpenRun={setSelectedRunId}
+            onRequeue={(queueId) => requeueEntryMutation.mutate(queueId)}
+            isRequeuePending={requeueEntryMutation.isPending}
+          />
+        )}
+
         <Card className="flex-1 min-h-0 flex flex-col overflow-hidden">
           <CardHeader className="flex-shrink-0 px-3 py-3 sm:p-6">
             <CardTitle className="text-sm sm:text-base">Run History</CardTitle>
@@ -463,6 +522,18 @@ export default function JobDetailPage() {
                 Run #{selectedRunId}
               </SheetTitle>
               {selectedRun && <StatusBadge status={selectedRun.status} />}
+              {selectedRun?.status === "failed" && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="ml-auto mr-6 h-7 text-xs"
+                  disabled={requeueRunMutation.isPending}
+                  onClick={() => requeueRunMutation.mutate(selectedRun.id)}
+                >
+                  <RotateCcw className="h-3.5 w-3.5 mr-1" />
+                  Requeue
+                </Button>
+              )}
             </div>
             <SheetDescription className="sr-only">Run details</SheetDescription>
           </SheetHeader>
@@ -481,6 +552,192 @@ export default function JobDetailPage() {
   );
 }
 
+/* ---------- Run Graph ---------- */
+
+type JobDetail = NonNullable<AdminJobDetailResponse["data"]>;
+type JobGraphEdge = JobDetail["graph"]["upstream"][number];
+
+function JobGraphEdgeChip({
+  edge,
+  onOpenJob,
+}: {
+  edge: JobGraphEdge;
+  onOpenJob: (jobKey: string) => void;
+}) {
+  if (edge.type === "event") {
+    return (
+      <span className="inline-flex items-center rounded border border-dashed px-2 py-0.5 text-xs font-mono text-muted-foreground">
+        {edge.event}
+      </span>
+    );
+  }
+  return (
+    <button
+      type="button"
+      className="inline-flex items-center gap-1 rounded border px-2 py-0.5 text-xs hover:bg-muted"
+      onClick={() => onOpenJob(edge.jobKey)}
+    >
+      {jobNameFromKey(edge.jobKey)}
+      {edge.minRowsAffected != null && edge.minRowsAffected > 0 && (
+        <span className="text-muted-foreground">
+          (≥{edge.minRowsAffected} rows)
+        </span>
+      )}
+    </button>
+  );
+}
+
+function JobRunGraphCard({
+  job,
+  onOpenJob,
+  onOpenRun,
+}: {
+  job: JobDetail;
+  onOpenJob: (jobKey: string) => void;
+  onOpenRun: (runId: number) => void;
+}) {
+  const { upstream, downstream } = job.graph;
+  const triggeredRuns = job.lastRuns.filter((r) => getRunOrigin(r.meta));
+
+  return (
+    <Card className="flex-shrink-0">
+      <CardHeader className="px-3 py-2 sm:px-6 sm:pb-2">
+        <CardTitle className="text-sm sm:text-base">Run Graph</CardTitle>
+      </CardHeader>
+      <CardContent className="px-3 pb-3 sm:px-6 sm:pb-6 space-y-3">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <div className="flex flex-wrap items-center gap-1">
+            {upstream.length > 0 ? (
+              upstream.map((edge, i) => (
+                <JobGraphEdgeChip key={i} edge={edge} onOpenJob={onOpenJob} />
+              ))
+            ) : (
+              <span className="text-xs text-muted-foreground">Schedule only</span>
+            )}
+          </div>
+          <ChevronRight className="h-4 w-4 text-muted-foreground" />
+          <span className="rounded bg-primary/10 px-2 py-0.5 text-xs font-medium">
+            {jobNameFromKey(job.key)}
+          </span>
+          {downstream.length > 0 && (
+            <>
+              <ChevronRight className="h-4 w-4 text-muted-foreground" />
+              <div className="flex flex-wrap items-center gap-1">
+                {downstream.map((edge, i) => (
+                  <JobGraphEdgeChip key={i} edge={edge} onOpenJob={onOpenJob} />
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        {triggeredRuns.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">
+              Recent triggered runs
+            </p>
+            {triggeredRuns.map((r) => {
+              const parentRunId = r.meta["parentRunId"];
+              return (
+                <div key={r.id} className="flex items-center gap-2 text-xs">
+                  <StatusBadge status={r.status} />
+                  <button
+                    type="button"
+                    className="font-mono text-muted-foreground hover:underline"
+                    onClick={() => onOpenRun(r.id)}
+                  >
+                    #{r.id}
+                  </button>
+                  {typeof parentRunId === "number" ? (
+                    <button
+                      type="button"
+                      className="hover:underline"
+                      onClick={() => onOpenRun(parentRunId)}
+                    >
+                      {getRunOrigin(r.meta)}
+                    </button>
+                  ) : (
+                    <span>{getRunOrigin(r.meta)}</span>
+                  )}
+                  <span className="ml-auto text-muted-foreground tabular-nums">
+                    {formatRelativeTime(r.startedAt)}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/* ---------- Queue ---------- */
+
+function JobQueueCard({
+  entries,
+  onOpenRun,
+  onRequeue,
+  isRequeuePending,
+}: {
+  entries: AdminJobQueueEntry[];
+  onOpenRun: (runId: number) => void;
+  onRequeue: (queueId: number) => void;
+  isRequeuePending: boolean;
+}) {
+  return (
+    <Card className="flex-shrink-0">
+      <CardHeader className="px-3 py-2 sm:px-6 sm:pb-2">
+        <CardTitle className="text-sm sm:text-base">Queue</CardTitle>
+      </CardHeader>
+      <CardContent className="px-3 pb-3 sm:px-6 sm:pb-6 space-y-1">
+        {entries.map((e) => (
+          <div key={e.id} className="flex items-center gap-2 text-xs">
+            <StatusBadge status={e.status} />
+            <span className="font-mono text-muted-foreground">#{e.id}</span>
+            <span className="tabular-nums">
+              {e.attempts}/{e.maxAttempts} attempts
+            </span>
+            {e.lastRunId != null && (
+              <button
+                type="button"
+                className="font-mono text-muted-foreground hover:underline"
+                onClick={() => onOpenRun(e.lastRunId!)}
+              >
+                run #{e.lastRunId}
+              </button>
+            )}
+            {e.lastError && (
+              <span
+                className="min-w-0 truncate text-muted-foreground"
+                title={e.lastError}
+              >
+                {truncate(e.lastError, 80)}
+              </span>
+            )}
+            <span className="ml-auto shrink-0 text-muted-foreground tabular-nums">
+              {e.status === "queued"
+                ? `next: ${formatDateTime(e.runAt)}`
+                : formatRelativeTime(e.finishedAt ?? e.createdAt)}
+            </span>
+            {e.status === "dead" && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-6 px-2 text-xs"
+                disabled={isRequeuePending}
+                onClick={() => onRequeue(e.id)}
+              >
+                Requeue
+              </Button>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
 /* ---------- Run Detail Sheet Content ---------- */
 
 type RunItem = {
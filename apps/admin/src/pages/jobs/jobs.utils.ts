@@ -229,6 +229,20 @@ export function getRunReason(meta: Record<string, unknown>): string | null {
   return REASON_LABELS[reason] ?? reason;
 }
 
+/** Where a chained / event-triggered run came from, e.g. "after finished-fixtures #12" or "on fixture.finished". */
+export function getRunOrigin(meta: Record<string, unknown>): string | null {
+  const parentJobKey = meta["parentJobKey"];
+  if (typeof parentJobKey === "string" && parentJobKey) {
+    const parentRunId = meta["parentRunId"];
+    return typeof parentRunId === "number"
+      ? `after ${parentJobKey} #${parentRunId}`
+      : `after ${parentJobKey}`;
+  }
+  const event = meta["event"];
+  if (typeof event === "string" && event) return `on ${event}`;
+  return null;
+}
+
 export function isNoOp(
   meta: Record<string, unknown>,
   _rowsAffected: number | null
@@ -290,6 +304,8 @@ export function formatRunSummary(meta: Record<string, unknown>): string {
     "jobRunId",
     "environment",
     "reason",
+    "chainDepth",
+    "parentRunId",
   ]);
   const numericParts: string[] = [];
   for (const [key, value] of Object.entries(meta)) {
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useParams, useNavigate } from "react-router-dom";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
@@ -20,7 +21,8 @@ import {
 } from "@/components/ui/select";
 import { StatusBadge } from "@/components/table/status-badge";
 import { useRun, useRunItems } from "@/hooks/use-jobs";
-import { ArrowLeft } from "lucide-react";
+import { jobsService } from "@/services/jobs.service";
+import { ArrowLeft, RotateCcw } from "lucide-react";
 import {
   formatDateTime,
   formatDurationMs,
@@ -38,6 +40,7 @@ export default function RunDetailPage() {
     runId: string;
   }>();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
 
   const runId =
     runIdParam != null && /^\d+$/.test(runIdParam)
@@ -60,6 +63,18 @@ export default function RunDetailPage() {
   const items = runItemsQuery.data?.data ?? [];
   const itemsPagination = runItemsQuery.data?.pagination;
 
+  const requeueMutation = useMutation({
+    mutationFn: (id: number) => jobsService.requeueRun(id),
+    onSuccess: () => {
+      toast.success("Job requeued");
+      queryClient.invalidateQueries({ queryKey: ["job-queue"] });
+      queryClient.invalidateQueries({ queryKey: ["job-runs"] });
+    },
+    onError: (e: Error) => {
+      toast.error("Requeue failed", { description: e.message });
+    },
+  });
+
   if (!jobKey || runId == null || !Number.isFinite(runId)) {
     return (
       <div className="p-6">
@@ -161,6 +176,18 @@ export default function RunDetailPage() {
           Run #{run.id}
         </h1>
         <StatusBadge status={run.status} />
+        {run.status === "failed" && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="ml-auto h-7 sm:h-8 text-xs"
+            disabled={requeueMutation.isPending}
+            onClick={() => requeueMutation.mutate(run.id)}
+          >
+            <RotateCcw className="h-3.5 w-3.5 mr-1" />
+            Requeue
+          </Button>
+        )}
       </div>
 
       <div className="flex-1 min-h-0 overflow-auto space-y-3 sm:space-y-6">
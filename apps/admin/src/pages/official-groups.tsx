@@ -84,6 +84,7 @@ import type {
   AdminUpdateOfficialGroupBody,
   AdminOfficialGroupItem,
   AdminBadgeDefinitionSearchItem,
+  ApiScoringPreviewBody,
 } from "@repo/types";
 
 // ─── Media query helpers (for responsive calendar) ───────────────────────────
@@ -154,6 +155,13 @@ type WizardState = {
   onTheNosePoints: string;
   correctDifferencePoints: string;
   outcomePoints: string;
+  scoringStrategy: string;
+  scoringConfig: Record<string, string>;
+  underdogBonus: boolean;
+  underdogMaxMultiplier: string;
+  jokerMode: string;
+  jokerFixturesPerCard: string;
+  sideMarkets: SideMarketPointsForm;
 
   // Badges
   badges: Array<{
@@ -189,6 +197,13 @@ const initialWizardState: WizardState = {
   onTheNosePoints: "3",
   correctDifferencePoints: "2",
   outcomePoints: "1",
+  scoringStrategy: "classic",
+  scoringConfig: {},
+  underdogBonus: false,
+  underdogMaxMultiplier: "3",
+  jokerMode: "off",
+  jokerFixturesPerCard: "5",
+  sideMarkets: { bttsPoints: "0", overUnderPoints: "0", firstTeamToScorePoints: "0", advancePoints: "0" },
   badges: [],
 };
 
@@ -221,6 +236,11 @@ type WizardAction =
   | { type: "SET_ON_THE_NOSE_POINTS"; value: string }
   | { type: "SET_CORRECT_DIFFERENCE_POINTS"; value: string }
   | { type: "SET_OUTCOME_POINTS"; value: string }
+  | { type: "SET_SCORING_STRATEGY"; value: string }
+  | { type: "SET_SCORING_CONFIG_VALUE"; key: string; value: string }
+  | { type: "SET_UNDERDOG"; enabled: boolean; maxMultiplier: string }
+  | { type: "SET_JOKER"; mode: string; fixturesPerCard: string }
+  | { type: "SET_SIDE_MARKETS"; value: SideMarketPointsForm }
   // Badges
   | { type: "ADD_BADGE" }
   | { type: "REMOVE_BADGE"; index: number }
@@ -326,6 +346,27 @@ function wizardReducer(state: WizardState, action: WizardAction): WizardState {
       return { ...state, correctDifferencePoints: action.value };
     case "SET_OUTCOME_POINTS":
       return { ...state, outcomePoints: action.value };
+    case "SET_SCORING_STRATEGY":
+      return { ...state, scoringStrategy: action.value, scoringConfig: {} };
+    case "SET_SCORING_CONFIG_VALUE":
+      return {
+        ...state,
+        scoringConfig: { ...state.scoringConfig, [action.key]: action.value },
+      };
+    case "SET_UNDERDOG":
+      return {
+        ...state,
+        underdogBonus: action.enabled,
+        underdogMaxMultiplier: action.maxMultiplier,
+      };
+    case "SET_JOKER":
+      return {
+        ...state,
+        jokerMode: action.mode,
+        jokerFixturesPerCard: action.fixturesPerCard,
+      };
+    case "SET_SIDE_MARKETS":
+      return { ...state, sideMarkets: action.value };
 
     // Badges
     case "ADD_BADGE":
@@ -1609,7 +1650,377 @@ function Step3Details({
             </div>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">Scoring Strategy</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ScoringStrategyFields
+              strategy={state.scoringStrategy}
+              config={state.scoringConfig}
+              predictionMode="CorrectScore"
+              points={state}
+              onStrategyChange={(value) =>
+                dispatch({ type: "SET_SCORING_STRATEGY", value })
+              }
+              onConfigChange={(key, value) =>
+                dispatch({ type: "SET_SCORING_CONFIG_VALUE", key, value })
+              }
+              underdog={{
+                enabled: state.underdogBonus,
+                maxMultiplier: state.underdogMaxMultiplier,
+              }}
+              onUnderdogChange={(next) =>
+                dispatch({
+                  type: "SET_UNDERDOG",
+                  enabled: next.enabled,
+                  maxMultiplier: next.maxMultiplier,
+                })
+              }
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">Joker Card</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <JokerFields
+              joker={{
+                mode: state.jokerMode,
+                fixturesPerCard: state.jokerFixturesPerCard,
+              }}
+              onJokerChange={(next) =>
+                dispatch({
+                  type: "SET_JOKER",
+                  mode: next.mode,
+                  fixturesPerCard: next.fixturesPerCard,
+                })
+              }
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">Side Markets</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <SideMarketFields
+              value={state.sideMarkets}
+              onChange={(value) => dispatch({ type: "SET_SIDE_MARKETS", value })}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+// ─── Scoring Strategy Fields (shared by wizard + dialog) ──────────────────────
+
+/** Drop empty/invalid inputs so the server fills strategy defaults. */
+function toScoringConfig(config: Record<string, string>): Record<string, number> {
+  const result: Record<string, number> = {};
+  for (const [key, value] of Object.entries(config)) {
+    if (value.trim() === "") continue;
+    const num = Number(value);
+    if (Number.isInteger(num)) result[key] = num;
+  }
+  return result;
+}
+
+/** Empty/invalid input → undefined so the server keeps its default. */
+function toUnderdogMaxMultiplier(value: string): number | undefined {
+  const num = Number(value);
+  return value.trim() !== "" && Number.isInteger(num) ? num : undefined;
+}
+
+function ScoringStrategyFields({
+  strategy,
+  config,
+  predictionMode,
+  points,
+  onStrategyChange,
+  onConfigChange,
+  underdog,
+  onUnderdogChange,
+}: {
+  strategy: string;
+  config: Record<string, string>;
+  predictionMode: string;
+  points: {
+    onTheNosePoints: string;
+    correctDifferencePoints: string;
+    outcomePoints: string;
+  };
+  onStrategyChange: (strategy: string) => void;
+  onConfigChange: (key: string, value: string) => void;
+  underdog: { enabled: boolean; maxMultiplier: string };
+  onUnderdogChange: (underdog: { enabled: boolean; maxMultiplier: string }) => void;
+}) {
+  const { data: strategiesData } = useQuery({
+    queryKey: ["official-groups", "scoring-strategies"],
+    queryFn: () => officialGroupsService.getScoringStrategies(),
+    staleTime: Infinity,
+  });
+  const strategies = strategiesData?.data ?? [];
+  const selected = strategies.find((s) => s.key === strategy);
+
+  const previewBody: ApiScoringPreviewBody = {
+    scoringStrategy: strategy as ApiScoringPreviewBody["scoringStrategy"],
+    scoringConfig: toScoringConfig(config),
+    predictionMode,
+    onTheNosePoints: Number(points.onTheNosePoints) || 0,
+    correctDifferencePoints: Number(points.correctDifferencePoints) || 0,
+    outcomePoints: Number(points.outcomePoints) || 0,
+    underdogBonus: underdog.enabled,
+    underdogMaxMultiplier: toUnderdogMaxMultiplier(underdog.maxMultiplier),
+  };
+  // Debounce the serialized body: a fresh object each render would never settle
+  const [debouncedPreviewKey] = useDebounce(JSON.stringify(previewBody), 300);
+
+  const { data: previewData, error: previewError } = useQuery({
+    queryKey: ["official-groups", "scoring-preview", debouncedPreviewKey],
+    queryFn: () =>
+      officialGroupsService.previewScoring(
+        JSON.parse(debouncedPreviewKey) as ApiScoringPreviewBody
+      ),
+    retry: false,
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1.5">
+        <Label className="text-xs">Strategy</Label>
+        <Select value={strategy} onValueChange={onStrategyChange}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {strategies.map((s) => (
+              <SelectItem
+                key={s.key}
+                value={s.key}
+                disabled={predictionMode === "MatchWinner" && !s.supportsMatchWinner}
+              >
+                {s.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {selected && (
+          <p className="text-xs text-muted-foreground">{selected.description}</p>
+        )}
+      </div>
+
+      {selected && selected.fields.length > 0 && (
+        <div className="grid grid-cols-3 gap-4">
+          {selected.fields.map((field) => (
+            <div key={field.key} className="space-y-1.5">
+              <Label className="text-xs">{field.label}</Label>
+              <Input
+                type="number"
+                min={field.min}
+                max={field.max}
+                placeholder={String(field.default)}
+                value={config[field.key] ?? ""}
+                onChange={(e) => onConfigChange(field.key, e.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Underdog bonus is redundant for strategies that already weight by odds */}
+      {!selected?.requiresOdds && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-3">
+            <Switch
+              checked={underdog.enabled}
+              onCheckedChange={(checked) =>
+                onUnderdogChange({ ...underdog, enabled: checked })
+              }
+            />
+            <span className="text-sm">Underdog bonus</span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Outcome points are multiplied by the 1X2 odds frozen at kickoff.
+          </p>
+          {underdog.enabled && (
+            <div className="space-y-1.5 max-w-[200px]">
+              <Label className="text-xs">Max multiplier (2–10)</Label>
+              <Input
+                type="number"
+                min={2}
+                max={10}
+                placeholder="3"
+                value={underdog.maxMultiplier}
+                onChange={(e) =>
+                  onUnderdogChange({ ...underdog, maxMultiplier: e.target.value })
+                }
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-1.5">
+        <Label className="text-xs">
+          Preview
+          {selected?.requiresOdds || underdog.enabled
+            ? " (sample odds 1.80 / 3.60 / 4.50)"
+            : ""}
+        </Label>
+        {previewError ? (
+          <p className="text-xs text-destructive">
+            {(previewError as Error).message}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Prediction</TableHead>
+                <TableHead>Result</TableHead>
+                <TableHead className="text-right">Points</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(previewData?.data.rows ?? []).map((row, i) => (
+                <TableRow key={i}>
+                  <TableCell className="font-mono">{row.prediction}</TableCell>
+                  <TableCell className="font-mono">{row.result}</TableCell>
+                  <TableCell className="text-right font-medium">
+                    {row.points}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ─── Joker Fields (shared by wizard + dialog) ─────────────────────────────────
+
+/** Empty/invalid input → undefined so the server keeps its default. */
+function toJokerFixturesPerCard(value: string): number | undefined {
+  const num = Number(value);
+  return value.trim() !== "" && Number.isInteger(num) ? num : undefined;
+}
+
+function JokerFields({
+  joker,
+  onJokerChange,
+}: {
+  joker: { mode: string; fixturesPerCard: string };
+  onJokerChange: (joker: { mode: string; fixturesPerCard: string }) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1.5">
+          <Label className="text-xs">Mode</Label>
+          <Select
+            value={joker.mode}
+            onValueChange={(mode) => onJokerChange({ ...joker, mode })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="off">Off</SelectItem>
+              <SelectItem value="round">One per round</SelectItem>
+              <SelectItem value="fixtures">One per N fixtures</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {joker.mode === "fixtures" && (
+          <div className="space-y-1.5">
+            <Label className="text-xs">Fixtures per joker (2–20)</Label>
+            <Input
+              type="number"
+              min={2}
+              max={20}
+              placeholder="5"
+              value={joker.fixturesPerCard}
+              onChange={(e) =>
+                onJokerChange({ ...joker, fixturesPerCard: e.target.value })
+              }
+            />
+          </div>
+        )}
       </div>
+      <p className="text-xs text-muted-foreground">
+        Members can mark one prediction per round or set as a joker to double
+        its points.
+      </p>
+    </div>
+  );
+}
+
+// ─── Side Market Fields (shared by wizard + dialog) ──────────────────────────
+
+type SideMarketPointsForm = {
+  bttsPoints: string;
+  overUnderPoints: string;
+  firstTeamToScorePoints: string;
+  advancePoints: string;
+};
+
+const SIDE_MARKET_FIELDS: Array<{ key: keyof SideMarketPointsForm; label: string }> = [
+  { key: "bttsPoints", label: "Both teams to score" },
+  { key: "overUnderPoints", label: "Over/under 2.5" },
+  { key: "firstTeamToScorePoints", label: "First team to score" },
+  { key: "advancePoints", label: "Who advances (two-legged ties)" },
+];
+
+/** Empty/invalid inputs → undefined so the server keeps the current value. */
+function toSideMarketPoints(form: SideMarketPointsForm) {
+  const toPoints = (value: string) => {
+    const num = Number(value);
+    return value.trim() !== "" && Number.isInteger(num) ? num : undefined;
+  };
+  return {
+    bttsPoints: toPoints(form.bttsPoints),
+    overUnderPoints: toPoints(form.overUnderPoints),
+    firstTeamToScorePoints: toPoints(form.firstTeamToScorePoints),
+    advancePoints: toPoints(form.advancePoints),
+  };
+}
+
+function SideMarketFields({
+  value,
+  onChange,
+}: {
+  value: SideMarketPointsForm;
+  onChange: (value: SideMarketPointsForm) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-4">
+        {SIDE_MARKET_FIELDS.map(({ key, label }) => (
+          <div key={key} className="space-y-1.5">
+            <Label className="text-xs">{label}</Label>
+            <Input
+              type="number"
+              min={0}
+              max={10}
+              placeholder="0"
+              value={value[key]}
+              onChange={(e) => onChange({ ...value, [key]: e.target.value })}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Extra picks next to the score, settled on the 90-minute result. 0
+        disables a market.
+      </p>
     </div>
   );
 }
@@ -2056,6 +2467,13 @@ function CreateWizard({
       correctDifferencePoints:
         Number(state.correctDifferencePoints) || undefined,
       outcomePoints: Number(state.outcomePoints) || undefined,
+      scoringStrategy: state.scoringStrategy,
+      scoringConfig: toScoringConfig(state.scoringConfig),
+      underdogBonus: state.underdogBonus,
+      underdogMaxMultiplier: toUnderdogMaxMultiplier(state.underdogMaxMultiplier),
+      jokerMode: state.jokerMode,
+      jokerFixturesPerCard: toJokerFixturesPerCard(state.jokerFixturesPerCard),
+      ...toSideMarketPoints(state.sideMarkets),
     };
 
     if (state.selectionMode === "games") {
@@ -2162,6 +2580,13 @@ function GroupSettingsDialog({
     outcomePoints: "",
     predictionMode: "",
     koRoundMode: "",
+    scoringStrategy: "classic",
+    scoringConfig: {} as Record<string, string>,
+    underdogBonus: false,
+    underdogMaxMultiplier: "",
+    jokerMode: "off",
+    jokerFixturesPerCard: "",
+    sideMarkets: { bttsPoints: "", overUnderPoints: "", firstTeamToScorePoints: "", advancePoints: "" },
     maxMembers: "",
     inviteAccess: "",
     nudgeEnabled: false,
@@ -2177,6 +2602,20 @@ function GroupSettingsDialog({
       outcomePoints: String(rules.outcomePoints),
       predictionMode: rules.predictionMode,
       koRoundMode: rules.koRoundMode,
+      scoringStrategy: rules.scoringStrategy,
+      scoringConfig: Object.fromEntries(
+        Object.entries(rules.scoringConfig).map(([k, v]) => [k, String(v)])
+      ),
+      underdogBonus: rules.underdogBonus,
+      underdogMaxMultiplier: String(rules.underdogMaxMultiplier),
+      jokerMode: rules.jokerMode,
+      jokerFixturesPerCard: String(rules.jokerFixturesPerCard),
+      sideMarkets: {
+        bttsPoints: String(rules.bttsPoints),
+        overUnderPoints: String(rules.overUnderPoints),
+        firstTeamToScorePoints: String(rules.firstTeamToScorePoints),
+        advancePoints: String(rules.advancePoints),
+      },
       maxMembers: String(rules.maxMembers),
       inviteAccess: rules.inviteAccess,
       nudgeEnabled: rules.nudgeEnabled,
@@ -2207,6 +2646,13 @@ function GroupSettingsDialog({
           outcomePoints: Number(form.outcomePoints),
           predictionMode: form.predictionMode,
           koRoundMode: form.koRoundMode,
+          scoringStrategy: form.scoringStrategy,
+          scoringConfig: toScoringConfig(form.scoringConfig),
+          underdogBonus: form.underdogBonus,
+          underdogMaxMultiplier: toUnderdogMaxMultiplier(form.underdogMaxMultiplier),
+          jokerMode: form.jokerMode,
+          jokerFixturesPerCard: toJokerFixturesPerCard(form.jokerFixturesPerCard),
+          ...toSideMarketPoints(form.sideMarkets),
           maxMembers: Number(form.maxMembers),
           inviteAccess: form.inviteAccess,
           nudgeEnabled: form.nudgeEnabled,
@@ -2322,6 +2768,64 @@ function GroupSettingsDialog({
               </div>
             </div>
 
+            {/* Scoring Strategy */}
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Scoring Strategy</Label>
+              <ScoringStrategyFields
+                strategy={form.scoringStrategy}
+                config={form.scoringConfig}
+                predictionMode={form.predictionMode}
+                points={form}
+                onStrategyChange={(v) =>
+                  setForm((f) => ({ ...f, scoringStrategy: v, scoringConfig: {} }))
+                }
+                onConfigChange={(key, value) =>
+                  setForm((f) => ({
+                    ...f,
+                    scoringConfig: { ...f.scoringConfig, [key]: value },
+                  }))
+                }
+                underdog={{
+                  enabled: form.underdogBonus,
+                  maxMultiplier: form.underdogMaxMultiplier,
+                }}
+                onUnderdogChange={(next) =>
+                  setForm((f) => ({
+                    ...f,
+                    underdogBonus: next.enabled,
+                    underdogMaxMultiplier: next.maxMultiplier,
+                  }))
+                }
+              />
+            </div>
+
+            {/* Joker Card */}
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Joker Card</Label>
+              <JokerFields
+                joker={{
+                  mode: form.jokerMode,
+                  fixturesPerCard: form.jokerFixturesPerCard,
+                }}
+                onJokerChange={(next) =>
+                  setForm((f) => ({
+                    ...f,
+                    jokerMode: next.mode,
+                    jokerFixturesPerCard: next.fixturesPerCard,
+                  }))
+                }
+              />
+            </div>
+
+            {/* Side Markets */}
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Side Markets</Label>
+              <SideMarketFields
+                value={form.sideMarkets}
+                onChange={(sideMarkets) => setForm((f) => ({ ...f, sideMarkets }))}
+              />
+            </div>
+
             {/* Game Rules */}
             <div className="space-y-2">
               <Label className="text-sm font-medium">Game Rules</Label>
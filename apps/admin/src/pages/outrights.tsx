@@ -0,0 +1,291 @@
+import * as React from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { outrightsService } from "@/services/outrights.service";
+import type { AdminOutrightSeasonItem } from "@repo/types";
+import { Loader2 } from "lucide-react";
+
+const MARKET_LABELS: Record<string, string> = {
+  champion: "Champion",
+  top4: "Top 4",
+  relegation: "Relegation",
+};
+
+function SeasonStatus({ season }: { season: AdminOutrightSeasonItem }) {
+  if (season.unsettledCount === 0) {
+    return <Badge variant="secondary">Settled</Badge>;
+  }
+  if (!season.hasEnded) {
+    return <Badge variant="outline">In progress</Badge>;
+  }
+  return <Badge variant="destructive">Awaiting settlement</Badge>;
+}
+
+/**
+ * Settlement dialog: previews the result of every outright market in the season
+ * from the provider standings, then confirms it.
+ */
+function SettlementDialog({
+  season,
+  onClose,
+}: {
+  season: AdminOutrightSeasonItem;
+  onClose: () => void;
+}) {
+  const queryClient = useQueryClient();
+
+  const {
+    data: preview,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ["outright-settlement", season.seasonId],
+    queryFn: () => outrightsService.previewSettlement(season.seasonId),
+    retry: false,
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: () => outrightsService.confirmSettlement(season.seasonId),
+    onSuccess: () => {
+      toast.success(`Settled outrights for ${season.seasonName}`);
+      queryClient.invalidateQueries({ queryKey: ["outright-seasons"] });
+      onClose();
+    },
+    onError: (err: Error) => {
+      toast.error("Failed to settle outrights", { description: err.message });
+    },
+  });
+
+  const items = preview?.data.items ?? [];
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>
+            Settle {season.leagueName ?? "season"} {season.seasonName}
+          </DialogTitle>
+          <DialogDescription>
+            Results are taken from the current provider standings. Confirming
+            stores the points and updates every affected group ranking.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="text-sm text-destructive">
+            {(error as Error).message}
+          </div>
+        ) : (
+          <div className="max-h-[50vh] overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Group</TableHead>
+                  <TableHead>Market</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead className="text-right">Picks</TableHead>
+                  <TableHead className="text-right">Points</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => (
+                  <TableRow key={item.outrightId}>
+                    <TableCell>
+                      <div className="font-medium">{item.groupName}</div>
+                      {item.settledAt && (
+                        <div className="text-xs text-muted-foreground">
+                          Settled{" "}
+                          {new Date(item.settledAt * 1000).toLocaleString()}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {MARKET_LABELS[item.market] ?? item.market}
+                      <div className="text-xs text-muted-foreground">
+                        {item.points} pts per team
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {item.resultTeams.map((t) => t.name).join(", ") || "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {item.winnerCount}/{item.pickCountTotal}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      {item.pointsAwarded}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onClose}
+            disabled={confirmMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => confirmMutation.mutate()}
+            disabled={!preview || confirmMutation.isPending}
+          >
+            {confirmMutation.isPending && (
+              <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+            )}
+            {season.unsettledCount === 0 ? "Re-settle" : "Confirm settlement"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function OutrightsPage() {
+  const [settling, setSettling] =
+    React.useState<AdminOutrightSeasonItem | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["outright-seasons"],
+    queryFn: () => outrightsService.listSeasons(),
+  });
+
+  const seasons = data?.data ?? [];
+
+  return (
+    <div className="h-full w-full p-4 sm:p-6 md:p-8">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold">Outrights</h1>
+          <p className="text-sm text-muted-foreground">
+            Season-long group predictions. Settle each season once its end date
+            has passed and the final standings are in.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Seasons ({seasons.length})</CardTitle>
+            <CardDescription>
+              Seasons with at least one outright market
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                {Array.from({ length: 5 }).map((_, i) => (
+                  <Skeleton key={i} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : seasons.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                No outright markets yet
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Season</TableHead>
+                      <TableHead>Ends</TableHead>
+                      <TableHead>Groups</TableHead>
+                      <TableHead>Markets</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {seasons.map((season) => (
+                      <TableRow key={season.seasonId}>
+                        <TableCell>
+                          <div className="font-medium">
+                            {season.leagueName ?? "—"}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {season.seasonName}
+                          </div>
+                        </TableCell>
+                        <TableCell>{season.endDate}</TableCell>
+                        <TableCell>{season.groupCount}</TableCell>
+                        <TableCell>
+                          {season.outrightCount}
+                          {season.unsettledCount > 0 && (
+                            <span className="text-xs text-muted-foreground">
+                              {" "}
+                              ({season.unsettledCount} unsettled)
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <SeasonStatus season={season} />
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={!season.hasEnded}
+                            title={
+                              season.hasEnded
+                                ? undefined
+                                : "Available after the season end date"
+                            }
+                            onClick={() => setSettling(season)}
+                          >
+                            {season.unsettledCount === 0 ? "Review" : "Settle"}
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {settling && (
+          <SettlementDialog
+            season={settling}
+            onClose={() => setSettling(null)}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import type {
   AdminFixtureResponse,
   AdminFixtureAuditLogResponse,
   AdminFixtureResettleResponse,
+  AdminFixtureResettlePreviewResponse,
+  AdminFixtureLedgerResponse,
   AdminFixtureGroupsSummaryResponse,
   AdminProviderFixturesResponse,
   AdminBatchesListResponse,
@@ -215,6 +217,18 @@ export const fixturesService = {
     );
   },
 
+  async getResettlePreview(
+    id: number | string
+  ): Promise<AdminFixtureResettlePreviewResponse> {
+    return apiGet<AdminFixtureResettlePreviewResponse>(
+      `/admin/fixtures/${id}/resettle/preview`
+    );
+  },
+
+  async getLedger(id: number | string): Promise<AdminFixtureLedgerResponse> {
+    return apiGet<AdminFixtureLedgerResponse>(`/admin/fixtures/${id}/ledger`);
+  },
+
   async getGroupsSummary(
     id: number | string
   ): Promise<AdminFixtureGroupsSummaryResponse> {
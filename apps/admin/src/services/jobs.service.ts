@@ -2,10 +2,12 @@ import { apiGet, apiPatch, apiPost } from "@/lib/adminApi";
 import type {
   AdminBatchItemsResponse,
   AdminJobDetailResponse,
+  AdminJobQueueListResponse,
   AdminJobRunResponse,
   AdminJobsListResponse,
   AdminJobRunsListResponse,
   AdminRunAllJobsResponse,
+  AdminRequeueJobResponse,
   AdminRunJobResponse,
   AdminUpdateJobResponse,
 } from "@repo/types";
@@ -24,6 +26,12 @@ export type GetJobRunsForJobParams = {
   status?: string;
 };
 
+export type GetJobQueueParams = {
+  jobKey?: string;
+  status?: "queued" | "running" | "succeeded" | "dead";
+  limit?: number;
+};
+
 export type GetRunItemsParams = {
   page?: number;
   perPage?: number;
@@ -109,6 +117,33 @@ export const jobsService = {
     return apiPost<AdminRunAllJobsResponse>("/admin/jobs/run-all", { dryRun });
   },
 
+  async getQueue(
+    params: GetJobQueueParams = {}
+  ): Promise<AdminJobQueueListResponse> {
+    const sp = new URLSearchParams();
+    if (params.jobKey) sp.set("jobKey", params.jobKey);
+    if (params.status) sp.set("status", params.status);
+    if (typeof params.limit === "number") sp.set("limit", String(params.limit));
+    const qs = sp.toString();
+    return apiGet<AdminJobQueueListResponse>(
+      `/admin/jobs/queue${qs ? `?${qs}` : ""}`
+    );
+  },
+
+  async requeueRun(runId: number): Promise<AdminRequeueJobResponse> {
+    return apiPost<AdminRequeueJobResponse>(
+      `/admin/jobs/runs/${runId}/requeue`,
+      {}
+    );
+  },
+
+  async requeueQueueEntry(queueId: number): Promise<AdminRequeueJobResponse> {
+    return apiPost<AdminRequeueJobResponse>(
+      `/admin/jobs/queue/${queueId}/requeue`,
+      {}
+    );
+  },
+
   async updateJob(
     jobId: string,
     patch: {
@@ -13,6 +13,9 @@ import type {
   AdminUpdateOfficialGroupRulesBody,
   AdminUpdateOfficialGroupRulesResponse,
   AdminOfficialGroupFixturePredictionsResponse,
+  ApiScoringStrategiesResponse,
+  ApiScoringPreviewBody,
+  ApiScoringPreviewResponse,
 } from "@repo/types";
 
 export const officialGroupsService = {
@@ -25,6 +28,21 @@ export const officialGroupsService = {
     );
   },
 
+  async getScoringStrategies(): Promise<ApiScoringStrategiesResponse> {
+    return apiGet<ApiScoringStrategiesResponse>(
+      "/admin/official-groups/scoring-strategies"
+    );
+  },
+
+  async previewScoring(
+    body: ApiScoringPreviewBody
+  ): Promise<ApiScoringPreviewResponse> {
+    return apiPost<ApiScoringPreviewResponse>(
+      "/admin/official-groups/scoring-preview",
+      body
+    );
+  },
+
   async get(id: number): Promise<AdminCreateOfficialGroupResponse> {
     return apiGet<AdminCreateOfficialGroupResponse>(
       `/admin/official-groups/${id}`
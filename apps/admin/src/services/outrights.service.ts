@@ -0,0 +1,27 @@
+import { apiGet, apiPost } from "@/lib/adminApi";
+import type {
+  AdminOutrightSeasonsResponse,
+  AdminOutrightSettlementResponse,
+} from "@repo/types";
+
+export const outrightsService = {
+  async listSeasons(): Promise<AdminOutrightSeasonsResponse> {
+    return apiGet<AdminOutrightSeasonsResponse>("/admin/outrights/seasons");
+  },
+
+  async previewSettlement(
+    seasonId: number
+  ): Promise<AdminOutrightSettlementResponse> {
+    return apiGet<AdminOutrightSettlementResponse>(
+      `/admin/outrights/seasons/${seasonId}/settlement`
+    );
+  },
+
+  async confirmSettlement(
+    seasonId: number
+  ): Promise<AdminOutrightSettlementResponse> {
+    return apiPost<AdminOutrightSettlementResponse>(
+      `/admin/outrights/seasons/${seasonId}/settlement`
+    );
+  },
+};
@@ -3,3 +3,10 @@ export function normalizeResult(result: string | null | undefined): string {
   if (!result) return "";
   return result.trim().replace(/:/g, "-");
 }
+
+// Finished states that can be (re-)settled
+const SETTLEABLE_STATES = new Set(["FT", "AET", "FT_PEN"]);
+
+export function isSettleableState(state: string | null | undefined): boolean {
+  return !!state && SETTLEABLE_STATES.has(state);
+}
@@ -152,6 +152,26 @@ function AppContent() {
                 name="groups/[id]/ranking"
                 options={{ headerShown: false }}
               />
+              <Stack.Screen
+                name="groups/[id]/all-time"
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen
+                name="groups/[id]/bracket"
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen
+                name="groups/[id]/rounds"
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen
+                name="groups/[id]/sub-leagues/index"
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen
+                name="groups/[id]/sub-leagues/[subLeagueId]"
+                options={{ headerShown: false }}
+              />
               <Stack.Screen
                 name="groups/[id]/predictions-overview"
                 options={{
@@ -0,0 +1,30 @@
+// app/groups/[id]/all-time.tsx
+// Route wrapper for the all-time table across a group's seasons.
+
+import React from "react";
+import { useLocalSearchParams } from "expo-router";
+import { useTranslation } from "react-i18next";
+import { ScreenWithHeader } from "@/components/ui";
+import { GroupAllTimeScreen } from "@/features/groups/ranking";
+import { ErrorBoundary } from "@/components/ErrorBoundary";
+
+export default function GroupAllTimeRoute() {
+  return (
+    <ErrorBoundary feature="group-all-time">
+      <AllTimeContent />
+    </ErrorBoundary>
+  );
+}
+
+function AllTimeContent() {
+  const params = useLocalSearchParams<{ id: string }>();
+  const groupId =
+    params.id && !isNaN(Number(params.id)) ? Number(params.id) : null;
+
+  const { t } = useTranslation("common");
+  return (
+    <ScreenWithHeader title={t("ranking.allTime")}>
+      <GroupAllTimeScreen groupId={groupId} />
+    </ScreenWithHeader>
+  );
+}
@@ -0,0 +1,30 @@
+// app/groups/[id]/bracket.tsx
+// Route wrapper for a group's head-to-head bracket.
+
+import React from "react";
+import { useLocalSearchParams } from "expo-router";
+import { useTranslation } from "react-i18next";
+import { ScreenWithHeader } from "@/components/ui";
+import { GroupBracketScreen } from "@/features/groups/ranking";
+import { ErrorBoundary } from "@/components/ErrorBoundary";
+
+export default function GroupBracketRoute() {
+  return (
+    <ErrorBoundary feature="group-bracket">
+      <BracketContent />
+    </ErrorBoundary>
+  );
+}
+
+function BracketContent() {
+  const params = useLocalSearchParams<{ id: string }>();
+  const groupId =
+    params.id && !isNaN(Number(params.id)) ? Number(params.id) : null;
+
+  const { t } = useTranslation("common");
+  return (
+    <ScreenWithHeader title={t("ranking.bracket")}>
+      <GroupBracketScreen groupId={groupId} />
+    </ScreenWithHeader>
+  );
+}
@@ -0,0 +1,30 @@
+// app/groups/[id]/rounds.tsx
+// Route wrapper for a group's round / weekly leaderboards.
+
+import React from "react";
+import { useLocalSearchParams } from "expo-router";
+import { useTranslation } from "react-i18next";
+import { ScreenWithHeader } from "@/components/ui";
+import { GroupRoundRankingScreen } from "@/features/groups/ranking";
+import { ErrorBoundary } from "@/components/ErrorBoundary";
+
+export default function GroupRoundsRoute() {
+  return (
+    <ErrorBoundary feature="group-rounds">
+      <RoundsContent />
+    </ErrorBoundary>
+  );
+}
+
+function RoundsContent() {
+  const params = useLocalSearchParams<{ id: string; key?: string }>();
+  const groupId =
+    params.id && !isNaN(Number(params.id)) ? Number(params.id) : null;
+
+  const { t } = useTranslation("common");
+  return (
+    <ScreenWithHeader title={t("ranking.roundTables")}>
+      <GroupRoundRankingScreen groupId={groupId} initialKey={params.key} />
+    </ScreenWithHeader>
+  );
+}
@@ -0,0 +1,36 @@
+// app/groups/[id]/sub-leagues/[subLeagueId].tsx
+// Route wrapper for one sub-league (table and chat).
+
+import React from "react";
+import { useLocalSearchParams } from "expo-router";
+import { useTranslation } from "react-i18next";
+import { ScreenWithHeader } from "@/components/ui";
+import { SubLeagueScreen } from "@/features/groups/ranking";
+import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { useSubLeagueRankingQuery } from "@/domains/groups";
+
+export default function SubLeagueRoute() {
+  return (
+    <ErrorBoundary feature="sub-league">
+      <SubLeagueContent />
+    </ErrorBoundary>
+  );
+}
+
+function SubLeagueContent() {
+  const params = useLocalSearchParams<{ id: string; subLeagueId: string }>();
+  const groupId =
+    params.id && !isNaN(Number(params.id)) ? Number(params.id) : null;
+  const subLeagueId =
+    params.subLeagueId && !isNaN(Number(params.subLeagueId))
+      ? Number(params.subLeagueId)
+      : null;
+
+  const { t } = useTranslation("common");
+  const { data } = useSubLeagueRankingQuery(groupId, subLeagueId);
+  return (
+    <ScreenWithHeader title={data?.data.subLeague.name ?? t("subLeagues.title")}>
+      <SubLeagueScreen groupId={groupId} subLeagueId={subLeagueId} />
+    </ScreenWithHeader>
+  );
+}
@@ -0,0 +1,30 @@
+// app/groups/[id]/sub-leagues/index.tsx
+// Route wrapper for a group's sub-leagues.
+
+import React from "react";
+import { useLocalSearchParams } from "expo-router";
+import { useTranslation } from "react-i18next";
+import { ScreenWithHeader } from "@/components/ui";
+import { GroupSubLeaguesScreen } from "@/features/groups/ranking";
+import { ErrorBoundary } from "@/components/ErrorBoundary";
+
+export default function GroupSubLeaguesRoute() {
+  return (
+    <ErrorBoundary feature="group-sub-leagues">
+      <SubLeaguesContent />
+    </ErrorBoundary>
+  );
+}
+
+function SubLeaguesContent() {
+  const params = useLocalSearchParams<{ id: string }>();
+  const groupId =
+    params.id && !isNaN(Number(params.id)) ? Number(params.id) : null;
+
+  const { t } = useTranslation("common");
+  return (
+    <ScreenWithHeader title={t("subLeagues.title")}>
+      <GroupSubLeaguesScreen groupId={groupId} />
+    </ScreenWithHeader>
+  );
+}
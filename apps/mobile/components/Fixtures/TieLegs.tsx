@@ -0,0 +1,99 @@
+// components/Fixtures/TieLegs.tsx
+// Both legs of a two-legged tie with their scores, the aggregate and the team that advanced.
+
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { View, StyleSheet } from "react-native";
+import type { ApiFixtureTie } from "@repo/types";
+import { AppText } from "@/components/ui";
+import { useTheme, spacing } from "@/lib/theme";
+import { formatDate } from "@/utils/date";
+
+interface TieLegsProps {
+  tie: ApiFixtureTie;
+  /** Team names by id (the tie's two teams). */
+  teamNames: Record<number, string>;
+  /** Leg to highlight (e.g. the match being viewed). */
+  currentFixtureId?: number;
+}
+
+export function TieLegs({ tie, teamNames, currentFixtureId }: TieLegsProps) {
+  const { t } = useTranslation("common");
+  const { theme } = useTheme();
+  const first = tie.legs[0];
+  const name = (teamId: number) => teamNames[teamId] ?? `#${teamId}`;
+
+  return (
+    <View>
+      {tie.legs.map((leg, index) => {
+        const hasScore = leg.homeScore != null && leg.awayScore != null;
+        const hasPens = leg.penHome != null && leg.penAway != null;
+        return (
+          <View
+            key={leg.fixtureId}
+            style={[
+              styles.legRow,
+              { borderColor: theme.colors.border },
+              leg.fixtureId === currentFixtureId && {
+                backgroundColor: theme.colors.surface,
+              },
+            ]}
+          >
+            <AppText variant="caption" color="secondary" style={styles.legLabel}>
+              {index === 0 ? t("ties.firstLeg") : t("ties.secondLeg")}
+            </AppText>
+            <AppText variant="body" style={styles.legTeams} numberOfLines={1}>
+              {name(leg.homeTeamId)}{" "}
+              {hasScore ? `${leg.homeScore} - ${leg.awayScore}` : "vs"}{" "}
+              {name(leg.awayTeamId)}
+            </AppText>
+            <AppText variant="caption" color="secondary">
+              {hasPens
+                ? t("ties.pens", { home: leg.penHome, away: leg.penAway })
+                : hasScore
+                  ? ""
+                  : formatDate(new Date(leg.startTs * 1000).toISOString())}
+            </AppText>
+          </View>
+        );
+      })}
+
+      {first && tie.aggregate && (
+        <AppText variant="body" style={styles.aggregate}>
+          {t("ties.aggregate", {
+            home: name(first.homeTeamId),
+            away: name(first.awayTeamId),
+            homeScore: tie.aggregate.home,
+            awayScore: tie.aggregate.away,
+          })}
+        </AppText>
+      )}
+      {tie.winnerTeamId != null && (
+        <AppText variant="caption" color="secondary">
+          {t("ties.advanced", { team: name(tie.winnerTeamId) })}
+        </AppText>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  legRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.sm,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.xs,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  legLabel: {
+    minWidth: 56,
+  },
+  legTeams: {
+    flex: 1,
+  },
+  aggregate: {
+    marginTop: spacing.sm,
+    fontWeight: "600",
+  },
+});
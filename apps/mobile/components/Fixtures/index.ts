@@ -3,3 +3,4 @@
 
 export { GameCardBase } from "./GameCardBase";
 export { useFixtureLayoutStyles, useFixtureThemeStyles } from "./styles";
+export { TieLegs } from "./TieLegs";
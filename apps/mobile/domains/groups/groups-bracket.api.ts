@@ -0,0 +1,32 @@
+// domains/groups/groups-bracket.api.ts
+// API calls for a group's head-to-head knockout bracket.
+
+import type { ApiGroupBracketResponse } from "@repo/types";
+import { apiFetchWithAuthRetry } from "@/lib/http/apiClient";
+
+/**
+ * Fetch the group's bracket (data is null when none was started).
+ * - Requires authentication.
+ * - Verifies that the user is a group member.
+ */
+export async function fetchGroupBracket(
+  groupId: number
+): Promise<ApiGroupBracketResponse> {
+  return apiFetchWithAuthRetry<ApiGroupBracketResponse>(
+    `/api/groups/${groupId}/bracket`,
+    { method: "GET" }
+  );
+}
+
+/**
+ * Start the group's bracket, seeding members from the current ranking.
+ * - Requires authentication; creator only.
+ */
+export async function startGroupBracket(
+  groupId: number
+): Promise<ApiGroupBracketResponse> {
+  return apiFetchWithAuthRetry<ApiGroupBracketResponse>(
+    `/api/groups/${groupId}/bracket`,
+    { method: "POST" }
+  );
+}
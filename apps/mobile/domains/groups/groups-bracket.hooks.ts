@@ -0,0 +1,56 @@
+// domains/groups/groups-bracket.hooks.ts
+// React Query hooks for a group's head-to-head knockout bracket.
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { ApiGroupBracketResponse } from "@repo/types";
+import type { ApiError } from "@/lib/http/apiError";
+import { useAuth } from "@/lib/auth/useAuth";
+import { isReadyForProtected } from "@/lib/auth/guards";
+import { fetchGroupBracket, startGroupBracket } from "./groups-bracket.api";
+import { groupsKeys } from "./groups.keys";
+import { analytics } from "@/lib/analytics";
+
+/**
+ * Hook to fetch the group's bracket.
+ * - Enabled only when authenticated and onboarding complete and groupId is valid.
+ */
+export function useGroupBracketQuery(groupId: number | null) {
+  const { status, user } = useAuth();
+
+  const enabled =
+    isReadyForProtected(status, user) &&
+    groupId != null &&
+    !Number.isNaN(groupId);
+
+  return useQuery<ApiGroupBracketResponse, ApiError>({
+    queryKey: groupsKeys.bracket(groupId ?? 0),
+    queryFn: () => fetchGroupBracket(groupId as number),
+    enabled,
+    staleTime: 60_000,
+    meta: { scope: "user" },
+  });
+}
+
+/**
+ * Hook to start the group's bracket.
+ * - Creator only.
+ * - Seeds the bracket cache with the response.
+ */
+export function useStartGroupBracketMutation(groupId: number | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation<ApiGroupBracketResponse, ApiError, void>({
+    mutationFn: () => {
+      if (!groupId) {
+        throw new Error("Group ID is required");
+      }
+      return startGroupBracket(groupId);
+    },
+    onSuccess: (response) => {
+      if (groupId) {
+        queryClient.setQueryData(groupsKeys.bracket(groupId), response);
+      }
+      analytics.track("group_bracket_started", { groupId });
+    },
+  });
+}
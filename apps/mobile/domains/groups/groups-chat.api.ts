@@ -62,3 +62,17 @@ export async function markMessagesAsRead(
     body: { lastReadMessageId },
   });
 }
+
+/**
+ * Share the current user's prediction for a group fixture as a chat card.
+ * - Others see the pick after kickoff, or immediately with revealNow.
+ */
+export async function sharePredictionInChat(
+  groupId: number,
+  body: { fixtureId: number; revealNow?: boolean }
+): Promise<{ data: ChatMessage }> {
+  return apiFetchWithAuthRetry<{ data: ChatMessage }>(
+    `/api/groups/${groupId}/messages/prediction`,
+    { method: "POST", body }
+  );
+}
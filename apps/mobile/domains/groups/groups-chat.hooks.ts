@@ -1,5 +1,6 @@
 import {
   useInfiniteQuery,
+  useMutation,
   useQuery,
   useQueryClient,
 } from "@tanstack/react-query";
@@ -8,13 +9,18 @@ import { analytics } from "@/lib/analytics";
 import { useAuth } from "@/lib/auth/useAuth";
 import { useAppIsActive } from "@/lib/hooks/useAppIsActive";
 import { isReadyForProtected } from "@/lib/auth/guards";
-import type { ChatMessage, MentionData } from "@/lib/socket";
+import type {
+  ChatMessage,
+  MentionData,
+  MessageReactionPayload,
+} from "@/lib/socket";
 import { useGroupSocket } from "@/lib/socket";
 import {
   fetchGroupMessages,
   fetchUnreadCounts,
   fetchGroupChatPreview,
   markMessagesAsRead,
+  sharePredictionInChat,
 } from "./groups-chat.api";
 import { groupsKeys } from "./groups.keys";
 import type { ApiError } from "@/lib/http/apiError";
@@ -27,6 +33,29 @@ let messageCounter = 0;
 const MESSAGES_PAGE_SIZE = 30;
 const TYPING_INDICATOR_TIMEOUT_MS = 5000;
 const OPTIMISTIC_MESSAGE_TIMEOUT_MS = 10_000;
+/** Mirrors the server's edit window; the server is authoritative. */
+export const CHAT_EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+type MessagesCache = { pages: { data: ChatMessage[] }[]; pageParams: unknown[] };
+
+/** Apply `update` to the cached message with `messageId`, on whichever page it is. */
+function updateCachedMessage(
+  old: MessagesCache | undefined,
+  messageId: number,
+  update: (message: ChatMessage) => ChatMessage
+): MessagesCache | undefined {
+  if (!old) return old;
+  let changed = false;
+  const pages = old.pages.map((page) => {
+    const idx = page.data.findIndex((m) => m.id === messageId);
+    if (idx < 0) return page;
+    changed = true;
+    const data = [...page.data];
+    data[idx] = update(data[idx]);
+    return { data };
+  });
+  return changed ? { ...old, pages } : old;
+}
 
 /**
  * Fetch messages for a group with cursor-based pagination.
@@ -109,6 +138,44 @@ export function useGroupChatPreviewQuery() {
   });
 }
 
+/**
+ * Share the current user's prediction for a group fixture into the chat.
+ * - The returned card is added to the messages cache (the socket echo is deduped by id).
+ */
+export function useSharePredictionMutation(groupId: number | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    { data: ChatMessage },
+    ApiError,
+    { fixtureId: number; revealNow?: boolean }
+  >({
+    mutationFn: (body) => {
+      if (!groupId) {
+        throw new Error("Group ID is required");
+      }
+      return sharePredictionInChat(groupId, body);
+    },
+    onSuccess: ({ data: message }) => {
+      if (!groupId) return;
+      queryClient.setQueryData(
+        groupsKeys.messages(groupId),
+        (old: MessagesCache | undefined) => {
+          if (!old) return old;
+          if (old.pages.some((p) => p.data.some((m) => m.id === message.id))) {
+            return old;
+          }
+          const [first, ...rest] = old.pages;
+          return {
+            ...old,
+            pages: [{ data: [message, ...(first?.data ?? [])] }, ...rest],
+          };
+        }
+      );
+    },
+  });
+}
+
 type TypingUser = { userId: number; username: string | null };
 
 /**
@@ -205,6 +272,8 @@ export function useGroupChat(groupId: number | null) {
     };
 
     const handleMessageNewWithPreview = (message: ChatMessage) => {
+      // Own prediction shares also arrive on the user room, for any group
+      if (message.groupId !== groupId) return;
       handleMessageNew(message);
 
       // Also update the chat preview cache so the lobby bar shows the latest message
@@ -239,9 +308,38 @@ export function useGroupChat(groupId: number | null) {
       );
     };
 
+    // Edits and deletions replace the whole message; reactions only touch the summary
+    const handleMessageUpdated = (message: ChatMessage) => {
+      if (message.groupId !== groupId) return;
+      queryClient.setQueryData(
+        groupsKeys.messages(groupId),
+        (old: MessagesCache | undefined) =>
+          updateCachedMessage(old, message.id, () => message)
+      );
+      if (message.deletedAt) {
+        queryClient.invalidateQueries({ queryKey: groupsKeys.chatPreview() });
+      }
+    };
+
+    const handleMessageReaction = (payload: MessageReactionPayload) => {
+      if (payload.groupId !== groupId) return;
+      queryClient.setQueryData(
+        groupsKeys.messages(groupId),
+        (old: MessagesCache | undefined) =>
+          updateCachedMessage(old, payload.messageId, (m) => ({
+            ...m,
+            reactions: payload.reactions,
+          }))
+      );
+    };
+
     socket.on("message:new", handleMessageNewWithPreview);
+    socket.on("message:updated", handleMessageUpdated);
+    socket.on("message:reaction", handleMessageReaction);
     return () => {
       socket.off("message:new", handleMessageNewWithPreview);
+      socket.off("message:updated", handleMessageUpdated);
+      socket.off("message:reaction", handleMessageReaction);
       // Clear all pending optimistic message timeouts
       pendingMessagesRef.current.forEach((timer) => clearTimeout(timer));
       pendingMessagesRef.current.clear();
@@ -291,7 +389,7 @@ export function useGroupChat(groupId: number | null) {
   }, [socket, groupId]);
 
   const sendMessage = useCallback(
-    (body: string, mentions?: MentionData[]) => {
+    (body: string, mentions?: MentionData[], replyTo?: ChatMessage | null) => {
       if (!socket || !groupId || !user) return;
 
       messageCounter += 1;
@@ -309,6 +407,20 @@ export function useGroupChat(groupId: number | null) {
           username: user.username ?? null,
           image: user.image ?? null,
         },
+        replyTo: replyTo
+          ? {
+              id: replyTo.id,
+              body: replyTo.body,
+              deleted: false,
+              sender: replyTo.sender
+                ? { id: replyTo.sender.id, username: replyTo.sender.username }
+                : null,
+            }
+          : null,
+        reactions: [],
+        editedAt: null,
+        deletedAt: null,
+        prediction: null,
         tempId,
       };
 
@@ -371,6 +483,7 @@ export function useGroupChat(groupId: number | null) {
         groupId,
         body,
         mentions,
+        replyToId: replyTo?.id,
         tempId,
       });
 
@@ -407,6 +520,30 @@ export function useGroupChat(groupId: number | null) {
     [socket, groupId, user, queryClient]
   );
 
+  const editMessage = useCallback(
+    (messageId: number, body: string, mentions?: MentionData[]) => {
+      if (!socket || !groupId) return;
+      socket.emit("message:edit", { groupId, messageId, body, mentions });
+    },
+    [socket, groupId]
+  );
+
+  const deleteMessage = useCallback(
+    (messageId: number) => {
+      if (!socket || !groupId) return;
+      socket.emit("message:delete", { groupId, messageId });
+    },
+    [socket, groupId]
+  );
+
+  const toggleReaction = useCallback(
+    (messageId: number, emoji: string) => {
+      if (!socket || !groupId) return;
+      socket.emit("message:react", { groupId, messageId, emoji });
+    },
+    [socket, groupId]
+  );
+
   const markAsRead = useCallback(
     async (lastReadMessageId: number) => {
       if (!groupId) return;
@@ -480,6 +617,9 @@ export function useGroupChat(groupId: number | null) {
   return {
     messages,
     sendMessage,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
     typingUsers,
     triggerTypingStart,
     triggerTypingStop,
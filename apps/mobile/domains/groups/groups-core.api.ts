@@ -17,6 +17,9 @@ import type {
   ApiGroupGamesFiltersResponse,
   ApiGroupPreviewBody,
   ApiGroupPreviewResponse,
+  ApiScoringStrategiesResponse,
+  ApiScoringPreviewBody,
+  ApiScoringPreviewResponse,
 } from "@repo/types";
 import { apiFetchWithAuthRetry } from "@/lib/http/apiClient";
 import { buildQuery } from "@/lib/http/queryBuilder";
@@ -195,3 +198,29 @@ export async function fetchGroupPreview(
     body,
   });
 }
+
+/**
+ * Fetch available scoring strategies and their configurable fields.
+ */
+export async function fetchScoringStrategies(): Promise<ApiScoringStrategiesResponse> {
+  return apiFetchWithAuthRetry<ApiScoringStrategiesResponse>(
+    "/api/groups/scoring-strategies",
+    { method: "GET" }
+  );
+}
+
+/**
+ * Preview points for a scoring strategy/config on sample predictions.
+ * Read-only; fails with 400 when the config is invalid.
+ */
+export async function fetchScoringPreview(
+  body: ApiScoringPreviewBody
+): Promise<ApiScoringPreviewResponse> {
+  return apiFetchWithAuthRetry<ApiScoringPreviewResponse>(
+    "/api/groups/scoring-preview",
+    {
+      method: "POST",
+      body,
+    }
+  );
+}
@@ -17,6 +17,9 @@ import type {
   ApiGroupGamesFiltersResponse,
   ApiGroupPreviewBody,
   ApiGroupPreviewResponse,
+  ApiScoringStrategiesResponse,
+  ApiScoringPreviewBody,
+  ApiScoringPreviewResponse,
 } from "@repo/types";
 import type { ApiError } from "@/lib/http/apiError";
 import { analytics } from "@/lib/analytics";
@@ -34,6 +37,8 @@ import {
   fetchGroupLobbySummary,
   fetchGroupGamesFilters,
   fetchGroupPreview,
+  fetchScoringStrategies,
+  fetchScoringPreview,
 } from "./groups-core.api";
 import { groupsKeys } from "./groups.keys";
 
@@ -365,3 +370,43 @@ export function useGroupPreviewQuery(body: ApiGroupPreviewBody) {
     meta: { scope: "user" },
   });
 }
+
+/**
+ * Hook to fetch the scoring strategy catalogue (static, cached for the session).
+ */
+export function useScoringStrategiesQuery() {
+  const { status, user } = useAuth();
+
+  const enabled = isReadyForProtected(status, user);
+
+  return useQuery<ApiScoringStrategiesResponse, ApiError>({
+    queryKey: groupsKeys.scoringStrategies(),
+    queryFn: fetchScoringStrategies,
+    enabled,
+    staleTime: Infinity,
+    meta: { scope: "user" },
+  });
+}
+
+/**
+ * Hook to preview sample points for a scoring strategy/config.
+ * - Keeps the previous preview while a new config is loading.
+ */
+export function useScoringPreviewQuery(
+  body: ApiScoringPreviewBody,
+  options?: { enabled?: boolean }
+) {
+  const { status, user } = useAuth();
+
+  const enabled =
+    isReadyForProtected(status, user) && (options?.enabled ?? true);
+
+  return useQuery<ApiScoringPreviewResponse, ApiError>({
+    queryKey: groupsKeys.scoringPreview(body),
+    queryFn: () => fetchScoringPreview(body),
+    enabled,
+    staleTime: 60_000,
+    placeholderData: keepPreviousData,
+    meta: { scope: "user" },
+  });
+}
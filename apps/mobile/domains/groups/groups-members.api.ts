@@ -2,6 +2,7 @@
 // API calls for group members, ranking, and nudge.
 
 import type {
+  ApiRankingMode,
   ApiRankingResponse,
   ApiGroupMembersResponse,
   ApiNudgeBody,
@@ -30,12 +31,14 @@ export async function fetchGroupMembers(
  * - Requires authentication.
  * - Verifies that the user is a group member.
  * - Returns ranking with all joined members and aggregated stats.
+ * - mode "live" adds provisional points from in-play fixtures.
  */
 export async function fetchGroupRanking(
-  groupId: number
+  groupId: number,
+  mode: ApiRankingMode = "settled"
 ): Promise<ApiRankingResponse> {
   return apiFetchWithAuthRetry<ApiRankingResponse>(
-    `/api/groups/${groupId}/ranking`,
+    `/api/groups/${groupId}/ranking?mode=${mode}`,
     {
       method: "GET",
     }
@@ -4,6 +4,7 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useRouter } from "expo-router";
 import type {
+  ApiRankingMode,
   ApiRankingResponse,
   ApiGroupMembersResponse,
   ApiNudgeBody,
@@ -25,8 +26,12 @@ import { analytics } from "@/lib/analytics";
 /**
  * Hook to fetch group ranking.
  * - Enabled only when authenticated and onboarding complete and groupId is valid.
+ * - mode "live" is cached under its own key (still invalidated with the settled ranking).
  */
-export function useGroupRankingQuery(groupId: number | null) {
+export function useGroupRankingQuery(
+  groupId: number | null,
+  mode: ApiRankingMode = "settled"
+) {
   const { status, user } = useAuth();
 
   const enabled =
@@ -35,8 +40,11 @@ export function useGroupRankingQuery(groupId: number | null) {
     !Number.isNaN(groupId);
 
   return useQuery<ApiRankingResponse, ApiError>({
-    queryKey: groupsKeys.ranking(groupId ?? 0),
-    queryFn: () => fetchGroupRanking(groupId as number),
+    queryKey:
+      mode === "live"
+        ? groupsKeys.rankingLive(groupId ?? 0)
+        : groupsKeys.ranking(groupId ?? 0),
+    queryFn: () => fetchGroupRanking(groupId as number, mode),
     enabled,
     staleTime: 30_000,
     meta: { scope: "user" },
@@ -2,6 +2,7 @@
 // API calls for group predictions and predictions overview.
 
 import type {
+  ApiSideMarketPicks,
   ApiSaveGroupPredictionsBatchBody,
   ApiSaveGroupPredictionsBatchResponse,
   ApiPredictionsOverviewResponse,
@@ -16,7 +17,12 @@ import { apiFetchWithAuthRetry } from "@/lib/http/apiClient";
 export async function saveGroupPrediction(
   groupId: number,
   fixtureId: number,
-  prediction: { home: number; away: number }
+  prediction: {
+    home: number;
+    away: number;
+    isJoker?: boolean;
+    markets?: Partial<ApiSideMarketPicks>;
+  }
 ): Promise<{ status: "success"; message: string }> {
   return apiFetchWithAuthRetry<{ status: "success"; message: string }>(
     `/api/groups/${groupId}/predictions/${fixtureId}`,
@@ -3,6 +3,7 @@
 
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import type {
+  ApiSideMarketPicks,
   ApiSaveGroupPredictionsBatchBody,
   ApiSaveGroupPredictionsBatchResponse,
   ApiPredictionsOverviewResponse,
@@ -29,7 +30,15 @@ export function useSaveGroupPredictionMutation(groupId: number | null) {
   return useMutation<
     { status: "success"; message: string },
     ApiError,
-    { fixtureId: number; prediction: { home: number; away: number } }
+    {
+      fixtureId: number;
+      prediction: {
+        home: number;
+        away: number;
+        isJoker?: boolean;
+        markets?: Partial<ApiSideMarketPicks>;
+      };
+    }
   >({
     mutationFn: ({ fixtureId, prediction }) => {
       if (!groupId) {
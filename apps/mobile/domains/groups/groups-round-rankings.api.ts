@@ -0,0 +1,52 @@
+// domains/groups/groups-round-rankings.api.ts
+// API calls for round / weekly leaderboards, the round winners history and the ranking history.
+
+import type {
+  ApiPeriodRankingResponse,
+  ApiRankingHistoryResponse,
+  ApiRankingPeriod,
+  ApiRoundHistoryResponse,
+} from "@repo/types";
+import { apiFetchWithAuthRetry } from "@/lib/http/apiClient";
+
+/**
+ * Fetch the ranking of one round or ISO week.
+ * - Without a key, the latest period that has kicked off.
+ */
+export async function fetchPeriodRanking(
+  groupId: number,
+  period: ApiRankingPeriod,
+  key?: string
+): Promise<ApiPeriodRankingResponse> {
+  const params = new URLSearchParams({ period });
+  if (key) params.set("key", key);
+  return apiFetchWithAuthRetry<ApiPeriodRankingResponse>(
+    `/api/groups/${groupId}/ranking/period?${params.toString()}`,
+    { method: "GET" }
+  );
+}
+
+/**
+ * Fetch the group's decided rounds with their winners (most recent first).
+ */
+export async function fetchRoundHistory(
+  groupId: number
+): Promise<ApiRoundHistoryResponse> {
+  return apiFetchWithAuthRetry<ApiRoundHistoryResponse>(
+    `/api/groups/${groupId}/ranking/rounds`,
+    { method: "GET" }
+  );
+}
+
+/**
+ * Fetch every member's rank and points over time (timeline downsampled to maxPoints).
+ */
+export async function fetchRankingHistory(
+  groupId: number,
+  maxPoints: number
+): Promise<ApiRankingHistoryResponse> {
+  return apiFetchWithAuthRetry<ApiRankingHistoryResponse>(
+    `/api/groups/${groupId}/ranking/history?maxPoints=${maxPoints}`,
+    { method: "GET" }
+  );
+}
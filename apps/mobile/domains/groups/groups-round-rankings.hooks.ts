@@ -0,0 +1,88 @@
+// domains/groups/groups-round-rankings.hooks.ts
+// React Query hooks for round / weekly leaderboards, the round winners history and the ranking history.
+
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import type {
+  ApiPeriodRankingResponse,
+  ApiRankingHistoryResponse,
+  ApiRankingPeriod,
+  ApiRoundHistoryResponse,
+} from "@repo/types";
+import type { ApiError } from "@/lib/http/apiError";
+import { useAuth } from "@/lib/auth/useAuth";
+import { isReadyForProtected } from "@/lib/auth/guards";
+import {
+  fetchPeriodRanking,
+  fetchRankingHistory,
+  fetchRoundHistory,
+} from "./groups-round-rankings.api";
+import { groupsKeys } from "./groups.keys";
+
+/**
+ * Hook to fetch the ranking of one round or week (latest started without a key).
+ * - Keeps the previous period on screen while the next one loads.
+ */
+export function usePeriodRankingQuery(
+  groupId: number | null,
+  period: ApiRankingPeriod,
+  key?: string
+) {
+  const { status, user } = useAuth();
+
+  const enabled =
+    isReadyForProtected(status, user) &&
+    groupId != null &&
+    !Number.isNaN(groupId);
+
+  return useQuery<ApiPeriodRankingResponse, ApiError>({
+    queryKey: groupsKeys.periodRanking(groupId ?? 0, period, key),
+    queryFn: () => fetchPeriodRanking(groupId as number, period, key),
+    enabled,
+    staleTime: 60_000,
+    placeholderData: keepPreviousData,
+    meta: { scope: "user" },
+  });
+}
+
+/**
+ * Hook to fetch the group's round winners history.
+ */
+export function useRoundHistoryQuery(groupId: number | null) {
+  const { status, user } = useAuth();
+
+  const enabled =
+    isReadyForProtected(status, user) &&
+    groupId != null &&
+    !Number.isNaN(groupId);
+
+  return useQuery<ApiRoundHistoryResponse, ApiError>({
+    queryKey: groupsKeys.roundHistory(groupId ?? 0),
+    queryFn: () => fetchRoundHistory(groupId as number),
+    enabled,
+    staleTime: 60_000,
+    meta: { scope: "user" },
+  });
+}
+
+/** Timeline points requested for the position chart (fits a phone's width) */
+const RANKING_HISTORY_POINTS = 40;
+
+/**
+ * Hook to fetch the group's ranking history for the position-over-time chart.
+ */
+export function useRankingHistoryQuery(groupId: number | null) {
+  const { status, user } = useAuth();
+
+  const enabled =
+    isReadyForProtected(status, user) &&
+    groupId != null &&
+    !Number.isNaN(groupId);
+
+  return useQuery<ApiRankingHistoryResponse, ApiError>({
+    queryKey: groupsKeys.rankingHistory(groupId ?? 0),
+    queryFn: () => fetchRankingHistory(groupId as number, RANKING_HISTORY_POINTS),
+    enabled,
+    staleTime: 60_000,
+    meta: { scope: "user" },
+  });
+}
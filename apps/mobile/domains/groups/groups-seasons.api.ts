@@ -0,0 +1,33 @@
+// domains/groups/groups-seasons.api.ts
+// API calls for groups continued across seasons.
+
+import type { ApiAllTimeTableResponse, ApiGroupResponse } from "@repo/types";
+import { apiFetchWithAuthRetry } from "@/lib/http/apiClient";
+
+/**
+ * Continue a leagues group into the next season.
+ * - Requires authentication; creator only.
+ * - Archives the group and returns the new season's group.
+ */
+export async function continueGroupToNextSeason(
+  groupId: number
+): Promise<ApiGroupResponse> {
+  return apiFetchWithAuthRetry<ApiGroupResponse>(
+    `/api/groups/${groupId}/next-season`,
+    { method: "POST" }
+  );
+}
+
+/**
+ * Fetch the all-time table across every season of the group.
+ * - Requires authentication.
+ * - Verifies that the user is a group member.
+ */
+export async function fetchAllTimeTable(
+  groupId: number
+): Promise<ApiAllTimeTableResponse> {
+  return apiFetchWithAuthRetry<ApiAllTimeTableResponse>(
+    `/api/groups/${groupId}/all-time`,
+    { method: "GET" }
+  );
+}
@@ -0,0 +1,68 @@
+// domains/groups/groups-seasons.hooks.ts
+// React Query hooks for groups continued across seasons.
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useRouter } from "expo-router";
+import type { ApiAllTimeTableResponse, ApiGroupResponse } from "@repo/types";
+import type { ApiError } from "@/lib/http/apiError";
+import { useAuth } from "@/lib/auth/useAuth";
+import { isReadyForProtected } from "@/lib/auth/guards";
+import {
+  continueGroupToNextSeason,
+  fetchAllTimeTable,
+} from "./groups-seasons.api";
+import { groupsKeys } from "./groups.keys";
+import { analytics } from "@/lib/analytics";
+
+/**
+ * Hook to fetch the all-time table of a group's seasons.
+ * - Enabled only when authenticated and onboarding complete and groupId is valid.
+ */
+export function useAllTimeTableQuery(groupId: number | null) {
+  const { status, user } = useAuth();
+
+  const enabled =
+    isReadyForProtected(status, user) &&
+    groupId != null &&
+    !Number.isNaN(groupId);
+
+  return useQuery<ApiAllTimeTableResponse, ApiError>({
+    queryKey: groupsKeys.allTime(groupId ?? 0),
+    queryFn: () => fetchAllTimeTable(groupId as number),
+    enabled,
+    staleTime: 60_000,
+    meta: { scope: "user" },
+  });
+}
+
+/**
+ * Hook to continue a group into the next season.
+ * - Creator only.
+ * - Invalidates the old group and groups list, then navigates to the new group.
+ */
+export function useContinueToNextSeasonMutation(groupId: number | null) {
+  const queryClient = useQueryClient();
+  const router = useRouter();
+
+  return useMutation<ApiGroupResponse, ApiError, void>({
+    mutationFn: () => {
+      if (!groupId) {
+        throw new Error("Group ID is required");
+      }
+      return continueGroupToNextSeason(groupId);
+    },
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: groupsKeys.lists() });
+      if (groupId) {
+        queryClient.invalidateQueries({
+          queryKey: groupsKeys.detail(groupId),
+        });
+      }
+      router.replace(`/groups/${response.data.id}`);
+      analytics.track("group_season_continued", {
+        groupId,
+        nextGroupId: response.data.id,
+      });
+    },
+  });
+}
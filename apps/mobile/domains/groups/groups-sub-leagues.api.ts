@@ -0,0 +1,122 @@
+// domains/groups/groups-sub-leagues.api.ts
+// API calls for sub-leagues: private sub-tables inside a group.
+
+import type {
+  ApiSubLeagueRankingResponse,
+  ApiSubLeagueResponse,
+  ApiSubLeaguesResponse,
+} from "@repo/types";
+import { apiFetchWithAuthRetry } from "@/lib/http/apiClient";
+import type { ChatMessage } from "@/lib/socket";
+
+interface SubLeagueMessagesResponse {
+  data: ChatMessage[];
+}
+
+interface SubLeagueMessageResponse {
+  data: ChatMessage;
+}
+
+/**
+ * Fetch the user's sub-leagues in the group.
+ * - Requires authentication; group members only.
+ */
+export async function fetchSubLeagues(
+  groupId: number
+): Promise<ApiSubLeaguesResponse> {
+  return apiFetchWithAuthRetry<ApiSubLeaguesResponse>(
+    `/api/groups/${groupId}/sub-leagues`,
+    { method: "GET" }
+  );
+}
+
+/**
+ * Create a sub-league; the user becomes its first member.
+ */
+export async function createSubLeague(
+  groupId: number,
+  name: string
+): Promise<ApiSubLeagueResponse> {
+  return apiFetchWithAuthRetry<ApiSubLeagueResponse>(
+    `/api/groups/${groupId}/sub-leagues`,
+    { method: "POST", body: { name } }
+  );
+}
+
+/**
+ * Join a sub-league of the group by its invite code.
+ */
+export async function joinSubLeague(
+  groupId: number,
+  inviteCode: string
+): Promise<ApiSubLeagueResponse> {
+  return apiFetchWithAuthRetry<ApiSubLeagueResponse>(
+    `/api/groups/${groupId}/sub-leagues/join`,
+    { method: "POST", body: { inviteCode } }
+  );
+}
+
+/**
+ * Leave a sub-league (the last member leaving deletes it).
+ */
+export async function leaveSubLeague(
+  groupId: number,
+  subLeagueId: number
+): Promise<{ status: "success"; message: string }> {
+  return apiFetchWithAuthRetry<{ status: "success"; message: string }>(
+    `/api/groups/${groupId}/sub-leagues/${subLeagueId}/members/me`,
+    { method: "DELETE" }
+  );
+}
+
+/**
+ * Delete a sub-league (its creator only).
+ */
+export async function deleteSubLeague(
+  groupId: number,
+  subLeagueId: number
+): Promise<{ status: "success"; message: string }> {
+  return apiFetchWithAuthRetry<{ status: "success"; message: string }>(
+    `/api/groups/${groupId}/sub-leagues/${subLeagueId}`,
+    { method: "DELETE" }
+  );
+}
+
+/**
+ * Fetch the sub-league ranking (ranked among its members).
+ */
+export async function fetchSubLeagueRanking(
+  groupId: number,
+  subLeagueId: number
+): Promise<ApiSubLeagueRankingResponse> {
+  return apiFetchWithAuthRetry<ApiSubLeagueRankingResponse>(
+    `/api/groups/${groupId}/sub-leagues/${subLeagueId}/ranking`,
+    { method: "GET" }
+  );
+}
+
+/**
+ * Fetch the latest messages of the sub-league's chat channel (newest first).
+ */
+export async function fetchSubLeagueMessages(
+  groupId: number,
+  subLeagueId: number
+): Promise<SubLeagueMessagesResponse> {
+  return apiFetchWithAuthRetry<SubLeagueMessagesResponse>(
+    `/api/groups/${groupId}/sub-leagues/${subLeagueId}/messages?limit=50`
+  );
+}
+
+/**
+ * Send a message to the sub-league's chat channel.
+ */
+export async function sendSubLeagueMessage(
+  groupId: number,
+  subLeagueId: number,
+  body: string
+): Promise<SubLeagueMessageResponse> {
+  return apiFetchWithAuthRetry<SubLeagueMessageResponse>(
+    `/api/groups/${groupId}/sub-leagues/${subLeagueId}/messages`,
+    { method: "POST", body: { body } }
+  );
+}
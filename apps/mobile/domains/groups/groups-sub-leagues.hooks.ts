@@ -0,0 +1,207 @@
+// domains/groups/groups-sub-leagues.hooks.ts
+// React Query hooks for sub-leagues: list, create/join/leave/delete, ranking and chat.
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type {
+  ApiSubLeagueRankingResponse,
+  ApiSubLeagueResponse,
+  ApiSubLeaguesResponse,
+} from "@repo/types";
+import type { ApiError } from "@/lib/http/apiError";
+import { useAuth } from "@/lib/auth/useAuth";
+import { isReadyForProtected } from "@/lib/auth/guards";
+import {
+  createSubLeague,
+  deleteSubLeague,
+  fetchSubLeagueMessages,
+  fetchSubLeagueRanking,
+  fetchSubLeagues,
+  joinSubLeague,
+  leaveSubLeague,
+  sendSubLeagueMessage,
+} from "./groups-sub-leagues.api";
+import { groupsKeys } from "./groups.keys";
+import { analytics } from "@/lib/analytics";
+
+/** Sub-league chat has no socket channel; poll while the screen is open. */
+const SUB_LEAGUE_MESSAGES_POLL_MS = 15_000;
+
+/**
+ * Hook to fetch the user's sub-leagues in the group.
+ * - Enabled only when authenticated and onboarding complete and groupId is valid.
+ */
+export function useSubLeaguesQuery(groupId: number | null) {
+  const { status, user } = useAuth();
+
+  const enabled =
+    isReadyForProtected(status, user) &&
+    groupId != null &&
+    !Number.isNaN(groupId);
+
+  return useQuery<ApiSubLeaguesResponse, ApiError>({
+    queryKey: groupsKeys.subLeagues(groupId ?? 0),
+    queryFn: () => fetchSubLeagues(groupId as number),
+    enabled,
+    staleTime: 60_000,
+    meta: { scope: "user" },
+  });
+}
+
+/**
+ * Hook to create a sub-league.
+ * - Invalidates the sub-leagues list on success.
+ */
+export function useCreateSubLeagueMutation(groupId: number | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation<ApiSubLeagueResponse, ApiError, { name: string }>({
+    mutationFn: ({ name }) => {
+      if (!groupId) {
+        throw new Error("Group ID is required");
+      }
+      return createSubLeague(groupId, name);
+    },
+    onSuccess: () => {
+      if (groupId) {
+        queryClient.invalidateQueries({
+          queryKey: groupsKeys.subLeagues(groupId),
+        });
+      }
+      analytics.track("sub_league_created", { groupId });
+    },
+  });
+}
+
+/**
+ * Hook to join a sub-league by its invite code.
+ * - Invalidates the sub-leagues list on success.
+ */
+export function useJoinSubLeagueMutation(groupId: number | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation<ApiSubLeagueResponse, ApiError, { inviteCode: string }>({
+    mutationFn: ({ inviteCode }) => {
+      if (!groupId) {
+        throw new Error("Group ID is required");
+      }
+      return joinSubLeague(groupId, inviteCode);
+    },
+    onSuccess: () => {
+      if (groupId) {
+        queryClient.invalidateQueries({
+          queryKey: groupsKeys.subLeagues(groupId),
+        });
+      }
+      analytics.track("sub_league_joined", { groupId });
+    },
+  });
+}
+
+/**
+ * Hook to leave a sub-league, or delete it when `asCreator` is set.
+ * - Invalidates the sub-leagues list on success.
+ */
+export function useLeaveSubLeagueMutation(
+  groupId: number | null,
+  subLeagueId: number | null
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    { status: "success"; message: string },
+    ApiError,
+    { asCreator: boolean }
+  >({
+    mutationFn: ({ asCreator }) => {
+      if (!groupId || !subLeagueId) {
+        throw new Error("Group ID and sub-league ID are required");
+      }
+      return asCreator
+        ? deleteSubLeague(groupId, subLeagueId)
+        : leaveSubLeague(groupId, subLeagueId);
+    },
+    onSuccess: (_data, { asCreator }) => {
+      if (groupId) {
+        queryClient.invalidateQueries({
+          queryKey: groupsKeys.subLeagues(groupId),
+        });
+      }
+      analytics.track(asCreator ? "sub_league_deleted" : "sub_league_left", {
+        groupId,
+        subLeagueId,
+      });
+    },
+  });
+}
+
+/**
+ * Hook to fetch a sub-league with its ranking.
+ */
+export function useSubLeagueRankingQuery(
+  groupId: number | null,
+  subLeagueId: number | null
+) {
+  const { status, user } = useAuth();
+
+  const enabled =
+    isReadyForProtected(status, user) && groupId != null && subLeagueId != null;
+
+  return useQuery<ApiSubLeagueRankingResponse, ApiError>({
+    queryKey: groupsKeys.subLeagueRanking(groupId ?? 0, subLeagueId ?? 0),
+    queryFn: () =>
+      fetchSubLeagueRanking(groupId as number, subLeagueId as number),
+    enabled,
+    staleTime: 60_000,
+    meta: { scope: "user" },
+  });
+}
+
+/**
+ * Hook to fetch the sub-league's chat messages (newest first).
+ * - Polls while mounted; there are no realtime events for sub-league channels.
+ */
+export function useSubLeagueMessagesQuery(
+  groupId: number | null,
+  subLeagueId: number | null
+) {
+  const { status, user } = useAuth();
+
+  const enabled =
+    isReadyForProtected(status, user) && groupId != null && subLeagueId != null;
+
+  return useQuery({
+    queryKey: groupsKeys.subLeagueMessages(groupId ?? 0, subLeagueId ?? 0),
+    queryFn: () =>
+      fetchSubLeagueMessages(groupId as number, subLeagueId as number),
+    enabled,
+    refetchInterval: SUB_LEAGUE_MESSAGES_POLL_MS,
+    meta: { scope: "user" },
+  });
+}
+
+/**
+ * Hook to send a message to the sub-league's chat.
+ * - Refetches the messages on success.
+ */
+export function useSendSubLeagueMessageMutation(
+  groupId: number | null,
+  subLeagueId: number | null
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (body: string) => {
+      if (!groupId || !subLeagueId) {
+        throw new Error("Group ID and sub-league ID are required");
+      }
+      return sendSubLeagueMessage(groupId, subLeagueId, body);
+    },
+    onSuccess: () => {
+      if (groupId && subLeagueId) {
+        queryClient.invalidateQueries({
+          queryKey: groupsKeys.subLeagueMessages(groupId, subLeagueId),
+        });
+      }
+    },
+  });
+}
@@ -0,0 +1,36 @@
+// domains/groups/groups-ties.api.ts
+// API calls for a group's two-legged ties and "who advances" picks.
+
+import type {
+  ApiGroupTiesResponse,
+  ApiSaveTiePickBody,
+} from "@repo/types";
+import { apiFetchWithAuthRetry } from "@/lib/http/apiClient";
+
+/**
+ * Fetch the group's two-legged ties with both legs, the aggregate and the picks.
+ * - Requires authentication.
+ * - Verifies that the user is a group member.
+ */
+export async function fetchGroupTies(
+  groupId: number
+): Promise<ApiGroupTiesResponse> {
+  return apiFetchWithAuthRetry<ApiGroupTiesResponse>(
+    `/api/groups/${groupId}/ties`,
+    { method: "GET" }
+  );
+}
+
+/**
+ * Save the user's "who advances" pick for a tie (until the first leg kicks off).
+ */
+export async function saveTiePick(
+  groupId: number,
+  aggregateId: string,
+  body: ApiSaveTiePickBody
+): Promise<{ status: "success"; message: string }> {
+  return apiFetchWithAuthRetry<{ status: "success"; message: string }>(
+    `/api/groups/${groupId}/ties/${encodeURIComponent(aggregateId)}/pick`,
+    { method: "PUT", body }
+  );
+}
@@ -0,0 +1,59 @@
+// domains/groups/groups-ties.hooks.ts
+// React Query hooks for a group's two-legged ties and "who advances" picks.
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { ApiGroupTiesResponse } from "@repo/types";
+import type { ApiError } from "@/lib/http/apiError";
+import { useAuth } from "@/lib/auth/useAuth";
+import { isReadyForProtected } from "@/lib/auth/guards";
+import { fetchGroupTies, saveTiePick } from "./groups-ties.api";
+import { groupsKeys } from "./groups.keys";
+import { analytics } from "@/lib/analytics";
+
+/**
+ * Hook to fetch the group's two-legged ties.
+ * - Enabled only when authenticated and onboarding complete and groupId is valid.
+ */
+export function useGroupTiesQuery(groupId: number | null) {
+  const { status, user } = useAuth();
+
+  const enabled =
+    isReadyForProtected(status, user) &&
+    groupId != null &&
+    !Number.isNaN(groupId);
+
+  return useQuery<ApiGroupTiesResponse, ApiError>({
+    queryKey: groupsKeys.ties(groupId ?? 0),
+    queryFn: () => fetchGroupTies(groupId as number),
+    enabled,
+    staleTime: 60_000,
+    meta: { scope: "user" },
+  });
+}
+
+/**
+ * Hook to save a "who advances" pick.
+ * - Invalidates the ties list on success.
+ */
+export function useSaveTiePickMutation(groupId: number | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    { status: "success"; message: string },
+    ApiError,
+    { aggregateId: string; teamId: number }
+  >({
+    mutationFn: ({ aggregateId, teamId }) => {
+      if (!groupId) {
+        throw new Error("Group ID is required");
+      }
+      return saveTiePick(groupId, aggregateId, { teamId });
+    },
+    onSuccess: () => {
+      if (groupId) {
+        queryClient.invalidateQueries({ queryKey: groupsKeys.ties(groupId) });
+      }
+      analytics.track("tie_pick_saved", { groupId });
+    },
+  });
+}
@@ -2,7 +2,11 @@
 // React Query keys for groups domain.
 // - All groups-related queries/mutations must use these keys.
 
-import type { ApiPublicGroupsQuery, ApiGroupPreviewBody } from "@repo/types";
+import type {
+  ApiPublicGroupsQuery,
+  ApiGroupPreviewBody,
+  ApiScoringPreviewBody,
+} from "@repo/types";
 
 export const groupsKeys = {
   all: ["groups"] as const,
@@ -30,6 +34,22 @@ export const groupsKeys = {
   predictionsOverview: (id: number) =>
     [...groupsKeys.details(), id, "predictions-overview"] as const,
   ranking: (id: number) => [...groupsKeys.details(), id, "ranking"] as const,
+  rankingLive: (id: number) => [...groupsKeys.ranking(id), "live"] as const,
+  periodRanking: (id: number, period: string, key?: string) =>
+    [...groupsKeys.ranking(id), "period", period, key ?? "current"] as const,
+  roundHistory: (id: number) =>
+    [...groupsKeys.ranking(id), "rounds"] as const,
+  rankingHistory: (id: number) =>
+    [...groupsKeys.ranking(id), "history"] as const,
+  allTime: (id: number) => [...groupsKeys.details(), id, "all-time"] as const,
+  bracket: (id: number) => [...groupsKeys.details(), id, "bracket"] as const,
+  ties: (id: number) => [...groupsKeys.details(), id, "ties"] as const,
+  subLeagues: (id: number) =>
+    [...groupsKeys.details(), id, "sub-leagues"] as const,
+  subLeagueRanking: (id: number, subLeagueId: number) =>
+    [...groupsKeys.subLeagues(id), subLeagueId, "ranking"] as const,
+  subLeagueMessages: (id: number, subLeagueId: number) =>
+    [...groupsKeys.subLeagues(id), subLeagueId, "messages"] as const,
   members: (id: number) => [...groupsKeys.details(), id, "members"] as const,
   inviteCode: (id: number) =>
     [...groupsKeys.details(), id, "invite-code"] as const,
@@ -43,4 +63,7 @@ export const groupsKeys = {
   chatPreview: () => [...groupsKeys.all, "chat-preview"] as const,
   preview: (body: ApiGroupPreviewBody) =>
     [...groupsKeys.all, "preview", body] as const,
+  scoringStrategies: () => [...groupsKeys.all, "scoring-strategies"] as const,
+  scoringPreview: (body: ApiScoringPreviewBody) =>
+    [...groupsKeys.all, "scoring-preview", body] as const,
 } as const;
@@ -14,6 +14,8 @@ export {
   useGroupFixturesQuery,
   useDeleteGroupMutation,
   useGroupPreviewQuery,
+  useScoringStrategiesQuery,
+  useScoringPreviewQuery,
 } from "./groups-core.hooks";
 export {
   createGroup,
@@ -24,6 +26,8 @@ export {
   fetchGroupLobbySummary,
   fetchGroupGamesFilters,
   fetchGroupPreview,
+  fetchScoringStrategies,
+  fetchScoringPreview,
 } from "./groups-core.api";
 
 // --- Predictions ---
@@ -41,6 +45,60 @@ export {
   useLeaveGroupMutation,
 } from "./groups-members.hooks";
 
+// --- Seasons ---
+export {
+  useAllTimeTableQuery,
+  useContinueToNextSeasonMutation,
+} from "./groups-seasons.hooks";
+export {
+  continueGroupToNextSeason,
+  fetchAllTimeTable,
+} from "./groups-seasons.api";
+
+// --- Round rankings ---
+export {
+  usePeriodRankingQuery,
+  useRoundHistoryQuery,
+  useRankingHistoryQuery,
+} from "./groups-round-rankings.hooks";
+export {
+  fetchPeriodRanking,
+  fetchRoundHistory,
+  fetchRankingHistory,
+} from "./groups-round-rankings.api";
+
+// --- Bracket ---
+export {
+  useGroupBracketQuery,
+  useStartGroupBracketMutation,
+} from "./groups-bracket.hooks";
+export { fetchGroupBracket, startGroupBracket } from "./groups-bracket.api";
+
+// --- Two-legged ties ---
+export { useGroupTiesQuery, useSaveTiePickMutation } from "./groups-ties.hooks";
+export { fetchGroupTies, saveTiePick } from "./groups-ties.api";
+
+// --- Sub-leagues ---
+export {
+  useSubLeaguesQuery,
+  useCreateSubLeagueMutation,
+  useJoinSubLeagueMutation,
+  useLeaveSubLeagueMutation,
+  useSubLeagueRankingQuery,
+  useSubLeagueMessagesQuery,
+  useSendSubLeagueMessageMutation,
+} from "./groups-sub-leagues.hooks";
+export {
+  fetchSubLeagues,
+  createSubLeague,
+  joinSubLeague,
+  leaveSubLeague,
+  deleteSubLeague,
+  fetchSubLeagueRanking,
+  fetchSubLeagueMessages,
+  sendSubLeagueMessage,
+} from "./groups-sub-leagues.api";
+
 // --- Invite & Join ---
 export {
   useInviteCodeQuery,
@@ -69,11 +127,14 @@ export {
   useUnreadCountsQuery,
   useGroupChatPreviewQuery,
   useGroupChat,
+  useSharePredictionMutation,
+  CHAT_EDIT_WINDOW_MS,
 } from "./groups-chat.hooks";
 export {
   fetchGroupMessages,
   fetchUnreadCounts,
   fetchGroupChatPreview,
+  sharePredictionInChat,
 } from "./groups-chat.api";
 
 // --- Keys ---
@@ -94,4 +155,8 @@ export type {
   ApiMyGroupsQuery,
   ApiGroupPreviewBody,
   ApiGroupPreviewResponse,
+  ApiScoringStrategy,
+  ApiScoringStrategyKey,
+  ApiScoringPreviewBody,
+  ApiScoringPreviewResponse,
 } from "@repo/types";
@@ -22,6 +22,12 @@ function getEventTitleKey(eventType: string): string {
       return "activity.rankingChangeTitle";
     case "prediction_reminder":
       return "activity.predictionReminderTitle";
+    case "fixture_voided":
+      return "activity.fixtureVoidedTitle";
+    case "fixture_postponed":
+      return "activity.fixturePostponedTitle";
+    case "fixture_rescheduled":
+      return "activity.fixtureRescheduledTitle";
     default:
       return "activity.empty";
   }
@@ -35,7 +41,7 @@ export function ActivityCard({ item }: ActivityCardProps) {
   const titleKey = getEventTitleKey(item.eventType);
 
   const onPress = () => {
-    if (item.eventType === "fixture_live" || item.eventType === "fixture_ft") {
+    if (item.eventType.startsWith("fixture_")) {
       const fixtureId = meta.fixtureId as number | undefined;
       if (fixtureId != null) {
         router.push({ pathname: '/fixtures/[id]', params: { id: String(fixtureId) } });
@@ -46,6 +46,8 @@ import { createStyles } from "./createGroupFlow.styles";
 import { CreateSheetSelectionStep } from "./CreateSheetSelectionStep";
 import { CreateSheetDetailsStep } from "./CreateSheetDetailsStep";
 import { CreateSheetAdvancedStep } from "./CreateSheetAdvancedStep";
+import { ScoringStrategySheetContent } from "./ScoringStrategySheetContent";
+import type { ApiScoringStrategyKey } from "@repo/types";
 
 /* ─── Types ─── */
 
@@ -56,6 +58,25 @@ const CREATE_SORT_OPTIONS = [
   { key: "league", labelKey: "groupCreation.sortByLeague" },
 ] as const;
 
+const JOKER_FIXTURES_PER_CARD_MIN = 2;
+const JOKER_FIXTURES_PER_CARD_MAX = 20;
+const JOKER_FIXTURES_PER_CARD_DEFAULT = 5;
+const SIDE_MARKET_POINTS_MAX = 10;
+
+type SideMarketPoints = {
+  bttsPoints: number;
+  overUnderPoints: number;
+  firstTeamToScorePoints: number;
+  advancePoints: number;
+};
+
+const SIDE_MARKET_ROWS: Array<{ key: keyof SideMarketPoints; labelKey: string }> = [
+  { key: "bttsPoints", labelKey: "predictions.markets.btts" },
+  { key: "overUnderPoints", labelKey: "predictions.markets.overUnder" },
+  { key: "firstTeamToScorePoints", labelKey: "predictions.markets.firstTeamToScore" },
+  { key: "advancePoints", labelKey: "predictions.markets.advance" },
+];
+
 /* ─── Main Component ─── */
 
 export function CreateGroupFlow({
@@ -99,6 +120,18 @@ export function CreateGroupFlow({
   const [outcomePoints, setOutcomePoints] = useState(1);
   const [predictionMode, setPredictionMode] = useState<"CorrectScore" | "ThreeWay">("CorrectScore");
   const [koRoundMode, setKoRoundMode] = useState<"FullTime" | "ExtraTime" | "Penalties">("FullTime");
+  const [scoringStrategy, setScoringStrategy] = useState<ApiScoringStrategyKey>("classic");
+  const [scoringConfig, setScoringConfig] = useState<Record<string, number>>({});
+  const [underdogBonus, setUnderdogBonus] = useState(false);
+  const [underdogMaxMultiplier, setUnderdogMaxMultiplier] = useState(3);
+  const [jokerMode, setJokerMode] = useState<"off" | "round" | "fixtures">("off");
+  const [jokerFixturesPerCard, setJokerFixturesPerCard] = useState(JOKER_FIXTURES_PER_CARD_DEFAULT);
+  const [sideMarketPoints, setSideMarketPoints] = useState<SideMarketPoints>({
+    bttsPoints: 0,
+    overUnderPoints: 0,
+    firstTeamToScorePoints: 0,
+    advancePoints: 0,
+  });
   const [maxMembers, setMaxMembers] = useState(50);
   const [tabSortOptions, setTabSortOptions] = useState<Record<CreateTab, string>>({
     fixtures: "time",
@@ -111,6 +144,9 @@ export function CreateGroupFlow({
   const advPredictionRef = useRef<BottomSheetModal>(null);
   const advScoringRef = useRef<BottomSheetModal>(null);
   const advKoRef = useRef<BottomSheetModal>(null);
+  const advJokerRef = useRef<BottomSheetModal>(null);
+  const advMarketsRef = useRef<BottomSheetModal>(null);
+  const advStrategyRef = useRef<BottomSheetModal>(null);
   const advMembersRef = useRef<BottomSheetModal>(null);
   const advNudgeWindowRef = useRef<BottomSheetModal>(null);
   const avatarPickerRef = useRef<BottomSheetModal>(null);
@@ -120,6 +156,8 @@ export function CreateGroupFlow({
   const initialNudgeEnabled = useRef(true);
   const initialPredictionMode = useRef(predictionMode);
   const initialKoRoundMode = useRef(koRoundMode);
+  const initialJoker = useRef({ mode: jokerMode, perCard: jokerFixturesPerCard });
+  const initialMarkets = useRef(sideMarketPoints);
   const initialMaxMembers = useRef(maxMembers);
   const initialNudgeWindow = useRef(nudgeWindowMinutes);
   const initialOnTheNose = useRef(onTheNosePoints);
@@ -242,6 +280,13 @@ export function CreateGroupFlow({
         outcomePoints,
         predictionMode,
         koRoundMode,
+        scoringStrategy,
+        scoringConfig,
+        underdogBonus,
+        underdogMaxMultiplier,
+        jokerMode,
+        jokerFixturesPerCard,
+        ...sideMarketPoints,
         maxMembers,
         nudgeEnabled,
         nudgeWindowMinutes,
@@ -425,10 +470,12 @@ export function CreateGroupFlow({
     createSortSheetRef.current?.dismiss();
   }, []);
 
-  const handleOpenAdvSheet = useCallback((sheet: "prediction" | "scoring" | "ko" | "members" | "nudgeWindow") => {
+  const handleOpenAdvSheet = useCallback((sheet: "prediction" | "scoring" | "strategy" | "ko" | "joker" | "markets" | "members" | "nudgeWindow") => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     if (sheet === "prediction") initialPredictionMode.current = predictionMode;
     if (sheet === "ko") initialKoRoundMode.current = koRoundMode;
+    if (sheet === "joker") initialJoker.current = { mode: jokerMode, perCard: jokerFixturesPerCard };
+    if (sheet === "markets") initialMarkets.current = sideMarketPoints;
     if (sheet === "members") initialMaxMembers.current = maxMembers;
     if (sheet === "nudgeWindow") { initialNudgeWindow.current = nudgeWindowMinutes; initialNudgeEnabled.current = nudgeEnabled; }
     if (sheet === "scoring") {
@@ -436,9 +483,9 @@ export function CreateGroupFlow({
       initialDifference.current = differencePoints;
       initialOutcome.current = outcomePoints;
     }
-    const refs = { prediction: advPredictionRef, scoring: advScoringRef, ko: advKoRef, members: advMembersRef, nudgeWindow: advNudgeWindowRef };
+    const refs = { prediction: advPredictionRef, scoring: advScoringRef, strategy: advStrategyRef, ko: advKoRef, joker: advJokerRef, markets: advMarketsRef, members: advMembersRef, nudgeWindow: advNudgeWindowRef };
     refs[sheet].current?.present();
-  }, [predictionMode, koRoundMode, maxMembers, nudgeWindowMinutes, nudgeEnabled, onTheNosePoints, differencePoints, outcomePoints]);
+  }, [predictionMode, koRoundMode, jokerMode, jokerFixturesPerCard, sideMarketPoints, maxMembers, nudgeWindowMinutes, nudgeEnabled, onTheNosePoints, differencePoints, outcomePoints]);
 
   const handleOpenAvatarPicker = useCallback(() => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -579,6 +626,10 @@ export function CreateGroupFlow({
               differencePoints={differencePoints}
               outcomePoints={outcomePoints}
               koRoundMode={koRoundMode}
+              jokerMode={jokerMode}
+              jokerFixturesPerCard={jokerFixturesPerCard}
+              enabledMarketsCount={Object.values(sideMarketPoints).filter((p) => p > 0).length}
+              scoringStrategy={scoringStrategy}
               maxMembers={maxMembers}
               nudgeEnabled={nudgeEnabled}
               nudgeWindowMinutes={nudgeWindowMinutes}
@@ -713,6 +764,34 @@ export function CreateGroupFlow({
         </BottomSheetView>
       </BottomSheetModal>
 
+      {/* Scoring strategy sheet */}
+      <BottomSheetModal ref={advStrategyRef} stackBehavior="push" enableDynamicSizing enablePanDownToClose backdropComponent={renderBackdrop} backgroundStyle={{ backgroundColor: theme.colors.surfaceElevated, borderTopLeftRadius: theme.radius.xl, borderTopRightRadius: theme.radius.xl }} handleIndicatorStyle={{ backgroundColor: theme.colors.textSecondary }}>
+        <BottomSheetView style={createStyles.sheetContent}>
+          <Text style={[createStyles.sheetTitle, { color: theme.colors.textPrimary, borderBottomColor: theme.colors.textPrimary + "10" }]}>{t("lobby.scoringStrategy")}</Text>
+          <ScoringStrategySheetContent
+            scoringStrategy={scoringStrategy}
+            scoringConfig={scoringConfig}
+            onStrategyChange={setScoringStrategy}
+            onConfigChange={setScoringConfig}
+            underdogBonus={underdogBonus}
+            underdogMaxMultiplier={underdogMaxMultiplier}
+            onUnderdogBonusChange={setUnderdogBonus}
+            onUnderdogMaxMultiplierChange={setUnderdogMaxMultiplier}
+            predictionMode={predictionMode}
+            onTheNosePoints={onTheNosePoints}
+            differencePoints={differencePoints}
+            outcomePoints={outcomePoints}
+            theme={theme}
+          />
+          <Pressable
+            onPress={() => advStrategyRef.current?.dismiss()}
+            style={({ pressed }) => [createStyles.sheetDoneBtn, { backgroundColor: theme.colors.primary, opacity: pressed ? 0.8 : 1 }]}
+          >
+            <Text style={[createStyles.sheetDoneBtnText, { color: theme.colors.textInverse }]}>{t("done")}</Text>
+          </Pressable>
+        </BottomSheetView>
+      </BottomSheetModal>
+
       {/* KO round mode sheet */}
       <BottomSheetModal ref={advKoRef} stackBehavior="push" enableDynamicSizing enablePanDownToClose backdropComponent={renderBackdrop} backgroundStyle={{ backgroundColor: theme.colors.surfaceElevated, borderTopLeftRadius: theme.radius.xl, borderTopRightRadius: theme.radius.xl }} handleIndicatorStyle={{ backgroundColor: theme.colors.textSecondary }}>
         <BottomSheetView style={createStyles.sheetContent}>
@@ -737,6 +816,93 @@ export function CreateGroupFlow({
         </BottomSheetView>
       </BottomSheetModal>
 
+      {/* Joker card sheet */}
+      <BottomSheetModal ref={advJokerRef} stackBehavior="push" enableDynamicSizing enablePanDownToClose backdropComponent={renderBackdrop} backgroundStyle={{ backgroundColor: theme.colors.surfaceElevated, borderTopLeftRadius: theme.radius.xl, borderTopRightRadius: theme.radius.xl }} handleIndicatorStyle={{ backgroundColor: theme.colors.textSecondary }}>
+        <BottomSheetView style={createStyles.sheetContent}>
+          <Text style={[createStyles.sheetTitle, { color: theme.colors.textPrimary, borderBottomColor: theme.colors.textPrimary + "10" }]}>{t("lobby.jokerMode")}</Text>
+          <Text style={[createStyles.advRowSub, { color: theme.colors.textSecondary, marginBottom: theme.spacing.sm }]}>{t("lobby.jokerDescription")}</Text>
+          {([
+            { value: "off" as const, label: t("lobby.jokerOff") },
+            { value: "round" as const, label: t("lobby.jokerPerRound") },
+            { value: "fixtures" as const, label: t("lobby.jokerPerFixtures", { count: jokerFixturesPerCard }) },
+          ]).map((opt) => (
+            <Pressable key={opt.value} onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); setJokerMode(opt.value); }} style={({ pressed }) => [createStyles.sheetOption, { opacity: pressed ? 0.6 : 1 }]}>
+              <Text style={[createStyles.sheetOptionLabel, { color: theme.colors.textPrimary }]}>{opt.label}</Text>
+              <Ionicons name={opt.value === jokerMode ? "radio-button-on" : "radio-button-off"} size={18} color={opt.value === jokerMode ? theme.colors.primary : theme.colors.textSecondary} />
+            </Pressable>
+          ))}
+          {jokerMode === "fixtures" && (
+            <View style={createStyles.sheetOption}>
+              <Text style={[createStyles.sheetOptionLabel, { color: theme.colors.textPrimary }]}>{t("lobby.jokerFixturesPerCard")}</Text>
+              <View style={{ flexDirection: "row", alignItems: "center", gap: theme.spacing.ms }}>
+                <Pressable
+                  onPress={() => { if (jokerFixturesPerCard > JOKER_FIXTURES_PER_CARD_MIN) { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); setJokerFixturesPerCard(jokerFixturesPerCard - 1); } }}
+                  hitSlop={8}
+                  style={{ opacity: jokerFixturesPerCard > JOKER_FIXTURES_PER_CARD_MIN ? 1 : 0.3 }}
+                >
+                  <Ionicons name="remove-circle-outline" size={24} color={theme.colors.textPrimary} />
+                </Pressable>
+                <Text style={{ color: theme.colors.textPrimary, fontWeight: "700", fontSize: 16, minWidth: theme.spacing.ml, textAlign: "center" }}>{jokerFixturesPerCard}</Text>
+                <Pressable
+                  onPress={() => { if (jokerFixturesPerCard < JOKER_FIXTURES_PER_CARD_MAX) { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); setJokerFixturesPerCard(jokerFixturesPerCard + 1); } }}
+                  hitSlop={8}
+                  style={{ opacity: jokerFixturesPerCard < JOKER_FIXTURES_PER_CARD_MAX ? 1 : 0.3 }}
+                >
+                  <Ionicons name="add-circle-outline" size={24} color={theme.colors.textPrimary} />
+                </Pressable>
+              </View>
+            </View>
+          )}
+          <Pressable
+            onPress={() => advJokerRef.current?.dismiss()}
+            disabled={jokerMode === initialJoker.current.mode && jokerFixturesPerCard === initialJoker.current.perCard}
+            style={({ pressed }) => [createStyles.sheetDoneBtn, { backgroundColor: theme.colors.primary, opacity: jokerMode === initialJoker.current.mode && jokerFixturesPerCard === initialJoker.current.perCard ? 0.4 : pressed ? 0.8 : 1 }]}
+          >
+            <Text style={[createStyles.sheetDoneBtnText, { color: theme.colors.textInverse }]}>{t("done")}</Text>
+          </Pressable>
+        </BottomSheetView>
+      </BottomSheetModal>
+
+      {/* Side markets sheet */}
+      <BottomSheetModal ref={advMarketsRef} stackBehavior="push" enableDynamicSizing enablePanDownToClose backdropComponent={renderBackdrop} backgroundStyle={{ backgroundColor: theme.colors.surfaceElevated, borderTopLeftRadius: theme.radius.xl, borderTopRightRadius: theme.radius.xl }} handleIndicatorStyle={{ backgroundColor: theme.colors.textSecondary }}>
+        <BottomSheetView style={createStyles.sheetContent}>
+          <Text style={[createStyles.sheetTitle, { color: theme.colors.textPrimary, borderBottomColor: theme.colors.textPrimary + "10" }]}>{t("lobby.sideMarkets")}</Text>
+          <Text style={[createStyles.advRowSub, { color: theme.colors.textSecondary, marginBottom: theme.spacing.sm }]}>{t("lobby.sideMarketsDescription")}</Text>
+          {SIDE_MARKET_ROWS.map(({ key, labelKey }) => {
+            const value = sideMarketPoints[key];
+            return (
+              <View key={key} style={createStyles.sheetOption}>
+                <Text style={[createStyles.sheetOptionLabel, { color: theme.colors.textPrimary }]}>{t(labelKey)}</Text>
+                <View style={{ flexDirection: "row", alignItems: "center", gap: theme.spacing.ms }}>
+                  <Pressable
+                    onPress={() => { if (value > 0) { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); setSideMarketPoints((prev) => ({ ...prev, [key]: value - 1 })); } }}
+                    hitSlop={8}
+                    style={{ opacity: value > 0 ? 1 : 0.3 }}
+                  >
+                    <Ionicons name="remove-circle-outline" size={24} color={theme.colors.textPrimary} />
+                  </Pressable>
+                  <Text style={{ color: theme.colors.textPrimary, fontWeight: "700", fontSize: 16, minWidth: theme.spacing.ml, textAlign: "center" }}>{value}</Text>
+                  <Pressable
+                    onPress={() => { if (value < SIDE_MARKET_POINTS_MAX) { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); setSideMarketPoints((prev) => ({ ...prev, [key]: value + 1 })); } }}
+                    hitSlop={8}
+                    style={{ opacity: value < SIDE_MARKET_POINTS_MAX ? 1 : 0.3 }}
+                  >
+                    <Ionicons name="add-circle-outline" size={24} color={theme.colors.textPrimary} />
+                  </Pressable>
+                </View>
+              </View>
+            );
+          })}
+          <Pressable
+            onPress={() => advMarketsRef.current?.dismiss()}
+            disabled={sideMarketPoints === initialMarkets.current}
+            style={({ pressed }) => [createStyles.sheetDoneBtn, { backgroundColor: theme.colors.primary, opacity: sideMarketPoints === initialMarkets.current ? 0.4 : pressed ? 0.8 : 1 }]}
+          >
+            <Text style={[createStyles.sheetDoneBtnText, { color: theme.colors.textInverse }]}>{t("done")}</Text>
+          </Pressable>
+        </BottomSheetView>
+      </BottomSheetModal>
+
       {/* Max members sheet */}
       <BottomSheetModal ref={advMembersRef} stackBehavior="push" enableDynamicSizing enablePanDownToClose backdropComponent={renderBackdrop} backgroundStyle={{ backgroundColor: theme.colors.surfaceElevated, borderTopLeftRadius: theme.radius.xl, borderTopRightRadius: theme.radius.xl }} handleIndicatorStyle={{ backgroundColor: theme.colors.textSecondary }}>
         <BottomSheetView style={createStyles.sheetContent}>
@@ -9,15 +9,20 @@ import * as Haptics from "expo-haptics";
 import { AppText } from "@/components/ui";
 import { createStyles } from "./createGroupFlow.styles";
 import type { Theme } from "@/lib/theme/theme.types";
-import type { ApiGroupPreviewResponse } from "@repo/types";
+import type { ApiGroupPreviewResponse, ApiScoringStrategyKey } from "@repo/types";
 
 interface CreateSheetAdvancedStepProps {
-  onOpenAdvSheet: (sheet: "prediction" | "scoring" | "ko" | "members" | "nudgeWindow") => void;
+  onOpenAdvSheet: (sheet: "prediction" | "scoring" | "strategy" | "ko" | "joker" | "markets" | "members" | "nudgeWindow") => void;
   predictionMode: "CorrectScore" | "ThreeWay";
   onTheNosePoints: number;
   differencePoints: number;
   outcomePoints: number;
   koRoundMode: "FullTime" | "ExtraTime" | "Penalties";
+  jokerMode: "off" | "round" | "fixtures";
+  jokerFixturesPerCard: number;
+  /** Number of side markets with points > 0. */
+  enabledMarketsCount: number;
+  scoringStrategy: ApiScoringStrategyKey;
   maxMembers: number;
   nudgeEnabled: boolean;
   nudgeWindowMinutes: number;
@@ -41,6 +46,10 @@ export function CreateSheetAdvancedStep({
   differencePoints,
   outcomePoints,
   koRoundMode,
+  jokerMode,
+  jokerFixturesPerCard,
+  enabledMarketsCount,
+  scoringStrategy,
   maxMembers,
   nudgeEnabled,
   nudgeWindowMinutes,
@@ -101,6 +110,16 @@ export function CreateSheetAdvancedStep({
           <Ionicons name="chevron-forward" size={14} color={theme.colors.textSecondary + "60"} />
         </View>
       </Pressable>
+      <Pressable
+        onPress={() => onOpenAdvSheet("strategy")}
+        style={({ pressed }) => [createStyles.advRow, { opacity: pressed ? 0.6 : 1 }]}
+      >
+        <Text style={[createStyles.advRowLabel, { color: theme.colors.textPrimary }]}>{t("lobby.scoringStrategy")}</Text>
+        <View style={createStyles.advRowRight}>
+          <Text style={[createStyles.advRowValue, { color: theme.colors.textSecondary }]}>{t(`lobby.scoringStrategies.${scoringStrategy}`)}</Text>
+          <Ionicons name="chevron-forward" size={14} color={theme.colors.textSecondary + "60"} />
+        </View>
+      </Pressable>
       <Pressable
         onPress={() => onOpenAdvSheet("ko")}
         style={({ pressed }) => [createStyles.advRow, { opacity: pressed ? 0.6 : 1 }]}
@@ -111,6 +130,26 @@ export function CreateSheetAdvancedStep({
           <Ionicons name="chevron-forward" size={14} color={theme.colors.textSecondary + "60"} />
         </View>
       </Pressable>
+      <Pressable
+        onPress={() => onOpenAdvSheet("joker")}
+        style={({ pressed }) => [createStyles.advRow, { opacity: pressed ? 0.6 : 1 }]}
+      >
+        <Text style={[createStyles.advRowLabel, { color: theme.colors.textPrimary }]}>{t("lobby.jokerMode")}</Text>
+        <View style={createStyles.advRowRight}>
+          <Text style={[createStyles.advRowValue, { color: theme.colors.textSecondary }]}>{jokerMode === "off" ? t("lobby.jokerOff") : jokerMode === "round" ? t("lobby.jokerPerRound") : t("lobby.jokerPerFixtures", { count: jokerFixturesPerCard })}</Text>
+          <Ionicons name="chevron-forward" size={14} color={theme.colors.textSecondary + "60"} />
+        </View>
+      </Pressable>
+      <Pressable
+        onPress={() => onOpenAdvSheet("markets")}
+        style={({ pressed }) => [createStyles.advRow, { opacity: pressed ? 0.6 : 1 }]}
+      >
+        <Text style={[createStyles.advRowLabel, { color: theme.colors.textPrimary }]}>{t("lobby.sideMarkets")}</Text>
+        <View style={createStyles.advRowRight}>
+          <Text style={[createStyles.advRowValue, { color: theme.colors.textSecondary }]}>{enabledMarketsCount === 0 ? t("lobby.sideMarketsOff") : t("lobby.sideMarketsOn", { count: enabledMarketsCount })}</Text>
+          <Ionicons name="chevron-forward" size={14} color={theme.colors.textSecondary + "60"} />
+        </View>
+      </Pressable>
 
       {/* <Pressable
         onPress={() => onOpenAdvSheet("members")}
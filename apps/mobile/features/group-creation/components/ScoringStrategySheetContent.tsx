@@ -0,0 +1,185 @@
+// features/group-creation/components/ScoringStrategySheetContent.tsx
+// Scoring strategy picker (strategy, config steppers, underdog bonus, sample-points preview) for the create flow.
+
+import React from "react";
+import { View, Pressable, Text, ActivityIndicator } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useTranslation } from "react-i18next";
+import * as Haptics from "expo-haptics";
+import { useScoringStrategiesQuery, useScoringPreviewQuery } from "@/domains/groups";
+import { createStyles } from "./createGroupFlow.styles";
+import type { Theme } from "@/lib/theme/theme.types";
+import type { ApiScoringStrategyKey } from "@repo/types";
+
+const SAMPLE_ODDS = { home: "1.80", draw: "3.60", away: "4.50" };
+const UNDERDOG_MULTIPLIER_MIN = 2;
+const UNDERDOG_MULTIPLIER_MAX = 10;
+
+interface ScoringStrategySheetContentProps {
+  scoringStrategy: ApiScoringStrategyKey;
+  scoringConfig: Record<string, number>;
+  onStrategyChange: (strategy: ApiScoringStrategyKey) => void;
+  onConfigChange: (config: Record<string, number>) => void;
+  underdogBonus: boolean;
+  underdogMaxMultiplier: number;
+  onUnderdogBonusChange: (enabled: boolean) => void;
+  onUnderdogMaxMultiplierChange: (value: number) => void;
+  predictionMode: "CorrectScore" | "ThreeWay";
+  onTheNosePoints: number;
+  differencePoints: number;
+  outcomePoints: number;
+  theme: Theme;
+}
+
+export function ScoringStrategySheetContent({
+  scoringStrategy,
+  scoringConfig,
+  onStrategyChange,
+  onConfigChange,
+  underdogBonus,
+  underdogMaxMultiplier,
+  onUnderdogBonusChange,
+  onUnderdogMaxMultiplierChange,
+  predictionMode,
+  onTheNosePoints,
+  differencePoints,
+  outcomePoints,
+  theme,
+}: ScoringStrategySheetContentProps) {
+  const { t } = useTranslation("common");
+  const { data: strategiesData, isLoading } = useScoringStrategiesQuery();
+  const strategies = strategiesData?.data ?? [];
+  const selected = strategies.find((s) => s.key === scoringStrategy);
+  const isMatchWinner = predictionMode === "ThreeWay";
+
+  const { data: previewData } = useScoringPreviewQuery({
+    scoringStrategy,
+    scoringConfig,
+    predictionMode: isMatchWinner ? "MatchWinner" : "CorrectScore",
+    onTheNosePoints,
+    correctDifferencePoints: differencePoints,
+    outcomePoints,
+    underdogBonus,
+    underdogMaxMultiplier,
+  });
+
+  if (isLoading) {
+    return <ActivityIndicator size="small" color={theme.colors.primary} />;
+  }
+
+  return (
+    <View>
+      {strategies.map((s) => {
+        const disabled = isMatchWinner && !s.supportsMatchWinner;
+        return (
+          <Pressable
+            key={s.key}
+            disabled={disabled}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              onStrategyChange(s.key);
+              onConfigChange({});
+            }}
+            style={({ pressed }) => [createStyles.sheetOption, { opacity: disabled ? 0.4 : pressed ? 0.6 : 1 }]}
+          >
+            <View style={{ flex: 1 }}>
+              <Text style={[createStyles.sheetOptionLabel, { color: theme.colors.textPrimary }]}>
+                {t(`lobby.scoringStrategies.${s.key}`, { defaultValue: s.label })}
+              </Text>
+              <Text style={[createStyles.advRowSub, { color: theme.colors.textSecondary }]}>
+                {disabled ? t("lobby.scoringStrategyUnavailable") : s.description}
+              </Text>
+            </View>
+            <Ionicons name={s.key === scoringStrategy ? "radio-button-on" : "radio-button-off"} size={18} color={s.key === scoringStrategy ? theme.colors.primary : theme.colors.textSecondary} />
+          </Pressable>
+        );
+      })}
+
+      {selected?.fields.map((field) => {
+        const value = scoringConfig[field.key] ?? field.default;
+        return (
+          <View key={field.key} style={createStyles.sheetOption}>
+            <Text style={[createStyles.sheetOptionLabel, { color: theme.colors.textPrimary }]}>{field.label}</Text>
+            <View style={{ flexDirection: "row", alignItems: "center", gap: theme.spacing.ms }}>
+              <Pressable
+                onPress={() => { if (value > field.min) { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); onConfigChange({ ...scoringConfig, [field.key]: value - 1 }); } }}
+                hitSlop={8}
+                style={{ opacity: value > field.min ? 1 : 0.3 }}
+              >
+                <Ionicons name="remove-circle-outline" size={24} color={theme.colors.textPrimary} />
+              </Pressable>
+              <Text style={{ color: theme.colors.textPrimary, fontWeight: "700", fontSize: 16, minWidth: theme.spacing.ml, textAlign: "center" }}>{value}</Text>
+              <Pressable
+                onPress={() => { if (value < field.max) { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); onConfigChange({ ...scoringConfig, [field.key]: value + 1 }); } }}
+                hitSlop={8}
+                style={{ opacity: value < field.max ? 1 : 0.3 }}
+              >
+                <Ionicons name="add-circle-outline" size={24} color={theme.colors.textPrimary} />
+              </Pressable>
+            </View>
+          </View>
+        );
+      })}
+
+      {/* Underdog bonus — hidden for strategies that already weight by odds */}
+      {!selected?.requiresOdds && (
+        <>
+          <Pressable
+            onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); onUnderdogBonusChange(!underdogBonus); }}
+            style={createStyles.sheetOption}
+          >
+            <View style={{ flex: 1 }}>
+              <Text style={[createStyles.sheetOptionLabel, { color: theme.colors.textPrimary }]}>{t("lobby.underdogBonus")}</Text>
+              <Text style={[createStyles.advRowSub, { color: theme.colors.textSecondary }]}>{t("lobby.underdogBonusDescription")}</Text>
+            </View>
+            <View style={[createStyles.advToggle, { backgroundColor: underdogBonus ? theme.colors.primary : theme.colors.textSecondary + "30" }]}>
+              <View style={[createStyles.advToggleKnob, { alignSelf: underdogBonus ? "flex-end" : "flex-start" }]} />
+            </View>
+          </Pressable>
+          {underdogBonus && (
+            <View style={createStyles.sheetOption}>
+              <Text style={[createStyles.sheetOptionLabel, { color: theme.colors.textPrimary }]}>{t("lobby.underdogMaxMultiplier")}</Text>
+              <View style={{ flexDirection: "row", alignItems: "center", gap: theme.spacing.ms }}>
+                <Pressable
+                  onPress={() => { if (underdogMaxMultiplier > UNDERDOG_MULTIPLIER_MIN) { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); onUnderdogMaxMultiplierChange(underdogMaxMultiplier - 1); } }}
+                  hitSlop={8}
+                  style={{ opacity: underdogMaxMultiplier > UNDERDOG_MULTIPLIER_MIN ? 1 : 0.3 }}
+                >
+                  <Ionicons name="remove-circle-outline" size={24} color={theme.colors.textPrimary} />
+                </Pressable>
+                <Text style={{ color: theme.colors.textPrimary, fontWeight: "700", fontSize: 16, minWidth: theme.spacing.ml, textAlign: "center" }}>×{underdogMaxMultiplier}</Text>
+                <Pressable
+                  onPress={() => { if (underdogMaxMultiplier < UNDERDOG_MULTIPLIER_MAX) { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); onUnderdogMaxMultiplierChange(underdogMaxMultiplier + 1); } }}
+                  hitSlop={8}
+                  style={{ opacity: underdogMaxMultiplier < UNDERDOG_MULTIPLIER_MAX ? 1 : 0.3 }}
+                >
+                  <Ionicons name="add-circle-outline" size={24} color={theme.colors.textPrimary} />
+                </Pressable>
+              </View>
+            </View>
+          )}
+        </>
+      )}
+
+      {previewData && (
+        <View style={{ marginTop: theme.spacing.sm }}>
+          <Text style={[createStyles.advRowSub, { color: theme.colors.textSecondary, marginBottom: theme.spacing.xs }]}>
+            {selected?.requiresOdds || underdogBonus
+              ? t("lobby.scoringStrategyPreviewOdds", SAMPLE_ODDS)
+              : t("lobby.scoringStrategyPreview")}
+          </Text>
+          {previewData.data.rows.map((row, i) => (
+            <View key={i} style={{ flexDirection: "row", justifyContent: "space-between", paddingVertical: 4 }}>
+              <Text style={{ color: theme.colors.textSecondary, fontSize: 13 }}>
+                {row.prediction} → {row.result}
+              </Text>
+              <Text style={{ color: theme.colors.textPrimary, fontSize: 13, fontWeight: "700" }}>
+                {row.points}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
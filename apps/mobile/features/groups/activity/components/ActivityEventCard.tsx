@@ -32,10 +32,20 @@ function getEventIcon(eventType: string): IoniconsName {
       return "create";
     case "group_published":
       return "rocket";
+    case "season_continued":
+    case "season_started":
+      return "calendar";
     case "fixture_live":
       return "football";
     case "fixture_ft":
       return "checkmark-circle";
+    case "round_winner":
+      return "trophy";
+    case "fixture_voided":
+      return "close-circle";
+    case "fixture_postponed":
+    case "fixture_rescheduled":
+      return "time";
     default:
       return "ellipse";
   }
@@ -45,14 +55,18 @@ function getEventColor(eventType: string, colors: import("@/lib/theme/colors").C
   switch (eventType) {
     case "member_joined":
     case "group_published":
+    case "season_started":
       return colors.success ?? "#22c55e";
     case "member_left":
     case "games_removed":
+    case "fixture_voided":
       return colors.danger ?? "#ef4444";
     case "fixture_live":
+    case "round_winner":
       return colors.warning ?? "#f59e0b";
     case "fixture_ft":
     case "fixtures_synced":
+    case "fixture_rescheduled":
       return colors.primary;
     default:
       return colors.textSecondary;
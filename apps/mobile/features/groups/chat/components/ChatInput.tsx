@@ -1,5 +1,6 @@
 // features/groups/chat/components/ChatInput.tsx
 // TextInput + Send button. Typing indicator with 2 second debounce. @mentions picker. Read-only for ended groups.
+// Shows a reply/edit banner when composing a reply or editing a message. Optional share-prediction button.
 
 import React, { useCallback, useEffect, useRef, useState } from "react";
 import { useTranslation } from "react-i18next";
@@ -18,13 +19,19 @@ import { Ionicons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import { useTheme } from "@/lib/theme";
 import { AppText } from "@/components/ui";
-import type { MentionData } from "@/lib/socket";
+import type { ChatMessage, MentionData } from "@/lib/socket";
 import { MentionPicker } from "./MentionPicker";
 import type { MentionOption } from "./MentionPicker";
 
 const TYPING_DEBOUNCE_MS = 2000;
 const MAX_MENTION_QUERY_LENGTH = 30;
 
+/** Message being replied to or edited; onSend then replies/edits instead of sending fresh. */
+export type ChatInputContext = {
+  kind: "reply" | "edit";
+  message: ChatMessage;
+} | null;
+
 interface ChatInputProps {
   onSend: (body: string, mentions?: MentionData[]) => void;
   onTypingStart: () => void;
@@ -32,6 +39,10 @@ interface ChatInputProps {
   readOnly?: boolean;
   memberOptions: MentionOption[];
   fixtureOptions: MentionOption[];
+  context?: ChatInputContext;
+  onCancelContext?: () => void;
+  /** Opens the share-a-prediction picker; the button is hidden without it */
+  onSharePrediction?: () => void;
 }
 
 export function ChatInput({
@@ -41,6 +52,9 @@ export function ChatInput({
   readOnly = false,
   memberOptions,
   fixtureOptions,
+  context = null,
+  onCancelContext,
+  onSharePrediction,
 }: ChatInputProps) {
   const { t } = useTranslation("common");
   const { theme } = useTheme();
@@ -72,6 +86,18 @@ export function ChatInput({
 
   textRef.current = text;
 
+  // Editing starts from the message's current text and mentions
+  const editingId = context?.kind === "edit" ? context.message.id : null;
+  useEffect(() => {
+    if (!context || context.kind !== "edit") return;
+    const body = context.message.body;
+    setText(body);
+    setMentions((context.message.meta?.mentions ?? []) as MentionData[]);
+    lastLengthRef.current = body.length;
+    lastCursorRef.current = body.length;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [editingId]);
+
   const scheduleTypingStop = useCallback(() => {
     if (typingStopTimerRef.current) {
       clearTimeout(typingStopTimerRef.current);
@@ -209,6 +235,16 @@ export function ChatInput({
     Keyboard.dismiss();
   }, [text, readOnly, onSend, onTypingStop, mentions]);
 
+  const handleCancelContext = useCallback(() => {
+    if (context?.kind === "edit") {
+      setText("");
+      setMentions([]);
+      lastLengthRef.current = 0;
+      lastCursorRef.current = 0;
+    }
+    onCancelContext?.();
+  }, [context?.kind, onCancelContext]);
+
   const canSend = text.trim().length > 0 && !readOnly;
 
   if (readOnly) {
@@ -245,6 +281,47 @@ export function ChatInput({
           onClose={handleCloseMentionPicker}
         />
       )}
+      {context && (
+        <View
+          style={[
+            styles.contextBanner,
+            {
+              gap: theme.spacing.sm,
+              paddingHorizontal: theme.spacing.md,
+              paddingTop: theme.spacing.sm,
+              backgroundColor: theme.colors.surface,
+            },
+          ]}
+        >
+          <Ionicons
+            name={context.kind === "edit" ? "create-outline" : "arrow-undo-outline"}
+            size={18}
+            color={theme.colors.primary}
+          />
+          <View style={styles.contextText}>
+            <AppText
+              variant="caption"
+              style={{ fontWeight: "600", color: theme.colors.primary }}
+              numberOfLines={1}
+            >
+              {context.kind === "edit"
+                ? t("chat.editingMessage")
+                : t("chat.replyingTo", {
+                    name: context.message.sender?.username ?? t("chat.someone"),
+                  })}
+            </AppText>
+            <AppText variant="caption" color="secondary" numberOfLines={1}>
+              {context.message.body}
+            </AppText>
+          </View>
+          <Pressable
+            onPress={handleCancelContext}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Ionicons name="close" size={20} color={theme.colors.textSecondary} />
+          </Pressable>
+        </View>
+      )}
       <View
         style={{
           flexDirection: "row",
@@ -270,6 +347,26 @@ export function ChatInput({
             @
           </AppText>
         </Pressable>
+        {onSharePrediction && !context && (
+          <Pressable
+            onPress={onSharePrediction}
+            accessibilityLabel={t("chat.sharePrediction")}
+            style={({ pressed }) => [
+              styles.atButton,
+              {
+                borderRadius: theme.radius.xl,
+                backgroundColor: "transparent",
+                opacity: pressed ? 0.7 : 1,
+              },
+            ]}
+          >
+            <Ionicons
+              name="football-outline"
+              size={22}
+              color={theme.colors.textSecondary}
+            />
+          </Pressable>
+        )}
         <TextInput
           style={[
             styles.input,
@@ -338,4 +435,11 @@ const styles = StyleSheet.create({
   readOnlyText: {
     textAlign: "center",
   },
+  contextBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  contextText: {
+    flex: 1,
+  },
 });
@@ -0,0 +1,142 @@
+// features/groups/chat/components/ChatMessageActionsSheet.tsx
+// Long-press sheet for a message: quick reactions, reply, edit (own, in window), delete (own or admin).
+
+import React from "react";
+import { View, Pressable, StyleSheet } from "react-native";
+import { BottomSheetModal } from "@gorhom/bottom-sheet";
+import { useTranslation } from "react-i18next";
+import { Ionicons } from "@expo/vector-icons";
+import { AppText } from "@/components/ui";
+import { useTheme } from "@/lib/theme";
+import { SettingsRowBottomSheet } from "@/features/settings";
+
+export const QUICK_REACTIONS = ["👍", "❤️", "😂", "😮", "😢", "⚽", "🔥"];
+
+interface ChatMessageActionsSheetProps {
+  sheetRef: React.RefObject<React.ComponentRef<typeof BottomSheetModal> | null>;
+  canEdit: boolean;
+  canDelete: boolean;
+  onReact: (emoji: string) => void;
+  onReply: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+export function ChatMessageActionsSheet({
+  sheetRef,
+  canEdit,
+  canDelete,
+  onReact,
+  onReply,
+  onEdit,
+  onDelete,
+}: ChatMessageActionsSheetProps) {
+  const { t } = useTranslation("common");
+  const { theme } = useTheme();
+
+  const run = (action: () => void) => () => {
+    sheetRef.current?.dismiss();
+    action();
+  };
+
+  const actions: Array<{
+    key: string;
+    icon: keyof typeof Ionicons.glyphMap;
+    label: string;
+    onPress: () => void;
+    destructive?: boolean;
+  }> = [
+    { key: "reply", icon: "arrow-undo-outline", label: t("chat.reply"), onPress: onReply },
+    ...(canEdit
+      ? [{ key: "edit", icon: "create-outline" as const, label: t("chat.edit"), onPress: onEdit }]
+      : []),
+    ...(canDelete
+      ? [
+          {
+            key: "delete",
+            icon: "trash-outline" as const,
+            label: t("chat.delete"),
+            onPress: onDelete,
+            destructive: true,
+          },
+        ]
+      : []),
+  ];
+
+  return (
+    <SettingsRowBottomSheet.Sheet
+      sheetRef={sheetRef}
+      title={t("chat.messageActions")}
+    >
+      <View style={[styles.reactionsRow, { marginBottom: theme.spacing.md }]}>
+        {QUICK_REACTIONS.map((emoji) => (
+          <Pressable
+            key={emoji}
+            onPress={run(() => onReact(emoji))}
+            style={({ pressed }) => [
+              styles.reactionButton,
+              {
+                borderRadius: theme.radius.full,
+                backgroundColor: pressed ? theme.colors.border : theme.colors.surface,
+              },
+            ]}
+          >
+            <AppText variant="title">{emoji}</AppText>
+          </Pressable>
+        ))}
+      </View>
+      <View
+        style={{
+          backgroundColor: theme.colors.surface,
+          borderRadius: theme.radius.md,
+          borderWidth: 1,
+          borderColor: theme.colors.border,
+        }}
+      >
+        {actions.map((action, index) => {
+          const color = action.destructive
+            ? theme.colors.danger
+            : theme.colors.textPrimary;
+          return (
+            <Pressable
+              key={action.key}
+              onPress={run(action.onPress)}
+              style={[
+                styles.actionRow,
+                {
+                  gap: theme.spacing.ms,
+                  paddingVertical: theme.spacing.md,
+                  paddingHorizontal: theme.spacing.ms,
+                  borderBottomWidth: index < actions.length - 1 ? 1 : 0,
+                  borderBottomColor: theme.colors.border,
+                },
+              ]}
+            >
+              <Ionicons name={action.icon} size={20} color={color} />
+              <AppText variant="body" style={{ color }}>
+                {action.label}
+              </AppText>
+            </Pressable>
+          );
+        })}
+      </View>
+    </SettingsRowBottomSheet.Sheet>
+  );
+}
+
+const styles = StyleSheet.create({
+  reactionsRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  reactionButton: {
+    width: 44,
+    height: 44,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  actionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+});
@@ -1,8 +1,10 @@
 // features/groups/chat/components/ChatMessageBubble.tsx
 // Message bubble for user messages — yours on right (primary bg), others on left (surface bg). Mentions highlighted.
+// Shows the quoted parent for replies, an "edited" tag, reactions, and a placeholder once deleted.
+// Shared predictions render as a ChatPredictionCard inside the bubble.
 
 import React from "react";
-import { View, StyleSheet, Text } from "react-native";
+import { View, StyleSheet, Text, Pressable } from "react-native";
 import { Image } from "expo-image";
 import { useTranslation } from "react-i18next";
 import i18n from "i18next";
@@ -13,10 +15,15 @@ import { formatTime24Locale } from "@/lib/i18n/i18n.date";
 import type { Locale } from "@/lib/i18n/i18n.types";
 import { isLocale } from "@/lib/i18n/i18n.types";
 import type { ChatMessage, MentionData } from "@/lib/socket";
+import { ChatPredictionCard } from "./ChatPredictionCard";
 
 interface ChatMessageBubbleProps {
   message: ChatMessage;
   isCurrentUser: boolean;
+  currentUserId: number;
+  /** Opens the message actions (react, reply, edit, delete) */
+  onLongPress?: (message: ChatMessage) => void;
+  onToggleReaction?: (message: ChatMessage, emoji: string) => void;
 }
 
 function getCurrentLocale(): Locale {
@@ -81,15 +88,25 @@ function parseMentions(
 export function ChatMessageBubble({
   message,
   isCurrentUser,
+  currentUserId,
+  onLongPress,
+  onToggleReaction,
 }: ChatMessageBubbleProps) {
   const { theme } = useTheme();
   const { t } = useTranslation("common");
 
-  if (message.type !== "user_message") return null;
+  if (message.type === "system_event") return null;
 
   const displayName =
     message.sender?.username ??
     t("chat.playerFallback", { id: message.senderId ?? "?" });
+  const isDeleted = message.deletedAt != null;
+  const textColor = isCurrentUser
+    ? theme.colors.primaryText
+    : theme.colors.textPrimary;
+  const mutedColor = isCurrentUser
+    ? theme.colors.textInverse + "CC"
+    : theme.colors.textSecondary;
 
   const bubbleBg = isCurrentUser ? theme.colors.primary : theme.colors.cardBackground;
   const bubbleStyle = [
@@ -134,55 +151,138 @@ export function ChatMessageBubble({
             </AppText>
           </View>
         ))}
-      <View style={bubbleStyle}>
-        {!isCurrentUser && (
+      <View style={isCurrentUser ? styles.columnRight : styles.columnLeft}>
+        <Pressable
+          onLongPress={
+            onLongPress && !isDeleted && message.id > 0
+              ? () => onLongPress(message)
+              : undefined
+          }
+          delayLongPress={300}
+          style={bubbleStyle}
+        >
+          {!isCurrentUser && (
+            <AppText
+              variant="caption"
+              color="secondary"
+              style={{ marginBottom: theme.spacing.xs }}
+            >
+              {displayName}
+            </AppText>
+          )}
+          {message.replyTo && !isDeleted && (
+            <View
+              style={[
+                styles.replyQuote,
+                {
+                  borderStartColor: isCurrentUser
+                    ? theme.colors.textInverse
+                    : theme.colors.primary,
+                  paddingStart: theme.spacing.sm,
+                  marginBottom: theme.spacing.xs,
+                },
+              ]}
+            >
+              <AppText
+                variant="caption"
+                style={{ fontWeight: "600", color: mutedColor }}
+                numberOfLines={1}
+              >
+                {message.replyTo.sender?.username ?? t("chat.someone")}
+              </AppText>
+              <AppText
+                variant="caption"
+                style={{ color: mutedColor, fontStyle: message.replyTo.deleted ? "italic" : "normal" }}
+                numberOfLines={2}
+              >
+                {message.replyTo.deleted
+                  ? t("chat.deletedMessage")
+                  : message.replyTo.body}
+              </AppText>
+            </View>
+          )}
+          {isDeleted ? (
+            <AppText
+              variant="body"
+              style={{ color: mutedColor, fontStyle: "italic" }}
+            >
+              {t("chat.deletedMessage")}
+            </AppText>
+          ) : message.type === "prediction_share" ? (
+            <ChatPredictionCard
+              card={message.prediction}
+              isCurrentUser={isCurrentUser}
+            />
+          ) : (
+            <AppText
+              variant="body"
+              style={{ color: textColor }}
+            >
+              {parseMentions(message.body, message.meta).map((segment, i) =>
+                segment.mention ? (
+                  <Text
+                    key={i}
+                    style={{
+                      fontWeight: "700",
+                      color: isCurrentUser ? theme.colors.textInverse : theme.colors.primary,
+                    }}
+                  >
+                    {segment.text}
+                  </Text>
+                ) : (
+                  <Text key={i}>{segment.text}</Text>
+                )
+              )}
+            </AppText>
+          )}
           <AppText
             variant="caption"
-            color="secondary"
-            style={{ marginBottom: theme.spacing.xs }}
+            style={[
+              styles.time,
+              { marginTop: theme.spacing.xs },
+              {
+                color: mutedColor,
+                textAlign: isCurrentUser ? "right" : "left",
+              },
+            ]}
           >
-            {displayName}
+            {message.editedAt && !isDeleted ? `${t("chat.edited")} · ` : ""}
+            {formatMessageTime(message.createdAt)}
           </AppText>
+        </Pressable>
+        {message.reactions.length > 0 && !isDeleted && (
+          <View
+            style={[
+              styles.reactions,
+              { gap: theme.spacing.xs, marginTop: theme.spacing.xs },
+            ]}
+          >
+            {message.reactions.map((reaction) => {
+              const mine = reaction.userIds.includes(currentUserId);
+              return (
+                <Pressable
+                  key={reaction.emoji}
+                  onPress={() => onToggleReaction?.(message, reaction.emoji)}
+                  style={[
+                    styles.reactionChip,
+                    {
+                      paddingHorizontal: theme.spacing.sm,
+                      borderRadius: theme.radius.full,
+                      backgroundColor: mine
+                        ? theme.colors.primary + "26"
+                        : theme.colors.surface,
+                      borderColor: mine ? theme.colors.primary : theme.colors.border,
+                    },
+                  ]}
+                >
+                  <AppText variant="caption">
+                    {reaction.emoji} {reaction.count}
+                  </AppText>
+                </Pressable>
+              );
+            })}
+          </View>
         )}
-        <AppText
-          variant="body"
-          style={{
-            color: isCurrentUser
-              ? theme.colors.primaryText
-              : theme.colors.textPrimary,
-          }}
-        >
-          {parseMentions(message.body, message.meta).map((segment, i) =>
-            segment.mention ? (
-              <Text
-                key={i}
-                style={{
-                  fontWeight: "700",
-                  color: isCurrentUser ? theme.colors.textInverse : theme.colors.primary,
-                }}
-              >
-                {segment.text}
-              </Text>
-            ) : (
-              <Text key={i}>{segment.text}</Text>
-            )
-          )}
-        </AppText>
-        <AppText
-          variant="caption"
-          style={[
-            styles.time,
-            { marginTop: theme.spacing.xs },
-            {
-              color: isCurrentUser
-                ? theme.colors.textInverse + "CC"
-                : theme.colors.textSecondary,
-              textAlign: isCurrentUser ? "right" : "left",
-            },
-          ]}
-        >
-          {formatMessageTime(message.createdAt)}
-        </AppText>
       </View>
     </View>
   );
@@ -211,8 +311,29 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: "600",
   },
-  bubble: {
+  columnLeft: {
+    maxWidth: "80%",
+    alignItems: "flex-start",
+  },
+  columnRight: {
     maxWidth: "80%",
+    alignItems: "flex-end",
+  },
+  bubble: {
+    maxWidth: "100%",
+  },
+  replyQuote: {
+    borderStartWidth: 3,
+  },
+  reactions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  reactionChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 2,
+    borderWidth: 1,
   },
   time: {
     fontSize: 11,
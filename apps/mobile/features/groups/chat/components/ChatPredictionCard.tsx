@@ -0,0 +1,124 @@
+// features/groups/chat/components/ChatPredictionCard.tsx
+// Rich card for a shared prediction: fixture, the pick (or a lock until kickoff), joker, points once settled.
+
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { useTranslation } from "react-i18next";
+import { Ionicons } from "@expo/vector-icons";
+import { AppText } from "@/components/ui";
+import { useTheme } from "@/lib/theme";
+import type { ChatPredictionCard as ChatPredictionCardData } from "@/lib/socket";
+
+interface ChatPredictionCardProps {
+  card: ChatPredictionCardData | null;
+  isCurrentUser: boolean;
+}
+
+export function ChatPredictionCard({ card, isCurrentUser }: ChatPredictionCardProps) {
+  const { t } = useTranslation("common");
+  const { theme } = useTheme();
+
+  const textColor = isCurrentUser
+    ? theme.colors.primaryText
+    : theme.colors.textPrimary;
+  const mutedColor = isCurrentUser
+    ? theme.colors.textInverse + "CC"
+    : theme.colors.textSecondary;
+  const panelBg = isCurrentUser
+    ? theme.colors.textInverse + "22"
+    : theme.colors.surface;
+
+  if (!card) {
+    return (
+      <AppText variant="body" style={{ color: mutedColor, fontStyle: "italic" }}>
+        {t("chat.predictionUnavailable")}
+      </AppText>
+    );
+  }
+
+  const [home, away] = card.prediction?.split(":") ?? [];
+  const hasScore = card.homeScore != null && card.awayScore != null;
+
+  return (
+    <View style={{ gap: theme.spacing.xs, minWidth: 180 }}>
+      <View style={[styles.row, { gap: theme.spacing.xs }]}>
+        <Ionicons name="football-outline" size={14} color={mutedColor} />
+        <AppText variant="caption" style={{ color: mutedColor, flexShrink: 1 }} numberOfLines={1}>
+          {card.homeTeam} – {card.awayTeam}
+        </AppText>
+        {hasScore && (
+          <AppText variant="caption" style={{ color: mutedColor, fontWeight: "700" }}>
+            {card.homeScore}-{card.awayScore}
+          </AppText>
+        )}
+      </View>
+
+      <View
+        style={[
+          styles.pick,
+          {
+            backgroundColor: panelBg,
+            borderRadius: theme.radius.md,
+            paddingVertical: theme.spacing.sm,
+            paddingHorizontal: theme.spacing.md,
+            gap: theme.spacing.sm,
+          },
+        ]}
+      >
+        {card.prediction ? (
+          <AppText variant="title" style={{ color: textColor }}>
+            {home} : {away}
+          </AppText>
+        ) : (
+          <>
+            <Ionicons name="lock-closed" size={18} color={mutedColor} />
+            <AppText variant="body" style={{ color: mutedColor }}>
+              {t("chat.predictionHidden")}
+            </AppText>
+          </>
+        )}
+        {card.isJoker && (
+          <View
+            style={[
+              styles.badge,
+              {
+                borderRadius: theme.radius.full,
+                paddingHorizontal: theme.spacing.sm,
+                backgroundColor: theme.colors.warning + "33",
+              },
+            ]}
+          >
+            <AppText variant="caption" style={{ color: textColor, fontWeight: "700" }}>
+              {t("chat.predictionJoker")}
+            </AppText>
+          </View>
+        )}
+      </View>
+
+      {card.points != null ? (
+        <AppText variant="caption" style={{ color: textColor, fontWeight: "700" }}>
+          {t("chat.predictionPoints", { count: card.points })}
+        </AppText>
+      ) : !card.revealed && card.prediction ? (
+        <AppText variant="caption" style={{ color: mutedColor }}>
+          {t("chat.predictionHiddenFromOthers")}
+        </AppText>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  pick: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  badge: {
+    paddingVertical: 2,
+  },
+});
@@ -0,0 +1,136 @@
+// features/groups/chat/components/SharePredictionSheet.tsx
+// Pick one of your predictions to post as a chat card; optionally reveal it before kickoff.
+
+import React, { useMemo, useState } from "react";
+import { View, Pressable, StyleSheet, Switch } from "react-native";
+import { BottomSheetModal } from "@gorhom/bottom-sheet";
+import { useTranslation } from "react-i18next";
+import { AppText } from "@/components/ui";
+import { useTheme } from "@/lib/theme";
+import { SettingsRowBottomSheet } from "@/features/settings";
+import type { FixtureItem } from "@/types/common";
+
+/** Keep the sheet short: the predictions closest to now. */
+const MAX_FIXTURES = 8;
+
+interface SharePredictionSheetProps {
+  sheetRef: React.RefObject<React.ComponentRef<typeof BottomSheetModal> | null>;
+  fixtures: FixtureItem[];
+  onShare: (fixtureId: number, revealNow: boolean) => void;
+}
+
+export function SharePredictionSheet({
+  sheetRef,
+  fixtures,
+  onShare,
+}: SharePredictionSheetProps) {
+  const { t } = useTranslation("common");
+  const { theme } = useTheme();
+  const [revealNow, setRevealNow] = useState(false);
+
+  const predicted = useMemo(() => {
+    const nowSec = Date.now() / 1000;
+    return fixtures
+      .filter((f) => f.prediction != null)
+      .sort(
+        (a, b) => Math.abs(a.startTs - nowSec) - Math.abs(b.startTs - nowSec)
+      )
+      .slice(0, MAX_FIXTURES);
+  }, [fixtures]);
+
+  return (
+    <SettingsRowBottomSheet.Sheet
+      sheetRef={sheetRef}
+      title={t("chat.sharePredictionTitle")}
+    >
+      {predicted.length === 0 ? (
+        <AppText variant="body" color="secondary" style={styles.empty}>
+          {t("chat.noPredictionsToShare")}
+        </AppText>
+      ) : (
+        <>
+          <View
+            style={[
+              styles.revealRow,
+              { gap: theme.spacing.md, marginBottom: theme.spacing.md },
+            ]}
+          >
+            <View style={styles.revealText}>
+              <AppText variant="body">{t("chat.revealNow")}</AppText>
+              <AppText variant="caption" color="secondary">
+                {t("chat.revealNowHint")}
+              </AppText>
+            </View>
+            <Switch
+              value={revealNow}
+              onValueChange={setRevealNow}
+              trackColor={{
+                false: theme.colors.border,
+                true: theme.colors.primary,
+              }}
+              thumbColor={
+                revealNow ? theme.colors.primaryText : theme.colors.surface
+              }
+            />
+          </View>
+          <View
+            style={{
+              backgroundColor: theme.colors.surface,
+              borderRadius: theme.radius.md,
+              borderWidth: 1,
+              borderColor: theme.colors.border,
+            }}
+          >
+            {predicted.map((fixture, index) => (
+              <Pressable
+                key={fixture.id}
+                onPress={() => {
+                  sheetRef.current?.dismiss();
+                  onShare(fixture.id, revealNow);
+                }}
+                style={({ pressed }) => [
+                  styles.fixtureRow,
+                  {
+                    gap: theme.spacing.ms,
+                    paddingVertical: theme.spacing.md,
+                    paddingHorizontal: theme.spacing.ms,
+                    borderBottomWidth: index < predicted.length - 1 ? 1 : 0,
+                    borderBottomColor: theme.colors.border,
+                    opacity: pressed ? 0.7 : 1,
+                  },
+                ]}
+              >
+                <AppText variant="body" style={styles.fixtureName} numberOfLines={1}>
+                  {fixture.homeTeam?.name ?? "TBD"} – {fixture.awayTeam?.name ?? "TBD"}
+                </AppText>
+                <AppText variant="body" style={{ fontWeight: "700" }}>
+                  {fixture.prediction!.home}:{fixture.prediction!.away}
+                </AppText>
+              </Pressable>
+            ))}
+          </View>
+        </>
+      )}
+    </SettingsRowBottomSheet.Sheet>
+  );
+}
+
+const styles = StyleSheet.create({
+  empty: {
+    textAlign: "center",
+  },
+  revealRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  revealText: {
+    flex: 1,
+  },
+  fixtureRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  fixtureName: {
+    flex: 1,
+  },
+});
@@ -5,6 +5,13 @@ export { GroupChatScreen } from "./screens/GroupChatScreen";
 export { ChatMessageBubble } from "./components/ChatMessageBubble";
 export { ChatSystemEvent } from "./components/ChatSystemEvent";
 export { ChatInput } from "./components/ChatInput";
+export type { ChatInputContext } from "./components/ChatInput";
+export {
+  ChatMessageActionsSheet,
+  QUICK_REACTIONS,
+} from "./components/ChatMessageActionsSheet";
+export { ChatPredictionCard } from "./components/ChatPredictionCard";
+export { SharePredictionSheet } from "./components/SharePredictionSheet";
 export { ChatTypingIndicator } from "./components/ChatTypingIndicator";
 export { MentionPicker } from "./components/MentionPicker";
 export type { MentionOption } from "./components/MentionPicker";
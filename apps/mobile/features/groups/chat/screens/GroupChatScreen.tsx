@@ -1,5 +1,6 @@
 // features/groups/chat/screens/GroupChatScreen.tsx
 // Chat screen with inverted FlatList, KeyboardAvoidingView, auto markAsRead.
+// Long-press a message to react, reply, edit or delete it. Members can share a prediction as a card.
 
 import React, { useCallback, useRef, useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
@@ -12,29 +13,39 @@ import {
   FlatList,
   ListRenderItem,
   Animated,
+  Alert,
   type NativeSyntheticEvent,
   type NativeScrollEvent,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useFocusEffect } from "@react-navigation/native";
 import { useQueryClient } from "@tanstack/react-query";
+import type { BottomSheetModal } from "@gorhom/bottom-sheet";
 import { useTheme } from "@/lib/theme";
 import { getShadowStyle } from "@/lib/theme/shadows";
 import { AppText } from "@/components/ui";
 import { QueryLoadingView } from "@/components/QueryState/QueryLoadingView";
 import { QueryErrorView } from "@/components/QueryState/QueryErrorView";
-import { useGroupChat, useGroupQuery, groupsKeys } from "@/domains/groups";
+import {
+  useGroupChat,
+  useGroupQuery,
+  useSharePredictionMutation,
+  groupsKeys,
+  CHAT_EDIT_WINDOW_MS,
+} from "@/domains/groups";
 import { useAuth } from "@/lib/auth/useAuth";
 import { formatChatDateSeparator } from "@/lib/i18n/i18n.date";
 import { isLocale } from "@/lib/i18n/i18n.types";
 import { ChatMessageBubble } from "../components/ChatMessageBubble";
 import { ChatSystemEvent } from "../components/ChatSystemEvent";
 import { ChatDateSeparator } from "../components/ChatDateSeparator";
-import { ChatInput } from "../components/ChatInput";
+import { ChatInput, type ChatInputContext } from "../components/ChatInput";
+import { ChatMessageActionsSheet } from "../components/ChatMessageActionsSheet";
+import { SharePredictionSheet } from "../components/SharePredictionSheet";
 import { ChatTypingIndicator } from "../components/ChatTypingIndicator";
 import { useMentionOptions } from "../hooks/useMentionOptions";
 import type { FixtureItem } from "@/types/common";
-import type { ChatMessage } from "@/lib/socket";
+import type { ChatMessage, MentionData } from "@/lib/socket";
 
 interface GroupChatScreenProps {
   groupId: number | null;
@@ -90,15 +101,22 @@ function buildChatList(
 const ChatItem = React.memo(function ChatItem({
   message,
   currentUserId,
+  onLongPress,
+  onToggleReaction,
 }: {
   message: ChatMessage;
   currentUserId: number;
+  onLongPress?: (message: ChatMessage) => void;
+  onToggleReaction?: (message: ChatMessage, emoji: string) => void;
 }) {
-  if (message.type === "user_message") {
+  if (message.type !== "system_event") {
     return (
       <ChatMessageBubble
         message={message}
         isCurrentUser={message.senderId === currentUserId}
+        currentUserId={currentUserId}
+        onLongPress={onLongPress}
+        onToggleReaction={onToggleReaction}
       />
     );
   }
@@ -115,6 +133,8 @@ export function GroupChatScreen({ groupId, keyboardVerticalOffset: kbOffsetProp
     includeFixtures: true,
   });
   const isEnded = groupData?.data?.status === "ended";
+  const userRole = groupData?.data?.userRole;
+  const isGroupAdmin = userRole === "owner" || userRole === "admin";
 
   const fixtures: FixtureItem[] = groupData?.data?.fixtures ?? [];
   const { memberOptions, fixtureOptions } = useMentionOptions(
@@ -126,6 +146,9 @@ export function GroupChatScreen({ groupId, keyboardVerticalOffset: kbOffsetProp
   const {
     messages,
     sendMessage,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
     typingUsers,
     triggerTypingStart,
     triggerTypingStop,
@@ -147,6 +170,97 @@ export function GroupChatScreen({ groupId, keyboardVerticalOffset: kbOffsetProp
     }, [queryClient])
   );
 
+  const sharePredictionSheetRef = useRef<BottomSheetModal>(null);
+  const sharePredictionMutation = useSharePredictionMutation(groupId);
+  const handleSharePrediction = useCallback(
+    (fixtureId: number, revealNow: boolean) => {
+      sharePredictionMutation.mutate(
+        { fixtureId, revealNow },
+        {
+          onError: (error) => {
+            Alert.alert(
+              t("errors.error"),
+              error?.message || t("chat.sharePredictionFailed")
+            );
+          },
+        }
+      );
+    },
+    [sharePredictionMutation, t]
+  );
+
+  // Message actions (long-press sheet) and reply/edit composer context
+  const actionsSheetRef = useRef<BottomSheetModal>(null);
+  const [actionMessage, setActionMessage] = useState<ChatMessage | null>(null);
+  const [inputContext, setInputContext] = useState<ChatInputContext>(null);
+
+  const canEditAction =
+    !!actionMessage &&
+    !isEnded &&
+    actionMessage.type === "user_message" &&
+    actionMessage.id > 0 &&
+    actionMessage.senderId === currentUserId &&
+    !actionMessage.deletedAt &&
+    Date.now() - new Date(actionMessage.createdAt).getTime() <
+      CHAT_EDIT_WINDOW_MS;
+  const canDeleteAction =
+    !!actionMessage &&
+    actionMessage.id > 0 &&
+    !actionMessage.deletedAt &&
+    (actionMessage.senderId === currentUserId || isGroupAdmin);
+
+  const handleLongPress = useCallback(
+    (message: ChatMessage) => {
+      // Optimistic messages have no server id yet
+      if (isEnded || message.id <= 0 || message.deletedAt) return;
+      setActionMessage(message);
+      actionsSheetRef.current?.present();
+    },
+    [isEnded]
+  );
+
+  const handleToggleReaction = useCallback(
+    (message: ChatMessage, emoji: string) => {
+      if (isEnded || message.id <= 0) return;
+      toggleReaction(message.id, emoji);
+    },
+    [isEnded, toggleReaction]
+  );
+
+  const handleDelete = useCallback(() => {
+    if (!actionMessage) return;
+    const messageId = actionMessage.id;
+    Alert.alert(t("chat.deleteConfirmTitle"), t("chat.deleteConfirmMessage"), [
+      { text: t("groups.cancel"), style: "cancel" },
+      {
+        text: t("chat.delete"),
+        style: "destructive",
+        onPress: () => {
+          deleteMessage(messageId);
+          setInputContext((ctx) =>
+            ctx?.message.id === messageId ? null : ctx
+          );
+        },
+      },
+    ]);
+  }, [actionMessage, deleteMessage, t]);
+
+  const handleSend = useCallback(
+    (body: string, mentions?: MentionData[]) => {
+      if (inputContext?.kind === "edit") {
+        editMessage(inputContext.message.id, body, mentions);
+      } else {
+        sendMessage(
+          body,
+          mentions,
+          inputContext?.kind === "reply" ? inputContext.message : undefined
+        );
+      }
+      setInputContext(null);
+    },
+    [inputContext, editMessage, sendMessage]
+  );
+
   const lastMarkedRef = useRef<number>(0);
   const messagesRef = useRef(messages);
   messagesRef.current = messages;
@@ -245,9 +359,16 @@ export function GroupChatScreen({ groupId, keyboardVerticalOffset: kbOffsetProp
       if (item.kind === "date_separator") {
         return <ChatDateSeparator label={item.label} />;
       }
-      return <ChatItem message={item.data} currentUserId={currentUserId} />;
+      return (
+        <ChatItem
+          message={item.data}
+          currentUserId={currentUserId}
+          onLongPress={handleLongPress}
+          onToggleReaction={handleToggleReaction}
+        />
+      );
     },
-    [currentUserId]
+    [currentUserId, handleLongPress, handleToggleReaction]
   );
 
   const keyExtractor = useCallback((item: ChatListItem) => {
@@ -370,14 +491,43 @@ export function GroupChatScreen({ groupId, keyboardVerticalOffset: kbOffsetProp
         />
 
         <ChatInput
-          onSend={(body, mentions) => sendMessage(body, mentions)}
+          onSend={handleSend}
           onTypingStart={triggerTypingStart}
           onTypingStop={triggerTypingStop}
           readOnly={isEnded}
           memberOptions={memberOptions}
           fixtureOptions={fixtureOptions}
+          context={inputContext}
+          onCancelContext={() => setInputContext(null)}
+          onSharePrediction={() => sharePredictionSheetRef.current?.present()}
         />
       </View>
+
+      <SharePredictionSheet
+        sheetRef={sharePredictionSheetRef}
+        fixtures={fixtures}
+        onShare={handleSharePrediction}
+      />
+
+      <ChatMessageActionsSheet
+        sheetRef={actionsSheetRef}
+        canEdit={canEditAction}
+        canDelete={canDeleteAction}
+        onReact={(emoji) => {
+          if (actionMessage) toggleReaction(actionMessage.id, emoji);
+        }}
+        onReply={() => {
+          if (actionMessage) {
+            setInputContext({ kind: "reply", message: actionMessage });
+          }
+        }}
+        onEdit={() => {
+          if (actionMessage) {
+            setInputContext({ kind: "edit", message: actionMessage });
+          }
+        }}
+        onDelete={handleDelete}
+      />
     </KeyboardAvoidingView>
   );
 }
@@ -43,8 +43,14 @@ function getEventIcon(eventType: string): IoniconsName {
     case "games_removed": return "remove-circle";
     case "group_info_changed": return "create";
     case "group_published": return "rocket";
+    case "season_continued":
+    case "season_started": return "calendar";
     case "fixture_live": return "football";
     case "fixture_ft": return "checkmark";
+    case "round_winner": return "trophy";
+    case "fixture_voided": return "close-circle";
+    case "fixture_postponed":
+    case "fixture_rescheduled": return "time";
     default: return "ellipse";
   }
 }
@@ -94,6 +94,12 @@ function FixtureRow({
             <Text style={[styles.statusDayText, { color: theme.colors.live }]}>{fixture.liveMinute ?? 0}</Text>
             <Text style={[styles.statusMonthText, { color: theme.colors.live + "70" }]}>Live</Text>
           </View>
+        ) : fixture.prediction?.voided ? (
+          <View style={[styles.pointsBadge, { backgroundColor: theme.colors.textSecondary + "15" }]}>
+            <Text style={[styles.pointsBadgeText, { color: theme.colors.textSecondary }]}>
+              Void
+            </Text>
+          </View>
         ) : isFinished && fixture.prediction?.points != null ? (
           <View style={[styles.pointsBadge, {
             backgroundColor: predictionResult === "max" ? theme.colors.success + "20"
@@ -0,0 +1,105 @@
+// features/groups/group-lobby/components/LobbyRoundWinners.tsx
+// "Manager of the round" list — winners of the latest decided rounds. Hidden until a round is decided.
+
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { View, StyleSheet, Pressable, Text } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme, spacing, radius } from "@/lib/theme";
+import { useRoundHistoryQuery } from "@/domains/groups";
+
+const MAX_ROUNDS = 5;
+
+export interface LobbyRoundWinnersProps {
+  groupId: number;
+  onPress: (roundKey?: string) => void;
+}
+
+function LobbyRoundWinnersInner({ groupId, onPress }: LobbyRoundWinnersProps) {
+  const { t } = useTranslation("common");
+  const { theme } = useTheme();
+  const { data } = useRoundHistoryQuery(groupId);
+
+  const rounds = (data?.data ?? []).slice(0, MAX_ROUNDS);
+  if (rounds.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <Pressable onPress={() => onPress()} style={styles.headerRow}>
+        <Text style={[styles.headerTitle, { color: theme.colors.textPrimary }]}>
+          {t("lobby.roundWinners")}
+        </Text>
+        <Ionicons name="chevron-forward" size={16} color={theme.colors.textSecondary} />
+      </Pressable>
+
+      {rounds.map((round) => {
+        const names = round.winners
+          .map((w) => w.username || t("chat.playerFallback", { id: w.userId }))
+          .join(", ");
+        return (
+          <Pressable
+            key={round.roundKey}
+            onPress={() => onPress(round.roundKey)}
+            style={({ pressed }) => [
+              styles.row,
+              { borderColor: theme.colors.border },
+              pressed && { opacity: 0.7 },
+            ]}
+          >
+            <Ionicons name="trophy" size={16} color={theme.colors.warning} />
+            <View style={styles.rowText}>
+              <Text style={[styles.roundLabel, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+                {round.roundLabel}
+              </Text>
+              <Text style={[styles.winner, { color: theme.colors.textPrimary }]} numberOfLines={1}>
+                {round.winners.length > 0
+                  ? t("lobby.roundWinnerLine", { names, points: round.winningPoints })
+                  : t("lobby.noRoundWinner")}
+              </Text>
+            </View>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+export const LobbyRoundWinners = React.memo(LobbyRoundWinnersInner);
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: spacing.md,
+    marginBottom: spacing.lg,
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: spacing.md,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.sm,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.ms,
+    marginBottom: spacing.xs,
+    borderWidth: 1,
+    borderRadius: radius.sm,
+  },
+  rowText: {
+    flex: 1,
+  },
+  roundLabel: {
+    fontSize: 11,
+    fontWeight: "600",
+  },
+  winner: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+});
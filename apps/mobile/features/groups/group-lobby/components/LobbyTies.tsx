@@ -0,0 +1,178 @@
+// features/groups/group-lobby/components/LobbyTies.tsx
+// Two-legged ties of the group: both legs with the aggregate and, when the market
+// is on, the "who advances" pick. Hidden when the group has no two-legged ties.
+
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { View, StyleSheet, Pressable, Text } from "react-native";
+import * as Haptics from "expo-haptics";
+import type { ApiGroupTie } from "@repo/types";
+import { useTheme, spacing, radius } from "@/lib/theme";
+import { useGroupTiesQuery, useSaveTiePickMutation } from "@/domains/groups";
+import { TieLegs } from "@/components/Fixtures";
+
+export interface LobbyTiesProps {
+  groupId: number;
+}
+
+function TiePickRow({
+  tie,
+  advancePoints,
+  onPick,
+}: {
+  tie: ApiGroupTie;
+  advancePoints: number;
+  onPick: (teamId: number) => void;
+}) {
+  const { t } = useTranslation("common");
+  const { theme } = useTheme();
+  const pickedTeamId = tie.myPick?.teamId ?? null;
+  const settled = tie.settledAt != null && tie.myPick != null;
+
+  return (
+    <View style={styles.pickBlock}>
+      <Text style={[styles.pickTitle, { color: theme.colors.textSecondary }]}>
+        {tie.locked
+          ? t("ties.whoAdvancesLocked")
+          : t("ties.whoAdvances", { points: advancePoints })}
+      </Text>
+      <View style={styles.pickRow}>
+        {[tie.homeTeam, tie.awayTeam].map((team) => {
+          const selected = pickedTeamId === team.id;
+          return (
+            <Pressable
+              key={team.id}
+              disabled={tie.locked}
+              onPress={() => onPick(team.id)}
+              style={({ pressed }) => [
+                styles.pickButton,
+                {
+                  borderColor: selected ? theme.colors.primary : theme.colors.border,
+                  backgroundColor: selected ? theme.colors.primary : "transparent",
+                },
+                tie.locked && !selected && { opacity: 0.5 },
+                pressed && { opacity: 0.7 },
+              ]}
+            >
+              <Text
+                style={[
+                  styles.pickText,
+                  { color: selected ? theme.colors.primaryText : theme.colors.textPrimary },
+                ]}
+                numberOfLines={1}
+              >
+                {team.name}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+      {settled && (
+        <Text
+          style={[
+            styles.pickResult,
+            { color: tie.myPick!.isCorrect ? theme.colors.success : theme.colors.danger },
+          ]}
+        >
+          {tie.myPick!.isCorrect
+            ? t("ties.pickCorrect", { points: tie.myPick!.points })
+            : t("ties.pickWrong")}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+function LobbyTiesInner({ groupId }: LobbyTiesProps) {
+  const { t } = useTranslation("common");
+  const { theme } = useTheme();
+  const { data } = useGroupTiesQuery(groupId);
+  const savePick = useSaveTiePickMutation(groupId);
+
+  const ties = data?.data.ties ?? [];
+  const advancePoints = data?.data.advancePoints ?? 0;
+  if (ties.length === 0) return null;
+
+  const handlePick = (aggregateId: string, teamId: number) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    savePick.mutate({ aggregateId, teamId });
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.headerTitle, { color: theme.colors.textPrimary }]}>
+        {t("ties.title")}
+      </Text>
+
+      {ties.map((tie) => (
+        <View
+          key={tie.aggregateId}
+          style={[styles.card, { borderColor: theme.colors.border }]}
+        >
+          <TieLegs
+            tie={tie}
+            teamNames={{
+              [tie.homeTeam.id]: tie.homeTeam.name,
+              [tie.awayTeam.id]: tie.awayTeam.name,
+            }}
+          />
+          {advancePoints > 0 && (
+            <TiePickRow
+              tie={tie}
+              advancePoints={advancePoints}
+              onPick={(teamId) => handlePick(tie.aggregateId, teamId)}
+            />
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+export const LobbyTies = React.memo(LobbyTiesInner);
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: spacing.md,
+    marginBottom: spacing.lg,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    marginBottom: spacing.md,
+  },
+  card: {
+    padding: spacing.ms,
+    marginBottom: spacing.sm,
+    borderWidth: 1,
+    borderRadius: radius.sm,
+  },
+  pickBlock: {
+    marginTop: spacing.ms,
+  },
+  pickTitle: {
+    fontSize: 12,
+    fontWeight: "600",
+    marginBottom: spacing.xs,
+  },
+  pickRow: {
+    flexDirection: "row",
+    gap: spacing.sm,
+  },
+  pickButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: spacing.sm,
+    borderWidth: 1,
+    borderRadius: radius.sm,
+  },
+  pickText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  pickResult: {
+    marginTop: spacing.xs,
+    fontSize: 12,
+    fontWeight: "700",
+  },
+});
@@ -23,6 +23,10 @@ function mockRanking(
     correctScoreCount: opts?.correctScoreCount ?? 2,
     correctDifferenceCount: opts?.correctDifferenceCount ?? 3,
     correctOutcomeCount: opts?.correctOutcomeCount ?? 5,
+    jokersUsed: opts?.jokersUsed ?? 0,
+    jokerPoints: opts?.jokerPoints ?? 0,
+    outrightPoints: opts?.outrightPoints ?? 0,
+    advancePoints: opts?.advancePoints ?? 0,
     nudgeable: opts?.nudgeable,
     nudgeFixtureId: opts?.nudgeFixtureId,
     nudgedByMe: opts?.nudgedByMe,
@@ -36,6 +36,8 @@ import { LobbyLeaderboard } from "../components/LobbyLeaderboard";
 import { LobbyActivityBanner } from "../components/LobbyActivityBanner";
 import { LobbyAboutSection } from "../components/LobbyAboutSection";
 import { LobbyRecentResults } from "../components/LobbyRecentResults";
+import { LobbyRoundWinners } from "../components/LobbyRoundWinners";
+import { LobbyTies } from "../components/LobbyTies";
 import { LobbyGamesSummary } from "../components/LobbyGamesSummary";
 import { formatRelativeTime } from "@/utils/date";
 
@@ -346,6 +348,16 @@ export function GroupLobbyActiveScreen({
     router.push({ pathname: '/groups/[id]/predictions-overview', params: { id: String(group.id) } });
   }, [router, group.id]);
 
+  const handleViewRounds = useCallback(
+    (roundKey?: string) => {
+      router.push({
+        pathname: '/groups/[id]/rounds',
+        params: roundKey ? { id: String(group.id), key: roundKey } : { id: String(group.id) },
+      });
+    },
+    [router, group.id]
+  );
+
   const handleViewActivity = useCallback(() => {
     router.push({ pathname: '/groups/[id]/activity', params: { id: String(group.id) } });
   }, [router, group.id]);
@@ -474,6 +486,10 @@ export function GroupLobbyActiveScreen({
           maxPossiblePoints={group.onTheNosePoints}
         />
 
+        <LobbyRoundWinners groupId={group.id} onPress={handleViewRounds} />
+
+        <LobbyTies groupId={group.id} />
+
         {/* ── ACTIVITY ── */}
         <Text style={[styles.sectionLabel, { color: theme.colors.textSecondary }]}>
           {t("lobby.activity").toUpperCase()}
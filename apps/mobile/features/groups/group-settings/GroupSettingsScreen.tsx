@@ -24,12 +24,34 @@ import { useGroupQuery, useUpdateGroupMutation } from "@/domains/groups";
 import {
   EditRulesSheet,
   DangerZoneSection,
+  SeasonSection,
+  BracketSection,
+  RoundTablesSection,
+  SubLeaguesSection,
 } from "./components";
 import { useAuth } from "@/lib/auth/useAuth";
-import type { ApiInviteAccess, ApiGroupPrivacy } from "@repo/types";
+import type {
+  ApiInviteAccess,
+  ApiGroupPrivacy,
+  ApiPredictionVisibility,
+  ApiVoidedFixturePolicy,
+} from "@repo/types";
 
 const NUDGE_WINDOW_OPTIONS = [30, 60, 120, 180] as const;
 
+const FOLLOW_WINDOW_OPTIONS = [3, 7, 14, 30] as const;
+
+const VOIDED_POLICY_LABEL_KEYS: Record<ApiVoidedFixturePolicy, string> = {
+  void: "groupSettings.voidedPolicyVoid",
+  follow: "groupSettings.voidedPolicyFollow",
+};
+
+const VISIBILITY_LABEL_KEYS: Record<ApiPredictionVisibility, string> = {
+  always: "groupSettings.visibilityAlways",
+  after_own_prediction: "groupSettings.visibilityAfterOwnPrediction",
+  after_kickoff: "groupSettings.visibilityAfterKickoff",
+};
+
 interface GroupSettingsScreenProps {
   groupId: number | null;
 }
@@ -47,6 +69,8 @@ export function GroupSettingsScreen({ groupId }: GroupSettingsScreenProps) {
   const privacySheetRef = useRef<React.ComponentRef<typeof BottomSheetModal>>(null);
   const rulesSheetRef = useRef<React.ComponentRef<typeof BottomSheetModal>>(null);
   const nudgeSheetRef = useRef<React.ComponentRef<typeof BottomSheetModal>>(null);
+  const visibilitySheetRef = useRef<React.ComponentRef<typeof BottomSheetModal>>(null);
+  const postponedSheetRef = useRef<React.ComponentRef<typeof BottomSheetModal>>(null);
 
   // Check if rules are locked
   const hasFirstGameStarted = group?.firstGame != null && group?.firstGame?.state !== "NS";
@@ -55,6 +79,11 @@ export function GroupSettingsScreen({ groupId }: GroupSettingsScreenProps) {
   const [privacy, setPrivacy] = useState<ApiGroupPrivacy>("private");
   const [nudgeEnabled, setNudgeEnabled] = useState(true);
   const [nudgeWindowMinutes, setNudgeWindowMinutes] = useState(60);
+  const [predictionVisibility, setPredictionVisibility] =
+    useState<ApiPredictionVisibility>("after_kickoff");
+  const [voidedFixturePolicy, setVoidedFixturePolicy] =
+    useState<ApiVoidedFixturePolicy>("void");
+  const [followWindowDays, setFollowWindowDays] = useState(7);
 
   const updateGroupMutation = useUpdateGroupMutation(groupId);
 
@@ -71,6 +100,17 @@ export function GroupSettingsScreen({ groupId }: GroupSettingsScreenProps) {
     if (group?.nudgeWindowMinutes !== undefined) setNudgeWindowMinutes(group.nudgeWindowMinutes);
   }, [group?.nudgeEnabled, group?.nudgeWindowMinutes]);
 
+  useEffect(() => {
+    if (group?.predictionVisibility !== undefined) {
+      setPredictionVisibility(group.predictionVisibility);
+    }
+  }, [group?.predictionVisibility]);
+
+  useEffect(() => {
+    if (group?.voidedFixturePolicy !== undefined) setVoidedFixturePolicy(group.voidedFixturePolicy);
+    if (group?.followWindowDays !== undefined) setFollowWindowDays(group.followWindowDays);
+  }, [group?.voidedFixturePolicy, group?.followWindowDays]);
+
   const showInviteToggle = isCreator && group?.privacy === "private";
   const showNudgeSection = isCreator;
   const switchOn = inviteAccess === "all";
@@ -99,6 +139,30 @@ export function GroupSettingsScreen({ groupId }: GroupSettingsScreenProps) {
   const nudgeUnchanged =
     draftNudgeEnabled === nudgeEnabled && draftNudgeMinutes === nudgeWindowMinutes;
 
+  // Draft state for postponed matches sheet
+  const [draftVoidedPolicy, setDraftVoidedPolicy] = useState(voidedFixturePolicy);
+  const [draftFollowDays, setDraftFollowDays] = useState(followWindowDays);
+
+  const handleOpenPostponedSheet = useCallback(() => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setDraftVoidedPolicy(voidedFixturePolicy);
+    setDraftFollowDays(followWindowDays);
+    postponedSheetRef.current?.present();
+  }, [voidedFixturePolicy, followWindowDays]);
+
+  const handlePostponedDone = useCallback(() => {
+    setVoidedFixturePolicy(draftVoidedPolicy);
+    setFollowWindowDays(draftFollowDays);
+    updateGroupMutation.mutate({
+      voidedFixturePolicy: draftVoidedPolicy,
+      followWindowDays: draftFollowDays,
+    });
+    postponedSheetRef.current?.dismiss();
+  }, [draftVoidedPolicy, draftFollowDays, updateGroupMutation]);
+
+  const postponedUnchanged =
+    draftVoidedPolicy === voidedFixturePolicy && draftFollowDays === followWindowDays;
+
   const handleInviteAccessChange = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     const newValue: ApiInviteAccess = switchOn ? "admin_only" : "all";
@@ -112,6 +176,12 @@ export function GroupSettingsScreen({ groupId }: GroupSettingsScreenProps) {
     updateGroupMutation.mutate({ privacy: value });
   };
 
+  const handlePredictionVisibilityChange = (value: ApiPredictionVisibility) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setPredictionVisibility(value);
+    updateGroupMutation.mutate({ predictionVisibility: value });
+  };
+
   const handleViewMembers = () => {
     if (groupId != null) router.push({ pathname: '/groups/[id]/members', params: { id: String(groupId) } });
   };
@@ -228,6 +298,41 @@ export function GroupSettingsScreen({ groupId }: GroupSettingsScreenProps) {
                 )}
               </View>
             </Pressable>
+
+            <Pressable
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                visibilitySheetRef.current?.present();
+              }}
+              style={({ pressed }) => [styles.row, { opacity: pressed ? 0.6 : 1 }]}
+            >
+              <Text style={[styles.rowLabel, { color: theme.colors.textPrimary }]}>
+                {t("groupSettings.predictionVisibility" as Parameters<typeof t>[0])}
+              </Text>
+              <View style={styles.rowRight}>
+                <Text style={[styles.rowValue, { color: theme.colors.textSecondary }]}>
+                  {t(VISIBILITY_LABEL_KEYS[predictionVisibility] as Parameters<typeof t>[0])}
+                </Text>
+                <Ionicons name="chevron-forward" size={14} color={theme.colors.textSecondary + "60"} />
+              </View>
+            </Pressable>
+
+            <Pressable
+              onPress={handleOpenPostponedSheet}
+              style={({ pressed }) => [styles.row, { opacity: pressed ? 0.6 : 1 }]}
+            >
+              <Text style={[styles.rowLabel, { color: theme.colors.textPrimary }]}>
+                {t("groupSettings.postponedMatches" as Parameters<typeof t>[0])}
+              </Text>
+              <View style={styles.rowRight}>
+                <Text style={[styles.rowValue, { color: theme.colors.textSecondary }]}>
+                  {voidedFixturePolicy === "follow"
+                    ? t("groupSettings.followWindowValue" as Parameters<typeof t>[0], { count: followWindowDays })
+                    : t(VOIDED_POLICY_LABEL_KEYS.void as Parameters<typeof t>[0])}
+                </Text>
+                <Ionicons name="chevron-forward" size={14} color={theme.colors.textSecondary + "60"} />
+              </View>
+            </Pressable>
           </>
         )}
 
@@ -255,6 +360,18 @@ export function GroupSettingsScreen({ groupId }: GroupSettingsScreenProps) {
           </>
         )}
 
+        {/* Season - leagues groups continued across seasons */}
+        <SeasonSection group={group} isCreator={!!isCreator} />
+
+        {/* Bracket - head-to-head knockout between members */}
+        <BracketSection group={group} />
+
+        {/* Round tables - points from one round or week only */}
+        <RoundTablesSection group={group} />
+
+        {/* Sub-leagues - private tables of members */}
+        <SubLeaguesSection group={group} />
+
         {/* Danger Zone */}
         <DangerZoneSection groupId={groupId} isCreator={!!isCreator} />
       </ScrollView>
@@ -312,6 +429,143 @@ export function GroupSettingsScreen({ groupId }: GroupSettingsScreenProps) {
         </BottomSheetView>
       </BottomSheetModal>
 
+      {/* Prediction Visibility Picker */}
+      <BottomSheetModal
+        ref={visibilitySheetRef}
+        enableDynamicSizing
+        enablePanDownToClose
+        backdropComponent={renderBackdrop}
+        backgroundStyle={{
+          backgroundColor: theme.colors.surfaceElevated,
+          borderTopLeftRadius: radius.xl,
+          borderTopRightRadius: radius.xl,
+        }}
+        handleIndicatorStyle={{ backgroundColor: theme.colors.textDisabled }}
+      >
+        <BottomSheetView style={styles.sheetContent}>
+          <View style={{ borderBottomWidth: StyleSheet.hairlineWidth, borderBottomColor: theme.colors.textPrimary + "10", paddingBottom: spacing.ms, marginBottom: spacing.sm }}>
+            <Text style={{ fontSize: 15, fontWeight: "600", textAlign: "center", color: theme.colors.textPrimary }}>
+              {t("groupSettings.predictionVisibility" as Parameters<typeof t>[0])}
+            </Text>
+            <Text style={{ color: theme.colors.textSecondary, fontSize: 12, lineHeight: 17, textAlign: "center", marginTop: spacing.xs }}>
+              {t("groupSettings.predictionVisibilityDescription" as Parameters<typeof t>[0])}
+            </Text>
+          </View>
+          {(Object.keys(VISIBILITY_LABEL_KEYS) as ApiPredictionVisibility[]).map((value) => (
+            <Pressable
+              key={value}
+              onPress={() => handlePredictionVisibilityChange(value)}
+              style={({ pressed }) => [styles.sheetOption, { opacity: pressed ? 0.6 : 1 }]}
+            >
+              <Text style={[styles.sheetOptionLabel, { color: theme.colors.textPrimary }]}>
+                {t(VISIBILITY_LABEL_KEYS[value] as Parameters<typeof t>[0])}
+              </Text>
+              <Ionicons
+                name={value === predictionVisibility ? "radio-button-on" : "radio-button-off"}
+                size={18}
+                color={value === predictionVisibility ? theme.colors.primary : theme.colors.textSecondary}
+              />
+            </Pressable>
+          ))}
+          <Pressable
+            onPress={() => visibilitySheetRef.current?.dismiss()}
+            style={({ pressed }) => [
+              styles.sheetDoneBtn,
+              { backgroundColor: theme.colors.primary, opacity: pressed ? 0.8 : 1 },
+            ]}
+          >
+            <Text style={[styles.sheetDoneBtnText, { color: theme.colors.textInverse }]}>{t("done")}</Text>
+          </Pressable>
+        </BottomSheetView>
+      </BottomSheetModal>
+
+      {/* Postponed Matches Sheet */}
+      <BottomSheetModal
+        ref={postponedSheetRef}
+        enableDynamicSizing
+        enablePanDownToClose
+        backdropComponent={renderBackdrop}
+        backgroundStyle={{
+          backgroundColor: theme.colors.surfaceElevated,
+          borderTopLeftRadius: radius.xl,
+          borderTopRightRadius: radius.xl,
+        }}
+        handleIndicatorStyle={{ backgroundColor: theme.colors.textDisabled }}
+      >
+        <BottomSheetView style={styles.sheetContent}>
+          <View style={{ borderBottomWidth: StyleSheet.hairlineWidth, borderBottomColor: theme.colors.textPrimary + "10", paddingBottom: spacing.ms, marginBottom: spacing.sm }}>
+            <Text style={{ fontSize: 15, fontWeight: "600", textAlign: "center", color: theme.colors.textPrimary }}>
+              {t("groupSettings.postponedMatches" as Parameters<typeof t>[0])}
+            </Text>
+            <Text style={{ color: theme.colors.textSecondary, fontSize: 12, lineHeight: 17, textAlign: "center", marginTop: spacing.xs }}>
+              {t("groupSettings.postponedMatchesDescription" as Parameters<typeof t>[0])}
+            </Text>
+          </View>
+          {(Object.keys(VOIDED_POLICY_LABEL_KEYS) as ApiVoidedFixturePolicy[]).map((value) => (
+            <Pressable
+              key={value}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                setDraftVoidedPolicy(value);
+              }}
+              style={({ pressed }) => [styles.sheetOption, { opacity: pressed ? 0.6 : 1 }]}
+            >
+              <Text style={[styles.sheetOptionLabel, { color: theme.colors.textPrimary }]}>
+                {t(VOIDED_POLICY_LABEL_KEYS[value] as Parameters<typeof t>[0])}
+              </Text>
+              <Ionicons
+                name={value === draftVoidedPolicy ? "radio-button-on" : "radio-button-off"}
+                size={18}
+                color={value === draftVoidedPolicy ? theme.colors.primary : theme.colors.textSecondary}
+              />
+            </Pressable>
+          ))}
+
+          {/* Follow window options */}
+          <View
+            style={{ opacity: draftVoidedPolicy === "follow" ? 1 : 0.35 }}
+            pointerEvents={draftVoidedPolicy === "follow" ? "auto" : "none"}
+          >
+            <Text style={{ color: theme.colors.textSecondary, fontSize: 12, fontWeight: "500", marginBottom: spacing.xs, marginTop: spacing.sm }}>
+              {t("groupSettings.followWindow" as Parameters<typeof t>[0])}
+            </Text>
+            {FOLLOW_WINDOW_OPTIONS.map((days) => (
+              <Pressable
+                key={days}
+                onPress={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  setDraftFollowDays(days);
+                }}
+                style={({ pressed }) => [styles.sheetOption, { opacity: pressed ? 0.6 : 1 }]}
+              >
+                <Text style={[styles.sheetOptionLabel, { color: theme.colors.textPrimary }]}>
+                  {t("groupSettings.followWindowValue" as Parameters<typeof t>[0], { count: days })}
+                </Text>
+                <Ionicons
+                  name={days === draftFollowDays ? "radio-button-on" : "radio-button-off"}
+                  size={18}
+                  color={days === draftFollowDays ? theme.colors.primary : theme.colors.textSecondary}
+                />
+              </Pressable>
+            ))}
+          </View>
+
+          <Pressable
+            onPress={handlePostponedDone}
+            disabled={postponedUnchanged}
+            style={({ pressed }) => [
+              styles.sheetDoneBtn,
+              {
+                backgroundColor: theme.colors.primary,
+                opacity: postponedUnchanged ? 0.4 : pressed ? 0.8 : 1,
+              },
+            ]}
+          >
+            <Text style={[styles.sheetDoneBtnText, { color: theme.colors.textInverse }]}>{t("done")}</Text>
+          </Pressable>
+        </BottomSheetView>
+      </BottomSheetModal>
+
       {/* Nudge Sheet */}
       <BottomSheetModal
         ref={nudgeSheetRef}
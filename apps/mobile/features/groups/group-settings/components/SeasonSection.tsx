@@ -0,0 +1,165 @@
+// features/groups/group-settings/components/SeasonSection.tsx
+// Season: all-time table, links between seasons, continue into next season (creator).
+
+import React from "react";
+import { Alert, Pressable, StyleSheet, Text, View } from "react-native";
+import { useTranslation } from "react-i18next";
+import { useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme, spacing } from "@/lib/theme";
+import { useContinueToNextSeasonMutation } from "@/domains/groups";
+import type { ApiGroupItem } from "@repo/types";
+
+interface SeasonSectionProps {
+  group: ApiGroupItem;
+  isCreator: boolean;
+}
+
+export function SeasonSection({ group, isCreator }: SeasonSectionProps) {
+  const { t } = useTranslation("common");
+  const { theme } = useTheme();
+  const router = useRouter();
+  const continueMutation = useContinueToNextSeasonMutation(group.id);
+
+  const isLeagues = group.selectionMode === "leagues";
+  const hasChain = group.previousGroupId != null || group.nextGroupId != null;
+  const canContinue =
+    isCreator &&
+    isLeagues &&
+    group.status === "ended" &&
+    !group.archivedAt &&
+    group.nextGroupId == null;
+
+  const handleContinue = () => {
+    Alert.alert(
+      t("groupSettings.continueNextSeason"),
+      t("groupSettings.continueNextSeasonConfirm"),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("groupSettings.continueNextSeason"),
+          onPress: () => {
+            continueMutation.mutate(undefined, {
+              onError: (error) => {
+                Alert.alert(
+                  t("errors.error"),
+                  error?.message || t("groupSettings.continueNextSeasonFailed")
+                );
+              },
+            });
+          },
+        },
+      ]
+    );
+  };
+
+  const goToGroup = (id: number) => {
+    router.push({ pathname: "/groups/[id]", params: { id: String(id) } });
+  };
+
+  if (!hasChain && !canContinue) return null;
+
+  const chevron = (
+    <Ionicons name="chevron-forward" size={14} color={theme.colors.textSecondary + "60"} />
+  );
+
+  return (
+    <>
+      <Text style={[styles.sectionTitle, { color: theme.colors.textSecondary, marginTop: spacing.sm }]}>
+        {t("groupSettings.season")}
+      </Text>
+
+      {hasChain && (
+        <Pressable
+          onPress={() =>
+            router.push({ pathname: "/groups/[id]/all-time", params: { id: String(group.id) } })
+          }
+          style={({ pressed }) => [styles.row, { opacity: pressed ? 0.6 : 1 }]}
+        >
+          <Text style={[styles.rowLabel, { color: theme.colors.textPrimary }]}>
+            {t("groupSettings.allTimeTable")}
+          </Text>
+          <View style={styles.rowRight}>
+            {group.seasonName != null && (
+              <Text style={[styles.rowValue, { color: theme.colors.textSecondary }]}>
+                {group.seasonName}
+              </Text>
+            )}
+            {chevron}
+          </View>
+        </Pressable>
+      )}
+
+      {group.previousGroupId != null && (
+        <Pressable
+          onPress={() => goToGroup(group.previousGroupId as number)}
+          style={({ pressed }) => [styles.row, { opacity: pressed ? 0.6 : 1 }]}
+        >
+          <Text style={[styles.rowLabel, { color: theme.colors.textPrimary }]}>
+            {t("groupSettings.goToPreviousSeason")}
+          </Text>
+          {chevron}
+        </Pressable>
+      )}
+
+      {group.nextGroupId != null && (
+        <Pressable
+          onPress={() => goToGroup(group.nextGroupId as number)}
+          style={({ pressed }) => [styles.row, { opacity: pressed ? 0.6 : 1 }]}
+        >
+          <Text style={[styles.rowLabel, { color: theme.colors.textPrimary }]}>
+            {t("groupSettings.goToNextSeason")}
+          </Text>
+          {chevron}
+        </Pressable>
+      )}
+
+      {canContinue && (
+        <Pressable
+          onPress={handleContinue}
+          disabled={continueMutation.isPending}
+          style={({ pressed }) => [styles.row, { opacity: pressed ? 0.6 : 1 }]}
+        >
+          <View style={{ flex: 1 }}>
+            <Text style={[styles.rowLabel, { color: theme.colors.primary }]}>
+              {t("groupSettings.continueNextSeason")}
+            </Text>
+            <Text style={[styles.rowSub, { color: theme.colors.textSecondary }]}>
+              {t("groupSettings.continueNextSeasonDescription")}
+            </Text>
+          </View>
+          {chevron}
+        </Pressable>
+      )}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: "500",
+    marginBottom: spacing.xs,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: spacing.ms,
+  },
+  rowLabel: {
+    fontSize: 15,
+  },
+  rowValue: {
+    fontSize: 14,
+  },
+  rowSub: {
+    fontSize: 11,
+    marginTop: spacing.xxs,
+  },
+  rowRight: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.xs,
+  },
+});
@@ -0,0 +1,67 @@
+// features/groups/group-settings/components/SubLeaguesSection.tsx
+// Sub-leagues: link to the group's private sub-tables.
+
+import React from "react";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+import { useTranslation } from "react-i18next";
+import { useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme, spacing } from "@/lib/theme";
+import type { ApiGroupItem } from "@repo/types";
+
+interface SubLeaguesSectionProps {
+  group: ApiGroupItem;
+}
+
+export function SubLeaguesSection({ group }: SubLeaguesSectionProps) {
+  const { t } = useTranslation("common");
+  const { theme } = useTheme();
+  const router = useRouter();
+
+  if (group.status === "draft") return null;
+
+  return (
+    <>
+      <Text style={[styles.sectionTitle, { color: theme.colors.textSecondary, marginTop: spacing.sm }]}>
+        {t("groupSettings.subLeagues")}
+      </Text>
+      <Pressable
+        onPress={() =>
+          router.push({ pathname: "/groups/[id]/sub-leagues", params: { id: String(group.id) } })
+        }
+        style={({ pressed }) => [styles.row, { opacity: pressed ? 0.6 : 1 }]}
+      >
+        <View style={{ flex: 1 }}>
+          <Text style={[styles.rowLabel, { color: theme.colors.textPrimary }]}>
+            {t("groupSettings.subLeagues")}
+          </Text>
+          <Text style={[styles.rowSub, { color: theme.colors.textSecondary }]}>
+            {t("groupSettings.subLeaguesDescription")}
+          </Text>
+        </View>
+        <Ionicons name="chevron-forward" size={14} color={theme.colors.textSecondary + "60"} />
+      </Pressable>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: "500",
+    marginBottom: spacing.xs,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: spacing.ms,
+  },
+  rowLabel: {
+    fontSize: 15,
+  },
+  rowSub: {
+    fontSize: 11,
+    marginTop: spacing.xxs,
+  },
+});
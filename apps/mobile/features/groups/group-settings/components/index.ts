@@ -2,3 +2,7 @@ export { EditNameSheet } from "./EditNameSheet";
 export { EditDescriptionSheet } from "./EditDescriptionSheet";
 export { EditRulesSheet } from "./EditRulesSheet";
 export { DangerZoneSection } from "./DangerZoneSection";
+export { SeasonSection } from "./SeasonSection";
+export { BracketSection } from "./BracketSection";
+export { SubLeaguesSection } from "./SubLeaguesSection";
+export { RoundTablesSection } from "./RoundTablesSection";
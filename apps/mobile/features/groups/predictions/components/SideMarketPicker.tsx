@@ -0,0 +1,143 @@
+import React from "react";
+import { View, StyleSheet, Pressable } from "react-native";
+import * as Haptics from "expo-haptics";
+import { useTranslation } from "react-i18next";
+import type { ApiSideMarketPicks } from "@repo/types";
+import { AppText } from "@/components/ui";
+import { useTheme, spacing } from "@/lib/theme";
+
+type MarketKey = keyof ApiSideMarketPicks;
+
+type Props = {
+  markets: ApiSideMarketPicks | null;
+  /** Which markets the group has enabled (points > 0). */
+  enabled: Record<MarketKey, boolean>;
+  isEditable: boolean;
+  onPick: (markets: Partial<ApiSideMarketPicks>) => void;
+};
+
+type Option<K extends MarketKey> = {
+  value: NonNullable<ApiSideMarketPicks[K]>;
+  labelKey: string;
+};
+
+const BTTS_OPTIONS: Option<"btts">[] = [
+  { value: true, labelKey: "predictions.markets.yes" },
+  { value: false, labelKey: "predictions.markets.no" },
+];
+
+const OVER_UNDER_OPTIONS: Option<"overUnder">[] = [
+  { value: "over", labelKey: "predictions.markets.over" },
+  { value: "under", labelKey: "predictions.markets.under" },
+];
+
+const FIRST_TEAM_OPTIONS: Option<"firstTeamToScore">[] = [
+  { value: "home", labelKey: "predictions.markets.home" },
+  { value: "none", labelKey: "predictions.markets.none" },
+  { value: "away", labelKey: "predictions.markets.away" },
+];
+
+/**
+ * Side-market chips under the score: both teams to score, over/under 2.5 and
+ * first team to score. Tapping the selected chip clears the pick.
+ */
+function SideMarketPickerInner({ markets, enabled, isEditable, onPick }: Props) {
+  const { t } = useTranslation("common");
+  const { theme } = useTheme();
+
+  function renderRow<K extends MarketKey>(
+    key: K,
+    titleKey: string,
+    options: Option<K>[]
+  ) {
+    if (!enabled[key]) return null;
+    const current = markets?.[key] ?? null;
+    return (
+      <View style={styles.row}>
+        <AppText variant="caption" color="secondary" style={styles.title}>
+          {t(titleKey)}
+        </AppText>
+        <View style={styles.options}>
+          {options.map((option) => {
+            const isSelected = current === option.value;
+            return (
+              <Pressable
+                key={String(option.value)}
+                disabled={!isEditable}
+                onPress={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  onPick({ [key]: isSelected ? null : option.value });
+                }}
+                style={[
+                  styles.chip,
+                  {
+                    borderColor: isSelected
+                      ? theme.colors.primary
+                      : theme.colors.border,
+                    backgroundColor: isSelected
+                      ? theme.colors.primary
+                      : theme.colors.cardBackground,
+                    opacity: isEditable ? 1 : 0.5,
+                  },
+                ]}
+              >
+                <AppText
+                  variant="caption"
+                  style={{
+                    fontWeight: isSelected ? "700" : "600",
+                    color: isSelected
+                      ? theme.colors.primaryText
+                      : theme.colors.textPrimary,
+                  }}
+                >
+                  {t(option.labelKey)}
+                </AppText>
+              </Pressable>
+            );
+          })}
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {renderRow("btts", "predictions.markets.btts", BTTS_OPTIONS)}
+      {renderRow("overUnder", "predictions.markets.overUnder", OVER_UNDER_OPTIONS)}
+      {renderRow(
+        "firstTeamToScore",
+        "predictions.markets.firstTeamToScore",
+        FIRST_TEAM_OPTIONS
+      )}
+    </View>
+  );
+}
+
+export const SideMarketPicker = React.memo(SideMarketPickerInner);
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing.xs,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  title: {
+    flex: 1,
+  },
+  options: {
+    flexDirection: "row",
+    gap: spacing.xs,
+  },
+  chip: {
+    height: 28,
+    minWidth: 44,
+    paddingHorizontal: spacing.sm,
+    borderRadius: 14,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
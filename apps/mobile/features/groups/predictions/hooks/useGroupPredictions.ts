@@ -3,8 +3,10 @@ import { useQuery, useQueryClient } from "@tanstack/react-query";
 import {
   useGroupQuery,
   useSaveGroupPredictionsBatchMutation,
+  useSaveGroupPredictionMutation,
   groupsKeys,
 } from "@/domains/groups";
+import type { ApiSideMarketPicks } from "@repo/types";
 import type { GroupPrediction } from "@/features/group-creation/selection/games";
 import type { FixtureItem } from "@/types/common";
 import type { PredictionMode } from "../types";
@@ -31,6 +33,8 @@ export function useGroupPredictions({
   }, [groupData?.data?.fixtures]);
 
   const saveMutation = useSaveGroupPredictionsBatchMutation(groupId);
+  const jokerMutation = useSaveGroupPredictionMutation(groupId);
+  const marketsMutation = useSaveGroupPredictionMutation(groupId);
   const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const autoNextTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const saveAllPendingRef = useRef<() => Promise<void>>(() =>
@@ -340,6 +344,55 @@ export function useGroupPredictions({
 
   saveAllPendingRef.current = saveAllPending;
 
+  const isJoker = useCallback((fixtureId: number): boolean => {
+    const fixture = fixturesRef.current.find((f) => f.id === fixtureId);
+    return fixture?.prediction?.isJoker === true;
+  }, []);
+
+  /**
+   * Play or withdraw the joker on a saved prediction. The server enforces the
+   * one-per-round limit and moves the joker off other fixtures in the same round.
+   */
+  const toggleJoker = useCallback(
+    async (fixtureId: number) => {
+      const prediction = getPrediction(fixtureId);
+      if (prediction.home === null || prediction.away === null) return;
+      await jokerMutation.mutateAsync({
+        fixtureId,
+        prediction: {
+          home: prediction.home,
+          away: prediction.away,
+          isJoker: !isJoker(fixtureId),
+        },
+      });
+    },
+    [getPrediction, isJoker, jokerMutation]
+  );
+
+  const getMarkets = useCallback(
+    (fixtureId: number): ApiSideMarketPicks | null => {
+      const fixture = fixturesRef.current.find((f) => f.id === fixtureId);
+      return fixture?.prediction?.markets ?? null;
+    },
+    []
+  );
+
+  /**
+   * Save side-market picks (BTTS, over/under, first team to score) on a saved
+   * prediction. null clears a pick; omitted picks are left as they are.
+   */
+  const setMarketPicks = useCallback(
+    async (fixtureId: number, markets: Partial<ApiSideMarketPicks>) => {
+      const prediction = getPrediction(fixtureId);
+      if (prediction.home === null || prediction.away === null) return;
+      await marketsMutation.mutateAsync({
+        fixtureId,
+        prediction: { home: prediction.home, away: prediction.away, markets },
+      });
+    },
+    [getPrediction, marketsMutation]
+  );
+
   useEffect(() => {
     return () => {
       if (autoNextTimerRef.current) {
@@ -366,6 +419,12 @@ export function useGroupPredictions({
     getFillRandomConfirm,
     fillRandomPredictions,
     saveAllPending,
+    isJoker,
+    toggleJoker,
+    isTogglingJoker: jokerMutation.isPending,
+    getMarkets,
+    setMarketPicks,
+    isSavingMarkets: marketsMutation.isPending,
     isSaving: saveMutation.isPending,
     hasPendingChanges,
     pendingCount,
@@ -1,5 +1,5 @@
 import React, { useState, useCallback, useEffect } from "react";
-import { View, StyleSheet, Dimensions, Pressable } from "react-native";
+import { View, StyleSheet, Dimensions, Pressable, Alert } from "react-native";
 import { useRouter } from "expo-router";
 import { GestureDetector, type GestureType } from "react-native-gesture-handler";
 import Animated, { useSharedValue } from "react-native-reanimated";
@@ -16,6 +16,7 @@ import { useGroupPredictions } from "../hooks/useGroupPredictions";
 import { useVerticalPager } from "../hooks/useVerticalPager";
 import { PeekCard } from "../components/PeekCard";
 import { PredictAllCardSkeleton } from "../components/PredictAllCardSkeleton";
+import { SideMarketPicker } from "../components/SideMarketPicker";
 import { getCardLayout } from "../utils/peekCardLayout";
 import type { PredictionMode } from "../types";
 
@@ -127,6 +128,12 @@ function SingleGameContent({
     updatePrediction,
     updateSliderValue,
     saveAllPending,
+    isJoker,
+    toggleJoker,
+    isTogglingJoker,
+    getMarkets,
+    setMarketPicks,
+    isSavingMarkets,
   } = useGroupPredictions({ groupId, predictionMode });
 
   const pagerGestureRef = React.useRef<GestureType>(undefined);
@@ -198,6 +205,59 @@ function SingleGameContent({
 
   const totalCards = stripFixtures.length;
 
+  // Joker applies to the card in focus; only saved predictions can carry it
+  const jokerFixture = stripFixtures[currentIndex];
+  const jokerPrediction = jokerFixture ? getPrediction(jokerFixture.id) : null;
+  const showJoker =
+    group?.jokerMode != null &&
+    group.jokerMode !== "off" &&
+    jokerFixture != null &&
+    isPredictionSaved(jokerFixture.id) &&
+    jokerPrediction?.home != null &&
+    jokerPrediction?.away != null;
+  const jokerActive = jokerFixture ? isJoker(jokerFixture.id) : false;
+
+  const handleToggleJoker = useCallback(() => {
+    if (!jokerFixture) return;
+    toggleJoker(jokerFixture.id).catch((err: unknown) => {
+      Alert.alert(
+        t("errors.error"),
+        err instanceof Error ? err.message : t("predictions.jokerFailed")
+      );
+    });
+  }, [jokerFixture, toggleJoker, t]);
+
+  // Side markets follow the same rule: picks attach to the saved prediction in focus
+  const enabledMarkets = React.useMemo(
+    () => ({
+      btts: (group?.bttsPoints ?? 0) > 0,
+      overUnder: (group?.overUnderPoints ?? 0) > 0,
+      firstTeamToScore: (group?.firstTeamToScorePoints ?? 0) > 0,
+    }),
+    [group?.bttsPoints, group?.overUnderPoints, group?.firstTeamToScorePoints]
+  );
+  const showMarkets =
+    (enabledMarkets.btts ||
+      enabledMarkets.overUnder ||
+      enabledMarkets.firstTeamToScore) &&
+    jokerFixture != null &&
+    isPredictionSaved(jokerFixture.id) &&
+    jokerPrediction?.home != null &&
+    jokerPrediction?.away != null;
+
+  const handlePickMarkets = useCallback(
+    (markets: Parameters<typeof setMarketPicks>[1]) => {
+      if (!jokerFixture) return;
+      setMarketPicks(jokerFixture.id, markets).catch((err: unknown) => {
+        Alert.alert(
+          t("errors.error"),
+          err instanceof Error ? err.message : t("predictions.markets.failed")
+        );
+      });
+    },
+    [jokerFixture, setMarketPicks, t]
+  );
+
   const { panGesture, stripStyle } = useVerticalPager({
     totalCards,
     expandProgress,
@@ -315,7 +375,52 @@ function SingleGameContent({
         >
           {group?.name ?? ""}
         </AppText>
+        {showJoker && (
+          <Pressable
+            onPress={handleToggleJoker}
+            disabled={isTogglingJoker}
+            hitSlop={8}
+            accessibilityLabel={t("predictions.joker")}
+            style={[
+              styles.jokerButton,
+              {
+                borderColor: jokerActive ? theme.colors.primary : theme.colors.border,
+                backgroundColor: jokerActive ? theme.colors.primary : "transparent",
+              },
+            ]}
+          >
+            <AppText
+              variant="caption"
+              style={{
+                fontWeight: "700",
+                color: jokerActive ? theme.colors.primaryText : theme.colors.textPrimary,
+              }}
+            >
+              🃏 ×2
+            </AppText>
+          </Pressable>
+        )}
       </View>
+
+      {showMarkets && jokerFixture && (
+        <View
+          style={[
+            styles.marketsPanel,
+            {
+              paddingBottom: insets.bottom + spacing.sm,
+              backgroundColor: theme.colors.cardBackground,
+              borderTopColor: theme.colors.border,
+            },
+          ]}
+        >
+          <SideMarketPicker
+            markets={getMarkets(jokerFixture.id)}
+            enabled={enabledMarkets}
+            isEditable={!isSavingMarkets}
+            onPick={handlePickMarkets}
+          />
+        </View>
+      )}
     </>
   );
 }
@@ -356,4 +461,25 @@ const styles = StyleSheet.create({
     fontWeight: "700",
     marginEnd: 36,
   },
+  marketsPanel: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    bottom: 0,
+    zIndex: 20,
+    paddingTop: spacing.sm,
+    paddingHorizontal: spacing.md,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  jokerButton: {
+    position: "absolute",
+    end: spacing.sm,
+    bottom: spacing.xs,
+    height: 28,
+    paddingHorizontal: spacing.sm,
+    borderRadius: 14,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
 });
@@ -0,0 +1,142 @@
+// features/groups/ranking/components/RankingHistoryChart.tsx
+// Position over time: the current user's rank after each settled fixture, next to the leader's.
+
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { StyleSheet, Text, View } from "react-native";
+import Svg, { Polyline } from "react-native-svg";
+import { useTheme } from "@/lib/theme";
+import type { ApiRankingHistoryResponse, ApiRankingHistorySeries } from "@repo/types";
+
+/** Fixed height so the ranking list can keep computing row offsets */
+export const RANKING_HISTORY_CHART_HEIGHT = 170;
+
+const VIEW_WIDTH = 300;
+const VIEW_HEIGHT = 100;
+const VIEW_PADDING = 6;
+
+interface RankingHistoryChartProps {
+  history: ApiRankingHistoryResponse["data"];
+  currentUserId: number | null;
+  leaderUserId: number | null;
+}
+
+function toPoints(ranks: ApiRankingHistorySeries["ranks"], maxRank: number): string {
+  const last = Math.max(ranks.length - 1, 1);
+  return ranks
+    .map((rank, i) => {
+      if (rank === null) return null;
+      const x = VIEW_PADDING + (i * (VIEW_WIDTH - 2 * VIEW_PADDING)) / last;
+      const y =
+        VIEW_PADDING + ((rank - 1) * (VIEW_HEIGHT - 2 * VIEW_PADDING)) / (maxRank - 1);
+      return `${x},${y}`;
+    })
+    .filter((p) => p !== null)
+    .join(" ");
+}
+
+export function RankingHistoryChart({
+  history,
+  currentUserId,
+  leaderUserId,
+}: RankingHistoryChartProps) {
+  const { t } = useTranslation("common");
+  const { theme } = useTheme();
+
+  const mine = history.series.find((s) => s.userId === currentUserId);
+  const leader =
+    leaderUserId !== currentUserId
+      ? history.series.find((s) => s.userId === leaderUserId)
+      : undefined;
+  // Rank 1 at the top; at least two ranks so a lone member still gets a line
+  const maxRank = Math.max(
+    2,
+    ...history.series.flatMap((s) => s.ranks.filter((r): r is number => r !== null))
+  );
+
+  const lines: Array<{ series: ApiRankingHistorySeries; color: string; label: string }> = [];
+  if (leader) {
+    lines.push({ series: leader, color: theme.colors.gold, label: leader.username ?? t("ranking.leaderLabel") });
+  }
+  if (mine) {
+    lines.push({ series: mine, color: theme.colors.primary, label: t("lobby.you") });
+  }
+
+  return (
+    <View style={[styles.container, { paddingHorizontal: theme.spacing.md, paddingBottom: theme.spacing.sm }]}>
+      <View
+        style={[
+          styles.card,
+          {
+            padding: theme.spacing.sm,
+            borderRadius: theme.radius.md,
+            backgroundColor: theme.colors.cardBackground,
+          },
+        ]}
+      >
+        <Text style={[styles.title, { color: theme.colors.textSecondary }]}>
+          {t("ranking.positionOverTime")}
+        </Text>
+        <Svg
+          width="100%"
+          height={VIEW_HEIGHT}
+          viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+          preserveAspectRatio="none"
+        >
+          {lines.map((line) => (
+            <Polyline
+              key={line.series.userId}
+              points={toPoints(line.series.ranks, maxRank)}
+              fill="none"
+              stroke={line.color}
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+        </Svg>
+        <View style={[styles.legend, { gap: theme.spacing.md }]}>
+          {lines.map((line) => (
+            <View key={line.series.userId} style={styles.legendItem}>
+              <View style={[styles.legendDot, { backgroundColor: line.color }]} />
+              <Text style={[styles.legendLabel, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+                {line.label}
+              </Text>
+            </View>
+          ))}
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    height: RANKING_HISTORY_CHART_HEIGHT,
+  },
+  card: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 12,
+    fontWeight: "600",
+    marginBottom: 6,
+  },
+  legend: {
+    flexDirection: "row",
+    marginTop: 8,
+  },
+  legendItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  legendLabel: {
+    fontSize: 11,
+    fontWeight: "500",
+  },
+});
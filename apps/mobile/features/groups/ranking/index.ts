@@ -2,4 +2,9 @@
 // Export all components and screens from ranking feature.
 
 export { GroupRankingScreen } from "./screens/GroupRankingScreen";
+export { GroupAllTimeScreen } from "./screens/GroupAllTimeScreen";
+export { GroupBracketScreen } from "./screens/GroupBracketScreen";
+export { GroupRoundRankingScreen } from "./screens/GroupRoundRankingScreen";
+export { GroupSubLeaguesScreen } from "./screens/GroupSubLeaguesScreen";
+export { SubLeagueScreen } from "./screens/SubLeagueScreen";
 export { GroupMemberProfileScreen } from "./screens/GroupMemberProfileScreen";
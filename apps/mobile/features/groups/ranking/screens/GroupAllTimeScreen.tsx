@@ -0,0 +1,207 @@
+// features/groups/ranking/screens/GroupAllTimeScreen.tsx
+// All-time table: points summed over every season of a group continued across seasons.
+
+import React from "react";
+import { useTranslation } from "react-i18next";
+import {
+  FlatList,
+  Platform,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { Screen, AppText } from "@/components/ui";
+import { QueryLoadingView } from "@/components/QueryState/QueryLoadingView";
+import { QueryErrorView } from "@/components/QueryState/QueryErrorView";
+import { useAllTimeTableQuery } from "@/domains/groups";
+import { useAuth } from "@/lib/auth/useAuth";
+import { useTheme, getShadowStyle } from "@/lib/theme";
+import type { ApiAllTimeTableItem } from "@repo/types";
+
+interface GroupAllTimeScreenProps {
+  groupId: number | null;
+}
+
+function AllTimeRow({
+  item,
+  isCurrentUser,
+}: {
+  item: ApiAllTimeTableItem;
+  isCurrentUser: boolean;
+}) {
+  const { t } = useTranslation("common");
+  const { theme } = useTheme();
+  const displayName =
+    item.username || t("chat.playerFallback", { id: item.rank });
+
+  return (
+    <View
+      style={[
+        styles.rowContainer,
+        { paddingHorizontal: theme.spacing.md, marginBottom: 6, gap: theme.spacing.sm },
+      ]}
+    >
+      <View style={[styles.rankBadge, { backgroundColor: theme.colors.textPrimary, borderRadius: theme.radius.full }]}>
+        <Text style={[styles.rankText, { color: theme.colors.textInverse }]}>{item.rank}</Text>
+      </View>
+
+      <View style={[styles.barContent, { borderRadius: theme.radius.md, paddingVertical: theme.spacing.sm, paddingHorizontal: 10, gap: theme.spacing.sm, backgroundColor: theme.colors.cardBackground, ...getShadowStyle("sm") }, isCurrentUser && { backgroundColor: theme.colors.textPrimary + "06" }]}>
+        <View style={styles.barLeft}>
+          <Text
+            style={[
+              styles.username,
+              { color: theme.colors.textPrimary },
+              isCurrentUser && { fontWeight: "800" },
+            ]}
+            numberOfLines={1}
+          >
+            {isCurrentUser ? t("lobby.you") : displayName}
+          </Text>
+          <Text style={[styles.statText, { color: theme.colors.textSecondary }]}>
+            {t("ranking.seasonsLine", { count: item.seasonsPlayed, wins: item.seasonWins })}
+            {item.bestRank != null && ` · ${t("ranking.bestRank", { rank: item.bestRank })}`}
+          </Text>
+        </View>
+        <Text style={[styles.pointsValue, { color: theme.colors.textPrimary }]}>
+          {item.totalPoints}
+          <Text style={[styles.pointsLabel, { color: theme.colors.textSecondary }]}>
+            {" "}{t("ranking.pts")}
+          </Text>
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+export function GroupAllTimeScreen({ groupId }: GroupAllTimeScreenProps) {
+  const { t } = useTranslation("common");
+  const { theme } = useTheme();
+  const { user } = useAuth();
+  const { data, isLoading, error, refetch, isRefetching } =
+    useAllTimeTableQuery(groupId);
+
+  if (isLoading) {
+    return (
+      <Screen>
+        <QueryLoadingView message={t("ranking.loadingAllTime")} />
+      </Screen>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Screen>
+        <QueryErrorView
+          message={t("ranking.failedLoadAllTime")}
+          onRetry={() => refetch()}
+        />
+      </Screen>
+    );
+  }
+
+  const { seasons, items } = data.data;
+  const seasonNames = seasons
+    .map((s) => s.seasonName ?? s.groupName)
+    .join(" · ");
+
+  if (items.length === 0) {
+    return (
+      <View style={styles.container}>
+        <AppText variant="body" color="secondary" style={[styles.emptyState, { paddingVertical: theme.spacing.xxl, paddingHorizontal: theme.spacing.lg }]}>
+          {t("ranking.empty")}
+        </AppText>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={items}
+        keyExtractor={(item) => String(item.userId)}
+        ListHeaderComponent={
+          <AppText
+            variant="caption"
+            color="secondary"
+            style={{ paddingHorizontal: theme.spacing.md, marginBottom: theme.spacing.sm }}
+          >
+            {t("ranking.allTimeSeasons", { seasons: seasonNames })}
+          </AppText>
+        }
+        renderItem={({ item }) => (
+          <AllTimeRow
+            item={item}
+            isCurrentUser={user?.id != null && item.userId === user.id}
+          />
+        )}
+        contentContainerStyle={[
+          styles.listContent,
+          { paddingTop: theme.spacing.md, paddingBottom: theme.spacing.md },
+        ]}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefetching}
+            onRefresh={() => refetch()}
+            tintColor={theme.colors.primary}
+            colors={
+              Platform.OS === "android" ? [theme.colors.primary] : undefined
+            }
+          />
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  emptyState: {
+    flex: 1,
+    textAlign: "center",
+  },
+  listContent: {
+    flexGrow: 1,
+  },
+  rowContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  rankBadge: {
+    width: 22,
+    height: 22,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  rankText: {
+    fontSize: 11,
+    fontWeight: "800",
+  },
+  barContent: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  barLeft: {
+    flex: 1,
+  },
+  username: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  statText: {
+    fontSize: 10,
+    fontWeight: "500",
+    marginTop: 1,
+  },
+  pointsValue: {
+    fontSize: 14,
+    fontWeight: "800",
+  },
+  pointsLabel: {
+    fontSize: 10,
+    fontWeight: "500",
+  },
+});
@@ -0,0 +1,264 @@
+// features/groups/ranking/screens/GroupBracketScreen.tsx
+// Head-to-head knockout bracket: rounds of pairings decided by round points.
+
+import React from "react";
+import { useTranslation } from "react-i18next";
+import {
+  Alert,
+  Platform,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { Screen, AppText, Button } from "@/components/ui";
+import { QueryLoadingView } from "@/components/QueryState/QueryLoadingView";
+import { QueryErrorView } from "@/components/QueryState/QueryErrorView";
+import {
+  useGroupBracketQuery,
+  useGroupQuery,
+  useStartGroupBracketMutation,
+} from "@/domains/groups";
+import { useAuth } from "@/lib/auth/useAuth";
+import { useTheme, getShadowStyle } from "@/lib/theme";
+import type { ApiBracketEntrant, ApiBracketMatch } from "@repo/types";
+
+interface GroupBracketScreenProps {
+  groupId: number | null;
+}
+
+function EntrantLine({
+  entrant,
+  points,
+  isWinner,
+  isCurrentUser,
+}: {
+  entrant: ApiBracketEntrant | null;
+  points: number | null;
+  isWinner: boolean;
+  isCurrentUser: boolean;
+}) {
+  const { t } = useTranslation("common");
+  const { theme } = useTheme();
+  const name = entrant
+    ? isCurrentUser
+      ? t("lobby.you")
+      : entrant.username || t("chat.playerFallback", { id: entrant.userId })
+    : t("ranking.bracketBye");
+
+  return (
+    <View style={styles.entrantLine}>
+      <Text
+        style={[
+          styles.entrantName,
+          { color: entrant ? theme.colors.textPrimary : theme.colors.textSecondary },
+          isWinner && { fontWeight: "800" },
+        ]}
+        numberOfLines={1}
+      >
+        {name}
+      </Text>
+      {points != null && (
+        <Text style={[styles.entrantPoints, { color: theme.colors.textPrimary }]}>
+          {points}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+function MatchCard({
+  match,
+  currentUserId,
+}: {
+  match: ApiBracketMatch;
+  currentUserId: number | null;
+}) {
+  const { theme } = useTheme();
+  const winner = match.decided ? match.winnerUserId : null;
+
+  return (
+    <View
+      style={[
+        styles.matchCard,
+        {
+          borderRadius: theme.radius.md,
+          paddingVertical: theme.spacing.sm,
+          paddingHorizontal: 10,
+          marginHorizontal: theme.spacing.md,
+          marginBottom: 6,
+          backgroundColor: theme.colors.cardBackground,
+          ...getShadowStyle("sm"),
+        },
+      ]}
+    >
+      <EntrantLine
+        entrant={match.home}
+        points={match.homePoints}
+        isWinner={winner != null && winner === match.home?.userId}
+        isCurrentUser={currentUserId != null && match.home?.userId === currentUserId}
+      />
+      <EntrantLine
+        entrant={match.away}
+        points={match.awayPoints}
+        isWinner={winner != null && winner === match.away?.userId}
+        isCurrentUser={currentUserId != null && match.away?.userId === currentUserId}
+      />
+    </View>
+  );
+}
+
+export function GroupBracketScreen({ groupId }: GroupBracketScreenProps) {
+  const { t } = useTranslation("common");
+  const { theme } = useTheme();
+  const { user } = useAuth();
+  const { data: groupData } = useGroupQuery(groupId);
+  const { data, isLoading, error, refetch, isRefetching } =
+    useGroupBracketQuery(groupId);
+  const startMutation = useStartGroupBracketMutation(groupId);
+
+  const isCreator = groupData?.data.creatorId === user?.id;
+
+  const handleStart = () => {
+    Alert.alert(t("ranking.startBracket"), t("ranking.startBracketConfirm"), [
+      { text: t("common.cancel"), style: "cancel" },
+      {
+        text: t("ranking.startBracket"),
+        onPress: () => {
+          startMutation.mutate(undefined, {
+            onError: (err) => {
+              Alert.alert(
+                t("errors.error"),
+                err?.message || t("ranking.startBracketFailed")
+              );
+            },
+          });
+        },
+      },
+    ]);
+  };
+
+  if (isLoading) {
+    return (
+      <Screen>
+        <QueryLoadingView message={t("ranking.loadingBracket")} />
+      </Screen>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Screen>
+        <QueryErrorView
+          message={t("ranking.failedLoadBracket")}
+          onRetry={() => refetch()}
+        />
+      </Screen>
+    );
+  }
+
+  const bracket = data.data;
+  if (!bracket) {
+    return (
+      <View style={[styles.container, { padding: theme.spacing.lg }]}>
+        <AppText variant="body" color="secondary" style={styles.emptyState}>
+          {isCreator ? t("ranking.bracketEmptyCreator") : t("ranking.bracketEmpty")}
+        </AppText>
+        {isCreator && (
+          <Button
+            label={t("ranking.startBracket")}
+            onPress={handleStart}
+            disabled={startMutation.isPending}
+            style={{ marginTop: theme.spacing.md }}
+          />
+        )}
+      </View>
+    );
+  }
+
+  const champion = bracket.rounds
+    .flatMap((r) => r.matches)
+    .flatMap((m) => [m.home, m.away])
+    .find((e) => e != null && e.userId === bracket.championUserId);
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={{ paddingVertical: theme.spacing.md }}
+      refreshControl={
+        <RefreshControl
+          refreshing={isRefetching}
+          onRefresh={() => refetch()}
+          tintColor={theme.colors.primary}
+          colors={Platform.OS === "android" ? [theme.colors.primary] : undefined}
+        />
+      }
+    >
+      {champion && (
+        <AppText
+          variant="body"
+          style={{ paddingHorizontal: theme.spacing.md, marginBottom: theme.spacing.md }}
+        >
+          {t("ranking.bracketChampion", {
+            name:
+              champion.userId === user?.id
+                ? t("lobby.you")
+                : champion.username ?? "",
+          })}
+        </AppText>
+      )}
+      {bracket.rounds.map((round) => {
+        const isFinal = round.roundIndex === bracket.roundCount - 1;
+        return (
+          <View key={round.roundIndex} style={{ marginBottom: theme.spacing.md }}>
+            <AppText
+              variant="caption"
+              color="secondary"
+              style={{ paddingHorizontal: theme.spacing.md, marginBottom: theme.spacing.xs }}
+            >
+              {isFinal
+                ? t("ranking.bracketFinal")
+                : t("ranking.bracketRound", { number: round.roundIndex + 1 })}
+              {" · "}
+              {round.roundLabel ?? t("ranking.bracketTbd")}
+            </AppText>
+            {round.matches.map((match) => (
+              <MatchCard
+                key={match.id}
+                match={match}
+                currentUserId={user?.id ?? null}
+              />
+            ))}
+          </View>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  emptyState: {
+    textAlign: "center",
+  },
+  matchCard: {
+    gap: 4,
+  },
+  entrantLine: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  entrantName: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  entrantPoints: {
+    fontSize: 13,
+    fontWeight: "800",
+  },
+});
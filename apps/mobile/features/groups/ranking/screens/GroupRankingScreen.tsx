@@ -1,5 +1,6 @@
 // features/groups/ranking/screens/GroupRankingScreen.tsx
 // Screen component for group ranking with game-like styling.
+// Uses the live ranking: points from in-play fixtures are shown as provisional.
 
 import React, { useCallback, useEffect, useRef, useState } from "react";
 import { useTranslation } from "react-i18next";
@@ -23,12 +24,17 @@ import {
   useGroupQuery,
   useGroupRankingQuery,
   useNudgeMutation,
+  useRankingHistoryQuery,
 } from "@/domains/groups";
 import { groupsKeys } from "@/domains/groups/groups.keys";
 import { useAuth } from "@/lib/auth/useAuth";
 import { useTheme, getShadowStyle } from "@/lib/theme";
 import { getInitials } from "@/utils/string";
 import type { ApiRankingItem } from "@repo/types";
+import {
+  RankingHistoryChart,
+  RANKING_HISTORY_CHART_HEIGHT,
+} from "../components/RankingHistoryChart";
 
 interface GroupRankingScreenProps {
   groupId: number | null;
@@ -99,7 +105,8 @@ const RankingRow = React.memo(function RankingRow({
     ? podiumColors[item.rank as 1 | 2 | 3]
     : theme.colors.surface;
 
-  const rankChange = item.rankChange ?? 0;
+  // While fixtures are in play, show live movement instead of the last settlement's
+  const rankChange = item.provisionalRankChange || (item.rankChange ?? 0);
 
   return (
     <Pressable
@@ -154,11 +161,33 @@ const RankingRow = React.memo(function RankingRow({
               <Text style={[styles.statText, { color: theme.colors.textSecondary }]}>
                 {item.predictionCount} {t("ranking.predictions")}
               </Text>
+              {item.jokersUsed > 0 && (
+                <>
+                  <Text style={[styles.statText, { color: theme.colors.textSecondary }]}>·</Text>
+                  <Text style={[styles.statText, { color: theme.colors.textSecondary }]}>
+                    {t("ranking.jokers", { count: item.jokersUsed, points: item.jokerPoints })}
+                  </Text>
+                </>
+              )}
+              {item.outrightPoints > 0 && (
+                <>
+                  <Text style={[styles.statText, { color: theme.colors.textSecondary }]}>·</Text>
+                  <Text style={[styles.statText, { color: theme.colors.textSecondary }]}>
+                    {t("ranking.outrights", { points: item.outrightPoints })}
+                  </Text>
+                </>
+              )}
             </View>
           </View>
           <Text style={[styles.pointsValue, { color: theme.colors.textPrimary }]}>
             {item.totalPoints}
             <Text style={[styles.pointsLabel, { color: theme.colors.textSecondary }]}> pts</Text>
+            {!!item.provisionalPoints && (
+              <Text style={[styles.pointsLabel, { color: theme.colors.success }]}>
+                {" "}
+                {t("ranking.provisional", { points: item.provisionalPoints })}
+              </Text>
+            )}
           </Text>
           {showNudgeButton && (
             <Pressable
@@ -196,11 +225,16 @@ export function GroupRankingScreen({ groupId }: GroupRankingScreenProps) {
   const queryClient = useQueryClient();
   const { data: groupData } = useGroupQuery(groupId);
   const { data, isLoading, error, refetch, isRefetching } =
-    useGroupRankingQuery(groupId);
+    useGroupRankingQuery(groupId, "live");
+  const { data: historyData } = useRankingHistoryQuery(groupId);
   const nudgeMutation = useNudgeMutation(groupId);
   const flatListRef = useRef<FlatList>(null);
   const items = data?.data ?? [];
   const myIndex = items.findIndex((i) => i.userId === user?.id);
+  const history = historyData?.data;
+  // The chart needs at least two settled fixtures to draw a line
+  const showChart = history != null && history.steps.length >= 2;
+  const headerHeight = showChart ? RANKING_HISTORY_CHART_HEIGHT : 0;
 
   useEffect(() => {
     if (myIndex > 0 && flatListRef.current) {
@@ -222,7 +256,7 @@ export function GroupRankingScreen({ groupId }: GroupRankingScreenProps) {
       {
         onSuccess: () => {
           queryClient.setQueryData(
-            groupsKeys.ranking(groupId),
+            groupsKeys.rankingLive(groupId),
             (old: { data: ApiRankingItem[] } | undefined) => {
               if (!old) return old;
               return {
@@ -294,7 +328,16 @@ export function GroupRankingScreen({ groupId }: GroupRankingScreenProps) {
         maxToRenderPerBatch={10}
         initialNumToRender={10}
         windowSize={5}
-        getItemLayout={(_data, index) => ({ length: ROW_HEIGHT, offset: ROW_HEIGHT * index, index })}
+        getItemLayout={(_data, index) => ({ length: ROW_HEIGHT, offset: headerHeight + ROW_HEIGHT * index, index })}
+        ListHeaderComponent={
+          showChart ? (
+            <RankingHistoryChart
+              history={history}
+              currentUserId={user?.id ?? null}
+              leaderUserId={items[0]?.userId ?? null}
+            />
+          ) : null
+        }
         renderItem={renderRankingItem}
         contentContainerStyle={[
           styles.listContent,
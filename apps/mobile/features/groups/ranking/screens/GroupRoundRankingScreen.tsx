@@ -0,0 +1,302 @@
+// features/groups/ranking/screens/GroupRoundRankingScreen.tsx
+// Round / weekly leaderboard: points from one round or ISO week only, with navigation
+// between periods.
+
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import {
+  FlatList,
+  Platform,
+  Pressable,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { Screen, AppText } from "@/components/ui";
+import { QueryLoadingView } from "@/components/QueryState/QueryLoadingView";
+import { QueryErrorView } from "@/components/QueryState/QueryErrorView";
+import { usePeriodRankingQuery } from "@/domains/groups";
+import { useAuth } from "@/lib/auth/useAuth";
+import { useTheme, getShadowStyle } from "@/lib/theme";
+import type { ApiRankingItem, ApiRankingPeriod } from "@repo/types";
+
+interface GroupRoundRankingScreenProps {
+  groupId: number | null;
+  /** Round key to open on (e.g. from the lobby round winners); latest started otherwise */
+  initialKey?: string;
+}
+
+function PeriodRow({
+  item,
+  isCurrentUser,
+}: {
+  item: ApiRankingItem;
+  isCurrentUser: boolean;
+}) {
+  const { t } = useTranslation("common");
+  const { theme } = useTheme();
+  const displayName =
+    item.username || t("chat.playerFallback", { id: item.rank });
+
+  return (
+    <View
+      style={[
+        styles.rowContainer,
+        { paddingHorizontal: theme.spacing.md, marginBottom: 6, gap: theme.spacing.sm },
+      ]}
+    >
+      <View style={[styles.rankBadge, { backgroundColor: theme.colors.textPrimary, borderRadius: theme.radius.full }]}>
+        <Text style={[styles.rankText, { color: theme.colors.textInverse }]}>{item.rank}</Text>
+      </View>
+
+      <View style={[styles.barContent, { borderRadius: theme.radius.md, paddingVertical: theme.spacing.sm, paddingHorizontal: 10, gap: theme.spacing.sm, backgroundColor: theme.colors.cardBackground, ...getShadowStyle("sm") }, isCurrentUser && { backgroundColor: theme.colors.textPrimary + "06" }]}>
+        <View style={styles.barLeft}>
+          <Text
+            style={[
+              styles.username,
+              { color: theme.colors.textPrimary },
+              isCurrentUser && { fontWeight: "800" },
+            ]}
+            numberOfLines={1}
+          >
+            {isCurrentUser ? t("lobby.you") : displayName}
+          </Text>
+          <Text style={[styles.statText, { color: theme.colors.textSecondary }]}>
+            {t("ranking.periodStats", { count: item.predictionCount, exact: item.correctScoreCount })}
+          </Text>
+        </View>
+        <Text style={[styles.pointsValue, { color: theme.colors.textPrimary }]}>
+          {item.totalPoints}
+          <Text style={[styles.pointsLabel, { color: theme.colors.textSecondary }]}>
+            {" "}{t("ranking.pts")}
+          </Text>
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+export function GroupRoundRankingScreen({
+  groupId,
+  initialKey,
+}: GroupRoundRankingScreenProps) {
+  const { t } = useTranslation("common");
+  const { theme } = useTheme();
+  const { user } = useAuth();
+  const [period, setPeriod] = useState<ApiRankingPeriod>("round");
+  const [periodKey, setPeriodKey] = useState<string | undefined>(initialKey);
+  const { data, isLoading, error, refetch, isRefetching } =
+    usePeriodRankingQuery(groupId, period, periodKey);
+
+  const selectPeriod = (next: ApiRankingPeriod) => {
+    if (next === period) return;
+    setPeriod(next);
+    setPeriodKey(undefined);
+  };
+
+  if (isLoading) {
+    return (
+      <Screen>
+        <QueryLoadingView message={t("ranking.loadingPeriod")} />
+      </Screen>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Screen>
+        <QueryErrorView
+          message={t("ranking.failedLoadPeriod")}
+          onRetry={() => refetch()}
+        />
+      </Screen>
+    );
+  }
+
+  const { current, periods, items } = data.data;
+  const index = current ? periods.findIndex((p) => p.key === current.key) : -1;
+  const previous = index > 0 ? periods[index - 1] : undefined;
+  const next = index >= 0 ? periods[index + 1] : undefined;
+
+  const periodTabs: Array<{ key: ApiRankingPeriod; label: string }> = [
+    { key: "round", label: t("ranking.byRound") },
+    { key: "week", label: t("ranking.byWeek") },
+  ];
+
+  const header = (
+    <View style={{ paddingHorizontal: theme.spacing.md, marginBottom: theme.spacing.sm, gap: theme.spacing.sm }}>
+      <View style={[styles.tabs, { gap: theme.spacing.sm }]}>
+        {periodTabs.map((tab) => (
+          <Pressable
+            key={tab.key}
+            onPress={() => selectPeriod(tab.key)}
+            style={[
+              styles.tab,
+              {
+                borderRadius: theme.radius.full,
+                backgroundColor:
+                  tab.key === period ? theme.colors.textPrimary : theme.colors.surface,
+              },
+            ]}
+          >
+            <Text
+              style={[
+                styles.tabLabel,
+                { color: tab.key === period ? theme.colors.textInverse : theme.colors.textPrimary },
+              ]}
+            >
+              {tab.label}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {current && (
+        <View style={styles.navRow}>
+          <Pressable
+            onPress={() => previous && setPeriodKey(previous.key)}
+            disabled={!previous}
+            hitSlop={8}
+            style={{ opacity: previous ? 1 : 0.3 }}
+          >
+            <Ionicons name="chevron-back" size={18} color={theme.colors.textPrimary} />
+          </Pressable>
+          <View style={styles.navCenter}>
+            <Text style={[styles.navLabel, { color: theme.colors.textPrimary }]} numberOfLines={1}>
+              {current.label}
+            </Text>
+            <Text style={[styles.statText, { color: theme.colors.textSecondary }]}>
+              {current.finished
+                ? t("ranking.periodFinished", { count: current.fixtureCount })
+                : t("ranking.periodInProgress", { count: current.fixtureCount })}
+            </Text>
+          </View>
+          <Pressable
+            onPress={() => next && setPeriodKey(next.key)}
+            disabled={!next}
+            hitSlop={8}
+            style={{ opacity: next ? 1 : 0.3 }}
+          >
+            <Ionicons name="chevron-forward" size={18} color={theme.colors.textPrimary} />
+          </Pressable>
+        </View>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={items}
+        keyExtractor={(item) => String(item.userId)}
+        ListHeaderComponent={header}
+        ListEmptyComponent={
+          <AppText
+            variant="body"
+            color="secondary"
+            style={[styles.emptyState, { paddingVertical: theme.spacing.xxl, paddingHorizontal: theme.spacing.lg }]}
+          >
+            {t("ranking.empty")}
+          </AppText>
+        }
+        renderItem={({ item }) => (
+          <PeriodRow
+            item={item}
+            isCurrentUser={user?.id != null && item.userId === user.id}
+          />
+        )}
+        contentContainerStyle={[
+          styles.listContent,
+          { paddingTop: theme.spacing.md, paddingBottom: theme.spacing.md },
+        ]}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefetching}
+            onRefresh={() => refetch()}
+            tintColor={theme.colors.primary}
+            colors={
+              Platform.OS === "android" ? [theme.colors.primary] : undefined
+            }
+          />
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  emptyState: {
+    textAlign: "center",
+  },
+  listContent: {
+    flexGrow: 1,
+  },
+  tabs: {
+    flexDirection: "row",
+  },
+  tab: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+  },
+  tabLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  navRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  navCenter: {
+    flex: 1,
+    alignItems: "center",
+  },
+  navLabel: {
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  rowContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  rankBadge: {
+    width: 22,
+    height: 22,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  rankText: {
+    fontSize: 11,
+    fontWeight: "800",
+  },
+  barContent: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  barLeft: {
+    flex: 1,
+  },
+  username: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  statText: {
+    fontSize: 10,
+    fontWeight: "500",
+    marginTop: 1,
+  },
+  pointsValue: {
+    fontSize: 14,
+    fontWeight: "800",
+  },
+  pointsLabel: {
+    fontSize: 10,
+    fontWeight: "500",
+  },
+});
@@ -0,0 +1,262 @@
+// features/groups/ranking/screens/GroupSubLeaguesScreen.tsx
+// Sub-leagues of a group the user belongs to, with create and join-by-code forms.
+
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import {
+  Alert,
+  FlatList,
+  Platform,
+  Pressable,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { Screen, AppText, Button } from "@/components/ui";
+import { QueryLoadingView } from "@/components/QueryState/QueryLoadingView";
+import { QueryErrorView } from "@/components/QueryState/QueryErrorView";
+import {
+  useCreateSubLeagueMutation,
+  useJoinSubLeagueMutation,
+  useSubLeaguesQuery,
+} from "@/domains/groups";
+import { useTheme, getShadowStyle } from "@/lib/theme";
+import type { ApiSubLeague } from "@repo/types";
+
+interface GroupSubLeaguesScreenProps {
+  groupId: number | null;
+}
+
+export function GroupSubLeaguesScreen({ groupId }: GroupSubLeaguesScreenProps) {
+  const { t } = useTranslation("common");
+  const { theme } = useTheme();
+  const router = useRouter();
+  const { data, isLoading, error, refetch, isRefetching } =
+    useSubLeaguesQuery(groupId);
+  const createMutation = useCreateSubLeagueMutation(groupId);
+  const joinMutation = useJoinSubLeagueMutation(groupId);
+  const [name, setName] = useState("");
+  const [code, setCode] = useState("");
+
+  const openSubLeague = (subLeague: ApiSubLeague) => {
+    router.push({
+      pathname: "/groups/[id]/sub-leagues/[subLeagueId]",
+      params: { id: String(subLeague.groupId), subLeagueId: String(subLeague.id) },
+    });
+  };
+
+  const handleCreate = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    createMutation.mutate(
+      { name: trimmed },
+      {
+        onSuccess: (response) => {
+          setName("");
+          openSubLeague(response.data);
+        },
+        onError: (err) => {
+          Alert.alert(
+            t("errors.error"),
+            err?.message || t("subLeagues.createFailed")
+          );
+        },
+      }
+    );
+  };
+
+  const handleJoin = () => {
+    const trimmed = code.trim();
+    if (!trimmed) return;
+    joinMutation.mutate(
+      { inviteCode: trimmed },
+      {
+        onSuccess: (response) => {
+          setCode("");
+          openSubLeague(response.data);
+        },
+        onError: (err) => {
+          Alert.alert(
+            t("errors.error"),
+            err?.message || t("subLeagues.joinFailed")
+          );
+        },
+      }
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <Screen>
+        <QueryLoadingView message={t("subLeagues.loading")} />
+      </Screen>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Screen>
+        <QueryErrorView
+          message={t("subLeagues.failedLoad")}
+          onRetry={() => refetch()}
+        />
+      </Screen>
+    );
+  }
+
+  const inputStyle = [
+    styles.input,
+    {
+      backgroundColor: theme.colors.surface,
+      color: theme.colors.textPrimary,
+      borderRadius: theme.radius.md,
+    },
+  ];
+
+  const forms = (
+    <View style={{ paddingHorizontal: theme.spacing.md, gap: theme.spacing.sm }}>
+      <AppText variant="caption" color="secondary">
+        {t("subLeagues.description")}
+      </AppText>
+      <View style={styles.formRow}>
+        <TextInput
+          style={inputStyle}
+          value={name}
+          onChangeText={setName}
+          placeholder={t("subLeagues.namePlaceholder")}
+          placeholderTextColor={theme.colors.textSecondary}
+          maxLength={60}
+        />
+        <Button
+          label={t("subLeagues.create")}
+          onPress={handleCreate}
+          disabled={createMutation.isPending || !name.trim()}
+        />
+      </View>
+      <View style={styles.formRow}>
+        <TextInput
+          style={inputStyle}
+          value={code}
+          onChangeText={setCode}
+          placeholder={t("subLeagues.codePlaceholder")}
+          placeholderTextColor={theme.colors.textSecondary}
+          autoCapitalize="none"
+          autoCorrect={false}
+          maxLength={16}
+        />
+        <Button
+          label={t("subLeagues.join")}
+          variant="secondary"
+          onPress={handleJoin}
+          disabled={joinMutation.isPending || !code.trim()}
+        />
+      </View>
+      <Text style={[styles.sectionTitle, { color: theme.colors.textSecondary, marginTop: theme.spacing.sm }]}>
+        {t("subLeagues.mySubLeagues")}
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={data.data}
+        keyExtractor={(item) => String(item.id)}
+        ListHeaderComponent={forms}
+        ListEmptyComponent={
+          <AppText
+            variant="body"
+            color="secondary"
+            style={[styles.emptyState, { paddingVertical: theme.spacing.xl, paddingHorizontal: theme.spacing.lg }]}
+          >
+            {t("subLeagues.empty")}
+          </AppText>
+        }
+        renderItem={({ item }) => (
+          <Pressable
+            onPress={() => openSubLeague(item)}
+            style={({ pressed }) => [
+              styles.card,
+              {
+                marginHorizontal: theme.spacing.md,
+                marginTop: theme.spacing.sm,
+                padding: theme.spacing.md,
+                borderRadius: theme.radius.md,
+                backgroundColor: theme.colors.cardBackground,
+                opacity: pressed ? 0.6 : 1,
+                ...getShadowStyle("sm"),
+              },
+            ]}
+          >
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.name, { color: theme.colors.textPrimary }]} numberOfLines={1}>
+                {item.name}
+              </Text>
+              <Text style={[styles.meta, { color: theme.colors.textSecondary }]}>
+                {t("subLeagues.memberCount", { count: item.memberCount })}
+              </Text>
+            </View>
+            <Ionicons name="chevron-forward" size={14} color={theme.colors.textSecondary + "60"} />
+          </Pressable>
+        )}
+        contentContainerStyle={[
+          styles.listContent,
+          { paddingTop: theme.spacing.md, paddingBottom: theme.spacing.md },
+        ]}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefetching}
+            onRefresh={() => refetch()}
+            tintColor={theme.colors.primary}
+            colors={
+              Platform.OS === "android" ? [theme.colors.primary] : undefined
+            }
+          />
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  emptyState: {
+    textAlign: "center",
+  },
+  listContent: {
+    flexGrow: 1,
+  },
+  formRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    padding: 12,
+    fontSize: 15,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: "500",
+  },
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  name: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  meta: {
+    fontSize: 11,
+    marginTop: 2,
+  },
+});
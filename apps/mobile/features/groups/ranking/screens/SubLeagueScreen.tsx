@@ -0,0 +1,363 @@
+// features/groups/ranking/screens/SubLeagueScreen.tsx
+// One sub-league: its table (the group's points, ranked among its members) and its chat.
+
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import {
+  Alert,
+  FlatList,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  RefreshControl,
+  Share,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { Screen, AppText, Button } from "@/components/ui";
+import { QueryLoadingView } from "@/components/QueryState/QueryLoadingView";
+import { QueryErrorView } from "@/components/QueryState/QueryErrorView";
+import {
+  useLeaveSubLeagueMutation,
+  useSendSubLeagueMessageMutation,
+  useSubLeagueMessagesQuery,
+  useSubLeagueRankingQuery,
+} from "@/domains/groups";
+import { ChatInput, ChatMessageBubble } from "@/features/groups/chat";
+import { useAuth } from "@/lib/auth/useAuth";
+import { useTheme, getShadowStyle } from "@/lib/theme";
+import type { ApiRankingItem } from "@repo/types";
+
+interface SubLeagueScreenProps {
+  groupId: number | null;
+  subLeagueId: number | null;
+}
+
+type SubLeagueTab = "table" | "chat";
+
+function SubLeagueRow({
+  item,
+  isCurrentUser,
+}: {
+  item: ApiRankingItem;
+  isCurrentUser: boolean;
+}) {
+  const { t } = useTranslation("common");
+  const { theme } = useTheme();
+  const displayName =
+    item.username || t("chat.playerFallback", { id: item.rank });
+
+  return (
+    <View
+      style={[
+        styles.rowContainer,
+        { paddingHorizontal: theme.spacing.md, marginBottom: 6, gap: theme.spacing.sm },
+      ]}
+    >
+      <View style={[styles.rankBadge, { backgroundColor: theme.colors.textPrimary, borderRadius: theme.radius.full }]}>
+        <Text style={[styles.rankText, { color: theme.colors.textInverse }]}>{item.rank}</Text>
+      </View>
+
+      <View style={[styles.barContent, { borderRadius: theme.radius.md, paddingVertical: theme.spacing.sm, paddingHorizontal: 10, gap: theme.spacing.sm, backgroundColor: theme.colors.cardBackground, ...getShadowStyle("sm") }, isCurrentUser && { backgroundColor: theme.colors.textPrimary + "06" }]}>
+        <View style={styles.barLeft}>
+          <Text
+            style={[
+              styles.username,
+              { color: theme.colors.textPrimary },
+              isCurrentUser && { fontWeight: "800" },
+            ]}
+            numberOfLines={1}
+          >
+            {isCurrentUser ? t("lobby.you") : displayName}
+          </Text>
+          <Text style={[styles.statText, { color: theme.colors.textSecondary }]}>
+            {item.correctScoreCount} {t("ranking.exact")}
+          </Text>
+        </View>
+        <Text style={[styles.pointsValue, { color: theme.colors.textPrimary }]}>
+          {item.totalPoints}
+          <Text style={[styles.pointsLabel, { color: theme.colors.textSecondary }]}>
+            {" "}{t("ranking.pts")}
+          </Text>
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+function SubLeagueChat({
+  groupId,
+  subLeagueId,
+  currentUserId,
+}: {
+  groupId: number;
+  subLeagueId: number;
+  currentUserId: number;
+}) {
+  const { t } = useTranslation("common");
+  const { theme } = useTheme();
+  const { data, isLoading } = useSubLeagueMessagesQuery(groupId, subLeagueId);
+  const sendMutation = useSendSubLeagueMessageMutation(groupId, subLeagueId);
+
+  const handleSend = (body: string) => {
+    sendMutation.mutate(body, {
+      onError: (err) => {
+        Alert.alert(t("errors.error"), err?.message || t("subLeagues.sendFailed"));
+      },
+    });
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === "ios" ? "padding" : undefined}
+    >
+      {isLoading ? (
+        <QueryLoadingView message={t("common.loading")} />
+      ) : (
+        <FlatList
+          data={data?.data ?? []}
+          inverted
+          keyExtractor={(m) => String(m.id)}
+          renderItem={({ item }) => (
+            <ChatMessageBubble
+              message={item}
+              isCurrentUser={item.senderId === currentUserId}
+              currentUserId={currentUserId}
+            />
+          )}
+          ListEmptyComponent={
+            <AppText
+              variant="body"
+              color="secondary"
+              style={[styles.emptyState, { padding: theme.spacing.lg }]}
+            >
+              {t("subLeagues.chatEmpty")}
+            </AppText>
+          }
+          contentContainerStyle={{ padding: theme.spacing.sm }}
+        />
+      )}
+      <ChatInput
+        onSend={handleSend}
+        onTypingStart={() => {}}
+        onTypingStop={() => {}}
+        memberOptions={[]}
+        fixtureOptions={[]}
+      />
+    </KeyboardAvoidingView>
+  );
+}
+
+export function SubLeagueScreen({ groupId, subLeagueId }: SubLeagueScreenProps) {
+  const { t } = useTranslation("common");
+  const { theme } = useTheme();
+  const router = useRouter();
+  const { user } = useAuth();
+  const [tab, setTab] = useState<SubLeagueTab>("table");
+  const { data, isLoading, error, refetch, isRefetching } =
+    useSubLeagueRankingQuery(groupId, subLeagueId);
+  const leaveMutation = useLeaveSubLeagueMutation(groupId, subLeagueId);
+
+  if (isLoading) {
+    return (
+      <Screen>
+        <QueryLoadingView message={t("subLeagues.loadingTable")} />
+      </Screen>
+    );
+  }
+
+  if (error || !data || groupId == null || subLeagueId == null) {
+    return (
+      <Screen>
+        <QueryErrorView
+          message={t("subLeagues.failedLoadTable")}
+          onRetry={() => refetch()}
+        />
+      </Screen>
+    );
+  }
+
+  const { subLeague, items } = data.data;
+
+  const handleShare = () => {
+    Share.share({
+      message: t("subLeagues.shareMessage", {
+        name: subLeague.name,
+        code: subLeague.inviteCode,
+      }),
+    }).catch(() => {});
+  };
+
+  const handleLeave = () => {
+    const asCreator = subLeague.isCreator;
+    Alert.alert(
+      asCreator ? t("subLeagues.delete") : t("subLeagues.leave"),
+      asCreator ? t("subLeagues.deleteConfirm") : t("subLeagues.leaveConfirm"),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: asCreator ? t("subLeagues.delete") : t("subLeagues.leave"),
+          style: "destructive",
+          onPress: () => {
+            leaveMutation.mutate(
+              { asCreator },
+              {
+                onSuccess: () => router.back(),
+                onError: (err) => {
+                  Alert.alert(
+                    t("errors.error"),
+                    err?.message || t("subLeagues.leaveFailed")
+                  );
+                },
+              }
+            );
+          },
+        },
+      ]
+    );
+  };
+
+  const tabs: Array<{ key: SubLeagueTab; label: string }> = [
+    { key: "table", label: t("subLeagues.table") },
+    { key: "chat", label: t("subLeagues.chat") },
+  ];
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.tabs, { margin: theme.spacing.md, gap: theme.spacing.sm }]}>
+        {tabs.map((item) => (
+          <Pressable
+            key={item.key}
+            onPress={() => setTab(item.key)}
+            style={[
+              styles.tab,
+              {
+                borderRadius: theme.radius.full,
+                backgroundColor:
+                  tab === item.key ? theme.colors.textPrimary : theme.colors.surface,
+              },
+            ]}
+          >
+            <Text
+              style={[
+                styles.tabLabel,
+                { color: tab === item.key ? theme.colors.textInverse : theme.colors.textPrimary },
+              ]}
+            >
+              {item.label}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {tab === "chat" && user?.id != null ? (
+        <SubLeagueChat
+          groupId={groupId}
+          subLeagueId={subLeagueId}
+          currentUserId={user.id}
+        />
+      ) : (
+        <FlatList
+          data={items}
+          keyExtractor={(item) => String(item.userId)}
+          renderItem={({ item }) => (
+            <SubLeagueRow
+              item={item}
+              isCurrentUser={user?.id != null && item.userId === user.id}
+            />
+          )}
+          ListFooterComponent={
+            <View style={{ padding: theme.spacing.md, gap: theme.spacing.sm }}>
+              <AppText variant="caption" color="secondary">
+                {t("subLeagues.inviteCodeLine", { code: subLeague.inviteCode })}
+              </AppText>
+              <Button label={t("subLeagues.shareCode")} onPress={handleShare} />
+              <Button
+                label={subLeague.isCreator ? t("subLeagues.delete") : t("subLeagues.leave")}
+                variant="danger"
+                onPress={handleLeave}
+                disabled={leaveMutation.isPending}
+              />
+            </View>
+          }
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefetching}
+              onRefresh={() => refetch()}
+              tintColor={theme.colors.primary}
+              colors={
+                Platform.OS === "android" ? [theme.colors.primary] : undefined
+              }
+            />
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  emptyState: {
+    textAlign: "center",
+  },
+  listContent: {
+    flexGrow: 1,
+  },
+  tabs: {
+    flexDirection: "row",
+  },
+  tab: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+  },
+  tabLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  rowContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  rankBadge: {
+    width: 22,
+    height: 22,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  rankText: {
+    fontSize: 11,
+    fontWeight: "800",
+  },
+  barContent: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  barLeft: {
+    flex: 1,
+  },
+  username: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  statText: {
+    fontSize: 10,
+    fontWeight: "500",
+    marginTop: 1,
+  },
+  pointsValue: {
+    fontSize: 14,
+    fontWeight: "800",
+  },
+  pointsLabel: {
+    fontSize: 10,
+    fontWeight: "500",
+  },
+});
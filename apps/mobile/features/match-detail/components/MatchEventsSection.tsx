@@ -0,0 +1,90 @@
+// features/match-detail/components/MatchEventsSection.tsx
+// Timeline of goals, cards and substitutions; home events left, away events right.
+
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { View, StyleSheet } from "react-native";
+import { spacing } from "@/lib/theme";
+import { AppText } from "@/components/ui";
+import type { ApiFixtureEventItem } from "@repo/types";
+
+interface MatchEventsSectionProps {
+  events: ApiFixtureEventItem[];
+}
+
+const EVENT_ICONS: Record<string, string> = {
+  goal: "⚽",
+  own_goal: "⚽",
+  penalty: "⚽",
+  missed_penalty: "❌",
+  yellow_card: "🟨",
+  red_card: "🟥",
+  substitution: "🔄",
+  var: "📺",
+};
+
+function EventRow({ event }: { event: ApiFixtureEventItem }) {
+  const { t } = useTranslation("common");
+  const minute = event.extraMinute
+    ? `${event.minute}+${event.extraMinute}'`
+    : `${event.minute}'`;
+  const label = t(`matchDetail.eventTypes.${event.type}`, {
+    defaultValue: event.type,
+  });
+  const player = event.playerName ?? label;
+  const related =
+    event.type === "substitution" && event.relatedPlayerName
+      ? ` ↔ ${event.relatedPlayerName}`
+      : "";
+  const isAway = event.side === "away";
+
+  return (
+    <View style={[styles.row, isAway && styles.rowAway]}>
+      <AppText variant="caption" color="secondary" style={styles.minute}>
+        {minute}
+      </AppText>
+      <AppText variant="body">{EVENT_ICONS[event.type] ?? "•"}</AppText>
+      <AppText
+        variant="body"
+        style={[styles.player, isAway && styles.playerAway]}
+        numberOfLines={1}
+      >
+        {player}
+        {related}
+      </AppText>
+    </View>
+  );
+}
+
+export function MatchEventsSection({ events }: MatchEventsSectionProps) {
+  return (
+    <View style={styles.container}>
+      {events.map((event) => (
+        <EventRow key={event.id} event={event} />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing.xs,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.sm,
+  },
+  rowAway: {
+    flexDirection: "row-reverse",
+  },
+  minute: {
+    width: 40,
+  },
+  player: {
+    flex: 1,
+  },
+  playerAway: {
+    textAlign: "right",
+  },
+});
@@ -6,10 +6,13 @@ import { useTranslation } from "react-i18next";
 import { View, StyleSheet } from "react-native";
 import { Card, AppText } from "@/components/ui";
 import type { ApiFixtureDetailPrediction } from "@repo/types";
+import type { FixtureLiveProjectionItem } from "@/lib/socket";
 
 interface PredictionCardProps {
   prediction: ApiFixtureDetailPrediction;
   result?: string | null;
+  /** My provisional standing in the group while the match is in play */
+  live?: FixtureLiveProjectionItem;
 }
 
 /**
@@ -36,17 +39,26 @@ function formatPredictionDisplay(
   return prediction || "—";
 }
 
-export function PredictionCard({ prediction, result }: PredictionCardProps) {
+export function PredictionCard({
+  prediction,
+  result,
+  live,
+}: PredictionCardProps) {
   const { t } = useTranslation("common");
   const displayPrediction = formatPredictionDisplay(
     prediction.prediction,
     prediction.predictionMode,
     t
   );
+  const showLive = !prediction.settled && live != null;
   const pointsText =
     prediction.settled && prediction.points != null
       ? t("matchDetail.points", { points: prediction.points })
-      : t("matchDetail.pending");
+      : showLive
+        ? t("matchDetail.livePoints", { points: live.livePoints })
+        : t("matchDetail.pending");
+  const rankArrow =
+    live && live.rankChange > 0 ? " ▲" : live && live.rankChange < 0 ? " ▼" : "";
   const statusKey = prediction.settled ? "matchDetail.settled" : "matchDetail.pending";
 
   return (
@@ -68,6 +80,12 @@ export function PredictionCard({ prediction, result }: PredictionCardProps) {
           <AppText variant="caption" style={styles.points}>
             {pointsText}
           </AppText>
+          {showLive && (
+            <AppText variant="caption" color="secondary">
+              {t("matchDetail.projectedRank", { rank: live.projectedRank })}
+              {rankArrow}
+            </AppText>
+          )}
         </View>
       </View>
     </Card>
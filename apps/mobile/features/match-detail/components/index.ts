@@ -3,3 +3,4 @@ export { MatchScoreHeader } from "./MatchScoreHeader";
 export { MatchInfoSection } from "./MatchInfoSection";
 export { PeriodScoresSection } from "./PeriodScoresSection";
 export { PredictionCard } from "./PredictionCard";
+export { MatchEventsSection } from "./MatchEventsSection";
@@ -1,5 +1,6 @@
 // features/match-detail/screens/MatchDetailScreen.tsx
-// Match detail screen: header, info, period scores, my predictions.
+// Match detail screen: header, info, two-legged tie, match events, period scores, my predictions.
+// Score and live points update in place via fixture:update socket events.
 
 import React from "react";
 import { useTranslation } from "react-i18next";
@@ -7,10 +8,14 @@ import { View, StyleSheet, ScrollView } from "react-native";
 import { spacing } from "@/lib/theme";
 import { ScreenWithHeader } from "@/components/ui/ScreenWithHeader";
 import { AppText, Card } from "@/components/ui";
+import { useAuth } from "@/lib/auth/useAuth";
+import { useFixtureLiveUpdates } from "@/lib/socket";
+import { TieLegs } from "@/components/Fixtures";
 import type { ApiFixtureDetailData } from "@repo/types";
 import {
   MatchScoreHeader,
   MatchInfoSection,
+  MatchEventsSection,
   PeriodScoresSection,
   PredictionCard,
 } from "../components";
@@ -23,7 +28,13 @@ const SHOW_PERIOD_SCORES_STATES = new Set(["AET", "FT_PEN"]);
 
 export function MatchDetailScreen({ data }: MatchDetailScreenProps) {
   const { t } = useTranslation("common");
+  const { user } = useAuth();
   const showPeriodScores = SHOW_PERIOD_SCORES_STATES.has(data.state);
+  // Live score push; unsettled predictions also get their group's projection
+  const projections = useFixtureLiveUpdates(
+    data.id,
+    data.predictions.filter((p) => !p.settled).map((p) => p.groupId)
+  );
 
   return (
     <ScreenWithHeader
@@ -41,6 +52,31 @@ export function MatchDetailScreen({ data }: MatchDetailScreenProps) {
 
         <MatchInfoSection data={data} />
 
+        {data.tie && (
+          <View style={styles.section}>
+            <AppText variant="subtitle" style={styles.sectionTitle}>
+              {t("matchDetail.tie")}
+            </AppText>
+            <TieLegs
+              tie={data.tie}
+              teamNames={{
+                [data.homeTeam.id]: data.homeTeam.name,
+                [data.awayTeam.id]: data.awayTeam.name,
+              }}
+              currentFixtureId={data.id}
+            />
+          </View>
+        )}
+
+        {data.events.length > 0 && (
+          <View style={styles.section}>
+            <AppText variant="subtitle" style={styles.sectionTitle}>
+              {t("matchDetail.events")}
+            </AppText>
+            <MatchEventsSection events={data.events} />
+          </View>
+        )}
+
         {showPeriodScores && (
           <View style={styles.section}>
             <AppText variant="subtitle" style={styles.sectionTitle}>
@@ -71,6 +107,9 @@ export function MatchDetailScreen({ data }: MatchDetailScreenProps) {
                 key={pred.groupId}
                 prediction={pred}
                 result={data.result}
+                live={projections[pred.groupId]?.find(
+                  (item) => item.userId === user?.id
+                )}
               />
             ))
           )}
@@ -119,7 +119,7 @@ export function ChatNotificationListeners() {
       // --- Toast notification logic ---
 
       // 1. Skip system events
-      if (message.type !== "user_message") return;
+      if (message.type === "system_event") return;
 
       // 2. Skip own messages
       if (message.senderId === userIdRef.current) return;
@@ -3,11 +3,18 @@ export { InviteSocketListeners } from "./InviteSocketListeners";
 export { ChatNotificationListeners } from "./ChatNotificationListeners";
 export { ActivitySocketListeners } from "./ActivitySocketListeners";
 export { useGroupSocket } from "./useGroupSocket";
+export { useFixtureLiveUpdates } from "./useFixtureLiveUpdates";
 export type { TypedSocket } from "./SocketProvider";
 export type {
   ChatMessage,
+  ChatPredictionCard,
+  ChatReactionSummary,
+  ChatReplyPreview,
+  MessageReactionPayload,
   MentionData,
   ActivityPayload,
+  FixtureLiveProjectionItem,
+  FixtureUpdatePayload,
   ServerToClientEvents,
   ClientToServerEvents,
 } from "./socket.types";
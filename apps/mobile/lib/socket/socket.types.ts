@@ -6,12 +6,42 @@ export interface MentionData {
   display: string;
 }
 
+export interface ChatReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: number[];
+}
+
+export interface ChatReplyPreview {
+  id: number;
+  body: string;
+  deleted: boolean;
+  sender: { id: number; username: string | null } | null;
+}
+
+export interface ChatPredictionCard {
+  fixtureId: number;
+  homeTeam: string;
+  awayTeam: string;
+  kickoffAt: string;
+  fixtureState: string;
+  homeScore: number | null;
+  awayScore: number | null;
+  /** False while hidden from other members (before kickoff, unless shared openly) */
+  revealed: boolean;
+  /** "home:away"; null when hidden from the viewer */
+  prediction: string | null;
+  isJoker: boolean;
+  /** Points earned; null until settled */
+  points: number | null;
+}
+
 export interface ChatMessage {
   id: number;
   createdAt: string;
   groupId: number;
   senderId: number | null;
-  type: "user_message" | "system_event";
+  type: "user_message" | "system_event" | "prediction_share";
   body: string;
   meta: Record<string, unknown> | null;
   sender: {
@@ -19,9 +49,20 @@ export interface ChatMessage {
     username: string | null;
     image: string | null;
   } | null;
+  replyTo: ChatReplyPreview | null;
+  reactions: ChatReactionSummary[];
+  editedAt: string | null;
+  deletedAt: string | null;
+  prediction: ChatPredictionCard | null;
   tempId?: string;
 }
 
+export interface MessageReactionPayload {
+  groupId: number;
+  messageId: number;
+  reactions: ChatReactionSummary[];
+}
+
 export interface InviteReceivedPayload {
   inviteId: number;
   groupId: number;
@@ -40,9 +81,41 @@ export interface ActivityPayload {
   actor: { id: number; username: string | null } | null;
 }
 
+export interface FixtureSubscription {
+  fixtureId: number;
+  groupId?: number;
+}
+
+export interface FixtureLiveProjectionItem {
+  userId: number;
+  username: string | null;
+  livePoints: number;
+  projectedPoints: number;
+  rank: number;
+  projectedRank: number;
+  rankChange: number;
+}
+
+export interface FixtureUpdatePayload {
+  fixtureId: number;
+  state: string;
+  liveMinute: number | null;
+  homeScore90: number | null;
+  awayScore90: number | null;
+  homeScoreET: number | null;
+  awayScoreET: number | null;
+  penHome: number | null;
+  penAway: number | null;
+  groupId?: number;
+  projection?: FixtureLiveProjectionItem[];
+}
+
 export interface ServerToClientEvents {
   "message:new": (message: ChatMessage) => void;
+  "message:updated": (message: ChatMessage) => void;
+  "message:reaction": (payload: MessageReactionPayload) => void;
   "activity:new": (payload: ActivityPayload) => void;
+  "fixture:update": (payload: FixtureUpdatePayload) => void;
   "typing:start": (data: { userId: number; username: string | null }) => void;
   "typing:stop": (data: { userId: number }) => void;
   error: (data: { event: string; message: string }) => void;
@@ -62,12 +135,27 @@ export interface ClientToServerEvents {
     groupId: number;
     body: string;
     mentions?: MentionData[];
+    replyToId?: number;
     tempId?: string;
   }) => void;
+  "message:edit": (data: {
+    groupId: number;
+    messageId: number;
+    body: string;
+    mentions?: MentionData[];
+  }) => void;
+  "message:delete": (data: { groupId: number; messageId: number }) => void;
+  "message:react": (data: {
+    groupId: number;
+    messageId: number;
+    emoji: string;
+  }) => void;
   "typing:start": (groupId: number) => void;
   "typing:stop": (groupId: number) => void;
   "messages:read": (data: {
     groupId: number;
     lastReadMessageId: number;
   }) => void;
+  "fixture:subscribe": (data: FixtureSubscription) => void;
+  "fixture:unsubscribe": (data: FixtureSubscription) => void;
 }
@@ -0,0 +1,79 @@
+// lib/socket/useFixtureLiveUpdates.ts
+// Subscribes to fixture:update for one fixture: patches the cached fixture
+// detail with the live score and keeps each group's live-points projection.
+
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { ApiFixtureDetailResponse } from "@repo/types";
+import { fixturesKeys } from "@/domains/fixtures";
+import { useSocket } from "./SocketProvider";
+import type {
+  FixtureLiveProjectionItem,
+  FixtureUpdatePayload,
+} from "./socket.types";
+
+/**
+ * Live score push for a fixture.
+ * - Joins the fixture room, plus one group-scoped room per groupId (projection).
+ * - Re-subscribes on reconnect; unsubscribes on unmount.
+ * Returns the latest projection per groupId (empty until the first update).
+ */
+export function useFixtureLiveUpdates(
+  fixtureId: number | null,
+  groupIds: number[] = []
+) {
+  const { socket, isConnected } = useSocket();
+  const queryClient = useQueryClient();
+  const [projections, setProjections] = useState<
+    Record<number, FixtureLiveProjectionItem[]>
+  >({});
+  const groupKey = groupIds.join(",");
+
+  useEffect(() => {
+    if (!socket || !isConnected || !fixtureId) return;
+
+    const subscriptions = [
+      { fixtureId },
+      ...groupIds.map((groupId) => ({ fixtureId, groupId })),
+    ];
+    subscriptions.forEach((s) => socket.emit("fixture:subscribe", s));
+
+    const onUpdate = (payload: FixtureUpdatePayload) => {
+      if (payload.fixtureId !== fixtureId) return;
+
+      queryClient.setQueryData<ApiFixtureDetailResponse>(
+        fixturesKeys.detail(fixtureId),
+        (old) =>
+          old && {
+            ...old,
+            data: {
+              ...old.data,
+              state: payload.state,
+              liveMinute: payload.liveMinute,
+              homeScore90: payload.homeScore90,
+              awayScore90: payload.awayScore90,
+              homeScoreET: payload.homeScoreET,
+              awayScoreET: payload.awayScoreET,
+              penHome: payload.penHome,
+              penAway: payload.penAway,
+            },
+          }
+      );
+
+      const { groupId, projection } = payload;
+      if (groupId != null && projection) {
+        setProjections((prev) => ({ ...prev, [groupId]: projection }));
+      }
+    };
+
+    socket.on("fixture:update", onUpdate);
+    return () => {
+      socket.off("fixture:update", onUpdate);
+      subscriptions.forEach((s) => socket.emit("fixture:unsubscribe", s));
+    };
+    // groupKey stands in for groupIds (new array each render)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [socket, isConnected, fixtureId, groupKey, queryClient]);
+
+  return projections;
+}
@@ -8,9 +8,11 @@ import { seedTeams } from "./seed.teams";
 import { seedSeasons } from "./seed.seasons";
 import { seedFixtures } from "./seed.fixtures";
 import { seedOdds } from "./seed.odds";
+import { seedStandings } from "./seed.standings";
 import { seedJobsDefaults } from "./seed.jobs";
 import { format, addDays } from "date-fns";
 import { getLogger } from "../../logger";
+import { prisma } from "@repo/db";
 
 const log = getLogger("SeedCLI");
 
@@ -22,6 +24,7 @@ const log = getLogger("SeedCLI");
  * 4. teams - Depends on: countries (countryId, nullable)
  * 5. seasons - Depends on: leagues (leagueId)
  * 6. fixtures - Depends on: leagues (leagueId), seasons (seasonId), teams (homeTeamId, awayTeamId)
+ * 7. standings - Depends on: seasons (seasonId), teams (teamId)
  *
  * Note: When running individual seeds, ensure dependencies are seeded first.
  * When using --all or no flags, seeds run in the correct order automatically.
@@ -57,6 +60,7 @@ const hasLeagues = args.includes("--leagues");
 const hasTeams = args.includes("--teams");
 const hasSeasons = args.includes("--seasons");
 const hasFixtures = args.includes("--fixtures");
+const hasStandings = args.includes("--standings");
 const hasOdds = args.includes("--odds");
 const hasJobs = args.includes("--jobs");
 
@@ -68,6 +72,7 @@ const runAll =
   !hasTeams &&
   !hasSeasons &&
   !hasFixtures &&
+  !hasStandings &&
   !hasOdds &&
   !hasJobs;
 
@@ -119,6 +124,9 @@ const oddsTo: string = oddsToArg
       if (hasFixtures && (!hasLeagues || !hasTeams || !hasSeasons)) {
         log.warn({}, "Fixtures depend on leagues, seasons, and teams. Make sure all are seeded first.");
       }
+      if (hasStandings && (!hasTeams || !hasSeasons)) {
+        log.warn({}, "Standings depend on seasons and teams. Make sure both are seeded first.");
+      }
     }
 
     // Seed in dependency order (always, even for individual seeds)
@@ -183,6 +191,23 @@ const oddsTo: string = oddsToArg
       }
     }
 
+    // Standings must come after seasons and teams (current seasons only)
+    if (runAll || hasStandings) {
+      log.info({}, "Starting standings seeding");
+      const currentSeasons = await prisma.seasons.findMany({
+        where: { isCurrent: true },
+        select: { externalId: true },
+      });
+      for (const season of currentSeasons) {
+        const standingsDto = await adapter.fetchStandingsBySeason(
+          season.externalId
+        );
+        if (standingsDto.length > 0) {
+          await seedStandings(standingsDto, { dryRun });
+        }
+      }
+    }
+
     if (runAll || hasOdds) {
       log.info({}, "Starting odds seeding");
       const oddsDto = await adapter.fetchOddsBetween(oddsFrom, oddsTo);
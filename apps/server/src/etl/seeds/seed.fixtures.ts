@@ -335,6 +335,9 @@ export async function seedFixtures(
               round: payload.round,
               leg: payload.leg,
               aggregateId: payload.aggregateId ? String(payload.aggregateId) : null,
+              ...(payload.firstScoringTeam !== undefined
+                ? { firstScoringTeam: payload.firstScoringTeam }
+                : {}),
               updatedAt: new Date(),
             };
             const createPayload = {
@@ -358,6 +361,7 @@ export async function seedFixtures(
               round: payload.round,
               leg: payload.leg,
               aggregateId: payload.aggregateId ? String(payload.aggregateId) : null,
+              firstScoringTeam: payload.firstScoringTeam ?? null,
             };
             await prisma.fixtures.upsert({
               where: { externalId: String(payload.externalId) },
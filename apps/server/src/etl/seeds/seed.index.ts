@@ -1,4 +1,5 @@
 import type { ExternalId } from "@repo/types/sport-data/common";
+import { prisma } from "@repo/db";
 import { adapter } from "../../utils/adapter";
 import { getLogger } from "../../logger";
 import { seedBookmakers } from "./seed.bookmakers";
@@ -8,6 +9,7 @@ import { seedTeams } from "./seed.teams";
 import { seedSeasons } from "./seed.seasons";
 import { seedFixtures } from "./seed.fixtures";
 import { seedOdds } from "./seed.odds";
+import { seedStandings } from "./seed.standings";
 import { seedJobsDefaults } from "./seed.jobs";
 
 const log = getLogger("SeedOrchestrator");
@@ -160,6 +162,46 @@ export async function runFixturesSeed(
   log.info({}, "Fixtures seeding finished");
 }
 
+/**
+ * runStandingsSeed()
+ * -----------------
+ * Fetches league standings and persists them to DB.
+ *
+ * Dependencies:
+ * - seasons and teams must exist first (FKs).
+ *
+ * Behavior:
+ * - When `seasonExternalId` is provided, it fetches standings for just that season.
+ * - Otherwise, it fetches standings for every current season in the DB.
+ */
+export async function runStandingsSeed(
+  seasonExternalId?: ExternalId,
+  opts?: { dryRun?: boolean }
+) {
+  const seasonExternalIds = seasonExternalId
+    ? [String(seasonExternalId)]
+    : (
+        await prisma.seasons.findMany({
+          where: { isCurrent: true },
+          select: { externalId: true },
+        })
+      ).map((s) => s.externalId);
+
+  for (const externalId of seasonExternalIds) {
+    log.info(
+      { seasonExternalId: externalId },
+      "Fetching standings for season from provider"
+    );
+    const standingsDto = await adapter.fetchStandingsBySeason(externalId);
+    if (standingsDto.length > 0) {
+      log.info({ count: standingsDto.length }, "Found standings to seed");
+      await seedStandings(standingsDto, opts);
+    }
+  }
+
+  log.info({}, "Standings seeding finished");
+}
+
 /**
  * runOddsSeed()
  * ------------
@@ -0,0 +1,211 @@
+// src/etl/seeds/seed.standings.ts
+import type { StandingDTO } from "@repo/types/sport-data/common";
+import {
+  startSeedBatch,
+  trackSeedItem,
+  finishSeedBatch,
+  chunk,
+} from "./seed.utils";
+import { RunStatus, RunTrigger, prisma } from "@repo/db";
+import { getLogger } from "../../logger";
+
+const log = getLogger("SeedStandings");
+const CHUNK_SIZE = 8;
+
+/**
+ * Upsert standings rows (one per season/team).
+ *
+ * - Seasons and teams are resolved by external id; rows whose season or team
+ *   is not in the DB are tracked as skipped.
+ * - For every season in the input, rows of teams no longer in the provider
+ *   table are removed, so the stored table always mirrors the latest fetch.
+ */
+export async function seedStandings(
+  standings: StandingDTO[],
+  opts?: {
+    batchId?: number;
+    version?: string;
+    trigger?: RunTrigger;
+    triggeredBy?: string | null;
+    triggeredById?: string | null;
+    dryRun?: boolean;
+  }
+) {
+  // In dry-run mode, skip all database writes including batch tracking
+  if (opts?.dryRun) {
+    log.info(
+      { count: standings?.length ?? 0 },
+      "Dry run mode; no DB changes"
+    );
+    return { batchId: null, ok: 0, fail: 0, skipped: 0, total: standings?.length ?? 0 };
+  }
+
+  let batchId = opts?.batchId;
+  let createdHere = false;
+
+  if (!batchId) {
+    const started = await startSeedBatch(
+      "seed-standings",
+      opts?.version ?? "v1",
+      { totalInput: standings?.length ?? 0, dryRun: !!opts?.dryRun },
+      {
+        trigger: opts?.trigger ?? RunTrigger.manual,
+        triggeredBy: opts?.triggeredBy ?? null,
+        triggeredById: opts?.triggeredById ?? null,
+      }
+    );
+    batchId = started.id;
+    createdHere = true;
+  }
+
+  if (!standings?.length) {
+    if (createdHere) {
+      await finishSeedBatch(batchId!, RunStatus.success, {
+        itemsTotal: 0,
+        itemsSuccess: 0,
+        itemsFailed: 0,
+        meta: { reason: "no-input" },
+      });
+    }
+    return { batchId, ok: 0, fail: 0, skipped: 0, total: 0 };
+  }
+
+  log.info({ count: standings.length }, "Starting standings seeding");
+
+  // Batch lookup seasons and teams
+  const seasonExternalIds = [
+    ...new Set(standings.map((s) => String(s.seasonExternalId))),
+  ];
+  const teamExternalIds = [
+    ...new Set(standings.map((s) => String(s.teamExternalId))),
+  ];
+  const [seasons, teams] = await Promise.all([
+    prisma.seasons.findMany({
+      where: { externalId: { in: seasonExternalIds } },
+      select: { id: true, externalId: true },
+    }),
+    prisma.teams.findMany({
+      where: { externalId: { in: teamExternalIds } },
+      select: { id: true, externalId: true },
+    }),
+  ]);
+  const seasonMap = new Map(seasons.map((s) => [s.externalId, s.id]));
+  const teamMap = new Map(teams.map((t) => [t.externalId, t.id]));
+
+  let ok = 0;
+  let fail = 0;
+  let skipped = 0;
+  const seededTeamsBySeason = new Map<number, number[]>();
+
+  try {
+    for (const group of chunk(standings, CHUNK_SIZE)) {
+      const chunkResults = await Promise.allSettled(
+        group.map(async (row) => {
+          const itemKey = `${row.seasonExternalId}:${row.teamExternalId}`;
+          const seasonId = seasonMap.get(String(row.seasonExternalId));
+          const teamId = teamMap.get(String(row.teamExternalId));
+
+          if (seasonId == null || teamId == null) {
+            await trackSeedItem(batchId!, itemKey, RunStatus.skipped, undefined, {
+              entityType: "standing",
+              name: row.teamName,
+              reason: seasonId == null ? "season-not-found" : "team-not-found",
+            });
+            return "skipped" as const;
+          }
+
+          try {
+            const payload = {
+              position: row.position,
+              points: row.points,
+              played: row.played,
+              won: row.won,
+              drawn: row.drawn,
+              lost: row.lost,
+              goalsFor: row.goalsFor,
+              goalsAgainst: row.goalsAgainst,
+              goalDifference: row.goalDifference,
+              form: row.form ? row.form.slice(0, 10) : null,
+            };
+
+            await prisma.standings.upsert({
+              where: { seasonId_teamId: { seasonId, teamId } },
+              update: { ...payload, updatedAt: new Date() },
+              create: { seasonId, teamId, ...payload },
+            });
+
+            const seeded = seededTeamsBySeason.get(seasonId) ?? [];
+            seeded.push(teamId);
+            seededTeamsBySeason.set(seasonId, seeded);
+
+            await trackSeedItem(batchId!, itemKey, RunStatus.success, undefined, {
+              entityType: "standing",
+              name: `${row.position}. ${row.teamName}`,
+              action: "upserted",
+            });
+            return "ok" as const;
+          } catch (e: unknown) {
+            const errorMessage = e instanceof Error ? e.message : String(e);
+            await trackSeedItem(
+              batchId!,
+              itemKey,
+              RunStatus.failed,
+              errorMessage.slice(0, 500),
+              {
+                entityType: "standing",
+                name: row.teamName,
+                action: "upsert_failed",
+              }
+            );
+            log.error(
+              { batchId, teamName: row.teamName, itemKey, err: e },
+              "Standing failed"
+            );
+            return "fail" as const;
+          }
+        })
+      );
+
+      for (const result of chunkResults) {
+        if (result.status === "rejected" || result.value === "fail") fail++;
+        else if (result.value === "skipped") skipped++;
+        else ok++;
+      }
+    }
+
+    // Drop rows of teams that are no longer in a season's table
+    let removed = 0;
+    for (const [seasonId, teamIds] of seededTeamsBySeason) {
+      const res = await prisma.standings.deleteMany({
+        where: { seasonId, teamId: { notIn: teamIds } },
+      });
+      removed += res.count;
+    }
+
+    if (createdHere) {
+      await finishSeedBatch(batchId!, RunStatus.success, {
+        itemsTotal: ok + fail + skipped,
+        itemsSuccess: ok + skipped,
+        itemsFailed: fail,
+        meta: { ok, fail, skipped, removed },
+      });
+    }
+
+    log.info({ batchId, ok, fail, skipped, removed }, "Standings seeding completed");
+    return { batchId, ok, fail, skipped, total: ok + fail + skipped };
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    log.error({ batchId, err: e }, "Unexpected error during standings seeding");
+    if (createdHere) {
+      await finishSeedBatch(batchId!, RunStatus.failed, {
+        itemsTotal: ok + fail + skipped,
+        itemsSuccess: ok + skipped,
+        itemsFailed: fail,
+        errorMessage: msg.slice(0, 500),
+        meta: { ok, fail, skipped },
+      });
+    }
+
+    return { batchId, ok, fail, skipped, total: ok + fail + skipped };
+  }
+}
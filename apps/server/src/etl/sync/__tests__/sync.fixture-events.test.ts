@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { FixtureEventDTO } from "@repo/types/sport-data/common";
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    fixtures: { findMany: vi.fn() },
+    teams: { findMany: vi.fn() },
+    fixtureEvents: {
+      findMany: vi.fn(),
+      upsert: vi.fn(async () => ({})),
+      deleteMany: vi.fn(async () => ({ count: 0 })),
+    },
+  },
+}));
+
+vi.mock("@repo/db", () => ({ prisma: mockPrisma }));
+
+vi.mock("../../../logger", () => ({
+  getLogger: vi.fn(() => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+import { syncFixtureEvents } from "../sync.fixture-events";
+
+function dto(overrides: Partial<FixtureEventDTO> = {}): FixtureEventDTO {
+  return {
+    externalId: 1,
+    fixtureExternalId: 9000,
+    teamExternalId: 300,
+    type: "goal",
+    minute: 10,
+    extraMinute: null,
+    playerName: "Scorer",
+    relatedPlayerName: null,
+    detail: null,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.fixtures.findMany.mockResolvedValue([
+    { id: 500, externalId: "9000" },
+  ]);
+  mockPrisma.teams.findMany.mockResolvedValue([{ id: 30, externalId: "300" }]);
+  mockPrisma.fixtureEvents.findMany.mockResolvedValue([]);
+});
+
+describe("syncFixtureEvents", () => {
+  it("upserts events by fixture and provider event id with local team ids", async () => {
+    const result = await syncFixtureEvents([dto()]);
+
+    expect(mockPrisma.fixtureEvents.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { fixtureId_externalId: { fixtureId: 500, externalId: "1" } },
+        create: expect.objectContaining({
+          fixtureId: 500,
+          externalId: "1",
+          teamId: 30,
+          type: "goal",
+        }),
+      })
+    );
+    expect(result.inserted).toBe(1);
+  });
+
+  it("reports only events stored for the first time as new", async () => {
+    mockPrisma.fixtureEvents.findMany.mockResolvedValue([
+      { fixtureId: 500, externalId: "1" },
+    ]);
+
+    const result = await syncFixtureEvents([
+      dto({ externalId: 1, minute: 10 }),
+      dto({ externalId: 2, minute: 55 }),
+    ]);
+
+    expect(result.updated).toBe(1);
+    expect(result.inserted).toBe(1);
+    expect(result.newEvents).toEqual([
+      {
+        fixtureId: 500,
+        teamId: 30,
+        type: "goal",
+        minute: 55,
+        extraMinute: null,
+        playerName: "Scorer",
+      },
+    ]);
+  });
+
+  it("orders new events by fixture and minute", async () => {
+    const result = await syncFixtureEvents([
+      dto({ externalId: 3, minute: 90, extraMinute: 4 }),
+      dto({ externalId: 2, minute: 90, extraMinute: 1 }),
+      dto({ externalId: 1, minute: 12 }),
+    ]);
+
+    expect(
+      result.newEvents.map((e) => [e.minute, e.extraMinute])
+    ).toEqual([
+      [12, null],
+      [90, 1],
+      [90, 4],
+    ]);
+  });
+
+  it("removes stored events the provider no longer reports", async () => {
+    mockPrisma.fixtureEvents.deleteMany.mockResolvedValue({ count: 1 });
+
+    const result = await syncFixtureEvents([dto({ externalId: 2 })]);
+
+    expect(mockPrisma.fixtureEvents.deleteMany).toHaveBeenCalledWith({
+      where: { fixtureId: 500, externalId: { notIn: ["2"] } },
+    });
+    expect(result.removed).toBe(1);
+  });
+
+  it("skips events of fixtures that are not in the DB and leaves their events alone", async () => {
+    const result = await syncFixtureEvents([
+      dto({ fixtureExternalId: 9999 }),
+    ]);
+
+    expect(mockPrisma.fixtureEvents.upsert).not.toHaveBeenCalled();
+    expect(mockPrisma.fixtureEvents.deleteMany).not.toHaveBeenCalled();
+    expect(result.newEvents).toEqual([]);
+  });
+
+  it("stores a null team when the team is unknown", async () => {
+    await syncFixtureEvents([dto({ teamExternalId: 999 })]);
+
+    expect(mockPrisma.fixtureEvents.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({ teamId: null }),
+      })
+    );
+  });
+
+  it("counts a failed upsert and does not report it as new", async () => {
+    mockPrisma.fixtureEvents.upsert.mockRejectedValueOnce(new Error("db"));
+
+    const result = await syncFixtureEvents([dto()]);
+
+    expect(result.failed).toBe(1);
+    expect(result.newEvents).toEqual([]);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Sync layer for fixture events (goals, cards, substitutions).
+ * Upserts by (fixture, provider event id) and reports which events are new,
+ * so callers can announce them once (chat system messages).
+ */
+import type {
+  FixtureEventDTO,
+  FixtureEventType,
+} from "@repo/types/sport-data/common";
+import { prisma } from "@repo/db";
+import { chunk } from "../utils";
+import { getLogger } from "../../logger";
+
+const log = getLogger("SyncFixtureEvents");
+const CHUNK_SIZE = 8;
+
+/** A fixture event stored for the first time in this sync. */
+export type NewFixtureEvent = {
+  fixtureId: number;
+  teamId: number | null;
+  type: FixtureEventType;
+  minute: number;
+  extraMinute: number | null;
+  playerName: string | null;
+};
+
+export type SyncFixtureEventsResult = {
+  inserted: number;
+  updated: number;
+  removed: number;
+  failed: number;
+  total: number;
+  newEvents: NewFixtureEvent[];
+};
+
+/**
+ * Upsert provider events into fixture_events.
+ * - Events of fixtures or teams that are not in the DB are skipped.
+ * - For every fixture present in the input, stored events that the provider no
+ *   longer reports (e.g. a goal cancelled by VAR) are removed.
+ */
+export async function syncFixtureEvents(
+  events: FixtureEventDTO[]
+): Promise<SyncFixtureEventsResult> {
+  const result: SyncFixtureEventsResult = {
+    inserted: 0,
+    updated: 0,
+    removed: 0,
+    failed: 0,
+    total: events.length,
+    newEvents: [],
+  };
+  if (!events.length) return result;
+
+  const fixtureExternalIds = [
+    ...new Set(events.map((e) => String(e.fixtureExternalId))),
+  ];
+  const teamExternalIds = [
+    ...new Set(
+      events
+        .map((e) => e.teamExternalId)
+        .filter((id): id is NonNullable<typeof id> => id != null)
+        .map(String)
+    ),
+  ];
+
+  const [fixtures, teams] = await Promise.all([
+    prisma.fixtures.findMany({
+      where: { externalId: { in: fixtureExternalIds } },
+      select: { id: true, externalId: true },
+    }),
+    prisma.teams.findMany({
+      where: { externalId: { in: teamExternalIds } },
+      select: { id: true, externalId: true },
+    }),
+  ]);
+  const fixtureMap = new Map(fixtures.map((f) => [f.externalId, f.id]));
+  const teamMap = new Map(teams.map((t) => [t.externalId, t.id]));
+
+  const existing = await prisma.fixtureEvents.findMany({
+    where: { fixtureId: { in: fixtures.map((f) => f.id) } },
+    select: { fixtureId: true, externalId: true },
+  });
+  const existingKeys = new Set(
+    existing.map((e) => `${e.fixtureId}:${e.externalId}`)
+  );
+
+  const seenByFixture = new Map<number, string[]>();
+
+  for (const group of chunk(events, CHUNK_SIZE)) {
+    await Promise.all(
+      group.map(async (e) => {
+        const fixtureId = fixtureMap.get(String(e.fixtureExternalId));
+        if (fixtureId == null) return;
+
+        const externalId = String(e.externalId);
+        const seen = seenByFixture.get(fixtureId) ?? [];
+        seen.push(externalId);
+        seenByFixture.set(fixtureId, seen);
+
+        const teamId =
+          e.teamExternalId != null
+            ? (teamMap.get(String(e.teamExternalId)) ?? null)
+            : null;
+        const payload = {
+          teamId,
+          type: e.type,
+          minute: e.minute,
+          extraMinute: e.extraMinute,
+          playerName: e.playerName,
+          relatedPlayerName: e.relatedPlayerName,
+          detail: e.detail,
+        };
+
+        try {
+          await prisma.fixtureEvents.upsert({
+            where: { fixtureId_externalId: { fixtureId, externalId } },
+            update: { ...payload, updatedAt: new Date() },
+            create: { fixtureId, externalId, ...payload },
+          });
+        } catch (err) {
+          result.failed++;
+          log.warn({ fixtureId, externalId, err }, "Failed to upsert fixture event");
+          return;
+        }
+
+        if (existingKeys.has(`${fixtureId}:${externalId}`)) {
+          result.updated++;
+        } else {
+          result.inserted++;
+          result.newEvents.push({
+            fixtureId,
+            teamId,
+            type: e.type,
+            minute: e.minute,
+            extraMinute: e.extraMinute,
+            playerName: e.playerName,
+          });
+        }
+      })
+    );
+  }
+
+  for (const [fixtureId, externalIds] of seenByFixture) {
+    const res = await prisma.fixtureEvents.deleteMany({
+      where: { fixtureId, externalId: { notIn: externalIds } },
+    });
+    result.removed += res.count;
+  }
+
+  result.newEvents.sort(
+    (a, b) =>
+      a.fixtureId - b.fixtureId ||
+      a.minute - b.minute ||
+      (a.extraMinute ?? 0) - (b.extraMinute ?? 0)
+  );
+
+  log.info(
+    {
+      inserted: result.inserted,
+      updated: result.updated,
+      removed: result.removed,
+      failed: result.failed,
+    },
+    "Fixture events synced"
+  );
+  return result;
+}
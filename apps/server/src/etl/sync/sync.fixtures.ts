@@ -5,6 +5,7 @@
 import type { FixtureDTO } from "@repo/types/sport-data/common";
 import type { Prisma } from "@repo/db";
 import { FixtureState, RunStatus, prisma } from "@repo/db";
+import { CANCELLED_STATES, NOT_STARTED_STATES } from "@repo/utils";
 import {
   transformFixtureDto,
   isValidFixtureStateTransition,
@@ -24,6 +25,18 @@ export type SyncFixturesResult = {
   skipped: number;
   failed: number;
   total: number;
+  /** DB ids of fixtures that got a fixtureAuditLog row (i.e. something actually changed). */
+  changedFixtureIds: number[];
+  /** DB ids of fixtures that just moved into a cancelled state (postponed, cancelled, abandoned, ...). */
+  cancelledFixtureIds: number[];
+  /** Postponed fixtures that reappeared as not started with a new kickoff. */
+  rescheduledFixtures: FixtureReschedule[];
+};
+
+export type FixtureReschedule = {
+  fixtureId: number;
+  previousStartTs: number;
+  startTs: number;
 };
 
 type ExistingRow = {
@@ -48,6 +61,7 @@ type ExistingRow = {
   round: string | null;
   leg: string | null;
   aggregateId: string | null;
+  firstScoringTeam: string | null;
 };
 
 function isSameFixture(
@@ -73,6 +87,7 @@ function isSameFixture(
     round: string | null;
     leg: string | null;
     aggregateId: string | null;
+    firstScoringTeam: string | null;
   }
 ): boolean {
   return (
@@ -95,7 +110,8 @@ function isSameFixture(
     existing.stage === payload.stage &&
     existing.round === payload.round &&
     existing.leg === payload.leg &&
-    existing.aggregateId === payload.aggregateId
+    existing.aggregateId === payload.aggregateId &&
+    existing.firstScoringTeam === payload.firstScoringTeam
   );
 }
 
@@ -120,6 +136,7 @@ type ResolvedPayload = {
   round: string | null;
   leg: string | null;
   aggregateId: string | null;
+  firstScoringTeam: string | null;
 };
 
 function toChangeVal(v: string | number | null | undefined): string {
@@ -142,6 +159,7 @@ const AUDIT_LOG_FIELDS: (keyof ResolvedPayload)[] = [
   "round",
   "leg",
   "aggregateId",
+  "firstScoringTeam",
 ];
 
 /** Build diff object for updated fixtures: only fields that changed, format "old→new". */
@@ -232,9 +250,21 @@ export async function syncFixtures(
   let skipped = 0;
   let failed = 0;
   const syncedFixtureDbIds: number[] = [];
+  const changedFixtureIds: number[] = [];
+  const cancelledFixtureIds: number[] = [];
+  const rescheduledFixtures: FixtureReschedule[] = [];
 
   if (!fixtures?.length) {
-    return { inserted: 0, updated: 0, skipped: 0, failed: 0, total: 0 };
+    return {
+      inserted: 0,
+      updated: 0,
+      skipped: 0,
+      failed: 0,
+      total: 0,
+      changedFixtureIds: [],
+      cancelledFixtureIds: [],
+      rescheduledFixtures: [],
+    };
   }
 
   // De-dupe by externalId
@@ -347,6 +377,7 @@ export async function syncFixtures(
         round: true,
         leg: true,
         aggregateId: true,
+        firstScoringTeam: true,
       },
     });
     const existingByExtId = new Map(
@@ -443,6 +474,11 @@ export async function syncFixtures(
           round: payload.round,
           leg: payload.leg,
           aggregateId: payload.aggregateId ? String(payload.aggregateId) : null,
+          // Only overwrite when the provider sent events; otherwise keep what we have
+          firstScoringTeam:
+            payload.firstScoringTeam !== undefined
+              ? payload.firstScoringTeam
+              : (existing?.firstScoringTeam ?? null),
         };
 
         // State validation: disallow invalid transitions (unless bypassed, e.g. admin sync-by-id)
@@ -504,6 +540,7 @@ export async function syncFixtures(
                   changes: insertChanges,
                 },
               });
+              changedFixtureIds.push(upserted.id);
             }
             syncedFixtureDbIds.push(upserted.id);
           }
@@ -547,6 +584,34 @@ export async function syncFixtures(
                 changes,
               },
             });
+            changedFixtureIds.push(upserted.id);
+          }
+          // Groups apply their voided-fixture policy to these (see applyVoidedFixturePolicy)
+          if (
+            !CANCELLED_STATES.has(existing.state) &&
+            CANCELLED_STATES.has(resolvedPayload.state)
+          ) {
+            cancelledFixtureIds.push(upserted.id);
+          }
+          // Back to NS with the same kickoff is a resumed postponement, not a new date
+          if (
+            existing.state === "POSTPONED" &&
+            NOT_STARTED_STATES.has(resolvedPayload.state) &&
+            resolvedPayload.startTs !== existing.startTs
+          ) {
+            log.info(
+              {
+                fixtureId: upserted.id,
+                previousStartTs: existing.startTs,
+                startTs: resolvedPayload.startTs,
+              },
+              "Postponed fixture rescheduled"
+            );
+            rescheduledFixtures.push({
+              fixtureId: upserted.id,
+              previousStartTs: existing.startTs,
+              startTs: resolvedPayload.startTs,
+            });
           }
           syncedFixtureDbIds.push(upserted.id);
         }
@@ -634,5 +699,8 @@ export async function syncFixtures(
     skipped,
     failed,
     total: inserted + updated + skipped + failed,
+    changedFixtureIds,
+    cancelledFixtureIds,
+    rescheduledFixtures,
   };
 }
@@ -161,4 +161,18 @@ describe("isValidFixtureStateTransition", () => {
       }
     );
   });
+
+  // POSTPONED → NOT_STARTED when the match is rescheduled
+  describe("from POSTPONED", () => {
+    it.each(["NS", "TBA"] as const)("POSTPONED → %s is valid", (next) => {
+      expect(isValidFixtureStateTransition("POSTPONED", next)).toBe(true);
+    });
+
+    it.each(["INPLAY_1ST_HALF", "FT", "CANCELLED"] as const)(
+      "POSTPONED → %s is INVALID",
+      (next) => {
+        expect(isValidFixtureStateTransition("POSTPONED", next)).toBe(false);
+      }
+    );
+  });
 });
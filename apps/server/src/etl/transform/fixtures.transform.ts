@@ -35,6 +35,8 @@ export type FixtureTransformResult = {
   round: string | null;
   leg: string | null;
   aggregateId: ExternalId | null;
+  /** Undefined when the provider response carried no events (keep the stored value). */
+  firstScoringTeam?: "home" | "away" | null;
   liveMinute: number | null;
 };
 
@@ -120,6 +122,7 @@ export function transformFixtureDto(dto: FixtureDTO): FixtureTransformResult {
     round: dto.round ?? null,
     leg: dto.leg ?? null,
     aggregateId: dto.aggregateId ?? null,
+    firstScoringTeam: dto.firstScoringTeam,
     liveMinute: dto.liveMinute ?? null,
   };
 }
@@ -129,6 +132,7 @@ export function transformFixtureDto(dto: FixtureDTO): FixtureTransformResult {
  * NOT_STARTED -> IN_PLAY, BREAK, CANCELLED
  * IN_PLAY -> IN_PLAY, BREAK, FINISHED, CANCELLED
  * BREAK -> IN_PLAY, BREAK, FINISHED, CANCELLED
+ * POSTPONED -> NOT_STARTED (rescheduled)
  * FINISHED / CANCELLED -> terminal (no transition)
  */
 export function isValidFixtureStateTransition(
@@ -136,6 +140,8 @@ export function isValidFixtureStateTransition(
   nextState: (typeof DbFixtureState)[keyof typeof DbFixtureState]
 ): boolean {
   if (currentState === nextState) return true;
+  if (currentState === "POSTPONED" && NOT_STARTED_STATES.has(nextState))
+    return true;
   if (FINISHED_STATES.has(currentState) || CANCELLED_STATES.has(currentState))
     return false;
   if (NOT_STARTED_STATES.has(currentState))
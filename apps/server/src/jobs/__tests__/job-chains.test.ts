@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  JOB_CHAINS,
+  findChainCycle,
+  getChainedJobKeys,
+  getEventJobKeys,
+  getJobGraph,
+  type JobChain,
+} from "../job-chains";
+import { JOB_DEFINITIONS } from "../jobs.definitions";
+
+describe("JOB_CHAINS", () => {
+  it("only references defined jobs", () => {
+    const keys = new Set<string>(JOB_DEFINITIONS.map((j) => j.key));
+    for (const chain of JOB_CHAINS) {
+      expect(keys.has(chain.jobKey)).toBe(true);
+      for (const t of chain.triggers) {
+        if (t.type === "job") expect(keys.has(t.jobKey)).toBe(true);
+      }
+    }
+  });
+
+  it("has no job-to-job cycle", () => {
+    expect(findChainCycle()).toBeNull();
+  });
+});
+
+describe("getChainedJobKeys", () => {
+  const chains: JobChain[] = [
+    {
+      jobKey: "b",
+      triggers: [{ type: "job", jobKey: "a", minRowsAffected: 1 }],
+    },
+    { jobKey: "c", triggers: [{ type: "job", jobKey: "a" }] },
+  ];
+
+  it("runs every chained job when enough rows were affected", () => {
+    expect(getChainedJobKeys("a", 5, chains)).toEqual(["b", "c"]);
+  });
+
+  it("skips chains whose minRowsAffected was not reached", () => {
+    expect(getChainedJobKeys("a", 0, chains)).toEqual(["c"]);
+  });
+
+  it("returns nothing for a job without chains", () => {
+    expect(getChainedJobKeys("b", 5, chains)).toEqual([]);
+  });
+});
+
+describe("getEventJobKeys", () => {
+  it("returns the jobs triggered by fixture.finished", () => {
+    expect(getEventJobKeys("fixture.finished")).toContain("sync-standings");
+  });
+
+  it("returns the jobs triggered by season.seeded", () => {
+    expect(getEventJobKeys("season.seeded")).toContain("sync-group-fixtures");
+  });
+});
+
+describe("getJobGraph", () => {
+  const chains: JobChain[] = [
+    {
+      jobKey: "b",
+      triggers: [
+        { type: "job", jobKey: "a", minRowsAffected: 1 },
+        { type: "event", event: "season.seeded" },
+      ],
+    },
+    { jobKey: "c", triggers: [{ type: "job", jobKey: "b" }] },
+  ];
+
+  it("lists upstream jobs and events", () => {
+    expect(getJobGraph("b", chains).upstream).toEqual([
+      { type: "job", jobKey: "a", minRowsAffected: 1 },
+      { type: "event", event: "season.seeded" },
+    ]);
+  });
+
+  it("lists downstream jobs", () => {
+    expect(getJobGraph("b", chains).downstream).toEqual([
+      { type: "job", jobKey: "c", minRowsAffected: null },
+    ]);
+  });
+});
+
+describe("findChainCycle", () => {
+  it("detects a cycle", () => {
+    const chains: JobChain[] = [
+      { jobKey: "b", triggers: [{ type: "job", jobKey: "a" }] },
+      { jobKey: "a", triggers: [{ type: "job", jobKey: "b" }] },
+    ];
+    expect(findChainCycle(chains)).toEqual(["a", "b", "a"]);
+  });
+});
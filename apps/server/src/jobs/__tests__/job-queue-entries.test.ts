@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    jobs: { findUnique: vi.fn(async () => null) },
+    jobRuns: { findFirst: vi.fn(async () => null) },
+    jobQueue: {
+      create: vi.fn(),
+      findFirst: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $queryRaw: vi.fn(),
+  },
+}));
+
+vi.mock("@repo/db", () => ({
+  prisma: mockPrisma,
+  JobQueueStatus: {
+    queued: "queued",
+    running: "running",
+    succeeded: "succeeded",
+    dead: "dead",
+  },
+  RunStatus: {},
+  Prisma: {},
+}));
+vi.mock("../jobs.registry", () => ({
+  QUEUED_TASKS: {},
+  isJobRunnable: () => true,
+}));
+
+import {
+  completeQueueEntry,
+  enqueueJob,
+  failQueueEntry,
+  type ClaimedQueueEntry,
+} from "../job-queue";
+
+const entry: ClaimedQueueEntry = {
+  id: 7,
+  jobKey: "sync-standings",
+  payload: {},
+  attempts: 1,
+  maxAttempts: 3,
+  triggeredBy: null,
+  triggeredById: null,
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("queue entry outcomes", () => {
+  it("only update the entry while this worker holds it", async () => {
+    mockPrisma.jobQueue.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(completeQueueEntry(7, "worker-1", 42)).resolves.toBe(true);
+    expect(mockPrisma.jobQueue.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 7, status: "running", lockedBy: "worker-1" },
+      })
+    );
+  });
+
+  it("leave an entry released to another worker unchanged", async () => {
+    mockPrisma.jobQueue.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(completeQueueEntry(7, "worker-1", 42)).resolves.toBe(false);
+    await expect(
+      failQueueEntry(entry, "worker-1", new Error("provider down"))
+    ).resolves.toBeNull();
+  });
+});
+
+describe("enqueueJob", () => {
+  it("inserts deduped entries with ON CONFLICT", async () => {
+    mockPrisma.jobQueue.findFirst.mockResolvedValue(null);
+    mockPrisma.$queryRaw.mockResolvedValue([{ id: 11 }]);
+
+    await expect(
+      enqueueJob({ jobKey: "sync-standings", dedupe: true })
+    ).resolves.toEqual({ id: 11, created: true });
+    expect(mockPrisma.jobQueue.create).not.toHaveBeenCalled();
+  });
+
+  it("returns the entry of a concurrent deduped enqueue", async () => {
+    mockPrisma.jobQueue.findFirst
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ id: 10 });
+    mockPrisma.$queryRaw.mockResolvedValue([]);
+
+    await expect(
+      enqueueJob({ jobKey: "sync-standings", dedupe: true })
+    ).resolves.toEqual({ id: 10, created: false });
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { queue, runner, task } = vi.hoisted(() => ({
+  queue: {
+    completeQueueEntry: vi.fn(),
+    deferQueueEntry: vi.fn(),
+    failQueueEntry: vi.fn(),
+    heartbeatQueueEntry: vi.fn(),
+  },
+  runner: vi.fn(),
+  task: vi.fn(),
+}));
+
+vi.mock("@repo/db", () => ({ prisma: {}, RunTrigger: { auto: "auto" } }));
+vi.mock("../job-queue", () => ({
+  ...queue,
+  claimNextQueueEntry: vi.fn(),
+  releaseStaleQueueEntries: vi.fn(),
+  QUEUE_HEARTBEAT_INTERVAL_MS: 60_000,
+}));
+vi.mock("../jobs.registry", () => ({
+  QUEUED_TASKS: { "seed-season": { run: task } },
+  getJobRunner: (key: string) => (key === "sync-standings" ? runner : null),
+}));
+vi.mock("../../utils/advisory-lock", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("../../utils/advisory-lock")>();
+  return {
+    ...actual,
+    withAdvisoryLock: (_key: string, fn: (signal: AbortSignal) => unknown) =>
+      fn(new AbortController().signal),
+  };
+});
+
+import {
+  DEFAULT_JOB_QUEUE_POLICY,
+  getJobQueuePolicy,
+  getRetryDelayMs,
+  isJobQueueMeta,
+} from "../jobs.meta";
+import { processQueueEntry } from "../jobs.worker";
+import type { ClaimedQueueEntry } from "../job-queue";
+import { AdvisoryLockNotAcquiredError } from "../../utils/advisory-lock";
+import type { FastifyInstance } from "fastify";
+
+const fastify = {} as FastifyInstance;
+
+function entry(overrides: Partial<ClaimedQueueEntry> = {}): ClaimedQueueEntry {
+  return {
+    id: 7,
+    jobKey: "sync-standings",
+    payload: {},
+    attempts: 1,
+    maxAttempts: 3,
+    triggeredBy: null,
+    triggeredById: null,
+    ...overrides,
+  };
+}
+
+describe("isJobQueueMeta", () => {
+  it("accepts partial settings", () => {
+    expect(isJobQueueMeta({})).toBe(true);
+    expect(isJobQueueMeta({ maxAttempts: 5, priority: -10 })).toBe(true);
+  });
+
+  it("rejects out-of-range or non-numeric values", () => {
+    expect(isJobQueueMeta({ maxAttempts: 0 })).toBe(false);
+    expect(isJobQueueMeta({ backoffMultiplier: 0.5 })).toBe(false);
+    expect(isJobQueueMeta({ priority: "high" })).toBe(false);
+    expect(isJobQueueMeta([])).toBe(false);
+  });
+});
+
+describe("getJobQueuePolicy", () => {
+  it("uses the defaults when meta has no queue settings", () => {
+    expect(getJobQueuePolicy({ daysAhead: 3 })).toEqual(
+      DEFAULT_JOB_QUEUE_POLICY
+    );
+    expect(getJobQueuePolicy(null)).toEqual(DEFAULT_JOB_QUEUE_POLICY);
+  });
+
+  it("overrides the defaults field by field", () => {
+    expect(
+      getJobQueuePolicy({ queue: { maxAttempts: 1, priority: 5 } })
+    ).toEqual({ ...DEFAULT_JOB_QUEUE_POLICY, maxAttempts: 1, priority: 5 });
+  });
+
+  it("ignores invalid queue settings", () => {
+    expect(getJobQueuePolicy({ queue: { maxAttempts: 100 } })).toEqual(
+      DEFAULT_JOB_QUEUE_POLICY
+    );
+  });
+});
+
+describe("getRetryDelayMs", () => {
+  it("grows exponentially with the attempt", () => {
+    const policy = { backoffSeconds: 30, backoffMultiplier: 2 };
+    expect(getRetryDelayMs(policy, 1)).toBe(30_000);
+    expect(getRetryDelayMs(policy, 2)).toBe(60_000);
+    expect(getRetryDelayMs(policy, 3)).toBe(120_000);
+  });
+
+  it("keeps a fixed delay with multiplier 1", () => {
+    const policy = { backoffSeconds: 10, backoffMultiplier: 1 };
+    expect(getRetryDelayMs(policy, 4)).toBe(10_000);
+  });
+});
+
+describe("processQueueEntry", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    for (const fn of Object.values(queue)) fn.mockResolvedValue(true);
+  });
+
+  it("completes the entry with the run id on success", async () => {
+    runner.mockResolvedValue({ jobRunId: 42 });
+    await processQueueEntry(fastify, entry(), "worker-1");
+
+    expect(runner).toHaveBeenCalledWith(
+      fastify,
+      expect.objectContaining({
+        meta: expect.objectContaining({ queueId: 7, attempt: 1 }),
+      })
+    );
+    expect(queue.completeQueueEntry).toHaveBeenCalledWith(7, "worker-1", 42);
+  });
+
+  it("records a failed attempt", async () => {
+    const err = new Error("provider down");
+    runner.mockRejectedValue(err);
+    await processQueueEntry(fastify, entry(), "worker-1");
+
+    expect(queue.failQueueEntry).toHaveBeenCalledWith(entry(), "worker-1", err);
+    expect(queue.completeQueueEntry).not.toHaveBeenCalled();
+  });
+
+  it("defers the entry when the job's lock is busy", async () => {
+    runner.mockRejectedValue(
+      new AdvisoryLockNotAcquiredError("sync:standings")
+    );
+    await processQueueEntry(fastify, entry(), "worker-1");
+
+    expect(queue.deferQueueEntry).toHaveBeenCalledWith(
+      entry(),
+      "worker-1",
+      30_000
+    );
+    expect(queue.failQueueEntry).not.toHaveBeenCalled();
+  });
+
+  it("dead-letters entries without a runner", async () => {
+    await processQueueEntry(fastify, entry({ jobKey: "unknown" }), "worker-1");
+
+    expect(queue.failQueueEntry).toHaveBeenCalledWith(
+      entry({ jobKey: "unknown" }),
+      "worker-1",
+      expect.any(Error),
+      { retry: false }
+    );
+  });
+
+  it("refreshes the heartbeat while the run is in progress", async () => {
+    vi.useFakeTimers();
+    try {
+      queue.heartbeatQueueEntry.mockResolvedValue(true);
+      let finish: (value: { jobRunId: number }) => void = () => {};
+      runner.mockReturnValue(new Promise((resolve) => (finish = resolve)));
+
+      const done = processQueueEntry(fastify, entry(), "worker-1");
+      await vi.advanceTimersByTimeAsync(150_000);
+      expect(queue.heartbeatQueueEntry).toHaveBeenCalledTimes(2);
+      expect(queue.heartbeatQueueEntry).toHaveBeenCalledWith(7, "worker-1");
+
+      finish({ jobRunId: 42 });
+      await done;
+      await vi.advanceTimersByTimeAsync(120_000);
+      expect(queue.heartbeatQueueEntry).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("runs queued tasks with their payload", async () => {
+    const payload = { seasonExternalId: 123 };
+    await processQueueEntry(
+      fastify,
+      entry({ jobKey: "seed-season", payload }),
+      "worker-1"
+    );
+
+    expect(task).toHaveBeenCalledWith(fastify, payload);
+    expect(queue.completeQueueEntry).toHaveBeenCalledWith(7, "worker-1", null);
+  });
+});
@@ -11,7 +11,10 @@ import { createBatchForJob, getJobRowOrThrow } from "../jobs.db";
 import { clampInt, getMeta, isFinishedFixturesJobMeta } from "../jobs.meta";
 import { runJob } from "../run-job";
 import { settlePredictionsForFixtures } from "../../services/api/groups/service/settlement";
+import { crossCheckBeforeSettlement } from "../../services/admin/fixture-issues-detector.service";
 import { emitFixtureFTEvents } from "../../services/api/groups/service/chat-events";
+import { freezeGroupFixtureOdds } from "../../services/api/groups/service/odds-freeze";
+import { emitJobEvent } from "../job-triggers";
 
 /**
  * finished-fixtures job
@@ -221,9 +224,24 @@ export async function runFinishedFixturesJob(
           select: { id: true },
         });
 
+        // Freeze kickoff odds a live run missed, before settlement scores with them
+        try {
+          await freezeGroupFixtureOdds(ftFixtures.map((f) => f.id));
+        } catch (err) {
+          log.error(
+            { err, count: ftFixtures.length },
+            "Failed to freeze kickoff odds"
+          );
+        }
+
+        // Fixtures the fallback provider disagrees on are held for an admin
+        const settleable = await crossCheckBeforeSettlement(
+          ftFixtures.map((f) => f.id)
+        );
         const settlement = await settlePredictionsForFixtures(
-          ftFixtures.map((f) => f.id),
-          fastify.io
+          settleable,
+          fastify.io,
+          { jobRunId }
         );
 
         // Emit fixture_ft chat events for affected groups
@@ -239,6 +257,9 @@ export async function runFinishedFixturesJob(
             },
           });
           await emitFixtureFTEvents(ftFixturesWithTeams, fastify.io);
+          emitJobEvent("fixture.finished", {
+            fixtureCount: ftFixtures.length,
+          });
         }
 
         return {
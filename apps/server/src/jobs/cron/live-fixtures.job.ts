@@ -3,8 +3,16 @@ import { RunStatus, prisma, FixtureState } from "@repo/db";
 import { NOT_STARTED_STATES, LIVE_STATES } from "@repo/utils";
 import { adapter } from "../../utils/adapter";
 import { syncFixtures } from "../../etl/sync/sync.fixtures";
+import { applyVoidedFixturePolicy } from "../../services/api/groups/service/voided-fixtures";
+import {
+  syncFixtureEvents,
+  type NewFixtureEvent,
+} from "../../etl/sync/sync.fixture-events";
 import { finishSeedBatch } from "../../etl/seeds/seed.utils";
 import { emitFixtureLiveEvents } from "../../services/api/groups/service/chat-events";
+import { freezeGroupFixtureOdds } from "../../services/api/groups/service/odds-freeze";
+import { emitFixtureUpdates } from "../../services/api/groups/service/live-updates";
+import { invalidateLiveRankingCache } from "../../lib/cache-invalidation";
 import type { JobRunOpts, StandardJobRunStats } from "../../types/jobs";
 import { LIVE_FIXTURES_JOB } from "../jobs.definitions";
 import { createBatchForJob } from "../jobs.db";
@@ -18,7 +26,11 @@ import { runJob } from "../run-job";
  * What it does:
  * - Fetch live fixtures from sports-data provider (livescores/inplay endpoint)
  * - Upsert them into our DB using the existing fixtures seeder (Prisma upsert)
- * - Emit NS→LIVE chat events
+ * - Upsert match events (goals, cards, substitutions) into fixture_events
+ * - Freeze 1X2 odds on group fixtures of started fixtures not frozen yet (odds-aware scoring)
+ * - Emit NS→LIVE and new goal / red card chat events
+ * - Push fixture:update (score + group live-points projection) for every fixture
+ *   whose sync wrote a fixtureAuditLog row, and drop those groups' live rankings
  * - Track execution in `job_runs`
  *
  * Notes:
@@ -94,6 +106,7 @@ export async function runLiveFixturesJob(
         updated: 0,
         skipped: 0,
       };
+      let eventsMeta = { eventsFetched: 0, eventsInserted: 0, eventsRemoved: 0 };
 
       if (fixtures.length > 0) {
         try {
@@ -122,6 +135,20 @@ export async function runLiveFixturesJob(
             batchId,
             jobRunId,
           });
+          // Abandoned / suspended matches: void or follow per group policy
+          // Logged only, so a failure does not fail the sync or leave the batch open
+          try {
+            await applyVoidedFixturePolicy(result, fastify.io);
+          } catch (err) {
+            log.error(
+              {
+                err,
+                cancelled: result.cancelledFixtureIds.length,
+                rescheduled: result.rescheduledFixtures.length,
+              },
+              "Failed to apply voided fixture policy"
+            );
+          }
 
           const ok = result.inserted + result.updated;
           liveSyncMeta = {
@@ -163,36 +190,91 @@ export async function runLiveFixturesJob(
             );
           }
 
-          // --- Step 6: Emit fixture_live chat events for fixtures that transitioned NS → LIVE ---
-          if (nsFixtureIds.size > 0) {
-            const nowLive = await prisma.fixtures.findMany({
-              where: {
-                id: { in: Array.from(nsFixtureIds) },
-                state: { in: [...LIVE_STATES] as FixtureState[] },
-              },
-              select: {
-                id: true,
-                homeTeam: { select: { name: true } },
-                awayTeam: { select: { name: true } },
-              },
+          // --- Step 5c: Sync match events (goals, cards, substitutions) ---
+          let newMatchEvents: NewFixtureEvent[] = [];
+          try {
+            const events = await adapter.fetchFixtureEvents(fetchedExternalIds);
+            const eventsResult = await syncFixtureEvents(events);
+            newMatchEvents = eventsResult.newEvents;
+            eventsMeta = {
+              eventsFetched: events.length,
+              eventsInserted: eventsResult.inserted,
+              eventsRemoved: eventsResult.removed,
+            };
+          } catch (err) {
+            log.error(
+              { err, count: fetchedExternalIds.length },
+              "Failed to sync fixture events"
+            );
+          }
+
+          // --- Step 5d: Freeze kickoff odds for groups with odds-aware scoring ---
+          // Every fetched fixture, not only NS → LIVE ones, so a missed kickoff is caught up.
+          try {
+            const syncedFixtures = await prisma.fixtures.findMany({
+              where: { externalId: { in: fetchedExternalIds } },
+              select: { id: true },
             });
+            await freezeGroupFixtureOdds(syncedFixtures.map((f) => f.id));
+          } catch (err) {
+            log.error(
+              { err, count: fetchedExternalIds.length },
+              "Failed to freeze kickoff odds"
+            );
+          }
+
+          // --- Step 6: Emit chat events: NS → LIVE kickoffs and new match events ---
+          const nowLive =
+            nsFixtureIds.size > 0
+              ? await prisma.fixtures.findMany({
+                  where: {
+                    id: { in: Array.from(nsFixtureIds) },
+                    state: { in: [...LIVE_STATES] as FixtureState[] },
+                  },
+                  select: {
+                    id: true,
+                    homeTeam: { select: { name: true } },
+                    awayTeam: { select: { name: true } },
+                  },
+                })
+              : [];
+
+          if (nowLive.length > 0 || newMatchEvents.length > 0) {
+            try {
+              await emitFixtureLiveEvents(
+                nowLive as {
+                  id: number;
+                  homeTeam: { name: string } | null;
+                  awayTeam: { name: string } | null;
+                }[],
+                fastify.io,
+                newMatchEvents
+              );
+            } catch (err) {
+              log.error(
+                { err, count: nowLive.length, events: newMatchEvents.length },
+                "Failed to emit fixture_live events"
+              );
+            }
+          }
 
-            if (nowLive.length > 0) {
-              try {
-                await emitFixtureLiveEvents(
-                  nowLive as {
-                    id: number;
-                    homeTeam: { name: string } | null;
-                    awayTeam: { name: string } | null;
-                  }[],
-                  fastify.io
-                );
-              } catch (err) {
-                log.error(
-                  { err, count: nowLive.length },
-                  "Failed to emit fixture_live events"
-                );
-              }
+          // --- Step 7: Drop stale live rankings and push score updates to fixture rooms ---
+          if (result.changedFixtureIds.length > 0) {
+            try {
+              const changedGroups = await prisma.groupFixtures.findMany({
+                where: { fixtureId: { in: result.changedFixtureIds } },
+                select: { groupId: true },
+                distinct: ["groupId"],
+              });
+              await invalidateLiveRankingCache(
+                changedGroups.map((g) => g.groupId)
+              );
+              await emitFixtureUpdates(result.changedFixtureIds, fastify.io);
+            } catch (err) {
+              log.error(
+                { err, count: result.changedFixtureIds.length },
+                "Failed to emit fixture:update events"
+              );
             }
           }
         } catch (err) {
@@ -219,6 +301,7 @@ export async function runLiveFixturesJob(
         meta: {
           batchId,
           ...liveSyncMeta,
+          ...eventsMeta,
           ...(opts.meta ?? {}),
         },
       };
@@ -12,8 +12,9 @@
  * 1. Find fixtures: state=NS, startTs < now - graceMinutes, startTs > now - maxOverdueHours
  * 2. Fetch current state from provider by externalId (no state filter)
  * 3. Sync to DB (updates state, scores)
- * 4. If finished (FT/AET/FT_PEN) → settle predictions
- * 5. Emit appropriate chat events (live/ft)
+ * 4. Freeze kickoff odds on group fixtures of started fixtures (odds-aware scoring)
+ * 5. If finished (FT/AET/FT_PEN) → settle predictions
+ * 6. Emit appropriate chat events (live/ft)
  */
 
 import type { FastifyInstance } from "fastify";
@@ -22,14 +23,17 @@ import { adapter } from "../../utils/adapter";
 import { RunStatus, prisma } from "@repo/db";
 import type { FixtureState } from "@repo/db";
 import { syncFixtures } from "../../etl/sync/sync.fixtures";
+import { applyVoidedFixturePolicy } from "../../services/api/groups/service/voided-fixtures";
 import { finishSeedBatch } from "../../etl/seeds/seed.utils";
 import { chunk } from "../../etl/utils";
 import { JobRunOpts } from "../../types/jobs";
 import { settlePredictionsForFixtures } from "../../services/api/groups/service/settlement";
+import { crossCheckBeforeSettlement } from "../../services/admin/fixture-issues-detector.service";
 import {
   emitFixtureLiveEvents,
   emitFixtureFTEvents,
 } from "../../services/api/groups/service/chat-events";
+import { freezeGroupFixtureOdds } from "../../services/api/groups/service/odds-freeze";
 import { RECOVERY_OVERDUE_FIXTURES_JOB } from "../jobs.definitions";
 import { createBatchForJob, getJobRowOrThrow } from "../jobs.db";
 import {
@@ -38,6 +42,7 @@ import {
   isRecoveryOverdueFixturesJobMeta,
 } from "../jobs.meta";
 import { runJob } from "../run-job";
+import { emitJobEvent } from "../job-triggers";
 
 export const recoveryOverdueFixturesJob = RECOVERY_OVERDUE_FIXTURES_JOB;
 
@@ -216,6 +221,20 @@ export async function runRecoveryOverdueFixturesJob(
           jobRunId,
           bypassStateValidation: true,
         });
+        // Overdue fixtures that turned out postponed or cancelled
+        // Logged only, so a failure does not fail the sync or leave the batch open
+        try {
+          await applyVoidedFixturePolicy(result, fastify.io);
+        } catch (err) {
+          log.error(
+            {
+              err,
+              cancelled: result.cancelledFixtureIds.length,
+              rescheduled: result.rescheduledFixtures.length,
+            },
+            "Failed to apply voided fixture policy"
+          );
+        }
 
         const updated = result.updated;
         const ok = result.inserted + result.updated;
@@ -263,6 +282,20 @@ export async function runRecoveryOverdueFixturesJob(
           });
         }
 
+        // Freeze kickoff odds for recovered fixtures (now live or already finished)
+        try {
+          await freezeGroupFixtureOdds(
+            candidates
+              .filter((c) => fetchedExternalIdSet.has(String(c.externalId)))
+              .map((c) => c.id)
+          );
+        } catch (err) {
+          log.error(
+            { err, count: fetched.length },
+            "Failed to freeze kickoff odds"
+          );
+        }
+
         // Find fixtures that transitioned NS → LIVE
         const nowLive = await prisma.fixtures.findMany({
           where: {
@@ -307,9 +340,14 @@ export async function runRecoveryOverdueFixturesJob(
 
         let settled = 0;
         if (ftFixtures.length > 0) {
+          // Fixtures the fallback provider disagrees on are held for an admin
+          const settleable = await crossCheckBeforeSettlement(
+            ftFixtures.map((f) => f.id)
+          );
           const settlement = await settlePredictionsForFixtures(
-            ftFixtures.map((f) => f.id),
-            fastify.io
+            settleable,
+            fastify.io,
+            { jobRunId }
           );
           settled = settlement.settled;
 
@@ -324,6 +362,9 @@ export async function runRecoveryOverdueFixturesJob(
             },
           });
           await emitFixtureFTEvents(ftFixturesWithTeams, fastify.io);
+          emitJobEvent("fixture.finished", {
+            fixtureCount: ftFixtures.length,
+          });
         }
 
         return {
@@ -0,0 +1,82 @@
+/**
+ * sync-provider-mappings job
+ * --------------------------
+ * Goal: keep `provider_mappings` filled for the failover provider, so failover
+ * reads and the final-score cross-check can translate IDs.
+ *
+ * What it does:
+ * - Nothing when no fallback provider is configured
+ * - Match countries, leagues and current seasons of both providers
+ * - Match the teams of every season with isCurrent = true
+ * - Store the one-to-one matches; existing mappings are never overwritten
+ *
+ * Fixture mappings are not synced here: they are learned on demand by
+ * matching teams and kickoff.
+ */
+
+import type { FastifyInstance } from "fastify";
+import { prisma } from "@repo/db";
+import type { MappingSyncResult } from "@repo/sports-data";
+import { compositeAdapter } from "../../utils/adapter";
+import { JobRunOpts } from "../../types/jobs";
+import { SYNC_PROVIDER_MAPPINGS_JOB } from "../jobs.definitions";
+import { getJobRowOrThrow } from "../jobs.db";
+import { runJob } from "../run-job";
+
+export const syncProviderMappingsJob = SYNC_PROVIDER_MAPPINGS_JOB;
+
+type SyncProviderMappingsResult = {
+  jobRunId: number | null;
+  seasons: number;
+  mappings: MappingSyncResult | null;
+  skipped: boolean;
+};
+
+export async function runSyncProviderMappingsJob(
+  fastify: FastifyInstance,
+  opts: JobRunOpts = {}
+) {
+  const jobRow = await getJobRowOrThrow(syncProviderMappingsJob.key);
+
+  return runJob<SyncProviderMappingsResult>({
+    jobKey: syncProviderMappingsJob.key,
+    loggerName: "SyncProviderMappingsJob",
+    opts,
+    jobRow,
+    meta: {},
+    skippedResult: (jobRunId) => ({
+      jobRunId,
+      seasons: 0,
+      mappings: null,
+      skipped: true,
+    }),
+    run: async ({ jobRunId, log }) => {
+      if (!compositeAdapter || opts.dryRun) {
+        return {
+          result: { jobRunId, seasons: 0, mappings: null, skipped: false },
+          rowsAffected: 0,
+          meta: {
+            dryRun: !!opts.dryRun,
+            ...(!compositeAdapter && { reason: "no-fallback-provider" }),
+          },
+        };
+      }
+
+      const seasons = await prisma.seasons.findMany({
+        where: { isCurrent: true },
+        select: { externalId: true },
+      });
+      const mappings = await compositeAdapter.syncMappings(
+        seasons.map((s) => s.externalId)
+      );
+      const saved = Object.values(mappings).reduce((n, c) => n + c.saved, 0);
+      log.info({ seasons: seasons.length, saved }, "Provider mappings synced");
+
+      return {
+        result: { jobRunId, seasons: seasons.length, mappings, skipped: false },
+        rowsAffected: saved,
+        meta: { dryRun: false, seasons: seasons.length, ...mappings },
+      };
+    },
+  });
+}
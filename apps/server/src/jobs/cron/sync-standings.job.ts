@@ -0,0 +1,154 @@
+/**
+ * sync-standings job
+ * ------------------
+ * Goal: keep the `standings` table populated for every current season.
+ *
+ * What it does:
+ * - Fetch standings from the provider for each season with isCurrent = true
+ * - Upsert them through the standings seeder into one batch (per-item tracking in seed_items)
+ * - A season that fails to fetch is logged and skipped; the rest still sync
+ *
+ * The standings API reads from this table and only falls back to a recompute
+ * from finished fixtures when a season has no rows yet.
+ */
+
+import type { FastifyInstance } from "fastify";
+import { RunStatus, prisma } from "@repo/db";
+import type { StandingDTO } from "@repo/types/sport-data/common";
+import { adapter } from "../../utils/adapter";
+import { seedStandings } from "../../etl/seeds/seed.standings";
+import { finishSeedBatch } from "../../etl/seeds/seed.utils";
+import { JobRunOpts } from "../../types/jobs";
+import { SYNC_STANDINGS_JOB } from "../jobs.definitions";
+import { createBatchForJob, getJobRowOrThrow } from "../jobs.db";
+import { runJob } from "../run-job";
+
+export const syncStandingsJob = SYNC_STANDINGS_JOB;
+
+type SyncStandingsResult = {
+  jobRunId: number | null;
+  batchId: number | null;
+  seasons: number;
+  fetched: number;
+  ok: number;
+  fail: number;
+  skipped: boolean;
+};
+
+export async function runSyncStandingsJob(
+  fastify: FastifyInstance,
+  opts: JobRunOpts = {}
+) {
+  const jobRow = await getJobRowOrThrow(syncStandingsJob.key);
+
+  return runJob<SyncStandingsResult>({
+    jobKey: syncStandingsJob.key,
+    loggerName: "SyncStandingsJob",
+    opts,
+    jobRow,
+    meta: {},
+    skippedResult: (jobRunId) => ({
+      jobRunId,
+      batchId: null,
+      seasons: 0,
+      fetched: 0,
+      ok: 0,
+      fail: 0,
+      skipped: true,
+    }),
+    run: async ({ jobRunId, log }) => {
+      const seasons = await prisma.seasons.findMany({
+        where: { isCurrent: true },
+        select: { id: true, externalId: true, name: true },
+      });
+
+      const fetched: StandingDTO[] = [];
+      const failedSeasons: string[] = [];
+      for (const season of seasons) {
+        try {
+          const rows = await adapter.fetchStandingsBySeason(season.externalId);
+          fetched.push(...rows);
+        } catch (err) {
+          failedSeasons.push(season.externalId);
+          log.warn(
+            { err, seasonId: season.id, seasonName: season.name },
+            "Failed to fetch standings for season"
+          );
+        }
+      }
+
+      if (opts.dryRun || fetched.length === 0) {
+        return {
+          result: {
+            jobRunId,
+            batchId: null,
+            seasons: seasons.length,
+            fetched: fetched.length,
+            ok: 0,
+            fail: 0,
+            skipped: false,
+          },
+          rowsAffected: 0,
+          meta: {
+            dryRun: !!opts.dryRun,
+            seasons: seasons.length,
+            countFetched: fetched.length,
+            failedSeasons,
+            ...(fetched.length === 0 && { reason: "no-standings" }),
+          },
+        };
+      }
+
+      let batchId: number | null = null;
+      try {
+        const batch = await createBatchForJob(syncStandingsJob.key, jobRunId);
+        batchId = batch.id;
+
+        const result = await seedStandings(fetched, { batchId });
+
+        await finishSeedBatch(batchId, RunStatus.success, {
+          itemsTotal: result.total,
+          itemsSuccess: result.ok + result.skipped,
+          itemsFailed: result.fail,
+          meta: {
+            seasons: seasons.length,
+            ok: result.ok,
+            fail: result.fail,
+            skipped: result.skipped,
+            failedSeasons,
+          },
+        });
+
+        return {
+          result: {
+            jobRunId,
+            batchId,
+            seasons: seasons.length,
+            fetched: fetched.length,
+            ok: result.ok,
+            fail: result.fail,
+            skipped: false,
+          },
+          rowsAffected: result.ok,
+          meta: {
+            batchId,
+            dryRun: false,
+            seasons: seasons.length,
+            countFetched: fetched.length,
+            ok: result.ok,
+            fail: result.fail,
+            skipped: result.skipped,
+            failedSeasons,
+          },
+        };
+      } catch (err) {
+        if (batchId != null) {
+          await finishSeedBatch(batchId, RunStatus.failed, {
+            errorMessage: err instanceof Error ? err.message : String(err),
+          });
+        }
+        throw err;
+      }
+    },
+  });
+}
@@ -3,6 +3,10 @@ import { addDays, format } from "date-fns";
 import { RunStatus } from "@repo/db";
 import { adapter } from "../../utils/adapter";
 import { syncFixtures } from "../../etl/sync/sync.fixtures";
+import {
+  applyVoidedFixturePolicy,
+  voidExpiredPostponements,
+} from "../../services/api/groups/service/voided-fixtures";
 import { finishSeedBatch } from "../../etl/seeds/seed.utils";
 import { JobRunOpts, type StandardJobRunStats } from "../../types/jobs";
 import { UPCOMING_FIXTURES_JOB } from "../jobs.definitions";
@@ -158,6 +162,10 @@ export async function runUpcomingFixturesJob(
           batchId,
           jobRunId,
         });
+        // Postponements and reschedules: void or follow per group policy,
+        // then void postponements whose follow window ran out
+        const policy = await applyVoidedFixturePolicy(result, fastify.io);
+        const expired = await voidExpiredPostponements(fastify.io);
         const ok = result.inserted + result.updated;
 
         await finishSeedBatch(batchId, RunStatus.success, {
@@ -199,6 +207,8 @@ export async function runUpcomingFixturesJob(
             inserted: result.inserted,
             updated: result.updated,
             skipped: result.skipped,
+            voided: policy.voided + expired.voided,
+            followed: policy.followed,
           },
         };
       } catch (err) {
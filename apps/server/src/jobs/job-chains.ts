@@ -0,0 +1,197 @@
+/**
+ * Job chains
+ * ----------
+ * Declarative "on success of X, run Y" dependencies and domain-event triggers.
+ *
+ * Why it exists:
+ * - Jobs are scheduled as independent crons. When one of them changes data another
+ *   job depends on (e.g. finished-fixtures finishing matches), the dependent job
+ *   would otherwise wait for its own schedule.
+ *
+ * Rules:
+ * - A chain runs the target after a successful, non-dry run of the upstream job.
+ *   With `minRowsAffected`, only when the upstream run touched at least that many rows.
+ * - An event trigger runs the target when the domain event is emitted (see job-triggers.ts).
+ * - Chained runs are queued in the durable job queue (job-queue.ts) and still take the
+ *   target's advisory lock (job-lock-keys.ts), so they never overlap a cron/admin/CLI run of
+ *   the same operation; when the lock is busy the worker defers the entry and retries it.
+ * - Crons keep running as before; chains only make the dependent job run sooner.
+ *
+ * Not chained: settlement, badge evaluation, bracket advancement and ranking refresh are
+ * not separate jobs. finished-fixtures and recovery-overdue-fixtures run them in the same
+ * run via settlePredictionsForFixtures (settle → badges for ended official groups →
+ * brackets → round winners → ranking caches), so they follow every finished match
+ * without a chain and without waiting in the queue behind a busy lock.
+ */
+
+import {
+  DETECT_FIXTURE_ISSUES_JOB,
+  FINISHED_FIXTURES_JOB,
+  RECOVERY_OVERDUE_FIXTURES_JOB,
+  SYNC_GROUP_FIXTURES_JOB,
+  SYNC_STANDINGS_JOB,
+  UPCOMING_FIXTURES_JOB,
+} from "./jobs.definitions";
+
+/**
+ * Domain events that can trigger jobs.
+ * - fixture.finished: one or more fixtures entered FINISHED_STATES (emitted where they
+ *   get settled, so it fires for recovered fixtures too and only when a match really ended).
+ * - season.seeded: a season (and its fixtures) was seeded into the DB.
+ */
+export const JOB_EVENTS = ["fixture.finished", "season.seeded"] as const;
+
+export type JobEvent = (typeof JOB_EVENTS)[number];
+
+export type JobChainTrigger =
+  | { type: "job"; jobKey: string; minRowsAffected?: number }
+  | { type: "event"; event: JobEvent };
+
+export type JobChain = {
+  /** Job to run. */
+  jobKey: string;
+  /** Any of these triggers runs the job. */
+  triggers: JobChainTrigger[];
+};
+
+/** Chained runs stop after this many hops so a misconfigured cycle can't loop. */
+export const MAX_CHAIN_DEPTH = 3;
+
+/**
+ * JOB_CHAINS
+ * ----------
+ * Single source of truth for job dependencies and event triggers.
+ */
+export const JOB_CHAINS: JobChain[] = [
+  {
+    // New fixtures in the DB should reach leagues/teams groups right away
+    jobKey: SYNC_GROUP_FIXTURES_JOB.key,
+    triggers: [
+      { type: "job", jobKey: UPCOMING_FIXTURES_JOB.key, minRowsAffected: 1 },
+      { type: "event", event: "season.seeded" },
+    ],
+  },
+  {
+    // Finished matches change the table
+    jobKey: SYNC_STANDINGS_JOB.key,
+    triggers: [{ type: "event", event: "fixture.finished" }],
+  },
+  {
+    // Re-check issues (noScores, unsettled, …) once fixtures were corrected
+    jobKey: DETECT_FIXTURE_ISSUES_JOB.key,
+    triggers: [
+      { type: "job", jobKey: FINISHED_FIXTURES_JOB.key, minRowsAffected: 1 },
+      {
+        type: "job",
+        jobKey: RECOVERY_OVERDUE_FIXTURES_JOB.key,
+        minRowsAffected: 1,
+      },
+    ],
+  },
+];
+
+/**
+ * Jobs to run after a successful run of `jobKey` that affected `rowsAffected` rows.
+ */
+export function getChainedJobKeys(
+  jobKey: string,
+  rowsAffected: number,
+  chains: JobChain[] = JOB_CHAINS
+): string[] {
+  return chains
+    .filter((chain) =>
+      chain.triggers.some(
+        (t) =>
+          t.type === "job" &&
+          t.jobKey === jobKey &&
+          rowsAffected >= (t.minRowsAffected ?? 0)
+      )
+    )
+    .map((chain) => chain.jobKey);
+}
+
+/**
+ * Jobs triggered by a domain event.
+ */
+export function getEventJobKeys(
+  event: JobEvent,
+  chains: JobChain[] = JOB_CHAINS
+): string[] {
+  return chains
+    .filter((chain) =>
+      chain.triggers.some((t) => t.type === "event" && t.event === event)
+    )
+    .map((chain) => chain.jobKey);
+}
+
+export type JobGraphEdge =
+  | { type: "job"; jobKey: string; minRowsAffected: number | null }
+  | { type: "event"; event: JobEvent };
+
+/**
+ * What triggers a job (upstream jobs and events) and which jobs it triggers (downstream).
+ */
+export function getJobGraph(
+  jobKey: string,
+  chains: JobChain[] = JOB_CHAINS
+): { upstream: JobGraphEdge[]; downstream: JobGraphEdge[] } {
+  const upstream: JobGraphEdge[] = chains
+    .filter((chain) => chain.jobKey === jobKey)
+    .flatMap((chain) =>
+      chain.triggers.map(
+        (t): JobGraphEdge =>
+          t.type === "job"
+            ? {
+                type: "job",
+                jobKey: t.jobKey,
+                minRowsAffected: t.minRowsAffected ?? null,
+              }
+            : t
+      )
+    );
+  const downstream: JobGraphEdge[] = chains.flatMap((chain) =>
+    chain.triggers.flatMap((t): JobGraphEdge[] =>
+      t.type === "job" && t.jobKey === jobKey
+        ? [
+            {
+              type: "job",
+              jobKey: chain.jobKey,
+              minRowsAffected: t.minRowsAffected ?? null,
+            },
+          ]
+        : []
+    )
+  );
+  return { upstream, downstream };
+}
+
+/**
+ * First job-to-job cycle in the chains (as a path ending where it started), or null.
+ * Used by tests to keep JOB_CHAINS acyclic; MAX_CHAIN_DEPTH is only a safety net.
+ */
+export function findChainCycle(
+  chains: JobChain[] = JOB_CHAINS
+): string[] | null {
+  const edges = new Map<string, string[]>();
+  for (const chain of chains) {
+    for (const t of chain.triggers) {
+      if (t.type !== "job") continue;
+      edges.set(t.jobKey, [...(edges.get(t.jobKey) ?? []), chain.jobKey]);
+    }
+  }
+
+  const visit = (key: string, path: string[]): string[] | null => {
+    if (path.includes(key)) return [...path.slice(path.indexOf(key)), key];
+    for (const next of edges.get(key) ?? []) {
+      const cycle = visit(next, [...path, key]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  for (const key of edges.keys()) {
+    const cycle = visit(key, []);
+    if (cycle) return cycle;
+  }
+  return null;
+}
@@ -15,6 +15,8 @@ const JOB_KEY_TO_LOCK_KEY: Record<string, string> = {
   "prediction-reminders": "prediction-reminders",
   "recovery-overdue-fixtures": "sync:recovery-overdue",
   "detect-fixture-issues": "detect-fixture-issues",
+  "sync-standings": "sync:standings",
+  "sync-provider-mappings": "sync:provider-mappings",
 };
 
 /**
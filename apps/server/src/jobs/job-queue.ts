@@ -0,0 +1,437 @@
+import {
+  JobQueueStatus,
+  JobTriggerBy,
+  Prisma,
+  RunStatus,
+  type RunTrigger,
+  prisma,
+} from "@repo/db";
+import { BadRequestError, NotFoundError } from "../utils/errors";
+import { getErrorMessage } from "../utils/error.utils";
+import { getLogger } from "../logger";
+import {
+  getJobQueuePolicy,
+  getRetryDelayMs,
+  type JobQueuePolicy,
+} from "./jobs.meta";
+import { QUEUED_TASKS, isJobRunnable } from "./jobs.registry";
+
+const log = getLogger("JobQueue");
+
+/**
+ * Job queue
+ * ---------
+ * Durable, Postgres-backed queue (`job_queue`) consumed by the job worker (jobs.worker.ts).
+ *
+ * Lifecycle of an entry:
+ * - queued    → waiting until `runAt`; higher `priority` is claimed first
+ * - running   → claimed by a worker (`lockedBy`), `attempts` incremented; the worker refreshes
+ *               `lockedAt` as a heartbeat while the run is in progress
+ * - succeeded → the run finished
+ * - dead      → failed `maxAttempts` times (dead letter); an admin can requeue it
+ *
+ * A failed attempt below `maxAttempts` goes back to `queued` with `runAt` pushed by the
+ * job's backoff (`jobs.meta.queue`, see getJobQueuePolicy).
+ *
+ * Notes:
+ * - Claiming uses `FOR UPDATE SKIP LOCKED`, so any number of workers can poll the same table.
+ * - Outcomes (complete / fail / defer) only apply while the entry is still held by the
+ *   worker that claimed it, so a run released by the stale sweep can't overwrite a retry.
+ * - Deduped entries are unique per job while queued or running (partial unique index), so
+ *   concurrent cron ticks or chained runs can't queue the same job twice.
+ * - Workers still take the job's advisory lock (job-lock-keys.ts) around the run, so queued runs
+ *   never overlap admin "Run now" or CLI runs of the same operation.
+ */
+
+/** Payload of a queued runnable job (tasks define their own payload). */
+export type QueuedJobPayload = {
+  dryRun?: boolean;
+  trigger?: RunTrigger;
+  /** Merged into `job_runs.meta` of the run. */
+  meta?: Record<string, unknown>;
+};
+
+export type ClaimedQueueEntry = {
+  id: number;
+  jobKey: string;
+  payload: Record<string, unknown>;
+  attempts: number;
+  maxAttempts: number;
+  triggeredBy: JobTriggerBy | null;
+  triggeredById: string | null;
+};
+
+export type EnqueueJobInput = {
+  jobKey: string;
+  payload?: QueuedJobPayload | Record<string, unknown>;
+  /** Defaults to the job's queue policy priority. */
+  priority?: number;
+  runAt?: Date;
+  triggeredBy?: JobTriggerBy | null;
+  triggeredById?: string | null;
+  /** Skip when the job already has a queued or running entry (cron ticks, chained runs). */
+  dedupe?: boolean;
+};
+
+/** Interval at which a worker refreshes `lockedAt` of the entries it is running. */
+export const QUEUE_HEARTBEAT_INTERVAL_MS = 60_000;
+
+/** Running entries without a heartbeat for this long are released (their worker died). */
+export const STALE_QUEUE_ENTRY_MS = 10 * 60 * 1000;
+
+/**
+ * Queue policy of a job (from `jobs.meta.queue`) or of a queued task.
+ */
+export async function getQueuePolicy(jobKey: string): Promise<JobQueuePolicy> {
+  const task = QUEUED_TASKS[jobKey];
+  if (task) return task.policy;
+  const job = await prisma.jobs.findUnique({
+    where: { key: jobKey },
+    select: { meta: true },
+  });
+  return getJobQueuePolicy(job?.meta);
+}
+
+/**
+ * Add a job (or queued task) to the queue.
+ * @returns The entry id and whether a new entry was created (false when deduped)
+ */
+export async function enqueueJob(
+  input: EnqueueJobInput
+): Promise<{ id: number; created: boolean }> {
+  const { jobKey } = input;
+  if (!QUEUED_TASKS[jobKey] && !isJobRunnable(jobKey)) {
+    throw new BadRequestError(`Job '${jobKey}' cannot be queued`);
+  }
+
+  if (input.dedupe) {
+    const pending = await prisma.jobQueue.findFirst({
+      where: {
+        jobKey,
+        status: { in: [JobQueueStatus.queued, JobQueueStatus.running] },
+      },
+      select: { id: true },
+    });
+    if (pending) return { id: pending.id, created: false };
+  }
+
+  const policy = await getQueuePolicy(jobKey);
+  const data = {
+    jobKey,
+    payload: (input.payload ?? {}) as Prisma.InputJsonValue,
+    priority: input.priority ?? policy.priority,
+    maxAttempts: policy.maxAttempts,
+    runAt: input.runAt ?? new Date(),
+    triggeredBy: input.triggeredBy ?? null,
+    triggeredById: input.triggeredById ?? null,
+  };
+  const id = input.dedupe
+    ? await insertDedupedEntry(data)
+    : (await prisma.jobQueue.create({ data, select: { id: true } })).id;
+  // A concurrent deduped enqueue won: return its entry
+  if (id == null) return enqueueJob(input);
+
+  log.info({ jobKey, queueId: id }, "Job queued");
+  return { id, created: true };
+}
+
+/**
+ * Insert a deduped entry; ON CONFLICT against the partial unique index makes the
+ * dedupe atomic. @returns null when the job already has a pending deduped entry
+ */
+async function insertDedupedEntry(data: {
+  jobKey: string;
+  payload: Prisma.InputJsonValue;
+  priority: number;
+  maxAttempts: number;
+  runAt: Date;
+  triggeredBy: JobTriggerBy | null;
+  triggeredById: string | null;
+}): Promise<number | null> {
+  const rows = await prisma.$queryRaw<{ id: number }[]>`
+    INSERT INTO job_queue (
+      job_key, payload, priority, max_attempts, run_at,
+      triggered_by, triggered_by_id, dedupe, updated_at
+    )
+    VALUES (
+      ${data.jobKey}, ${JSON.stringify(data.payload)}::jsonb, ${data.priority},
+      ${data.maxAttempts}, ${data.runAt}, ${data.triggeredBy}::job_trigger_by,
+      ${data.triggeredById}, true, now()
+    )
+    ON CONFLICT (job_key) WHERE dedupe AND status IN ('queued', 'running')
+    DO NOTHING
+    RETURNING id
+  `;
+  return rows[0]?.id ?? null;
+}
+
+/**
+ * Claim the next due entry for this worker (highest priority, then oldest runAt).
+ * Returns null when nothing is due.
+ */
+export async function claimNextQueueEntry(
+  workerId: string
+): Promise<ClaimedQueueEntry | null> {
+  const rows = await prisma.$queryRaw<ClaimedQueueEntry[]>`
+    UPDATE job_queue
+    SET status = 'running',
+        attempts = attempts + 1,
+        locked_at = now(),
+        locked_by = ${workerId},
+        updated_at = now()
+    WHERE id = (
+      SELECT id FROM job_queue
+      WHERE status = 'queued' AND run_at <= now()
+      ORDER BY priority DESC, run_at ASC, id ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id,
+      job_key AS "jobKey",
+      payload,
+      attempts,
+      max_attempts AS "maxAttempts",
+      triggered_by AS "triggeredBy",
+      triggered_by_id AS "triggeredById"
+  `;
+  return rows[0] ?? null;
+}
+
+/** Where-clause of an entry still running under this worker's claim. */
+function heldBy(id: number, workerId: string) {
+  return { id, status: JobQueueStatus.running, lockedBy: workerId };
+}
+
+/**
+ * Refresh the heartbeat of a running entry.
+ * @returns false when the entry is no longer held by this worker (e.g. it was released)
+ */
+export async function heartbeatQueueEntry(
+  id: number,
+  workerId: string
+): Promise<boolean> {
+  const { count } = await prisma.jobQueue.updateMany({
+    where: heldBy(id, workerId),
+    data: { lockedAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * Mark a claimed entry as succeeded.
+ * @returns false when the entry is no longer held by this worker (left unchanged)
+ */
+export async function completeQueueEntry(
+  id: number,
+  workerId: string,
+  jobRunId: number | null
+): Promise<boolean> {
+  const { count } = await prisma.jobQueue.updateMany({
+    where: heldBy(id, workerId),
+    data: {
+      status: JobQueueStatus.succeeded,
+      finishedAt: new Date(),
+      lockedAt: null,
+      lockedBy: null,
+      lastError: null,
+      ...(jobRunId != null ? { lastRunId: jobRunId } : {}),
+    },
+  });
+  return count > 0;
+}
+
+/**
+ * Record a failed attempt: retry with backoff, or dead-letter once `maxAttempts` is reached
+ * (or right away with `retry: false`).
+ * @returns The entry's new status, or null when it is no longer held by this worker
+ */
+export async function failQueueEntry(
+  entry: ClaimedQueueEntry,
+  workerId: string,
+  err: unknown,
+  opts: { jobRunId?: number | null; retry?: boolean } = {}
+): Promise<JobQueueStatus | null> {
+  const lastError = (getErrorMessage(err) || "Unknown error").slice(0, 1000);
+  const lastRunId = opts.jobRunId ?? (await findRunIdForQueueEntry(entry));
+  const dead = opts.retry === false || entry.attempts >= entry.maxAttempts;
+
+  if (dead) {
+    const { count } = await prisma.jobQueue.updateMany({
+      where: heldBy(entry.id, workerId),
+      data: {
+        status: JobQueueStatus.dead,
+        finishedAt: new Date(),
+        lockedAt: null,
+        lockedBy: null,
+        lastError,
+        ...(lastRunId != null ? { lastRunId } : {}),
+      },
+    });
+    if (!count) return null;
+    log.warn(
+      { jobKey: entry.jobKey, queueId: entry.id, attempts: entry.attempts },
+      "Queued job dead-lettered"
+    );
+    return JobQueueStatus.dead;
+  }
+
+  const policy = await getQueuePolicy(entry.jobKey);
+  const delayMs = getRetryDelayMs(policy, entry.attempts);
+  const { count } = await prisma.jobQueue.updateMany({
+    where: heldBy(entry.id, workerId),
+    data: {
+      status: JobQueueStatus.queued,
+      runAt: new Date(Date.now() + delayMs),
+      lockedAt: null,
+      lockedBy: null,
+      lastError,
+      ...(lastRunId != null ? { lastRunId } : {}),
+    },
+  });
+  if (!count) return null;
+  log.info(
+    {
+      jobKey: entry.jobKey,
+      queueId: entry.id,
+      attempt: entry.attempts,
+      delayMs,
+    },
+    "Queued job will be retried"
+  );
+  return JobQueueStatus.queued;
+}
+
+/**
+ * Put a claimed entry back without counting the attempt (e.g. its advisory lock is busy).
+ * @returns false when the entry is no longer held by this worker (left unchanged)
+ */
+export async function deferQueueEntry(
+  entry: ClaimedQueueEntry,
+  workerId: string,
+  delayMs: number
+): Promise<boolean> {
+  const { count } = await prisma.jobQueue.updateMany({
+    where: heldBy(entry.id, workerId),
+    data: {
+      status: JobQueueStatus.queued,
+      attempts: Math.max(0, entry.attempts - 1),
+      runAt: new Date(Date.now() + delayMs),
+      lockedAt: null,
+      lockedBy: null,
+    },
+  });
+  return count > 0;
+}
+
+/**
+ * Release entries stuck in `running` whose last heartbeat (`lockedAt`) is older than
+ * `maxAgeMs` (their worker died): back to `queued`, or `dead` when no attempts are left.
+ * @returns Number of entries released
+ */
+export async function releaseStaleQueueEntries(
+  maxAgeMs: number = STALE_QUEUE_ENTRY_MS
+): Promise<number> {
+  const cutoff = new Date(Date.now() - maxAgeMs);
+  return prisma.$executeRaw`
+    UPDATE job_queue
+    SET status = CASE WHEN attempts >= max_attempts
+                   THEN 'dead'::job_queue_status
+                   ELSE 'queued'::job_queue_status END,
+        finished_at = CASE WHEN attempts >= max_attempts THEN now() ELSE NULL END,
+        run_at = now(),
+        locked_at = NULL,
+        locked_by = NULL,
+        last_error = 'Released: worker stopped before the run finished',
+        updated_at = now()
+    WHERE status = 'running' AND locked_at < ${cutoff}
+  `;
+}
+
+/**
+ * Requeue a dead-lettered entry with a fresh set of attempts.
+ * Like "Run now", an admin requeue is never deduped against pending entries.
+ */
+export async function requeueQueueEntry(
+  id: number
+): Promise<{ id: number; jobKey: string }> {
+  const entry = await prisma.jobQueue.findUnique({
+    where: { id },
+    select: { id: true, status: true, jobKey: true },
+  });
+  if (!entry) throw new NotFoundError(`Queue entry ${id} not found`);
+  if (entry.status !== JobQueueStatus.dead) {
+    throw new BadRequestError(
+      `Queue entry ${id} is ${entry.status}; only dead entries can be requeued`
+    );
+  }
+
+  await prisma.jobQueue.update({
+    where: { id },
+    data: {
+      status: JobQueueStatus.queued,
+      attempts: 0,
+      runAt: new Date(),
+      finishedAt: null,
+      dedupe: false,
+    },
+  });
+  log.info({ jobKey: entry.jobKey, queueId: id }, "Queue entry requeued");
+  return { id, jobKey: entry.jobKey };
+}
+
+/**
+ * Requeue a failed job run: revives its dead queue entry, or queues a new run of the
+ * job when the run did not come from the queue (e.g. admin "Run now" or CLI).
+ */
+export async function requeueJobRun(
+  runId: number,
+  triggeredById: string | null
+): Promise<{ id: number; jobKey: string }> {
+  const run = await prisma.jobRuns.findUnique({
+    where: { id: runId },
+    select: { id: true, jobKey: true, status: true },
+  });
+  if (!run) throw new NotFoundError(`Job run ${runId} not found`);
+  if (run.status !== RunStatus.failed) {
+    throw new BadRequestError(`Job run ${runId} did not fail`);
+  }
+
+  const entry = await prisma.jobQueue.findFirst({
+    where: { lastRunId: runId },
+    orderBy: { id: "desc" },
+    select: { id: true, status: true },
+  });
+  if (entry?.status === JobQueueStatus.dead) {
+    await requeueQueueEntry(entry.id);
+    return { id: entry.id, jobKey: run.jobKey };
+  }
+  if (
+    entry?.status === JobQueueStatus.queued ||
+    entry?.status === JobQueueStatus.running
+  ) {
+    throw new BadRequestError(`Job run ${runId} is already being retried`);
+  }
+
+  const { id } = await enqueueJob({
+    jobKey: run.jobKey,
+    payload: { meta: { requeuedFromRunId: runId } },
+    triggeredBy: JobTriggerBy.admin_ui,
+    triggeredById,
+  });
+  return { id, jobKey: run.jobKey };
+}
+
+/** Latest job run recorded for a queue entry (runs carry `meta.queueId`). */
+async function findRunIdForQueueEntry(
+  entry: ClaimedQueueEntry
+): Promise<number | null> {
+  const run = await prisma.jobRuns.findFirst({
+    where: {
+      jobKey: entry.jobKey,
+      meta: { path: ["queueId"], equals: entry.id },
+    },
+    orderBy: { startedAt: "desc" },
+    select: { id: true },
+  });
+  return run?.id ?? null;
+}
@@ -0,0 +1,138 @@
+import { JobTriggerBy, RunStatus, RunTrigger, prisma } from "@repo/db";
+import type { JobRunOpts } from "../types/jobs";
+import {
+  MAX_CHAIN_DEPTH,
+  getChainedJobKeys,
+  getEventJobKeys,
+  type JobEvent,
+} from "./job-chains";
+import { getLogger } from "../logger";
+
+const log = getLogger("JobTriggers");
+
+/**
+ * Job triggers
+ * ------------
+ * Queues the jobs declared in job-chains.ts:
+ * - after a successful run of an upstream job (scheduleChainedJobs, wired in jobs.registry.ts)
+ * - when a domain event is emitted (emitJobEvent)
+ *
+ * Notes:
+ * - Triggered runs go through the job queue (job-queue.ts), so they get the job's retry policy
+ *   and run under its advisory lock on a worker. A target that is already queued is not queued twice.
+ * - `job_runs.meta` records where a triggered run came from (parentJobKey/parentRunId or event)
+ *   and its chainDepth, which the admin job detail page uses for the run graph.
+ */
+
+type TriggeredRunMeta = {
+  chainDepth: number;
+  parentJobKey?: string;
+  parentRunId?: number;
+  event?: JobEvent;
+} & Record<string, unknown>;
+
+function getChainDepth(opts: JobRunOpts): number {
+  const depth = opts.meta?.chainDepth;
+  return typeof depth === "number" ? depth : 0;
+}
+
+/**
+ * Queue one triggered job. Disabled jobs are skipped.
+ */
+async function enqueueTriggeredJob(
+  jobKey: string,
+  triggeredBy: JobTriggerBy,
+  meta: TriggeredRunMeta
+): Promise<void> {
+  const job = await prisma.jobs.findUnique({
+    where: { key: jobKey },
+    select: { enabled: true },
+  });
+  if (!job?.enabled) {
+    log.info({ jobKey, ...meta }, "Triggered job skipped: disabled");
+    return;
+  }
+
+  // Loaded lazily: job-queue imports jobs.registry, which imports this module.
+  const { enqueueJob } = await import("./job-queue");
+  const { id, created } = await enqueueJob({
+    jobKey,
+    payload: { trigger: RunTrigger.auto, meta },
+    triggeredBy,
+    dedupe: true,
+  });
+  if (!created) {
+    log.info({ jobKey, queueId: id, ...meta }, "Triggered job already queued");
+  }
+}
+
+/**
+ * After a run of `jobKey` finished, queue the jobs chained on it.
+ * - Only for successful, non-dry runs (status read back from job_runs).
+ * - Stops at MAX_CHAIN_DEPTH.
+ */
+export function scheduleChainedJobs(
+  jobKey: string,
+  opts: JobRunOpts,
+  result: unknown
+): void {
+  if (opts.dryRun) return;
+  const jobRunId =
+    result && typeof result === "object" && "jobRunId" in result
+      ? (result as { jobRunId?: unknown }).jobRunId
+      : null;
+  if (typeof jobRunId !== "number") return;
+
+  const depth = getChainDepth(opts);
+  if (depth >= MAX_CHAIN_DEPTH) {
+    log.warn({ jobKey, jobRunId, depth }, "Job chain depth limit reached");
+    return;
+  }
+
+  setImmediate(async () => {
+    try {
+      const run = await prisma.jobRuns.findUnique({
+        where: { id: jobRunId },
+        select: { status: true, rowsAffected: true },
+      });
+      if (run?.status !== RunStatus.success) return;
+
+      const next = getChainedJobKeys(jobKey, run.rowsAffected ?? 0);
+      for (const nextKey of next) {
+        await enqueueTriggeredJob(nextKey, JobTriggerBy.job_chain, {
+          chainDepth: depth + 1,
+          parentJobKey: jobKey,
+          parentRunId: jobRunId,
+        });
+      }
+    } catch (err) {
+      log.error({ err, jobKey, jobRunId }, "Failed to queue chained jobs");
+    }
+  });
+}
+
+/**
+ * Emit a domain event: queues every job triggered by it (see JOB_CHAINS).
+ * `meta` is recorded on the triggered runs (e.g. how many fixtures finished).
+ */
+export function emitJobEvent(
+  event: JobEvent,
+  meta: Record<string, unknown> = {}
+): void {
+  const jobKeys = getEventJobKeys(event);
+  if (jobKeys.length === 0) return;
+
+  setImmediate(async () => {
+    try {
+      for (const jobKey of jobKeys) {
+        await enqueueTriggeredJob(jobKey, JobTriggerBy.domain_event, {
+          ...meta,
+          chainDepth: 1,
+          event,
+        });
+      }
+    } catch (err) {
+      log.error({ err, event }, "Failed to queue event-triggered jobs");
+    }
+  });
+}
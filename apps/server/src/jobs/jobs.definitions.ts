@@ -231,6 +231,37 @@ export const DETECT_FIXTURE_ISSUES_JOB = {
   meta: {},
 } as const satisfies JobDefinition;
 
+/**
+ * SYNC_STANDINGS_JOB
+ * ------------------
+ * Purpose: keep the persisted `standings` table fresh for current seasons,
+ * so the standings API reads from DB instead of calling the provider.
+ */
+export const SYNC_STANDINGS_JOB = {
+  key: "sync-standings",
+  description: "Fetch standings for current seasons and upsert into DB",
+  enabled: true,
+  // Every 2 hours at minute 40 (offset from the fixtures jobs).
+  scheduleCron: "40 */2 * * *",
+  meta: {},
+} as const satisfies JobDefinition;
+
+/**
+ * SYNC_PROVIDER_MAPPINGS_JOB
+ * --------------------------
+ * Purpose: map countries, leagues, current seasons and their teams to the
+ * fallback provider, so failover reads and score cross-checks can translate IDs.
+ * No-op when no fallback provider is configured.
+ */
+export const SYNC_PROVIDER_MAPPINGS_JOB = {
+  key: "sync-provider-mappings",
+  description: "Match catalog entities with the fallback provider and store ID mappings",
+  enabled: true,
+  // Daily at 03:50 (new seasons and promoted teams appear rarely).
+  scheduleCron: "50 3 * * *",
+  meta: {},
+} as const satisfies JobDefinition;
+
 /**
  * JOB_DEFINITIONS
  * --------------
@@ -251,6 +282,8 @@ export const JOB_DEFINITIONS = [
   DATA_QUALITY_CHECK_JOB,
   ADMIN_ALERTS_JOB,
   DETECT_FIXTURE_ISSUES_JOB,
+  SYNC_STANDINGS_JOB,
+  SYNC_PROVIDER_MAPPINGS_JOB,
 ] as const satisfies readonly JobDefinition[];
 
 export type JobKey = (typeof JOB_DEFINITIONS)[number]["key"];
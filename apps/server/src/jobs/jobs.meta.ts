@@ -3,6 +3,7 @@ import type {
   UpcomingFixturesJobMeta,
   FinishedFixturesJobMeta,
   RecoveryOverdueFixturesJobMeta,
+  JobQueueMeta,
 } from "@repo/types";
 
 /**
@@ -106,3 +107,67 @@ export function isRecoveryOverdueFixturesJobMeta(
     return false;
   return true;
 }
+
+/**
+ * Validate `jobs.meta.queue` (see JobQueueMeta). Every field is optional,
+ * but present fields must be numbers in range.
+ */
+export function isJobQueueMeta(v: unknown): v is JobQueueMeta {
+  if (!isPlainObject(v)) return false;
+  const { maxAttempts, backoffSeconds, backoffMultiplier, priority } = v;
+  const isNum = (x: unknown, min: number, max: number) =>
+    x === undefined ||
+    (typeof x === "number" && Number.isFinite(x) && x >= min && x <= max);
+  return (
+    isNum(maxAttempts, 1, 20) &&
+    isNum(backoffSeconds, 0, 86_400) &&
+    isNum(backoffMultiplier, 1, 10) &&
+    isNum(priority, -100, 100)
+  );
+}
+
+export type JobQueuePolicy = Required<JobQueueMeta>;
+
+export const DEFAULT_JOB_QUEUE_POLICY: JobQueuePolicy = {
+  maxAttempts: 3,
+  backoffSeconds: 30,
+  backoffMultiplier: 2,
+  priority: 0,
+};
+
+/**
+ * Queue policy of a job from its `jobs.meta` (invalid or missing `queue` falls back
+ * to `defaults` field by field).
+ */
+export function getJobQueuePolicy(
+  meta: unknown,
+  defaults: JobQueuePolicy = DEFAULT_JOB_QUEUE_POLICY
+): JobQueuePolicy {
+  const queue = isPlainObject(meta) ? meta["queue"] : undefined;
+  if (!isJobQueueMeta(queue)) return defaults;
+  return {
+    maxAttempts:
+      queue.maxAttempts !== undefined
+        ? clampInt(queue.maxAttempts, 1, 20)
+        : defaults.maxAttempts,
+    backoffSeconds: queue.backoffSeconds ?? defaults.backoffSeconds,
+    backoffMultiplier: queue.backoffMultiplier ?? defaults.backoffMultiplier,
+    priority:
+      queue.priority !== undefined
+        ? clampInt(queue.priority, -100, 100)
+        : defaults.priority,
+  };
+}
+
+/**
+ * Delay before retrying after the given (1-based) failed attempt.
+ */
+export function getRetryDelayMs(
+  policy: Pick<JobQueuePolicy, "backoffSeconds" | "backoffMultiplier">,
+  attempt: number
+): number {
+  const exponent = Math.max(0, attempt - 1);
+  return Math.round(
+    policy.backoffSeconds * 1000 * policy.backoffMultiplier ** exponent
+  );
+}
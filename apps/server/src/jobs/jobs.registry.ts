@@ -1,6 +1,10 @@
 import type { FastifyInstance } from "fastify";
 import { JobTriggerBy, RunTrigger } from "@repo/db";
 import type { JobRunOpts } from "../types/jobs";
+import { emitJobEvent, scheduleChainedJobs } from "./job-triggers";
+import { DEFAULT_JOB_QUEUE_POLICY, type JobQueuePolicy } from "./jobs.meta";
+import type { SeedSeasonParams } from "./tasks/seed-season.job";
+import type { BatchSeedParams } from "./tasks/batch-seed-seasons.job";
 
 /**
  * Jobs registry
@@ -24,6 +28,8 @@ import {
   DATA_QUALITY_CHECK_JOB,
   ADMIN_ALERTS_JOB,
   DETECT_FIXTURE_ISSUES_JOB,
+  SYNC_STANDINGS_JOB,
+  SYNC_PROVIDER_MAPPINGS_JOB,
 } from "./jobs.definitions";
 
 export type RunnableJobDefinition = {
@@ -108,8 +114,30 @@ const RUNNERS: Record<string, Runner> = {
       await import("./cron/detect-fixture-issues.job");
     return runDetectFixtureIssuesJob(fastify, opts);
   },
+  [SYNC_STANDINGS_JOB.key]: async (fastify, opts) => {
+    const { runSyncStandingsJob } = await import("./cron/sync-standings.job");
+    return runSyncStandingsJob(fastify, opts);
+  },
+  [SYNC_PROVIDER_MAPPINGS_JOB.key]: async (fastify, opts) => {
+    const { runSyncProviderMappingsJob } =
+      await import("./cron/sync-provider-mappings.job");
+    return runSyncProviderMappingsJob(fastify, opts);
+  },
 };
 
+/**
+ * Wraps a runner so that jobs chained on it (job-chains.ts) run after it succeeds.
+ * Every entrypoint (scheduler, admin "Run now", CLI, chained runs) goes through RUNNABLE_JOBS,
+ * so chains apply the same way everywhere.
+ */
+function withJobChains(jobKey: string, runner: Runner): Runner {
+  return async (fastify, opts) => {
+    const result = await runner(fastify, opts);
+    scheduleChainedJobs(jobKey, opts, result);
+    return result;
+  };
+}
+
 /**
  * RUNNABLE_JOBS
  * ------------
@@ -121,7 +149,7 @@ const RUNNERS: Record<string, Runner> = {
  * - Runtime scheduling uses DB `jobs.scheduleCron`.
  * - These `scheduleCron` values are defaults/documentation, not the live source of truth.
  */
-export const RUNNABLE_JOBS: RunnableJobDefinition[] = [
+const JOB_CATALOG: RunnableJobDefinition[] = [
   {
     key: UPCOMING_FIXTURES_JOB.key,
     description: UPCOMING_FIXTURES_JOB.description,
@@ -188,8 +216,25 @@ export const RUNNABLE_JOBS: RunnableJobDefinition[] = [
     scheduleCron: DETECT_FIXTURE_ISSUES_JOB.scheduleCron ?? null,
     run: RUNNERS[DETECT_FIXTURE_ISSUES_JOB.key]!,
   },
+  {
+    key: SYNC_STANDINGS_JOB.key,
+    description: SYNC_STANDINGS_JOB.description,
+    scheduleCron: SYNC_STANDINGS_JOB.scheduleCron ?? null,
+    run: RUNNERS[SYNC_STANDINGS_JOB.key]!,
+  },
+  {
+    key: SYNC_PROVIDER_MAPPINGS_JOB.key,
+    description: SYNC_PROVIDER_MAPPINGS_JOB.description,
+    scheduleCron: SYNC_PROVIDER_MAPPINGS_JOB.scheduleCron ?? null,
+    run: RUNNERS[SYNC_PROVIDER_MAPPINGS_JOB.key]!,
+  },
 ];
 
+/** Runnable jobs, each run followed by the jobs chained on it. */
+export const RUNNABLE_JOBS: RunnableJobDefinition[] = JOB_CATALOG.map(
+  (job) => ({ ...job, run: withJobChains(job.key, job.run) })
+);
+
 /** True if the job key is known and runnable by this API build. */
 export function isJobRunnable(jobKey: string): boolean {
   return RUNNABLE_JOBS.some((j) => j.key === jobKey);
@@ -205,6 +250,56 @@ export function getRunnableJob(jobKey: string) {
   return RUNNABLE_JOBS.find((j) => j.key === jobKey) ?? null;
 }
 
+/**
+ * QUEUED_TASKS
+ * ------------
+ * One-off tasks that only run through the job queue (no cron, no `jobs` row).
+ * The queue entry payload is passed to the task as-is.
+ *
+ * Notes:
+ * - Seeds track their own progress in seed batches, so they are not retried.
+ * - Priority is above cron jobs: an admin is waiting for them.
+ */
+export type QueuedTask = {
+  policy: JobQueuePolicy;
+  run: (
+    fastify: FastifyInstance,
+    payload: Record<string, unknown>
+  ) => Promise<unknown>;
+};
+
+export const QUEUED_TASKS: Record<string, QueuedTask> = {
+  "seed-season": {
+    policy: { ...DEFAULT_JOB_QUEUE_POLICY, maxAttempts: 1, priority: 10 },
+    run: async (_fastify, payload) => {
+      const { processSeedSeason } = await import("./tasks/seed-season.job");
+      const params = payload as unknown as SeedSeasonParams;
+      const result = await processSeedSeason(params);
+      emitJobEvent("season.seeded", {
+        seasonExternalId: params.seasonExternalId,
+      });
+      return result;
+    },
+  },
+  "batch-seed-seasons": {
+    policy: { ...DEFAULT_JOB_QUEUE_POLICY, maxAttempts: 1, priority: 10 },
+    run: async (_fastify, payload) => {
+      const { processBatchSeedSeasons } = await import(
+        "./tasks/batch-seed-seasons.job"
+      );
+      const result = await processBatchSeedSeasons(
+        payload as unknown as BatchSeedParams
+      );
+      if (result.completedSeasons > 0) {
+        emitJobEvent("season.seeded", {
+          completedSeasons: result.completedSeasons,
+        });
+      }
+      return result;
+    },
+  },
+};
+
 /**
  * Convenience defaults for admin-triggered runs.
  *
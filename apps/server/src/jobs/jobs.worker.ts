@@ -0,0 +1,237 @@
+import type { FastifyInstance } from "fastify";
+import { RunTrigger } from "@repo/db";
+import { getLockKeyForJob } from "./job-lock-keys";
+import {
+  claimNextQueueEntry,
+  completeQueueEntry,
+  deferQueueEntry,
+  failQueueEntry,
+  heartbeatQueueEntry,
+  releaseStaleQueueEntries,
+  QUEUE_HEARTBEAT_INTERVAL_MS,
+  type ClaimedQueueEntry,
+  type QueuedJobPayload,
+} from "./job-queue";
+import { QUEUED_TASKS, getJobRunner } from "./jobs.registry";
+import {
+  AdvisoryLockNotAcquiredError,
+  DEFAULT_LOCK_TIMEOUT_MS,
+  withAdvisoryLock,
+} from "../utils/advisory-lock";
+import { getLogger } from "../logger";
+
+const log = getLogger("JobWorker");
+
+/**
+ * Job worker
+ * ----------
+ * Polls the job queue (job-queue.ts) and runs claimed entries.
+ *
+ * Where it runs:
+ * - Inside the API process (jobs-scheduler plugin) unless JOBS_WORKER_ENABLED=false.
+ * - Standalone via `services/worker` (src/worker.ts), where `fastify.io` is a Redis emitter:
+ *   realtime events reach clients through the API instances' Socket.IO Redis adapter.
+ *
+ * Notes:
+ * - Runnable jobs run under their advisory lock; when it's busy the entry is pushed back
+ *   without counting the attempt.
+ * - Queued tasks (seeds) run without the lock; they are never retried by default.
+ * - While an entry runs, its `lockedAt` heartbeat is refreshed, so long runs are never
+ *   mistaken for a dead worker by the stale sweep.
+ */
+
+export type JobWorkerOptions = {
+  /** Recorded as `job_queue.locked_by` and `job_runs.meta.instanceId`. */
+  workerId: string;
+  /** Entries processed in parallel. */
+  concurrency?: number;
+  /** Wait between polls when nothing is due. */
+  pollIntervalMs?: number;
+};
+
+export type JobWorker = {
+  /** Stop polling and wait (bounded) for entries in progress. */
+  stop: () => Promise<void>;
+};
+
+const DEFAULT_POLL_INTERVAL_MS = 2_000;
+/** Retry delay when the job's advisory lock is held elsewhere. */
+const LOCK_BUSY_RETRY_MS = 30_000;
+const STALE_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+/** Entries still running after this are released later by the stale sweep. */
+const STOP_TIMEOUT_MS = 30_000;
+
+function getJobRunId(result: unknown): number | null {
+  const jobRunId =
+    result && typeof result === "object" && "jobRunId" in result
+      ? (result as { jobRunId?: unknown }).jobRunId
+      : null;
+  return typeof jobRunId === "number" ? jobRunId : null;
+}
+
+/**
+ * Run one claimed entry and record the outcome on it (succeeded / retry / dead).
+ * Never throws.
+ */
+export async function processQueueEntry(
+  fastify: FastifyInstance,
+  entry: ClaimedQueueEntry,
+  workerId: string
+): Promise<void> {
+  const { jobKey } = entry;
+  const warnIfReleased = (held: boolean) => {
+    if (!held) {
+      log.warn(
+        { jobKey, queueId: entry.id, workerId },
+        "Queue entry is no longer held by this worker"
+      );
+    }
+  };
+  const heartbeat = setInterval(() => {
+    heartbeatQueueEntry(entry.id, workerId)
+      .then(warnIfReleased)
+      .catch((err) =>
+        log.warn({ err, queueId: entry.id }, "Queue heartbeat failed")
+      );
+  }, QUEUE_HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+
+  try {
+    const task = QUEUED_TASKS[jobKey];
+    if (task) {
+      await task.run(fastify, entry.payload);
+      warnIfReleased(await completeQueueEntry(entry.id, workerId, null));
+      return;
+    }
+
+    const runner = getJobRunner(jobKey);
+    if (!runner) {
+      const status = await failQueueEntry(
+        entry,
+        workerId,
+        new Error(`No runner for job '${jobKey}'`),
+        { retry: false }
+      );
+      warnIfReleased(status != null);
+      return;
+    }
+
+    const payload = entry.payload as QueuedJobPayload;
+    const result = await withAdvisoryLock(
+      getLockKeyForJob(jobKey),
+      (signal) =>
+        runner(fastify, {
+          dryRun: !!payload.dryRun,
+          trigger: payload.trigger ?? RunTrigger.auto,
+          triggeredBy: entry.triggeredBy,
+          triggeredById: entry.triggeredById,
+          meta: {
+            ...(payload.meta ?? {}),
+            queueId: entry.id,
+            attempt: entry.attempts,
+            instanceId: workerId,
+          },
+          signal,
+        }),
+      { timeoutMs: DEFAULT_LOCK_TIMEOUT_MS }
+    );
+    warnIfReleased(
+      await completeQueueEntry(entry.id, workerId, getJobRunId(result))
+    );
+  } catch (err) {
+    if (err instanceof AdvisoryLockNotAcquiredError) {
+      log.info(
+        { jobKey, queueId: entry.id },
+        "Queued job deferred: lock already held by another process"
+      );
+      await deferQueueEntry(entry, workerId, LOCK_BUSY_RETRY_MS)
+        .then(warnIfReleased)
+        .catch((e) =>
+          log.error(
+            { err: e, queueId: entry.id },
+            "Failed to defer queue entry"
+          )
+        );
+      return;
+    }
+    log.warn({ err, jobKey, queueId: entry.id }, "Queued job failed");
+    await failQueueEntry(entry, workerId, err)
+      .then((status) => warnIfReleased(status != null))
+      .catch((e) =>
+        log.error(
+          { err: e, queueId: entry.id },
+          "Failed to record queue failure"
+        )
+      );
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Start polling the queue. Returns a handle to stop the worker (e.g. on server close).
+ */
+export function startJobWorker(
+  fastify: FastifyInstance,
+  options: JobWorkerOptions
+): JobWorker {
+  const {
+    workerId,
+    concurrency = 1,
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+  } = options;
+
+  let stopped = false;
+  const sleepers = new Set<() => void>();
+  const sleep = (ms: number) =>
+    new Promise<void>((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        sleepers.delete(wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, ms);
+      sleepers.add(wake);
+    });
+
+  async function loop(): Promise<void> {
+    while (!stopped) {
+      let entry: ClaimedQueueEntry | null = null;
+      try {
+        entry = await claimNextQueueEntry(workerId);
+      } catch (err) {
+        log.error({ err, workerId }, "Failed to claim queue entry");
+      }
+      if (!entry) {
+        await sleep(pollIntervalMs);
+        continue;
+      }
+      await processQueueEntry(fastify, entry, workerId);
+    }
+  }
+
+  const sweepTimer = setInterval(async () => {
+    try {
+      const count = await releaseStaleQueueEntries();
+      if (count > 0) log.warn({ count }, "Released stale queue entries");
+    } catch (err) {
+      log.error({ err }, "Stale queue sweep failed");
+    }
+  }, STALE_SWEEP_INTERVAL_MS);
+
+  const loops = Array.from({ length: Math.max(1, concurrency) }, () => loop());
+  log.info({ workerId, concurrency }, "Job worker started");
+
+  return {
+    async stop() {
+      stopped = true;
+      clearInterval(sweepTimer);
+      for (const wake of [...sleepers]) wake();
+      await Promise.race([
+        Promise.all(loops),
+        new Promise((resolve) => setTimeout(resolve, STOP_TIMEOUT_MS).unref()),
+      ]);
+      log.info({ workerId }, "Job worker stopped");
+    },
+  };
+}
@@ -34,8 +34,11 @@ export interface BatchSeedParams {
 /**
  * Processes a batch of seasons sequentially using an already-created batch record.
  * Updates batch meta after each season so the frontend can poll for progress.
+ * Returns how many seasons were seeded and how many failed.
  */
-export async function processBatchSeedSeasons(params: BatchSeedParams) {
+export async function processBatchSeedSeasons(
+  params: BatchSeedParams
+): Promise<{ completedSeasons: number; failedSeasons: number }> {
   const {
     batchId,
     seasonExternalIds,
@@ -121,6 +124,8 @@ export async function processBatchSeedSeasons(params: BatchSeedParams) {
   }
 
   await availabilityService.invalidateCache().catch(() => {});
+
+  return { completedSeasons: completedCount, failedSeasons: failedCount };
 }
 
 /** Best-effort meta update — never throws */
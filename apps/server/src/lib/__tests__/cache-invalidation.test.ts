@@ -13,6 +13,7 @@ vi.mock("../cache", () => ({
 
 import {
   invalidateRankingCache,
+  invalidateLiveRankingCache,
   invalidateUserStatsCache,
   invalidateH2HCache,
 } from "../cache-invalidation";
@@ -45,6 +46,23 @@ describe("invalidateRankingCache", () => {
   });
 });
 
+describe("invalidateLiveRankingCache", () => {
+  it("מוחק מהקאש של הדירוג החי בלבד", async () => {
+    await invalidateLiveRankingCache([1, 2]);
+
+    expect(getCache).toHaveBeenCalledWith("ranking-live");
+    expect(getCache).not.toHaveBeenCalledWith("ranking");
+    expect(mockDel).toHaveBeenCalledTimes(2);
+    expect(mockDel).toHaveBeenCalledWith("1");
+  });
+
+  it("לא עושה כלום כשהקאש לא זמין", async () => {
+    vi.mocked(getCache).mockReturnValueOnce(null);
+    await invalidateLiveRankingCache([1]);
+    expect(mockDel).not.toHaveBeenCalled();
+  });
+});
+
 describe("invalidateUserStatsCache", () => {
   it("מוחק את המפתחות הנכונים לפי מזהי משתמשים", async () => {
     await invalidateUserStatsCache([10, 20]);
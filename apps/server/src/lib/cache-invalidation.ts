@@ -13,6 +13,15 @@ export async function invalidateRankingCache(
   await Promise.all(groupIds.map((id) => cache.del(String(id))));
 }
 
+/** Delete live (provisional) ranking cache entries for the given group IDs. */
+export async function invalidateLiveRankingCache(
+  groupIds: number[]
+): Promise<void> {
+  const cache = getCache("ranking-live");
+  if (!cache) return;
+  await Promise.all(groupIds.map((id) => cache.del(String(id))));
+}
+
 /** Delete user-stats cache entries for the given user IDs. */
 export async function invalidateUserStatsCache(
   userIds: number[]
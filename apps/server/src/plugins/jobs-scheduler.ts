@@ -2,63 +2,33 @@ import fp from "fastify-plugin";
 import cron, { type ScheduledTask } from "node-cron";
 import { JobTriggerBy, prisma } from "@repo/db";
 import { RUNNABLE_JOBS } from "../jobs/jobs.registry";
-import { getLockKeyForJob } from "../jobs/job-lock-keys";
-import {
-  AdvisoryLockNotAcquiredError,
-  AdvisoryLockTimeoutError,
-  DEFAULT_LOCK_TIMEOUT_MS,
-  withAdvisoryLock,
-} from "../utils/advisory-lock";
+import { enqueueJob } from "../jobs/job-queue";
+import { startJobWorker, type JobWorker } from "../jobs/jobs.worker";
 import { getLogger } from "../logger";
 
 const log = getLogger("JobsScheduler");
 
 /**
- * Jobs scheduler (cron)
- * --------------------
- * This plugin runs small background jobs inside the API process.
+ * Jobs scheduler (cron) + in-process worker
+ * ----------------------------------------
+ * This plugin turns job schedules into job queue entries, and (optionally) runs a queue worker
+ * inside the API process.
  *
  * Notes:
  * - Jobs are scheduled **in-memory** using `node-cron`. Schedules are created on server startup.
  * - The cron expression is sourced from DB (`jobs.scheduleCron`) so the admin UI can change it.
  * - We keep a `tasks` registry so we can stop/reschedule without restarting the API.
- * - We use a per-process in-memory lock so the same job won't overlap itself in this process.
- * - We use a Postgres advisory lock (via withAdvisoryLock) so the same logical operation
- *   cannot run in parallel across instances (cron vs admin vs CLI); second attempt skips or fails.
+ * - A cron tick only enqueues the job (job-queue.ts); a tick is skipped while the job is already
+ *   queued or running, so slow jobs don't pile up. Workers run it under the Postgres advisory lock
+ *   (via withAdvisoryLock), with the job's retry policy.
+ * - The worker can run here and/or standalone (`services/worker`); queue claims are safe across
+ *   processes.
  */
 
-// Simple per-process locks so the same job doesn't overlap itself.
-// This prevents "double runs" inside a single node process, but does NOT prevent cross-instance overlap.
-const running: Record<string, boolean> = {};
-
-type JobFn = () => Promise<void> | void;
-
-/**
- * guard()
- * -------
- * Wraps a job function with a per-process mutex.
- *
- * Why:
- * - If a job takes longer than its schedule interval, `node-cron` will try to trigger again.
- * - Overlapping runs can cause extra load and race conditions.
- *
- * What this does:
- * - If a run is already in progress for this job key in THIS PROCESS, the next trigger returns early.
- *
- * What it does NOT do:
- * - It does not coordinate across multiple API instances. For multi-instance, disable scheduler
- *   on all but one instance or add a distributed lock.
- */
-function guard(key: string, fn: JobFn): JobFn {
-  return async () => {
-    if (running[key]) return;
-    running[key] = true;
-    try {
-      await fn();
-    } finally {
-      running[key] = false;
-    }
-  };
+function isEnvEnabled(value: string | undefined): boolean {
+  return value === undefined
+    ? true
+    : !["0", "false", "no", "off"].includes(value.toLowerCase());
 }
 
 export default fp(async (fastify) => {
@@ -119,7 +89,7 @@ export default fp(async (fastify) => {
    * - Load DB scheduleCron
    * - Stop any existing in-memory cron task for this job
    * - If scheduleCron is null => do not schedule
-   * - Else schedule node-cron task that calls the job runner
+   * - Else schedule node-cron task that enqueues the job
    */
   async function scheduleTask(jobKey: string) {
     const runnable = RUNNABLE_JOBS.find((j) => j.key === jobKey);
@@ -133,41 +103,22 @@ export default fp(async (fastify) => {
     // Null cron means "not scheduled".
     if (!cronExpr) return;
 
-    // Create the cron task. We wrap with `guard()` (in-process) and `withAdvisoryLock` (cross-instance).
-    const task = cron.schedule(
-      cronExpr,
-      guard(jobKey, async () => {
-        const lockKey = getLockKeyForJob(jobKey);
-        try {
-          await withAdvisoryLock(
-            lockKey,
-            (signal) =>
-              runnable.run(fastify, {
-                triggeredBy: JobTriggerBy.cron_scheduler,
-                meta: { instanceId },
-                signal,
-              }),
-            { timeoutMs: DEFAULT_LOCK_TIMEOUT_MS }
-          );
-        } catch (err) {
-          if (err instanceof AdvisoryLockNotAcquiredError) {
-            log.info(
-              { jobKey, lockKey },
-              "Job skipped: lock already held by another process"
-            );
-            return;
-          }
-          if (err instanceof AdvisoryLockTimeoutError) {
-            log.warn(
-              { jobKey, lockKey, timeoutMs: err.timeoutMs },
-              "Job timed out (caller rejected; lock released after job finishes)"
-            );
-            return;
-          }
-          throw err;
+    // Create the cron task. Each tick enqueues a run; the queue skips it if one is already pending.
+    const task = cron.schedule(cronExpr, async () => {
+      try {
+        const { id, created } = await enqueueJob({
+          jobKey,
+          triggeredBy: JobTriggerBy.cron_scheduler,
+          payload: { meta: { scheduledBy: instanceId } },
+          dedupe: true,
+        });
+        if (!created) {
+          log.info({ jobKey, queueId: id }, "Job tick skipped: already queued");
         }
-      })
-    );
+      } catch (err) {
+        log.error({ err, jobKey }, "Failed to enqueue scheduled job");
+      }
+    });
     tasks.set(jobKey, task);
   }
 
@@ -202,15 +153,20 @@ export default fp(async (fastify) => {
    * We avoid running cron scheduling at module load time so Fastify autoload stays fast/deterministic.
    */
   fastify.addHook("onReady", async () => {
+    // Allow running the queue worker only in dedicated worker processes (`services/worker`).
+    let worker: JobWorker | null = null;
+    if (isEnvEnabled(process.env.JOBS_WORKER_ENABLED)) {
+      worker = startJobWorker(fastify, { workerId: instanceId });
+    } else {
+      log.info({ instanceId }, "Job worker disabled (JOBS_WORKER_ENABLED=false)");
+    }
+    fastify.addHook("onClose", async () => {
+      await worker?.stop();
+    });
+
     // Allow disabling the scheduler for multi-instance deployments.
     // This avoids duplicate cron runs when you scale API instances > 1.
-    const enabledEnv = process.env.JOBS_SCHEDULER_ENABLED;
-    const schedulerEnabled =
-      enabledEnv === undefined
-        ? true
-        : !["0", "false", "no", "off"].includes(enabledEnv.toLowerCase());
-
-    if (!schedulerEnabled) {
+    if (!isEnvEnabled(process.env.JOBS_SCHEDULER_ENABLED)) {
       log.info(
         { instanceId },
         "Job scheduler disabled (JOBS_SCHEDULER_ENABLED=false)"
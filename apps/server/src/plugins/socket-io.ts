@@ -5,7 +5,15 @@ import { createRedisClient, isRedisConfigured } from "@repo/redis";
 import { createAdapter } from "@socket.io/redis-adapter";
 import { verifyAccessToken } from "../auth/user-tokens";
 import { assertGroupMember } from "../services/api/groups/permissions";
-import { sendMessage, markAsRead } from "../services/api/groups/service/chat";
+import {
+  sendMessage,
+  markAsRead,
+  editMessage,
+  deleteMessage,
+  toggleReaction,
+  toChatMessagePayload,
+} from "../services/api/groups/service/chat";
+import { fixtureRoom } from "../services/api/groups/service/live-updates";
 import { sendPushToGroupMembers } from "../services/push/push.service";
 import { adminSessionDb } from "../auth/admin-session";
 import { ADMIN_SESSION_COOKIE_NAME } from "../constants/admin-auth.constants";
@@ -18,6 +26,8 @@ function isValidGroupId(value: unknown): value is number {
   return typeof value === "number" && Number.isFinite(value) && value > 0;
 }
 
+const isValidFixtureId = isValidGroupId;
+
 export default fp(async function socketIOPlugin(fastify) {
   const corsOrigins = (process.env.CORS_ORIGINS ?? "")
     .split(",")
@@ -135,28 +145,43 @@ export default fp(async function socketIOPlugin(fastify) {
       socket.leave(`group:${groupId}`);
     });
 
+    // Live score room; a groupId also subscribes to that group's live-points projection
+    socket.on("fixture:subscribe", async (data) => {
+      if (!isValidFixtureId(data?.fixtureId)) return;
+      if (data.groupId === undefined) {
+        await socket.join(fixtureRoom(data.fixtureId));
+        return;
+      }
+      if (!isValidGroupId(data.groupId)) return;
+      try {
+        await assertGroupMember(data.groupId, userId);
+        await socket.join(fixtureRoom(data.fixtureId, data.groupId));
+      } catch {
+        socket.emit("error", {
+          event: "fixture:subscribe",
+          message: "Not a member",
+        });
+      }
+    });
+
+    socket.on("fixture:unsubscribe", (data) => {
+      if (!isValidFixtureId(data?.fixtureId)) return;
+      if (data.groupId !== undefined && !isValidGroupId(data.groupId)) return;
+      socket.leave(fixtureRoom(data.fixtureId, data.groupId));
+    });
+
     socket.on("message:send", async (data) => {
       try {
         const message = await sendMessage(
           data.groupId,
           userId,
           data.body,
-          data.mentions
+          data.mentions,
+          data.replyToId
         );
 
         io.to(`group:${data.groupId}`).emit("message:new", {
-          id: message.id,
-          createdAt: message.createdAt.toISOString(),
-          groupId: message.groupId,
-          senderId: message.senderId,
-          type: message.type,
-          body: message.body,
-          meta: message.meta as Record<string, unknown> | null,
-          sender: {
-            id: userId,
-            username: socket.data.user.username,
-            image: socket.data.user.image,
-          },
+          ...toChatMessagePayload(message),
           tempId: data.tempId,
         });
 
@@ -174,6 +199,46 @@ export default fp(async function socketIOPlugin(fastify) {
       }
     });
 
+    socket.on("message:edit", async (data) => {
+      try {
+        await editMessage(
+          data.groupId,
+          data.messageId,
+          userId,
+          data.body,
+          data.mentions,
+          io
+        );
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Failed";
+        socket.emit("error", { event: "message:edit", message });
+      }
+    });
+
+    socket.on("message:delete", async (data) => {
+      try {
+        await deleteMessage(data.groupId, data.messageId, userId, io);
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Failed";
+        socket.emit("error", { event: "message:delete", message });
+      }
+    });
+
+    socket.on("message:react", async (data) => {
+      try {
+        await toggleReaction(
+          data.groupId,
+          data.messageId,
+          userId,
+          data.emoji,
+          io
+        );
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Failed";
+        socket.emit("error", { event: "message:react", message });
+      }
+    });
+
     socket.on("typing:start", (groupId) => {
       if (!isValidGroupId(groupId)) return;
       socket.to(`group:${groupId}`).emit("typing:start", {
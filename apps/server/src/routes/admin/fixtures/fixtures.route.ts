@@ -6,6 +6,8 @@ import { parseId } from "../../../utils/routes";
 import { getErrorMessage, getErrorProp } from "../../../utils/error.utils";
 import {
   resettleFixture,
+  previewResettle,
+  getFixtureLedger,
   getGroupsSummary,
 } from "../../../services/admin/fixtures.service";
 import { getFixturesNeedingAttention } from "../../../services/admin/fixtures-attention.service";
@@ -167,7 +169,45 @@ const adminFixturesRoutes: FastifyPluginAsync = async (fastify) => {
     }
   );
 
-  // POST /admin/fixtures/:id/resettle - Re-settle predictions for a FT fixture
+  // GET /admin/fixtures/:id/resettle/preview - Point and rank changes a resettle would make
+  fastify.get(
+    "/:id/resettle/preview",
+    {
+      schema: {
+        params: {
+          type: "object",
+          properties: { id: { type: "string" } },
+          required: ["id"],
+        },
+      },
+    },
+    async (req, reply) => {
+      const { id } = req.params as { id: string };
+      let fixtureId: number;
+      try {
+        fixtureId = parseId(id);
+      } catch (error: unknown) {
+        return (reply as any).code(400).send({
+          message: getErrorMessage(error),
+        });
+      }
+      try {
+        return reply.send(await previewResettle(fixtureId));
+      } catch (error: unknown) {
+        const code =
+          getErrorProp<number>(error, "statusCode") ??
+          getErrorProp<number>(error, "status");
+        if (code === 400 || code === 404) {
+          return (reply as any).code(code).send({
+            message: getErrorMessage(error),
+          });
+        }
+        throw error;
+      }
+    }
+  );
+
+  // POST /admin/fixtures/:id/resettle - Re-settle predictions for a finished fixture
   fastify.post(
     "/:id/resettle",
     {
@@ -208,7 +248,10 @@ const adminFixturesRoutes: FastifyPluginAsync = async (fastify) => {
         });
       }
       try {
-        const result = await resettleFixture(fixtureId);
+        const result = await resettleFixture(
+          fixtureId,
+          req.adminAuth?.user?.id ?? null
+        );
         // Immediately resolve the unsettled issue so it doesn't linger until next cron
         await resolveIssuesForFixture(fixtureId, ["unsettled"]);
 
@@ -236,6 +279,32 @@ const adminFixturesRoutes: FastifyPluginAsync = async (fastify) => {
     }
   );
 
+  // GET /admin/fixtures/:id/ledger - Settlement ledger entries for a fixture
+  fastify.get(
+    "/:id/ledger",
+    {
+      schema: {
+        params: {
+          type: "object",
+          properties: { id: { type: "string" } },
+          required: ["id"],
+        },
+      },
+    },
+    async (req, reply) => {
+      const { id } = req.params as { id: string };
+      let fixtureId: number;
+      try {
+        fixtureId = parseId(id);
+      } catch (error: unknown) {
+        return (reply as any).code(400).send({
+          message: getErrorMessage(error),
+        });
+      }
+      return reply.send(await getFixtureLedger(fixtureId));
+    }
+  );
+
   // GET /admin/fixtures/:id/settlement - Groups summary for a fixture
   fastify.get(
     "/:id/settlement",
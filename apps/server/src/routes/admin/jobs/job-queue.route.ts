@@ -0,0 +1,166 @@
+import { FastifyPluginAsync } from "fastify";
+import { JobQueueStatus, prisma } from "@repo/db";
+import type {
+  AdminJobQueueEntry,
+  AdminJobQueueListResponse,
+  AdminRequeueJobResponse,
+} from "@repo/types";
+import { requeueJobRun, requeueQueueEntry } from "../../../jobs/job-queue";
+import { auditFromRequest } from "../../../services/admin/audit-log.service";
+import { BadRequestError } from "../../../utils/errors";
+
+/**
+ * Admin Job Queue Routes
+ * ----------------------
+ * Mounted under `/admin/jobs` by Fastify autoload folder prefix.
+ *
+ * - GET  /admin/jobs/queue                  - Queue entries (filter by jobKey / status)
+ * - POST /admin/jobs/queue/:queueId/requeue - Requeue a dead-lettered entry
+ * - POST /admin/jobs/runs/:runId/requeue    - Requeue a failed run
+ */
+const adminJobQueueRoutes: FastifyPluginAsync = async (fastify) => {
+  // GET /admin/jobs/queue - List queue entries (newest first)
+  fastify.get<{
+    Querystring: { jobKey?: string; status?: string; limit?: number };
+    Reply: AdminJobQueueListResponse;
+  }>(
+    "/queue",
+    {
+      schema: {
+        querystring: {
+          type: "object",
+          properties: {
+            jobKey: { type: "string" },
+            status: {
+              type: "string",
+              enum: Object.values(JobQueueStatus),
+            },
+            limit: { type: "number", default: 20 },
+          },
+        },
+        response: { 200: { type: "object" } },
+      },
+    },
+    async (req, reply): Promise<AdminJobQueueListResponse> => {
+      const { jobKey, status } = req.query ?? {};
+      const limit = Math.min(Math.max(req.query?.limit ?? 20, 1), 200);
+
+      const entries = await prisma.jobQueue.findMany({
+        where: {
+          ...(jobKey ? { jobKey } : {}),
+          ...(status ? { status: status as JobQueueStatus } : {}),
+        },
+        orderBy: { id: "desc" },
+        take: limit,
+      });
+
+      return reply.send({
+        status: "success",
+        data: entries.map(
+          (e): AdminJobQueueEntry => ({
+            id: e.id,
+            jobKey: e.jobKey,
+            status: e.status,
+            priority: e.priority,
+            attempts: e.attempts,
+            maxAttempts: e.maxAttempts,
+            runAt: e.runAt.toISOString(),
+            lockedBy: e.lockedBy ?? null,
+            lastError: e.lastError ?? null,
+            lastRunId: e.lastRunId ?? null,
+            triggeredBy: e.triggeredBy ? String(e.triggeredBy) : null,
+            createdAt: e.createdAt.toISOString(),
+            finishedAt: e.finishedAt?.toISOString() ?? null,
+          })
+        ),
+        message: "Job queue fetched successfully",
+      });
+    }
+  );
+
+  // POST /admin/jobs/queue/:queueId/requeue - Requeue a dead-lettered entry
+  fastify.post<{
+    Params: { queueId: string };
+    Reply: AdminRequeueJobResponse;
+  }>(
+    "/queue/:queueId/requeue",
+    {
+      schema: {
+        params: {
+          type: "object",
+          properties: { queueId: { type: "string" } },
+          required: ["queueId"],
+        },
+        response: { 200: { type: "object" } },
+      },
+    },
+    async (req, reply): Promise<AdminRequeueJobResponse> => {
+      const queueId = Number(req.params.queueId);
+      if (!Number.isInteger(queueId)) {
+        throw new BadRequestError("Invalid queue entry id");
+      }
+      const { jobKey } = await requeueQueueEntry(queueId);
+
+      auditFromRequest(req, reply, {
+        action: "job.requeue",
+        category: "jobs",
+        description: `Requeued "${jobKey}" (queue entry #${queueId})`,
+        targetType: "job",
+        targetId: jobKey,
+        metadata: { queueId },
+      });
+
+      return reply.send({
+        status: "success",
+        data: { queueId, jobKey },
+        message: "Job requeued",
+      });
+    }
+  );
+
+  // POST /admin/jobs/runs/:runId/requeue - Requeue a failed run
+  fastify.post<{
+    Params: { runId: string };
+    Reply: AdminRequeueJobResponse;
+  }>(
+    "/runs/:runId/requeue",
+    {
+      schema: {
+        params: {
+          type: "object",
+          properties: { runId: { type: "string" } },
+          required: ["runId"],
+        },
+        response: { 200: { type: "object" } },
+      },
+    },
+    async (req, reply): Promise<AdminRequeueJobResponse> => {
+      const runId = Number(req.params.runId);
+      if (!Number.isInteger(runId)) {
+        throw new BadRequestError("Invalid run id");
+      }
+      const adminId = req.adminAuth?.user?.id;
+      const { id: queueId, jobKey } = await requeueJobRun(
+        runId,
+        adminId != null ? String(adminId) : null
+      );
+
+      auditFromRequest(req, reply, {
+        action: "job.requeue",
+        category: "jobs",
+        description: `Requeued failed run #${runId} of "${jobKey}"`,
+        targetType: "job",
+        targetId: jobKey,
+        metadata: { runId, queueId },
+      });
+
+      return reply.send({
+        status: "success",
+        data: { queueId, jobKey },
+        message: "Job requeued",
+      });
+    }
+  );
+};
+
+export default adminJobQueueRoutes;
@@ -14,6 +14,10 @@ import {
   getFixturePredictions,
 } from "../../../services/admin/official-groups.service";
 import { evaluateGroupBadges, evaluateSingleBadge } from "../../../services/api/groups/service/badge-evaluation";
+import {
+  getScoringStrategies,
+  getScoringPreview,
+} from "../../../services/api/groups/service/scoring-strategies";
 import type {
   AdminOfficialGroupsListResponse,
   AdminCreateOfficialGroupBody,
@@ -28,6 +32,9 @@ import type {
   AdminUpdateOfficialGroupRulesBody,
   AdminUpdateOfficialGroupRulesResponse,
   AdminOfficialGroupFixturePredictionsResponse,
+  ApiScoringStrategiesResponse,
+  ApiScoringPreviewBody,
+  ApiScoringPreviewResponse,
 } from "@repo/types";
 
 /**
@@ -77,6 +84,21 @@ const officialGroupsRoutes: FastifyPluginAsync = async (fastify) => {
     });
   });
 
+  // GET /admin/official-groups/scoring-strategies
+  fastify.get<{
+    Reply: ApiScoringStrategiesResponse;
+  }>("/scoring-strategies", async (_req, reply) => {
+    return reply.send(getScoringStrategies());
+  });
+
+  // POST /admin/official-groups/scoring-preview
+  fastify.post<{
+    Body: ApiScoringPreviewBody;
+    Reply: ApiScoringPreviewResponse;
+  }>("/scoring-preview", async (req, reply) => {
+    return reply.send(getScoringPreview(req.body));
+  });
+
   // GET /admin/official-groups/:id
   fastify.get<{
     Params: { id: string };
@@ -0,0 +1,73 @@
+// src/routes/admin/outrights/outrights.route.ts
+// Admin outright settlement API. Mounted under /admin/outrights by Fastify autoload.
+
+import type { FastifyPluginAsync } from "fastify";
+import type {
+  AdminOutrightSeasonsResponse,
+  AdminOutrightSettlementResponse,
+} from "@repo/types";
+import { auditFromRequest } from "../../../services/admin/audit-log.service";
+import {
+  listOutrightSeasons,
+  previewOutrightSettlement,
+  confirmOutrightSettlement,
+} from "../../../services/admin/outrights.service";
+
+const seasonParamsSchema = {
+  type: "object",
+  required: ["seasonId"],
+  properties: { seasonId: { type: "number", minimum: 1 } },
+} as const;
+
+const outrightsRoutes: FastifyPluginAsync = async (fastify) => {
+  // GET /admin/outrights/seasons — seasons with outright markets
+  fastify.get<{ Reply: AdminOutrightSeasonsResponse }>(
+    "/seasons",
+    async (_req, reply) => {
+      const data = await listOutrightSeasons();
+      return reply.send({ status: "success", data, message: "OK" });
+    }
+  );
+
+  // GET /admin/outrights/seasons/:seasonId/settlement — preview from current standings
+  fastify.get<{
+    Params: { seasonId: number };
+    Reply: AdminOutrightSettlementResponse;
+  }>(
+    "/seasons/:seasonId/settlement",
+    { schema: { params: seasonParamsSchema } },
+    async (req, reply) => {
+      const data = await previewOutrightSettlement(Number(req.params.seasonId));
+      return reply.send({ status: "success", data, message: "OK" });
+    }
+  );
+
+  // POST /admin/outrights/seasons/:seasonId/settlement — confirm and store the settlement
+  fastify.post<{
+    Params: { seasonId: number };
+    Reply: AdminOutrightSettlementResponse;
+  }>(
+    "/seasons/:seasonId/settlement",
+    { schema: { params: seasonParamsSchema } },
+    async (req, reply) => {
+      const seasonId = Number(req.params.seasonId);
+      const data = await confirmOutrightSettlement(seasonId);
+
+      auditFromRequest(req, reply, {
+        action: "outrights.settle",
+        category: "outrights",
+        description: `Settled ${data.items.length} outright market(s) for season #${seasonId}`,
+        targetType: "season",
+        targetId: String(seasonId),
+      });
+
+      return reply.send({
+        status: "success",
+        data,
+        message: "Outright settlement confirmed",
+      });
+    }
+  );
+};
+
+export default outrightsRoutes;
@@ -1,7 +1,7 @@
 import { FastifyPluginAsync } from "fastify";
-import { RunTrigger } from "@repo/db";
+import { JobTriggerBy, RunTrigger } from "@repo/db";
 import { startSeedBatch } from "../../../../etl/seeds/seed.utils";
-import { processBatchSeedSeasons } from "../../../../jobs/tasks/batch-seed-seasons.job";
+import { enqueueJob } from "../../../../jobs/job-queue";
 import type {
   AdminBatchSeedSeasonsRequest,
   AdminBatchSeedSeasonsResponse,
@@ -86,8 +86,10 @@ const batchSeedSeasonsRoutes: FastifyPluginAsync = async (fastify) => {
 
         const jobId = String(batch.id);
 
-        setImmediate(() => {
-          processBatchSeedSeasons({
+        // Seeding runs on a job worker; progress is tracked in the batch meta
+        await enqueueJob({
+          jobKey: "batch-seed-seasons",
+          payload: {
             batchId: Number(batch.id),
             seasonExternalIds,
             includeTeams,
@@ -95,9 +97,9 @@ const batchSeedSeasonsRoutes: FastifyPluginAsync = async (fastify) => {
             futureOnly,
             triggeredBy: userId ? "user" : null,
             triggeredById: userId,
-          }).catch((err) => {
-            fastify.log.error({ err, batchId: batch.id }, "Batch seed failed");
-          });
+          },
+          triggeredBy: JobTriggerBy.admin_ui,
+          triggeredById: userId,
         });
 
         auditFromRequest(req, reply, { action: "sync.batch-seed-seasons", category: "sync", description: `Batch seed seasons queued (${seasonExternalIds.length} seasons)`, metadata: { seasonExternalIds, includeTeams, includeFixtures, futureOnly, jobId } });
@@ -1,6 +1,7 @@
 // src/routes/admin/sync/fixtures.route.ts
 import { FastifyPluginAsync } from "fastify";
 import { syncFixtures } from "../../../../etl/sync/sync.fixtures";
+import { applyVoidedFixturePolicy } from "../../../../services/api/groups/service/voided-fixtures";
 import { adapter } from "../../../../utils/adapter";
 import { availabilityService } from "../../../../services/availability.service";
 import { AdminSyncFixturesResponse } from "@repo/types";
@@ -397,6 +398,7 @@ const adminSyncFixturesRoutes: FastifyPluginAsync = async (fastify) => {
               dryRun,
               bypassStateValidation: !dryRun,
             });
+            await applyVoidedFixturePolicy(result, fastify.io);
             await availabilityService.invalidateCache().catch(() => {});
             const ok = result.inserted + result.updated;
             auditFromRequest(req, reply, { action: "sync.fixtures.bulk", category: "sync", description: `Bulk synced fixtures (${ok} ok, ${result.failed} fail)${dryRun ? " [dry-run]" : ""}`, metadata: { dryRun, ok, fail: result.failed, total: result.total, requested: externalIds.length } });
@@ -488,6 +490,7 @@ const adminSyncFixturesRoutes: FastifyPluginAsync = async (fastify) => {
               dryRun,
               bypassStateValidation: !dryRun,
             });
+            await applyVoidedFixturePolicy(result, fastify.io);
             await availabilityService.invalidateCache().catch(() => {});
             const ok = result.inserted + result.updated;
             auditFromRequest(req, reply, { action: "sync.fixtures.single", category: "sync", description: `Synced fixture #${id}`, targetType: "fixture", targetId: id });
@@ -1,7 +1,7 @@
 import { FastifyPluginAsync } from "fastify";
-import { prisma, RunTrigger } from "@repo/db";
+import { JobTriggerBy, prisma, RunTrigger } from "@repo/db";
 import { startSeedBatch } from "../../../../etl/seeds/seed.utils";
-import { processSeedSeason } from "../../../../jobs/tasks/seed-season.job";
+import { enqueueJob } from "../../../../jobs/job-queue";
 import { adapter } from "../../../../utils/adapter";
 import type {
   AdminSeedSeasonRequest,
@@ -180,20 +180,21 @@ const seedSeasonRoutes: FastifyPluginAsync = async (fastify) => {
 
         const jobId = String(batch.id);
 
-        setImmediate(() => {
-          processSeedSeason({
+        // Seeding runs on a job worker; progress is tracked in the seed batch
+        const userId = (req as { user?: { id?: string } }).user?.id ?? null;
+        await enqueueJob({
+          jobKey: "seed-season",
+          payload: {
             seasonExternalId,
             includeTeams,
             includeFixtures,
             futureOnly,
             batchId: batch.id,
-            triggeredBy: (req as { user?: { id?: string } }).user?.id
-              ? "user"
-              : null,
-            triggeredById: (req as { user?: { id?: string } }).user?.id ?? null,
-          }).catch(() => {
-            // Error already handled in processSeedSeason (finishSeedBatch)
-          });
+            triggeredBy: userId ? "user" : null,
+            triggeredById: userId,
+          },
+          triggeredBy: JobTriggerBy.admin_ui,
+          triggeredById: userId,
         });
 
         auditFromRequest(req, reply, { action: "sync.seed-season", category: "sync", description: `Seed season queued for ${seasonExternalId}`, metadata: { seasonExternalId, includeTeams, includeFixtures, futureOnly, jobId } });
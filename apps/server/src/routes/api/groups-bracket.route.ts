@@ -0,0 +1,51 @@
+// src/routes/api/groups-bracket.route.ts
+// Routes for a group's head-to-head knockout bracket.
+
+import type { FastifyPluginAsync } from "fastify";
+import { getGroupBracket, startGroupBracket } from "../../services/api/groups";
+import type { ApiGroupBracketResponse } from "@repo/types";
+import { getGroupParamsSchema } from "../../schemas/api";
+
+const bracketRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.addHook("preHandler", fastify.userAuth.requireOnboardingComplete);
+
+  // GET /api/groups/:id/bracket — the group's bracket (data is null when none was started)
+  fastify.get<{
+    Params: { id: number };
+    Reply: ApiGroupBracketResponse;
+  }>(
+    "/groups/:id/bracket",
+    {
+      schema: {
+        params: getGroupParamsSchema,
+      },
+    },
+    async (req, reply) => {
+      const groupId = Number(req.params.id);
+      const userId = req.userAuth!.user.id;
+      const result = await getGroupBracket(groupId, userId);
+      return reply.send(result);
+    }
+  );
+
+  // POST /api/groups/:id/bracket — seed members from the ranking and start the bracket (creator only)
+  fastify.post<{
+    Params: { id: number };
+    Reply: ApiGroupBracketResponse;
+  }>(
+    "/groups/:id/bracket",
+    {
+      schema: {
+        params: getGroupParamsSchema,
+      },
+    },
+    async (req, reply) => {
+      const groupId = Number(req.params.id);
+      const userId = req.userAuth!.user.id;
+      const result = await startGroupBracket(groupId, userId);
+      return reply.send(result);
+    }
+  );
+};
+
+export default bracketRoutes;
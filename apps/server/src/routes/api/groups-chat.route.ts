@@ -2,6 +2,28 @@ import type { FastifyPluginAsync } from "fastify";
 import * as chatService from "../../services/api/groups/service/chat";
 import { prisma } from "@repo/db";
 
+const mentionsSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      type: { type: "string", enum: ["user", "fixture"] },
+      id: { type: "number" },
+      display: { type: "string" },
+    },
+    required: ["type", "id", "display"],
+  },
+} as const;
+
+const messageParamsSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", pattern: "^\\d+$" },
+    messageId: { type: "string", pattern: "^\\d+$" },
+  },
+  required: ["id", "messageId"],
+} as const;
+
 const chatRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.addHook("preHandler", fastify.userAuth.requireOnboardingComplete);
 
@@ -65,6 +87,7 @@ const chatRoutes: FastifyPluginAsync = async (fastify) => {
         id: number;
         display: string;
       }>;
+      replyToId?: number;
     };
   }>("/groups/:id/messages", {
     schema: {
@@ -77,18 +100,8 @@ const chatRoutes: FastifyPluginAsync = async (fastify) => {
         type: "object",
         properties: {
           body: { type: "string", minLength: 1, maxLength: 2000 },
-          mentions: {
-            type: "array",
-            items: {
-              type: "object",
-              properties: {
-                type: { type: "string", enum: ["user", "fixture"] },
-                id: { type: "number" },
-                display: { type: "string" },
-              },
-              required: ["type", "id", "display"],
-            },
-          },
+          mentions: mentionsSchema,
+          replyToId: { type: "number", minimum: 1 },
         },
         required: ["body"],
         additionalProperties: false,
@@ -97,34 +110,132 @@ const chatRoutes: FastifyPluginAsync = async (fastify) => {
   }, async (req) => {
     const groupId = parseInt(req.params.id, 10);
     const userId = req.userAuth!.user.id;
-    const user = req.userAuth!.user;
 
     const message = await chatService.sendMessage(
       groupId,
       userId,
       req.body.body,
-      req.body.mentions
+      req.body.mentions,
+      req.body.replyToId
     );
 
     // Broadcast via Socket.IO too
-    fastify.io?.to(`group:${groupId}`).emit("message:new", {
-      id: message.id,
-      createdAt: message.createdAt.toISOString(),
-      groupId: message.groupId,
-      senderId: message.senderId,
-      type: message.type,
-      body: message.body,
-      meta: message.meta as Record<string, unknown> | null,
-      sender: {
-        id: user.id,
-        username: user.username,
-        image: user.image,
+    const payload = chatService.toChatMessagePayload(message);
+    fastify.io?.to(`group:${groupId}`).emit("message:new", payload);
+
+    return { data: payload };
+  });
+
+  // POST /api/groups/:id/messages/prediction — share own prediction for a group fixture as a chat card
+  fastify.post<{
+    Params: { id: string };
+    Body: { fixtureId: number; revealNow?: boolean };
+  }>("/groups/:id/messages/prediction", {
+    schema: {
+      params: {
+        type: "object",
+        properties: { id: { type: "string", pattern: "^\\d+$" } },
+        required: ["id"],
       },
-    });
+      body: {
+        type: "object",
+        properties: {
+          fixtureId: { type: "number", minimum: 1 },
+          revealNow: { type: "boolean" },
+        },
+        required: ["fixtureId"],
+        additionalProperties: false,
+      },
+    },
+  }, async (req) => {
+    const message = await chatService.sharePrediction(
+      parseInt(req.params.id, 10),
+      req.userAuth!.user.id,
+      req.body.fixtureId,
+      req.body.revealNow ?? false,
+      fastify.io
+    );
+    return { data: message };
+  });
+
+  // PATCH /api/groups/:id/messages/:messageId — edit own message within the edit window
+  fastify.patch<{
+    Params: { id: string; messageId: string };
+    Body: {
+      body: string;
+      mentions?: Array<{
+        type: "user" | "fixture";
+        id: number;
+        display: string;
+      }>;
+    };
+  }>("/groups/:id/messages/:messageId", {
+    schema: {
+      params: messageParamsSchema,
+      body: {
+        type: "object",
+        properties: {
+          body: { type: "string", minLength: 1, maxLength: 2000 },
+          mentions: mentionsSchema,
+        },
+        required: ["body"],
+        additionalProperties: false,
+      },
+    },
+  }, async (req) => {
+    const message = await chatService.editMessage(
+      parseInt(req.params.id, 10),
+      parseInt(req.params.messageId, 10),
+      req.userAuth!.user.id,
+      req.body.body,
+      req.body.mentions,
+      fastify.io
+    );
+    return { data: message };
+  });
 
+  // DELETE /api/groups/:id/messages/:messageId — soft delete (sender or group admin)
+  fastify.delete<{
+    Params: { id: string; messageId: string };
+  }>("/groups/:id/messages/:messageId", {
+    schema: { params: messageParamsSchema },
+  }, async (req) => {
+    const message = await chatService.deleteMessage(
+      parseInt(req.params.id, 10),
+      parseInt(req.params.messageId, 10),
+      req.userAuth!.user.id,
+      fastify.io
+    );
     return { data: message };
   });
 
+  // POST /api/groups/:id/messages/:messageId/reactions — toggle own emoji reaction
+  fastify.post<{
+    Params: { id: string; messageId: string };
+    Body: { emoji: string };
+  }>("/groups/:id/messages/:messageId/reactions", {
+    schema: {
+      params: messageParamsSchema,
+      body: {
+        type: "object",
+        properties: {
+          emoji: { type: "string", minLength: 1, maxLength: 16 },
+        },
+        required: ["emoji"],
+        additionalProperties: false,
+      },
+    },
+  }, async (req) => {
+    const reactions = await chatService.toggleReaction(
+      parseInt(req.params.id, 10),
+      parseInt(req.params.messageId, 10),
+      req.userAuth!.user.id,
+      req.body.emoji,
+      fastify.io
+    );
+    return { data: reactions };
+  });
+
   // POST /api/groups/:id/messages/read
   fastify.post<{
     Params: { id: string };
@@ -7,6 +7,8 @@ import {
   getPublicGroups,
   joinGroupByCode,
   getGroupPreview,
+  getScoringStrategies,
+  getScoringPreview,
 } from "../../services/api/groups";
 import type {
   ApiPublicGroupsQuery,
@@ -15,6 +17,9 @@ import type {
   ApiGroupResponse,
   ApiGroupPreviewBody,
   ApiGroupPreviewResponse,
+  ApiScoringStrategiesResponse,
+  ApiScoringPreviewBody,
+  ApiScoringPreviewResponse,
 } from "@repo/types";
 import {
   groupResponseSchema,
@@ -23,6 +28,9 @@ import {
   joinGroupByCodeBodySchema,
   groupPreviewBodySchema,
   groupPreviewResponseSchema,
+  scoringStrategiesResponseSchema,
+  scoringPreviewBodySchema,
+  scoringPreviewResponseSchema,
 } from "../../schemas/api";
 
 const discoverRoutes: FastifyPluginAsync = async (fastify) => {
@@ -94,6 +102,36 @@ const discoverRoutes: FastifyPluginAsync = async (fastify) => {
       return reply.send(result);
     }
   );
+
+  // GET /api/groups/scoring-strategies — available scoring strategies and their config fields
+  fastify.get<{ Reply: ApiScoringStrategiesResponse }>(
+    "/groups/scoring-strategies",
+    {
+      schema: {
+        response: { 200: scoringStrategiesResponseSchema },
+      },
+    },
+    async (_req, reply) => {
+      return reply.send(getScoringStrategies());
+    }
+  );
+
+  // POST /api/groups/scoring-preview — sample points for a strategy/config (read-only)
+  fastify.post<{
+    Body: ApiScoringPreviewBody;
+    Reply: ApiScoringPreviewResponse;
+  }>(
+    "/groups/scoring-preview",
+    {
+      schema: {
+        body: scoringPreviewBodySchema,
+        response: { 200: scoringPreviewResponseSchema },
+      },
+    },
+    async (req, reply) => {
+      return reply.send(getScoringPreview(req.body));
+    }
+  );
 };
 
 export default discoverRoutes;
@@ -1,5 +1,6 @@
 // src/routes/api/groups-members.route.ts
-// Routes for group membership: members list, join public group, invite codes, nudge.
+// Routes for group membership: members list, join public group, invite codes, nudge, moderation,
+// join requests.
 
 import type { FastifyPluginAsync } from "fastify";
 import {
@@ -8,11 +9,22 @@ import {
   generateInviteCode,
   getInviteCode,
   sendNudge,
+  removeGroupMember,
+  banGroupMember,
+  unbanGroupMember,
+  setGroupMemberRole,
+  transferGroupOwnership,
+  getJoinRequests,
+  acceptJoinRequest,
+  rejectJoinRequest,
 } from "../../services/api/groups";
 import type {
   ApiGroupResponse,
   ApiInviteCodeResponse,
+  ApiJoinRequestsResponse,
   ApiNudgeBody,
+  ApiTransferOwnershipBody,
+  ApiUpdateMemberRoleBody,
 } from "@repo/types";
 import {
   getGroupParamsSchema,
@@ -20,6 +32,11 @@ import {
   groupMembersResponseSchema,
   nudgeBodySchema,
   nudgeResponseSchema,
+  groupMemberParamsSchema,
+  updateMemberRoleBodySchema,
+  transferOwnershipBodySchema,
+  memberActionResponseSchema,
+  joinRequestsResponseSchema,
 } from "../../schemas/api";
 
 const inviteCodeResponseSchema = {
@@ -150,6 +167,205 @@ const membersRoutes: FastifyPluginAsync = async (fastify) => {
       }
     }
   );
+
+  // DELETE /api/groups/:id/members/:userId — remove a member (owner/admin)
+  fastify.delete<{
+    Params: { id: number; userId: number };
+    Reply: { success: boolean };
+  }>(
+    "/groups/:id/members/:userId",
+    {
+      schema: {
+        params: groupMemberParamsSchema,
+        response: { 200: memberActionResponseSchema },
+      },
+    },
+    async (req, reply) => {
+      const id = Number(req.params.id);
+      const userId = req.userAuth!.user.id;
+      const result = await removeGroupMember(
+        id,
+        userId,
+        Number(req.params.userId),
+        fastify.io
+      );
+      return reply.send(result);
+    }
+  );
+
+  // POST /api/groups/:id/members/:userId/ban — remove and ban a member (owner/admin)
+  fastify.post<{
+    Params: { id: number; userId: number };
+    Reply: { success: boolean };
+  }>(
+    "/groups/:id/members/:userId/ban",
+    {
+      schema: {
+        params: groupMemberParamsSchema,
+        response: { 200: memberActionResponseSchema },
+      },
+    },
+    async (req, reply) => {
+      const id = Number(req.params.id);
+      const userId = req.userAuth!.user.id;
+      const result = await banGroupMember(
+        id,
+        userId,
+        Number(req.params.userId),
+        fastify.io
+      );
+      return reply.send(result);
+    }
+  );
+
+  // DELETE /api/groups/:id/members/:userId/ban — lift a ban (owner/admin)
+  fastify.delete<{
+    Params: { id: number; userId: number };
+    Reply: { success: boolean };
+  }>(
+    "/groups/:id/members/:userId/ban",
+    {
+      schema: {
+        params: groupMemberParamsSchema,
+        response: { 200: memberActionResponseSchema },
+      },
+    },
+    async (req, reply) => {
+      const id = Number(req.params.id);
+      const userId = req.userAuth!.user.id;
+      const result = await unbanGroupMember(
+        id,
+        userId,
+        Number(req.params.userId),
+        fastify.io
+      );
+      return reply.send(result);
+    }
+  );
+
+  // PATCH /api/groups/:id/members/:userId/role — promote to admin / demote to member
+  fastify.patch<{
+    Params: { id: number; userId: number };
+    Body: ApiUpdateMemberRoleBody;
+    Reply: { success: boolean };
+  }>(
+    "/groups/:id/members/:userId/role",
+    {
+      schema: {
+        params: groupMemberParamsSchema,
+        body: updateMemberRoleBodySchema,
+        response: { 200: memberActionResponseSchema },
+      },
+    },
+    async (req, reply) => {
+      const id = Number(req.params.id);
+      const userId = req.userAuth!.user.id;
+      const result = await setGroupMemberRole(
+        id,
+        userId,
+        Number(req.params.userId),
+        req.body.role,
+        fastify.io
+      );
+      return reply.send(result);
+    }
+  );
+
+  // POST /api/groups/:id/transfer-ownership — hand the group to another member (owner only)
+  fastify.post<{
+    Params: { id: number };
+    Body: ApiTransferOwnershipBody;
+    Reply: { success: boolean };
+  }>(
+    "/groups/:id/transfer-ownership",
+    {
+      schema: {
+        params: getGroupParamsSchema,
+        body: transferOwnershipBodySchema,
+        response: { 200: memberActionResponseSchema },
+      },
+    },
+    async (req, reply) => {
+      const id = Number(req.params.id);
+      const userId = req.userAuth!.user.id;
+      const result = await transferGroupOwnership(
+        id,
+        userId,
+        req.body.userId,
+        fastify.io
+      );
+      return reply.send(result);
+    }
+  );
+
+  // GET /api/groups/:id/join-requests — pending join requests (owner/admin)
+  fastify.get<{
+    Params: { id: number };
+    Reply: ApiJoinRequestsResponse;
+  }>(
+    "/groups/:id/join-requests",
+    {
+      schema: {
+        params: getGroupParamsSchema,
+        response: { 200: joinRequestsResponseSchema },
+      },
+    },
+    async (req, reply) => {
+      const id = Number(req.params.id);
+      const userId = req.userAuth!.user.id;
+      const result = await getJoinRequests(id, userId);
+      return reply.send(result);
+    }
+  );
+
+  // POST /api/groups/:id/join-requests/:userId/accept — admit a pending member (owner/admin)
+  fastify.post<{
+    Params: { id: number; userId: number };
+    Reply: { success: boolean };
+  }>(
+    "/groups/:id/join-requests/:userId/accept",
+    {
+      schema: {
+        params: groupMemberParamsSchema,
+        response: { 200: memberActionResponseSchema },
+      },
+    },
+    async (req, reply) => {
+      const id = Number(req.params.id);
+      const userId = req.userAuth!.user.id;
+      const result = await acceptJoinRequest(
+        id,
+        userId,
+        Number(req.params.userId),
+        fastify.io
+      );
+      return reply.send(result);
+    }
+  );
+
+  // POST /api/groups/:id/join-requests/:userId/reject — decline a pending member (owner/admin)
+  fastify.post<{
+    Params: { id: number; userId: number };
+    Reply: { success: boolean };
+  }>(
+    "/groups/:id/join-requests/:userId/reject",
+    {
+      schema: {
+        params: groupMemberParamsSchema,
+        response: { 200: memberActionResponseSchema },
+      },
+    },
+    async (req, reply) => {
+      const id = Number(req.params.id);
+      const userId = req.userAuth!.user.id;
+      const result = await rejectJoinRequest(
+        id,
+        userId,
+        Number(req.params.userId)
+      );
+      return reply.send(result);
+    }
+  );
 };
 
 export default membersRoutes;
@@ -0,0 +1,98 @@
+// src/routes/api/groups-outrights.route.ts
+// Routes for outright (season-long) markets: list, create and member picks.
+
+import type { FastifyPluginAsync } from "fastify";
+import {
+  getGroupOutrights,
+  createGroupOutright,
+  saveOutrightPick,
+} from "../../services/api/groups";
+import type {
+  ApiCreateGroupOutrightBody,
+  ApiGroupOutrightsResponse,
+  ApiSaveOutrightPickBody,
+} from "@repo/types";
+import {
+  getGroupParamsSchema,
+  createGroupOutrightBodySchema,
+  saveOutrightPickBodySchema,
+} from "../../schemas/api";
+
+const outrightsRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.addHook("preHandler", fastify.userAuth.requireOnboardingComplete);
+
+  // GET /api/groups/:id/outrights
+  fastify.get<{
+    Params: { id: number };
+    Reply: ApiGroupOutrightsResponse;
+  }>(
+    "/groups/:id/outrights",
+    {
+      schema: {
+        params: getGroupParamsSchema,
+      },
+    },
+    async (req, reply) => {
+      const groupId = Number(req.params.id);
+      const userId = req.userAuth!.user.id;
+      const result = await getGroupOutrights(groupId, userId);
+      return reply.send(result);
+    }
+  );
+
+  // POST /api/groups/:id/outrights — add an outright market (creator only)
+  fastify.post<{
+    Params: { id: number };
+    Body: ApiCreateGroupOutrightBody;
+  }>(
+    "/groups/:id/outrights",
+    {
+      schema: {
+        params: getGroupParamsSchema,
+        body: createGroupOutrightBodySchema,
+      },
+    },
+    async (req, reply) => {
+      const groupId = Number(req.params.id);
+      const userId = req.userAuth!.user.id;
+      const result = await createGroupOutright(groupId, userId, req.body);
+      return reply.send(result);
+    }
+  );
+
+  // PUT /api/groups/:id/outrights/:outrightId/pick — save the member's pick
+  fastify.put<{
+    Params: { id: number; outrightId: number };
+    Body: ApiSaveOutrightPickBody;
+    Reply: { status: "success"; message: string };
+  }>(
+    "/groups/:id/outrights/:outrightId/pick",
+    {
+      schema: {
+        params: {
+          type: "object",
+          required: ["id", "outrightId"],
+          properties: {
+            id: { type: "number", minimum: 1 },
+            outrightId: { type: "number", minimum: 1 },
+          },
+        },
+        body: saveOutrightPickBodySchema,
+      },
+    },
+    async (req, reply) => {
+      const groupId = Number(req.params.id);
+      const outrightId = Number(req.params.outrightId);
+      const userId = req.userAuth!.user.id;
+      const result = await saveOutrightPick(
+        groupId,
+        outrightId,
+        userId,
+        req.body.teamIds
+      );
+      return reply.send(result);
+    }
+  );
+};
+
+export default outrightsRoutes;
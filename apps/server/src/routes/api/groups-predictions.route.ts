@@ -1,5 +1,5 @@
 // src/routes/api/groups-predictions.route.ts
-// Routes for predictions, predictions overview, and group ranking.
+// Routes for predictions, predictions overview, and group ranking (overall, per round / week, history).
 
 import type { FastifyPluginAsync } from "fastify";
 import {
@@ -7,16 +7,23 @@ import {
   saveGroupPredictionsBatch,
   getPredictionsOverview,
   getGroupRanking,
+  getPeriodRanking,
+  getRoundHistory,
+  getRankingHistory,
 } from "../../services/api/groups";
 import type {
+  ApiSideMarketPicks,
   ApiSaveGroupPredictionsBatchBody,
   ApiSaveGroupPredictionsBatchResponse,
   ApiPredictionsOverviewResponse,
+  ApiRankingMode,
+  ApiRankingPeriod,
 } from "@repo/types";
 import {
   getGroupParamsSchema,
   saveGroupPredictionsBatchBodySchema,
   saveGroupPredictionsBatchResponseSchema,
+  sideMarketPicksSchema,
   predictionsOverviewResponseSchema,
 } from "../../schemas/api";
 
@@ -26,7 +33,12 @@ const predictionsRoutes: FastifyPluginAsync = async (fastify) => {
   // PUT /api/groups/:id/predictions/:fixtureId — save single prediction
   fastify.put<{
     Params: { id: number; fixtureId: number };
-    Body: { home: number; away: number };
+    Body: {
+      home: number;
+      away: number;
+      isJoker?: boolean;
+      markets?: Partial<ApiSideMarketPicks>;
+    };
     Reply: { status: "success"; message: string };
   }>(
     "/groups/:id/predictions/:fixtureId",
@@ -46,6 +58,8 @@ const predictionsRoutes: FastifyPluginAsync = async (fastify) => {
           properties: {
             home: { type: "number", minimum: 0, maximum: 9 },
             away: { type: "number", minimum: 0, maximum: 9 },
+            isJoker: { type: "boolean" },
+            markets: sideMarketPicksSchema,
           },
         },
         response: {
@@ -64,11 +78,13 @@ const predictionsRoutes: FastifyPluginAsync = async (fastify) => {
       const groupId = Number(req.params.id);
       const fixtureId = Number(req.params.fixtureId);
       const userId = req.userAuth!.user.id;
-      const { home, away } = req.body;
+      const { home, away, isJoker, markets } = req.body;
 
       const result = await saveGroupPrediction(groupId, fixtureId, userId, {
         home,
         away,
+        isJoker,
+        markets,
       });
 
       return reply.send(result);
@@ -124,18 +140,96 @@ const predictionsRoutes: FastifyPluginAsync = async (fastify) => {
     }
   );
 
-  // GET /api/groups/:id/ranking
-  fastify.get<{ Params: { id: number } }>(
+  // GET /api/groups/:id/ranking?mode=settled|live
+  fastify.get<{ Params: { id: number }; Querystring: { mode?: ApiRankingMode } }>(
     "/groups/:id/ranking",
     {
       schema: {
         params: getGroupParamsSchema,
+        querystring: {
+          type: "object",
+          properties: {
+            mode: { type: "string", enum: ["settled", "live"] },
+          },
+        },
+      },
+    },
+    async (req, reply) => {
+      const id = Number(req.params.id);
+      const userId = req.userAuth!.user.id;
+      const result = await getGroupRanking(id, userId, req.query.mode);
+      return reply.send(result);
+    }
+  );
+
+  // GET /api/groups/:id/ranking/period?period=round|week&key= — one round or ISO week (default: latest started)
+  fastify.get<{
+    Params: { id: number };
+    Querystring: { period?: ApiRankingPeriod; key?: string };
+  }>(
+    "/groups/:id/ranking/period",
+    {
+      schema: {
+        params: getGroupParamsSchema,
+        querystring: {
+          type: "object",
+          properties: {
+            period: { type: "string", enum: ["round", "week"] },
+            key: { type: "string", minLength: 1, maxLength: 160 },
+          },
+        },
+      },
+    },
+    async (req, reply) => {
+      const id = Number(req.params.id);
+      const userId = req.userAuth!.user.id;
+      const result = await getPeriodRanking(
+        id,
+        userId,
+        req.query.period ?? "round",
+        req.query.key
+      );
+      return reply.send(result);
+    }
+  );
+
+  // GET /api/groups/:id/ranking/rounds — decided rounds with their winners
+  fastify.get<{ Params: { id: number } }>(
+    "/groups/:id/ranking/rounds",
+    { schema: { params: getGroupParamsSchema } },
+    async (req, reply) => {
+      const id = Number(req.params.id);
+      const userId = req.userAuth!.user.id;
+      const result = await getRoundHistory(id, userId);
+      return reply.send(result);
+    }
+  );
+
+  // GET /api/groups/:id/ranking/history?userIds=1,2&maxPoints= — rank and points over time
+  fastify.get<{
+    Params: { id: number };
+    Querystring: { userIds?: string; maxPoints?: number };
+  }>(
+    "/groups/:id/ranking/history",
+    {
+      schema: {
+        params: getGroupParamsSchema,
+        querystring: {
+          type: "object",
+          properties: {
+            userIds: { type: "string", pattern: "^\\d+(,\\d+)*$" },
+            maxPoints: { type: "integer", minimum: 2, maximum: 500 },
+          },
+        },
       },
     },
     async (req, reply) => {
       const id = Number(req.params.id);
       const userId = req.userAuth!.user.id;
-      const result = await getGroupRanking(id, userId);
+      const result = await getRankingHistory(id, userId, {
+        userIds: req.query.userIds?.split(",").map(Number),
+        maxPoints: req.query.maxPoints,
+      });
       return reply.send(result);
     }
   );
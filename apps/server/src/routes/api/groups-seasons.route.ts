@@ -0,0 +1,59 @@
+// src/routes/api/groups-seasons.route.ts
+// Routes for groups continued across seasons: next season and all-time table.
+
+import type { FastifyPluginAsync } from "fastify";
+import {
+  continueGroupToNextSeason,
+  getAllTimeTable,
+} from "../../services/api/groups";
+import type { ApiAllTimeTableResponse, ApiGroupResponse } from "@repo/types";
+import { getGroupParamsSchema, groupResponseSchema } from "../../schemas/api";
+
+const seasonsRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.addHook("preHandler", fastify.userAuth.requireOnboardingComplete);
+
+  // POST /api/groups/:id/next-season — archive the group and continue it into the next season (creator only)
+  fastify.post<{
+    Params: { id: number };
+    Reply: ApiGroupResponse;
+  }>(
+    "/groups/:id/next-season",
+    {
+      schema: {
+        params: getGroupParamsSchema,
+        response: { 200: groupResponseSchema },
+      },
+    },
+    async (req, reply) => {
+      const groupId = Number(req.params.id);
+      const userId = req.userAuth!.user.id;
+      const result = await continueGroupToNextSeason(
+        groupId,
+        userId,
+        fastify.io
+      );
+      return reply.send(result);
+    }
+  );
+
+  // GET /api/groups/:id/all-time — all-time table across the group's seasons
+  fastify.get<{
+    Params: { id: number };
+    Reply: ApiAllTimeTableResponse;
+  }>(
+    "/groups/:id/all-time",
+    {
+      schema: {
+        params: getGroupParamsSchema,
+      },
+    },
+    async (req, reply) => {
+      const groupId = Number(req.params.id);
+      const userId = req.userAuth!.user.id;
+      const result = await getAllTimeTable(groupId, userId);
+      return reply.send(result);
+    }
+  );
+};
+
+export default seasonsRoutes;
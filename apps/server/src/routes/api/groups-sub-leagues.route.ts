@@ -0,0 +1,239 @@
+// src/routes/api/groups-sub-leagues.route.ts
+// Routes for sub-leagues: private sub-tables inside a group with their own
+// ranking, chat channel and invite code.
+
+import type { FastifyPluginAsync } from "fastify";
+import {
+  getMySubLeagues,
+  createSubLeague,
+  joinSubLeagueByCode,
+  leaveSubLeague,
+  deleteSubLeague,
+  getSubLeagueRanking,
+  getSubLeagueMessages,
+  sendSubLeagueMessage,
+} from "../../services/api/groups";
+import type {
+  ApiCreateSubLeagueBody,
+  ApiJoinSubLeagueBody,
+  ApiSubLeagueRankingResponse,
+  ApiSubLeagueResponse,
+  ApiSubLeaguesResponse,
+} from "@repo/types";
+import {
+  getGroupParamsSchema,
+  createSubLeagueBodySchema,
+  joinSubLeagueBodySchema,
+} from "../../schemas/api";
+
+const subLeagueParamsSchema = {
+  type: "object",
+  required: ["id", "subLeagueId"],
+  properties: {
+    id: { type: "number", minimum: 1 },
+    subLeagueId: { type: "number", minimum: 1 },
+  },
+} as const;
+
+type SubLeagueParams = { id: number; subLeagueId: number };
+
+const subLeaguesRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.addHook("preHandler", fastify.userAuth.requireOnboardingComplete);
+
+  // GET /api/groups/:id/sub-leagues — the user's sub-leagues in the group
+  fastify.get<{
+    Params: { id: number };
+    Reply: ApiSubLeaguesResponse;
+  }>(
+    "/groups/:id/sub-leagues",
+    {
+      schema: {
+        params: getGroupParamsSchema,
+      },
+    },
+    async (req, reply) => {
+      const groupId = Number(req.params.id);
+      const userId = req.userAuth!.user.id;
+      const result = await getMySubLeagues(groupId, userId);
+      return reply.send(result);
+    }
+  );
+
+  // POST /api/groups/:id/sub-leagues — create a sub-league (any group member)
+  fastify.post<{
+    Params: { id: number };
+    Body: ApiCreateSubLeagueBody;
+    Reply: ApiSubLeagueResponse;
+  }>(
+    "/groups/:id/sub-leagues",
+    {
+      schema: {
+        params: getGroupParamsSchema,
+        body: createSubLeagueBodySchema,
+      },
+    },
+    async (req, reply) => {
+      const groupId = Number(req.params.id);
+      const userId = req.userAuth!.user.id;
+      const result = await createSubLeague(groupId, userId, req.body.name);
+      return reply.send(result);
+    }
+  );
+
+  // POST /api/groups/:id/sub-leagues/join — join a sub-league by invite code
+  fastify.post<{
+    Params: { id: number };
+    Body: ApiJoinSubLeagueBody;
+    Reply: ApiSubLeagueResponse;
+  }>(
+    "/groups/:id/sub-leagues/join",
+    {
+      schema: {
+        params: getGroupParamsSchema,
+        body: joinSubLeagueBodySchema,
+      },
+    },
+    async (req, reply) => {
+      const groupId = Number(req.params.id);
+      const userId = req.userAuth!.user.id;
+      const result = await joinSubLeagueByCode(
+        groupId,
+        userId,
+        req.body.inviteCode
+      );
+      return reply.send(result);
+    }
+  );
+
+  // GET /api/groups/:id/sub-leagues/:subLeagueId/ranking — ranking among the sub-league members
+  fastify.get<{
+    Params: SubLeagueParams;
+    Reply: ApiSubLeagueRankingResponse;
+  }>(
+    "/groups/:id/sub-leagues/:subLeagueId/ranking",
+    {
+      schema: {
+        params: subLeagueParamsSchema,
+      },
+    },
+    async (req, reply) => {
+      const groupId = Number(req.params.id);
+      const subLeagueId = Number(req.params.subLeagueId);
+      const userId = req.userAuth!.user.id;
+      const result = await getSubLeagueRanking(groupId, subLeagueId, userId);
+      return reply.send(result);
+    }
+  );
+
+  // DELETE /api/groups/:id/sub-leagues/:subLeagueId/members/me — leave the sub-league
+  fastify.delete<{
+    Params: SubLeagueParams;
+    Reply: { status: "success"; message: string };
+  }>(
+    "/groups/:id/sub-leagues/:subLeagueId/members/me",
+    {
+      schema: {
+        params: subLeagueParamsSchema,
+      },
+    },
+    async (req, reply) => {
+      const groupId = Number(req.params.id);
+      const subLeagueId = Number(req.params.subLeagueId);
+      const userId = req.userAuth!.user.id;
+      const result = await leaveSubLeague(groupId, subLeagueId, userId);
+      return reply.send(result);
+    }
+  );
+
+  // DELETE /api/groups/:id/sub-leagues/:subLeagueId — delete the sub-league (its creator only)
+  fastify.delete<{
+    Params: SubLeagueParams;
+    Reply: { status: "success"; message: string };
+  }>(
+    "/groups/:id/sub-leagues/:subLeagueId",
+    {
+      schema: {
+        params: subLeagueParamsSchema,
+      },
+    },
+    async (req, reply) => {
+      const groupId = Number(req.params.id);
+      const subLeagueId = Number(req.params.subLeagueId);
+      const userId = req.userAuth!.user.id;
+      const result = await deleteSubLeague(groupId, subLeagueId, userId);
+      return reply.send(result);
+    }
+  );
+
+  // GET /api/groups/:id/sub-leagues/:subLeagueId/messages?before=<cursor>&limit=30
+  fastify.get<{
+    Params: SubLeagueParams;
+    Querystring: { before?: number; limit?: number };
+  }>(
+    "/groups/:id/sub-leagues/:subLeagueId/messages",
+    {
+      schema: {
+        params: subLeagueParamsSchema,
+        querystring: {
+          type: "object",
+          properties: {
+            before: { type: "number", minimum: 1 },
+            limit: { type: "number", minimum: 1, maximum: 50 },
+          },
+        },
+      },
+    },
+    async (req) => {
+      const groupId = Number(req.params.id);
+      const subLeagueId = Number(req.params.subLeagueId);
+      const userId = req.userAuth!.user.id;
+      const messages = await getSubLeagueMessages(
+        groupId,
+        subLeagueId,
+        userId,
+        {
+          before: req.query.before,
+          limit: req.query.limit,
+        }
+      );
+      return { data: messages };
+    }
+  );
+
+  // POST /api/groups/:id/sub-leagues/:subLeagueId/messages — send to the sub-league channel
+  fastify.post<{
+    Params: SubLeagueParams;
+    Body: { body: string; replyToId?: number };
+  }>(
+    "/groups/:id/sub-leagues/:subLeagueId/messages",
+    {
+      schema: {
+        params: subLeagueParamsSchema,
+        body: {
+          type: "object",
+          properties: {
+            body: { type: "string", minLength: 1, maxLength: 2000 },
+            replyToId: { type: "number", minimum: 1 },
+          },
+          required: ["body"],
+          additionalProperties: false,
+        },
+      },
+    },
+    async (req) => {
+      const groupId = Number(req.params.id);
+      const subLeagueId = Number(req.params.subLeagueId);
+      const userId = req.userAuth!.user.id;
+      const message = await sendSubLeagueMessage(
+        groupId,
+        subLeagueId,
+        userId,
+        req.body.body,
+        req.body.replyToId
+      );
+      return { data: message };
+    }
+  );
+};
+
+export default subLeaguesRoutes;
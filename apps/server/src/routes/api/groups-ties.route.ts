@@ -0,0 +1,65 @@
+// src/routes/api/groups-ties.route.ts
+// Routes for two-legged ties: list with both legs and "who advances" picks.
+
+import type { FastifyPluginAsync } from "fastify";
+import { getGroupTies, saveTiePick } from "../../services/api/groups";
+import type { ApiGroupTiesResponse, ApiSaveTiePickBody } from "@repo/types";
+import { getGroupParamsSchema, saveTiePickBodySchema } from "../../schemas/api";
+
+const tiesRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.addHook("preHandler", fastify.userAuth.requireOnboardingComplete);
+
+  // GET /api/groups/:id/ties
+  fastify.get<{
+    Params: { id: number };
+    Reply: ApiGroupTiesResponse;
+  }>(
+    "/groups/:id/ties",
+    {
+      schema: {
+        params: getGroupParamsSchema,
+      },
+    },
+    async (req, reply) => {
+      const groupId = Number(req.params.id);
+      const userId = req.userAuth!.user.id;
+      const result = await getGroupTies(groupId, userId);
+      return reply.send(result);
+    }
+  );
+
+  // PUT /api/groups/:id/ties/:aggregateId/pick — save the member's "who advances" pick
+  fastify.put<{
+    Params: { id: number; aggregateId: string };
+    Body: ApiSaveTiePickBody;
+    Reply: { status: "success"; message: string };
+  }>(
+    "/groups/:id/ties/:aggregateId/pick",
+    {
+      schema: {
+        params: {
+          type: "object",
+          required: ["id", "aggregateId"],
+          properties: {
+            id: { type: "number", minimum: 1 },
+            aggregateId: { type: "string", minLength: 1, maxLength: 64 },
+          },
+        },
+        body: saveTiePickBodySchema,
+      },
+    },
+    async (req, reply) => {
+      const groupId = Number(req.params.id);
+      const userId = req.userAuth!.user.id;
+      const result = await saveTiePick(
+        groupId,
+        req.params.aggregateId,
+        userId,
+        req.body.teamId
+      );
+      return reply.send(result);
+    }
+  );
+};
+
+export default tiesRoutes;
@@ -126,11 +126,40 @@ const groupsRoutes: FastifyPluginAsync = async (fastify) => {
             status: { type: "string", enum: ["draft", "active", "ended"] },
             fixtureIds: { type: "array", items: { type: "number" } },
             inviteAccess: { type: "string", enum: ["all", "admin_only"] },
+            requiresApproval: { type: "boolean" },
+            predictionVisibility: {
+              type: "string",
+              enum: ["always", "after_own_prediction", "after_kickoff"],
+            },
+            voidedFixturePolicy: { type: "string", enum: ["void", "follow"] },
+            followWindowDays: { type: "integer", minimum: 1, maximum: 30 },
             nudgeEnabled: { type: "boolean" },
             nudgeWindowMinutes: { type: "number", minimum: 15, maximum: 1440 },
             onTheNosePoints: { type: "number", minimum: 0 },
             correctDifferencePoints: { type: "number", minimum: 0 },
             outcomePoints: { type: "number", minimum: 0 },
+            scoringStrategy: {
+              type: "string",
+              enum: [
+                "classic",
+                "goalDifferenceProximity",
+                "totalGoals",
+                "teamGoals",
+                "oddsWeighted",
+              ],
+            },
+            scoringConfig: {
+              type: "object",
+              additionalProperties: { type: "integer" },
+            },
+            underdogBonus: { type: "boolean" },
+            underdogMaxMultiplier: { type: "integer", minimum: 2, maximum: 10 },
+            jokerMode: { type: "string", enum: ["off", "round", "fixtures"] },
+            jokerFixturesPerCard: { type: "integer", minimum: 2, maximum: 20 },
+            bttsPoints: { type: "integer", minimum: 0, maximum: 10 },
+            overUnderPoints: { type: "integer", minimum: 0, maximum: 10 },
+            firstTeamToScorePoints: { type: "integer", minimum: 0, maximum: 10 },
+            advancePoints: { type: "integer", minimum: 0, maximum: 10 },
             avatarType: { type: "string", enum: ["gradient", "emoji", "image"] },
             avatarValue: { type: "string", maxLength: 255 },
           },
@@ -140,7 +169,7 @@ const groupsRoutes: FastifyPluginAsync = async (fastify) => {
     },
     async (req, reply) => {
       const id = Number(req.params.id);
-      const creatorId = req.userAuth!.user.id;
+      const actorId = req.userAuth!.user.id;
       const body = req.body;
 
       const result = await updateGroup(id, {
@@ -149,14 +178,28 @@ const groupsRoutes: FastifyPluginAsync = async (fastify) => {
         privacy: body.privacy,
         fixtureIds: body.fixtureIds,
         inviteAccess: body.inviteAccess,
+        requiresApproval: body.requiresApproval,
+        predictionVisibility: body.predictionVisibility,
+        voidedFixturePolicy: body.voidedFixturePolicy,
+        followWindowDays: body.followWindowDays,
         nudgeEnabled: body.nudgeEnabled,
         nudgeWindowMinutes: body.nudgeWindowMinutes,
         onTheNosePoints: body.onTheNosePoints,
         correctDifferencePoints: body.correctDifferencePoints,
         outcomePoints: body.outcomePoints,
+        scoringStrategy: body.scoringStrategy,
+        scoringConfig: body.scoringConfig,
+        underdogBonus: body.underdogBonus,
+        underdogMaxMultiplier: body.underdogMaxMultiplier,
+        jokerMode: body.jokerMode,
+        jokerFixturesPerCard: body.jokerFixturesPerCard,
+        bttsPoints: body.bttsPoints,
+        overUnderPoints: body.overUnderPoints,
+        firstTeamToScorePoints: body.firstTeamToScorePoints,
+        advancePoints: body.advancePoints,
         avatarType: body.avatarType,
         avatarValue: body.avatarValue,
-        creatorId,
+        actorId,
       }, fastify.io);
 
       return reply.send(result);
@@ -217,7 +260,20 @@ const groupsRoutes: FastifyPluginAsync = async (fastify) => {
         outcomePoints: body.outcomePoints,
         predictionMode: body.predictionMode,
         koRoundMode: body.koRoundMode,
+        scoringStrategy: body.scoringStrategy,
+        scoringConfig: body.scoringConfig,
+        underdogBonus: body.underdogBonus,
+        underdogMaxMultiplier: body.underdogMaxMultiplier,
+        jokerMode: body.jokerMode,
+        jokerFixturesPerCard: body.jokerFixturesPerCard,
+        bttsPoints: body.bttsPoints,
+        overUnderPoints: body.overUnderPoints,
+        firstTeamToScorePoints: body.firstTeamToScorePoints,
+        advancePoints: body.advancePoints,
         inviteAccess: body.inviteAccess,
+        predictionVisibility: body.predictionVisibility,
+        voidedFixturePolicy: body.voidedFixturePolicy,
+        followWindowDays: body.followWindowDays,
         maxMembers: body.maxMembers,
         creatorId,
       }, fastify.io);
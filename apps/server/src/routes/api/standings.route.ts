@@ -2,38 +2,22 @@
 // Routes for league standings (read-only).
 
 import { FastifyPluginAsync } from "fastify";
-import { adapter } from "../../utils/adapter";
+import type { ApiStandingsResponse } from "@repo/types";
+import { getSeasonStandings } from "../../services/api/standings";
 
 interface StandingsParams {
   seasonId: string;
 }
 
-interface StandingsResponse {
-  standings: Array<{
-    position: number;
-    teamExternalId: string | number;
-    teamName: string;
-    teamImagePath: string | null;
-    teamShortCode: string | null;
-    points: number;
-    played: number;
-    won: number;
-    drawn: number;
-    lost: number;
-    goalsFor: number;
-    goalsAgainst: number;
-    goalDifference: number;
-  }>;
-}
-
 const standingsRoutes: FastifyPluginAsync = async (fastify) => {
   /**
    * GET /api/standings/season/:seasonId
    *
-   * Returns league standings for a specific season.
-   * Fetches directly from provider (always fresh data).
+   * Returns league standings for a specific season (provider external id).
+   * Reads the table persisted by the sync-standings job; when the season has
+   * no synced table yet, it is recomputed from our finished fixtures.
    */
-  fastify.get<{ Params: StandingsParams; Reply: StandingsResponse }>(
+  fastify.get<{ Params: StandingsParams; Reply: ApiStandingsResponse }>(
     "/standings/season/:seasonId",
     {
       preHandler: fastify.userAuth.requireOnboardingComplete,
@@ -49,31 +33,15 @@ const standingsRoutes: FastifyPluginAsync = async (fastify) => {
     },
     async (req, reply) => {
       const { seasonId } = req.params;
-      const seasonIdNum = Number(seasonId);
 
-      if (isNaN(seasonIdNum)) {
-        return reply.code(400).send({ standings: [] });
+      if (isNaN(Number(seasonId))) {
+        return reply
+          .code(400)
+          .send({ standings: [], source: "fixtures", updatedAt: null });
       }
 
-      const standings = await adapter.fetchStandingsBySeason(seasonIdNum);
-
-      return reply.send({
-        standings: standings.map((s) => ({
-          position: s.position,
-          teamExternalId: s.teamExternalId,
-          teamName: s.teamName,
-          teamImagePath: s.teamImagePath,
-          teamShortCode: s.teamShortCode,
-          points: s.points,
-          played: s.played,
-          won: s.won,
-          drawn: s.drawn,
-          lost: s.lost,
-          goalsFor: s.goalsFor,
-          goalsAgainst: s.goalsAgainst,
-          goalDifference: s.goalDifference,
-        })),
-      });
+      const result = await getSeasonStandings(seasonId);
+      return reply.send(result);
     }
   );
 };
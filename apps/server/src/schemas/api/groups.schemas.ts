@@ -164,6 +164,27 @@ export const groupItemSchema = {
     onTheNosePoints: { type: "number" },
     correctDifferencePoints: { type: "number" },
     outcomePoints: { type: "number" },
+    scoringStrategy: { type: "string" },
+    scoringConfig: { type: "object", additionalProperties: { type: "number" } },
+    underdogBonus: { type: "boolean" },
+    underdogMaxMultiplier: { type: "integer" },
+    jokerMode: { type: "string" },
+    jokerFixturesPerCard: { type: "integer" },
+    bttsPoints: { type: "integer" },
+    overUnderPoints: { type: "integer" },
+    firstTeamToScorePoints: { type: "integer" },
+    advancePoints: { type: "integer" },
+    requiresApproval: { type: "boolean" },
+    predictionVisibility: { type: "string" },
+    voidedFixturePolicy: { type: "string" },
+    followWindowDays: { type: "integer" },
+    seasonId: { type: ["number", "null"] },
+    seasonName: { type: ["string", "null"] },
+    previousGroupId: { type: ["number", "null"] },
+    nextGroupId: { type: ["number", "null"] },
+    archivedAt: { type: ["string", "null"] },
+    userRole: { type: "string", enum: ["owner", "admin", "member"] },
+    membershipStatus: { type: "string", enum: ["joined", "pending"] },
     /** Last game of the group (latest fixture). Optional; included for active/ended and draft. */
     lastGame: { oneOf: [{ type: "object" }, { type: "null" }] },
   },
@@ -216,6 +237,66 @@ export const groupMembersResponseSchema = {
   },
 };
 
+export const joinRequestItemSchema = {
+  type: "object",
+  required: ["userId", "username", "image", "requestedAt"],
+  properties: {
+    userId: { type: "number" },
+    username: { type: ["string", "null"] },
+    image: { type: ["string", "null"] },
+    requestedAt: { type: "string" },
+  },
+};
+
+/** Response schema for GET /api/groups/:id/join-requests. */
+export const joinRequestsResponseSchema = {
+  type: "object",
+  required: ["status", "data", "message"],
+  properties: {
+    status: { type: "string", enum: ["success"] },
+    data: {
+      type: "array",
+      items: joinRequestItemSchema,
+    },
+    message: { type: "string" },
+  },
+};
+
+/** Params for /api/groups/:id/members/:userId moderation routes. */
+export const groupMemberParamsSchema = {
+  type: "object",
+  required: ["id", "userId"],
+  properties: {
+    id: { type: "number", minimum: 1 },
+    userId: { type: "number", minimum: 1 },
+  },
+};
+
+/** Body for PATCH /api/groups/:id/members/:userId/role. */
+export const updateMemberRoleBodySchema = {
+  type: "object",
+  required: ["role"],
+  properties: {
+    role: { type: "string", enum: ["admin", "member"] },
+  },
+};
+
+/** Body for POST /api/groups/:id/transfer-ownership. */
+export const transferOwnershipBodySchema = {
+  type: "object",
+  required: ["userId"],
+  properties: {
+    userId: { type: "number", minimum: 1 },
+  },
+};
+
+/** Response schema for member moderation routes. */
+export const memberActionResponseSchema = {
+  type: "object",
+  required: ["success"],
+  properties: { success: { type: "boolean" } },
+};
+
 export const groupFixturesResponseSchema = {
   type: "object",
   required: ["status", "data", "message"],
@@ -254,6 +335,20 @@ export const lobbySummaryResponseSchema = {
   },
 };
 
+/** Side-market picks on a prediction; omitted = unchanged, null = clear. */
+export const sideMarketPicksSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    btts: { type: ["boolean", "null"] },
+    overUnder: { type: ["string", "null"], enum: ["over", "under", null] },
+    firstTeamToScore: {
+      type: ["string", "null"],
+      enum: ["home", "away", "none", null],
+    },
+  },
+};
+
 export const saveGroupPredictionsBatchBodySchema = {
   type: "object",
   required: ["predictions"],
@@ -279,12 +374,70 @@ export const saveGroupPredictionsBatchBodySchema = {
             minimum: 0,
             maximum: 9,
           },
+          isJoker: {
+            type: "boolean",
+          },
+          markets: sideMarketPicksSchema,
         },
       },
     },
   },
 };
 
+export const createGroupOutrightBodySchema = {
+  type: "object",
+  required: ["market", "seasonId", "points", "deadline"],
+  additionalProperties: false,
+  properties: {
+    market: { type: "string", enum: ["champion", "top4", "relegation"] },
+    seasonId: { type: "integer", minimum: 1 },
+    points: { type: "integer", minimum: 1, maximum: 50 },
+    pickCount: { type: "integer", minimum: 1, maximum: 6 },
+    deadline: { type: "integer", minimum: 0 },
+  },
+};
+
+export const saveOutrightPickBodySchema = {
+  type: "object",
+  required: ["teamIds"],
+  additionalProperties: false,
+  properties: {
+    teamIds: {
+      type: "array",
+      minItems: 1,
+      maxItems: 6,
+      items: { type: "integer", minimum: 1 },
+    },
+  },
+};
+
+export const saveTiePickBodySchema = {
+  type: "object",
+  required: ["teamId"],
+  additionalProperties: false,
+  properties: {
+    teamId: { type: "integer", minimum: 1 },
+  },
+};
+
+export const createSubLeagueBodySchema = {
+  type: "object",
+  required: ["name"],
+  additionalProperties: false,
+  properties: {
+    name: { type: "string", minLength: 1, maxLength: 60 },
+  },
+};
+
+export const joinSubLeagueBodySchema = {
+  type: "object",
+  required: ["inviteCode"],
+  additionalProperties: false,
+  properties: {
+    inviteCode: { type: "string", minLength: 1, maxLength: 16 },
+  },
+};
+
 export const saveGroupPredictionsBatchResponseSchema = {
   type: "object",
   required: ["status", "message", "saved", "rejected"],
@@ -346,10 +499,74 @@ export const publishGroupBodySchema = {
     koRoundMode: {
       type: "string",
     },
+    scoringStrategy: {
+      type: "string",
+      enum: [
+        "classic",
+        "goalDifferenceProximity",
+        "totalGoals",
+        "teamGoals",
+        "oddsWeighted",
+      ],
+    },
+    scoringConfig: {
+      type: "object",
+      additionalProperties: { type: "integer" },
+    },
+    underdogBonus: {
+      type: "boolean",
+    },
+    underdogMaxMultiplier: {
+      type: "integer",
+      minimum: 2,
+      maximum: 10,
+    },
+    jokerMode: {
+      type: "string",
+      enum: ["off", "round", "fixtures"],
+    },
+    jokerFixturesPerCard: {
+      type: "integer",
+      minimum: 2,
+      maximum: 20,
+    },
+    bttsPoints: {
+      type: "integer",
+      minimum: 0,
+      maximum: 10,
+    },
+    overUnderPoints: {
+      type: "integer",
+      minimum: 0,
+      maximum: 10,
+    },
+    firstTeamToScorePoints: {
+      type: "integer",
+      minimum: 0,
+      maximum: 10,
+    },
+    advancePoints: {
+      type: "integer",
+      minimum: 0,
+      maximum: 10,
+    },
     inviteAccess: {
       type: "string",
       enum: ["all", "admin_only"],
     },
+    predictionVisibility: {
+      type: "string",
+      enum: ["always", "after_own_prediction", "after_kickoff"],
+    },
+    voidedFixturePolicy: {
+      type: "string",
+      enum: ["void", "follow"],
+    },
+    followWindowDays: {
+      type: "integer",
+      minimum: 1,
+      maximum: 30,
+    },
     maxMembers: {
       type: "number",
       minimum: 2,
@@ -576,3 +793,104 @@ export const groupPreviewResponseSchema = {
     },
   },
 };
+
+const scoringStrategyKeySchema = {
+  type: "string",
+  enum: [
+    "classic",
+    "goalDifferenceProximity",
+    "totalGoals",
+    "teamGoals",
+    "oddsWeighted",
+  ],
+};
+
+const scoringConfigSchema = {
+  type: "object",
+  additionalProperties: { type: "integer" },
+};
+
+/** Response schema for GET /api/groups/scoring-strategies. */
+export const scoringStrategiesResponseSchema = {
+  type: "object",
+  required: ["status", "data", "message"],
+  properties: {
+    status: { type: "string", enum: ["success"] },
+    data: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["key", "label", "description", "fields"],
+        properties: {
+          key: scoringStrategyKeySchema,
+          label: { type: "string" },
+          description: { type: "string" },
+          fields: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["key", "label", "min", "max", "default"],
+              properties: {
+                key: { type: "string" },
+                label: { type: "string" },
+                min: { type: "number" },
+                max: { type: "number" },
+                default: { type: "number" },
+              },
+            },
+          },
+          supportsMatchWinner: { type: "boolean" },
+          requiresOdds: { type: "boolean" },
+        },
+      },
+    },
+    message: { type: "string" },
+  },
+};
+
+/** Body schema for POST /api/groups/scoring-preview. */
+export const scoringPreviewBodySchema = {
+  type: "object",
+  required: ["scoringStrategy"],
+  additionalProperties: false,
+  properties: {
+    scoringStrategy: scoringStrategyKeySchema,
+    scoringConfig: scoringConfigSchema,
+    predictionMode: { type: "string", enum: ["CorrectScore", "MatchWinner"] },
+    onTheNosePoints: { type: "number", minimum: 0 },
+    correctDifferencePoints: { type: "number", minimum: 0 },
+    outcomePoints: { type: "number", minimum: 0 },
+    underdogBonus: { type: "boolean" },
+    underdogMaxMultiplier: { type: "integer", minimum: 2, maximum: 10 },
+  },
+};
+
+/** Response schema for POST /api/groups/scoring-preview. */
+export const scoringPreviewResponseSchema = {
+  type: "object",
+  required: ["status", "data", "message"],
+  properties: {
+    status: { type: "string", enum: ["success"] },
+    data: {
+      type: "object",
+      required: ["scoringStrategy", "scoringConfig", "rows"],
+      properties: {
+        scoringStrategy: scoringStrategyKeySchema,
+        scoringConfig: scoringConfigSchema,
+        rows: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["prediction", "result", "points"],
+            properties: {
+              prediction: { type: "string" },
+              result: { type: "string" },
+              points: { type: "number" },
+            },
+          },
+        },
+      },
+    },
+    message: { type: "string" },
+  },
+};
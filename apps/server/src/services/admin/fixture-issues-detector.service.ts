@@ -10,14 +10,16 @@
  * - overdue: NS fixtures past their start time
  * - noScores: Finished fixtures missing score data
  * - unsettled: Finished fixtures with unsettled predictions
- * - scoreMismatch: DB scores differ from provider scores
+ * - scoreMismatch: DB scores differ from provider scores, or (with a fallback
+ *   provider configured) the two providers disagree on the final score
  */
 
 import { prisma, Prisma } from "@repo/db";
 import type { FixtureState } from "@repo/db";
 import { LIVE_STATES, FINISHED_STATES } from "@repo/utils";
 import { nowUnixSeconds } from "../../utils/dates";
-import { adapter } from "../../utils/adapter";
+import { adapter, compositeAdapter } from "../../utils/adapter";
+import { PROVIDER_CONFIG } from "@repo/sports-data";
 import { getLogger } from "../../logger";
 
 const log = getLogger("FixtureIssuesDetector");
@@ -52,45 +54,30 @@ export type DetectionResult = {
 };
 
 export async function runFullDetection(): Promise<DetectionResult> {
-  const [stuck, overdue, noScores, unsettled, scoreMismatch] =
+  const [stuck, overdue, noScores, unsettled, scoreMismatch, crossProvider] =
     await Promise.all([
       detectStuck(),
       detectOverdue(),
       detectNoScores(),
       detectUnsettled(),
       detectScoreMismatch(),
+      detectCrossProviderMismatch(),
     ]);
 
+  // Cross-provider mismatches last: they win over a primary mismatch of the same fixture
   const allIssues = [
     ...stuck,
     ...overdue,
     ...noScores,
     ...unsettled,
     ...scoreMismatch,
+    ...crossProvider,
   ];
 
   // Upsert all detected issues
   let upserted = 0;
   for (const issue of allIssues) {
-    await prisma.fixtureIssues.upsert({
-      where: {
-        fixtureId_issueType: {
-          fixtureId: issue.fixtureId,
-          issueType: issue.issueType,
-        },
-      },
-      create: {
-        fixtureId: issue.fixtureId,
-        issueType: issue.issueType,
-        severity: issue.severity,
-        metadata: issue.metadata as Prisma.InputJsonObject,
-      },
-      update: {
-        severity: issue.severity,
-        metadata: issue.metadata as Prisma.InputJsonObject,
-        resolvedAt: null, // re-open if previously resolved
-      },
-    });
+    await upsertIssue(issue);
     upserted++;
   }
 
@@ -148,6 +135,137 @@ export async function resolveIssuesForFixture(
   return result.count;
 }
 
+/**
+ * Settlement gate: cross-check the final scores of finished fixtures with the
+ * fallback provider. Fixtures the providers disagree on get a scoreMismatch
+ * issue (metadata.source "crossProvider") and are held back from settlement
+ * until an admin settles them. Returns the fixture IDs that may be settled.
+ *
+ * Without a fallback provider, or when the fallback cannot be reached, every
+ * fixture is cleared: an outage of the second opinion must not block settlement.
+ */
+export async function crossCheckBeforeSettlement(
+  fixtureIds: number[]
+): Promise<number[]> {
+  if (!compositeAdapter || fixtureIds.length === 0) return fixtureIds;
+
+  const fixtures = await prisma.fixtures.findMany({
+    where: { id: { in: fixtureIds }, isSandbox: false },
+    select: CROSS_CHECK_FIXTURE_SELECT,
+  });
+  const { mismatches } = await crossCheckFixtures(fixtures);
+  for (const issue of mismatches) {
+    await upsertIssue(issue);
+  }
+
+  if (mismatches.length === 0) return fixtureIds;
+  const held = new Set(mismatches.map((i) => i.fixtureId));
+  log.warn(
+    { fixtureIds: [...held] },
+    "Providers disagree on final score; settlement held"
+  );
+  return fixtureIds.filter((id) => !held.has(id));
+}
+
+async function upsertIssue(issue: DetectedIssue): Promise<void> {
+  await prisma.fixtureIssues.upsert({
+    where: {
+      fixtureId_issueType: {
+        fixtureId: issue.fixtureId,
+        issueType: issue.issueType,
+      },
+    },
+    create: {
+      fixtureId: issue.fixtureId,
+      issueType: issue.issueType,
+      severity: issue.severity,
+      metadata: issue.metadata as Prisma.InputJsonObject,
+    },
+    update: {
+      severity: issue.severity,
+      metadata: issue.metadata as Prisma.InputJsonObject,
+      resolvedAt: null, // re-open if previously resolved
+    },
+  });
+}
+
+const CROSS_CHECK_FIXTURE_SELECT = {
+  id: true,
+  name: true,
+  externalId: true,
+  homeScore90: true,
+  awayScore90: true,
+  homeScoreET: true,
+  awayScoreET: true,
+} as const;
+
+type CrossCheckFixture = Prisma.fixturesGetPayload<{
+  select: typeof CROSS_CHECK_FIXTURE_SELECT;
+}>;
+
+/**
+ * Compare the final scores of both providers. Returns a scoreMismatch issue per
+ * disagreeing fixture, and the IDs that could not be checked (fetch failed).
+ */
+async function crossCheckFixtures(
+  fixtures: CrossCheckFixture[]
+): Promise<{ mismatches: DetectedIssue[]; failedIds: number[] }> {
+  const mismatches: DetectedIssue[] = [];
+  const failedIds: number[] = [];
+  if (!compositeAdapter) return { mismatches, failedIds };
+
+  const CHUNK_SIZE = 50;
+  for (let i = 0; i < fixtures.length; i += CHUNK_SIZE) {
+    const chunk = fixtures.slice(i, i + CHUNK_SIZE);
+    const byExternalId = new Map(chunk.map((f) => [f.externalId, f]));
+    try {
+      const checks = await compositeAdapter.crossCheckFinalScores(
+        chunk.map((f) => f.externalId)
+      );
+      for (const check of checks) {
+        const f = byExternalId.get(String(check.externalId));
+        if (!f || check.status !== "mismatch" || !check.secondary) continue;
+        const { primary, secondary } = check;
+        mismatches.push({
+          fixtureId: f.id,
+          issueType: "scoreMismatch",
+          severity: "critical",
+          metadata: {
+            source: "crossProvider",
+            secondaryProvider: PROVIDER_CONFIG.fallback,
+            fixtureName: f.name,
+            dbHomeScore90: f.homeScore90,
+            dbAwayScore90: f.awayScore90,
+            dbHomeScoreET: f.homeScoreET,
+            dbAwayScoreET: f.awayScoreET,
+            providerHomeScore90: secondary.homeScore90,
+            providerAwayScore90: secondary.awayScore90,
+            providerHomeScoreET: secondary.homeScoreET,
+            providerAwayScoreET: secondary.awayScoreET,
+            providerPenHome: secondary.penHome,
+            providerPenAway: secondary.penAway,
+            has90Mismatch:
+              primary?.homeScore90 !== secondary.homeScore90 ||
+              primary?.awayScore90 !== secondary.awayScore90,
+            hasETMismatch:
+              secondary.homeScoreET != null &&
+              primary?.homeScoreET != null &&
+              (primary.homeScoreET !== secondary.homeScoreET ||
+                primary.awayScoreET !== secondary.awayScoreET),
+          },
+        });
+      }
+    } catch (err) {
+      log.warn(
+        { err, chunkStart: i, chunkSize: chunk.length },
+        "Failed to cross-check final scores with fallback provider"
+      );
+      failedIds.push(...chunk.map((f) => f.id));
+    }
+  }
+  return { mismatches, failedIds };
+}
+
 // ─── Detectors ───
 
 async function detectStuck(): Promise<DetectedIssue[]> {
@@ -432,3 +550,40 @@ async function detectScoreMismatch(): Promise<DetectedIssue[]> {
 
   return issues;
 }
+
+/**
+ * Re-check active cross-provider mismatches so they are not auto-resolved
+ * while the providers still disagree. Issues that cannot be re-checked stay open.
+ */
+async function detectCrossProviderMismatch(): Promise<DetectedIssue[]> {
+  if (!compositeAdapter) return [];
+
+  const active = await prisma.fixtureIssues.findMany({
+    where: {
+      issueType: "scoreMismatch",
+      resolvedAt: null,
+      metadata: { path: ["source"], equals: "crossProvider" },
+    },
+    select: {
+      fixtureId: true,
+      severity: true,
+      metadata: true,
+      fixture: { select: CROSS_CHECK_FIXTURE_SELECT },
+    },
+  });
+  if (active.length === 0) return [];
+
+  const { mismatches, failedIds } = await crossCheckFixtures(
+    active.map((a) => a.fixture)
+  );
+  const failed = new Set(failedIds);
+  const kept: DetectedIssue[] = active
+    .filter((a) => failed.has(a.fixtureId))
+    .map((a) => ({
+      fixtureId: a.fixtureId,
+      issueType: "scoreMismatch",
+      severity: a.severity as DetectedIssue["severity"],
+      metadata: a.metadata as Record<string, unknown>,
+    }));
+  return [...mismatches, ...kept];
+}
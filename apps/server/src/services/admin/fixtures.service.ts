@@ -1,49 +1,142 @@
 // admin/fixtures.service.ts
-// Resettle and settlement summary for admin fixture management.
+// Resettle, resettle preview, settlement ledger and settlement summary for admin fixture management.
 
 import { prisma } from "@repo/db";
+import { FINISHED_STATES } from "@repo/utils";
 import type {
   AdminFixtureResettleResponse,
+  AdminFixtureResettlePreviewResponse,
+  AdminFixtureLedgerResponse,
   AdminFixtureGroupsSummaryResponse,
 } from "@repo/types";
-import { settlePredictionsForFixtures } from "../api/groups/service/settlement";
+import {
+  scorePredictionsForFixtures,
+  settlePredictionsForFixtures,
+} from "../api/groups/service/settlement";
+import { getCoreRanking } from "../api/groups/service/ranking";
+import { getTiebreakFields } from "../api/groups/ranking-order";
+import {
+  hasResultChanged,
+  projectRankChanges,
+  type SettlementReason,
+} from "../api/groups/settlement-ledger";
+import { BadRequestError, NotFoundError } from "../../utils/errors";
 
-/**
- * Re-settle predictions for a single FT fixture.
- * Loads fixture, verifies state is FT, counts groups containing it,
- * runs settlement, returns counts.
- */
-export async function resettleFixture(
-  fixtureId: number
-): Promise<AdminFixtureResettleResponse> {
+/** Loads the fixture and verifies it finished (FT, AET or FT_PEN). */
+async function findResettleableFixture(fixtureId: number) {
   const fixture = await prisma.fixtures.findUnique({
     where: { id: fixtureId },
     select: { id: true, state: true },
   });
 
   if (!fixture) {
-    const err = new Error("Fixture not found") as Error & {
-      statusCode?: number;
-    };
-    err.statusCode = 404;
-    throw err;
+    throw new NotFoundError("Fixture not found");
   }
 
-  if (fixture.state !== "FT") {
-    const err = new Error("Fixture must be FT to resettle") as Error & {
-      statusCode?: number;
-    };
-    err.statusCode = 400;
-    throw err;
+  if (!FINISHED_STATES.has(fixture.state)) {
+    throw new BadRequestError("Fixture must be finished to resettle");
   }
 
+  return fixture;
+}
+
+/**
+ * Preview of a resettle: rescores every prediction on the fixture with the current
+ * scores and rules, and returns per group the predictions whose points would
+ * change and the resulting rank changes. Writes nothing.
+ */
+export async function previewResettle(
+  fixtureId: number
+): Promise<AdminFixtureResettlePreviewResponse> {
+  const fixture = await findResettleableFixture(fixtureId);
+
+  const scoring = await scorePredictionsForFixtures([fixtureId], {
+    includeSettled: true,
+  });
+  const changed = (scoring?.scored ?? []).filter((p) =>
+    hasResultChanged(p.previous, p)
+  );
+
+  const byGroup = new Map<number, typeof changed>();
+  for (const p of changed) {
+    const list = byGroup.get(p.groupId) ?? [];
+    list.push(p);
+    byGroup.set(p.groupId, list);
+  }
+
+  const groupIds = [...byGroup.keys()];
+  const [groups, rules] = await Promise.all([
+    prisma.groups.findMany({
+      where: { id: { in: groupIds } },
+      select: { id: true, name: true },
+    }),
+    prisma.groupRules.findMany({
+      where: { groupId: { in: groupIds } },
+      select: { groupId: true, scoringStrategy: true },
+    }),
+  ]);
+  const nameById = new Map(groups.map((g) => [g.id, g.name]));
+  const strategyByGroup = new Map(
+    rules.map((r) => [r.groupId, r.scoringStrategy])
+  );
+
+  const previewGroups: AdminFixtureResettlePreviewResponse["groups"] = [];
+  for (const [groupId, predictions] of byGroup) {
+    const ranking = await getCoreRanking(groupId);
+    const usernameById = new Map(ranking.map((r) => [r.userId, r.username]));
+
+    previewGroups.push({
+      groupId,
+      groupName: nameById.get(groupId) ?? `Group ${groupId}`,
+      ruleVersion: scoring!.ruleVersionByGroup.get(groupId)!,
+      predictionChanges: predictions.map((p) => ({
+        predictionId: p.id,
+        userId: p.userId,
+        username: usernameById.get(p.userId) ?? null,
+        previousPoints: p.previous?.points ?? null,
+        newPoints: p.points,
+      })),
+      rankChanges: projectRankChanges(
+        ranking,
+        predictions.map((p) => ({
+          userId: p.userId,
+          previous: p.previous,
+          next: p,
+        })),
+        getTiebreakFields(strategyByGroup.get(groupId))
+      ),
+    });
+  }
+
+  return {
+    fixtureId,
+    state: fixture.state,
+    predictionsChanged: changed.length,
+    groups: previewGroups,
+  };
+}
+
+/**
+ * Re-settle predictions for a single finished fixture.
+ * Rescores settled predictions too; only those whose points changed are written,
+ * each with a ledger entry attributed to the admin.
+ */
+export async function resettleFixture(
+  fixtureId: number,
+  adminUserId?: number | null
+): Promise<AdminFixtureResettleResponse> {
+  await findResettleableFixture(fixtureId);
+
   const groupFixtures = await prisma.groupFixtures.findMany({
     where: { fixtureId },
     select: { groupId: true },
   });
   const groupsAffected = new Set(groupFixtures.map((gf) => gf.groupId)).size;
 
-  const result = await settlePredictionsForFixtures([fixtureId]);
+  const result = await settlePredictionsForFixtures([fixtureId], undefined, {
+    reason: "resettle",
+    adminUserId,
+  });
 
   return {
     groupsAffected,
@@ -51,6 +144,66 @@ export async function resettleFixture(
   };
 }
 
+/**
+ * Settlement ledger of a fixture, newest first, with the sync run or score change
+ * behind each entry.
+ */
+export async function getFixtureLedger(
+  fixtureId: number,
+  limit = 200
+): Promise<AdminFixtureLedgerResponse> {
+  const rows = await prisma.settlementLedger.findMany({
+    where: { fixtureId },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: limit,
+    include: {
+      groupPredictions: {
+        select: { users: { select: { username: true } } },
+      },
+      jobRun: { select: { id: true, jobKey: true } },
+      fixtureAuditLog: {
+        select: { id: true, source: true, changes: true, createdAt: true },
+      },
+    },
+  });
+
+  return {
+    data: rows.map((row) => ({
+      id: row.id,
+      createdAt: row.createdAt.toISOString(),
+      groupId: row.groupId,
+      groupPredictionId: row.groupPredictionId,
+      userId: row.userId,
+      username: row.groupPredictions.users?.username ?? null,
+      reason: row.reason as SettlementReason,
+      points: row.points,
+      previousPoints: row.previousPoints,
+      marketPoints: row.marketPoints,
+      ruleVersion: row.ruleVersion,
+      fixtureState: row.fixtureState,
+      homeScore90: row.homeScore90,
+      awayScore90: row.awayScore90,
+      homeScoreET: row.homeScoreET,
+      awayScoreET: row.awayScoreET,
+      penHome: row.penHome,
+      penAway: row.penAway,
+      jobRun: row.jobRun,
+      fixtureAudit: row.fixtureAuditLog
+        ? {
+            id: row.fixtureAuditLog.id,
+            source: row.fixtureAuditLog.source,
+            changes: row.fixtureAuditLog.changes as Record<
+              string,
+              { old: unknown; new: unknown }
+            >,
+            createdAt: row.fixtureAuditLog.createdAt.toISOString(),
+          }
+        : null,
+      adminUserId: row.adminUserId,
+    })),
+  };
+}
+
 /**
  * Get groups summary for a fixture: aggregate counts across all groups containing it.
  */
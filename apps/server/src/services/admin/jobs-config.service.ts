@@ -12,8 +12,10 @@ import { getLogger } from "../../logger";
 
 const log = getLogger("JobsConfig");
 import { isJobRunnable } from "../../jobs/jobs.registry";
+import { getJobGraph } from "../../jobs/job-chains";
 import { isUpdatePrematchOddsJobMeta } from "../../jobs/jobs.meta";
 import { isFinishedFixturesJobMeta } from "../../jobs/jobs.meta";
+import { isJobQueueMeta } from "../../jobs/jobs.meta";
 
 /**
  * Canonical job key for job-specific meta validation.
@@ -143,7 +145,7 @@ export class AdminJobsConfigService {
   constructor(private fastify: FastifyInstance) {}
 
   /**
-   * Get a single job by key with last 10 runs (for job detail page).
+   * Get a single job by key with last 10 runs and its run graph (for job detail page).
    * Throws NotFoundError if job does not exist.
    */
   async getJob(jobKey: string): Promise<AdminJobDetailResponse["data"]> {
@@ -173,6 +175,7 @@ export class AdminJobsConfigService {
         errorMessage: r.errorMessage ?? null,
         meta: (r.meta ?? {}) as Record<string, unknown>,
       })),
+      graph: getJobGraph(job.key),
     };
   }
 
@@ -309,6 +312,16 @@ export class AdminJobsConfigService {
       }
     }
 
+    // Queue settings are shared by all jobs (see JobQueueMeta).
+    if (
+      patch.meta?.["queue"] !== undefined &&
+      !isJobQueueMeta(patch.meta["queue"])
+    ) {
+      throw new BadRequestError(
+        "Invalid meta.queue: expected { maxAttempts?: 1-20, backoffSeconds?: 0-86400, backoffMultiplier?: 1-10, priority?: -100-100 }"
+      );
+    }
+
     // Normalize empty string cron to null.
     const scheduleCronRaw =
       typeof patch.scheduleCron === "string"
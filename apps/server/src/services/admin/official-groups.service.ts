@@ -7,6 +7,17 @@ import { getLogger } from "../../logger";
 import { NotFoundError, BadRequestError } from "../../utils/errors";
 import { OFFICIAL_MAX_MEMBERS, GROUP_STATUS } from "../api/groups/constants";
 import { repository as repo } from "../api/groups/repository";
+import {
+  validateScoringStrategy,
+  validateUnderdogMaxMultiplier,
+  validateJokerFixturesPerCard,
+  validateSideMarketPoints,
+} from "../api/groups/validators/group-validators";
+import {
+  DEFAULT_SCORING_STRATEGY,
+  getScoringStrategy,
+  resolveScoringConfig,
+} from "../api/groups/scoring-strategies";
 import { nowUnixSeconds } from "../../utils/dates";
 import type {
   AdminOfficialGroupItem,
@@ -113,6 +124,24 @@ export async function createOfficialGroup(
 ): Promise<AdminOfficialGroupItem> {
   const now = nowUnixSeconds();
 
+  // Validate the scoring strategy before creating anything
+  const scoringSelection =
+    body.scoringStrategy !== undefined || body.scoringConfig !== undefined
+      ? validateScoringStrategy(
+          body.scoringStrategy ?? DEFAULT_SCORING_STRATEGY,
+          body.scoringConfig,
+          body.predictionMode ?? "CorrectScore"
+        )
+      : undefined;
+  validateUnderdogMaxMultiplier(body.underdogMaxMultiplier);
+  validateJokerFixturesPerCard(body.jokerFixturesPerCard);
+  validateSideMarketPoints({
+    bttsPoints: body.bttsPoints,
+    overUnderPoints: body.overUnderPoints,
+    firstTeamToScorePoints: body.firstTeamToScorePoints,
+    advancePoints: body.advancePoints,
+  });
+
   // 1. Create the group as draft
   const group = await repo.createGroupWithMemberAndRules({
     name: body.name,
@@ -137,6 +166,15 @@ export async function createOfficialGroup(
     outcomePoints: body.outcomePoints,
     predictionMode: body.predictionMode as any,
     koRoundMode: body.koRoundMode as any,
+    ...scoringSelection,
+    underdogBonus: body.underdogBonus,
+    underdogMaxMultiplier: body.underdogMaxMultiplier,
+    jokerMode: body.jokerMode as any,
+    jokerFixturesPerCard: body.jokerFixturesPerCard,
+    bttsPoints: body.bttsPoints,
+    overUnderPoints: body.overUnderPoints,
+    firstTeamToScorePoints: body.firstTeamToScorePoints,
+    advancePoints: body.advancePoints,
   });
 
   // 3. Set isOfficial flag + remove admin as member
@@ -316,6 +354,19 @@ export async function getGroupDetails(groupId: number) {
           outcomePoints: rules.outcomePoints,
           koRoundMode: rules.koRoundMode,
           predictionMode: rules.predictionMode,
+          scoringStrategy: getScoringStrategy(rules.scoringStrategy).key,
+          scoringConfig: resolveScoringConfig(
+            rules.scoringStrategy,
+            rules.scoringConfig
+          ),
+          underdogBonus: rules.underdogBonus,
+          underdogMaxMultiplier: rules.underdogMaxMultiplier,
+          jokerMode: rules.jokerMode,
+          jokerFixturesPerCard: rules.jokerFixturesPerCard,
+          bttsPoints: rules.bttsPoints,
+          overUnderPoints: rules.overUnderPoints,
+          firstTeamToScorePoints: rules.firstTeamToScorePoints,
+          advancePoints: rules.advancePoints,
           maxMembers: rules.maxMembers,
           inviteAccess: rules.inviteAccess,
           nudgeEnabled: rules.nudgeEnabled,
@@ -335,6 +386,16 @@ export async function updateGroupRules(
     outcomePoints?: number;
     predictionMode?: string;
     koRoundMode?: string;
+    scoringStrategy?: string;
+    scoringConfig?: Record<string, number>;
+    underdogBonus?: boolean;
+    underdogMaxMultiplier?: number;
+    jokerMode?: string;
+    jokerFixturesPerCard?: number;
+    bttsPoints?: number;
+    overUnderPoints?: number;
+    firstTeamToScorePoints?: number;
+    advancePoints?: number;
     maxMembers?: number;
     inviteAccess?: string;
     nudgeEnabled?: boolean;
@@ -343,19 +404,58 @@ export async function updateGroupRules(
 ) {
   const group = await prisma.groups.findUnique({
     where: { id: groupId },
-    select: { id: true, isOfficial: true },
+    select: {
+      id: true,
+      isOfficial: true,
+      groupRules: { select: { scoringStrategy: true, predictionMode: true } },
+    },
   });
 
   if (!group || !group.isOfficial) {
     throw new NotFoundError("Official group not found");
   }
 
+  validateUnderdogMaxMultiplier(body.underdogMaxMultiplier);
+  validateJokerFixturesPerCard(body.jokerFixturesPerCard);
+  validateSideMarketPoints({
+    bttsPoints: body.bttsPoints,
+    overUnderPoints: body.overUnderPoints,
+    firstTeamToScorePoints: body.firstTeamToScorePoints,
+    advancePoints: body.advancePoints,
+  });
+
   const updateData: Record<string, unknown> = {};
+  if (
+    body.scoringStrategy !== undefined ||
+    body.scoringConfig !== undefined ||
+    body.predictionMode !== undefined
+  ) {
+    // Re-validate against the resulting strategy + prediction mode combination
+    const validated = validateScoringStrategy(
+      body.scoringStrategy ??
+        group.groupRules?.scoringStrategy ??
+        DEFAULT_SCORING_STRATEGY,
+      body.scoringConfig,
+      body.predictionMode ?? group.groupRules?.predictionMode ?? "CorrectScore"
+    );
+    if (body.scoringStrategy !== undefined || body.scoringConfig !== undefined) {
+      updateData.scoringStrategy = validated.scoringStrategy;
+      updateData.scoringConfig = validated.scoringConfig;
+    }
+  }
   if (body.onTheNosePoints !== undefined) updateData.onTheNosePoints = body.onTheNosePoints;
   if (body.correctDifferencePoints !== undefined) updateData.correctDifferencePoints = body.correctDifferencePoints;
   if (body.outcomePoints !== undefined) updateData.outcomePoints = body.outcomePoints;
   if (body.predictionMode !== undefined) updateData.predictionMode = body.predictionMode;
   if (body.koRoundMode !== undefined) updateData.koRoundMode = body.koRoundMode;
+  if (body.underdogBonus !== undefined) updateData.underdogBonus = body.underdogBonus;
+  if (body.underdogMaxMultiplier !== undefined) updateData.underdogMaxMultiplier = body.underdogMaxMultiplier;
+  if (body.jokerMode !== undefined) updateData.jokerMode = body.jokerMode;
+  if (body.jokerFixturesPerCard !== undefined) updateData.jokerFixturesPerCard = body.jokerFixturesPerCard;
+  if (body.bttsPoints !== undefined) updateData.bttsPoints = body.bttsPoints;
+  if (body.overUnderPoints !== undefined) updateData.overUnderPoints = body.overUnderPoints;
+  if (body.firstTeamToScorePoints !== undefined) updateData.firstTeamToScorePoints = body.firstTeamToScorePoints;
+  if (body.advancePoints !== undefined) updateData.advancePoints = body.advancePoints;
   if (body.maxMembers !== undefined) updateData.maxMembers = body.maxMembers;
   if (body.inviteAccess !== undefined) updateData.inviteAccess = body.inviteAccess;
   if (body.nudgeEnabled !== undefined) updateData.nudgeEnabled = body.nudgeEnabled;
@@ -0,0 +1,259 @@
+// src/services/admin/outrights.service.ts
+// Admin settlement of outright (season-long) markets from the provider's final standings.
+
+import { prisma } from "@repo/db";
+import type {
+  AdminOutrightSeasonItem,
+  AdminOutrightSettlementItem,
+  AdminOutrightSettlementResponse,
+} from "@repo/types";
+import { getLogger } from "../../logger";
+import { adapter } from "../../utils/adapter";
+import { nowUnixSeconds, toUnixSeconds } from "../../utils/dates";
+import { BadRequestError, NotFoundError } from "../../utils/errors";
+import {
+  invalidateRankingCache,
+  invalidateLiveRankingCache,
+} from "../../lib/cache-invalidation";
+import {
+  hasSeasonEnded,
+  resolveOutrightResult,
+  scoreOutrightPick,
+  type OutrightStandingRow,
+} from "../api/groups/outrights";
+
+const log = getLogger("OutrightSettlement");
+
+type SettlementData = AdminOutrightSettlementResponse["data"];
+
+type PickUpdate = {
+  id: number;
+  correctCount: number;
+  points: number;
+};
+
+type OutrightUpdate = {
+  outrightId: number;
+  groupId: number;
+  resultTeamIds: number[];
+  picks: PickUpdate[];
+};
+
+/**
+ * List seasons that have outright markets, newest end date first.
+ */
+export async function listOutrightSeasons(): Promise<AdminOutrightSeasonItem[]> {
+  const rows = await prisma.groupOutrights.findMany({
+    select: {
+      seasonId: true,
+      groupId: true,
+      settledAt: true,
+      seasons: {
+        select: { name: true, endDate: true, leagues: { select: { name: true } } },
+      },
+    },
+  });
+
+  const now = nowUnixSeconds();
+  const bySeason = new Map<
+    number,
+    AdminOutrightSeasonItem & { groupIds: Set<number> }
+  >();
+  for (const row of rows) {
+    let item = bySeason.get(row.seasonId);
+    if (!item) {
+      item = {
+        seasonId: row.seasonId,
+        seasonName: row.seasons.name,
+        leagueName: row.seasons.leagues?.name ?? null,
+        endDate: row.seasons.endDate,
+        hasEnded: hasSeasonEnded(row.seasons.endDate, now),
+        groupCount: 0,
+        outrightCount: 0,
+        unsettledCount: 0,
+        groupIds: new Set(),
+      };
+      bySeason.set(row.seasonId, item);
+    }
+    item.groupIds.add(row.groupId);
+    item.outrightCount++;
+    if (!row.settledAt) item.unsettledCount++;
+  }
+
+  return [...bySeason.values()]
+    .map(({ groupIds, ...item }) => ({ ...item, groupCount: groupIds.size }))
+    .sort((a, b) => b.endDate.localeCompare(a.endDate));
+}
+
+/**
+ * Compute the settlement of every outright market in the season from the
+ * provider's current standings. Nothing is written.
+ * Throws when the season has not ended or the standings can't be mapped to
+ * DB teams (a partial table would settle the wrong teams).
+ */
+async function computeSeasonSettlement(
+  seasonId: number
+): Promise<{ data: SettlementData; updates: OutrightUpdate[] }> {
+  const season = await prisma.seasons.findUnique({
+    where: { id: seasonId },
+    select: { id: true, name: true, endDate: true, externalId: true },
+  });
+  if (!season) {
+    throw new NotFoundError(`Season ${seasonId} not found`);
+  }
+  if (!hasSeasonEnded(season.endDate, nowUnixSeconds())) {
+    throw new BadRequestError(
+      `Season ${season.name} ends on ${season.endDate}; settle it after the last day`
+    );
+  }
+
+  const standings = await adapter.fetchStandingsBySeason(season.externalId);
+  if (standings.length === 0) {
+    throw new BadRequestError(`No standings available for season ${season.name}`);
+  }
+  const positions = new Set(standings.map((s) => s.position));
+  if (positions.size !== standings.length) {
+    throw new BadRequestError(
+      `Season ${season.name} has more than one standings table; outrights need a single league table`
+    );
+  }
+
+  const teams = await prisma.teams.findMany({
+    where: { externalId: { in: standings.map((s) => String(s.teamExternalId)) } },
+    select: { id: true, name: true, externalId: true },
+  });
+  const teamByExternalId = new Map(teams.map((t) => [t.externalId, t]));
+  const missing = standings.filter(
+    (s) => !teamByExternalId.has(String(s.teamExternalId))
+  );
+  if (missing.length > 0) {
+    throw new BadRequestError(
+      `Standings teams missing in DB: ${missing.map((s) => s.teamName).join(", ")}`
+    );
+  }
+
+  const table: OutrightStandingRow[] = standings.map((s) => ({
+    teamId: teamByExternalId.get(String(s.teamExternalId))!.id,
+    position: s.position,
+  }));
+  const teamNameById = new Map(teams.map((t) => [t.id, t.name]));
+
+  const outrights = await prisma.groupOutrights.findMany({
+    where: { seasonId },
+    select: {
+      id: true,
+      groupId: true,
+      market: true,
+      pickCount: true,
+      points: true,
+      settledAt: true,
+      groups: { select: { name: true } },
+      picks: { select: { id: true, teamIds: true } },
+    },
+    orderBy: [{ groupId: "asc" }, { id: "asc" }],
+  });
+
+  const items: AdminOutrightSettlementItem[] = [];
+  const updates: OutrightUpdate[] = [];
+  for (const outright of outrights) {
+    const resultTeamIds = resolveOutrightResult(
+      outright.market,
+      outright.pickCount,
+      table
+    );
+    const picks = outright.picks.map((pick) => ({
+      id: pick.id,
+      ...scoreOutrightPick(pick.teamIds, resultTeamIds, outright.points),
+    }));
+    updates.push({
+      outrightId: outright.id,
+      groupId: outright.groupId,
+      resultTeamIds,
+      picks,
+    });
+    items.push({
+      outrightId: outright.id,
+      groupId: outright.groupId,
+      groupName: outright.groups.name,
+      market: outright.market,
+      pickCount: outright.pickCount,
+      points: outright.points,
+      resultTeams: resultTeamIds.map((id) => ({
+        id,
+        name: teamNameById.get(id) ?? String(id),
+      })),
+      pickCountTotal: picks.length,
+      winnerCount: picks.filter((p) => p.correctCount > 0).length,
+      pointsAwarded: picks.reduce((sum, p) => sum + p.points, 0),
+      settledAt: outright.settledAt ? toUnixSeconds(outright.settledAt) : null,
+    });
+  }
+
+  return {
+    data: {
+      seasonId,
+      standings: [...table]
+        .sort((a, b) => a.position - b.position)
+        .map((row) => ({
+          position: row.position,
+          teamId: row.teamId,
+          teamName: teamNameById.get(row.teamId) ?? String(row.teamId),
+        })),
+      items,
+    },
+    updates,
+  };
+}
+
+/**
+ * Preview the season's outright settlement without writing it.
+ */
+export async function previewOutrightSettlement(
+  seasonId: number
+): Promise<SettlementData> {
+  const { data } = await computeSeasonSettlement(seasonId);
+  return data;
+}
+
+/**
+ * Confirm the season's outright settlement: store each market's result and
+ * every pick's points, then refresh the affected group rankings.
+ * Re-running overwrites a previous settlement (e.g. after a standings correction).
+ */
+export async function confirmOutrightSettlement(
+  seasonId: number
+): Promise<SettlementData> {
+  const { data, updates } = await computeSeasonSettlement(seasonId);
+  const settledAt = new Date();
+
+  await prisma.$transaction(
+    updates.flatMap((u) => [
+      prisma.groupOutrights.update({
+        where: { id: u.outrightId },
+        data: { resultTeamIds: u.resultTeamIds, settledAt, updatedAt: settledAt },
+      }),
+      ...u.picks.map((p) =>
+        prisma.groupOutrightPicks.update({
+          where: { id: p.id },
+          data: { correctCount: p.correctCount, points: p.points, updatedAt: settledAt },
+        })
+      ),
+    ])
+  );
+
+  const groupIds = [...new Set(updates.map((u) => u.groupId))];
+  await invalidateRankingCache(groupIds);
+  await invalidateLiveRankingCache(groupIds);
+
+  log.info(
+    { seasonId, outrights: updates.length, groups: groupIds.length },
+    "Outright settlement confirmed"
+  );
+  return {
+    ...data,
+    items: data.items.map((item) => ({
+      ...item,
+      settledAt: toUnixSeconds(settledAt),
+    })),
+  };
+}
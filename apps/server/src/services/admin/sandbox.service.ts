@@ -8,6 +8,7 @@ import {
   emitFixtureLiveEvents,
   emitFixtureFTEvents,
 } from "../api/groups/service/chat-events";
+import { assignJokerSlots } from "../api/groups/repository/fixtures";
 import { getLogger } from "../../logger";
 import type { TypedIOServer } from "../../types/socket";
 
@@ -99,6 +100,7 @@ async function createSandboxGroupWithFixtures(
     data: fixtureIds.map((fixtureId) => ({ groupId: group.id, fixtureId })),
     select: { id: true, groupId: true },
   });
+  await assignJokerSlots(tx, group.id);
 
   await tx.groupMembers.createMany({
     data: memberUserIds.map((userId, idx) => ({
@@ -429,6 +431,7 @@ export async function sandboxAddFixture(args: {
     await tx.groupFixtures.create({
       data: { groupId, fixtureId: fixture.id },
     });
+    await assignJokerSlots(tx, groupId);
 
     log.info(
       { groupId, fixtureId: fixture.id },
@@ -651,6 +654,7 @@ export async function sandboxResetFixture(fixtureId: number) {
       data: {
         settledAt: null,
         points: "0",
+        marketPoints: 0,
         winningCorrectScore: false,
         winningMatchWinner: false,
       },
@@ -893,6 +897,11 @@ export async function sandboxSendMessage(
         username: sender.username,
         image: sender.image,
       },
+      replyTo: null,
+      reactions: [],
+      editedAt: null,
+      deletedAt: null,
+      prediction: null,
     });
   }
 
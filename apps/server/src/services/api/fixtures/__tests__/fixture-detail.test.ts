@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// --- מוקים ---
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    fixtures: { findUnique: vi.fn() },
+    groupFixtures: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock("@repo/db", () => ({ prisma: mockPrisma }));
+
+import { getFixtureDetail } from "../fixture-detail";
+
+const HOUR = 60 * 60;
+const nowSec = () => Math.floor(Date.now() / 1000);
+
+const VIEWER = 1;
+
+function fixture(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 100,
+    name: "Arsenal vs Chelsea",
+    startIso: new Date().toISOString(),
+    startTs: nowSec() + HOUR,
+    state: "NS",
+    result: null,
+    homeTeamId: 10,
+    awayTeamId: 20,
+    homeTeam: { id: 10, name: "Arsenal", imagePath: null },
+    awayTeam: { id: 20, name: "Chelsea", imagePath: null },
+    league: null,
+    fixtureEvents: [],
+    ...overrides,
+  };
+}
+
+/** קבוצה אחת: הצופה ומשתמש 2 ניחשו את המשחק */
+function groupFixture(predictionVisibility: string) {
+  return {
+    groupId: 7,
+    groups: {
+      id: 7,
+      name: "החבר'ה",
+      groupRules: { predictionMode: "CorrectScore", predictionVisibility },
+    },
+    groupPredictions: [
+      {
+        userId: VIEWER,
+        prediction: "2:1",
+        settledAt: null,
+        points: "0",
+        users: { username: "me" },
+      },
+      {
+        userId: 2,
+        prediction: "0:0",
+        settledAt: null,
+        points: "0",
+        users: { username: "dana" },
+      },
+    ],
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.fixtures.findUnique.mockResolvedValue(fixture());
+});
+
+describe("getFixtureDetail — נראות ניחושים", () => {
+  it("always: ניחושי החברים גלויים לפני שריקת הפתיחה", async () => {
+    mockPrisma.groupFixtures.findMany.mockResolvedValue([
+      groupFixture("always"),
+    ]);
+
+    const data = await getFixtureDetail(100, VIEWER);
+
+    expect(data?.predictions[0]).toMatchObject({
+      prediction: "2:1",
+      othersVisible: true,
+      memberPredictions: [
+        { userId: 2, username: "dana", prediction: "0:0", points: null },
+      ],
+    });
+  });
+
+  it("after_own_prediction: מי שניחש רואה את ניחושי החברים", async () => {
+    mockPrisma.groupFixtures.findMany.mockResolvedValue([
+      groupFixture("after_own_prediction"),
+    ]);
+
+    const data = await getFixtureDetail(100, VIEWER);
+
+    expect(data?.predictions[0]?.othersVisible).toBe(true);
+    expect(data?.predictions[0]?.memberPredictions).toHaveLength(1);
+  });
+
+  it("after_kickoff: ניחושי החברים מוסתרים עד שריקת הפתיחה", async () => {
+    mockPrisma.groupFixtures.findMany.mockResolvedValue([
+      groupFixture("after_kickoff"),
+    ]);
+
+    const data = await getFixtureDetail(100, VIEWER);
+
+    expect(data?.predictions[0]).toMatchObject({
+      prediction: "2:1",
+      othersVisible: false,
+      memberPredictions: [],
+    });
+  });
+
+  it("after_kickoff: אחרי שריקת הפתיחה הניחושים נחשפים", async () => {
+    mockPrisma.fixtures.findUnique.mockResolvedValue(
+      fixture({ startTs: nowSec() - HOUR, state: "INPLAY_1ST_HALF" })
+    );
+    mockPrisma.groupFixtures.findMany.mockResolvedValue([
+      groupFixture("after_kickoff"),
+    ]);
+
+    const data = await getFixtureDetail(100, VIEWER);
+
+    expect(data?.predictions[0]?.othersVisible).toBe(true);
+  });
+
+  it("מחזיר רק קבוצות שהצופה חבר פעיל בהן", async () => {
+    mockPrisma.groupFixtures.findMany.mockResolvedValue([]);
+
+    await getFixtureDetail(100, VIEWER);
+
+    expect(mockPrisma.groupFixtures.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          fixtureId: 100,
+          groups: {
+            groupMembers: { some: { userId: VIEWER, status: "joined" } },
+          },
+        },
+      })
+    );
+  });
+});
@@ -1,5 +1,7 @@
 // fixtures/fixture-detail.ts
 // Service for GET /api/fixtures/:id — full fixture + user's predictions across all groups.
+// Second legs and first legs carry the whole tie (both legs and the aggregate).
+// Other members' picks are included only as each group's predictionVisibility rule allows.
 
 import { prisma } from "@repo/db";
 import { FIXTURE_SELECT_DETAIL } from "./selects";
@@ -8,12 +10,17 @@ import type {
   ApiMyPredictionForFixtureItem,
 } from "@repo/types";
 import { findUserPredictionsForFixture } from "../groups/repository/predictions";
-import { parsePrediction } from "../groups/helpers";
+import { hasMatchStarted, parsePrediction } from "../groups/helpers";
+import { othersPredictionsVisible } from "../groups/prediction-visibility";
+import { MEMBER_STATUS } from "../groups/constants";
+import { findFixtureTie } from "../groups/service/ties";
 
 export type FixtureDetailData = ApiFixtureDetailResponse["data"];
 
 /**
- * Get full fixture by id with current user's predictions across all groups.
+ * Get full fixture by id with current user's predictions across joined groups.
+ * Each group item carries the other members' picks when the group's
+ * predictionVisibility rule lets the user see them.
  * Returns null if fixture not found.
  */
 export async function getFixtureDetail(
@@ -27,8 +34,15 @@ export async function getFixtureDetail(
 
   if (!fixture) return null;
 
+  const tie = await findFixtureTie(fixture.aggregateId);
+
   const groupFixtures = await prisma.groupFixtures.findMany({
-    where: { fixtureId },
+    where: {
+      fixtureId,
+      groups: {
+        groupMembers: { some: { userId, status: MEMBER_STATUS.JOINED } },
+      },
+    },
     select: {
       groupId: true,
       groups: {
@@ -36,38 +50,64 @@ export async function getFixtureDetail(
           id: true,
           name: true,
           groupRules: {
-            select: { predictionMode: true },
+            select: { predictionMode: true, predictionVisibility: true },
           },
         },
       },
       groupPredictions: {
-        where: { userId },
+        where: { groupMembers: { status: MEMBER_STATUS.JOINED } },
         select: {
+          userId: true,
           prediction: true,
           settledAt: true,
           points: true,
+          users: { select: { username: true } },
         },
       },
     },
   });
 
-  const predictions = groupFixtures
-    .filter((gf) => gf.groupPredictions.length > 0)
-    .map((gf) => {
-      const pred = gf.groupPredictions[0]!;
-      const settled = pred.settledAt != null;
-      const points = settled ? Number(pred.points) || 0 : null;
-      const predictionMode =
-        gf.groups.groupRules?.predictionMode ?? "CorrectScore";
-      return {
+  const fixtureStarted = hasMatchStarted({
+    result: fixture.result,
+    startTs: fixture.startTs,
+    state: String(fixture.state),
+  });
+
+  const predictions = groupFixtures.flatMap((gf) => {
+    const pred = gf.groupPredictions.find((p) => p.userId === userId);
+    if (!pred) return [];
+    const settled = pred.settledAt != null;
+    const points = settled ? Number(pred.points) || 0 : null;
+    const predictionMode =
+      gf.groups.groupRules?.predictionMode ?? "CorrectScore";
+    const othersVisible = othersPredictionsVisible({
+      visibility: gf.groups.groupRules?.predictionVisibility,
+      fixtureStarted,
+      viewerHasPredicted: true,
+    });
+    const memberPredictions = othersVisible
+      ? gf.groupPredictions
+          .filter((p) => p.userId !== userId)
+          .map((p) => ({
+            userId: p.userId,
+            username: p.users.username,
+            prediction: p.prediction,
+            points: p.settledAt != null ? Number(p.points) || 0 : null,
+          }))
+      : [];
+    return [
+      {
         groupId: gf.groups.id,
         groupName: gf.groups.name,
         prediction: pred.prediction,
         settled,
         points,
         predictionMode: String(predictionMode),
-      };
-    });
+        othersVisible,
+        memberPredictions,
+      },
+    ];
+  });
 
   const homeTeam = fixture.homeTeam
     ? {
@@ -108,6 +148,7 @@ export async function getFixtureDetail(
     stage: fixture.stage ?? null,
     round: fixture.round ?? null,
     leg: fixture.leg ?? null,
+    tie,
     liveMinute: fixture.liveMinute ?? null,
     result: fixture.result ?? null,
     homeScore90: fixture.homeScore90 ?? null,
@@ -120,6 +161,21 @@ export async function getFixtureDetail(
     awayTeam,
     league,
     country,
+    events: fixture.fixtureEvents.map((e) => ({
+      id: e.id,
+      type: e.type,
+      minute: e.minute,
+      extraMinute: e.extraMinute,
+      side:
+        e.teamId === fixture.homeTeamId
+          ? "home"
+          : e.teamId === fixture.awayTeamId
+            ? "away"
+            : null,
+      playerName: e.playerName,
+      relatedPlayerName: e.relatedPlayerName,
+      detail: e.detail,
+    })),
     predictions,
   };
 }
@@ -15,6 +15,7 @@ export const FIXTURE_SELECT_BASE = {
   stage: true,
   round: true,
   leg: true,
+  aggregateId: true,
   league: {
     select: {
       id: true,
@@ -71,6 +72,21 @@ export const FIXTURE_SELECT_DETAIL = {
   awayScoreET: true,
   penHome: true,
   penAway: true,
+  homeTeamId: true,
+  awayTeamId: true,
+  fixtureEvents: {
+    select: {
+      id: true,
+      teamId: true,
+      type: true,
+      minute: true,
+      extraMinute: true,
+      playerName: true,
+      relatedPlayerName: true,
+      detail: true,
+    },
+    orderBy: [{ minute: "asc" }, { extraMinute: "asc" }, { id: "asc" }],
+  },
 } as const satisfies Prisma.fixturesSelect;
 
 /**
@@ -0,0 +1,194 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  EMPTY_ROUND_SCORE,
+  bracketRoundCount,
+  buildRoundBuckets,
+  decideMatch,
+  nextRoundBucket,
+  pairNextRound,
+  seedFirstRound,
+  type BracketFixture,
+  type RoundScore,
+} from "../bracket";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+// 2026-03-07 12:00 UTC
+const BASE_TS = 1772884800;
+
+function fixture(
+  groupFixtureId: number,
+  overrides: Partial<BracketFixture> = {}
+): BracketFixture {
+  return {
+    groupFixtureId,
+    startTs: BASE_TS + groupFixtureId * 3600,
+    leagueId: 8,
+    seasonId: 100,
+    stage: "Regular Season",
+    round: "1",
+    started: false,
+    finished: false,
+    ...overrides,
+  };
+}
+
+function score(overrides: Partial<RoundScore> = {}): RoundScore {
+  return { ...EMPTY_ROUND_SCORE, ...overrides };
+}
+
+// ---------------------------------------------------------------------------
+// bracketRoundCount
+// ---------------------------------------------------------------------------
+
+describe("bracketRoundCount", () => {
+  it("counts knockout rounds for the field size", () => {
+    expect(bracketRoundCount(1)).toBe(0);
+    expect(bracketRoundCount(2)).toBe(1);
+    expect(bracketRoundCount(3)).toBe(2);
+    expect(bracketRoundCount(4)).toBe(2);
+    expect(bracketRoundCount(5)).toBe(3);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// seedFirstRound / pairNextRound
+// ---------------------------------------------------------------------------
+
+describe("seedFirstRound", () => {
+  it("pairs top seeds with bottom seeds so 1 and 2 can only meet in the final", () => {
+    expect(seedFirstRound([11, 12, 13, 14])).toEqual([
+      { slot: 0, homeUserId: 11, awayUserId: 14 },
+      { slot: 1, homeUserId: 12, awayUserId: 13 },
+    ]);
+  });
+
+  it("gives byes to the top seeds", () => {
+    const pairings = seedFirstRound([1, 2, 3, 4, 5, 6]);
+
+    expect(pairings).toHaveLength(4);
+    expect(pairings[0]).toEqual({ slot: 0, homeUserId: 1, awayUserId: null });
+    expect(pairings[2]).toEqual({ slot: 2, homeUserId: 2, awayUserId: null });
+    const byes = pairings.filter((p) => p.awayUserId == null);
+    expect(byes.map((p) => p.homeUserId)).toEqual([1, 2]);
+  });
+});
+
+describe("pairNextRound", () => {
+  it("pairs adjacent slots", () => {
+    expect(pairNextRound([1, 4, 2, 3])).toEqual([
+      { slot: 0, homeUserId: 1, awayUserId: 4 },
+      { slot: 1, homeUserId: 2, awayUserId: 3 },
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// decideMatch
+// ---------------------------------------------------------------------------
+
+describe("decideMatch", () => {
+  const tiebreakers = ["correctScore", "correctDifference"] as const;
+
+  it("advances whoever scored more points", () => {
+    expect(
+      decideMatch(
+        { userId: 1, score: score({ points: 4 }) },
+        { userId: 2, score: score({ points: 7 }) },
+        [...tiebreakers]
+      )
+    ).toBe(2);
+  });
+
+  it("breaks a points tie with the tiebreakers in order", () => {
+    expect(
+      decideMatch(
+        { userId: 1, score: score({ points: 6, correctDifference: 3 }) },
+        { userId: 2, score: score({ points: 6, correctScore: 1 }) },
+        [...tiebreakers]
+      )
+    ).toBe(2);
+    expect(
+      decideMatch(
+        { userId: 1, score: score({ points: 6, correctDifference: 3 }) },
+        { userId: 2, score: score({ points: 6, correctDifference: 1 }) },
+        [...tiebreakers]
+      )
+    ).toBe(1);
+  });
+
+  it("falls back to the higher seed on a full tie", () => {
+    expect(
+      decideMatch(
+        { userId: 1, score: score({ points: 3 }) },
+        { userId: 2, score: score({ points: 3 }) },
+        [...tiebreakers]
+      )
+    ).toBe(1);
+  });
+
+  it("advances the present side when the other one is missing", () => {
+    expect(
+      decideMatch(
+        { userId: null, score: score() },
+        { userId: 2, score: score() },
+        []
+      )
+    ).toBe(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// buildRoundBuckets / nextRoundBucket
+// ---------------------------------------------------------------------------
+
+describe("buildRoundBuckets", () => {
+  it("groups fixtures by competition round in kickoff order", () => {
+    const buckets = buildRoundBuckets([
+      fixture(3, { round: "2" }),
+      fixture(1, { started: true, finished: true }),
+      fixture(2, { started: true }),
+    ]);
+
+    expect(buckets).toEqual([
+      {
+        key: "round:100:Regular Season:1",
+        label: "1",
+        groupFixtureIds: [1, 2],
+        firstStartTs: BASE_TS + 3600,
+        started: true,
+        finished: false,
+      },
+      {
+        key: "round:100:Regular Season:2",
+        label: "2",
+        groupFixtureIds: [3],
+        firstStartTs: BASE_TS + 3 * 3600,
+        started: false,
+        finished: false,
+      },
+    ]);
+  });
+});
+
+describe("nextRoundBucket", () => {
+  const buckets = buildRoundBuckets([
+    fixture(1, { round: "1", started: true }),
+    fixture(2, { round: "2" }),
+    fixture(3, { round: "3" }),
+  ]);
+
+  it("skips rounds that already kicked off", () => {
+    expect(nextRoundBucket(buckets, null)?.label).toBe("2");
+  });
+
+  it("picks the first round after the given one", () => {
+    expect(nextRoundBucket(buckets, "round:100:Regular Season:2")?.label).toBe(
+      "3"
+    );
+    expect(nextRoundBucket(buckets, "round:100:Regular Season:3")).toBeNull();
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  buildJokerBuckets,
+  describeJokerLimit,
+  type JokerFixture,
+} from "../helpers/joker";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const DAY = 24 * 60 * 60;
+// 2026-03-07 12:00 UTC
+const BASE_TS = 1772884800;
+
+function fixture(
+  groupFixtureId: number,
+  overrides: Partial<JokerFixture> = {}
+): JokerFixture {
+  return {
+    groupFixtureId,
+    startTs: BASE_TS + groupFixtureId * 3600,
+    leagueId: 8,
+    seasonId: 100,
+    stage: "Regular Season",
+    round: "1",
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// buildJokerBuckets
+// ---------------------------------------------------------------------------
+
+describe("buildJokerBuckets", () => {
+  it("returns an empty map when jokers are off", () => {
+    const buckets = buildJokerBuckets([fixture(1), fixture(2)], {
+      jokerMode: "off",
+      jokerFixturesPerCard: 5,
+    });
+    expect(buckets.size).toBe(0);
+  });
+
+  describe("round mode", () => {
+    const rules = { jokerMode: "round" as const, jokerFixturesPerCard: 5 };
+
+    it("puts fixtures of the same round in one bucket", () => {
+      const buckets = buildJokerBuckets(
+        [fixture(1), fixture(2), fixture(3, { round: "2" })],
+        rules
+      );
+      expect(buckets.get(1)).toBe(buckets.get(2));
+      expect(buckets.get(3)).not.toBe(buckets.get(1));
+    });
+
+    it("separates the same round number in different seasons", () => {
+      const buckets = buildJokerBuckets(
+        [fixture(1), fixture(2, { seasonId: 200, leagueId: 9 })],
+        rules
+      );
+      expect(buckets.get(1)).not.toBe(buckets.get(2));
+    });
+
+    it("separates the same round number in different stages", () => {
+      const buckets = buildJokerBuckets(
+        [fixture(1, { stage: "Group Stage" }), fixture(2, { stage: "Knockout" })],
+        rules
+      );
+      expect(buckets.get(1)).not.toBe(buckets.get(2));
+    });
+
+    it("falls back to the kickoff day when round and stage are missing", () => {
+      const buckets = buildJokerBuckets(
+        [
+          fixture(1, { round: null, stage: null }),
+          fixture(2, { round: null, stage: null }),
+          fixture(3, { round: null, stage: null, startTs: BASE_TS + DAY }),
+        ],
+        rules
+      );
+      expect(buckets.get(1)).toBe("day:2026-03-07");
+      expect(buckets.get(2)).toBe("day:2026-03-07");
+      expect(buckets.get(3)).toBe("day:2026-03-08");
+    });
+  });
+
+  describe("fixtures mode", () => {
+    it("chunks fixtures by kickoff order into sets of N", () => {
+      const fixtures = [5, 1, 4, 2, 3].map((id) => fixture(id));
+      const buckets = buildJokerBuckets(fixtures, {
+        jokerMode: "fixtures",
+        jokerFixturesPerCard: 2,
+      });
+      expect(buckets.get(1)).toBe("set:0");
+      expect(buckets.get(2)).toBe("set:0");
+      expect(buckets.get(3)).toBe("set:1");
+      expect(buckets.get(4)).toBe("set:1");
+      expect(buckets.get(5)).toBe("set:2");
+    });
+
+    it("breaks kickoff ties by group fixture id", () => {
+      const buckets = buildJokerBuckets(
+        [
+          fixture(3, { startTs: BASE_TS }),
+          fixture(1, { startTs: BASE_TS }),
+          fixture(2, { startTs: BASE_TS }),
+        ],
+        { jokerMode: "fixtures", jokerFixturesPerCard: 2 }
+      );
+      expect(buckets.get(1)).toBe("set:0");
+      expect(buckets.get(2)).toBe("set:0");
+      expect(buckets.get(3)).toBe("set:1");
+    });
+
+    it("uses the stored joker slot, not the current kickoff order", () => {
+      const buckets = buildJokerBuckets(
+        [
+          // fixture 1 was rescheduled after fixture 4
+          fixture(1, { jokerSlot: 0, startTs: BASE_TS + DAY }),
+          fixture(2, { jokerSlot: 1 }),
+          fixture(4, { jokerSlot: 3 }),
+        ],
+        { jokerMode: "fixtures", jokerFixturesPerCard: 2 }
+      );
+      expect(buckets.get(1)).toBe("set:0");
+      expect(buckets.get(2)).toBe("set:0");
+      // slot 2 was removed; slot 3 stays in the second set
+      expect(buckets.get(4)).toBe("set:1");
+    });
+
+    it("places fixtures without a slot after the highest slot", () => {
+      const buckets = buildJokerBuckets(
+        [
+          fixture(1, { jokerSlot: 0 }),
+          fixture(3, { jokerSlot: null }),
+          fixture(2, { jokerSlot: null, startTs: BASE_TS - DAY }),
+        ],
+        { jokerMode: "fixtures", jokerFixturesPerCard: 2 }
+      );
+      expect(buckets.get(1)).toBe("set:0");
+      expect(buckets.get(2)).toBe("set:0");
+      expect(buckets.get(3)).toBe("set:1");
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// describeJokerLimit
+// ---------------------------------------------------------------------------
+
+describe("describeJokerLimit", () => {
+  it("describes the limit for each mode", () => {
+    expect(
+      describeJokerLimit({ jokerMode: "round", jokerFixturesPerCard: 5 })
+    ).toBe("one joker per round");
+    expect(
+      describeJokerLimit({ jokerMode: "fixtures", jokerFixturesPerCard: 4 })
+    ).toBe("one joker per 4 fixtures");
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  calculateLivePoints,
+  projectLiveRanking,
+  type LiveFixtureScore,
+  type LivePrediction,
+  type LiveProjectionMember,
+} from "../live-points";
+import type { ScoringRules } from "../scoring";
+import type { SideMarketRules } from "../side-markets";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const rules: ScoringRules = {
+  predictionMode: "CorrectScore",
+  onTheNosePoints: 3,
+  correctDifferencePoints: 2,
+  outcomePoints: 1,
+  koRoundMode: "FullTime",
+};
+
+const noMarkets: SideMarketRules = {
+  bttsPoints: 0,
+  overUnderPoints: 0,
+  firstTeamToScorePoints: 0,
+};
+
+function prediction(
+  value: string,
+  overrides: Partial<LivePrediction> = {}
+): LivePrediction {
+  return {
+    prediction: value,
+    isJoker: false,
+    bttsPick: null,
+    overUnderPick: null,
+    firstTeamToScorePick: null,
+    ...overrides,
+  };
+}
+
+function score(
+  homeScore90: number,
+  awayScore90: number,
+  firstScoringTeam: string | null = null
+): LiveFixtureScore {
+  return { homeScore90, awayScore90, firstScoringTeam };
+}
+
+function member(
+  userId: number,
+  rank: number,
+  totalPoints: number
+): LiveProjectionMember {
+  return { userId, username: `user${userId}`, rank, totalPoints };
+}
+
+// ---------------------------------------------------------------------------
+// calculateLivePoints
+// ---------------------------------------------------------------------------
+
+describe("calculateLivePoints", () => {
+  it("scores the current score as if it were final", () => {
+    expect(calculateLivePoints(prediction("1:0"), score(1, 0), rules, noMarkets)).toBe(3);
+    expect(calculateLivePoints(prediction("2:1"), score(1, 0), rules, noMarkets)).toBe(2);
+    expect(calculateLivePoints(prediction("0:1"), score(1, 0), rules, noMarkets)).toBe(0);
+  });
+
+  it("adds side markets and doubles jokers", () => {
+    const markets: SideMarketRules = { ...noMarkets, bttsPoints: 1 };
+    const points = calculateLivePoints(
+      prediction("1:1", { isJoker: true, bttsPick: true }),
+      score(1, 1),
+      rules,
+      markets
+    );
+    expect(points).toBe((3 + 1) * 2);
+  });
+
+  it("voids the first-team-to-score pick while the first scorer is unknown", () => {
+    const markets: SideMarketRules = { ...noMarkets, firstTeamToScorePoints: 2 };
+    const pick = prediction("0:0", { firstTeamToScorePick: "home" });
+    expect(calculateLivePoints(pick, score(1, 0), rules, markets)).toBe(0);
+    expect(calculateLivePoints(pick, score(1, 0, "home"), rules, markets)).toBe(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// projectLiveRanking
+// ---------------------------------------------------------------------------
+
+describe("projectLiveRanking", () => {
+  it("keeps the settled order when nobody earns live points", () => {
+    const result = projectLiveRanking(
+      [member(1, 1, 10), member(2, 1, 10), member(3, 3, 4)],
+      new Map()
+    );
+    expect(result.map((r) => [r.userId, r.projectedRank, r.rankChange])).toEqual([
+      [1, 1, 0],
+      [2, 1, 0],
+      [3, 3, 0],
+    ]);
+  });
+
+  it("moves members by their projected points", () => {
+    const result = projectLiveRanking(
+      [member(1, 1, 10), member(2, 2, 8), member(3, 3, 4)],
+      new Map([
+        [2, 3],
+        [3, 7],
+      ])
+    );
+    expect(result.map((r) => r.userId)).toEqual([2, 3, 1]);
+    expect(result[0]).toMatchObject({
+      livePoints: 3,
+      projectedPoints: 11,
+      projectedRank: 1,
+      rankChange: 1,
+    });
+    expect(result[2]).toMatchObject({ projectedRank: 3, rankChange: -2 });
+  });
+
+  it("breaks projected ties by settled rank", () => {
+    const result = projectLiveRanking(
+      [member(1, 1, 10), member(2, 2, 7)],
+      new Map([[2, 3]])
+    );
+    expect(result.map((r) => [r.userId, r.projectedRank])).toEqual([
+      [1, 1],
+      [2, 2],
+    ]);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  hasSeasonEnded,
+  resolveOutrightResult,
+  scoreOutrightPick,
+  type OutrightStandingRow,
+} from "../outrights";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Table of `size` teams where team id = 100 + position, listed out of order. */
+function table(size: number): OutrightStandingRow[] {
+  return Array.from({ length: size }, (_, i) => ({
+    teamId: 100 + size - i,
+    position: size - i,
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// resolveOutrightResult
+// ---------------------------------------------------------------------------
+
+describe("resolveOutrightResult", () => {
+  it("returns the leader for champion", () => {
+    expect(resolveOutrightResult("champion", 1, table(20))).toEqual([101]);
+  });
+
+  it("returns positions 1-4 for top4", () => {
+    expect(resolveOutrightResult("top4", 4, table(20))).toEqual([
+      101, 102, 103, 104,
+    ]);
+  });
+
+  it("returns the last pickCount places for relegation", () => {
+    expect(resolveOutrightResult("relegation", 3, table(20))).toEqual([
+      118, 119, 120,
+    ]);
+    expect(resolveOutrightResult("relegation", 2, table(18))).toEqual([
+      117, 118,
+    ]);
+  });
+
+  it("returns nothing when the table is too short", () => {
+    expect(resolveOutrightResult("top4", 4, table(3))).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// scoreOutrightPick
+// ---------------------------------------------------------------------------
+
+describe("scoreOutrightPick", () => {
+  it("awards points per correct team regardless of order", () => {
+    expect(scoreOutrightPick([104, 101, 107, 102], [101, 102, 103, 104], 5)).toEqual({
+      correctCount: 3,
+      points: 15,
+    });
+  });
+
+  it("scores zero for a wrong champion", () => {
+    expect(scoreOutrightPick([102], [101], 10)).toEqual({
+      correctCount: 0,
+      points: 0,
+    });
+  });
+
+  it("scores zero against an empty result", () => {
+    expect(scoreOutrightPick([101], [], 10).points).toBe(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// hasSeasonEnded
+// ---------------------------------------------------------------------------
+
+describe("hasSeasonEnded", () => {
+  const lastDay = Date.UTC(2026, 4, 24) / 1000; // 2026-05-24 00:00 UTC
+
+  it("is false during the last day", () => {
+    expect(hasSeasonEnded("2026-05-24", lastDay + 20 * 3600)).toBe(false);
+  });
+
+  it("is true the day after", () => {
+    expect(hasSeasonEnded("2026-05-24", lastDay + 24 * 3600)).toBe(true);
+  });
+
+  it("is false for an unparseable date", () => {
+    expect(hasSeasonEnded("TBD", lastDay)).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@repo/db", () => ({ prisma: {} }));
+
+import { canModerate, isGroupAdminRole } from "../permissions";
+
+// ---------------------------------------------------------------------------
+// isGroupAdminRole
+// ---------------------------------------------------------------------------
+
+describe("isGroupAdminRole", () => {
+  it("treats owner and admin as admins", () => {
+    expect(isGroupAdminRole("owner")).toBe(true);
+    expect(isGroupAdminRole("admin")).toBe(true);
+    expect(isGroupAdminRole("member")).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// canModerate
+// ---------------------------------------------------------------------------
+
+describe("canModerate", () => {
+  it("lets the owner moderate admins and members", () => {
+    expect(canModerate("owner", "admin")).toBe(true);
+    expect(canModerate("owner", "member")).toBe(true);
+  });
+
+  it("lets admins moderate regular members only", () => {
+    expect(canModerate("admin", "member")).toBe(true);
+    expect(canModerate("admin", "admin")).toBe(false);
+    expect(canModerate("admin", "owner")).toBe(false);
+  });
+
+  it("never lets regular members moderate", () => {
+    expect(canModerate("member", "member")).toBe(false);
+    expect(canModerate("member", "admin")).toBe(false);
+  });
+
+  it("never allows moderating the owner", () => {
+    expect(canModerate("owner", "owner")).toBe(false);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  canSeePrediction,
+  othersPredictionsVisible,
+  type PredictionVisibility,
+} from "../prediction-visibility";
+import { buildPredictionsMap } from "../helpers";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const HOUR = 60 * 60;
+const nowSec = () => Math.floor(Date.now() / 1000);
+
+const VIEWER = 1;
+const OTHER = 2;
+
+const upcoming = { id: 100, result: null, startTs: nowSec() + HOUR, state: "NS" };
+const upcomingUnpredicted = {
+  id: 101,
+  result: null,
+  startTs: nowSec() + 2 * HOUR,
+  state: "NS",
+};
+const finished = {
+  id: 102,
+  result: "1-0",
+  startTs: nowSec() - 3 * HOUR,
+  state: "FT",
+};
+const fixtures = [upcoming, upcomingUnpredicted, finished];
+
+function prediction(userId: number, fixtureId: number, prediction = "2:1") {
+  return {
+    userId,
+    groupFixtureId: fixtureId + 1000,
+    prediction,
+    points: "3",
+    settledAt: fixtureId === finished.id ? new Date() : null,
+    groupFixtures: { fixtureId },
+  };
+}
+
+// Viewer predicted 100 and 102; the other member predicted all three.
+const predictions = [
+  prediction(VIEWER, upcoming.id),
+  prediction(VIEWER, finished.id),
+  prediction(OTHER, upcoming.id, "0:0"),
+  prediction(OTHER, upcomingUnpredicted.id, "1:1"),
+  prediction(OTHER, finished.id, "1:0"),
+];
+
+function visibleOtherPicks(visibility?: PredictionVisibility) {
+  const { predictionsMap } = buildPredictionsMap(
+    predictions,
+    VIEWER,
+    fixtures,
+    visibility
+  );
+  return Object.keys(predictionsMap)
+    .filter((key) => key.startsWith(`${OTHER}_`))
+    .sort();
+}
+
+// ---------------------------------------------------------------------------
+// canSeePrediction
+// ---------------------------------------------------------------------------
+
+describe("canSeePrediction", () => {
+  const base = {
+    viewerId: VIEWER,
+    ownerId: OTHER,
+    fixtureStarted: false,
+    viewerHasPredicted: false,
+  };
+
+  it("always lets the owner see their own pick", () => {
+    expect(
+      canSeePrediction({ ...base, visibility: "after_kickoff", ownerId: VIEWER })
+    ).toBe(true);
+  });
+
+  it("always: others' picks are visible before kickoff", () => {
+    expect(canSeePrediction({ ...base, visibility: "always" })).toBe(true);
+  });
+
+  it("after_own_prediction: visible only once the viewer has predicted", () => {
+    expect(
+      canSeePrediction({ ...base, visibility: "after_own_prediction" })
+    ).toBe(false);
+    expect(
+      canSeePrediction({
+        ...base,
+        visibility: "after_own_prediction",
+        viewerHasPredicted: true,
+      })
+    ).toBe(true);
+  });
+
+  it("after_kickoff: hidden before kickoff even when the viewer predicted", () => {
+    expect(
+      canSeePrediction({
+        ...base,
+        visibility: "after_kickoff",
+        viewerHasPredicted: true,
+      })
+    ).toBe(false);
+    expect(
+      canSeePrediction({ ...base, visibility: "after_kickoff", fixtureStarted: true })
+    ).toBe(true);
+  });
+
+  it("treats a missing rule as after_kickoff", () => {
+    expect(
+      othersPredictionsVisible({
+        visibility: null,
+        fixtureStarted: false,
+        viewerHasPredicted: true,
+      })
+    ).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// buildPredictionsMap (predictions overview)
+// ---------------------------------------------------------------------------
+
+describe("buildPredictionsMap visibility", () => {
+  it("always: shows every pick of other members", () => {
+    expect(visibleOtherPicks("always")).toEqual(["2_100", "2_101", "2_102"]);
+  });
+
+  it("after_own_prediction: shows others' picks on fixtures the viewer predicted", () => {
+    expect(visibleOtherPicks("after_own_prediction")).toEqual([
+      "2_100",
+      "2_102",
+    ]);
+  });
+
+  it("after_kickoff: shows others' picks only on started fixtures", () => {
+    expect(visibleOtherPicks("after_kickoff")).toEqual(["2_102"]);
+  });
+
+  it("defaults to after_kickoff", () => {
+    expect(visibleOtherPicks()).toEqual(["2_102"]);
+  });
+
+  it("keeps the viewer's own picks in every mode", () => {
+    for (const visibility of [
+      "always",
+      "after_own_prediction",
+      "after_kickoff",
+    ] as const) {
+      const { predictionsMap } = buildPredictionsMap(
+        predictions,
+        VIEWER,
+        fixtures,
+        visibility
+      );
+      expect(predictionsMap["1_100"]).toBe("2:1");
+    }
+  });
+
+  it("reports per-fixture visibility for null-initialising the grid", () => {
+    const { othersVisibleMap } = buildPredictionsMap(
+      predictions,
+      VIEWER,
+      fixtures,
+      "after_own_prediction"
+    );
+    expect(Object.fromEntries(othersVisibleMap)).toEqual({
+      100: true,
+      101: false,
+      102: true,
+    });
+  });
+});
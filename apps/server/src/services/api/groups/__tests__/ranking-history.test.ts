@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  buildRankingHistory,
+  downsample,
+  type RankingSnapshotRow,
+} from "../ranking-history";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const BASE = Date.parse("2026-10-19T12:00:00Z");
+
+function snapshot(
+  fixtureId: number,
+  userId: number,
+  rank: number,
+  totalPoints: number,
+  minutes = fixtureId
+): RankingSnapshotRow {
+  return {
+    fixtureId,
+    userId,
+    rank,
+    totalPoints,
+    createdAt: new Date(BASE + minutes * 60_000),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// downsample
+// ---------------------------------------------------------------------------
+
+describe("downsample", () => {
+  it("returns the items unchanged when within the limit", () => {
+    expect(downsample([1, 2, 3], 3)).toEqual([1, 2, 3]);
+  });
+
+  it("keeps evenly spaced items including the first and the last", () => {
+    const items = Array.from({ length: 10 }, (_, i) => i);
+    expect(downsample(items, 4)).toEqual([0, 3, 6, 9]);
+  });
+
+  it("keeps only the last item with a limit of one", () => {
+    expect(downsample([1, 2, 3], 1)).toEqual([3]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// buildRankingHistory
+// ---------------------------------------------------------------------------
+
+describe("buildRankingHistory", () => {
+  it("orders steps by settlement time and aligns each member's series", () => {
+    const { steps, series } = buildRankingHistory(
+      [
+        snapshot(20, 1, 2, 3, 5),
+        snapshot(20, 2, 1, 4, 5),
+        snapshot(10, 1, 1, 3, 1),
+        snapshot(10, 2, 2, 1, 1),
+      ],
+      100
+    );
+
+    expect(steps.map((s) => s.fixtureId)).toEqual([10, 20]);
+    expect(series).toEqual([
+      { userId: 1, ranks: [1, 2], totalPoints: [3, 3] },
+      { userId: 2, ranks: [2, 1], totalPoints: [1, 4] },
+    ]);
+  });
+
+  it("fills steps before a member's first snapshot with null", () => {
+    const { series } = buildRankingHistory(
+      [snapshot(1, 1, 1, 3), snapshot(2, 1, 1, 6), snapshot(2, 2, 2, 3)],
+      100
+    );
+
+    expect(series.find((s) => s.userId === 2)).toEqual({
+      userId: 2,
+      ranks: [null, 2],
+      totalPoints: [null, 3],
+    });
+  });
+
+  it("downsamples the timeline and keeps the latest step", () => {
+    const rows = Array.from({ length: 9 }, (_, i) =>
+      snapshot(i + 1, 1, 1, (i + 1) * 2)
+    );
+
+    const { steps, series } = buildRankingHistory(rows, 3);
+
+    expect(steps.map((s) => s.fixtureId)).toEqual([1, 5, 9]);
+    expect(series[0]!.totalPoints).toEqual([2, 10, 18]);
+  });
+
+  it("returns an empty history without snapshots", () => {
+    expect(buildRankingHistory([], 100)).toEqual({ steps: [], series: [] });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+
+import type { BracketFixture } from "../bracket";
+import {
+  buildPeriodBuckets,
+  buildWeekBuckets,
+  currentPeriodBucket,
+  isoWeekKey,
+} from "../ranking-periods";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const DAY = 86400;
+
+function ts(isoDate: string): number {
+  return Date.parse(`${isoDate}T12:00:00Z`) / 1000;
+}
+
+function fixture(
+  groupFixtureId: number,
+  startTs: number,
+  overrides: Partial<BracketFixture> = {}
+): BracketFixture {
+  return {
+    groupFixtureId,
+    startTs,
+    leagueId: 8,
+    seasonId: 100,
+    stage: "Regular Season",
+    round: "1",
+    started: false,
+    finished: false,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// isoWeekKey
+// ---------------------------------------------------------------------------
+
+describe("isoWeekKey", () => {
+  it("numbers weeks from Monday", () => {
+    // Mon 2026-10-19 .. Sun 2026-10-25 is week 43
+    expect(isoWeekKey(ts("2026-10-19"))).toBe("2026-W43");
+    expect(isoWeekKey(ts("2026-10-25"))).toBe("2026-W43");
+    expect(isoWeekKey(ts("2026-10-26"))).toBe("2026-W44");
+  });
+
+  it("puts early January days in the previous ISO year's last week", () => {
+    // Fri 2027-01-01 belongs to 2026-W53
+    expect(isoWeekKey(ts("2027-01-01"))).toBe("2026-W53");
+    expect(isoWeekKey(ts("2027-01-04"))).toBe("2027-W01");
+  });
+
+  it("puts late December days in the next ISO year's first week", () => {
+    // Tue 2024-12-31 belongs to 2025-W01
+    expect(isoWeekKey(ts("2024-12-31"))).toBe("2025-W01");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// buildWeekBuckets / buildPeriodBuckets
+// ---------------------------------------------------------------------------
+
+describe("buildWeekBuckets", () => {
+  it("groups fixtures by week, ordered by first kickoff", () => {
+    const monday = ts("2026-10-19");
+    const buckets = buildWeekBuckets([
+      fixture(3, monday + 7 * DAY),
+      fixture(1, monday, { started: true, finished: true }),
+      fixture(2, monday + 2 * DAY, { started: true }),
+    ]);
+
+    expect(buckets.map((b) => b.key)).toEqual([
+      "week:2026-W43",
+      "week:2026-W44",
+    ]);
+    expect(buckets[0]).toMatchObject({
+      label: "2026-W43",
+      groupFixtureIds: [1, 2],
+      firstStartTs: monday,
+      started: true,
+      finished: false,
+    });
+  });
+
+  it("buildPeriodBuckets uses competition rounds for the round period", () => {
+    const monday = ts("2026-10-19");
+    const fixtures = [
+      fixture(1, monday, { round: "1" }),
+      fixture(2, monday + DAY, { round: "2" }),
+    ];
+
+    expect(buildPeriodBuckets(fixtures, "round")).toHaveLength(2);
+    expect(buildPeriodBuckets(fixtures, "week")).toHaveLength(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// currentPeriodBucket
+// ---------------------------------------------------------------------------
+
+describe("currentPeriodBucket", () => {
+  it("picks the latest period that has kicked off", () => {
+    const monday = ts("2026-10-19");
+    const buckets = buildWeekBuckets([
+      fixture(1, monday, { started: true }),
+      fixture(2, monday + 7 * DAY, { started: true }),
+      fixture(3, monday + 14 * DAY),
+    ]);
+
+    expect(currentPeriodBucket(buckets)?.groupFixtureIds).toEqual([2]);
+  });
+
+  it("falls back to the first period before anything kicks off", () => {
+    const monday = ts("2026-10-19");
+    const buckets = buildWeekBuckets([
+      fixture(1, monday),
+      fixture(2, monday + 7 * DAY),
+    ]);
+
+    expect(currentPeriodBucket(buckets)?.groupFixtureIds).toEqual([1]);
+    expect(currentPeriodBucket([])).toBeNull();
+  });
+});
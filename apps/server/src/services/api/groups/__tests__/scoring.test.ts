@@ -2,6 +2,7 @@ import { describe, it, expect } from "vitest";
 
 import {
   calculateScore,
+  buildScoringPreview,
   type ScoringRules,
   type FixtureResult,
   type ScoringResult,
@@ -253,4 +254,241 @@ describe("calculateScore — Penalties mode", () => {
     expect(r.winningCorrectScore).toBe(false);
     expect(r.winningCorrectDifference).toBe(false);
   });
+
+  it("second leg: shootout winner wins even though the leg's ET score isn't level", () => {
+    // Lost the leg 1:2 but level on aggregate, then won the shootout
+    const result = { ...penResult(1, 2, 1, 2, 4, 2), leg: "2/2" };
+    const r = calculateScore({ prediction: "1:0" }, result, rules);
+    expect(r.points).toBe(rules.outcomePoints);
+    expect(calculateScore({ prediction: "1:2" }, result, rules)).toEqual(ZERO);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Scoring strategies
+// ---------------------------------------------------------------------------
+
+describe("calculateScore — goalDifferenceProximity strategy", () => {
+  const rules: ScoringRules = {
+    ...CORRECT_SCORE_RULES,
+    scoringStrategy: "goalDifferenceProximity",
+    scoringConfig: { basePoints: 3, penaltyPerGoal: 1, exactBonus: 2 },
+  };
+
+  it("exact score → base + exact bonus", () => {
+    const r = calculateScore({ prediction: "2:1" }, ftResult(2, 1), rules);
+    expect(r.points).toBe(5);
+    expect(r.winningCorrectScore).toBe(true);
+  });
+
+  it("correct outcome, difference off by 2 → base - 2", () => {
+    const r = calculateScore({ prediction: "3:0" }, ftResult(2, 1), rules);
+    expect(r.points).toBe(1);
+    expect(r.winningCorrectDifference).toBe(false);
+    expect(r.winningMatchWinner).toBe(true);
+  });
+
+  it("wrong outcome → 0", () => {
+    const r = calculateScore({ prediction: "0:1" }, ftResult(2, 1), rules);
+    expect(r).toEqual(ZERO);
+  });
+
+  it("missing config values fall back to defaults", () => {
+    const r = calculateScore(
+      { prediction: "2:1" },
+      ftResult(2, 1),
+      { ...rules, scoringConfig: {} }
+    );
+    expect(r.points).toBe(5);
+  });
+});
+
+describe("calculateScore — totalGoals strategy", () => {
+  const rules: ScoringRules = {
+    ...CORRECT_SCORE_RULES,
+    scoringStrategy: "totalGoals",
+    scoringConfig: { totalGoalsBonus: 2 },
+  };
+
+  it("correct outcome with the right total → outcome + bonus", () => {
+    const r = calculateScore({ prediction: "3:0" }, ftResult(2, 1), rules);
+    expect(r.points).toBe(rules.outcomePoints + 2);
+  });
+
+  it("wrong outcome but right total → bonus only", () => {
+    const r = calculateScore({ prediction: "1:2" }, ftResult(2, 1), rules);
+    expect(r.points).toBe(2);
+    expect(r.winningMatchWinner).toBe(false);
+  });
+});
+
+describe("calculateScore — teamGoals strategy", () => {
+  const rules: ScoringRules = {
+    ...CORRECT_SCORE_RULES,
+    scoringStrategy: "teamGoals",
+    scoringConfig: { teamGoalsPoints: 1, outcomePoints: 2 },
+  };
+
+  it("one team's goals right + correct outcome", () => {
+    const r = calculateScore({ prediction: "2:0" }, ftResult(2, 1), rules);
+    expect(r.points).toBe(3);
+  });
+
+  it("one team's goals right, wrong outcome", () => {
+    const r = calculateScore({ prediction: "2:2" }, ftResult(2, 1), rules);
+    expect(r.points).toBe(1);
+    expect(r.winningMatchWinner).toBe(false);
+  });
+});
+
+describe("calculateScore — oddsWeighted strategy", () => {
+  const rules: ScoringRules = {
+    ...CORRECT_SCORE_RULES,
+    scoringStrategy: "oddsWeighted",
+    scoringConfig: { outcomePoints: 2, exactBonus: 1, maxMultiplier: 3 },
+  };
+  const odds = { home: 1.5, draw: 3.4, away: 6 };
+
+  it("favourite wins → outcome points × odds, rounded", () => {
+    const r = calculateScore({ prediction: "1:0" }, ftResult(2, 0), rules, { odds });
+    expect(r.points).toBe(3);
+  });
+
+  it("underdog wins → multiplier capped at maxMultiplier", () => {
+    const r = calculateScore({ prediction: "0:1" }, ftResult(0, 1), rules, { odds });
+    expect(r.points).toBe(2 * 3 + 1);
+  });
+
+  it("no odds → multiplier 1", () => {
+    const r = calculateScore({ prediction: "1:1" }, ftResult(0, 0), rules);
+    expect(r.points).toBe(2);
+  });
+
+  it("Penalties mode uses the shootout winner's odds", () => {
+    const r = calculateScore(
+      { prediction: "0:1" },
+      penResult(1, 1, 1, 1, 3, 4),
+      { ...rules, koRoundMode: "Penalties" },
+      { odds }
+    );
+    expect(r.points).toBe(6);
+  });
+});
+
+describe("calculateScore — underdog bonus", () => {
+  const rules: ScoringRules = {
+    ...CORRECT_SCORE_RULES,
+    underdogBonus: true,
+    underdogMaxMultiplier: 3,
+  };
+  const odds = { home: 1.5, draw: 3.4, away: 6.0 };
+
+  it("favourite wins → small bonus on top of the tier", () => {
+    // 1 × (1.5 − 1) = 0.5 → rounds to 1
+    const r = calculateScore({ prediction: "1:0" }, ftResult(2, 0), rules, { odds });
+    expect(r.points).toBe(1 + 1);
+  });
+
+  it("underdog wins → bonus capped at maxMultiplier", () => {
+    const r = calculateScore({ prediction: "0:1" }, ftResult(0, 1), rules, { odds });
+    expect(r.points).toBe(3 + 2);
+  });
+
+  it("wrong outcome → no bonus", () => {
+    const r = calculateScore({ prediction: "0:1" }, ftResult(1, 0), rules, { odds });
+    expect(r.points).toBe(0);
+  });
+
+  it("no frozen odds → plain tiers", () => {
+    const r = calculateScore({ prediction: "0:1" }, ftResult(0, 1), rules);
+    expect(r.points).toBe(3);
+  });
+
+  it("disabled → odds are ignored", () => {
+    const r = calculateScore(
+      { prediction: "0:1" },
+      ftResult(0, 1),
+      { ...rules, underdogBonus: false },
+      { odds }
+    );
+    expect(r.points).toBe(3);
+  });
+
+  it("not applied on top of oddsWeighted", () => {
+    const r = calculateScore(
+      { prediction: "0:1" },
+      ftResult(0, 2),
+      { ...rules, scoringStrategy: "oddsWeighted" },
+      { odds }
+    );
+    expect(r.points).toBe(5);
+  });
+
+  it("Penalties mode uses the shootout winner's odds", () => {
+    const r = calculateScore(
+      { prediction: "0:1" },
+      penResult(1, 1, 1, 1, 3, 4),
+      { ...rules, koRoundMode: "Penalties" },
+      { odds }
+    );
+    expect(r.points).toBe(1 + 2);
+  });
+
+  it("goalDifferenceProximity scales the base left after the penalty", () => {
+    // base 3 − 1 (one goal off) = 2 → 2 × (3 − 1) = 4 bonus; the exact bonus is not scaled
+    const r = calculateScore(
+      { prediction: "0:1" },
+      ftResult(0, 2),
+      { ...rules, scoringStrategy: "goalDifferenceProximity" },
+      { odds }
+    );
+    expect(r.points).toBe(2 + 4);
+  });
+
+  it("teamGoals scales its own outcome points", () => {
+    const r = calculateScore(
+      { prediction: "0:1" },
+      ftResult(0, 2),
+      {
+        ...rules,
+        scoringStrategy: "teamGoals",
+        scoringConfig: { teamGoalsPoints: 1, outcomePoints: 2 },
+      },
+      { odds }
+    );
+    // 1 team hit + 2 outcome, bonus 2 × (3 − 1) = 4
+    expect(r.points).toBe(3 + 4);
+  });
+
+  it("totalGoals does not scale its total-goals bonus", () => {
+    const r = calculateScore(
+      { prediction: "1:2" },
+      ftResult(0, 3),
+      {
+        ...rules,
+        scoringStrategy: "totalGoals",
+        scoringConfig: { totalGoalsBonus: 2 },
+      },
+      { odds }
+    );
+    // outcome 1 + total goals 2, bonus 1 × (3 − 1) = 2
+    expect(r.points).toBe(3 + 2);
+  });
+});
+
+describe("buildScoringPreview", () => {
+  it("classic preview matches the flat tiers", () => {
+    const rows = buildScoringPreview(CORRECT_SCORE_RULES);
+    expect(rows[0]).toEqual({ prediction: "2:1", result: "2:1", points: 3 });
+    expect(rows[1]!.points).toBe(2);
+    expect(rows[2]!.points).toBe(1);
+  });
+
+  it("unknown strategy falls back to classic", () => {
+    const rows = buildScoringPreview({
+      ...CORRECT_SCORE_RULES,
+      scoringStrategy: "nope",
+    });
+    expect(rows[0]!.points).toBe(3);
+  });
 });
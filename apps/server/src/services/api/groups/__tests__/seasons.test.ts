@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  buildAllTimeTable,
+  isLaterSeason,
+  type SeasonStandingRow,
+} from "../seasons";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function row(
+  userId: number,
+  rank: number,
+  totalPoints: number,
+  username = `user${userId}`
+): SeasonStandingRow {
+  return { userId, username, rank, totalPoints };
+}
+
+// ---------------------------------------------------------------------------
+// isLaterSeason
+// ---------------------------------------------------------------------------
+
+describe("isLaterSeason", () => {
+  it("compares season start dates", () => {
+    expect(
+      isLaterSeason({ startDate: "2026-08-15" }, { startDate: "2025-08-16" })
+    ).toBe(true);
+    expect(
+      isLaterSeason({ startDate: "2025-08-16" }, { startDate: "2025-08-16" })
+    ).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// buildAllTimeTable
+// ---------------------------------------------------------------------------
+
+describe("buildAllTimeTable", () => {
+  it("sums points and seasons played across the chain", () => {
+    const items = buildAllTimeTable([
+      { archived: true, rows: [row(1, 1, 50), row(2, 2, 40)] },
+      { archived: true, rows: [row(2, 1, 60), row(1, 2, 30)] },
+      { archived: false, rows: [row(1, 1, 5), row(3, 2, 2)] },
+    ]);
+
+    expect(items).toEqual([
+      {
+        rank: 1,
+        userId: 2,
+        username: "user2",
+        totalPoints: 100,
+        seasonsPlayed: 2,
+        seasonWins: 1,
+        bestRank: 1,
+      },
+      {
+        rank: 2,
+        userId: 1,
+        username: "user1",
+        totalPoints: 85,
+        seasonsPlayed: 3,
+        seasonWins: 1,
+        bestRank: 1,
+      },
+      {
+        rank: 3,
+        userId: 3,
+        username: "user3",
+        totalPoints: 2,
+        seasonsPlayed: 1,
+        seasonWins: 0,
+        bestRank: null,
+      },
+    ]);
+  });
+
+  it("does not count the live season toward wins or best rank", () => {
+    const [item] = buildAllTimeTable([
+      { archived: false, rows: [row(1, 1, 10)] },
+    ]);
+
+    expect(item).toMatchObject({ seasonWins: 0, bestRank: null });
+  });
+
+  it("breaks point ties by season wins", () => {
+    const items = buildAllTimeTable([
+      { archived: true, rows: [row(1, 1, 40), row(2, 2, 30)] },
+      { archived: true, rows: [row(2, 1, 40), row(1, 3, 30)] },
+      { archived: true, rows: [row(1, 1, 10), row(2, 2, 10)] },
+    ]);
+
+    expect(items.map((i) => [i.userId, i.rank])).toEqual([
+      [1, 1],
+      [2, 2],
+    ]);
+  });
+
+  it("gives the same rank on equal points and wins", () => {
+    const items = buildAllTimeTable([
+      { archived: true, rows: [row(1, 1, 20, "b"), row(2, 1, 20, "a")] },
+      { archived: true, rows: [row(3, 3, 5)] },
+    ]);
+
+    expect(items.map((i) => [i.username, i.rank])).toEqual([
+      ["a", 1],
+      ["b", 1],
+      ["user3", 3],
+    ]);
+  });
+});
@@ -0,0 +1,236 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  computeRuleVersion,
+  hasResultChanged,
+  projectRankChanges,
+  type PredictionResult,
+} from "../settlement-ledger";
+import { rankItems } from "../ranking-order";
+import type { ScoringRules } from "../scoring";
+import type { RankingItem } from "../types";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const RULES: ScoringRules = {
+  predictionMode: "CorrectScore",
+  onTheNosePoints: 3,
+  correctDifferencePoints: 2,
+  outcomePoints: 1,
+  koRoundMode: "FullTime",
+};
+
+const MARKET_RULES = {
+  bttsPoints: 0,
+  overUnderPoints: 0,
+  firstTeamToScorePoints: 0,
+};
+
+function result(
+  points: number,
+  flags: Partial<Omit<PredictionResult, "points">> = {}
+): PredictionResult {
+  return {
+    points,
+    winningCorrectScore: false,
+    winningCorrectDifference: false,
+    winningMatchWinner: false,
+    ...flags,
+  };
+}
+
+function item(
+  userId: number,
+  totalPoints: number,
+  rank: number,
+  correctScoreCount = 0
+): RankingItem {
+  return {
+    rank,
+    userId,
+    username: `user${userId}`,
+    totalPoints,
+    predictionCount: 1,
+    correctScoreCount,
+    correctDifferenceCount: 0,
+    correctOutcomeCount: 0,
+    jokersUsed: 0,
+    jokerPoints: 0,
+    outrightPoints: 0,
+    advancePoints: 0,
+  };
+}
+
+const TIEBREAK = ["correctScoreCount" as const];
+
+// ---------------------------------------------------------------------------
+// computeRuleVersion
+// ---------------------------------------------------------------------------
+
+describe("computeRuleVersion", () => {
+  it("is stable for the same rules", () => {
+    expect(computeRuleVersion(RULES, MARKET_RULES)).toBe(
+      computeRuleVersion({ ...RULES }, { ...MARKET_RULES })
+    );
+  });
+
+  it("changes when any rule changes", () => {
+    expect(computeRuleVersion(RULES, MARKET_RULES)).not.toBe(
+      computeRuleVersion({ ...RULES, outcomePoints: 2 }, MARKET_RULES)
+    );
+    expect(computeRuleVersion(RULES, MARKET_RULES)).not.toBe(
+      computeRuleVersion(RULES, { ...MARKET_RULES, bttsPoints: 1 })
+    );
+  });
+
+  it("is 16 hex characters", () => {
+    expect(computeRuleVersion(RULES, MARKET_RULES)).toMatch(/^[0-9a-f]{16}$/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// hasResultChanged
+// ---------------------------------------------------------------------------
+
+describe("hasResultChanged", () => {
+  it("treats a never-settled prediction as changed", () => {
+    expect(hasResultChanged(null, result(0))).toBe(true);
+  });
+
+  it("is false for identical results", () => {
+    expect(
+      hasResultChanged(
+        result(3, { winningCorrectScore: true }),
+        result(3, { winningCorrectScore: true })
+      )
+    ).toBe(false);
+  });
+
+  it("detects point changes", () => {
+    expect(hasResultChanged(result(3), result(1))).toBe(true);
+  });
+
+  it("detects tiebreaker flag changes with the same points", () => {
+    expect(
+      hasResultChanged(
+        result(1, { winningMatchWinner: true }),
+        result(1, { winningCorrectDifference: true })
+      )
+    ).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// rankItems
+// ---------------------------------------------------------------------------
+
+describe("rankItems", () => {
+  it("sorts by points, then tiebreakers, then username", () => {
+    const ranked = rankItems(
+      [item(1, 5, 0), item(2, 5, 0, 1), item(3, 8, 0)],
+      TIEBREAK
+    );
+    expect(ranked.map((r) => [r.userId, r.rank])).toEqual([
+      [3, 1],
+      [2, 2],
+      [1, 3],
+    ]);
+  });
+
+  it("shares a rank when points and tiebreakers are equal", () => {
+    const ranked = rankItems([item(1, 5, 0), item(2, 5, 0)], TIEBREAK);
+    expect(ranked.map((r) => r.rank)).toEqual([1, 1]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// projectRankChanges
+// ---------------------------------------------------------------------------
+
+describe("projectRankChanges", () => {
+  const ranking = [item(1, 10, 1), item(2, 8, 2), item(3, 4, 3)];
+
+  it("returns nothing when no prediction changes", () => {
+    expect(projectRankChanges(ranking, [], TIEBREAK)).toEqual([]);
+  });
+
+  it("reports members whose rank or points move", () => {
+    const changes = projectRankChanges(
+      ranking,
+      [
+        {
+          userId: 1,
+          previous: result(3, { winningCorrectScore: true }),
+          next: result(0),
+        },
+      ],
+      TIEBREAK
+    );
+
+    expect(changes).toEqual([
+      {
+        userId: 2,
+        username: "user2",
+        previousRank: 2,
+        newRank: 1,
+        previousPoints: 8,
+        newPoints: 8,
+      },
+      {
+        userId: 1,
+        username: "user1",
+        previousRank: 1,
+        newRank: 2,
+        previousPoints: 10,
+        newPoints: 7,
+      },
+    ]);
+  });
+
+  it("counts a first settlement from zero", () => {
+    const changes = projectRankChanges(
+      ranking,
+      [{ userId: 3, previous: null, next: result(3) }],
+      TIEBREAK
+    );
+
+    expect(changes).toEqual([
+      {
+        userId: 3,
+        username: "user3",
+        previousRank: 3,
+        newRank: 3,
+        previousPoints: 4,
+        newPoints: 7,
+      },
+    ]);
+  });
+
+  it("applies tiebreaker counter changes", () => {
+    const tied = [item(1, 5, 1, 1), item(2, 5, 2, 0)];
+    const changes = projectRankChanges(
+      tied,
+      [
+        {
+          userId: 2,
+          previous: result(0),
+          next: result(0, { winningCorrectScore: true }),
+        },
+      ],
+      TIEBREAK
+    );
+
+    expect(changes).toEqual([
+      {
+        userId: 2,
+        username: "user2",
+        previousRank: 2,
+        newRank: 1,
+        previousPoints: 5,
+        newPoints: 5,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  calculateSideMarketPoints,
+  parseSideMarketPicks,
+  resolveFirstTeamToScore,
+  type SideMarketFixture,
+  type SideMarketPicks,
+  type SideMarketRules,
+} from "../side-markets";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const rules: SideMarketRules = {
+  bttsPoints: 1,
+  overUnderPoints: 2,
+  firstTeamToScorePoints: 3,
+};
+
+function picks(overrides: Partial<SideMarketPicks> = {}): SideMarketPicks {
+  return { btts: null, overUnder: null, firstTeamToScore: null, ...overrides };
+}
+
+function fixture(
+  homeScore90: number,
+  awayScore90: number,
+  firstScoringTeam: string | null = null
+): SideMarketFixture {
+  return { homeScore90, awayScore90, firstScoringTeam };
+}
+
+// ---------------------------------------------------------------------------
+// calculateSideMarketPoints
+// ---------------------------------------------------------------------------
+
+describe("calculateSideMarketPoints", () => {
+  it("scores nothing without picks", () => {
+    const result = calculateSideMarketPoints(picks(), fixture(2, 1, "home"), rules);
+    expect(result.points).toBe(0);
+    expect(result.btts).toBeNull();
+    expect(result.overUnder).toBeNull();
+    expect(result.firstTeamToScore).toBeNull();
+  });
+
+  describe("btts", () => {
+    it("awards points when both teams scored and yes was picked", () => {
+      const result = calculateSideMarketPoints(
+        picks({ btts: true }),
+        fixture(1, 1),
+        rules
+      );
+      expect(result).toMatchObject({ points: 1, btts: true });
+    });
+
+    it("awards points when one side kept a clean sheet and no was picked", () => {
+      const result = calculateSideMarketPoints(
+        picks({ btts: false }),
+        fixture(3, 0),
+        rules
+      );
+      expect(result).toMatchObject({ points: 1, btts: true });
+    });
+
+    it("misses when yes was picked on a clean sheet", () => {
+      const result = calculateSideMarketPoints(
+        picks({ btts: true }),
+        fixture(0, 0),
+        rules
+      );
+      expect(result).toMatchObject({ points: 0, btts: false });
+    });
+  });
+
+  describe("overUnder", () => {
+    it("treats 3 goals as over 2.5", () => {
+      const result = calculateSideMarketPoints(
+        picks({ overUnder: "over" }),
+        fixture(2, 1),
+        rules
+      );
+      expect(result).toMatchObject({ points: 2, overUnder: true });
+    });
+
+    it("treats 2 goals as under 2.5", () => {
+      const result = calculateSideMarketPoints(
+        picks({ overUnder: "over" }),
+        fixture(1, 1),
+        rules
+      );
+      expect(result).toMatchObject({ points: 0, overUnder: false });
+    });
+  });
+
+  describe("firstTeamToScore", () => {
+    it("awards points for the team that scored first", () => {
+      const result = calculateSideMarketPoints(
+        picks({ firstTeamToScore: "away" }),
+        fixture(2, 1, "away"),
+        rules
+      );
+      expect(result).toMatchObject({ points: 3, firstTeamToScore: true });
+    });
+
+    it("settles none on a goalless draw without provider data", () => {
+      const result = calculateSideMarketPoints(
+        picks({ firstTeamToScore: "none" }),
+        fixture(0, 0),
+        rules
+      );
+      expect(result).toMatchObject({ points: 3, firstTeamToScore: true });
+    });
+
+    it("voids the pick when the first scorer is unknown", () => {
+      const result = calculateSideMarketPoints(
+        picks({ firstTeamToScore: "home" }),
+        fixture(1, 0, null),
+        rules
+      );
+      expect(result).toMatchObject({
+        points: 0,
+        firstTeamToScore: null,
+        firstTeamToScoreVoid: true,
+      });
+    });
+  });
+
+  it("sums all markets that hit", () => {
+    const result = calculateSideMarketPoints(
+      picks({ btts: true, overUnder: "over", firstTeamToScore: "home" }),
+      fixture(2, 1, "home"),
+      rules
+    );
+    expect(result.points).toBe(6);
+  });
+
+  it("ignores picks on disabled markets", () => {
+    const result = calculateSideMarketPoints(
+      picks({ btts: true, overUnder: "over" }),
+      fixture(2, 1, "home"),
+      { ...rules, bttsPoints: 0 }
+    );
+    expect(result).toMatchObject({ points: 2, btts: null, overUnder: true });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// resolveFirstTeamToScore / parseSideMarketPicks
+// ---------------------------------------------------------------------------
+
+describe("resolveFirstTeamToScore", () => {
+  it("ignores a stale provider value on a goalless score", () => {
+    expect(resolveFirstTeamToScore(fixture(0, 0, "home"))).toBe("none");
+  });
+
+  it("returns null for unknown values", () => {
+    expect(resolveFirstTeamToScore(fixture(1, 0, "x"))).toBeNull();
+  });
+});
+
+describe("parseSideMarketPicks", () => {
+  it("drops unknown stored values", () => {
+    expect(
+      parseSideMarketPicks({
+        bttsPick: false,
+        overUnderPick: "maybe",
+        firstTeamToScorePick: "away",
+      })
+    ).toEqual({ btts: false, overUnder: null, firstTeamToScore: "away" });
+  });
+});
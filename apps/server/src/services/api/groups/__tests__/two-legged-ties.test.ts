@@ -0,0 +1,169 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  computeTieAggregate,
+  isSecondLeg,
+  orderTieLegs,
+  resolveTieWinner,
+  scoreTiePick,
+  type TieLeg,
+} from "../two-legged-ties";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const HOME = 10;
+const AWAY = 20;
+
+function leg(overrides: Partial<TieLeg> = {}): TieLeg {
+  return {
+    id: 1,
+    leg: "1/2",
+    startTs: 1_780_000_000,
+    state: "FT",
+    homeTeamId: HOME,
+    awayTeamId: AWAY,
+    homeScore90: 0,
+    awayScore90: 0,
+    homeScoreET: null,
+    awayScoreET: null,
+    penHome: null,
+    penAway: null,
+    ...overrides,
+  };
+}
+
+/** Second leg played the other way round (first leg's away team at home). */
+function returnLeg(overrides: Partial<TieLeg> = {}): TieLeg {
+  return leg({
+    id: 2,
+    leg: "2/2",
+    startTs: 1_780_600_000,
+    homeTeamId: AWAY,
+    awayTeamId: HOME,
+    ...overrides,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// isSecondLeg / orderTieLegs
+// ---------------------------------------------------------------------------
+
+describe("isSecondLeg", () => {
+  it("is true only for the 2/2 marker", () => {
+    expect(isSecondLeg("2/2")).toBe(true);
+    expect(isSecondLeg("1/2")).toBe(false);
+    expect(isSecondLeg(null)).toBe(false);
+  });
+});
+
+describe("orderTieLegs", () => {
+  it("orders by leg marker even when the second leg kicks off first", () => {
+    const first = leg({ startTs: 200 });
+    const second = returnLeg({ startTs: 100 });
+    expect(orderTieLegs([second, first])).toEqual({ first, second });
+  });
+
+  it("falls back to kickoff order without markers", () => {
+    const a = leg({ leg: null, startTs: 100 });
+    const b = leg({ id: 2, leg: null, startTs: 200 });
+    expect(orderTieLegs([b, a])).toEqual({ first: a, second: b });
+  });
+
+  it("returns null unless there are exactly two legs", () => {
+    expect(orderTieLegs([leg()])).toBeNull();
+    expect(orderTieLegs([leg(), returnLeg(), returnLeg()])).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// computeTieAggregate
+// ---------------------------------------------------------------------------
+
+describe("computeTieAggregate", () => {
+  it("adds a swapped second leg from the first leg's point of view", () => {
+    const first = leg({ homeScore90: 2, awayScore90: 1 });
+    const second = returnLeg({ homeScore90: 3, awayScore90: 0 });
+    expect(computeTieAggregate(first, second)).toEqual({ home: 2, away: 4 });
+  });
+
+  it("uses the extra-time score when the second leg went to ET", () => {
+    const first = leg({ homeScore90: 1, awayScore90: 0 });
+    const second = returnLeg({
+      homeScore90: 1,
+      awayScore90: 0,
+      homeScoreET: 2,
+      awayScoreET: 0,
+    });
+    expect(computeTieAggregate(first, second)).toEqual({ home: 1, away: 2 });
+  });
+
+  it("counts only the first leg while the second has no score", () => {
+    const first = leg({ homeScore90: 1, awayScore90: 1 });
+    const second = returnLeg({ homeScore90: null, awayScore90: null });
+    expect(computeTieAggregate(first, second)).toEqual({ home: 1, away: 1 });
+  });
+
+  it("returns null before the first leg has a score", () => {
+    const first = leg({ homeScore90: null, awayScore90: null, state: "NS" });
+    expect(computeTieAggregate(first, returnLeg())).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// resolveTieWinner
+// ---------------------------------------------------------------------------
+
+describe("resolveTieWinner", () => {
+  it("returns the aggregate winner", () => {
+    const first = leg({ homeScore90: 3, awayScore90: 0 });
+    const second = returnLeg({ homeScore90: 2, awayScore90: 1 });
+    expect(resolveTieWinner(first, second)).toBe(HOME);
+  });
+
+  it("has no away-goals rule: a level aggregate goes to the shootout", () => {
+    // 1:0, then 2:1 at the other ground — 2:2 on aggregate
+    const first = leg({ homeScore90: 1, awayScore90: 0 });
+    const second = returnLeg({
+      homeScore90: 1,
+      awayScore90: 0,
+      homeScoreET: 2,
+      awayScoreET: 1,
+      penHome: 3,
+      penAway: 4,
+      state: "FT_PEN",
+    });
+    expect(resolveTieWinner(first, second)).toBe(HOME);
+  });
+
+  it("returns null while the second leg is unfinished", () => {
+    const first = leg({ homeScore90: 3, awayScore90: 0 });
+    const second = returnLeg({
+      homeScore90: 0,
+      awayScore90: 0,
+      state: "INPLAY_2ND_HALF",
+    });
+    expect(resolveTieWinner(first, second)).toBeNull();
+  });
+
+  it("returns null for a level aggregate without a shootout", () => {
+    const first = leg({ homeScore90: 1, awayScore90: 0 });
+    const second = returnLeg({ homeScore90: 1, awayScore90: 0 });
+    expect(resolveTieWinner(first, second)).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// scoreTiePick
+// ---------------------------------------------------------------------------
+
+describe("scoreTiePick", () => {
+  it("awards the market's points for the team that went through", () => {
+    expect(scoreTiePick(HOME, HOME, 3)).toEqual({ isCorrect: true, points: 3 });
+    expect(scoreTiePick(AWAY, HOME, 3)).toEqual({
+      isCorrect: false,
+      points: 0,
+    });
+  });
+});
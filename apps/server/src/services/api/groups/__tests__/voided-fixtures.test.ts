@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  decideRescheduledFixture,
+  decideVoidedFixture,
+  isWithinFollowWindow,
+} from "../voided-fixtures";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const DAY = 24 * 60 * 60;
+const KICKOFF = 1_780_000_000;
+
+// ---------------------------------------------------------------------------
+// isWithinFollowWindow
+// ---------------------------------------------------------------------------
+
+describe("isWithinFollowWindow", () => {
+  it("includes a new kickoff exactly at the window edge", () => {
+    expect(isWithinFollowWindow(KICKOFF, KICKOFF + 7 * DAY, 7)).toBe(true);
+  });
+
+  it("excludes a new kickoff past the window", () => {
+    expect(isWithinFollowWindow(KICKOFF, KICKOFF + 7 * DAY + 1, 7)).toBe(false);
+  });
+
+  it("includes a kickoff moved earlier", () => {
+    expect(isWithinFollowWindow(KICKOFF, KICKOFF - DAY, 7)).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// decideVoidedFixture
+// ---------------------------------------------------------------------------
+
+describe("decideVoidedFixture", () => {
+  const base = {
+    state: "POSTPONED",
+    originalStartTs: KICKOFF,
+    windowDays: 7,
+    nowTs: KICKOFF + DAY,
+  };
+
+  it("voids everything under the void policy", () => {
+    expect(decideVoidedFixture({ ...base, policy: "void" })).toBe("void");
+  });
+
+  it("follows a postponement within the window", () => {
+    expect(decideVoidedFixture({ ...base, policy: "follow" })).toBe("follow");
+  });
+
+  it("voids a postponement once the window has passed", () => {
+    expect(
+      decideVoidedFixture({
+        ...base,
+        policy: "follow",
+        nowTs: KICKOFF + 8 * DAY,
+      })
+    ).toBe("void");
+  });
+
+  it("always voids cancelled and abandoned fixtures", () => {
+    for (const state of ["CANCELLED", "ABANDONED", "DELETED"]) {
+      expect(decideVoidedFixture({ ...base, policy: "follow", state })).toBe(
+        "void"
+      );
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// decideRescheduledFixture
+// ---------------------------------------------------------------------------
+
+describe("decideRescheduledFixture", () => {
+  it("follows a reschedule within the window", () => {
+    expect(
+      decideRescheduledFixture({
+        policy: "follow",
+        previousStartTs: KICKOFF,
+        startTs: KICKOFF + 3 * DAY,
+        windowDays: 7,
+      })
+    ).toBe("follow");
+  });
+
+  it("voids a reschedule beyond the window", () => {
+    expect(
+      decideRescheduledFixture({
+        policy: "follow",
+        previousStartTs: KICKOFF,
+        startTs: KICKOFF + 30 * DAY,
+        windowDays: 7,
+      })
+    ).toBe("void");
+  });
+
+  it("voids a reschedule under the void policy", () => {
+    expect(
+      decideRescheduledFixture({
+        policy: "void",
+        previousStartTs: KICKOFF,
+        startTs: KICKOFF + DAY,
+        windowDays: 7,
+      })
+    ).toBe("void");
+  });
+});
@@ -0,0 +1,165 @@
+// groups/bracket.ts
+// Pure helpers for head-to-head knockout brackets. No DB, no side effects.
+//
+// Members are seeded from the group ranking and paired off; each bracket round is
+// played on one competition round of the group's fixtures (fixtures.round, see
+// roundBucket). Whoever scores more prediction points in that round advances;
+// ties go to the scoring strategy's ranking tiebreakers, then to the higher seed.
+
+import { roundBucket, type JokerFixture } from "./helpers/joker";
+import type { RankingTiebreaker } from "./scoring-strategies";
+
+/** One pairing of a bracket round. A null away side is a bye. */
+export type BracketPairing = {
+  slot: number;
+  homeUserId: number | null;
+  awayUserId: number | null;
+};
+
+/** A member's prediction totals over the fixtures of one round. */
+export type RoundScore = Record<RankingTiebreaker, number> & {
+  points: number;
+};
+
+export const EMPTY_ROUND_SCORE: RoundScore = {
+  points: 0,
+  correctScore: 0,
+  correctDifference: 0,
+  correctOutcome: 0,
+};
+
+export type BracketFixture = JokerFixture & {
+  started: boolean;
+  /** Finished or cancelled: the fixture won't add points anymore. */
+  finished: boolean;
+};
+
+/** Group fixtures of one competition round, ordered by kickoff. */
+export type RoundBucket = {
+  key: string;
+  label: string;
+  groupFixtureIds: number[];
+  firstStartTs: number;
+  started: boolean;
+  finished: boolean;
+};
+
+/** Number of bracket rounds for n entrants (2 → 1, 3-4 → 2, 5-8 → 3, ...). */
+export function bracketRoundCount(entrants: number): number {
+  return entrants < 2 ? 0 : Math.ceil(Math.log2(entrants));
+}
+
+/**
+ * Seed numbers in bracket order, so that seed 1 and 2 can only meet in the final:
+ * seedOrder(8) = [1, 8, 4, 5, 2, 7, 3, 6].
+ */
+function seedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const next = order.length * 2 + 1;
+    order = order.flatMap((seed) => [seed, next - seed]);
+  }
+  return order;
+}
+
+/**
+ * First round pairings from members in seed order (best first).
+ * The field is padded to a power of two with byes, which go to the top seeds.
+ */
+export function seedFirstRound(userIdsBySeed: number[]): BracketPairing[] {
+  const size = 2 ** bracketRoundCount(userIdsBySeed.length);
+  const order = seedOrder(size);
+  const pairings: BracketPairing[] = [];
+  for (let slot = 0; slot < size / 2; slot++) {
+    const homeSeed = order[slot * 2]!;
+    const awaySeed = order[slot * 2 + 1]!;
+    pairings.push({
+      slot,
+      homeUserId: userIdsBySeed[homeSeed - 1] ?? null,
+      awayUserId: userIdsBySeed[awaySeed - 1] ?? null,
+    });
+  }
+  return pairings;
+}
+
+/** Pair the winners of a round (in slot order): slots 2n and 2n+1 meet next. */
+export function pairNextRound(winners: Array<number | null>): BracketPairing[] {
+  const pairings: BracketPairing[] = [];
+  for (let i = 0; i < winners.length; i += 2) {
+    pairings.push({
+      slot: i / 2,
+      homeUserId: winners[i] ?? null,
+      awayUserId: winners[i + 1] ?? null,
+    });
+  }
+  return pairings;
+}
+
+/**
+ * Winner of a pairing: more points, then the ranking tiebreakers in order,
+ * then the home side (the higher seed). A missing side loses.
+ */
+export function decideMatch(
+  home: { userId: number | null; score: RoundScore },
+  away: { userId: number | null; score: RoundScore },
+  tiebreakers: RankingTiebreaker[]
+): number | null {
+  if (home.userId == null) return away.userId;
+  if (away.userId == null) return home.userId;
+  const fields: Array<keyof RoundScore> = ["points", ...tiebreakers];
+  for (const field of fields) {
+    if (home.score[field] !== away.score[field]) {
+      return home.score[field] > away.score[field] ? home.userId : away.userId;
+    }
+  }
+  return home.userId;
+}
+
+/** Label shown for a round: the competition round, else the stage, else the day. */
+function roundLabel(fixture: BracketFixture): string {
+  return (
+    fixture.round ??
+    fixture.stage ??
+    new Date(fixture.startTs * 1000).toISOString().slice(0, 10)
+  );
+}
+
+/** Group the group's fixtures by competition round, ordered by first kickoff. */
+export function buildRoundBuckets(fixtures: BracketFixture[]): RoundBucket[] {
+  const byKey = new Map<string, RoundBucket>();
+  const ordered = [...fixtures].sort(
+    (a, b) => a.startTs - b.startTs || a.groupFixtureId - b.groupFixtureId
+  );
+  for (const f of ordered) {
+    const key = roundBucket(f);
+    const bucket = byKey.get(key);
+    if (bucket) {
+      bucket.groupFixtureIds.push(f.groupFixtureId);
+      bucket.started ||= f.started;
+      bucket.finished &&= f.finished;
+    } else {
+      byKey.set(key, {
+        key,
+        label: roundLabel(f),
+        groupFixtureIds: [f.groupFixtureId],
+        firstStartTs: f.startTs,
+        started: f.started,
+        finished: f.finished,
+      });
+    }
+  }
+  return [...byKey.values()];
+}
+
+/**
+ * The round a bracket round should be played on: the first round after
+ * `afterKey` (or the first overall) that hasn't kicked off yet.
+ */
+export function nextRoundBucket(
+  buckets: RoundBucket[],
+  afterKey: string | null
+): RoundBucket | null {
+  const afterIndex =
+    afterKey == null ? -1 : buckets.findIndex((b) => b.key === afterKey);
+  return buckets.slice(afterIndex + 1).find((b) => !b.started) ?? null;
+}
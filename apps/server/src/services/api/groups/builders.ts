@@ -212,6 +212,7 @@ export function formatFixtureFromDb(
     stage: fixture.stage ?? null,
     round: fixture.round ?? null,
     leg: fixture.leg ?? null,
+    aggregateId: fixture.aggregateId ?? null,
     league: fixture.league
       ? {
           id: fixture.league.id,
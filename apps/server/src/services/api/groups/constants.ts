@@ -11,8 +11,17 @@ export const MEMBER_STATUS = {
   JOINED: "joined",
   LEFT: "left",
   PENDING: "pending",
+  BANNED: "banned",
 } as const;
 
+export const MEMBER_ROLE = {
+  OWNER: "owner",
+  ADMIN: "admin",
+  MEMBER: "member",
+} as const;
+
+export type MemberRole = (typeof MEMBER_ROLE)[keyof typeof MEMBER_ROLE];
+
 export const GROUP_PRIVACY = {
   PRIVATE: "private",
   PUBLIC: "public",
@@ -35,3 +44,22 @@ export const INVITE_ACCESS = {
 
 export const NUDGE_WINDOW_MIN = 15;
 export const NUDGE_WINDOW_MAX = 1440;
+
+export const UNDERDOG_MAX_MULTIPLIER_MIN = 2;
+export const UNDERDOG_MAX_MULTIPLIER_MAX = 10;
+
+/** Points multiplier for a prediction played as the member's joker. */
+export const JOKER_MULTIPLIER = 2;
+export const JOKER_FIXTURES_PER_CARD_MIN = 2;
+export const JOKER_FIXTURES_PER_CARD_MAX = 20;
+export const DEFAULT_JOKER_FIXTURES_PER_CARD = 5;
+
+/** Upper bound for each side market's points (0 disables the market). */
+export const SIDE_MARKET_POINTS_MAX = 10;
+
+/** Upper bound for points per correctly picked team in an outright market. */
+export const OUTRIGHT_POINTS_MAX = 50;
+
+/** Sub-leagues a member can create per group. */
+export const MAX_SUB_LEAGUES_PER_MEMBER = 5;
+export const SUB_LEAGUE_NAME_MAX = 60;
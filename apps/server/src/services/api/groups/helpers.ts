@@ -9,8 +9,14 @@ import type {
   ParsedPrediction,
 } from "./types";
 import { resolveShortCode } from "../../../utils/short-code";
+import { parseSideMarketPicks } from "./side-markets";
 import { isNotStarted } from "@repo/utils";
 import { nowUnixSeconds } from "../../../utils/dates";
+import {
+  DEFAULT_PREDICTION_VISIBILITY,
+  othersPredictionsVisible,
+  type PredictionVisibility,
+} from "./prediction-visibility";
 
 // Types
 import { GROUP_STATUS } from "./constants";
@@ -79,6 +85,18 @@ export function parsePrediction(
     placedAt: predictionRow.placedAt.toISOString(),
     settled: predictionRow.settledAt != null,
     points: points !== null && !isNaN(points) ? points : null,
+    isJoker: predictionRow.isJoker ?? false,
+    ...(predictionRow.voidedAt !== undefined && {
+      voided: predictionRow.voidedAt !== null,
+    }),
+    ...(predictionRow.marketPoints !== undefined && {
+      markets: parseSideMarketPicks({
+        bttsPick: predictionRow.bttsPick ?? null,
+        overUnderPick: predictionRow.overUnderPick ?? null,
+        firstTeamToScorePick: predictionRow.firstTeamToScorePick ?? null,
+      }),
+      marketPoints: predictionRow.marketPoints,
+    }),
   };
 }
 
@@ -185,11 +203,15 @@ export function hasMatchStarted(fixture: {
 
 /**
  * Build predictions map for predictions overview (pure function).
+ * Other members' picks are included only where the group's predictionVisibility
+ * rule lets the current user see them; their own picks are always included.
  *
  * @param predictions - Predictions data from repository
  * @param userId - The ID of the current user
  * @param fixtures - Array of fixtures
- * @returns predictionsMap keyed by `${userId}_${fixtureId}` and fixtureStartedMap
+ * @param visibility - The group's predictionVisibility rule
+ * @returns predictionsMap keyed by `${userId}_${fixtureId}`, fixtureStartedMap,
+ *   and othersVisibleMap (fixtureId -> whether other members' picks are visible)
  */
 export function buildPredictionsMap(
   predictions: Array<{
@@ -208,33 +230,57 @@ export function buildPredictionsMap(
     result: string | null;
     startTs: number;
     state: string;
-  }>
+  }>,
+  visibility: PredictionVisibility = DEFAULT_PREDICTION_VISIBILITY
 ): {
   predictionsMap: Record<string, string | null>;
   predictionPointsMap: Record<string, string | null>;
   fixtureStartedMap: Map<number, boolean>;
+  othersVisibleMap: Map<number, boolean>;
 } {
   // Create a map of fixtureId -> hasStarted for quick lookup
   const fixtureStartedMap = new Map(
     fixtures.map((f) => [f.id, hasMatchStarted(f)])
   );
 
+  // Fixtures the current user has predicted (for "after_own_prediction")
+  const ownPredictedFixtureIds = new Set(
+    predictions
+      .filter((p) => p.userId === userId)
+      .map((p) => p.groupFixtures.fixtureId)
+  );
+
+  const othersVisibleMap = new Map(
+    fixtures.map((f) => [
+      f.id,
+      othersPredictionsVisible({
+        visibility,
+        fixtureStarted: fixtureStartedMap.get(f.id) ?? false,
+        viewerHasPredicted: ownPredictedFixtureIds.has(f.id),
+      }),
+    ])
+  );
+
   // Build predictions map: `${userId}_${fixtureId}` -> "home:away"
   const predictionsMap: Record<string, string | null> = {};
   const predictionPointsMap: Record<string, string | null> = {};
   for (const pred of predictions) {
     const fixtureId = pred.groupFixtures.fixtureId;
     const key = `${pred.userId}_${fixtureId}`;
-    const hasStarted = fixtureStartedMap.get(fixtureId) ?? false;
 
     // Include prediction if:
     // 1. It's the current user's prediction (always show)
-    // 2. OR the match has started (show all users' predictions)
-    if (pred.userId === userId || hasStarted) {
+    // 2. OR the group's visibility rule reveals others' picks for this fixture
+    if (pred.userId === userId || othersVisibleMap.get(fixtureId)) {
       predictionsMap[key] = pred.prediction;
       predictionPointsMap[key] = pred.settledAt ? pred.points : null;
     }
   }
 
-  return { predictionsMap, predictionPointsMap, fixtureStartedMap };
+  return {
+    predictionsMap,
+    predictionPointsMap,
+    fixtureStartedMap,
+    othersVisibleMap,
+  };
 }
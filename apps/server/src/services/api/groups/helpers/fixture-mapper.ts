@@ -18,6 +18,12 @@ type GroupFixtureWithPredictions = {
     placedAt: Date;
     settledAt: Date | null;
     points: number | string | null;
+    isJoker: boolean;
+    bttsPick: boolean | null;
+    overUnderPick: string | null;
+    firstTeamToScorePick: string | null;
+    marketPoints: number;
+    voidedAt: Date | null;
   }>;
 };
 
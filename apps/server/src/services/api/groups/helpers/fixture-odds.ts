@@ -0,0 +1,88 @@
+// groups/helpers/fixture-odds.ts
+// Loads 1X2 (market "1") odds per fixture for odds-aware scoring, and reads
+// the per-group-fixture snapshots frozen at kickoff.
+
+import { prisma } from "@repo/db";
+import type { OutcomeOdds } from "../scoring-strategies";
+
+const MATCH_ODDS_MARKET_EXTERNAL_ID = "1";
+
+const LABEL_TO_OUTCOME: Record<string, keyof OutcomeOdds> = {
+  "1": "home",
+  Home: "home",
+  X: "draw",
+  Draw: "draw",
+  "2": "away",
+  Away: "away",
+};
+
+/**
+ * Returns the average decimal 1X2 odds across bookmakers for each fixture.
+ * Fixtures without a complete home/draw/away set are omitted.
+ */
+export async function loadOutcomeOdds(
+  fixtureIds: number[]
+): Promise<Map<number, OutcomeOdds>> {
+  const result = new Map<number, OutcomeOdds>();
+  if (!fixtureIds.length) return result;
+
+  const rows = await prisma.odds.findMany({
+    where: {
+      fixtureId: { in: fixtureIds },
+      marketExternalId: MATCH_ODDS_MARKET_EXTERNAL_ID,
+    },
+    select: { fixtureId: true, label: true, value: true },
+  });
+
+  const sums = new Map<
+    number,
+    Record<keyof OutcomeOdds, { total: number; count: number }>
+  >();
+  for (const row of rows) {
+    const outcome = LABEL_TO_OUTCOME[row.label.trim()];
+    const value = Number(row.value);
+    if (!outcome || !Number.isFinite(value) || value <= 0) continue;
+    let entry = sums.get(row.fixtureId);
+    if (!entry) {
+      entry = {
+        home: { total: 0, count: 0 },
+        draw: { total: 0, count: 0 },
+        away: { total: 0, count: 0 },
+      };
+      sums.set(row.fixtureId, entry);
+    }
+    entry[outcome].total += value;
+    entry[outcome].count += 1;
+  }
+
+  for (const [fixtureId, entry] of sums) {
+    if (!entry.home.count || !entry.draw.count || !entry.away.count) continue;
+    result.set(fixtureId, {
+      home: round2(entry.home.total / entry.home.count),
+      draw: round2(entry.draw.total / entry.draw.count),
+      away: round2(entry.away.total / entry.away.count),
+    });
+  }
+
+  return result;
+}
+
+/** Reads a frozen odds snapshot (groupFixtures.frozenOdds); null when absent or malformed. */
+export function parseFrozenOdds(value: unknown): OutcomeOdds | null {
+  if (value == null || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  const { home, draw, away } = value as Record<string, unknown>;
+  if (
+    typeof home !== "number" ||
+    typeof draw !== "number" ||
+    typeof away !== "number"
+  ) {
+    return null;
+  }
+  return { home, draw, away };
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,72 @@
+// groups/helpers/joker.ts
+// Joker card buckets: which group fixtures share a single joker. Pure — no DB.
+//
+// "round" mode groups fixtures by competition round (fixtures.round / stage);
+// fixtures with neither fall back to their kickoff day (UTC).
+// "fixtures" mode chunks the group's fixtures into sets of N by their joker slot: the
+// kickoff-order position assigned when the fixture was attached (group_fixtures.joker_slot),
+// so adding, removing or rescheduling fixtures never moves a fixture to another set.
+
+export type JokerMode = "off" | "round" | "fixtures";
+
+export type JokerRules = {
+  jokerMode: JokerMode;
+  jokerFixturesPerCard: number;
+};
+
+export type JokerFixture = {
+  groupFixtureId: number;
+  startTs: number;
+  leagueId: number | null;
+  seasonId: number | null;
+  stage: string | null;
+  round: string | null;
+  /** Position assigned when attached to the group; null if not assigned yet. */
+  jokerSlot?: number | null;
+};
+
+/** Competition round key of a fixture; also pairs head-to-head bracket rounds (see bracket.ts). */
+export function roundBucket(fixture: JokerFixture): string {
+  const competition = fixture.seasonId ?? fixture.leagueId ?? "-";
+  if (fixture.round == null && fixture.stage == null) {
+    const day = new Date(fixture.startTs * 1000).toISOString().slice(0, 10);
+    return `day:${day}`;
+  }
+  return `round:${competition}:${fixture.stage ?? ""}:${fixture.round ?? ""}`;
+}
+
+/**
+ * Map each group fixture to its joker bucket key. A member may hold one joker per bucket.
+ * Returns an empty map when jokers are off.
+ */
+export function buildJokerBuckets(
+  fixtures: JokerFixture[],
+  rules: JokerRules
+): Map<number, string> {
+  const buckets = new Map<number, string>();
+  if (rules.jokerMode === "round") {
+    for (const f of fixtures) buckets.set(f.groupFixtureId, roundBucket(f));
+  } else if (rules.jokerMode === "fixtures") {
+    const perCard = Math.max(1, rules.jokerFixturesPerCard);
+    // Fixtures without a slot get the next slots in kickoff order, as assignment would
+    let nextSlot = Math.max(-1, ...fixtures.map((f) => f.jokerSlot ?? -1)) + 1;
+    const unslotted = fixtures
+      .filter((f) => f.jokerSlot == null)
+      .sort(
+        (a, b) => a.startTs - b.startTs || a.groupFixtureId - b.groupFixtureId
+      );
+    const slots = new Map(unslotted.map((f) => [f.groupFixtureId, nextSlot++]));
+    for (const f of fixtures) {
+      const slot = f.jokerSlot ?? slots.get(f.groupFixtureId)!;
+      buckets.set(f.groupFixtureId, `set:${Math.floor(slot / perCard)}`);
+    }
+  }
+  return buckets;
+}
+
+/** Human-readable joker limit for error messages. */
+export function describeJokerLimit(rules: JokerRules): string {
+  return rules.jokerMode === "fixtures"
+    ? `one joker per ${rules.jokerFixturesPerCard} fixtures`
+    : "one joker per round";
+}
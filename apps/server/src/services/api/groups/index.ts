@@ -16,15 +16,46 @@ export {
   deleteGroup,
   getPredictionsOverview,
   getGroupRanking,
+  getPeriodRanking,
+  getRoundHistory,
+  getRankingHistory,
+  getGroupOutrights,
+  createGroupOutright,
+  saveOutrightPick,
+  getGroupTies,
+  saveTiePick,
+  continueGroupToNextSeason,
+  getAllTimeTable,
+  getGroupBracket,
+  startGroupBracket,
+  getMySubLeagues,
+  createSubLeague,
+  joinSubLeagueByCode,
+  leaveSubLeague,
+  deleteSubLeague,
+  getSubLeagueRanking,
+  getSubLeagueMessages,
+  sendSubLeagueMessage,
   getGroupMembers,
   leaveGroup,
+  removeGroupMember,
+  banGroupMember,
+  unbanGroupMember,
+  setGroupMemberRole,
+  transferGroupOwnership,
   sendNudge,
   settlePredictionsForFixtures,
+  freezeGroupFixtureOdds,
   joinGroupByCode,
   joinPublicGroup,
   generateInviteCode,
   getInviteCode,
+  getJoinRequests,
+  acceptJoinRequest,
+  rejectJoinRequest,
   getGroupPreview,
+  getScoringStrategies,
+  getScoringPreview,
   getGroupActivity,
   markActivityAsRead,
   getUnreadActivityCounts,
@@ -0,0 +1,113 @@
+// groups/live-points.ts
+// Pure live-points projection for an in-play fixture. No DB, no side effects.
+//
+// While a match is on, each unsettled prediction is scored as if the current
+// score were final (same scoring engine, side markets and joker multiplier as
+// settlement). The result is provisional and never persisted; settlement stays
+// the source of truth once the fixture finishes.
+
+import { calculateScore, type ScoringRules } from "./scoring";
+import type { OutcomeOdds } from "./scoring-strategies";
+import {
+  calculateSideMarketPoints,
+  parseSideMarketPicks,
+  type SideMarketRules,
+} from "./side-markets";
+import { JOKER_MULTIPLIER } from "./constants";
+
+/** Current score of an in-play fixture. */
+export type LiveFixtureScore = {
+  homeScore90: number;
+  awayScore90: number;
+  homeScoreET?: number | null;
+  awayScoreET?: number | null;
+  penHome?: number | null;
+  penAway?: number | null;
+  leg?: string | null;
+  firstScoringTeam: string | null;
+};
+
+export type LivePrediction = {
+  prediction: string;
+  isJoker: boolean;
+  bttsPick: boolean | null;
+  overUnderPick: string | null;
+  firstTeamToScorePick: string | null;
+};
+
+/** Settled standing of a member, as returned by the core ranking. */
+export type LiveProjectionMember = {
+  userId: number;
+  username: string | null;
+  rank: number;
+  totalPoints: number;
+};
+
+export type LiveProjectionItem = LiveProjectionMember & {
+  livePoints: number;
+  projectedPoints: number;
+  projectedRank: number;
+  rankChange: number;
+};
+
+/**
+ * Points a prediction would earn if the fixture ended with the current score.
+ * An unknown first scorer voids the first-team-to-score pick (0 points), as in settlement.
+ */
+export function calculateLivePoints(
+  prediction: LivePrediction,
+  score: LiveFixtureScore,
+  rules: ScoringRules,
+  marketRules: SideMarketRules,
+  odds: OutcomeOdds | null = null
+): number {
+  // calculateScore only scores finished fixtures; the live score is treated as final.
+  const result = calculateScore(
+    { prediction: prediction.prediction },
+    { ...score, state: "FT" },
+    rules,
+    { odds }
+  );
+  const markets = calculateSideMarketPoints(
+    parseSideMarketPicks(prediction),
+    score,
+    marketRules
+  );
+  const basePoints = result.points + markets.points;
+  return prediction.isJoker ? basePoints * JOKER_MULTIPLIER : basePoints;
+}
+
+/**
+ * Add live points to the settled ranking and re-rank.
+ * Members tied on projected points keep their settled order, so nobody moves
+ * while no prediction earns live points. Sorted by projected rank.
+ */
+export function projectLiveRanking(
+  members: LiveProjectionMember[],
+  livePoints: Map<number, number>
+): LiveProjectionItem[] {
+  const projected = members.map((m) => {
+    const points = livePoints.get(m.userId) ?? 0;
+    return {
+      userId: m.userId,
+      username: m.username,
+      rank: m.rank,
+      totalPoints: m.totalPoints,
+      livePoints: points,
+      projectedPoints: m.totalPoints + points,
+    };
+  });
+
+  return projected
+    .map((m) => {
+      const projectedRank =
+        1 +
+        projected.filter(
+          (o) =>
+            o.projectedPoints > m.projectedPoints ||
+            (o.projectedPoints === m.projectedPoints && o.rank < m.rank)
+        ).length;
+      return { ...m, projectedRank, rankChange: m.rank - projectedRank };
+    })
+    .sort((a, b) => a.projectedRank - b.projectedRank || a.userId - b.userId);
+}
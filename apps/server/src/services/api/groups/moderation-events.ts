@@ -0,0 +1,31 @@
+// groups/moderation-events.ts
+// Texts for member moderation events, shared by the chat system message and the activity log.
+
+export type ModerationEventType =
+  | "member_removed"
+  | "member_banned"
+  | "member_unbanned"
+  | "member_promoted"
+  | "member_demoted"
+  | "ownership_transferred";
+
+export function buildModerationBody(
+  eventType: ModerationEventType,
+  actor: string,
+  target: string
+): string {
+  switch (eventType) {
+    case "member_removed":
+      return `${actor} removed ${target} from the group`;
+    case "member_banned":
+      return `${actor} banned ${target} from the group`;
+    case "member_unbanned":
+      return `${actor} lifted the ban on ${target}`;
+    case "member_promoted":
+      return `${actor} made ${target} an admin`;
+    case "member_demoted":
+      return `${actor} removed ${target} as admin`;
+    case "ownership_transferred":
+      return `${actor} transferred ownership to ${target}`;
+  }
+}
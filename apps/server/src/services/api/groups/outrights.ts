@@ -0,0 +1,79 @@
+// groups/outrights.ts
+// Season-long ("outright") markets: which standings positions settle each market
+// and how a member's pick is scored. Pure functions, no DB access.
+
+export type OutrightMarket = "champion" | "top4" | "relegation";
+
+export const OUTRIGHT_MARKETS: readonly OutrightMarket[] = [
+  "champion",
+  "top4",
+  "relegation",
+];
+
+/** Teams picked per market; relegation defaults to 3 and can be set per group. */
+export const OUTRIGHT_PICK_COUNT: Record<
+  OutrightMarket,
+  { default: number; min: number; max: number }
+> = {
+  champion: { default: 1, min: 1, max: 1 },
+  top4: { default: 4, min: 4, max: 4 },
+  relegation: { default: 3, min: 1, max: 6 },
+};
+
+/** A standings row mapped to internal team ids. */
+export type OutrightStandingRow = {
+  teamId: number;
+  position: number;
+};
+
+export type OutrightPickResult = {
+  correctCount: number;
+  points: number;
+};
+
+/**
+ * Team ids that satisfy the market in the final standings:
+ * champion = position 1, top4 = positions 1-4, relegation = the last `pickCount` places.
+ * Returns an empty array when the table has fewer rows than the market needs.
+ */
+export function resolveOutrightResult(
+  market: OutrightMarket,
+  pickCount: number,
+  standings: OutrightStandingRow[]
+): number[] {
+  const sorted = [...standings].sort((a, b) => a.position - b.position);
+  if (sorted.length < pickCount) return [];
+
+  switch (market) {
+    case "champion":
+      return sorted.slice(0, 1).map((row) => row.teamId);
+    case "top4":
+      return sorted.slice(0, 4).map((row) => row.teamId);
+    case "relegation":
+      return sorted.slice(sorted.length - pickCount).map((row) => row.teamId);
+  }
+}
+
+/**
+ * Score a member's pick: `points` per picked team found in the result.
+ * Order inside the pick does not matter (top 4 in any order counts).
+ */
+export function scoreOutrightPick(
+  teamIds: number[],
+  resultTeamIds: number[],
+  points: number
+): OutrightPickResult {
+  const result = new Set(resultTeamIds);
+  const correctCount = new Set(teamIds.filter((id) => result.has(id))).size;
+  return { correctCount, points: correctCount * points };
+}
+
+/**
+ * True once the season's last day (YYYY-MM-DD, UTC) is over.
+ * Settlement is only confirmed after this so the standings are final.
+ */
+export function hasSeasonEnded(endDate: string, nowSeconds: number): boolean {
+  const endMs = Date.parse(`${endDate.slice(0, 10)}T23:59:59Z`);
+  if (Number.isNaN(endMs)) return false;
+  return nowSeconds * 1000 > endMs;
+}
@@ -3,7 +3,14 @@
 
 import { prisma } from "@repo/db";
 import { NotFoundError, ForbiddenError } from "../../../utils/errors";
-import { MEMBER_STATUS } from "./constants";
+import { MEMBER_ROLE, MEMBER_STATUS, type MemberRole } from "./constants";
+
+/** Higher rank can moderate lower rank. */
+const ROLE_RANK: Record<MemberRole, number> = {
+  [MEMBER_ROLE.MEMBER]: 0,
+  [MEMBER_ROLE.ADMIN]: 1,
+  [MEMBER_ROLE.OWNER]: 2,
+};
 
 /**
  * Assert that a group exists.
@@ -31,7 +38,12 @@ export async function assertGroupMember(groupId: number, userId: number) {
   const isCreator = group.creatorId === userId;
 
   if (isCreator) {
-    return { group, isCreator: true, isMember: true };
+    return {
+      group,
+      isCreator: true,
+      isMember: true,
+      role: MEMBER_ROLE.OWNER as MemberRole,
+    };
   }
 
   const member = await prisma.groupMembers.findFirst({
@@ -46,7 +58,12 @@ export async function assertGroupMember(groupId: number, userId: number) {
     throw new ForbiddenError(`User does not have access to group with id ${groupId}`);
   }
 
-  return { group, isCreator: false, isMember: true };
+  return {
+    group,
+    isCreator: false,
+    isMember: true,
+    role: member.role as MemberRole,
+  };
 }
 
 /**
@@ -63,3 +80,31 @@ export async function assertGroupCreator(groupId: number, userId: number) {
 
   return group;
 }
+
+/**
+ * Assert that a user is a group admin or the owner (creator).
+ * Throws NotFoundError if group doesn't exist.
+ * Throws ForbiddenError if user is not a member or only a regular member.
+ */
+export async function assertGroupAdmin(groupId: number, userId: number) {
+  const { group, role } = await assertGroupMember(groupId, userId);
+
+  if (!isGroupAdminRole(role)) {
+    throw new ForbiddenError(`User is not an admin of group with id ${groupId}`);
+  }
+
+  return { group, role };
+}
+
+/** Admins and the owner manage the group. */
+export function isGroupAdminRole(role: MemberRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[MEMBER_ROLE.ADMIN];
+}
+
+/**
+ * Whether `actorRole` may remove, ban or change the role of a member with `targetRole`.
+ * The owner moderates everyone else; admins moderate regular members only.
+ */
+export function canModerate(actorRole: MemberRole, targetRole: MemberRole): boolean {
+  return isGroupAdminRole(actorRole) && ROLE_RANK[actorRole] > ROLE_RANK[targetRole];
+}
@@ -0,0 +1,52 @@
+// groups/prediction-visibility.ts
+// Pure rule for when a member may see another member's pick. No DB, no side effects.
+//
+// Every endpoint and socket payload that exposes other members' predictions
+// (overview, fixture detail, chat prediction cards) goes through canSeePrediction,
+// so the group's predictionVisibility rule is enforced in one place.
+
+import type { ApiPredictionVisibility } from "@repo/types";
+
+export type PredictionVisibility = ApiPredictionVisibility;
+
+export const PREDICTION_VISIBILITY = {
+  ALWAYS: "always",
+  AFTER_OWN_PREDICTION: "after_own_prediction",
+  AFTER_KICKOFF: "after_kickoff",
+} as const satisfies Record<string, PredictionVisibility>;
+
+/** Matches the DB default; also used when a group has no rules row. */
+export const DEFAULT_PREDICTION_VISIBILITY: PredictionVisibility =
+  PREDICTION_VISIBILITY.AFTER_KICKOFF;
+
+/**
+ * Whether the viewer may see other members' picks for a fixture.
+ * Kickoff reveals everything regardless of the rule.
+ */
+export function othersPredictionsVisible(args: {
+  visibility: PredictionVisibility | null | undefined;
+  fixtureStarted: boolean;
+  viewerHasPredicted: boolean;
+}): boolean {
+  if (args.fixtureStarted) return true;
+  switch (args.visibility ?? DEFAULT_PREDICTION_VISIBILITY) {
+    case PREDICTION_VISIBILITY.ALWAYS:
+      return true;
+    case PREDICTION_VISIBILITY.AFTER_OWN_PREDICTION:
+      return args.viewerHasPredicted;
+    default:
+      return false;
+  }
+}
+
+/** Whether the viewer may see one specific pick. Owners always see their own. */
+export function canSeePrediction(args: {
+  visibility: PredictionVisibility | null | undefined;
+  viewerId: number | null;
+  ownerId: number;
+  fixtureStarted: boolean;
+  viewerHasPredicted: boolean;
+}): boolean {
+  if (args.viewerId !== null && args.viewerId === args.ownerId) return true;
+  return othersPredictionsVisible(args);
+}
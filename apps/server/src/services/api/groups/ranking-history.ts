@@ -0,0 +1,82 @@
+// groups/ranking-history.ts
+// Ranking history: ranking snapshots (one per member per settled fixture) turned
+// into per-member series over a shared timeline. Pure — no DB.
+
+export type RankingSnapshotRow = {
+  fixtureId: number;
+  userId: number;
+  rank: number;
+  totalPoints: number;
+  createdAt: Date;
+};
+
+export type RankingHistoryStep = {
+  fixtureId: number;
+  at: Date;
+};
+
+export type RankingHistorySeries = {
+  userId: number;
+  ranks: Array<number | null>;
+  totalPoints: Array<number | null>;
+};
+
+/**
+ * Keep at most maxPoints items, evenly spaced. The first and the last item are
+ * always kept.
+ */
+export function downsample<T>(items: T[], maxPoints: number): T[] {
+  if (items.length <= maxPoints) return items;
+  if (maxPoints <= 1) return items.slice(-1);
+  const picked = new Set<number>();
+  for (let i = 0; i < maxPoints; i++) {
+    picked.add(Math.round((i * (items.length - 1)) / (maxPoints - 1)));
+  }
+  return [...picked].sort((a, b) => a - b).map((i) => items[i]!);
+}
+
+/**
+ * Timeline of settled fixtures (oldest first) and each member's rank and points
+ * at every step. A member with no snapshot at a step gets null there.
+ */
+export function buildRankingHistory(
+  rows: RankingSnapshotRow[],
+  maxPoints: number
+): { steps: RankingHistoryStep[]; series: RankingHistorySeries[] } {
+  const stepByFixture = new Map<number, RankingHistoryStep>();
+  for (const row of rows) {
+    const step = stepByFixture.get(row.fixtureId);
+    if (!step || row.createdAt < step.at) {
+      stepByFixture.set(row.fixtureId, {
+        fixtureId: row.fixtureId,
+        at: row.createdAt,
+      });
+    }
+  }
+  const steps = downsample(
+    [...stepByFixture.values()].sort(
+      (a, b) => a.at.getTime() - b.at.getTime() || a.fixtureId - b.fixtureId
+    ),
+    maxPoints
+  );
+  const indexByFixture = new Map(steps.map((s, i) => [s.fixtureId, i]));
+
+  const seriesByUser = new Map<number, RankingHistorySeries>();
+  for (const row of rows) {
+    const index = indexByFixture.get(row.fixtureId);
+    if (index === undefined) continue;
+    let series = seriesByUser.get(row.userId);
+    if (!series) {
+      series = {
+        userId: row.userId,
+        ranks: steps.map(() => null),
+        totalPoints: steps.map(() => null),
+      };
+      seriesByUser.set(row.userId, series);
+    }
+    series.ranks[index] = row.rank;
+    series.totalPoints[index] = row.totalPoints;
+  }
+
+  return { steps, series: [...seriesByUser.values()] };
+}
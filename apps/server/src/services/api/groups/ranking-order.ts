@@ -0,0 +1,60 @@
+// groups/ranking-order.ts
+// Ranking order: sorting members and assigning shared ranks. Pure — no DB.
+
+import type { RankingItem } from "./types";
+import {
+  getScoringStrategy,
+  type RankingTiebreaker,
+} from "./scoring-strategies";
+
+export type TiebreakField =
+  | "correctScoreCount"
+  | "correctDifferenceCount"
+  | "correctOutcomeCount";
+
+const TIEBREAKER_FIELD: Record<RankingTiebreaker, TiebreakField> = {
+  correctScore: "correctScoreCount",
+  correctDifference: "correctDifferenceCount",
+  correctOutcome: "correctOutcomeCount",
+};
+
+/** Tiebreakers after totalPoints depend on the group's scoring strategy. */
+export function getTiebreakFields(
+  scoringStrategy: string | null | undefined
+): TiebreakField[] {
+  return getScoringStrategy(scoringStrategy).tiebreakers.map(
+    (t) => TIEBREAKER_FIELD[t]
+  );
+}
+
+/**
+ * Sort by totalPoints > tiebreakers > username and assign ranks; rows equal on
+ * points and every tiebreaker share a rank.
+ */
+export function rankItems<T extends Omit<RankingItem, "rank">>(
+  rows: T[],
+  tiebreakFields: TiebreakField[]
+): Array<T & { rank: number }> {
+  const sorted = [...rows].sort((a, b) => {
+    if (b.totalPoints !== a.totalPoints) return b.totalPoints - a.totalPoints;
+    for (const field of tiebreakFields) {
+      if (b[field] !== a[field]) return b[field] - a[field];
+    }
+    const nameA = a.username ?? "";
+    const nameB = b.username ?? "";
+    return nameA.localeCompare(nameB);
+  });
+
+  let rank = 1;
+  return sorted.map((row, index) => {
+    const prev = index > 0 ? sorted[index - 1] : null;
+    if (
+      !prev ||
+      prev.totalPoints !== row.totalPoints ||
+      tiebreakFields.some((field) => prev[field] !== row[field])
+    ) {
+      rank = index + 1;
+    }
+    return { ...row, rank };
+  });
+}
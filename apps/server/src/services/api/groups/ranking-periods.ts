@@ -0,0 +1,81 @@
+// groups/ranking-periods.ts
+// Ranking periods: the group's fixtures bucketed by competition round or by ISO week,
+// for round / weekly leaderboards. Pure — no DB.
+//
+// Round buckets are the bracket's (see buildRoundBuckets); week buckets use the
+// ISO week (Monday-Sunday, UTC) of each fixture's kickoff.
+
+import {
+  buildRoundBuckets,
+  type BracketFixture,
+  type RoundBucket,
+} from "./bracket";
+
+export type RankingPeriod = "round" | "week";
+
+/** ISO week of a unix timestamp (UTC), e.g. "2026-W42". */
+export function isoWeekKey(startTs: number): string {
+  const date = new Date(startTs * 1000);
+  const day = Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate()
+  );
+  // The Thursday of the same week decides the ISO year
+  const thursday = new Date(
+    day + (3 - ((date.getUTCDay() + 6) % 7)) * 86400000
+  );
+  const year = thursday.getUTCFullYear();
+  const week =
+    1 +
+    Math.floor((thursday.getTime() - Date.UTC(year, 0, 1)) / (7 * 86400000));
+  return `${year}-W${String(week).padStart(2, "0")}`;
+}
+
+/** Group the group's fixtures by ISO week of kickoff, ordered by first kickoff. */
+export function buildWeekBuckets(fixtures: BracketFixture[]): RoundBucket[] {
+  const byKey = new Map<string, RoundBucket>();
+  const ordered = [...fixtures].sort(
+    (a, b) => a.startTs - b.startTs || a.groupFixtureId - b.groupFixtureId
+  );
+  for (const f of ordered) {
+    const week = isoWeekKey(f.startTs);
+    const key = `week:${week}`;
+    const bucket = byKey.get(key);
+    if (bucket) {
+      bucket.groupFixtureIds.push(f.groupFixtureId);
+      bucket.started ||= f.started;
+      bucket.finished &&= f.finished;
+    } else {
+      byKey.set(key, {
+        key,
+        label: week,
+        groupFixtureIds: [f.groupFixtureId],
+        firstStartTs: f.startTs,
+        started: f.started,
+        finished: f.finished,
+      });
+    }
+  }
+  return [...byKey.values()];
+}
+
+export function buildPeriodBuckets(
+  fixtures: BracketFixture[],
+  period: RankingPeriod
+): RoundBucket[] {
+  return period === "week"
+    ? buildWeekBuckets(fixtures)
+    : buildRoundBuckets(fixtures);
+}
+
+/**
+ * The period shown by default: the latest one that has kicked off,
+ * else the first upcoming one.
+ */
+export function currentPeriodBucket(
+  buckets: RoundBucket[]
+): RoundBucket | null {
+  const started = buckets.filter((b) => b.started);
+  return started[started.length - 1] ?? buckets[0] ?? null;
+}
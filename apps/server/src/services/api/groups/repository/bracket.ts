@@ -0,0 +1,223 @@
+// groups/repository/bracket.ts
+// Repository functions for head-to-head knockout brackets.
+
+import { prisma, Prisma } from "@repo/db";
+import { CANCELLED_STATES, FINISHED_STATES } from "@repo/utils";
+import { hasMatchStarted } from "../helpers";
+import type { BracketFixture, BracketPairing } from "../bracket";
+
+const TERMINAL_STATES = new Set<string>([
+  ...FINISHED_STATES,
+  ...CANCELLED_STATES,
+]);
+
+const bracketInclude = {
+  matches: {
+    orderBy: [{ roundIndex: "asc" }, { slot: "asc" }],
+    include: {
+      homeUser: { select: { username: true } },
+      awayUser: { select: { username: true } },
+    },
+  },
+} satisfies Prisma.groupBracketsInclude;
+
+export type GroupBracketRow = Prisma.groupBracketsGetPayload<{
+  include: typeof bracketInclude;
+}>;
+
+/** Pairings of a new bracket round, with the competition round it's played on. */
+export type BracketRoundData = {
+  roundIndex: number;
+  roundKey: string | null;
+  roundLabel: string | null;
+  pairings: BracketPairing[];
+};
+
+/**
+ * Find the group's bracket with all matches (ordered by round, then slot).
+ */
+export async function findGroupBracket(
+  groupId: number
+): Promise<GroupBracketRow | null> {
+  return prisma.groupBrackets.findUnique({
+    where: { groupId },
+    include: bracketInclude,
+  });
+}
+
+/**
+ * Find the active brackets among the given groups.
+ */
+export async function findActiveGroupBrackets(
+  groupIds: number[]
+): Promise<GroupBracketRow[]> {
+  if (groupIds.length === 0) return [];
+  return prisma.groupBrackets.findMany({
+    where: { groupId: { in: groupIds }, status: "active" },
+    include: bracketInclude,
+  });
+}
+
+/**
+ * Find all group fixtures with round data and whether each has started / finished.
+ */
+export async function findGroupFixturesForBracket(
+  groupId: number
+): Promise<BracketFixture[]> {
+  const rows = await prisma.groupFixtures.findMany({
+    where: { groupId },
+    select: {
+      id: true,
+      fixtures: {
+        select: {
+          startTs: true,
+          state: true,
+          result: true,
+          leagueId: true,
+          seasonId: true,
+          stage: true,
+          round: true,
+        },
+      },
+    },
+  });
+  return rows
+    .filter((r) => r.fixtures != null)
+    .map((r) => ({
+      groupFixtureId: r.id,
+      startTs: r.fixtures.startTs,
+      leagueId: r.fixtures.leagueId,
+      seasonId: r.fixtures.seasonId,
+      stage: r.fixtures.stage,
+      round: r.fixtures.round,
+      started: hasMatchStarted(r.fixtures),
+      finished: TERMINAL_STATES.has(r.fixtures.state),
+    }));
+}
+
+/**
+ * Find settled predictions on the given group fixtures (one bracket round).
+ */
+export async function findRoundPredictions(
+  groupId: number,
+  groupFixtureIds: number[]
+) {
+  if (groupFixtureIds.length === 0) return [];
+  return prisma.groupPredictions.findMany({
+    where: {
+      groupId,
+      groupFixtureId: { in: groupFixtureIds },
+      settledAt: { not: null },
+    },
+    select: {
+      userId: true,
+      points: true,
+      winningCorrectScore: true,
+      winningCorrectDifference: true,
+      winningMatchWinner: true,
+    },
+  });
+}
+
+function toMatchRows(
+  bracketId: number,
+  round: BracketRoundData,
+  now: Date
+): Prisma.groupBracketMatchesCreateManyInput[] {
+  return round.pairings.map((p) => {
+    // A bye is decided right away
+    const bye = p.homeUserId == null || p.awayUserId == null;
+    return {
+      bracketId,
+      roundIndex: round.roundIndex,
+      roundKey: round.roundKey,
+      roundLabel: round.roundLabel,
+      slot: p.slot,
+      homeUserId: p.homeUserId,
+      awayUserId: p.awayUserId,
+      winnerUserId: bye ? (p.homeUserId ?? p.awayUserId) : null,
+      decidedAt: bye ? now : null,
+    };
+  });
+}
+
+/**
+ * Create a group's bracket with its first round.
+ */
+export async function createGroupBracketInternal(
+  groupId: number,
+  firstRound: BracketRoundData
+): Promise<GroupBracketRow> {
+  return await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const bracket = await tx.groupBrackets.create({ data: { groupId } });
+    await tx.groupBracketMatches.createMany({
+      data: toMatchRows(bracket.id, firstRound, new Date()),
+    });
+    return tx.groupBrackets.findUniqueOrThrow({
+      where: { id: bracket.id },
+      include: bracketInclude,
+    });
+  });
+}
+
+/**
+ * Save the results of a decided round, then either create the next round or
+ * complete the bracket with its champion.
+ */
+export async function saveBracketRoundInternal(data: {
+  bracketId: number;
+  results: Array<{
+    matchId: number;
+    homePoints: number;
+    awayPoints: number;
+    winnerUserId: number | null;
+  }>;
+  nextRound: BracketRoundData | null;
+  championUserId: number | null;
+}): Promise<void> {
+  const now = new Date();
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    for (const r of data.results) {
+      await tx.groupBracketMatches.update({
+        where: { id: r.matchId },
+        data: {
+          homePoints: r.homePoints,
+          awayPoints: r.awayPoints,
+          winnerUserId: r.winnerUserId,
+          decidedAt: now,
+        },
+      });
+    }
+
+    if (data.nextRound) {
+      await tx.groupBracketMatches.createMany({
+        data: toMatchRows(data.bracketId, data.nextRound, now),
+        skipDuplicates: true,
+      });
+    } else {
+      await tx.groupBrackets.update({
+        where: { id: data.bracketId },
+        data: {
+          status: "completed",
+          championUserId: data.championUserId,
+          completedAt: now,
+        },
+      });
+    }
+  });
+}
+
+/**
+ * Schedule a bracket round on a competition round (once one is available).
+ */
+export async function assignBracketRoundInternal(
+  bracketId: number,
+  roundIndex: number,
+  roundKey: string,
+  roundLabel: string
+): Promise<void> {
+  await prisma.groupBracketMatches.updateMany({
+    where: { bracketId, roundIndex },
+    data: { roundKey, roundLabel },
+  });
+}
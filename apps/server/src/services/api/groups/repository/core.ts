@@ -9,14 +9,22 @@ import {
   groupKoRoundMode,
   groupSelectionMode,
   groupMembersStatus,
+  groupMemberRoles,
   groupInviteAccess,
+  groupPredictionVisibility,
+  groupVoidedFixturePolicy,
+  groupJokerMode,
 } from "@repo/db";
 import {
   DEFAULT_MAX_MEMBERS,
+  DEFAULT_JOKER_FIXTURES_PER_CARD,
   MEMBER_STATUS,
+  MEMBER_ROLE,
   GROUP_STATUS,
   SELECTION_MODE,
 } from "../constants";
+import { DEFAULT_SCORING_STRATEGY } from "../scoring-strategies";
+import { DEFAULT_UNDERDOG_MAX_MULTIPLIER } from "../scoring";
 import {
   resolveInitialFixturesInternal,
   attachFixturesToGroupInternal,
@@ -228,13 +236,28 @@ export async function updateGroup(
 export async function findGroupRules(groupId: number): Promise<{
   selectionMode: groupSelectionMode;
   groupTeamsIds: number[];
+  groupLeaguesIds?: number[];
   inviteAccess?: groupInviteAccess;
+  requiresApproval?: boolean;
+  predictionVisibility?: groupPredictionVisibility;
+  voidedFixturePolicy?: groupVoidedFixturePolicy;
+  followWindowDays?: number;
   maxMembers?: number;
   predictionMode?: groupPredictionMode;
   koRoundMode?: groupKoRoundMode;
   onTheNosePoints?: number;
   correctDifferencePoints?: number;
   outcomePoints?: number;
+  scoringStrategy?: string;
+  scoringConfig?: Prisma.JsonValue;
+  underdogBonus?: boolean;
+  underdogMaxMultiplier?: number;
+  jokerMode?: groupJokerMode;
+  jokerFixturesPerCard?: number;
+  bttsPoints?: number;
+  overUnderPoints?: number;
+  firstTeamToScorePoints?: number;
+  advancePoints?: number;
   nudgeEnabled?: boolean;
   nudgeWindowMinutes?: number;
 } | null> {
@@ -243,13 +266,28 @@ export async function findGroupRules(groupId: number): Promise<{
     select: {
       selectionMode: true,
       groupTeamsIds: true,
+      groupLeaguesIds: true,
       inviteAccess: true,
+      requiresApproval: true,
+      predictionVisibility: true,
+      voidedFixturePolicy: true,
+      followWindowDays: true,
       maxMembers: true,
       predictionMode: true,
       koRoundMode: true,
       onTheNosePoints: true,
       correctDifferencePoints: true,
       outcomePoints: true,
+      scoringStrategy: true,
+      scoringConfig: true,
+      underdogBonus: true,
+      underdogMaxMultiplier: true,
+      jokerMode: true,
+      jokerFixturesPerCard: true,
+      bttsPoints: true,
+      overUnderPoints: true,
+      firstTeamToScorePoints: true,
+      advancePoints: true,
       nudgeEnabled: true,
       nudgeWindowMinutes: true,
     },
@@ -294,7 +332,20 @@ export async function publishGroupInternal(data: {
   outcomePoints?: number;
   predictionMode?: groupPredictionMode;
   koRoundMode?: groupKoRoundMode;
+  scoringStrategy?: string;
+  scoringConfig?: Prisma.InputJsonObject;
+  underdogBonus?: boolean;
+  underdogMaxMultiplier?: number;
+  jokerMode?: groupJokerMode;
+  jokerFixturesPerCard?: number;
+  bttsPoints?: number;
+  overUnderPoints?: number;
+  firstTeamToScorePoints?: number;
+  advancePoints?: number;
   inviteAccess?: groupInviteAccess;
+  predictionVisibility?: groupPredictionVisibility;
+  voidedFixturePolicy?: groupVoidedFixturePolicy;
+  followWindowDays?: number;
   maxMembers?: number;
   nudgeEnabled?: boolean;
   nudgeWindowMinutes?: number;
@@ -351,10 +402,62 @@ export async function publishGroupInternal(data: {
         rulesUpdateData.koRoundMode = data.koRoundMode;
       }
 
+      if (data.scoringStrategy !== undefined) {
+        rulesUpdateData.scoringStrategy = data.scoringStrategy;
+      }
+
+      if (data.scoringConfig !== undefined) {
+        rulesUpdateData.scoringConfig = data.scoringConfig;
+      }
+
+      if (data.underdogBonus !== undefined) {
+        rulesUpdateData.underdogBonus = data.underdogBonus;
+      }
+
+      if (data.underdogMaxMultiplier !== undefined) {
+        rulesUpdateData.underdogMaxMultiplier = data.underdogMaxMultiplier;
+      }
+
+      if (data.jokerMode !== undefined) {
+        rulesUpdateData.jokerMode = data.jokerMode;
+      }
+
+      if (data.jokerFixturesPerCard !== undefined) {
+        rulesUpdateData.jokerFixturesPerCard = data.jokerFixturesPerCard;
+      }
+
+      if (data.bttsPoints !== undefined) {
+        rulesUpdateData.bttsPoints = data.bttsPoints;
+      }
+
+      if (data.overUnderPoints !== undefined) {
+        rulesUpdateData.overUnderPoints = data.overUnderPoints;
+      }
+
+      if (data.firstTeamToScorePoints !== undefined) {
+        rulesUpdateData.firstTeamToScorePoints = data.firstTeamToScorePoints;
+      }
+
+      if (data.advancePoints !== undefined) {
+        rulesUpdateData.advancePoints = data.advancePoints;
+      }
+
       if (data.inviteAccess !== undefined) {
         rulesUpdateData.inviteAccess = data.inviteAccess;
       }
 
+      if (data.predictionVisibility !== undefined) {
+        rulesUpdateData.predictionVisibility = data.predictionVisibility;
+      }
+
+      if (data.voidedFixturePolicy !== undefined) {
+        rulesUpdateData.voidedFixturePolicy = data.voidedFixturePolicy;
+      }
+
+      if (data.followWindowDays !== undefined) {
+        rulesUpdateData.followWindowDays = data.followWindowDays;
+      }
+
       if (data.maxMembers !== undefined) {
         rulesUpdateData.maxMembers = data.maxMembers;
       }
@@ -398,7 +501,25 @@ export async function publishGroupInternal(data: {
           predictionMode:
             data.predictionMode ?? groupPredictionMode.CorrectScore,
           koRoundMode: data.koRoundMode ?? groupKoRoundMode.FullTime,
+          scoringStrategy: data.scoringStrategy ?? DEFAULT_SCORING_STRATEGY,
+          scoringConfig: data.scoringConfig ?? {},
+          underdogBonus: data.underdogBonus ?? false,
+          underdogMaxMultiplier:
+            data.underdogMaxMultiplier ?? DEFAULT_UNDERDOG_MAX_MULTIPLIER,
+          jokerMode: data.jokerMode ?? groupJokerMode.off,
+          jokerFixturesPerCard:
+            data.jokerFixturesPerCard ?? DEFAULT_JOKER_FIXTURES_PER_CARD,
+          bttsPoints: data.bttsPoints ?? 0,
+          overUnderPoints: data.overUnderPoints ?? 0,
+          firstTeamToScorePoints: data.firstTeamToScorePoints ?? 0,
+          advancePoints: data.advancePoints ?? 0,
           inviteAccess: data.inviteAccess ?? groupInviteAccess.all,
+          predictionVisibility:
+            data.predictionVisibility ??
+            groupPredictionVisibility.after_kickoff,
+          voidedFixturePolicy:
+            data.voidedFixturePolicy ?? groupVoidedFixturePolicy.void,
+          followWindowDays: data.followWindowDays ?? 7,
           maxMembers: data.maxMembers ?? DEFAULT_MAX_MEMBERS,
           nudgeEnabled: data.nudgeEnabled ?? true,
           nudgeWindowMinutes: data.nudgeWindowMinutes ?? 60,
@@ -531,6 +652,62 @@ export async function findGroupMembersWithUsers(groupId: number) {
   return { members, users };
 }
 
+/**
+ * Find pending join requests for a group, oldest first, with requester usernames.
+ */
+export async function findPendingGroupMembersWithUsers(groupId: number) {
+  const members = await prisma.groupMembers.findMany({
+    where: {
+      groupId,
+      status: MEMBER_STATUS.PENDING,
+    },
+    orderBy: {
+      createdAt: "asc",
+    },
+    select: {
+      userId: true,
+      updatedAt: true,
+    },
+  });
+
+  const users = await prisma.users.findMany({
+    where: {
+      id: { in: members.map((m) => m.userId) },
+    },
+    select: {
+      id: true,
+      username: true,
+      image: true,
+    },
+  });
+
+  return { members, users };
+}
+
+/**
+ * User IDs of the group's joined owner and admins (the creator is always included).
+ */
+export async function findGroupAdminUserIds(groupId: number): Promise<number[]> {
+  const [group, admins] = await Promise.all([
+    prisma.groups.findUnique({
+      where: { id: groupId },
+      select: { creatorId: true },
+    }),
+    prisma.groupMembers.findMany({
+      where: {
+        groupId,
+        status: MEMBER_STATUS.JOINED,
+        role: { in: [MEMBER_ROLE.OWNER, MEMBER_ROLE.ADMIN] },
+      },
+      select: { userId: true },
+    }),
+  ]);
+
+  const ids = new Set(admins.map((m) => m.userId));
+  if (group) ids.add(group.creatorId);
+  return [...ids];
+}
+
 /**
  * Count joined members in a group.
  */
@@ -561,10 +738,43 @@ export async function findGroupMember(groupId: number, userId: number) {
 /**
  * Update a group member record.
  */
-export async function updateGroupMember(id: number, data: { status: string }) {
+export async function updateGroupMember(
+  id: number,
+  data: { status?: string; role?: string }
+) {
   return prisma.groupMembers.update({
     where: { id },
-    data: { status: data.status as groupMembersStatus },
+    data: {
+      ...(data.status !== undefined && {
+        status: data.status as groupMembersStatus,
+      }),
+      ...(data.role !== undefined && { role: data.role as groupMemberRoles }),
+    },
+  });
+}
+
+/**
+ * Hand the group to another joined member in one transaction:
+ * groups.creatorId moves, the new owner gets role "owner", the old owner becomes "admin".
+ */
+export async function transferGroupOwnership(
+  groupId: number,
+  fromUserId: number,
+  toUserId: number
+) {
+  return prisma.$transaction(async (tx) => {
+    await tx.groupMembers.update({
+      where: { groupId_userId: { groupId, userId: fromUserId } },
+      data: { role: MEMBER_ROLE.ADMIN },
+    });
+    await tx.groupMembers.update({
+      where: { groupId_userId: { groupId, userId: toUserId } },
+      data: { role: MEMBER_ROLE.OWNER },
+    });
+    return tx.groups.update({
+      where: { id: groupId },
+      data: { creatorId: toUserId },
+    });
   });
 }
 
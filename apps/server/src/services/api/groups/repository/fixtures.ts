@@ -12,6 +12,7 @@ import {
 import { FIXTURE_SELECT_WITH_RESULT } from "../../fixtures/selects";
 import type { FixtureWithRelationsAndResult } from "../types";
 import { hasMatchStarted } from "../helpers";
+import type { JokerFixture } from "../helpers/joker";
 import { LIVE_STATES, FINISHED_STATES, NOT_STARTED_STATES } from "@repo/utils";
 
 /**
@@ -75,6 +76,31 @@ export async function attachFixturesToGroupInternal(
     })),
     skipDuplicates: true,
   });
+  await assignJokerSlots(tx, groupId);
+}
+
+/**
+ * Give the group's newly attached fixtures their joker slot: the next positions after
+ * the group's highest slot, in kickoff order. Slots never change afterwards, so
+ * "fixtures"-mode joker sets stay fixed (see helpers/joker.ts).
+ */
+export async function assignJokerSlots(
+  tx: Prisma.TransactionClient,
+  groupId: number
+): Promise<void> {
+  await tx.$executeRaw`
+    UPDATE group_fixtures gf
+    SET joker_slot = s.slot
+    FROM (
+      SELECT gf2.id,
+             (SELECT COALESCE(MAX(joker_slot), -1) FROM group_fixtures WHERE group_id = ${groupId})
+               + ROW_NUMBER() OVER (ORDER BY f.start_ts, gf2.id) AS slot
+      FROM group_fixtures gf2
+      JOIN fixtures f ON f.id = gf2.fixture_id
+      WHERE gf2.group_id = ${groupId} AND gf2.joker_slot IS NULL
+    ) s
+    WHERE gf.id = s.id
+  `;
 }
 
 /**
@@ -217,6 +243,44 @@ export async function findGroupFixturesWithFixtureDetails(
     }));
 }
 
+/**
+ * Find all group fixtures with the round data used for joker buckets, and whether each has started.
+ */
+export async function findGroupFixturesForJoker(
+  groupId: number
+): Promise<Array<JokerFixture & { started: boolean }>> {
+  const rows = await prisma.groupFixtures.findMany({
+    where: { groupId },
+    select: {
+      id: true,
+      jokerSlot: true,
+      fixtures: {
+        select: {
+          startTs: true,
+          state: true,
+          result: true,
+          leagueId: true,
+          seasonId: true,
+          stage: true,
+          round: true,
+        },
+      },
+    },
+  });
+  return rows
+    .filter((r) => r.fixtures != null)
+    .map((r) => ({
+      groupFixtureId: r.id,
+      startTs: r.fixtures.startTs,
+      leagueId: r.fixtures.leagueId,
+      seasonId: r.fixtures.seasonId,
+      stage: r.fixtures.stage,
+      round: r.fixtures.round,
+      jokerSlot: r.jokerSlot,
+      started: hasMatchStarted(r.fixtures),
+    }));
+}
+
 /**
  * Find group fixtures whose matches have already started (for batch validation).
  */
@@ -253,6 +317,12 @@ export type GroupFixtureWithPredictions = Prisma.groupFixturesGetPayload<{
         placedAt: true;
         settledAt: true;
         points: true;
+        isJoker: true;
+        bttsPick: true;
+        overUnderPick: true;
+        firstTeamToScorePick: true;
+        marketPoints: true;
+        voidedAt: true;
       };
     };
   };
@@ -279,6 +349,12 @@ export async function fetchGroupFixturesWithPredictions(
         placedAt: true,
         settledAt: true,
         points: true,
+        isJoker: true,
+        bttsPick: true,
+        overUnderPick: true,
+        firstTeamToScorePick: true,
+        marketPoints: true,
+        voidedAt: true,
       },
     },
   } satisfies Prisma.groupFixturesFindManyArgs["select"];
@@ -328,6 +404,12 @@ export async function fetchLobbySummaryFixtures(
         placedAt: true,
         settledAt: true,
         points: true,
+        isJoker: true,
+        bttsPick: true,
+        overUnderPick: true,
+        firstTeamToScorePick: true,
+        marketPoints: true,
+        voidedAt: true,
       },
     },
   } satisfies Prisma.groupFixturesFindManyArgs["select"];
@@ -509,6 +591,7 @@ export async function updateGroupWithFixtures(
           })),
           skipDuplicates: true,
         });
+        await assignJokerSlots(txn, groupId);
       }
     }
 
@@ -15,10 +15,13 @@ import {
   findGroupMembersWithUsers,
   updateGroup,
   createGroupMember,
+  findPendingGroupMembersWithUsers,
+  findGroupAdminUserIds,
   countGroupMembers,
   findGroupByInviteCode,
   findGroupMember,
   updateGroupMember,
+  transferGroupOwnership,
   createNudgeEvent,
   findNudgesByNudgerInGroup,
   findGroupRulesNudgeBatch,
@@ -34,6 +37,7 @@ import {
   findFixtureByGroupFixtureId,
   findGroupFixturesWithFixtureDetails,
   findStartedFixturesByGroupFixtureIds,
+  findGroupFixturesForJoker,
   fetchGroupFixturesWithPredictions,
   fetchLobbySummaryFixtures,
   findGroupFixturesForOverview,
@@ -47,8 +51,74 @@ import {
   findGroupPredictionByUserAndGroupFixture,
   findGroupPredictionUserIdsByGroupFixtureIds,
   findPredictionsForOverview,
+  findUserJokerGroupFixtureIds,
 } from "./predictions";
 
+// Outrights functions
+import {
+  findGroupOutrights,
+  findGroupOutrightById,
+  createGroupOutright,
+  upsertGroupOutrightPick,
+  findSeasonTeams,
+} from "./outrights";
+
+// Ties functions
+import {
+  findGroupTieAggregateIds,
+  findTieLegs,
+  findGroupTiePicks,
+  upsertGroupTiePick,
+} from "./ties";
+
+// Seasons functions
+import {
+  findGroupForSeasonContinuation,
+  countUnfinishedGroupFixtures,
+  findLatestGroupFixtureSeason,
+  findNextSeason,
+  continueGroupIntoSeasonInternal,
+  findGroupSeasonChain,
+  findGroupSeasonStandings,
+  findGroupSeasonInfo,
+} from "./seasons";
+
+// Bracket functions
+import {
+  findGroupBracket,
+  findActiveGroupBrackets,
+  findGroupFixturesForBracket,
+  findRoundPredictions,
+  createGroupBracketInternal,
+  saveBracketRoundInternal,
+  assignBracketRoundInternal,
+} from "./bracket";
+
+// Sub-league functions
+import {
+  findUserSubLeaguesInGroup,
+  findSubLeagueById,
+  findSubLeagueByInviteCode,
+  findSubLeagueMemberIds,
+  countSubLeaguesCreatedInGroup,
+  createSubLeague,
+  addSubLeagueMember,
+  removeSubLeagueMemberInternal,
+  deleteSubLeague,
+} from "./sub-leagues";
+
+// Round result functions
+import {
+  findGroupRoundResults,
+  findDecidedRoundKeys,
+  countUnsettledFinishedPredictions,
+  createRoundResultInternal,
+  findUsernamesByIds,
+} from "./round-results";
+
+// Ranking history functions
+import { findRankingSnapshots } from "./ranking-history";
+
 // Stats functions
 import { findGroupsStatsBatch } from "./stats";
 
@@ -75,10 +145,13 @@ export const repository: GroupsRepository = {
   findGroupMembersWithUsers,
   updateGroup,
   createGroupMember,
+  findPendingGroupMembersWithUsers,
+  findGroupAdminUserIds,
   countGroupMembers,
   findGroupByInviteCode,
   findGroupMember,
   updateGroupMember,
+  transferGroupOwnership,
   createNudgeEvent,
   findNudgesByNudgerInGroup,
   findGroupRulesNudgeBatch,
@@ -92,6 +165,7 @@ export const repository: GroupsRepository = {
   findFixtureByGroupFixtureId,
   findGroupFixturesWithFixtureDetails,
   findStartedFixturesByGroupFixtureIds,
+  findGroupFixturesForJoker,
   fetchGroupFixturesWithPredictions,
   fetchLobbySummaryFixtures,
   findGroupFixturesForOverview,
@@ -102,6 +176,60 @@ export const repository: GroupsRepository = {
   findGroupPredictionByUserAndGroupFixture,
   findGroupPredictionUserIdsByGroupFixtureIds,
   findPredictionsForOverview,
+  findUserJokerGroupFixtureIds,
+
+  // Outrights operations
+  findGroupOutrights,
+  findGroupOutrightById,
+  createGroupOutright,
+  upsertGroupOutrightPick,
+  findSeasonTeams,
+
+  // Ties operations
+  findGroupTieAggregateIds,
+  findTieLegs,
+  findGroupTiePicks,
+  upsertGroupTiePick,
+
+  // Seasons operations
+  findGroupForSeasonContinuation,
+  countUnfinishedGroupFixtures,
+  findLatestGroupFixtureSeason,
+  findNextSeason,
+  continueGroupIntoSeasonInternal,
+  findGroupSeasonChain,
+  findGroupSeasonStandings,
+  findGroupSeasonInfo,
+
+  // Bracket operations
+  findGroupBracket,
+  findActiveGroupBrackets,
+  findGroupFixturesForBracket,
+  findRoundPredictions,
+  createGroupBracketInternal,
+  saveBracketRoundInternal,
+  assignBracketRoundInternal,
+
+  // Sub-league operations
+  findUserSubLeaguesInGroup,
+  findSubLeagueById,
+  findSubLeagueByInviteCode,
+  findSubLeagueMemberIds,
+  countSubLeaguesCreatedInGroup,
+  createSubLeague,
+  addSubLeagueMember,
+  removeSubLeagueMemberInternal,
+  deleteSubLeague,
+
+  // Round result operations
+  findGroupRoundResults,
+  findDecidedRoundKeys,
+  countUnsettledFinishedPredictions,
+  createRoundResultInternal,
+  findUsernamesByIds,
+
+  // Ranking history operations
+  findRankingSnapshots,
 
   // Stats operations
   findGroupsStatsBatch,
@@ -7,9 +7,26 @@ import type {
   groupKoRoundMode,
   groupSelectionMode,
   groupInviteAccess,
+  groupPredictionVisibility,
+  groupVoidedFixturePolicy,
+  groupJokerMode,
+  groupOutrightMarket,
 } from "@repo/db";
 import type { Prisma } from "@repo/db";
 import type { FixtureWithRelationsAndResult } from "../types";
+import type { JokerFixture } from "../helpers/joker";
+import type { SideMarketPicks } from "../side-markets";
+import type { GroupOutrightRow } from "./outrights";
+import type { GroupTiePickRow, TieLegRow } from "./ties";
+import type { BracketRoundData, GroupBracketRow } from "./bracket";
+import type { BracketFixture } from "../bracket";
+import type { SubLeagueRow } from "./sub-leagues";
+import type {
+  ContinueGroupIntoSeasonData,
+  GroupForSeasonContinuation,
+  GroupSeasonLink,
+  SeasonRow,
+} from "./seasons";
 
 type BatchPayload = { count: number };
 
@@ -90,7 +107,20 @@ export interface GroupsRepository {
     outcomePoints?: number;
     predictionMode?: groupPredictionMode;
     koRoundMode?: groupKoRoundMode;
+    scoringStrategy?: string;
+    scoringConfig?: Prisma.InputJsonObject;
+    underdogBonus?: boolean;
+    underdogMaxMultiplier?: number;
+    jokerMode?: groupJokerMode;
+    jokerFixturesPerCard?: number;
+    bttsPoints?: number;
+    overUnderPoints?: number;
+    firstTeamToScorePoints?: number;
+    advancePoints?: number;
     inviteAccess?: groupInviteAccess;
+    predictionVisibility?: groupPredictionVisibility;
+    voidedFixturePolicy?: groupVoidedFixturePolicy;
+    followWindowDays?: number;
     maxMembers?: number;
     nudgeEnabled?: boolean;
     nudgeWindowMinutes?: number;
@@ -99,13 +129,28 @@ export interface GroupsRepository {
   findGroupRules(groupId: number): Promise<{
     selectionMode: groupSelectionMode;
     groupTeamsIds: number[];
+    groupLeaguesIds?: number[];
     inviteAccess?: groupInviteAccess;
+    requiresApproval?: boolean;
+    predictionVisibility?: groupPredictionVisibility;
+    voidedFixturePolicy?: groupVoidedFixturePolicy;
+    followWindowDays?: number;
     maxMembers?: number;
     predictionMode?: groupPredictionMode;
     koRoundMode?: groupKoRoundMode;
     onTheNosePoints?: number;
     correctDifferencePoints?: number;
     outcomePoints?: number;
+    scoringStrategy?: string;
+    scoringConfig?: Prisma.JsonValue;
+    underdogBonus?: boolean;
+    underdogMaxMultiplier?: number;
+    jokerMode?: groupJokerMode;
+    jokerFixturesPerCard?: number;
+    bttsPoints?: number;
+    overUnderPoints?: number;
+    firstTeamToScorePoints?: number;
+    advancePoints?: number;
     nudgeEnabled?: boolean;
     nudgeWindowMinutes?: number;
   } | null>;
@@ -166,11 +211,23 @@ export interface GroupsRepository {
   findGroupFixtureByGroupAndFixture(
     groupId: number,
     fixtureId: number
-  ): Promise<{ id: number; groupId: number; fixtureId: number } | null>;
+  ): Promise<{
+    id: number;
+    groupId: number;
+    fixtureId: number;
+    voidedAt: Date | null;
+  } | null>;
   findGroupFixturesByFixtureIds(
     groupId: number,
     fixtureIds: number[]
-  ): Promise<Array<{ id: number; groupId: number; fixtureId: number }>>;
+  ): Promise<
+    Array<{
+      id: number;
+      groupId: number;
+      fixtureId: number;
+      voidedAt: Date | null;
+    }>
+  >;
   findFixtureByGroupFixtureId(
     groupFixtureId: number
   ): Promise<{ startTs: number; state: string; result: string | null } | null>;
@@ -185,6 +242,9 @@ export interface GroupsRepository {
   findStartedFixturesByGroupFixtureIds(
     groupFixtureIds: number[]
   ): Promise<Array<{ id: number }>>;
+  findGroupFixturesForJoker(
+    groupId: number
+  ): Promise<Array<JokerFixture & { started: boolean }>>;
   fetchGroupFixturesWithPredictions(
     groupId: number,
     userId: number
@@ -198,6 +258,12 @@ export interface GroupsRepository {
         placedAt: Date;
         settledAt: Date | null;
         points: number | string | null;
+        isJoker: boolean;
+        bttsPick: boolean | null;
+        overUnderPick: string | null;
+        firstTeamToScorePick: string | null;
+        marketPoints: number;
+        voidedAt: Date | null;
       }>;
     }>
   >;
@@ -214,6 +280,12 @@ export interface GroupsRepository {
         placedAt: Date;
         settledAt: Date | null;
         points: number | string | null;
+        isJoker: boolean;
+        bttsPick: boolean | null;
+        overUnderPick: string | null;
+        firstTeamToScorePick: string | null;
+        marketPoints: number;
+        voidedAt: Date | null;
       }>;
     }>;
     upcomingFixtures: Array<{
@@ -225,6 +297,12 @@ export interface GroupsRepository {
         placedAt: Date;
         settledAt: Date | null;
         points: number | string | null;
+        isJoker: boolean;
+        bttsPick: boolean | null;
+        overUnderPick: string | null;
+        firstTeamToScorePick: string | null;
+        marketPoints: number;
+        voidedAt: Date | null;
       }>;
     }>;
     recentFinishedFixtures: Array<{
@@ -236,6 +314,12 @@ export interface GroupsRepository {
         placedAt: Date;
         settledAt: Date | null;
         points: number | string | null;
+        isJoker: boolean;
+        bttsPick: boolean | null;
+        overUnderPick: string | null;
+        firstTeamToScorePick: string | null;
+        marketPoints: number;
+        voidedAt: Date | null;
       }>;
     }>;
     totalFixtures: number;
@@ -273,6 +357,10 @@ export interface GroupsRepository {
     groupFixtureId: number;
     groupId: number;
     prediction: string;
+    isJoker?: boolean;
+    jokerBucket?: string | null;
+    markets?: Partial<SideMarketPicks>;
+    clearJokerOn?: number[];
   }): Promise<Prisma.groupPredictionsGetPayload<{}>>;
   upsertGroupPredictionsBatch(
     groupId: number,
@@ -280,8 +368,16 @@ export interface GroupsRepository {
     predictions: Array<{
       groupFixtureId: number;
       prediction: string;
-    }>
+      isJoker?: boolean;
+      jokerBucket?: string | null;
+      markets?: Partial<SideMarketPicks>;
+    }>,
+    clearJokerOn?: number[]
   ): Promise<Array<Prisma.groupPredictionsGetPayload<{}>>>;
+  findUserJokerGroupFixtureIds(
+    groupId: number,
+    userId: number
+  ): Promise<number[]>;
   findGroupPredictionByUserAndGroupFixture(
     userId: number,
     groupFixtureId: number
@@ -303,6 +399,181 @@ export interface GroupsRepository {
     }>
   >;
 
+  // Outrights operations
+  findGroupOutrights(groupId: number): Promise<GroupOutrightRow[]>;
+  findGroupOutrightById(
+    groupId: number,
+    outrightId: number
+  ): Promise<Prisma.groupOutrightsGetPayload<{}> | null>;
+  createGroupOutright(data: {
+    groupId: number;
+    seasonId: number;
+    market: groupOutrightMarket;
+    pickCount: number;
+    points: number;
+    deadline: Date;
+  }): Promise<Prisma.groupOutrightsGetPayload<{}> | null>;
+  upsertGroupOutrightPick(
+    outrightId: number,
+    userId: number,
+    teamIds: number[]
+  ): Promise<Prisma.groupOutrightPicksGetPayload<{}>>;
+  findSeasonTeams(
+    seasonId: number
+  ): Promise<Array<{ id: number; name: string; imagePath: string | null }>>;
+
+  // Ties operations
+  findGroupTieAggregateIds(groupId: number): Promise<string[]>;
+  findTieLegs(aggregateIds: string[]): Promise<TieLegRow[]>;
+  findGroupTiePicks(groupId: number): Promise<GroupTiePickRow[]>;
+  upsertGroupTiePick(
+    groupId: number,
+    userId: number,
+    aggregateId: string,
+    teamId: number
+  ): Promise<Prisma.groupTiePicksGetPayload<{}>>;
+
+  // Seasons operations
+  findGroupForSeasonContinuation(
+    groupId: number
+  ): Promise<GroupForSeasonContinuation | null>;
+  countUnfinishedGroupFixtures(groupId: number): Promise<number>;
+  findLatestGroupFixtureSeason(groupId: number): Promise<SeasonRow | null>;
+  findNextSeason(
+    leagueId: number,
+    afterStartDate: string
+  ): Promise<SeasonRow | null>;
+  continueGroupIntoSeasonInternal(
+    data: ContinueGroupIntoSeasonData
+  ): Promise<Prisma.groupsGetPayload<{}>>;
+  findGroupSeasonChain(groupId: number): Promise<GroupSeasonLink[]>;
+  findGroupSeasonStandings(groupIds: number[]): Promise<
+    Array<{
+      groupId: number;
+      userId: number;
+      rank: number;
+      totalPoints: number;
+      users: { username: string | null };
+    }>
+  >;
+  findGroupSeasonInfo(groupId: number): Promise<{
+    season: { name: string } | null;
+    nextGroup: { id: number } | null;
+  } | null>;
+
+  // Bracket operations
+  findGroupBracket(groupId: number): Promise<GroupBracketRow | null>;
+  findActiveGroupBrackets(groupIds: number[]): Promise<GroupBracketRow[]>;
+  findGroupFixturesForBracket(groupId: number): Promise<BracketFixture[]>;
+  findRoundPredictions(
+    groupId: number,
+    groupFixtureIds: number[]
+  ): Promise<
+    Array<{
+      userId: number;
+      points: string;
+      winningCorrectScore: boolean;
+      winningCorrectDifference: boolean;
+      winningMatchWinner: boolean;
+    }>
+  >;
+  createGroupBracketInternal(
+    groupId: number,
+    firstRound: BracketRoundData
+  ): Promise<GroupBracketRow>;
+  saveBracketRoundInternal(data: {
+    bracketId: number;
+    results: Array<{
+      matchId: number;
+      homePoints: number;
+      awayPoints: number;
+      winnerUserId: number | null;
+    }>;
+    nextRound: BracketRoundData | null;
+    championUserId: number | null;
+  }): Promise<void>;
+  assignBracketRoundInternal(
+    bracketId: number,
+    roundIndex: number,
+    roundKey: string,
+    roundLabel: string
+  ): Promise<void>;
+
+  // Sub-league operations
+  findUserSubLeaguesInGroup(
+    groupId: number,
+    userId: number
+  ): Promise<SubLeagueRow[]>;
+  findSubLeagueById(subLeagueId: number): Promise<SubLeagueRow | null>;
+  findSubLeagueByInviteCode(inviteCode: string): Promise<SubLeagueRow | null>;
+  findSubLeagueMemberIds(subLeagueId: number): Promise<number[]>;
+  countSubLeaguesCreatedInGroup(
+    groupId: number,
+    userId: number
+  ): Promise<number>;
+  createSubLeague(data: {
+    groupId: number;
+    creatorId: number;
+    name: string;
+    inviteCode: string;
+  }): Promise<SubLeagueRow>;
+  addSubLeagueMember(subLeagueId: number, userId: number): Promise<void>;
+  removeSubLeagueMemberInternal(
+    subLeagueId: number,
+    userId: number
+  ): Promise<{ deleted: boolean }>;
+  deleteSubLeague(subLeagueId: number): Promise<void>;
+
+  // Round result operations
+  findGroupRoundResults(
+    groupId: number,
+    limit: number
+  ): Promise<
+    Array<{
+      id: number;
+      createdAt: Date;
+      groupId: number;
+      roundKey: string;
+      roundLabel: string;
+      winnerUserIds: number[];
+      winningPoints: number;
+      participantCount: number;
+    }>
+  >;
+  findDecidedRoundKeys(
+    groupId: number,
+    roundKeys: string[]
+  ): Promise<Set<string>>;
+  countUnsettledFinishedPredictions(
+    groupId: number,
+    groupFixtureIds: number[]
+  ): Promise<number>;
+  createRoundResultInternal(data: {
+    groupId: number;
+    roundKey: string;
+    roundLabel: string;
+    winnerUserIds: number[];
+    winningPoints: number;
+    participantCount: number;
+  }): Promise<boolean>;
+  findUsernamesByIds(
+    userIds: number[]
+  ): Promise<Array<{ id: number; username: string | null }>>;
+
+  // Ranking history operations
+  findRankingSnapshots(
+    groupId: number,
+    userIds?: number[]
+  ): Promise<
+    Array<{
+      fixtureId: number;
+      userId: number;
+      rank: number;
+      totalPoints: number;
+      createdAt: Date;
+    }>
+  >;
+
   // Stats operations
   findGroupsStatsBatch(
     groupIds: number[],
@@ -333,6 +604,11 @@ export interface GroupsRepository {
   countDraftGroupsByCreator(creatorId: number): Promise<number>;
 
   // Invite/Join operations
+  findPendingGroupMembersWithUsers(groupId: number): Promise<{
+    members: Array<{ userId: number; updatedAt: Date }>;
+    users: Array<{ id: number; username: string | null; image: string | null }>;
+  }>;
+  findGroupAdminUserIds(groupId: number): Promise<number[]>;
   countGroupMembers(groupId: number): Promise<number>;
   findGroupByInviteCode(
     inviteCode: string
@@ -343,6 +619,11 @@ export interface GroupsRepository {
   ): Promise<Prisma.groupMembersGetPayload<{}> | null>;
   updateGroupMember(
     id: number,
-    data: { status: string }
+    data: { status?: string; role?: string }
   ): Promise<Prisma.groupMembersGetPayload<{}>>;
+  transferGroupOwnership(
+    groupId: number,
+    fromUserId: number,
+    toUserId: number
+  ): Promise<Prisma.groupsGetPayload<{}>>;
 }
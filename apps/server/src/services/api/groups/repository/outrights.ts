@@ -0,0 +1,115 @@
+// groups/repository/outrights.ts
+// Repository functions for group outright (season-long) markets and picks.
+
+import { prisma, type Prisma, type groupOutrightMarket } from "@repo/db";
+
+export const groupOutrightSelect = {
+  id: true,
+  market: true,
+  seasonId: true,
+  pickCount: true,
+  points: true,
+  deadline: true,
+  settledAt: true,
+  resultTeamIds: true,
+  seasons: {
+    select: { name: true, leagues: { select: { name: true } } },
+  },
+  picks: {
+    select: {
+      userId: true,
+      teamIds: true,
+      correctCount: true,
+      points: true,
+      users: { select: { username: true } },
+    },
+  },
+} satisfies Prisma.groupOutrightsSelect;
+
+export type GroupOutrightRow = Prisma.groupOutrightsGetPayload<{
+  select: typeof groupOutrightSelect;
+}>;
+
+/**
+ * Find all outright markets of a group with their picks, oldest season first.
+ */
+export async function findGroupOutrights(
+  groupId: number
+): Promise<GroupOutrightRow[]> {
+  return prisma.groupOutrights.findMany({
+    where: { groupId },
+    select: groupOutrightSelect,
+    orderBy: [{ seasonId: "asc" }, { id: "asc" }],
+  });
+}
+
+/**
+ * Find one outright market of a group (without picks).
+ */
+export async function findGroupOutrightById(
+  groupId: number,
+  outrightId: number
+): Promise<Prisma.groupOutrightsGetPayload<{}> | null> {
+  return prisma.groupOutrights.findFirst({
+    where: { id: outrightId, groupId },
+  });
+}
+
+/**
+ * Create an outright market. Returns null when the group already has this
+ * market for the season (unique constraint).
+ */
+export async function createGroupOutright(data: {
+  groupId: number;
+  seasonId: number;
+  market: groupOutrightMarket;
+  pickCount: number;
+  points: number;
+  deadline: Date;
+}): Promise<Prisma.groupOutrightsGetPayload<{}> | null> {
+  const existing = await prisma.groupOutrights.findUnique({
+    where: {
+      groupId_seasonId_market: {
+        groupId: data.groupId,
+        seasonId: data.seasonId,
+        market: data.market,
+      },
+    },
+    select: { id: true },
+  });
+  if (existing) return null;
+  return prisma.groupOutrights.create({ data });
+}
+
+/**
+ * Upsert a member's pick for an outright market.
+ */
+export async function upsertGroupOutrightPick(
+  outrightId: number,
+  userId: number,
+  teamIds: number[]
+): Promise<Prisma.groupOutrightPicksGetPayload<{}>> {
+  return prisma.groupOutrightPicks.upsert({
+    where: { outrightId_userId: { outrightId, userId } },
+    update: { teamIds, updatedAt: new Date() },
+    create: { outrightId, userId, teamIds },
+  });
+}
+
+/**
+ * Teams that play at least one fixture in the season (valid outright picks).
+ */
+export async function findSeasonTeams(
+  seasonId: number
+): Promise<Array<{ id: number; name: string; imagePath: string | null }>> {
+  return prisma.teams.findMany({
+    where: {
+      OR: [
+        { fixtures_fixtures_home_team_idToteams: { some: { seasonId } } },
+        { fixtures_fixtures_away_team_idToteams: { some: { seasonId } } },
+      ],
+    },
+    select: { id: true, name: true, imagePath: true },
+    orderBy: { name: "asc" },
+  });
+}
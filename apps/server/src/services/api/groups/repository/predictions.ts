@@ -3,33 +3,82 @@
 
 import { prisma } from "@repo/db";
 import { MEMBER_STATUS } from "../constants";
+import type { SideMarketPicks } from "../side-markets";
+
+/** Map side-market picks to their columns; undefined picks are left untouched. */
+function sideMarketColumns(markets: Partial<SideMarketPicks> | undefined) {
+  if (!markets) return {};
+  return {
+    ...(markets.btts !== undefined && { bttsPick: markets.btts }),
+    ...(markets.overUnder !== undefined && {
+      overUnderPick: markets.overUnder,
+    }),
+    ...(markets.firstTeamToScore !== undefined && {
+      firstTeamToScorePick: markets.firstTeamToScore,
+    }),
+  };
+}
+
+/**
+ * Map a joker flag to its columns; jokerBucket is kept only while the joker is held, so the
+ * (group, user, bucket) unique index allows one joker per bucket. Undefined leaves both untouched.
+ */
+function jokerColumns(
+  isJoker: boolean | undefined,
+  jokerBucket?: string | null
+) {
+  if (isJoker === undefined) return {};
+  return { isJoker, jokerBucket: isJoker ? (jokerBucket ?? null) : null };
+}
 
 /**
  * Upsert a group prediction.
+ * isJoker and side-market picks are only written when provided; clearJokerOn removes the user's joker
+ * from other group fixtures in the same transaction (joker moved).
  */
 export async function upsertGroupPrediction(data: {
   userId: number;
   groupFixtureId: number;
   groupId: number;
   prediction: string;
+  isJoker?: boolean;
+  /** Joker bucket key of the fixture (see helpers/joker.ts); stored while isJoker. */
+  jokerBucket?: string | null;
+  markets?: Partial<SideMarketPicks>;
+  clearJokerOn?: number[];
 }) {
-  return await prisma.groupPredictions.upsert({
-    where: {
-      userId_groupFixtureId: {
-        userId: data.userId,
+  const [, saved] = await prisma.$transaction([
+    clearJokers(data.userId, data.clearJokerOn ?? []),
+    prisma.groupPredictions.upsert({
+      where: {
+        userId_groupFixtureId: {
+          userId: data.userId,
+          groupFixtureId: data.groupFixtureId,
+        },
+      },
+      update: {
+        prediction: data.prediction,
+        ...jokerColumns(data.isJoker, data.jokerBucket),
+        ...sideMarketColumns(data.markets),
+        updatedAt: new Date(),
+      },
+      create: {
+        groupId: data.groupId,
         groupFixtureId: data.groupFixtureId,
+        userId: data.userId,
+        prediction: data.prediction,
+        ...jokerColumns(data.isJoker ?? false, data.jokerBucket),
+        ...sideMarketColumns(data.markets),
       },
-    },
-    update: {
-      prediction: data.prediction,
-      updatedAt: new Date(),
-    },
-    create: {
-      groupId: data.groupId,
-      groupFixtureId: data.groupFixtureId,
-      userId: data.userId,
-      prediction: data.prediction,
-    },
+    }),
+  ]);
+  return saved;
+}
+
+function clearJokers(userId: number, groupFixtureIds: number[]) {
+  return prisma.groupPredictions.updateMany({
+    where: { userId, groupFixtureId: { in: groupFixtureIds }, isJoker: true },
+    data: { isJoker: false, jokerBucket: null, updatedAt: new Date() },
   });
 }
 
@@ -42,10 +91,15 @@ export async function upsertGroupPredictionsBatch(
   predictions: Array<{
     groupFixtureId: number;
     prediction: string;
-  }>
+    isJoker?: boolean;
+    jokerBucket?: string | null;
+    markets?: Partial<SideMarketPicks>;
+  }>,
+  clearJokerOn: number[] = []
 ) {
-  return await prisma.$transaction(
-    predictions.map((pred) => {
+  const [, ...saved] = await prisma.$transaction([
+    clearJokers(userId, clearJokerOn),
+    ...predictions.map((pred) => {
       return prisma.groupPredictions.upsert({
         where: {
           userId_groupFixtureId: {
@@ -55,6 +109,8 @@ export async function upsertGroupPredictionsBatch(
         },
         update: {
           prediction: pred.prediction,
+          ...jokerColumns(pred.isJoker, pred.jokerBucket),
+          ...sideMarketColumns(pred.markets),
           updatedAt: new Date(),
         },
         create: {
@@ -62,10 +118,27 @@ export async function upsertGroupPredictionsBatch(
           groupFixtureId: pred.groupFixtureId,
           userId,
           prediction: pred.prediction,
+          ...jokerColumns(pred.isJoker ?? false, pred.jokerBucket),
+          ...sideMarketColumns(pred.markets),
         },
       });
-    })
-  );
+    }),
+  ]);
+  return saved;
+}
+
+/**
+ * Find the group fixture IDs where the user currently holds a joker.
+ */
+export async function findUserJokerGroupFixtureIds(
+  groupId: number,
+  userId: number
+): Promise<number[]> {
+  const rows = await prisma.groupPredictions.findMany({
+    where: { groupId, userId, isJoker: true },
+    select: { groupFixtureId: true },
+  });
+  return rows.map((r) => r.groupFixtureId);
 }
 
 /** Shape returned by findPredictionsForOverview for overview map building. */
@@ -0,0 +1,24 @@
+// groups/repository/ranking-history.ts
+// Repository functions for the ranking history (ranking snapshots).
+
+import { prisma } from "@repo/db";
+
+/**
+ * Find the group's ranking snapshots, oldest first, optionally for some users only.
+ */
+export async function findRankingSnapshots(
+  groupId: number,
+  userIds?: number[]
+) {
+  return prisma.rankingSnapshots.findMany({
+    where: { groupId, ...(userIds ? { userId: { in: userIds } } : {}) },
+    orderBy: [{ createdAt: "asc" }, { fixtureId: "asc" }],
+    select: {
+      fixtureId: true,
+      userId: true,
+      rank: true,
+      totalPoints: true,
+      createdAt: true,
+    },
+  });
+}
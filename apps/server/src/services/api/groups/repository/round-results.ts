@@ -0,0 +1,85 @@
+// groups/repository/round-results.ts
+// Repository functions for decided rounds ("manager of the round").
+
+import { prisma } from "@repo/db";
+import type { FixtureState } from "@repo/db";
+import { FINISHED_STATES } from "@repo/utils";
+
+/**
+ * Find the group's decided rounds, most recent first.
+ */
+export async function findGroupRoundResults(groupId: number, limit: number) {
+  return prisma.groupRoundResults.findMany({
+    where: { groupId },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: limit,
+  });
+}
+
+/**
+ * Find which of the given round keys are already decided for the group.
+ */
+export async function findDecidedRoundKeys(
+  groupId: number,
+  roundKeys: string[]
+): Promise<Set<string>> {
+  if (roundKeys.length === 0) return new Set();
+  const rows = await prisma.groupRoundResults.findMany({
+    where: { groupId, roundKey: { in: roundKeys } },
+    select: { roundKey: true },
+  });
+  return new Set(rows.map((r) => r.roundKey));
+}
+
+/**
+ * Count predictions on finished fixtures among the given group fixtures that
+ * haven't been settled yet.
+ */
+export async function countUnsettledFinishedPredictions(
+  groupId: number,
+  groupFixtureIds: number[]
+): Promise<number> {
+  if (groupFixtureIds.length === 0) return 0;
+  return prisma.groupPredictions.count({
+    where: {
+      groupId,
+      groupFixtureId: { in: groupFixtureIds },
+      settledAt: null,
+      groupFixtures: {
+        fixtures: { state: { in: [...FINISHED_STATES] as FixtureState[] } },
+      },
+    },
+  });
+}
+
+/**
+ * Record a decided round. Returns false when it was already recorded
+ * (a concurrent settlement got there first).
+ */
+export async function createRoundResultInternal(data: {
+  groupId: number;
+  roundKey: string;
+  roundLabel: string;
+  winnerUserIds: number[];
+  winningPoints: number;
+  participantCount: number;
+}): Promise<boolean> {
+  const { count } = await prisma.groupRoundResults.createMany({
+    data: [data],
+    skipDuplicates: true,
+  });
+  return count > 0;
+}
+
+/**
+ * Find usernames of the given users.
+ */
+export async function findUsernamesByIds(
+  userIds: number[]
+): Promise<Array<{ id: number; username: string | null }>> {
+  if (userIds.length === 0) return [];
+  return prisma.users.findMany({
+    where: { id: { in: userIds } },
+    select: { id: true, username: true },
+  });
+}
@@ -0,0 +1,302 @@
+// groups/repository/seasons.ts
+// Repository functions for groups continued across seasons and their archived standings.
+
+import { prisma, Prisma } from "@repo/db";
+import type { FixtureState } from "@repo/db";
+import {
+  CANCELLED_STATES,
+  FINISHED_STATES,
+  NOT_STARTED_STATES,
+} from "@repo/utils";
+import { GROUP_STATUS, MEMBER_STATUS } from "../constants";
+import { attachFixturesToGroupInternal } from "./fixtures";
+
+const seasonSelect = {
+  id: true,
+  name: true,
+  startDate: true,
+  leagueId: true,
+} satisfies Prisma.seasonsSelect;
+
+export type SeasonRow = Prisma.seasonsGetPayload<{
+  select: typeof seasonSelect;
+}>;
+
+/** Link of a group in a season chain (see findGroupSeasonChain). */
+export type GroupSeasonLink = {
+  id: number;
+  name: string;
+  seasonId: number | null;
+  seasonName: string | null;
+  previousGroupId: number | null;
+  archivedAt: Date | null;
+};
+
+/**
+ * Find the group with everything needed to continue it into the next season:
+ * rules, season, the group it already continued into, and members to carry over.
+ */
+export async function findGroupForSeasonContinuation(groupId: number) {
+  return prisma.groups.findUnique({
+    where: { id: groupId },
+    include: {
+      groupRules: true,
+      season: { select: seasonSelect },
+      nextGroup: { select: { id: true } },
+      groupMembers: {
+        where: {
+          status: { in: [MEMBER_STATUS.JOINED, MEMBER_STATUS.BANNED] },
+        },
+        select: { userId: true, role: true, status: true },
+      },
+    },
+  });
+}
+
+export type GroupForSeasonContinuation = NonNullable<
+  Awaited<ReturnType<typeof findGroupForSeasonContinuation>>
+>;
+
+/**
+ * Count the group's fixtures that are not finished or cancelled yet.
+ */
+export async function countUnfinishedGroupFixtures(
+  groupId: number
+): Promise<number> {
+  return prisma.groupFixtures.count({
+    where: {
+      groupId,
+      fixtures: {
+        state: {
+          notIn: [...FINISHED_STATES, ...CANCELLED_STATES] as FixtureState[],
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Season of the group's latest fixture, for groups created before seasons were tracked.
+ */
+export async function findLatestGroupFixtureSeason(
+  groupId: number
+): Promise<SeasonRow | null> {
+  const row = await prisma.groupFixtures.findFirst({
+    where: { groupId, fixtures: { seasonId: { not: null } } },
+    orderBy: { fixtures: { startTs: "desc" } },
+    select: { fixtures: { select: { season: { select: seasonSelect } } } },
+  });
+  return row?.fixtures.season ?? null;
+}
+
+/**
+ * Find the first season of a league that starts after the given date.
+ */
+export async function findNextSeason(
+  leagueId: number,
+  afterStartDate: string
+): Promise<SeasonRow | null> {
+  return prisma.seasons.findFirst({
+    where: { leagueId, startDate: { gt: afterStartDate } },
+    orderBy: { startDate: "asc" },
+    select: seasonSelect,
+  });
+}
+
+export type ContinueGroupIntoSeasonData = {
+  source: GroupForSeasonContinuation;
+  seasonId: number;
+  /** Final standings of the old group, frozen in groupSeasonStandings. */
+  standings: Array<{
+    userId: number;
+    rank: number;
+    totalPoints: number;
+    predictionCount: number;
+    correctScoreCount: number;
+  }>;
+  now: number;
+};
+
+/**
+ * Continue a group into a new season in a single transaction:
+ * freeze the old group's final standings and archive it, then create the new
+ * group (active, linked through previousGroupId) with cloned rules, members and
+ * the new season's upcoming fixtures.
+ */
+export async function continueGroupIntoSeasonInternal(
+  data: ContinueGroupIntoSeasonData
+): Promise<Prisma.groupsGetPayload<{}>> {
+  const { source } = data;
+
+  return await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    // 1. Freeze final standings and archive the old group
+    if (data.standings.length > 0) {
+      await tx.groupSeasonStandings.createMany({
+        data: data.standings.map((s) => ({ groupId: source.id, ...s })),
+        skipDuplicates: true,
+      });
+    }
+    await tx.groups.update({
+      where: { id: source.id },
+      data: { status: GROUP_STATUS.ENDED, archivedAt: new Date() },
+    });
+
+    // 2. Create the next season's group
+    const group = await tx.groups.create({
+      data: {
+        name: source.name,
+        description: source.description,
+        creatorId: source.creatorId,
+        privacy: source.privacy,
+        status: GROUP_STATUS.ACTIVE,
+        avatarType: source.avatarType,
+        avatarValue: source.avatarValue,
+        isOfficial: source.isOfficial,
+        seasonId: data.seasonId,
+        previousGroupId: source.id,
+      },
+    });
+
+    // 3. Clone rules (scoring, jokers, side markets, invite and visibility settings)
+    if (source.groupRules) {
+      const {
+        id: _id,
+        createdAt: _createdAt,
+        updatedAt: _updatedAt,
+        groupId: _groupId,
+        scoringConfig,
+        ...rules
+      } = source.groupRules;
+      await tx.groupRules.create({
+        data: {
+          ...rules,
+          groupId: group.id,
+          scoringConfig: scoringConfig as Prisma.InputJsonValue,
+        },
+      });
+    }
+
+    // 4. Carry members over with their roles (bans carry over too)
+    await tx.groupMembers.createMany({
+      data: source.groupMembers.map((m) => ({
+        groupId: group.id,
+        userId: m.userId,
+        role: m.role,
+        status: m.status,
+      })),
+      skipDuplicates: true,
+    });
+
+    // 5. Attach the new season's upcoming fixtures
+    const fixtures = await tx.fixtures.findMany({
+      where: {
+        seasonId: data.seasonId,
+        state: { in: [...NOT_STARTED_STATES] as FixtureState[] },
+        startTs: { gt: data.now },
+        isSandbox: false,
+      },
+      select: { id: true },
+      orderBy: { startTs: "asc" },
+    });
+    await attachFixturesToGroupInternal(
+      tx,
+      group.id,
+      fixtures.map((f) => f.id)
+    );
+
+    return group;
+  });
+}
+
+/**
+ * Walk the season chain of a group in both directions.
+ * Returns every group of the chain, oldest season first.
+ */
+export async function findGroupSeasonChain(
+  groupId: number
+): Promise<GroupSeasonLink[]> {
+  const select = {
+    id: true,
+    name: true,
+    seasonId: true,
+    previousGroupId: true,
+    archivedAt: true,
+    season: { select: { name: true } },
+    nextGroup: { select: { id: true } },
+  } satisfies Prisma.groupsSelect;
+  type Row = Prisma.groupsGetPayload<{ select: typeof select }>;
+  const toLink = (row: Row): GroupSeasonLink => ({
+    id: row.id,
+    name: row.name,
+    seasonId: row.seasonId,
+    seasonName: row.season?.name ?? null,
+    previousGroupId: row.previousGroupId,
+    archivedAt: row.archivedAt,
+  });
+
+  const start = await prisma.groups.findUnique({
+    where: { id: groupId },
+    select,
+  });
+  if (!start) return [];
+
+  const chain: GroupSeasonLink[] = [toLink(start)];
+  const seen = new Set([start.id]);
+
+  let prevId = start.previousGroupId;
+  while (prevId != null && !seen.has(prevId)) {
+    const row = await prisma.groups.findUnique({
+      where: { id: prevId },
+      select,
+    });
+    if (!row) break;
+    seen.add(row.id);
+    chain.unshift(toLink(row));
+    prevId = row.previousGroupId;
+  }
+
+  let nextId = start.nextGroup?.id ?? null;
+  while (nextId != null && !seen.has(nextId)) {
+    const row = await prisma.groups.findUnique({
+      where: { id: nextId },
+      select,
+    });
+    if (!row) break;
+    seen.add(row.id);
+    chain.push(toLink(row));
+    nextId = row.nextGroup?.id ?? null;
+  }
+
+  return chain;
+}
+
+/**
+ * Find frozen final standings of archived groups.
+ */
+export async function findGroupSeasonStandings(groupIds: number[]) {
+  if (groupIds.length === 0) return [];
+  return prisma.groupSeasonStandings.findMany({
+    where: { groupId: { in: groupIds } },
+    select: {
+      groupId: true,
+      userId: true,
+      rank: true,
+      totalPoints: true,
+      users: { select: { username: true } },
+    },
+    orderBy: { rank: "asc" },
+  });
+}
+
+/**
+ * Season name and the group this one continued into (for the group detail).
+ */
+export async function findGroupSeasonInfo(groupId: number) {
+  return prisma.groups.findUnique({
+    where: { id: groupId },
+    select: {
+      season: { select: { name: true } },
+      nextGroup: { select: { id: true } },
+    },
+  });
+}
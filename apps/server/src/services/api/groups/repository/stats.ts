@@ -233,6 +233,7 @@ export async function findGroupsStatsBatch(
         updatedAt: true,
         placedAt: true,
         points: true,
+        isJoker: true,
         groupFixtures: {
           select: {
             fixtureId: true,
@@ -401,6 +402,7 @@ export async function findGroupsStatsBatch(
     placedAt: Date;
     settled: boolean;
     points: string | null;
+    isJoker: boolean;
   };
   const userPredictionsByGroupFixture = new Map<string, PredictionData>();
   userPredictionsRaw.forEach((pred) => {
@@ -422,6 +424,7 @@ export async function findGroupsStatsBatch(
       placedAt: pred.placedAt,
       settled: false, // Not directly available, will be calculated based on points
       points: pred.points,
+      isJoker: pred.isJoker,
     });
   });
 
@@ -0,0 +1,138 @@
+// groups/repository/sub-leagues.ts
+// Repository functions for sub-leagues: private sub-tables of a group's members.
+
+import { prisma, Prisma } from "@repo/db";
+
+const subLeagueSelect = {
+  id: true,
+  createdAt: true,
+  groupId: true,
+  creatorId: true,
+  name: true,
+  inviteCode: true,
+  _count: { select: { members: true } },
+} satisfies Prisma.groupSubLeaguesSelect;
+
+export type SubLeagueRow = Prisma.groupSubLeaguesGetPayload<{
+  select: typeof subLeagueSelect;
+}>;
+
+/**
+ * Find the sub-leagues of a group that the user belongs to (oldest first).
+ */
+export async function findUserSubLeaguesInGroup(
+  groupId: number,
+  userId: number
+): Promise<SubLeagueRow[]> {
+  return prisma.groupSubLeagues.findMany({
+    where: { groupId, members: { some: { userId } } },
+    orderBy: { createdAt: "asc" },
+    select: subLeagueSelect,
+  });
+}
+
+/**
+ * Find a sub-league by id.
+ */
+export async function findSubLeagueById(
+  subLeagueId: number
+): Promise<SubLeagueRow | null> {
+  return prisma.groupSubLeagues.findUnique({
+    where: { id: subLeagueId },
+    select: subLeagueSelect,
+  });
+}
+
+/**
+ * Find a sub-league by its invite code.
+ */
+export async function findSubLeagueByInviteCode(
+  inviteCode: string
+): Promise<SubLeagueRow | null> {
+  return prisma.groupSubLeagues.findUnique({
+    where: { inviteCode },
+    select: subLeagueSelect,
+  });
+}
+
+/**
+ * User ids of a sub-league's members.
+ */
+export async function findSubLeagueMemberIds(
+  subLeagueId: number
+): Promise<number[]> {
+  const rows = await prisma.groupSubLeagueMembers.findMany({
+    where: { subLeagueId },
+    select: { userId: true },
+  });
+  return rows.map((r) => r.userId);
+}
+
+/**
+ * Count the sub-leagues a user created in a group.
+ */
+export async function countSubLeaguesCreatedInGroup(
+  groupId: number,
+  userId: number
+): Promise<number> {
+  return prisma.groupSubLeagues.count({
+    where: { groupId, creatorId: userId },
+  });
+}
+
+/**
+ * Create a sub-league with its creator as the first member.
+ */
+export async function createSubLeague(data: {
+  groupId: number;
+  creatorId: number;
+  name: string;
+  inviteCode: string;
+}): Promise<SubLeagueRow> {
+  return prisma.groupSubLeagues.create({
+    data: { ...data, members: { create: { userId: data.creatorId } } },
+    select: subLeagueSelect,
+  });
+}
+
+/**
+ * Add a member to a sub-league (no-op when already a member).
+ */
+export async function addSubLeagueMember(
+  subLeagueId: number,
+  userId: number
+): Promise<void> {
+  await prisma.groupSubLeagueMembers.upsert({
+    where: { subLeagueId_userId: { subLeagueId, userId } },
+    update: {},
+    create: { subLeagueId, userId },
+  });
+}
+
+/**
+ * Remove a member from a sub-league; the sub-league is deleted with its last member.
+ * Returns whether the sub-league was deleted.
+ */
+export async function removeSubLeagueMemberInternal(
+  subLeagueId: number,
+  userId: number
+): Promise<{ deleted: boolean }> {
+  return await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await tx.groupSubLeagueMembers.deleteMany({
+      where: { subLeagueId, userId },
+    });
+    const remaining = await tx.groupSubLeagueMembers.count({
+      where: { subLeagueId },
+    });
+    if (remaining > 0) return { deleted: false };
+    await tx.groupSubLeagues.delete({ where: { id: subLeagueId } });
+    return { deleted: true };
+  });
+}
+
+/**
+ * Delete a sub-league with its members and chat channel.
+ */
+export async function deleteSubLeague(subLeagueId: number): Promise<void> {
+  await prisma.groupSubLeagues.delete({ where: { id: subLeagueId } });
+}
@@ -0,0 +1,101 @@
+// groups/repository/ties.ts
+// Repository functions for two-legged ties and "who advances" picks.
+
+import { prisma, type Prisma } from "@repo/db";
+
+export const tieLegSelect = {
+  id: true,
+  aggregateId: true,
+  leg: true,
+  startTs: true,
+  state: true,
+  homeTeamId: true,
+  awayTeamId: true,
+  homeScore90: true,
+  awayScore90: true,
+  homeScoreET: true,
+  awayScoreET: true,
+  penHome: true,
+  penAway: true,
+  homeTeam: { select: { id: true, name: true, imagePath: true } },
+  awayTeam: { select: { id: true, name: true, imagePath: true } },
+} satisfies Prisma.fixturesSelect;
+
+export type TieLegRow = Prisma.fixturesGetPayload<{
+  select: typeof tieLegSelect;
+}>;
+
+export const groupTiePickSelect = {
+  userId: true,
+  aggregateId: true,
+  teamId: true,
+  isCorrect: true,
+  points: true,
+  settledAt: true,
+  users: { select: { username: true } },
+} satisfies Prisma.groupTiePicksSelect;
+
+export type GroupTiePickRow = Prisma.groupTiePicksGetPayload<{
+  select: typeof groupTiePickSelect;
+}>;
+
+/**
+ * Aggregate ids of the two-legged ties the group has at least one leg of.
+ */
+export async function findGroupTieAggregateIds(
+  groupId: number
+): Promise<string[]> {
+  const rows = await prisma.fixtures.findMany({
+    where: {
+      aggregateId: { not: null },
+      groupFixtures: { some: { groupId } },
+    },
+    select: { aggregateId: true },
+    distinct: ["aggregateId"],
+  });
+  return rows.flatMap((r) => (r.aggregateId ? [r.aggregateId] : []));
+}
+
+/**
+ * All legs of the given ties (whether or not the group includes them), by kickoff.
+ */
+export async function findTieLegs(
+  aggregateIds: string[]
+): Promise<TieLegRow[]> {
+  if (!aggregateIds.length) return [];
+  return prisma.fixtures.findMany({
+    where: { aggregateId: { in: aggregateIds } },
+    select: tieLegSelect,
+    orderBy: { startTs: "asc" },
+  });
+}
+
+/**
+ * All "who advances" picks of a group.
+ */
+export async function findGroupTiePicks(
+  groupId: number
+): Promise<GroupTiePickRow[]> {
+  return prisma.groupTiePicks.findMany({
+    where: { groupId },
+    select: groupTiePickSelect,
+  });
+}
+
+/**
+ * Upsert a member's "who advances" pick for a tie.
+ */
+export async function upsertGroupTiePick(
+  groupId: number,
+  userId: number,
+  aggregateId: string,
+  teamId: number
+): Promise<Prisma.groupTiePicksGetPayload<{}>> {
+  return prisma.groupTiePicks.upsert({
+    where: {
+      groupId_userId_aggregateId: { groupId, userId, aggregateId },
+    },
+    update: { teamId, updatedAt: new Date() },
+    create: { groupId, userId, aggregateId, teamId },
+  });
+}
@@ -0,0 +1,380 @@
+// groups/scoring-strategies.ts
+// Registry of pluggable scoring strategies. Pure — no DB, no side effects.
+//
+// Each group picks a strategy (groupRules.scoringStrategy) and stores its
+// strategy-specific settings in groupRules.scoringConfig. "classic" is the
+// original exact / difference / outcome tiers driven by the flat rule columns.
+
+import type { ScoringResult } from "./scoring";
+
+export const SCORING_STRATEGY_KEYS = [
+  "classic",
+  "goalDifferenceProximity",
+  "totalGoals",
+  "teamGoals",
+  "oddsWeighted",
+] as const;
+
+export type ScoringStrategyKey = (typeof SCORING_STRATEGY_KEYS)[number];
+
+export const DEFAULT_SCORING_STRATEGY: ScoringStrategyKey = "classic";
+
+/** Strategy config is a flat map of integer settings (validated per strategy). */
+export type ScoringStrategyConfig = Record<string, number>;
+
+/** Decimal 1X2 odds for a fixture (used by odds-aware strategies). */
+export type OutcomeOdds = { home: number; draw: number; away: number };
+
+export type ScoringContext = {
+  odds?: OutcomeOdds | null;
+};
+
+/** Ranking tiebreakers (after totalPoints), resolved against RankingItem counters. */
+export type RankingTiebreaker = "correctScore" | "correctDifference" | "correctOutcome";
+
+export type ScoringStrategyField = {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  default: number;
+};
+
+type Outcome = "home" | "away" | "draw";
+type ScorePair = { home: number; away: number };
+
+/** The flat point tiers from groupRules (used by classic and totalGoals). */
+export type ClassicPoints = {
+  onTheNosePoints: number;
+  correctDifferencePoints: number;
+  outcomePoints: number;
+};
+
+type StrategyInput = {
+  predictionMode: "CorrectScore" | "MatchWinner";
+  points: ClassicPoints;
+  config: ScoringStrategyConfig;
+  context: ScoringContext;
+};
+
+type ScoringStrategy = {
+  key: ScoringStrategyKey;
+  label: string;
+  description: string;
+  fields: ScoringStrategyField[];
+  /** Whether the strategy makes sense for MatchWinner (1X2) groups. */
+  supportsMatchWinner: boolean;
+  /** Whether settlement must load fixture odds for this strategy. */
+  requiresOdds: boolean;
+  tiebreakers: RankingTiebreaker[];
+  /** Score a predicted pair against the actual pair for the selected period. */
+  score(pred: ScorePair, actual: ScorePair, input: StrategyInput): ScoringResult;
+  /** Points for a correct winner when only the outcome counts (koRoundMode = Penalties). */
+  outcomeOnlyPoints(winner: Outcome, input: StrategyInput): number;
+  /** Part of score()'s points earned by the correct outcome (the underdog bonus base). */
+  outcomeShare(pred: ScorePair, actual: ScorePair, input: StrategyInput): number;
+};
+
+const ZERO_RESULT: ScoringResult = {
+  points: 0,
+  winningCorrectScore: false,
+  winningCorrectDifference: false,
+  winningMatchWinner: false,
+};
+
+export function getOutcome(home: number, away: number): Outcome {
+  if (home > away) return "home";
+  if (away > home) return "away";
+  return "draw";
+}
+
+function flags(pred: ScorePair, actual: ScorePair) {
+  const exact = pred.home === actual.home && pred.away === actual.away;
+  const diff = pred.home - pred.away === actual.home - actual.away;
+  const outcome =
+    getOutcome(pred.home, pred.away) === getOutcome(actual.home, actual.away);
+  return { exact, diff, outcome };
+}
+
+/** Classic outcome share: the outcome tier, whichever tier was awarded. */
+function classicOutcomeShare(
+  pred: ScorePair,
+  actual: ScorePair,
+  input: StrategyInput
+): number {
+  return flags(pred, actual).outcome ? input.points.outcomePoints : 0;
+}
+
+/** Classic tiers: exact, correct difference, outcome. */
+function classicScore(
+  pred: ScorePair,
+  actual: ScorePair,
+  input: StrategyInput
+): ScoringResult {
+  const { exact, diff, outcome } = flags(pred, actual);
+  const { points } = input;
+
+  if (input.predictionMode === "MatchWinner") {
+    if (!outcome) return ZERO_RESULT;
+    return {
+      points: points.outcomePoints,
+      winningCorrectScore: false,
+      winningCorrectDifference: false,
+      winningMatchWinner: true,
+    };
+  }
+
+  if (exact) {
+    return {
+      points: points.onTheNosePoints,
+      winningCorrectScore: true,
+      winningCorrectDifference: true,
+      winningMatchWinner: true,
+    };
+  }
+  if (diff) {
+    return {
+      points: points.correctDifferencePoints,
+      winningCorrectScore: false,
+      winningCorrectDifference: true,
+      winningMatchWinner: true,
+    };
+  }
+  if (outcome) {
+    return {
+      points: points.outcomePoints,
+      winningCorrectScore: false,
+      winningCorrectDifference: false,
+      winningMatchWinner: true,
+    };
+  }
+  return ZERO_RESULT;
+}
+
+/** goalDifferenceProximity base: basePoints minus the penalty for each goal the difference is off. */
+function proximityBasePoints(
+  pred: ScorePair,
+  actual: ScorePair,
+  config: ScoringStrategyConfig
+): number {
+  const distance = Math.abs(pred.home - pred.away - (actual.home - actual.away));
+  return Math.max(0, config.basePoints! - config.penaltyPerGoal! * distance);
+}
+
+/** Multiplier from the decimal odds of the actual outcome, capped at maxMultiplier (1 when odds are missing). */
+export function oddsMultiplier(
+  odds: OutcomeOdds | null | undefined,
+  outcome: Outcome,
+  maxMultiplier: number
+): number {
+  const value = odds?.[outcome];
+  if (value == null || !Number.isFinite(value) || value <= 1) return 1;
+  return Math.min(value, Math.max(1, maxMultiplier));
+}
+
+const STRATEGIES: Record<ScoringStrategyKey, ScoringStrategy> = {
+  classic: {
+    key: "classic",
+    label: "Classic",
+    description:
+      "Fixed points for the exact score, the correct goal difference or the correct outcome.",
+    fields: [],
+    supportsMatchWinner: true,
+    requiresOdds: false,
+    tiebreakers: ["correctScore", "correctDifference"],
+    score: classicScore,
+    outcomeOnlyPoints: (_winner, input) => input.points.outcomePoints,
+    outcomeShare: classicOutcomeShare,
+  },
+
+  goalDifferenceProximity: {
+    key: "goalDifferenceProximity",
+    label: "Goal difference proximity",
+    description:
+      "Correct outcome earns base points, minus a penalty for every goal the predicted difference is off. Exact score adds a bonus.",
+    fields: [
+      { key: "basePoints", label: "Base points", min: 1, max: 20, default: 3 },
+      { key: "penaltyPerGoal", label: "Penalty per goal off", min: 0, max: 10, default: 1 },
+      { key: "exactBonus", label: "Exact score bonus", min: 0, max: 20, default: 2 },
+    ],
+    supportsMatchWinner: false,
+    requiresOdds: false,
+    tiebreakers: ["correctDifference", "correctScore"],
+    score(pred, actual, { config }) {
+      const { exact, diff, outcome } = flags(pred, actual);
+      if (!outcome) return ZERO_RESULT;
+      const base = proximityBasePoints(pred, actual, config);
+      return {
+        points: base + (exact ? config.exactBonus! : 0),
+        winningCorrectScore: exact,
+        winningCorrectDifference: diff,
+        winningMatchWinner: true,
+      };
+    },
+    outcomeOnlyPoints: (_winner, { config }) => config.basePoints!,
+    // The exact bonus is not outcome points.
+    outcomeShare: (pred, actual, { config }) =>
+      flags(pred, actual).outcome
+        ? proximityBasePoints(pred, actual, config)
+        : 0,
+  },
+
+  totalGoals: {
+    key: "totalGoals",
+    label: "Total goals bonus",
+    description:
+      "Classic tiers, plus a bonus when the predicted total number of goals is right.",
+    fields: [
+      { key: "totalGoalsBonus", label: "Total goals bonus", min: 0, max: 20, default: 1 },
+    ],
+    supportsMatchWinner: false,
+    requiresOdds: false,
+    tiebreakers: ["correctScore", "correctDifference"],
+    score(pred, actual, input) {
+      const base = classicScore(pred, actual, input);
+      if (pred.home + pred.away !== actual.home + actual.away) return base;
+      return { ...base, points: base.points + input.config.totalGoalsBonus! };
+    },
+    outcomeOnlyPoints: (_winner, input) => input.points.outcomePoints,
+    outcomeShare: classicOutcomeShare,
+  },
+
+  teamGoals: {
+    key: "teamGoals",
+    label: "Per-team goals",
+    description:
+      "Points for each team whose goal count is right, plus points for the correct outcome.",
+    fields: [
+      { key: "teamGoalsPoints", label: "Points per team", min: 0, max: 20, default: 1 },
+      { key: "outcomePoints", label: "Outcome points", min: 0, max: 20, default: 1 },
+    ],
+    supportsMatchWinner: false,
+    requiresOdds: false,
+    tiebreakers: ["correctScore", "correctOutcome"],
+    score(pred, actual, { config }) {
+      const { exact, diff, outcome } = flags(pred, actual);
+      const teamsHit =
+        (pred.home === actual.home ? 1 : 0) + (pred.away === actual.away ? 1 : 0);
+      const points =
+        teamsHit * config.teamGoalsPoints! + (outcome ? config.outcomePoints! : 0);
+      if (points === 0) return ZERO_RESULT;
+      return {
+        points,
+        winningCorrectScore: exact,
+        winningCorrectDifference: diff,
+        winningMatchWinner: outcome,
+      };
+    },
+    outcomeOnlyPoints: (_winner, { config }) => config.outcomePoints!,
+    outcomeShare: (pred, actual, { config }) =>
+      flags(pred, actual).outcome ? config.outcomePoints! : 0,
+  },
+
+  oddsWeighted: {
+    key: "oddsWeighted",
+    label: "Odds weighted",
+    description:
+      "Correct outcome points are multiplied by the match odds of that outcome (capped), so calling an upset pays more.",
+    fields: [
+      { key: "outcomePoints", label: "Outcome points", min: 1, max: 20, default: 1 },
+      { key: "exactBonus", label: "Exact score bonus", min: 0, max: 20, default: 2 },
+      { key: "maxMultiplier", label: "Max multiplier", min: 1, max: 20, default: 5 },
+    ],
+    supportsMatchWinner: true,
+    requiresOdds: true,
+    tiebreakers: ["correctOutcome", "correctScore"],
+    score(pred, actual, { predictionMode, config, context }) {
+      const { exact, diff, outcome } = flags(pred, actual);
+      if (!outcome) return ZERO_RESULT;
+      const multiplier = oddsMultiplier(
+        context.odds,
+        getOutcome(actual.home, actual.away),
+        config.maxMultiplier!
+      );
+      const bonus = predictionMode === "CorrectScore" && exact ? config.exactBonus! : 0;
+      return {
+        points: Math.round(config.outcomePoints! * multiplier) + bonus,
+        winningCorrectScore: predictionMode === "CorrectScore" && exact,
+        winningCorrectDifference: predictionMode === "CorrectScore" && diff,
+        winningMatchWinner: true,
+      };
+    },
+    outcomeOnlyPoints: (winner, { config, context }) =>
+      Math.round(
+        config.outcomePoints! *
+          oddsMultiplier(context.odds, winner, config.maxMultiplier!)
+      ),
+    // Odds already weight the outcome; the underdog bonus is skipped for this strategy.
+    outcomeShare: () => 0,
+  },
+};
+
+export function isScoringStrategyKey(value: unknown): value is ScoringStrategyKey {
+  return (
+    typeof value === "string" &&
+    (SCORING_STRATEGY_KEYS as readonly string[]).includes(value)
+  );
+}
+
+/** Returns the strategy for a key, falling back to classic for unknown keys. */
+export function getScoringStrategy(key: string | null | undefined): ScoringStrategy {
+  return isScoringStrategyKey(key) ? STRATEGIES[key] : STRATEGIES.classic;
+}
+
+export function listScoringStrategies(): ScoringStrategy[] {
+  return SCORING_STRATEGY_KEYS.map((key) => STRATEGIES[key]);
+}
+
+/**
+ * Validate a raw config for a strategy and fill missing fields with defaults.
+ * Returns an error message instead of throwing so callers choose the error type.
+ */
+export function parseScoringConfig(
+  key: ScoringStrategyKey,
+  raw: unknown
+): { config: ScoringStrategyConfig } | { error: string } {
+  const strategy = STRATEGIES[key];
+  const source =
+    raw != null && typeof raw === "object" && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>)
+      : {};
+  const config: ScoringStrategyConfig = {};
+  for (const field of strategy.fields) {
+    const value = source[field.key];
+    if (value === undefined || value === null) {
+      config[field.key] = field.default;
+      continue;
+    }
+    if (
+      typeof value !== "number" ||
+      !Number.isInteger(value) ||
+      value < field.min ||
+      value > field.max
+    ) {
+      return {
+        error: `scoringConfig.${field.key} must be an integer between ${field.min} and ${field.max}`,
+      };
+    }
+    config[field.key] = value;
+  }
+  return { config };
+}
+
+/** Lenient variant for stored configs: invalid or missing values fall back to defaults. */
+export function resolveScoringConfig(
+  key: string | null | undefined,
+  raw: unknown
+): ScoringStrategyConfig {
+  const strategy = getScoringStrategy(key);
+  const source =
+    raw != null && typeof raw === "object" && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>)
+      : {};
+  const config: ScoringStrategyConfig = {};
+  for (const field of strategy.fields) {
+    const value = source[field.key];
+    config[field.key] =
+      typeof value === "number" && Number.isFinite(value) ? value : field.default;
+  }
+  return config;
+}
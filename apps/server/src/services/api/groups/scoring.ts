@@ -5,8 +5,25 @@
 // period is used (FullTime = 90min, ExtraTime = after ET, Penalties = outcome only).
 // For matches that don't go to ET, period scores are null and we fall back to
 // the primary score fields (homeScore90/awayScore90) in all modes.
+// A second leg can go to penalties with a decided ET score (level on aggregate),
+// so there the shootout decides the winner in Penalties mode.
+//
+// The points themselves come from the group's scoring strategy (see
+// scoring-strategies.ts); without a strategy the classic tiers apply.
+// The optional underdog bonus scales the outcome points by the 1X2 odds
+// frozen at kickoff, on top of whatever the strategy awarded.
 
 import { isFinished } from "@repo/utils";
+import { isSecondLeg } from "./two-legged-ties";
+import {
+  getOutcome,
+  getScoringStrategy,
+  oddsMultiplier,
+  resolveScoringConfig,
+  type OutcomeOdds,
+  type ScoringContext,
+  type ScoringStrategyConfig,
+} from "./scoring-strategies";
 
 export type ScoringRules = {
   predictionMode: "CorrectScore" | "MatchWinner";
@@ -15,8 +32,19 @@ export type ScoringRules = {
   outcomePoints: number;
   /** Which score period to use for KO rounds: 90min, after ET, or outcome-only (penalties). */
   koRoundMode: "FullTime" | "ExtraTime" | "Penalties";
+  /** Scoring strategy key (defaults to "classic"). */
+  scoringStrategy?: string | null;
+  /** Strategy-specific settings; missing values fall back to strategy defaults. */
+  scoringConfig?: ScoringStrategyConfig | null;
+  /** Multiply outcome points by the kickoff odds of the actual outcome. */
+  underdogBonus?: boolean;
+  /** Cap for the underdog multiplier (e.g. 3 → at most 3× the outcome points). */
+  underdogMaxMultiplier?: number;
 };
 
+/** Default cap for the underdog multiplier (matches the group_rules column default). */
+export const DEFAULT_UNDERDOG_MAX_MULTIPLIER = 3;
+
 /** Result of a fixture: primary scores (90min) plus optional period-specific (ET/PEN). */
 export type FixtureResult = {
   homeScore90: number;
@@ -28,6 +56,8 @@ export type FixtureResult = {
   /** Penalty shootout goals only (null if no shootout). */
   penHome?: number | null;
   penAway?: number | null;
+  /** Leg marker of a two-legged tie ("1/2", "2/2"); null for single matches. */
+  leg?: string | null;
 };
 
 export type ScoringResult = {
@@ -44,13 +74,6 @@ const ZERO_RESULT: ScoringResult = {
   winningMatchWinner: false,
 };
 
-/** Returns the outcome (home/away/draw) from a home/away score pair. */
-function getOutcome(home: number, away: number): "home" | "away" | "draw" {
-  if (home > away) return "home";
-  if (away > home) return "away";
-  return "draw";
-}
-
 /**
  * Returns the score pair to use for scoring based on koRoundMode.
  * homeScore90/awayScore90 are always available; ET fields are optional (ET/PEN matches only).
@@ -87,9 +110,19 @@ function getScoreForMode(
 /**
  * Determines the winner of the fixture for Penalties mode.
  * If ET scores exist and are tied, uses penalty shootout result (penHome/penAway).
+ * A second leg's shootout always decides: it is played when the aggregate is
+ * level, whatever the leg's own score.
  * Otherwise uses final score to decide home/away/draw.
  */
 function determineWinner(result: FixtureResult): "home" | "away" | "draw" {
+  if (
+    isSecondLeg(result.leg) &&
+    result.penHome != null &&
+    result.penAway != null &&
+    result.penHome !== result.penAway
+  ) {
+    return result.penHome > result.penAway ? "home" : "away";
+  }
   // If we have ET scores and they're not tied, winner is clear from ET.
   if (result.homeScoreET != null && result.awayScoreET != null) {
     if (result.homeScoreET > result.awayScoreET) return "home";
@@ -105,76 +138,16 @@ function determineWinner(result: FixtureResult): "home" | "away" | "draw" {
   return "draw";
 }
 
-/** Parses prediction string "x:y" and returns the predicted outcome (home/away/draw). */
-function getPredictedWinner(prediction: {
+/** Parses prediction string "x:y"; returns null when malformed. */
+function parsePrediction(prediction: {
   prediction: string;
-}): "home" | "away" | "draw" {
+}): { home: number; away: number } | null {
   const parts = prediction.prediction?.trim().split(":") ?? [];
-  if (parts.length !== 2) return "draw";
-  const predHome = Number(parts[0]);
-  const predAway = Number(parts[1]);
-  if (!Number.isFinite(predHome) || !Number.isFinite(predAway)) return "draw";
-  return getOutcome(predHome, predAway);
-}
-
-/**
- * Applies CorrectScore or MatchWinner scoring using the given score pair.
- * Used for FullTime and ExtraTime modes (and for non-Penalties logic).
- */
-function calculateNormalScore(
-  prediction: { prediction: string },
-  score: { home: number; away: number },
-  rules: ScoringRules
-): ScoringResult {
-  const parts = prediction.prediction?.trim().split(":") ?? [];
-  if (parts.length !== 2) return ZERO_RESULT;
-
-  const predHome = Number(parts[0]);
-  const predAway = Number(parts[1]);
-  if (!Number.isFinite(predHome) || !Number.isFinite(predAway))
-    return ZERO_RESULT;
-
-  const actHome = score.home;
-  const actAway = score.away;
-
-  if (rules.predictionMode === "MatchWinner") {
-    if (getOutcome(predHome, predAway) === getOutcome(actHome, actAway)) {
-      return {
-        points: rules.outcomePoints,
-        winningCorrectScore: false,
-        winningCorrectDifference: false,
-        winningMatchWinner: true,
-      };
-    }
-    return ZERO_RESULT;
-  }
-
-  // CorrectScore mode — tiers in order: exact, correct diff, outcome.
-  if (predHome === actHome && predAway === actAway) {
-    return {
-      points: rules.onTheNosePoints,
-      winningCorrectScore: true,
-      winningCorrectDifference: true,
-      winningMatchWinner: true,
-    };
-  }
-  if (predHome - predAway === actHome - actAway) {
-    return {
-      points: rules.correctDifferencePoints,
-      winningCorrectScore: false,
-      winningCorrectDifference: true,
-      winningMatchWinner: true,
-    };
-  }
-  if (getOutcome(predHome, predAway) === getOutcome(actHome, actAway)) {
-    return {
-      points: rules.outcomePoints,
-      winningCorrectScore: false,
-      winningCorrectDifference: false,
-      winningMatchWinner: true,
-    };
-  }
-  return ZERO_RESULT;
+  if (parts.length !== 2) return null;
+  const home = Number(parts[0]);
+  const away = Number(parts[1]);
+  if (!Number.isFinite(home) || !Number.isFinite(away)) return null;
+  return { home, away };
 }
 
 /**
@@ -183,35 +156,137 @@ function calculateNormalScore(
  * - Only settled when fixture state is FT.
  * - Score pair is chosen by rules.koRoundMode (FullTime / ExtraTime / Penalties);
  *   when period scores are null (e.g. match decided in 90 min), we fall back to final score.
- * - Penalties mode: only outcome matters; we award outcomePoints if predicted winner matches
- *   actual winner (using ET score, or penalty shootout when ET is tied).
- * - FullTime / ExtraTime: normal CorrectScore or MatchWinner logic on the selected score.
+ * - Penalties mode: only outcome matters; the strategy's outcome points are awarded if the
+ *   predicted winner matches the actual winner (using ET score, or penalty shootout when ET is tied).
+ * - FullTime / ExtraTime: the group's strategy scores the selected score pair.
+ * - context carries fixture data some strategies need (e.g. 1X2 odds for oddsWeighted).
  */
 export function calculateScore(
   prediction: { prediction: string },
   result: FixtureResult,
-  rules: ScoringRules
+  rules: ScoringRules,
+  context: ScoringContext = {}
 ): ScoringResult {
   if (!isFinished(result.state)) return ZERO_RESULT;
 
   const score = getScoreForMode(result, rules.koRoundMode);
   if (!score) return ZERO_RESULT;
 
+  const strategy = getScoringStrategy(rules.scoringStrategy);
+  const input = {
+    predictionMode: rules.predictionMode,
+    points: {
+      onTheNosePoints: rules.onTheNosePoints,
+      correctDifferencePoints: rules.correctDifferencePoints,
+      outcomePoints: rules.outcomePoints,
+    },
+    config: resolveScoringConfig(strategy.key, rules.scoringConfig),
+    context,
+  };
+  const predicted = parsePrediction(prediction);
+
   // Penalties mode: only award outcome points if predicted winner matches actual winner.
+  // A malformed prediction counts as a draw here, which never matches a shootout winner.
   if (rules.koRoundMode === "Penalties") {
     const winner = determineWinner(result);
-    const predictedWinner = getPredictedWinner(prediction);
+    const predictedWinner = predicted
+      ? getOutcome(predicted.home, predicted.away)
+      : "draw";
     if (winner === predictedWinner) {
-      return {
-        points: rules.outcomePoints,
-        winningCorrectScore: false,
-        winningCorrectDifference: false,
-        winningMatchWinner: true,
-      };
+      const points = strategy.outcomeOnlyPoints(winner, input);
+      return applyUnderdogBonus(
+        {
+          points,
+          winningCorrectScore: false,
+          winningCorrectDifference: false,
+          winningMatchWinner: true,
+        },
+        points,
+        winner,
+        rules,
+        context
+      );
     }
     return ZERO_RESULT;
   }
 
-  // FullTime and ExtraTime: normal scoring using the selected score pair.
-  return calculateNormalScore(prediction, score, rules);
+  // FullTime and ExtraTime: strategy scoring using the selected score pair.
+  if (!predicted) return ZERO_RESULT;
+  return applyUnderdogBonus(
+    strategy.score(predicted, score, input),
+    strategy.outcomeShare(predicted, score, input),
+    getOutcome(score.home, score.away),
+    rules,
+    context
+  );
+}
+
+/**
+ * Underdog bonus: a correct outcome earns outcomePoints × (capped odds − 1) extra,
+ * so the outcome part of the score is effectively multiplied by the odds.
+ * outcomePoints is what the strategy awarded for the outcome (see outcomeShare).
+ * Skipped for oddsWeighted, which already weights by odds, and when no odds were frozen.
+ */
+function applyUnderdogBonus(
+  result: ScoringResult,
+  outcomePoints: number,
+  outcome: "home" | "away" | "draw",
+  rules: ScoringRules,
+  context: ScoringContext
+): ScoringResult {
+  if (!rules.underdogBonus || !result.winningMatchWinner) return result;
+  if (getScoringStrategy(rules.scoringStrategy).requiresOdds) return result;
+  const multiplier = oddsMultiplier(
+    context.odds,
+    outcome,
+    rules.underdogMaxMultiplier ?? DEFAULT_UNDERDOG_MAX_MULTIPLIER
+  );
+  const bonus = Math.round(outcomePoints * (multiplier - 1));
+  return bonus > 0 ? { ...result, points: result.points + bonus } : result;
+}
+
+/** Whether settlement needs frozen 1X2 odds for a group with these rules. */
+export function rulesNeedOdds(
+  rules: Pick<ScoringRules, "scoringStrategy" | "underdogBonus">
+): boolean {
+  return (
+    !!rules.underdogBonus || getScoringStrategy(rules.scoringStrategy).requiresOdds
+  );
+}
+
+/** Sample 1X2 odds used by the scoring preview (home favourite). */
+const PREVIEW_SAMPLE_ODDS: OutcomeOdds = { home: 1.8, draw: 3.6, away: 4.5 };
+
+const PREVIEW_SAMPLES: Array<{ prediction: string; result: string }> = [
+  { prediction: "2:1", result: "2:1" },
+  { prediction: "1:0", result: "2:1" },
+  { prediction: "3:0", result: "2:1" },
+  { prediction: "1:1", result: "2:2" },
+  { prediction: "0:1", result: "0:2" },
+  { prediction: "1:2", result: "1:3" },
+  { prediction: "1:1", result: "2:1" },
+];
+
+export type ScoringPreviewRow = {
+  prediction: string;
+  result: string;
+  points: number;
+};
+
+/**
+ * Score a fixed set of sample predictions with the given rules, so the group
+ * creator can see what a strategy/config pays out before picking it.
+ */
+export function buildScoringPreview(rules: ScoringRules): ScoringPreviewRow[] {
+  const fullTimeRules: ScoringRules = { ...rules, koRoundMode: "FullTime" };
+  return PREVIEW_SAMPLES.map(({ prediction, result }) => {
+    const [home, away] = result.split(":").map(Number) as [number, number];
+    const { points } = calculateScore(
+      { prediction },
+      { homeScore90: home, awayScore90: away, state: "FT" },
+      fullTimeRules,
+      { odds: PREVIEW_SAMPLE_ODDS }
+    );
+    return { prediction, result, points };
+  });
 }
@@ -0,0 +1,85 @@
+// groups/seasons.ts
+// Pure helpers for groups continued across seasons. No DB, no side effects.
+//
+// A leagues-mode group can "continue into next season": a new group is created
+// for the next season of the same league and linked to the old one through
+// previousGroupId. The old group is archived with its final ranking frozen, and
+// the chain of groups feeds an all-time table.
+
+import type { ApiAllTimeTableItem } from "@repo/types";
+
+/** One member's final (or, for the current season, live) standing in a season. */
+export type SeasonStandingRow = {
+  userId: number;
+  username: string | null;
+  rank: number;
+  totalPoints: number;
+};
+
+export type SeasonStandings = {
+  /** Archived seasons count toward wins and best rank; the live one only adds points. */
+  archived: boolean;
+  rows: SeasonStandingRow[];
+};
+
+/**
+ * Whether a season starts after another one. Season dates are stored as
+ * "YYYY-MM-DD" strings, so they compare lexicographically.
+ */
+export function isLaterSeason(
+  candidate: { startDate: string },
+  current: { startDate: string }
+): boolean {
+  return candidate.startDate > current.startDate;
+}
+
+/**
+ * Sum every season of a chain into the all-time table.
+ * Sorted by total points, then season wins, then username; ties share a rank.
+ */
+export function buildAllTimeTable(
+  seasons: SeasonStandings[]
+): ApiAllTimeTableItem[] {
+  const byUser = new Map<number, Omit<ApiAllTimeTableItem, "rank">>();
+
+  for (const season of seasons) {
+    for (const row of season.rows) {
+      const item = byUser.get(row.userId) ?? {
+        userId: row.userId,
+        username: row.username,
+        totalPoints: 0,
+        seasonsPlayed: 0,
+        seasonWins: 0,
+        bestRank: null,
+      };
+      item.username = row.username ?? item.username;
+      item.totalPoints += row.totalPoints;
+      item.seasonsPlayed += 1;
+      if (season.archived) {
+        if (row.rank === 1) item.seasonWins += 1;
+        item.bestRank =
+          item.bestRank === null ? row.rank : Math.min(item.bestRank, row.rank);
+      }
+      byUser.set(row.userId, item);
+    }
+  }
+
+  const sorted = [...byUser.values()].sort((a, b) => {
+    if (b.totalPoints !== a.totalPoints) return b.totalPoints - a.totalPoints;
+    if (b.seasonWins !== a.seasonWins) return b.seasonWins - a.seasonWins;
+    return (a.username ?? "").localeCompare(b.username ?? "");
+  });
+
+  let rank = 0;
+  return sorted.map((item, index) => {
+    const prev = sorted[index - 1];
+    if (
+      !prev ||
+      prev.totalPoints !== item.totalPoints ||
+      prev.seasonWins !== item.seasonWins
+    ) {
+      rank = index + 1;
+    }
+    return { rank, ...item };
+  });
+}
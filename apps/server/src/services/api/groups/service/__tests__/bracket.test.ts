@@ -0,0 +1,262 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// --- מוקים ---
+
+const { mockAssertGroupCreator, mockAssertGroupMember, mockRepo, mockRanking } =
+  vi.hoisted(() => ({
+    mockAssertGroupCreator: vi.fn(
+      async (): Promise<unknown> => ({
+        status: "active",
+      })
+    ),
+    mockAssertGroupMember: vi.fn(async () => ({})),
+    mockRepo: {
+      findGroupBracket: vi.fn(async (): Promise<unknown> => null),
+      findActiveGroupBrackets: vi.fn(async (): Promise<unknown[]> => []),
+      findGroupFixturesForBracket: vi.fn(async (): Promise<unknown[]> => []),
+      findRoundPredictions: vi.fn(async (): Promise<unknown[]> => []),
+      findGroupRules: vi.fn(async () => null),
+      createGroupBracketInternal: vi.fn(),
+      saveBracketRoundInternal: vi.fn(async () => {}),
+      assignBracketRoundInternal: vi.fn(async () => {}),
+    },
+    mockRanking: vi.fn(async (): Promise<unknown[]> => []),
+  }));
+
+vi.mock("@repo/db", () => ({ prisma: {} }));
+
+vi.mock("../../permissions", () => ({
+  assertGroupCreator: mockAssertGroupCreator,
+  assertGroupMember: mockAssertGroupMember,
+}));
+
+vi.mock("../../repository", () => ({ repository: mockRepo }));
+
+vi.mock("../ranking", () => ({ getCoreRanking: mockRanking }));
+
+vi.mock("../../../../../logger", () => ({
+  getLogger: vi.fn(() => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+import { advanceGroupBrackets, startGroupBracket } from "../bracket";
+
+// 2026-03-07 12:00 UTC
+const BASE_TS = 1772884800;
+const ROUND_1 = "round:100:Regular Season:1";
+const ROUND_2 = "round:100:Regular Season:2";
+
+function fixture(
+  groupFixtureId: number,
+  round: string,
+  state: { started?: boolean; finished?: boolean } = {}
+) {
+  return {
+    groupFixtureId,
+    startTs: BASE_TS + groupFixtureId * 3600,
+    leagueId: 8,
+    seasonId: 100,
+    stage: "Regular Season",
+    round,
+    started: state.started ?? false,
+    finished: state.finished ?? false,
+  };
+}
+
+function match(
+  id: number,
+  roundIndex: number,
+  slot: number,
+  homeUserId: number | null,
+  awayUserId: number | null,
+  overrides: Record<string, unknown> = {}
+) {
+  return {
+    id,
+    roundIndex,
+    roundKey: ROUND_1,
+    roundLabel: "1",
+    slot,
+    homeUserId,
+    awayUserId,
+    homePoints: null,
+    awayPoints: null,
+    winnerUserId: null,
+    decidedAt: null,
+    homeUser: null,
+    awayUser: null,
+    ...overrides,
+  };
+}
+
+function prediction(userId: number, points: number, correctScore = false) {
+  return {
+    userId,
+    points: String(points),
+    winningCorrectScore: correctScore,
+    winningCorrectDifference: false,
+    winningMatchWinner: points > 0,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockAssertGroupCreator.mockResolvedValue({ status: "active" });
+  mockRepo.findGroupBracket.mockResolvedValue(null);
+});
+
+describe("startGroupBracket", () => {
+  it("מדרג את החברים לפי הטבלה ומתחיל בסיבוב הבא שלא התחיל", async () => {
+    mockRanking.mockResolvedValue([
+      { userId: 1 },
+      { userId: 2 },
+      { userId: 3 },
+    ]);
+    mockRepo.findGroupFixturesForBracket.mockResolvedValue([
+      fixture(1, "1", { started: true }),
+      fixture(2, "2"),
+    ]);
+    mockRepo.createGroupBracketInternal.mockResolvedValue({
+      status: "active",
+      championUserId: null,
+      matches: [match(10, 0, 0, 1, null), match(11, 0, 1, 2, 3)],
+    });
+
+    const result = await startGroupBracket(7, 1);
+
+    expect(mockRepo.createGroupBracketInternal).toHaveBeenCalledWith(7, {
+      roundIndex: 0,
+      roundKey: ROUND_2,
+      roundLabel: "2",
+      pairings: [
+        { slot: 0, homeUserId: 1, awayUserId: null },
+        { slot: 1, homeUserId: 2, awayUserId: 3 },
+      ],
+    });
+    expect(result.data?.roundCount).toBe(2);
+    expect(result.data?.rounds[0]?.matches).toHaveLength(2);
+  });
+
+  it("אי אפשר להתחיל פעמיים", async () => {
+    mockRepo.findGroupBracket.mockResolvedValue({ id: 1 });
+
+    await expect(startGroupBracket(7, 1)).rejects.toThrow(/already/);
+  });
+
+  it("דוחה קבוצה עם פחות משני חברים", async () => {
+    mockRanking.mockResolvedValue([{ userId: 1 }]);
+
+    await expect(startGroupBracket(7, 1)).rejects.toThrow(/two members/);
+  });
+
+  it("דוחה כשאין סיבוב שעוד לא התחיל", async () => {
+    mockRanking.mockResolvedValue([{ userId: 1 }, { userId: 2 }]);
+    mockRepo.findGroupFixturesForBracket.mockResolvedValue([
+      fixture(1, "1", { started: true }),
+    ]);
+
+    await expect(startGroupBracket(7, 1)).rejects.toThrow(/No upcoming round/);
+  });
+});
+
+describe("advanceGroupBrackets", () => {
+  it("לא מכריע סיבוב שעוד יש בו משחקים פתוחים", async () => {
+    mockRepo.findActiveGroupBrackets.mockResolvedValue([
+      { id: 5, groupId: 7, matches: [match(10, 0, 0, 1, 2)] },
+    ]);
+    mockRepo.findGroupFixturesForBracket.mockResolvedValue([
+      fixture(1, "1", { started: true, finished: true }),
+      fixture(2, "1", { started: true }),
+    ]);
+
+    await advanceGroupBrackets([7]);
+
+    expect(mockRepo.saveBracketRoundInternal).not.toHaveBeenCalled();
+  });
+
+  it("מעלה את מי שצבר יותר נקודות ומשבץ את הסיבוב הבא", async () => {
+    mockRepo.findActiveGroupBrackets.mockResolvedValue([
+      {
+        id: 5,
+        groupId: 7,
+        matches: [
+          match(10, 0, 0, 1, null, { winnerUserId: 1, decidedAt: new Date() }),
+          match(11, 0, 1, 2, 3),
+        ],
+      },
+    ]);
+    mockRepo.findGroupFixturesForBracket.mockResolvedValue([
+      fixture(1, "1", { started: true, finished: true }),
+      fixture(2, "2"),
+    ]);
+    mockRepo.findRoundPredictions.mockResolvedValue([
+      prediction(2, 1),
+      prediction(3, 3, true),
+    ]);
+
+    await advanceGroupBrackets([7]);
+
+    expect(mockRepo.findRoundPredictions).toHaveBeenCalledWith(7, [1]);
+    expect(mockRepo.saveBracketRoundInternal).toHaveBeenCalledWith({
+      bracketId: 5,
+      results: [{ matchId: 11, homePoints: 1, awayPoints: 3, winnerUserId: 3 }],
+      nextRound: {
+        roundIndex: 1,
+        roundKey: ROUND_2,
+        roundLabel: "2",
+        pairings: [{ slot: 0, homeUserId: 1, awayUserId: 3 }],
+      },
+      championUserId: null,
+    });
+  });
+
+  it("שוויון בנקודות מוכרע לפי מספר התוצאות המדויקות", async () => {
+    mockRepo.findActiveGroupBrackets.mockResolvedValue([
+      { id: 5, groupId: 7, matches: [match(10, 0, 0, 1, 2)] },
+    ]);
+    mockRepo.findGroupFixturesForBracket.mockResolvedValue([
+      fixture(1, "1", { started: true, finished: true }),
+    ]);
+    mockRepo.findRoundPredictions.mockResolvedValue([
+      prediction(1, 3),
+      prediction(2, 3, true),
+    ]);
+
+    await advanceGroupBrackets([7]);
+
+    expect(mockRepo.saveBracketRoundInternal).toHaveBeenCalledWith(
+      expect.objectContaining({ nextRound: null, championUserId: 2 })
+    );
+  });
+
+  it("משבץ סיבוב שחיכה למשחקים כשהם מסונכרנים", async () => {
+    mockRepo.findActiveGroupBrackets.mockResolvedValue([
+      {
+        id: 5,
+        groupId: 7,
+        matches: [
+          match(10, 0, 0, 1, 2, { winnerUserId: 1, decidedAt: new Date() }),
+          match(11, 1, 0, 1, 3, { roundKey: null, roundLabel: null }),
+        ],
+      },
+    ]);
+    mockRepo.findGroupFixturesForBracket.mockResolvedValue([
+      fixture(1, "1", { started: true, finished: true }),
+      fixture(2, "2"),
+    ]);
+
+    await advanceGroupBrackets([7]);
+
+    expect(mockRepo.assignBracketRoundInternal).toHaveBeenCalledWith(
+      5,
+      1,
+      ROUND_2,
+      "2"
+    );
+    expect(mockRepo.saveBracketRoundInternal).not.toHaveBeenCalled();
+  });
+});
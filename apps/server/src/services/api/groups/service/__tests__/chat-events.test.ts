@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// --- מוקים ---
+
+const { mockPrisma, mockLogActivity } = vi.hoisted(() => ({
+  mockPrisma: {
+    groupFixtures: { findMany: vi.fn() },
+    teams: { findMany: vi.fn() },
+    groupMessages: {
+      create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => ({
+        id: 1,
+        ...data,
+      })),
+    },
+  },
+  mockLogActivity: vi.fn(async () => {}),
+}));
+
+vi.mock("@repo/db", () => ({
+  prisma: mockPrisma,
+  Prisma: { DbNull: "DbNull" },
+}));
+
+// גוף ההודעה נבנה באמת, רק ה-payload והכרטיסים מדומים
+vi.mock("../chat", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../chat")>()),
+  toChatMessagePayload: vi.fn((message: unknown) => message),
+  getPredictionShareMessages: vi.fn(async () => []),
+}));
+
+vi.mock("../activity-log", () => ({ logActivity: mockLogActivity }));
+
+vi.mock("../../../../../logger", () => ({
+  getLogger: vi.fn(() => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+import { emitFixtureLiveEvents, type FixtureMatchEvent } from "../chat-events";
+import type { TypedIOServer } from "../../../../../types/socket";
+
+function fakeIo() {
+  const emit = vi.fn();
+  const to = vi.fn(() => ({ emit }));
+  return { io: { to } as unknown as TypedIOServer, to, emit };
+}
+
+function goal(overrides: Partial<FixtureMatchEvent> = {}): FixtureMatchEvent {
+  return {
+    fixtureId: 500,
+    teamId: 30,
+    type: "goal",
+    minute: 90,
+    extraMinute: 2,
+    playerName: "Salah",
+    ...overrides,
+  };
+}
+
+/** גופי הודעות המערכת שנוצרו, לפי קבוצה */
+function createdBodies() {
+  return mockPrisma.groupMessages.create.mock.calls.map(([{ data }]) => [
+    data.groupId,
+    data.body,
+  ]);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.groupFixtures.findMany.mockResolvedValue([
+    { groupId: 7, fixtureId: 500 },
+    { groupId: 8, fixtureId: 500 },
+    { groupId: 9, fixtureId: 600 },
+  ]);
+  mockPrisma.teams.findMany.mockResolvedValue([{ id: 30, name: "Liverpool" }]);
+});
+
+describe("emitFixtureLiveEvents — הכרזה על שערים בצ'אט", () => {
+  it("מכריז על שער בכל קבוצה שהמשחק שלה", async () => {
+    const { io, to } = fakeIo();
+
+    await emitFixtureLiveEvents([], io, [goal()]);
+
+    expect(createdBodies()).toEqual([
+      [7, "⚽ 90+2' goal — Salah (Liverpool)"],
+      [8, "⚽ 90+2' goal — Salah (Liverpool)"],
+    ]);
+    expect(to).toHaveBeenCalledWith("group:7");
+    expect(to).toHaveBeenCalledWith("group:8");
+    expect(to).not.toHaveBeenCalledWith("group:9");
+  });
+
+  it("שומר את פרטי האירוע ב-meta של ההודעה", async () => {
+    await emitFixtureLiveEvents([], undefined, [goal({ extraMinute: null })]);
+
+    expect(mockPrisma.groupMessages.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          type: "system_event",
+          body: "⚽ 90' goal — Salah (Liverpool)",
+          meta: {
+            eventType: "fixture_event",
+            fixtureId: 500,
+            type: "goal",
+            minute: 90,
+            extraMinute: null,
+            playerName: "Salah",
+            teamName: "Liverpool",
+          },
+        }),
+      })
+    );
+  });
+
+  it("שער עצמי, פנדל וכרטיס אדום מוכרזים; צהוב וחילוף לא", async () => {
+    await emitFixtureLiveEvents([], undefined, [
+      goal({ type: "own_goal", minute: 10, extraMinute: null }),
+      goal({ type: "yellow_card", minute: 20, extraMinute: null }),
+      goal({ type: "substitution", minute: 30, extraMinute: null }),
+      goal({ type: "penalty", minute: 40, extraMinute: null }),
+      goal({ type: "red_card", minute: 50, extraMinute: null, teamId: null }),
+    ]);
+
+    const bodies = createdBodies()
+      .filter(([groupId]) => groupId === 7)
+      .map(([, body]) => body);
+    expect(bodies).toEqual([
+      "⚽ 10' own goal — Salah (Liverpool)",
+      "⚽ 40' penalty goal — Salah (Liverpool)",
+      "🟥 50' red card — Salah",
+    ]);
+  });
+
+  it("בלי אירועים מוכרזים לא ניגש למסד", async () => {
+    await emitFixtureLiveEvents([], undefined, [
+      goal({ type: "substitution" }),
+    ]);
+
+    expect(mockPrisma.groupFixtures.findMany).not.toHaveBeenCalled();
+    expect(mockPrisma.groupMessages.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,474 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// --- מוקים ---
+
+const { mockAssertGroupMember, mockPrisma } = vi.hoisted(() => ({
+  mockAssertGroupMember: vi.fn(),
+  mockPrisma: {
+    groupMessages: {
+      findFirst: vi.fn(),
+      update: vi.fn(),
+      create: vi.fn(),
+      findMany: vi.fn(),
+    },
+    groups: { findUnique: vi.fn(async () => ({ status: "active" })) },
+    groupPredictions: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(async (): Promise<unknown[]> => []),
+    },
+    groupMessageReads: { upsert: vi.fn(async () => ({})) },
+    groupMessageReactions: {
+      findUnique: vi.fn(),
+      create: vi.fn(async () => ({})),
+      delete: vi.fn(async () => ({})),
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("@repo/db", () => ({
+  prisma: mockPrisma,
+  Prisma: { DbNull: "DbNull" },
+}));
+
+// isGroupAdminRole אמיתי, רק הגישה ל-DB מדומה
+vi.mock("../../permissions", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../permissions")>()),
+  assertGroupMember: mockAssertGroupMember,
+}));
+
+vi.mock("../../../../../logger", () => ({
+  getLogger: vi.fn(() => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+import {
+  editMessage,
+  deleteMessage,
+  toggleReaction,
+  toChatMessagePayload,
+  sharePrediction,
+  getMessages,
+  EDIT_WINDOW_MS,
+} from "../chat";
+
+function message(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 50,
+    createdAt: new Date(),
+    groupId: 7,
+    senderId: 3,
+    type: "user_message",
+    body: "שלום",
+    meta: null,
+    replyToId: null,
+    editedAt: null,
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+function withRelations(overrides: Record<string, unknown> = {}) {
+  return {
+    ...message(overrides),
+    sender: { id: 3, username: "dana", image: null },
+    replyTo: null,
+    reactions: [],
+    groups: { groupRules: { predictionVisibility: "after_kickoff" } },
+    ...overrides,
+  };
+}
+
+const HOUR = 60 * 60;
+const nowSec = () => Math.floor(Date.now() / 1000);
+
+/** prediction_share message of user 3 with the prediction relation loaded */
+function shareMessage(
+  fixture: Record<string, unknown> = {},
+  prediction: Record<string, unknown> = {},
+  meta: Record<string, unknown> = { fixtureId: 100, revealNow: false },
+  predictionVisibility = "after_kickoff"
+) {
+  return withRelations({
+    groups: { groupRules: { predictionVisibility } },
+    type: "prediction_share",
+    body: "Shared a prediction: Arsenal vs Chelsea",
+    meta,
+    predictionId: 9,
+    prediction: {
+      userId: 3,
+      prediction: "2:1",
+      isJoker: true,
+      points: "0",
+      settledAt: null,
+      groupFixtures: {
+        fixtures: {
+          id: 100,
+          startTs: nowSec() + HOUR,
+          state: "NS",
+          result: null,
+          homeScore90: null,
+          awayScore90: null,
+          homeTeam: { name: "Arsenal" },
+          awayTeam: { name: "Chelsea" },
+          ...fixture,
+        },
+      },
+      ...prediction,
+    },
+  });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockAssertGroupMember.mockResolvedValue({ role: "member" });
+});
+
+describe("editMessage", () => {
+  it("השולח עורך הודעה בתוך חלון העריכה", async () => {
+    mockPrisma.groupMessages.findFirst.mockResolvedValue(message());
+    mockPrisma.groupMessages.update.mockResolvedValue(
+      withRelations({ body: "מעודכן", editedAt: new Date() })
+    );
+
+    const result = await editMessage(7, 50, 3, " מעודכן ");
+
+    expect(mockPrisma.groupMessages.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ body: "מעודכן" }),
+      })
+    );
+    expect(result.editedAt).not.toBeNull();
+  });
+
+  it("אי אפשר לערוך אחרי שחלון העריכה נסגר", async () => {
+    mockPrisma.groupMessages.findFirst.mockResolvedValue(
+      message({ createdAt: new Date(Date.now() - EDIT_WINDOW_MS - 1000) })
+    );
+
+    await expect(editMessage(7, 50, 3, "מאוחר")).rejects.toThrow(
+      /no longer be edited/
+    );
+  });
+
+  it("אי אפשר לערוך הודעה של מישהו אחר", async () => {
+    mockPrisma.groupMessages.findFirst.mockResolvedValue(message());
+
+    await expect(editMessage(7, 50, 4, "לא שלי")).rejects.toThrow(
+      /your own/
+    );
+  });
+});
+
+describe("deleteMessage", () => {
+  it("מנהל מוחק הודעה של חבר אחר", async () => {
+    mockAssertGroupMember.mockResolvedValue({ role: "admin" });
+    mockPrisma.groupMessages.findFirst.mockResolvedValue(message());
+    mockPrisma.groupMessages.update.mockResolvedValue(
+      withRelations({ deletedAt: new Date() })
+    );
+
+    const result = await deleteMessage(7, 50, 2);
+
+    expect(result.body).toBe("");
+    expect(result.deletedAt).not.toBeNull();
+  });
+
+  it("חבר רגיל לא מוחק הודעה של מישהו אחר", async () => {
+    mockPrisma.groupMessages.findFirst.mockResolvedValue(message());
+
+    await expect(deleteMessage(7, 50, 4)).rejects.toThrow(/your own/);
+    expect(mockPrisma.groupMessages.update).not.toHaveBeenCalled();
+  });
+});
+
+describe("toggleReaction", () => {
+  it("מוסיף תגובה ומחזיר סיכום לפי אמוג'י", async () => {
+    mockPrisma.groupMessages.findFirst.mockResolvedValue(message());
+    mockPrisma.groupMessageReactions.findUnique.mockResolvedValue(null);
+    mockPrisma.groupMessageReactions.findMany.mockResolvedValue([
+      { emoji: "👍", userId: 3 },
+      { emoji: "🔥", userId: 4 },
+      { emoji: "👍", userId: 4 },
+    ]);
+
+    const reactions = await toggleReaction(7, 50, 4, "👍");
+
+    expect(mockPrisma.groupMessageReactions.create).toHaveBeenCalled();
+    expect(reactions).toEqual([
+      { emoji: "👍", count: 2, userIds: [3, 4] },
+      { emoji: "🔥", count: 1, userIds: [4] },
+    ]);
+  });
+
+  it("לחיצה שנייה מסירה את התגובה", async () => {
+    mockPrisma.groupMessages.findFirst.mockResolvedValue(message());
+    mockPrisma.groupMessageReactions.findUnique.mockResolvedValue({ id: 1 });
+    mockPrisma.groupMessageReactions.findMany.mockResolvedValue([]);
+
+    await toggleReaction(7, 50, 4, "👍");
+
+    expect(mockPrisma.groupMessageReactions.delete).toHaveBeenCalled();
+    expect(mockPrisma.groupMessageReactions.create).not.toHaveBeenCalled();
+  });
+});
+
+describe("toChatMessagePayload", () => {
+  it("הודעה שנמחקה לא חושפת תוכן ותגובות", () => {
+    const payload = toChatMessagePayload(
+      withRelations({
+        deletedAt: new Date(),
+        meta: { mentions: [] },
+        reactions: [{ emoji: "👍", userId: 4 }],
+      }) as never
+    );
+
+    expect(payload.body).toBe("");
+    expect(payload.meta).toBeNull();
+    expect(payload.reactions).toEqual([]);
+  });
+
+  it("ציטוט של הודעה שנמחקה מסומן כמחוק", () => {
+    const payload = toChatMessagePayload(
+      withRelations({
+        replyTo: {
+          id: 40,
+          body: "מקור",
+          deletedAt: new Date(),
+          sender: { id: 4, username: "noa" },
+        },
+      }) as never
+    );
+
+    expect(payload.replyTo).toEqual({
+      id: 40,
+      body: "",
+      deleted: true,
+      sender: { id: 4, username: "noa" },
+    });
+  });
+});
+
+describe("כרטיס ניחוש בצ'אט", () => {
+  it("לפני שריקת הפתיחה הניחוש מוסתר מאחרים וגלוי לשולח", () => {
+    const m = shareMessage() as never;
+
+    const forOthers = toChatMessagePayload(m, 4).prediction;
+    const forOwner = toChatMessagePayload(m, 3).prediction;
+
+    expect(forOthers).toMatchObject({
+      revealed: false,
+      prediction: null,
+      isJoker: false,
+      points: null,
+    });
+    expect(forOwner).toMatchObject({
+      revealed: false,
+      prediction: "2:1",
+      isJoker: true,
+    });
+  });
+
+  it("revealNow חושף את הניחוש מיד", () => {
+    const card = toChatMessagePayload(
+      shareMessage({}, {}, { fixtureId: 100, revealNow: true }) as never,
+      4
+    ).prediction;
+
+    expect(card).toMatchObject({ revealed: true, prediction: "2:1" });
+  });
+
+  it("אחרי שריקת הפתיחה הניחוש גלוי לכולם", () => {
+    const card = toChatMessagePayload(
+      shareMessage({ startTs: nowSec() - HOUR, state: "INPLAY_1ST_HALF" }) as never
+    ).prediction;
+
+    expect(card).toMatchObject({ revealed: true, prediction: "2:1" });
+  });
+
+  it("אחרי סגירה מוצגות הנקודות שנצברו", () => {
+    const card = toChatMessagePayload(
+      shareMessage(
+        {
+          startTs: nowSec() - 3 * HOUR,
+          state: "FT",
+          result: "2-1",
+          homeScore90: 2,
+          awayScore90: 1,
+        },
+        { points: "6", settledAt: new Date() }
+      ) as never,
+      4
+    ).prediction;
+
+    expect(card).toMatchObject({ points: 6, homeScore: 2, awayScore: 1 });
+  });
+
+  it("always: הניחוש גלוי לכולם עוד לפני שריקת הפתיחה", () => {
+    const card = toChatMessagePayload(
+      shareMessage({}, {}, undefined, "always") as never,
+      4
+    ).prediction;
+
+    expect(card).toMatchObject({ revealed: true, prediction: "2:1" });
+  });
+
+  it("after_own_prediction: גלוי רק למי שניחש את אותו משחק", () => {
+    const m = shareMessage({}, {}, undefined, "after_own_prediction") as never;
+
+    const notPredicted = toChatMessagePayload(m, 4).prediction;
+    const predicted = toChatMessagePayload(m, 4, new Set([100])).prediction;
+
+    expect(notPredicted).toMatchObject({ revealed: false, prediction: null });
+    expect(predicted).toMatchObject({ revealed: false, prediction: "2:1" });
+  });
+
+  it("after_kickoff: ניחוש של הצופה לא חושף לפני שריקת הפתיחה", () => {
+    const card = toChatMessagePayload(
+      shareMessage() as never,
+      4,
+      new Set([100])
+    ).prediction;
+
+    expect(card).toMatchObject({ revealed: false, prediction: null });
+  });
+});
+
+describe("getMessages", () => {
+  it("after_own_prediction: הכרטיס נחשף לצופה שניחש את המשחק", async () => {
+    mockPrisma.groupMessages.findMany.mockResolvedValue([
+      shareMessage({}, {}, undefined, "after_own_prediction"),
+    ]);
+    mockPrisma.groupPredictions.findMany.mockResolvedValue([
+      { groupFixtures: { fixtureId: 100 } },
+    ]);
+
+    const [message] = await getMessages(7, 4);
+
+    expect(mockPrisma.groupPredictions.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { groupId: 7, userId: 4, groupFixtures: { fixtureId: { in: [100] } } },
+      })
+    );
+    expect(message?.prediction?.prediction).toBe("2:1");
+  });
+});
+
+describe("sharePrediction", () => {
+  it("אי אפשר לשתף בלי ניחוש למשחק", async () => {
+    mockPrisma.groupPredictions.findFirst.mockResolvedValue(null);
+
+    await expect(sharePrediction(7, 3, 100, false)).rejects.toThrow(
+      /no prediction/
+    );
+    expect(mockPrisma.groupMessages.create).not.toHaveBeenCalled();
+  });
+
+  function fakeIo() {
+    const emitted: Array<{
+      room: string | string[];
+      except?: string[];
+      payload: unknown;
+    }> = [];
+    const io = {
+      to: (room: string | string[]) => ({
+        emit: (_: string, payload: unknown) => emitted.push({ room, payload }),
+        except: (except: string[]) => ({
+          emit: (_: string, payload: unknown) =>
+            emitted.push({ room, except, payload }),
+        }),
+      }),
+    };
+    return { io, emitted };
+  }
+
+  function mockShare(predictionVisibility = "after_kickoff") {
+    mockPrisma.groupPredictions.findFirst.mockResolvedValue({
+      id: 9,
+      groupFixtures: {
+        fixtures: { homeTeam: { name: "Arsenal" }, awayTeam: { name: "Chelsea" } },
+      },
+    });
+    mockPrisma.groupMessages.create.mockResolvedValue(
+      shareMessage({}, {}, undefined, predictionVisibility)
+    );
+  }
+
+  it("שולח לקבוצה כרטיס מוסתר ולשולח כרטיס גלוי", async () => {
+    mockShare();
+    const { io, emitted } = fakeIo();
+
+    const result = await sharePrediction(7, 3, 100, false, io as never);
+
+    expect(mockPrisma.groupMessages.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          type: "prediction_share",
+          predictionId: 9,
+          meta: { fixtureId: 100, revealNow: false },
+        }),
+      })
+    );
+    expect(result.prediction?.prediction).toBe("2:1");
+    expect(mockPrisma.groupPredictions.findMany).not.toHaveBeenCalled();
+    expect(emitted).toEqual([
+      expect.objectContaining({
+        room: "group:7",
+        except: ["user:3"],
+        payload: expect.objectContaining({
+          prediction: expect.objectContaining({ prediction: null }),
+        }),
+      }),
+      expect.objectContaining({
+        room: "user:3",
+        payload: expect.objectContaining({
+          prediction: expect.objectContaining({ prediction: "2:1" }),
+        }),
+      }),
+    ]);
+  });
+
+  it("always: כל הקבוצה מקבלת כרטיס גלוי", async () => {
+    mockShare("always");
+    const { io, emitted } = fakeIo();
+
+    await sharePrediction(7, 3, 100, false, io as never);
+
+    expect(emitted[0]).toMatchObject({
+      room: "group:7",
+      payload: { prediction: { prediction: "2:1" } },
+    });
+  });
+
+  it("after_own_prediction: מי שניחש את המשחק מקבל כרטיס גלוי בחדר האישי", async () => {
+    mockShare("after_own_prediction");
+    mockPrisma.groupPredictions.findMany.mockResolvedValue([
+      { userId: 3 },
+      { userId: 5 },
+    ]);
+    const { io, emitted } = fakeIo();
+
+    await sharePrediction(7, 3, 100, false, io as never);
+
+    expect(emitted).toEqual([
+      expect.objectContaining({
+        room: "group:7",
+        except: ["user:3", "user:5"],
+        payload: expect.objectContaining({
+          prediction: expect.objectContaining({ prediction: null }),
+        }),
+      }),
+      expect.objectContaining({
+        room: ["user:5"],
+        payload: expect.objectContaining({
+          prediction: expect.objectContaining({ prediction: "2:1" }),
+        }),
+      }),
+      expect.objectContaining({ room: "user:3" }),
+    ]);
+  });
+});
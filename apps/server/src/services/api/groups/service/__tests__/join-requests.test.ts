@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// --- מוקים ---
+
+const {
+  mockAssertGroupAdmin,
+  mockRepo,
+  mockTx,
+  mockPrisma,
+  mockPush,
+  mockJoined,
+} = vi.hoisted(() => {
+  const mockTx = {
+    groupMembers: {
+      findUnique: vi.fn(),
+      count: vi.fn(),
+      update: vi.fn(async () => ({})),
+    },
+    groupRules: { findUnique: vi.fn() },
+  };
+  return {
+    mockAssertGroupAdmin: vi.fn(),
+    mockRepo: {
+      findGroupMember: vi.fn(),
+      updateGroupMember: vi.fn(async () => ({})),
+      findPendingGroupMembersWithUsers: vi.fn(),
+    },
+    mockTx,
+    mockPrisma: {
+      userActivityEvents: { create: vi.fn(async () => ({})) },
+      $transaction: vi.fn(async (fn: (tx: typeof mockTx) => unknown) =>
+        fn(mockTx)
+      ),
+    },
+    mockPush: vi.fn(async () => {}),
+    mockJoined: vi.fn(async () => {}),
+  };
+});
+
+vi.mock("@repo/db", () => ({ prisma: mockPrisma }));
+
+vi.mock("../../permissions", () => ({
+  assertGroupAdmin: mockAssertGroupAdmin,
+}));
+
+vi.mock("../../repository", () => ({ repository: mockRepo }));
+
+vi.mock("../chat-events", () => ({ emitMemberJoinedEvent: mockJoined }));
+
+vi.mock("../../../../push/push.service", () => ({
+  sendPushToUsers: mockPush,
+}));
+
+vi.mock("../../../../../lib/cache-invalidation", () => ({
+  invalidateRankingCache: vi.fn(async () => {}),
+}));
+
+vi.mock("../../../../../logger", () => ({
+  getLogger: vi.fn(() => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+import {
+  getJoinRequests,
+  acceptJoinRequest,
+  rejectJoinRequest,
+} from "../join-requests";
+
+const GROUP = {
+  id: 7,
+  name: "Friends",
+  creatorId: 1,
+  status: "active",
+  isOfficial: false,
+};
+
+function pending(userId: number) {
+  return { id: 100 + userId, groupId: 7, userId, role: "member", status: "pending" };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockAssertGroupAdmin.mockResolvedValue({ group: GROUP, role: "admin" });
+});
+
+describe("getJoinRequests", () => {
+  it("מחזיר בקשות ממתינות עם שם משתמש", async () => {
+    mockRepo.findPendingGroupMembersWithUsers.mockResolvedValue({
+      members: [{ userId: 5, updatedAt: new Date("2026-10-01T10:00:00Z") }],
+      users: [{ id: 5, username: "dana", image: null }],
+    });
+
+    const result = await getJoinRequests(7, 2);
+
+    expect(mockAssertGroupAdmin).toHaveBeenCalledWith(7, 2);
+    expect(result.data).toEqual([
+      {
+        userId: 5,
+        username: "dana",
+        image: null,
+        requestedAt: "2026-10-01T10:00:00.000Z",
+      },
+    ]);
+  });
+});
+
+describe("acceptJoinRequest", () => {
+  it("מאשר בקשה, מצרף את המשתמש ומודיע לו", async () => {
+    mockTx.groupMembers.findUnique.mockResolvedValue(pending(5));
+    mockTx.groupRules.findUnique.mockResolvedValue({ maxMembers: 10 });
+    mockTx.groupMembers.count.mockResolvedValue(3);
+
+    await acceptJoinRequest(7, 2, 5);
+
+    expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(mockTx.groupMembers.update).toHaveBeenCalledWith({
+      where: { id: 105 },
+      data: { status: "joined" },
+    });
+    expect(mockJoined).toHaveBeenCalledWith(7, 5, undefined);
+    expect(mockPrisma.userActivityEvents.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 5,
+        eventType: "join_request_approved",
+      }),
+    });
+    expect(mockPush).toHaveBeenCalledWith([5], expect.anything());
+  });
+
+  it("נכשל כשהקבוצה מלאה", async () => {
+    mockTx.groupMembers.findUnique.mockResolvedValue(pending(5));
+    mockTx.groupRules.findUnique.mockResolvedValue({ maxMembers: 3 });
+    mockTx.groupMembers.count.mockResolvedValue(3);
+
+    await expect(acceptJoinRequest(7, 2, 5)).rejects.toThrow(/maximum/);
+    expect(mockTx.groupMembers.update).not.toHaveBeenCalled();
+    expect(mockJoined).not.toHaveBeenCalled();
+  });
+
+  it("נכשל כשאין בקשה ממתינה", async () => {
+    mockTx.groupMembers.findUnique.mockResolvedValue({
+      ...pending(5),
+      status: "joined",
+    });
+
+    await expect(acceptJoinRequest(7, 2, 5)).rejects.toThrow(/No pending/);
+    expect(mockTx.groupMembers.update).not.toHaveBeenCalled();
+  });
+
+  it("כשל בשליחת push לא מכשיל את האישור", async () => {
+    mockTx.groupMembers.findUnique.mockResolvedValue(pending(5));
+    mockTx.groupRules.findUnique.mockResolvedValue(null);
+    mockTx.groupMembers.count.mockResolvedValue(0);
+    mockPush.mockRejectedValueOnce(new Error("push down"));
+
+    await expect(acceptJoinRequest(7, 2, 5)).resolves.toEqual({
+      success: true,
+    });
+  });
+});
+
+describe("rejectJoinRequest", () => {
+  it("דוחה בקשה ומודיע למבקש", async () => {
+    mockRepo.findGroupMember.mockResolvedValue(pending(5));
+
+    await rejectJoinRequest(7, 2, 5);
+
+    expect(mockRepo.updateGroupMember).toHaveBeenCalledWith(105, {
+      status: "left",
+    });
+    expect(mockJoined).not.toHaveBeenCalled();
+    expect(mockPrisma.userActivityEvents.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ eventType: "join_request_rejected" }),
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// --- מוקים ---
+
+const { mockAssertGroupAdmin, mockAssertGroupExists, mockRepo, mockEmit } =
+  vi.hoisted(() => ({
+    mockAssertGroupAdmin: vi.fn(),
+    mockAssertGroupExists: vi.fn(),
+    mockRepo: {
+      findGroupMember: vi.fn(),
+      updateGroupMember: vi.fn(async () => ({})),
+      transferGroupOwnership: vi.fn(async () => ({})),
+    },
+    mockEmit: vi.fn(async () => {}),
+  }));
+
+vi.mock("@repo/db", () => ({ prisma: {} }));
+
+// canModerate אמיתי, רק הגישה ל-DB מדומה
+vi.mock("../../permissions", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../permissions")>()),
+  assertGroupAdmin: mockAssertGroupAdmin,
+  assertGroupExists: mockAssertGroupExists,
+}));
+
+vi.mock("../../repository", () => ({ repository: mockRepo }));
+
+vi.mock("../chat-events", () => ({ emitModerationEvent: mockEmit }));
+
+vi.mock("../../../../../lib/cache-invalidation", () => ({
+  invalidateRankingCache: vi.fn(async () => {}),
+}));
+
+vi.mock("../../../../../logger", () => ({
+  getLogger: vi.fn(() => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+import {
+  removeGroupMember,
+  banGroupMember,
+  setGroupMemberRole,
+  transferGroupOwnership,
+} from "../moderation";
+
+const GROUP = { id: 7, creatorId: 1 };
+
+function member(userId: number, role: string, status = "joined") {
+  return { id: 100 + userId, groupId: 7, userId, role, status };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("removeGroupMember", () => {
+  it("מנהל מסיר חבר רגיל ומחזיר אותו לתפקיד חבר", async () => {
+    mockAssertGroupAdmin.mockResolvedValue({ group: GROUP, role: "admin" });
+    mockRepo.findGroupMember.mockResolvedValue(member(3, "member"));
+
+    await removeGroupMember(7, 2, 3);
+
+    expect(mockRepo.updateGroupMember).toHaveBeenCalledWith(103, {
+      status: "left",
+      role: "member",
+    });
+    expect(mockEmit).toHaveBeenCalledWith(7, "member_removed", 2, 3, undefined);
+  });
+
+  it("מנהל לא יכול להסיר מנהל אחר", async () => {
+    mockAssertGroupAdmin.mockResolvedValue({ group: GROUP, role: "admin" });
+    mockRepo.findGroupMember.mockResolvedValue(member(4, "admin"));
+
+    await expect(removeGroupMember(7, 2, 4)).rejects.toThrow(/cannot moderate/);
+    expect(mockRepo.updateGroupMember).not.toHaveBeenCalled();
+  });
+
+  it("אי אפשר להסיר את הבעלים", async () => {
+    mockAssertGroupAdmin.mockResolvedValue({ group: GROUP, role: "admin" });
+    mockRepo.findGroupMember.mockResolvedValue(member(1, "owner"));
+
+    await expect(removeGroupMember(7, 2, 1)).rejects.toThrow();
+  });
+
+  it("אי אפשר להסיר את עצמך", async () => {
+    await expect(removeGroupMember(7, 2, 2)).rejects.toThrow(/yourself/);
+  });
+});
+
+describe("banGroupMember", () => {
+  it("הבעלים חוסם מנהל", async () => {
+    mockAssertGroupAdmin.mockResolvedValue({ group: GROUP, role: "owner" });
+    mockRepo.findGroupMember.mockResolvedValue(member(4, "admin"));
+
+    await banGroupMember(7, 1, 4);
+
+    expect(mockRepo.updateGroupMember).toHaveBeenCalledWith(104, {
+      status: "banned",
+      role: "member",
+    });
+    expect(mockEmit).toHaveBeenCalledWith(7, "member_banned", 1, 4, undefined);
+  });
+});
+
+describe("setGroupMemberRole", () => {
+  it("מנהל מקדם חבר למנהל", async () => {
+    mockAssertGroupAdmin.mockResolvedValue({ group: GROUP, role: "admin" });
+    mockRepo.findGroupMember.mockResolvedValue(member(3, "member"));
+
+    await setGroupMemberRole(7, 2, 3, "admin");
+
+    expect(mockRepo.updateGroupMember).toHaveBeenCalledWith(103, { role: "admin" });
+    expect(mockEmit).toHaveBeenCalledWith(7, "member_promoted", 2, 3, undefined);
+  });
+
+  it("רק הבעלים מוריד מנהל לחבר", async () => {
+    mockAssertGroupAdmin.mockResolvedValue({ group: GROUP, role: "admin" });
+    mockRepo.findGroupMember.mockResolvedValue(member(4, "admin"));
+    await expect(setGroupMemberRole(7, 2, 4, "member")).rejects.toThrow();
+
+    mockAssertGroupAdmin.mockResolvedValue({ group: GROUP, role: "owner" });
+    await setGroupMemberRole(7, 1, 4, "member");
+    expect(mockEmit).toHaveBeenCalledWith(7, "member_demoted", 1, 4, undefined);
+  });
+});
+
+describe("transferGroupOwnership", () => {
+  it("הבעלים מעביר בעלות לחבר בקבוצה", async () => {
+    mockAssertGroupExists.mockResolvedValue(GROUP);
+    mockRepo.findGroupMember.mockResolvedValue(member(3, "member"));
+
+    await transferGroupOwnership(7, 1, 3);
+
+    expect(mockRepo.transferGroupOwnership).toHaveBeenCalledWith(7, 1, 3);
+    expect(mockEmit).toHaveBeenCalledWith(7, "ownership_transferred", 1, 3, undefined);
+  });
+
+  it("מנהל שאינו הבעלים לא יכול להעביר בעלות", async () => {
+    mockAssertGroupExists.mockResolvedValue(GROUP);
+
+    await expect(transferGroupOwnership(7, 2, 3)).rejects.toThrow(/owner/);
+    expect(mockRepo.transferGroupOwnership).not.toHaveBeenCalled();
+  });
+
+  it("לא ניתן להעביר בעלות למי שעזב את הקבוצה", async () => {
+    mockAssertGroupExists.mockResolvedValue(GROUP);
+    mockRepo.findGroupMember.mockResolvedValue(member(3, "member", "left"));
+
+    await expect(transferGroupOwnership(7, 1, 3)).rejects.toThrow(/not a member/);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// --- מוקים ---
+
+const { mockAssertGroupMember, mockRepo } = vi.hoisted(() => ({
+  mockAssertGroupMember: vi.fn(async () => ({})),
+  mockRepo: {
+    findGroupMembersWithUsers: vi.fn(async () => ({
+      members: [
+        { userId: 1, role: "owner", createdAt: new Date() },
+        { userId: 2, role: "member", createdAt: new Date() },
+      ],
+      users: [
+        { id: 1, username: "alice" },
+        { id: 2, username: "bob" },
+      ],
+    })),
+    findRankingSnapshots: vi.fn(async (): Promise<unknown[]> => []),
+  },
+}));
+
+vi.mock("@repo/db", () => ({ prisma: {} }));
+
+vi.mock("../../permissions", () => ({
+  assertGroupMember: mockAssertGroupMember,
+}));
+
+vi.mock("../../repository", () => ({ repository: mockRepo }));
+
+import { getRankingHistory } from "../ranking-history";
+
+const AT = new Date("2026-10-19T12:00:00Z");
+
+describe("getRankingHistory", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("מחזיר סדרה לכל חבר עם שם משתמש", async () => {
+    mockRepo.findRankingSnapshots.mockResolvedValueOnce([
+      { fixtureId: 10, userId: 1, rank: 1, totalPoints: 3, createdAt: AT },
+      { fixtureId: 10, userId: 2, rank: 2, totalPoints: 0, createdAt: AT },
+    ]);
+
+    const result = await getRankingHistory(5, 1);
+
+    expect(mockAssertGroupMember).toHaveBeenCalledWith(5, 1);
+    expect(mockRepo.findRankingSnapshots).toHaveBeenCalledWith(5, [1, 2]);
+    expect(result.data.steps).toEqual([
+      { fixtureId: 10, at: AT.toISOString() },
+    ]);
+    expect(result.data.series).toEqual([
+      { userId: 1, username: "alice", ranks: [1], totalPoints: [3] },
+      { userId: 2, username: "bob", ranks: [2], totalPoints: [0] },
+    ]);
+  });
+
+  it("מסנן משתמשים שאינם חברים בקבוצה", async () => {
+    await getRankingHistory(5, 1, { userIds: [2, 99] });
+
+    expect(mockRepo.findRankingSnapshots).toHaveBeenCalledWith(5, [2]);
+  });
+});
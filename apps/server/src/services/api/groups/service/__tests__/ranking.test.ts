@@ -3,10 +3,47 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 // --- מוקים ---
 
 // vi.hoisted נותן למשתנה להיות זמין בתוך vi.mock שעולה לתחילת הקובץ
-const { mockGetOrSet } = vi.hoisted(() => ({
+const { mockGetOrSet, mockOutrightRows, mockRankRows } = vi.hoisted(() => ({
   mockGetOrSet: vi.fn(
     async (_key: string, _ttl: number, factory: () => Promise<unknown>) => factory()
   ),
+  // נקודות הימורי עונה (שאילתה נפרדת)
+  mockOutrightRows: [] as Array<{ user_id: number; outright_points: string }>,
+  // שורות הדירוג מ-SQL
+  mockRankRows: [
+    {
+      user_id: 1,
+      username: "alice",
+      total_points: "15",
+      prediction_count: "5",
+      correct_score_count: "2",
+      correct_difference_count: "1",
+      correct_outcome_count: "2",
+    },
+    {
+      user_id: 2,
+      username: "bob",
+      total_points: "10",
+      prediction_count: "5",
+      correct_score_count: "1",
+      correct_difference_count: "0",
+      correct_outcome_count: "3",
+    },
+    {
+      user_id: 3,
+      username: "charlie",
+      total_points: "15",
+      prediction_count: "5",
+      correct_score_count: "2",
+      correct_difference_count: "1",
+      correct_outcome_count: "1",
+    },
+  ],
+}));
+
+// נקודות ניחושי "מי עולה" בשלבי נוקאאוט של שני משחקים
+const { mockAdvanceRows } = vi.hoisted(() => ({
+  mockAdvanceRows: [] as Array<{ user_id: number; advance_points: string }>,
 }));
 
 vi.mock("../../../../../lib/cache", () => ({
@@ -17,40 +54,46 @@ vi.mock("../../../../../lib/cache", () => ({
 }));
 
 vi.mock("@repo/db", () => ({
+  // Prisma.sql מחזיר את הטקסט והערכים, כדי שהמוק יסנן לפי תת-קבוצת חברים
+  Prisma: {
+    sql: (strings: TemplateStringsArray, ...values: unknown[]) => ({
+      text: strings.join("?"),
+      values,
+    }),
+    join: (values: unknown[]) => values,
+    empty: null,
+  },
   prisma: {
-    $queryRaw: vi.fn(async () => [
-      {
-        user_id: 1,
-        username: "alice",
-        total_points: "15",
-        prediction_count: "5",
-        correct_score_count: "2",
-        correct_difference_count: "1",
-        correct_outcome_count: "2",
-      },
-      {
-        user_id: 2,
-        username: "bob",
-        total_points: "10",
-        prediction_count: "5",
-        correct_score_count: "1",
-        correct_difference_count: "0",
-        correct_outcome_count: "3",
-      },
-      {
-        user_id: 3,
-        username: "charlie",
-        total_points: "15",
-        prediction_count: "5",
-        correct_score_count: "2",
-        correct_difference_count: "1",
-        correct_outcome_count: "1",
-      },
-    ]),
+    $queryRaw: vi.fn(
+      async (strings: TemplateStringsArray, ...values: unknown[]) => {
+        if (strings.join("").includes("group_outright_picks")) {
+          return mockOutrightRows;
+        }
+        if (strings.join("").includes("group_tie_picks")) {
+          return mockAdvanceRows;
+        }
+        const subsetFilter = values.find(
+          (v): v is { text: string; values: number[][] } =>
+            v != null &&
+            typeof v === "object" &&
+            "text" in v &&
+            String(v.text).includes("gp.user_id")
+        );
+        const subset = subsetFilter?.values[0];
+        return mockRankRows.filter((r) => !subset || subset.includes(r.user_id));
+      }
+    ),
     rankingSnapshots: {
       findFirst: vi.fn(async () => null),
       findMany: vi.fn(async () => []),
     },
+    // מצב חי: משחקים בזמן אמת וניחושים שטרם נסלקו
+    groupFixtures: {
+      findMany: vi.fn(async () => []),
+    },
+    groupPredictions: {
+      findMany: vi.fn(async () => []),
+    },
   },
 }));
 
@@ -77,6 +120,11 @@ vi.mock("../../repository", () => ({
     findGroupRules: vi.fn(async () => ({
       nudgeEnabled: false,
       nudgeWindowMinutes: null,
+      predictionMode: "CorrectScore",
+      onTheNosePoints: 3,
+      correctDifferencePoints: 2,
+      outcomePoints: 1,
+      koRoundMode: "FullTime",
     })),
     findGroupFixturesWithFixtureDetails: vi.fn(async () => []),
     findGroupPredictionUserIdsByGroupFixtureIds: vi.fn(async () => []),
@@ -97,10 +145,17 @@ vi.mock("../../../../../logger", () => ({
   })),
 }));
 
-import { getGroupRanking } from "../ranking";
+import { prisma } from "@repo/db";
+import {
+  getFixtureScopedRanking,
+  getGroupRanking,
+  getMemberSubsetRanking,
+} from "../ranking";
 
 beforeEach(() => {
   vi.clearAllMocks();
+  mockOutrightRows.length = 0;
+  mockAdvanceRows.length = 0;
 });
 
 describe("getGroupRanking", () => {
@@ -170,3 +225,172 @@ describe("getGroupRanking — שוויון עם הפרש נכון", () => {
     expect(topTwo.map((r) => r.username)).toEqual(["alice", "charlie"]);
   });
 });
+
+describe("getGroupRanking — הימורי עונה", () => {
+  it("מוסיף נקודות הימורי עונה לסך הנקודות ומחזיר אותן בנפרד", async () => {
+    mockOutrightRows.push(
+      { user_id: 2, outright_points: "8" },
+      { user_id: 4, outright_points: "12" }
+    );
+    const result = await getGroupRanking(7, 1);
+    const bob = result.data.find((r) => r.username === "bob")!;
+    const dave = result.data.find((r) => r.username === "dave")!;
+
+    // bob: 10 + 8, dave (בלי ניחושים): 0 + 12
+    expect(bob.totalPoints).toBe(18);
+    expect(bob.outrightPoints).toBe(8);
+    expect(dave.totalPoints).toBe(12);
+    expect(dave.outrightPoints).toBe(12);
+    expect(result.data[0]!.username).toBe("bob");
+  });
+
+  it("מוסיף נקודות ניחושי מי עולה לסך הנקודות ומחזיר אותן בנפרד", async () => {
+    mockOutrightRows.push({ user_id: 2, outright_points: "8" });
+    mockAdvanceRows.push({ user_id: 2, advance_points: "3" });
+    const result = await getGroupRanking(7, 1);
+    const bob = result.data.find((r) => r.username === "bob")!;
+
+    // bob: 10 + 8 + 3
+    expect(bob.totalPoints).toBe(21);
+    expect(bob.outrightPoints).toBe(8);
+    expect(bob.advancePoints).toBe(3);
+  });
+});
+
+describe("getGroupRanking — מצב חי", () => {
+  function mockLiveFixture() {
+    // משחק בזמן אמת 2:0
+    vi.mocked(prisma.groupFixtures.findMany).mockResolvedValueOnce([
+      {
+        id: 50,
+        frozenOdds: null,
+        fixtures: {
+          homeScore90: 2,
+          awayScore90: 0,
+          homeScoreET: null,
+          awayScoreET: null,
+          penHome: null,
+          penAway: null,
+          firstScoringTeam: "home",
+        },
+      },
+    ] as never);
+    vi.mocked(prisma.groupPredictions.findMany).mockResolvedValueOnce([
+      // bob פגע בתוצאה עם ג'וקר: 3 × 2
+      {
+        userId: 2,
+        groupFixtureId: 50,
+        prediction: "2:0",
+        isJoker: true,
+        bttsPick: null,
+        overUnderPick: null,
+        firstTeamToScorePick: null,
+      },
+      {
+        userId: 1,
+        groupFixtureId: 50,
+        prediction: "0:1",
+        isJoker: false,
+        bttsPick: null,
+        overUnderPick: null,
+        firstTeamToScorePick: null,
+      },
+    ] as never);
+  }
+
+  it("מוסיף נקודות זמניות ומדרג מחדש", async () => {
+    mockLiveFixture();
+    const result = await getGroupRanking(7, 1, "live");
+
+    expect(result.mode).toBe("live");
+    expect(result.data[0]).toMatchObject({
+      username: "bob",
+      rank: 1,
+      totalPoints: 16,
+      provisionalPoints: 6,
+      settledRank: 3,
+      provisionalRankChange: 2,
+    });
+    const alice = result.data.find((r) => r.username === "alice")!;
+    expect(alice).toMatchObject({
+      rank: 2,
+      totalPoints: 15,
+      provisionalPoints: 0,
+      provisionalRankChange: -1,
+    });
+  });
+
+  it("משתמש בקאש נפרד עם זמן חיים קצר", async () => {
+    mockLiveFixture();
+    await getGroupRanking(7, 1, "live");
+
+    expect(mockGetOrSet).toHaveBeenCalledWith("7", 120, expect.any(Function));
+    expect(mockGetOrSet).toHaveBeenCalledWith("7", 30, expect.any(Function));
+  });
+
+  it("מצב רגיל לא מחשב נקודות זמניות", async () => {
+    const result = await getGroupRanking(7, 1);
+
+    expect(result.mode).toBe("settled");
+    expect(prisma.groupFixtures.findMany).not.toHaveBeenCalled();
+    expect(result.data[0]!.provisionalPoints).toBeUndefined();
+  });
+});
+
+describe("getMemberSubsetRanking", () => {
+  it("מדרג רק את חברי תת-הליגה", async () => {
+    const items = await getMemberSubsetRanking(7, [2, 3, 4]);
+
+    expect(items.map((r) => [r.username, r.rank])).toEqual([
+      ["charlie", 1],
+      ["bob", 2],
+      ["dave", 3],
+    ]);
+    expect(mockGetOrSet).not.toHaveBeenCalled();
+  });
+
+  it("מתרגם את הדירוג הקודם של כל הקבוצה לדירוג בתוך תת-הליגה", async () => {
+    vi.mocked(prisma.rankingSnapshots.findFirst).mockResolvedValueOnce({
+      fixtureId: 50,
+      createdAt: new Date(),
+    } as never);
+    vi.mocked(prisma.rankingSnapshots.findMany).mockResolvedValueOnce([
+      { userId: 1, rank: 1 },
+      { userId: 2, rank: 2 },
+      { userId: 3, rank: 3 },
+      { userId: 4, rank: 4 },
+    ] as never);
+
+    const items = await getMemberSubsetRanking(7, [2, 3]);
+
+    expect(items).toMatchObject([
+      { username: "charlie", rank: 1, previousRank: 2, rankChange: 1 },
+      { username: "bob", rank: 2, previousRank: 1, rankChange: -1 },
+    ]);
+  });
+
+  it("תת-ליגה ריקה מחזירה דירוג ריק", async () => {
+    expect(await getMemberSubsetRanking(7, [])).toEqual([]);
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+});
+
+describe("getFixtureScopedRanking", () => {
+  it("מסנן לפי משחקי התקופה ולא כולל הימורי עונה או שינויי דירוג", async () => {
+    mockOutrightRows.push({ user_id: 2, outright_points: "10" });
+
+    const items = await getFixtureScopedRanking(7, [11, 12]);
+
+    const rankQuery = vi
+      .mocked(prisma.$queryRaw)
+      .mock.calls.find(([strings]) =>
+        (strings as TemplateStringsArray).join("").includes("group_predictions")
+      );
+    expect(rankQuery).toContainEqual(
+      expect.objectContaining({ values: [[11, 12]] })
+    );
+    expect(items.find((r) => r.userId === 2)?.outrightPoints).toBe(0);
+    expect(prisma.rankingSnapshots.findFirst).not.toHaveBeenCalled();
+    expect(mockGetOrSet).not.toHaveBeenCalled();
+  });
+});
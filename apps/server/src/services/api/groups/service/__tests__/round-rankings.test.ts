@@ -0,0 +1,228 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// --- מוקים ---
+
+const {
+  mockAssertGroupMember,
+  mockRepo,
+  mockScopedRanking,
+  mockEmitRoundWinner,
+} = vi.hoisted(() => ({
+  mockAssertGroupMember: vi.fn(async () => ({})),
+  mockRepo: {
+    findGroupFixturesForBracket: vi.fn(async (): Promise<unknown[]> => []),
+    findGroupRoundResults: vi.fn(async (): Promise<unknown[]> => []),
+    findDecidedRoundKeys: vi.fn(async () => new Set<string>()),
+    countUnsettledFinishedPredictions: vi.fn(async () => 0),
+    createRoundResultInternal: vi.fn(async () => true),
+    findUsernamesByIds: vi.fn(async (): Promise<unknown[]> => []),
+  },
+  mockScopedRanking: vi.fn(async (): Promise<unknown[]> => []),
+  mockEmitRoundWinner: vi.fn(async () => {}),
+}));
+
+vi.mock("@repo/db", () => ({ prisma: {} }));
+
+vi.mock("../../permissions", () => ({
+  assertGroupMember: mockAssertGroupMember,
+}));
+
+vi.mock("../../repository", () => ({ repository: mockRepo }));
+
+vi.mock("../ranking", () => ({ getFixtureScopedRanking: mockScopedRanking }));
+
+vi.mock("../chat-events", () => ({
+  emitRoundWinnerEvent: mockEmitRoundWinner,
+}));
+
+vi.mock("../../../../../logger", () => ({
+  getLogger: vi.fn(() => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+import {
+  announceRoundWinners,
+  getPeriodRanking,
+  getRoundHistory,
+} from "../round-rankings";
+
+// 2026-10-19 12:00 UTC (יום שני)
+const BASE_TS = 1792411200;
+const ROUND_1 = "round:100:Regular Season:1";
+const ROUND_2 = "round:100:Regular Season:2";
+
+function fixture(
+  groupFixtureId: number,
+  round: string,
+  state: { started?: boolean; finished?: boolean } = {}
+) {
+  return {
+    groupFixtureId,
+    startTs: BASE_TS + groupFixtureId * 3600,
+    leagueId: 8,
+    seasonId: 100,
+    stage: "Regular Season",
+    round,
+    started: state.started ?? false,
+    finished: state.finished ?? false,
+  };
+}
+
+function rankItem(
+  userId: number,
+  rank: number,
+  totalPoints: number,
+  predictionCount = 1
+) {
+  return {
+    userId,
+    username: `user${userId}`,
+    rank,
+    totalPoints,
+    predictionCount,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockRepo.findDecidedRoundKeys.mockResolvedValue(new Set());
+  mockRepo.countUnsettledFinishedPredictions.mockResolvedValue(0);
+  mockRepo.createRoundResultInternal.mockResolvedValue(true);
+});
+
+describe("getPeriodRanking", () => {
+  it("ברירת המחדל היא הסיבוב האחרון שהתחיל, והדירוג רק על משחקיו", async () => {
+    mockRepo.findGroupFixturesForBracket.mockResolvedValue([
+      fixture(1, "1", { started: true, finished: true }),
+      fixture(2, "2", { started: true }),
+      fixture(3, "2"),
+      fixture(4, "3"),
+    ]);
+    mockScopedRanking.mockResolvedValue([rankItem(1, 1, 4)]);
+
+    const result = await getPeriodRanking(7, 1, "round");
+
+    expect(mockScopedRanking).toHaveBeenCalledWith(7, [2, 3]);
+    expect(result.data.current?.key).toBe(ROUND_2);
+    expect(result.data.periods).toHaveLength(3);
+    expect(result.data.items).toHaveLength(1);
+  });
+
+  it("בוחר תקופה לפי מפתח, ודוחה מפתח לא קיים", async () => {
+    mockRepo.findGroupFixturesForBracket.mockResolvedValue([
+      fixture(1, "1", { started: true }),
+      fixture(2, "2"),
+    ]);
+
+    const result = await getPeriodRanking(7, 1, "week", "week:2026-W43");
+    expect(result.data.current?.fixtureCount).toBe(2);
+
+    await expect(getPeriodRanking(7, 1, "round", "round:nope")).rejects.toThrow(
+      /not found/
+    );
+  });
+});
+
+describe("getRoundHistory", () => {
+  it("מחזיר את הזוכים עם שמות המשתמש", async () => {
+    mockRepo.findGroupRoundResults.mockResolvedValue([
+      {
+        roundKey: ROUND_1,
+        roundLabel: "1",
+        winnerUserIds: [2, 3],
+        winningPoints: 6,
+        participantCount: 4,
+        createdAt: new Date("2026-10-19T20:00:00Z"),
+      },
+    ]);
+    mockRepo.findUsernamesByIds.mockResolvedValue([
+      { id: 2, username: "bob" },
+      { id: 3, username: null },
+    ]);
+
+    const result = await getRoundHistory(7, 1);
+
+    expect(result.data[0]?.winners).toEqual([
+      { userId: 2, username: "bob" },
+      { userId: 3, username: null },
+    ]);
+    expect(result.data[0]?.decidedAt).toBe("2026-10-19T20:00:00.000Z");
+  });
+});
+
+describe("announceRoundWinners", () => {
+  it("מכריז על המנצח כשכל משחקי הסיבוב הסתיימו ונסלקו", async () => {
+    mockRepo.findGroupFixturesForBracket.mockResolvedValue([
+      fixture(1, "1", { started: true, finished: true }),
+      fixture(2, "1", { started: true, finished: true }),
+      fixture(3, "2"),
+    ]);
+    mockScopedRanking.mockResolvedValue([
+      rankItem(2, 1, 6),
+      rankItem(1, 2, 3),
+      rankItem(3, 3, 0, 0),
+    ]);
+
+    await announceRoundWinners([{ id: 2, groupId: 7 }]);
+
+    expect(mockRepo.createRoundResultInternal).toHaveBeenCalledWith({
+      groupId: 7,
+      roundKey: ROUND_1,
+      roundLabel: "1",
+      winnerUserIds: [2],
+      winningPoints: 6,
+      participantCount: 2,
+    });
+    expect(mockEmitRoundWinner).toHaveBeenCalledWith(
+      7,
+      {
+        roundKey: ROUND_1,
+        roundLabel: "1",
+        winners: [{ userId: 2, username: "user2" }],
+        points: 6,
+      },
+      undefined
+    );
+  });
+
+  it("לא מכריע סיבוב עם משחק פתוח או ניחושים שטרם נסלקו", async () => {
+    mockRepo.findGroupFixturesForBracket.mockResolvedValue([
+      fixture(1, "1", { started: true, finished: true }),
+      fixture(2, "1", { started: true }),
+      fixture(3, "2", { started: true, finished: true }),
+    ]);
+    mockRepo.countUnsettledFinishedPredictions.mockResolvedValue(1);
+
+    await announceRoundWinners([
+      { id: 1, groupId: 7 },
+      { id: 3, groupId: 7 },
+    ]);
+
+    expect(mockRepo.countUnsettledFinishedPredictions).toHaveBeenCalledTimes(1);
+    expect(mockRepo.createRoundResultInternal).not.toHaveBeenCalled();
+  });
+
+  it("לא מכריז פעמיים, ולא מכריז כשאף אחד לא צבר נקודות", async () => {
+    mockRepo.findGroupFixturesForBracket.mockResolvedValue([
+      fixture(1, "1", { started: true, finished: true }),
+      fixture(2, "2", { started: true, finished: true }),
+    ]);
+    mockRepo.findDecidedRoundKeys.mockResolvedValue(new Set([ROUND_1]));
+    mockScopedRanking.mockResolvedValue([rankItem(1, 1, 0), rankItem(2, 1, 0)]);
+
+    await announceRoundWinners([
+      { id: 1, groupId: 7 },
+      { id: 2, groupId: 7 },
+    ]);
+
+    expect(mockRepo.createRoundResultInternal).toHaveBeenCalledTimes(1);
+    expect(mockRepo.createRoundResultInternal).toHaveBeenCalledWith(
+      expect.objectContaining({ roundKey: ROUND_2, winnerUserIds: [] })
+    );
+    expect(mockEmitRoundWinner).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,272 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// --- מוקים ---
+
+const {
+  mockAssertGroupCreator,
+  mockAssertGroupMember,
+  mockRepo,
+  mockRanking,
+  mockEmit,
+} = vi.hoisted(() => ({
+  mockAssertGroupCreator: vi.fn(async () => ({})),
+  mockAssertGroupMember: vi.fn(async () => ({})),
+  mockRepo: {
+    findGroupForSeasonContinuation: vi.fn(),
+    countUnfinishedGroupFixtures: vi.fn(async () => 0),
+    findLatestGroupFixtureSeason: vi.fn(),
+    findNextSeason: vi.fn(),
+    continueGroupIntoSeasonInternal: vi.fn(),
+    findGroupSeasonChain: vi.fn(),
+    findGroupSeasonStandings: vi.fn(async (): Promise<unknown[]> => []),
+  },
+  mockRanking: vi.fn(async (): Promise<unknown[]> => []),
+  mockEmit: vi.fn(async () => {}),
+}));
+
+vi.mock("@repo/db", () => ({ prisma: {} }));
+
+vi.mock("../../permissions", () => ({
+  assertGroupCreator: mockAssertGroupCreator,
+  assertGroupMember: mockAssertGroupMember,
+}));
+
+vi.mock("../../repository", () => ({ repository: mockRepo }));
+
+vi.mock("../ranking", () => ({ getCoreRanking: mockRanking }));
+
+vi.mock("../chat-events", () => ({ emitSeasonContinuedEvent: mockEmit }));
+
+vi.mock("../../../../../logger", () => ({
+  getLogger: vi.fn(() => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+import { continueGroupToNextSeason, getAllTimeTable } from "../seasons";
+
+const SEASON_25 = {
+  id: 25,
+  name: "2025/2026",
+  startDate: "2025-08-16",
+  leagueId: 8,
+};
+const SEASON_26 = {
+  id: 26,
+  name: "2026/2027",
+  startDate: "2026-08-15",
+  leagueId: 8,
+};
+
+function sourceGroup(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 7,
+    name: "החבר'ה",
+    status: "ended",
+    creatorId: 1,
+    archivedAt: null,
+    season: SEASON_25,
+    nextGroup: null,
+    groupRules: { selectionMode: "leagues", groupLeaguesIds: [8] },
+    groupMembers: [],
+    ...overrides,
+  };
+}
+
+function rankingItem(userId: number, rank: number, totalPoints: number) {
+  return {
+    rank,
+    userId,
+    username: `user${userId}`,
+    totalPoints,
+    predictionCount: 10,
+    correctScoreCount: 2,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockRepo.findNextSeason.mockResolvedValue(SEASON_26);
+});
+
+describe("continueGroupToNextSeason", () => {
+  it("מקפיא את הדירוג ויוצר קבוצה לעונה הבאה", async () => {
+    const source = sourceGroup();
+    mockRepo.findGroupForSeasonContinuation.mockResolvedValue(source);
+    mockRanking.mockResolvedValue([
+      rankingItem(1, 1, 30),
+      rankingItem(2, 2, 20),
+    ]);
+    mockRepo.continueGroupIntoSeasonInternal.mockResolvedValue({
+      id: 8,
+      name: "החבר'ה",
+      privacy: "private",
+      status: "active",
+      creatorId: 1,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    const result = await continueGroupToNextSeason(7, 1);
+
+    expect(mockRepo.findNextSeason).toHaveBeenCalledWith(8, "2025-08-16");
+    expect(mockRepo.continueGroupIntoSeasonInternal).toHaveBeenCalledWith({
+      source,
+      seasonId: 26,
+      standings: [
+        {
+          userId: 1,
+          rank: 1,
+          totalPoints: 30,
+          predictionCount: 10,
+          correctScoreCount: 2,
+        },
+        {
+          userId: 2,
+          rank: 2,
+          totalPoints: 20,
+          predictionCount: 10,
+          correctScoreCount: 2,
+        },
+      ],
+      now: expect.any(Number),
+    });
+    expect(result.data).toMatchObject({
+      id: 8,
+      seasonId: 26,
+      seasonName: "2026/2027",
+      previousGroupId: 7,
+    });
+    expect(mockEmit).toHaveBeenCalledWith(7, 8, "2026/2027", 1, undefined);
+  });
+
+  it("קבוצה בלי עונה לוקחת את העונה מהמשחק האחרון", async () => {
+    mockRepo.findGroupForSeasonContinuation.mockResolvedValue(
+      sourceGroup({ season: null })
+    );
+    mockRepo.findLatestGroupFixtureSeason.mockResolvedValue(SEASON_25);
+    mockRepo.continueGroupIntoSeasonInternal.mockResolvedValue({
+      id: 8,
+      name: "x",
+      privacy: "private",
+      status: "active",
+      creatorId: 1,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    await continueGroupToNextSeason(7, 1);
+
+    expect(mockRepo.findNextSeason).toHaveBeenCalledWith(8, "2025-08-16");
+  });
+
+  it("דוחה קבוצה שלא עוקבת אחרי ליגה", async () => {
+    mockRepo.findGroupForSeasonContinuation.mockResolvedValue(
+      sourceGroup({
+        season: null,
+        groupRules: { selectionMode: "games", groupLeaguesIds: [] },
+      })
+    );
+
+    await expect(continueGroupToNextSeason(7, 1)).rejects.toThrow(/league/);
+  });
+
+  it("דוחה קבוצה שעוד יש בה משחקים פתוחים", async () => {
+    mockRepo.findGroupForSeasonContinuation.mockResolvedValue(
+      sourceGroup({ status: "active" })
+    );
+    mockRepo.countUnfinishedGroupFixtures.mockResolvedValueOnce(3);
+
+    await expect(continueGroupToNextSeason(7, 1)).rejects.toThrow(/unfinished/);
+    expect(mockRepo.continueGroupIntoSeasonInternal).not.toHaveBeenCalled();
+  });
+
+  it("אי אפשר להמשיך פעמיים", async () => {
+    mockRepo.findGroupForSeasonContinuation.mockResolvedValue(
+      sourceGroup({ archivedAt: new Date(), nextGroup: { id: 8 } })
+    );
+
+    await expect(continueGroupToNextSeason(7, 1)).rejects.toThrow(/already/);
+  });
+
+  it("דוחה כשאין עדיין עונה הבאה", async () => {
+    mockRepo.findGroupForSeasonContinuation.mockResolvedValue(sourceGroup());
+    mockRepo.findNextSeason.mockResolvedValue(null);
+
+    await expect(continueGroupToNextSeason(7, 1)).rejects.toThrow(
+      /No next season/
+    );
+  });
+});
+
+describe("getAllTimeTable", () => {
+  it("מחבר דירוג מוקפא של עונות ישנות עם הדירוג החי", async () => {
+    mockRepo.findGroupSeasonChain.mockResolvedValue([
+      {
+        id: 7,
+        name: "g",
+        seasonId: 25,
+        seasonName: "2025/2026",
+        previousGroupId: null,
+        archivedAt: new Date(),
+      },
+      {
+        id: 8,
+        name: "g",
+        seasonId: 26,
+        seasonName: "2026/2027",
+        previousGroupId: 7,
+        archivedAt: null,
+      },
+    ]);
+    mockRepo.findGroupSeasonStandings.mockResolvedValue([
+      {
+        groupId: 7,
+        userId: 1,
+        rank: 1,
+        totalPoints: 30,
+        users: { username: "user1" },
+      },
+      {
+        groupId: 7,
+        userId: 2,
+        rank: 2,
+        totalPoints: 20,
+        users: { username: "user2" },
+      },
+    ]);
+    mockRanking.mockResolvedValue([
+      rankingItem(2, 1, 15),
+      rankingItem(1, 2, 0),
+    ]);
+
+    const result = await getAllTimeTable(8, 2);
+
+    expect(mockRepo.findGroupSeasonStandings).toHaveBeenCalledWith([7]);
+    expect(mockRanking).toHaveBeenCalledWith(8);
+    expect(result.data.seasons.map((s) => s.archived)).toEqual([true, false]);
+    expect(result.data.items).toEqual([
+      {
+        rank: 1,
+        userId: 2,
+        username: "user2",
+        totalPoints: 35,
+        seasonsPlayed: 2,
+        seasonWins: 0,
+        bestRank: 2,
+      },
+      {
+        rank: 2,
+        userId: 1,
+        username: "user1",
+        totalPoints: 30,
+        seasonsPlayed: 2,
+        seasonWins: 1,
+        bestRank: 1,
+      },
+    ]);
+  });
+});
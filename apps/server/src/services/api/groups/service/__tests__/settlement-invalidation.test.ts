@@ -2,14 +2,21 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 
 // --- מוקים ---
 
-const { mockInvalidateRanking, mockInvalidateUserStats, mockInvalidateH2H } = vi.hoisted(() => ({
+const {
+  mockInvalidateRanking,
+  mockInvalidateLiveRanking,
+  mockInvalidateUserStats,
+  mockInvalidateH2H,
+} = vi.hoisted(() => ({
   mockInvalidateRanking: vi.fn(async () => {}),
+  mockInvalidateLiveRanking: vi.fn(async () => {}),
   mockInvalidateUserStats: vi.fn(async () => {}),
   mockInvalidateH2H: vi.fn(async () => {}),
 }));
 
 vi.mock("../../../../../lib/cache-invalidation", () => ({
   invalidateRankingCache: mockInvalidateRanking,
+  invalidateLiveRankingCache: mockInvalidateLiveRanking,
   invalidateUserStatsCache: mockInvalidateUserStats,
   invalidateH2HCache: mockInvalidateH2H,
 }));
@@ -28,6 +35,15 @@ vi.mock("../ranking", () => ({
 
 vi.mock("../chat-events", () => ({
   emitSystemEvent: vi.fn(async () => {}),
+  emitPredictionSharesUpdated: vi.fn(async () => {}),
+}));
+
+vi.mock("../bracket", () => ({
+  advanceGroupBrackets: vi.fn(async () => {}),
+}));
+
+vi.mock("../round-rankings", () => ({
+  announceRoundWinners: vi.fn(async () => {}),
 }));
 
 vi.mock("../../../../../logger", () => ({
@@ -50,6 +66,7 @@ vi.mock("../../scoring", () => ({
     winningCorrectDifference: false,
     winningMatchWinner: true,
   })),
+  rulesNeedOdds: vi.fn(() => false),
 }));
 
 vi.mock("@repo/utils", () => ({
@@ -112,6 +129,12 @@ vi.mock("@repo/db", () => ({
     rankingSnapshots: {
       createMany: vi.fn(async () => ({ count: 2 })),
     },
+    fixtureAuditLog: {
+      findMany: vi.fn(async () => [{ id: 42, fixtureId: 500 }]),
+    },
+    settlementLedger: {
+      createMany: vi.fn(async () => ({ count: 1 })),
+    },
     $transaction: vi.fn(async (ops: unknown[]) => {
       // מריץ כל פעולה (פעולות update מוקיות)
       for (const op of ops) {
@@ -136,6 +159,12 @@ describe("settlePredictionsForFixtures — ניקוי קאש", () => {
     expect(mockInvalidateRanking).toHaveBeenCalledWith([7]);
   });
 
+  it("מנקה גם את קאש הדירוג החי", async () => {
+    await settlePredictionsForFixtures([500]);
+
+    expect(mockInvalidateLiveRanking).toHaveBeenCalledWith([7]);
+  });
+
   it("מנקה קאש סטטיסטיקות משתמש לאחר סליקה", async () => {
     await settlePredictionsForFixtures([500]);
 
@@ -158,7 +187,7 @@ describe("settlePredictionsForFixtures — ניקוי קאש", () => {
     const { getGroupRanking } = await import("../ranking");
     vi.mocked(getGroupRanking).mockImplementation(async () => {
       callOrder.push("getRanking");
-      return { status: "success", data: [], message: "ok" };
+      return { status: "success", data: [], mode: "settled", message: "ok" };
     });
 
     await settlePredictionsForFixtures([500]);
@@ -172,6 +201,27 @@ describe("settlePredictionsForFixtures — ניקוי קאש", () => {
     expect(invalidateIndex).toBeLessThan(lastGetRankingIndex);
   });
 
+  it("רושם שורת יומן סליקה עם מקור השינוי", async () => {
+    const { prisma } = await import("@repo/db");
+
+    await settlePredictionsForFixtures([500], undefined, { jobRunId: 3 });
+
+    expect(prisma.settlementLedger.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          groupPredictionId: 999,
+          reason: "settlement",
+          points: 3,
+          previousPoints: null,
+          homeScore90: 2,
+          awayScore90: 1,
+          jobRunId: 3,
+          fixtureAuditLogId: 42,
+        }),
+      ],
+    });
+  });
+
   it("לא קורס על רשימת פיקסצ׳רים ריקה", async () => {
     const result = await settlePredictionsForFixtures([]);
 
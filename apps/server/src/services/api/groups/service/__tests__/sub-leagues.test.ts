@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// --- מוקים ---
+
+const { mockAssertGroupMember, mockRepo, mockSubsetRanking, mockChat } =
+  vi.hoisted(() => ({
+    mockAssertGroupMember: vi.fn(
+      async (): Promise<unknown> => ({
+        group: { status: "active" },
+        role: "member",
+      })
+    ),
+    mockRepo: {
+      findUserSubLeaguesInGroup: vi.fn(async (): Promise<unknown[]> => []),
+      findSubLeagueById: vi.fn(async (): Promise<unknown> => null),
+      findSubLeagueByInviteCode: vi.fn(async (): Promise<unknown> => null),
+      findSubLeagueMemberIds: vi.fn(async (): Promise<number[]> => []),
+      countSubLeaguesCreatedInGroup: vi.fn(async () => 0),
+      createSubLeague: vi.fn(),
+      addSubLeagueMember: vi.fn(async () => {}),
+      removeSubLeagueMemberInternal: vi.fn(async () => ({ deleted: false })),
+      deleteSubLeague: vi.fn(async () => {}),
+    },
+    mockSubsetRanking: vi.fn(async (): Promise<unknown[]> => []),
+    mockChat: {
+      getMessages: vi.fn(async (): Promise<unknown[]> => []),
+      sendMessage: vi.fn(),
+      toChatMessagePayload: vi.fn((m: unknown) => m),
+    },
+  }));
+
+vi.mock("@repo/db", () => ({ prisma: {} }));
+
+vi.mock("../../permissions", () => ({
+  assertGroupMember: mockAssertGroupMember,
+}));
+
+vi.mock("../../repository", () => ({ repository: mockRepo }));
+
+vi.mock("../ranking", () => ({ getMemberSubsetRanking: mockSubsetRanking }));
+
+vi.mock("../chat", () => mockChat);
+
+vi.mock("../../../../../logger", () => ({
+  getLogger: vi.fn(() => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+import {
+  createSubLeague,
+  deleteSubLeague,
+  getSubLeagueMessages,
+  getSubLeagueRanking,
+  joinSubLeagueByCode,
+} from "../sub-leagues";
+
+function subLeague(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 3,
+    createdAt: new Date("2026-10-01T10:00:00Z"),
+    groupId: 7,
+    creatorId: 1,
+    name: "המשרד",
+    inviteCode: "abcd1234",
+    _count: { members: 3 },
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockAssertGroupMember.mockResolvedValue({
+    group: { status: "active" },
+    role: "member",
+  });
+  mockRepo.findSubLeagueById.mockResolvedValue(subLeague());
+  mockRepo.findSubLeagueMemberIds.mockResolvedValue([1, 2, 5]);
+});
+
+describe("createSubLeague", () => {
+  it("יוצר תת-ליגה עם קוד הזמנה והיוצר כחבר ראשון", async () => {
+    mockRepo.createSubLeague.mockResolvedValue(
+      subLeague({ _count: { members: 1 } })
+    );
+
+    const result = await createSubLeague(7, 1, "  המשרד ");
+
+    expect(mockRepo.createSubLeague).toHaveBeenCalledWith({
+      groupId: 7,
+      creatorId: 1,
+      name: "המשרד",
+      inviteCode: expect.stringMatching(/^[0-9a-f]{8}$/),
+    });
+    expect(result.data).toMatchObject({
+      id: 3,
+      isCreator: true,
+      memberCount: 1,
+    });
+  });
+
+  it("מגביל את מספר תתי-הליגות לחבר", async () => {
+    mockRepo.countSubLeaguesCreatedInGroup.mockResolvedValueOnce(5);
+
+    await expect(createSubLeague(7, 1, "עוד אחת")).rejects.toThrow(/up to 5/);
+    expect(mockRepo.createSubLeague).not.toHaveBeenCalled();
+  });
+
+  it("דוחה קבוצה שהסתיימה", async () => {
+    mockAssertGroupMember.mockResolvedValueOnce({
+      group: { status: "ended" },
+      role: "member",
+    });
+
+    await expect(createSubLeague(7, 1, "המשרד")).rejects.toThrow(/active/);
+  });
+});
+
+describe("joinSubLeagueByCode", () => {
+  it("מצטרף לתת-ליגה של אותה קבוצה", async () => {
+    mockRepo.findSubLeagueByInviteCode.mockResolvedValue(subLeague());
+
+    const result = await joinSubLeagueByCode(7, 5, "abcd1234");
+
+    expect(mockRepo.addSubLeagueMember).toHaveBeenCalledWith(3, 5);
+    expect(result.data.isCreator).toBe(false);
+  });
+
+  it("קוד של תת-ליגה מקבוצה אחרת לא תקף", async () => {
+    mockRepo.findSubLeagueByInviteCode.mockResolvedValue(
+      subLeague({ groupId: 8 })
+    );
+
+    await expect(joinSubLeagueByCode(7, 5, "abcd1234")).rejects.toThrow(
+      /Invalid invite code/
+    );
+    expect(mockRepo.addSubLeagueMember).not.toHaveBeenCalled();
+  });
+});
+
+describe("getSubLeagueRanking", () => {
+  it("מדרג רק את חברי תת-הליגה על הניחושים של הקבוצה", async () => {
+    mockSubsetRanking.mockResolvedValue([{ userId: 2, rank: 1 }]);
+
+    const result = await getSubLeagueRanking(7, 3, 1);
+
+    expect(mockSubsetRanking).toHaveBeenCalledWith(7, [1, 2, 5]);
+    expect(result.data.items).toEqual([{ userId: 2, rank: 1 }]);
+    expect(result.data.subLeague.name).toBe("המשרד");
+  });
+
+  it("חבר קבוצה שלא בתת-הליגה לא רואה אותה", async () => {
+    await expect(getSubLeagueRanking(7, 3, 9)).rejects.toThrow(/not a member/);
+    expect(mockSubsetRanking).not.toHaveBeenCalled();
+  });
+
+  it("תת-ליגה של קבוצה אחרת לא נמצאת", async () => {
+    mockRepo.findSubLeagueById.mockResolvedValue(subLeague({ groupId: 8 }));
+
+    await expect(getSubLeagueRanking(7, 3, 1)).rejects.toThrow(/not found/);
+  });
+});
+
+describe("sub-league chat", () => {
+  it("קורא הודעות מהערוץ של תת-הליגה", async () => {
+    await getSubLeagueMessages(7, 3, 2, { limit: 20 });
+
+    expect(mockChat.getMessages).toHaveBeenCalledWith(7, 2, {
+      limit: 20,
+      subLeagueId: 3,
+    });
+  });
+});
+
+describe("deleteSubLeague", () => {
+  it("רק היוצר יכול למחוק", async () => {
+    await expect(deleteSubLeague(7, 3, 2)).rejects.toThrow(/creator/);
+    expect(mockRepo.deleteSubLeague).not.toHaveBeenCalled();
+
+    await deleteSubLeague(7, 3, 1);
+    expect(mockRepo.deleteSubLeague).toHaveBeenCalledWith(3);
+  });
+});
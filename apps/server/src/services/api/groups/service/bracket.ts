@@ -0,0 +1,257 @@
+// groups/service/bracket.ts
+// Head-to-head knockout bracket: start (creator), view, and advance after settlement.
+
+import type {
+  ApiBracketMatch,
+  ApiGroupBracket,
+  ApiGroupBracketResponse,
+} from "@repo/types";
+import { BadRequestError, ConflictError } from "../../../../utils/errors";
+import { getLogger } from "../../../../logger";
+import { assertGroupCreator, assertGroupMember } from "../permissions";
+import { repository as repo } from "../repository";
+import type { GroupBracketRow } from "../repository/bracket";
+import { GROUP_STATUS } from "../constants";
+import { getScoringStrategy } from "../scoring-strategies";
+import {
+  EMPTY_ROUND_SCORE,
+  buildRoundBuckets,
+  decideMatch,
+  nextRoundBucket,
+  pairNextRound,
+  seedFirstRound,
+  type RoundScore,
+} from "../bracket";
+import { getCoreRanking } from "./ranking";
+
+const log = getLogger("groups.bracket");
+
+function toApiBracket(row: GroupBracketRow): ApiGroupBracket {
+  const rounds = new Map<number, ApiGroupBracket["rounds"][number]>();
+  for (const m of row.matches) {
+    const round = rounds.get(m.roundIndex) ?? {
+      roundIndex: m.roundIndex,
+      roundLabel: m.roundLabel,
+      matches: [],
+    };
+    const match: ApiBracketMatch = {
+      id: m.id,
+      slot: m.slot,
+      home:
+        m.homeUserId != null
+          ? { userId: m.homeUserId, username: m.homeUser?.username ?? null }
+          : null,
+      away:
+        m.awayUserId != null
+          ? { userId: m.awayUserId, username: m.awayUser?.username ?? null }
+          : null,
+      homePoints: m.homePoints,
+      awayPoints: m.awayPoints,
+      winnerUserId: m.winnerUserId,
+      decided: m.decidedAt != null,
+    };
+    round.matches.push(match);
+    rounds.set(m.roundIndex, round);
+  }
+
+  const firstRoundSize = rounds.get(0)?.matches.length ?? 0;
+  return {
+    status: row.status,
+    championUserId: row.championUserId,
+    roundCount: firstRoundSize > 0 ? Math.log2(firstRoundSize) + 1 : 0,
+    rounds: [...rounds.values()],
+  };
+}
+
+/**
+ * Get the group's head-to-head bracket (null data when none was started).
+ */
+export async function getGroupBracket(
+  groupId: number,
+  userId: number
+): Promise<ApiGroupBracketResponse> {
+  await assertGroupMember(groupId, userId);
+
+  const row = await repo.findGroupBracket(groupId);
+  return {
+    status: "success",
+    data: row ? toApiBracket(row) : null,
+    message: "Bracket fetched successfully",
+  };
+}
+
+/**
+ * Start a head-to-head bracket (creator only).
+ * - Members are seeded from the current ranking; byes go to the top seeds.
+ * - The first round is played on the next competition round that hasn't kicked off.
+ */
+export async function startGroupBracket(
+  groupId: number,
+  userId: number
+): Promise<ApiGroupBracketResponse> {
+  const group = await assertGroupCreator(groupId, userId);
+  if (group.status !== GROUP_STATUS.ACTIVE) {
+    throw new BadRequestError("Brackets can only be started in active groups");
+  }
+  if (await repo.findGroupBracket(groupId)) {
+    throw new ConflictError("Group already has a bracket");
+  }
+
+  const ranking = await getCoreRanking(groupId);
+  if (ranking.length < 2) {
+    throw new BadRequestError("A bracket needs at least two members");
+  }
+
+  const buckets = buildRoundBuckets(
+    await repo.findGroupFixturesForBracket(groupId)
+  );
+  const firstBucket = nextRoundBucket(buckets, null);
+  if (!firstBucket) {
+    throw new BadRequestError("No upcoming round to start the bracket on");
+  }
+
+  const row = await repo.createGroupBracketInternal(groupId, {
+    roundIndex: 0,
+    roundKey: firstBucket.key,
+    roundLabel: firstBucket.label,
+    pairings: seedFirstRound(ranking.map((item) => item.userId)),
+  });
+  log.info(
+    { groupId, entrants: ranking.length, roundKey: firstBucket.key },
+    "Bracket started"
+  );
+
+  return {
+    status: "success",
+    data: toApiBracket(row),
+    message: "Bracket started successfully",
+  };
+}
+
+/** Sum each member's settled predictions over one round. */
+function buildRoundScores(
+  predictions: Awaited<ReturnType<typeof repo.findRoundPredictions>>
+): Map<number, RoundScore> {
+  const scores = new Map<number, RoundScore>();
+  for (const p of predictions) {
+    const score = scores.get(p.userId) ?? { ...EMPTY_ROUND_SCORE };
+    score.points += Number(p.points) || 0;
+    if (p.winningCorrectScore) score.correctScore += 1;
+    if (p.winningCorrectDifference) score.correctDifference += 1;
+    if (p.winningMatchWinner) score.correctOutcome += 1;
+    scores.set(p.userId, score);
+  }
+  return scores;
+}
+
+/**
+ * Advance one bracket: decide its current round once every fixture of the
+ * competition round is finished, then pair the winners on the next round.
+ */
+async function advanceBracket(bracket: GroupBracketRow): Promise<void> {
+  const pending = bracket.matches.filter((m) => m.decidedAt == null);
+  if (pending.length === 0) return;
+  const roundIndex = Math.min(...pending.map((m) => m.roundIndex));
+  const roundMatches = bracket.matches.filter(
+    (m) => m.roundIndex === roundIndex
+  );
+
+  const buckets = buildRoundBuckets(
+    await repo.findGroupFixturesForBracket(bracket.groupId)
+  );
+
+  // Round waiting for fixtures: schedule it on the next round once synced
+  const roundKey = roundMatches[0]?.roundKey ?? null;
+  if (roundKey == null) {
+    const previousKey =
+      bracket.matches.find((m) => m.roundIndex === roundIndex - 1)?.roundKey ??
+      null;
+    const next = nextRoundBucket(buckets, previousKey);
+    if (next) {
+      await repo.assignBracketRoundInternal(
+        bracket.id,
+        roundIndex,
+        next.key,
+        next.label
+      );
+    }
+    return;
+  }
+
+  const bucket = buckets.find((b) => b.key === roundKey);
+  if (!bucket?.finished) return;
+
+  const [predictions, rules] = await Promise.all([
+    repo.findRoundPredictions(bracket.groupId, bucket.groupFixtureIds),
+    repo.findGroupRules(bracket.groupId),
+  ]);
+  const scores = buildRoundScores(predictions);
+  const tiebreakers = getScoringStrategy(rules?.scoringStrategy).tiebreakers;
+  const scoreOf = (id: number | null) =>
+    (id != null && scores.get(id)) || EMPTY_ROUND_SCORE;
+
+  const results = pending
+    .filter((m) => m.roundIndex === roundIndex)
+    .map((m) => {
+      const home = { userId: m.homeUserId, score: scoreOf(m.homeUserId) };
+      const away = { userId: m.awayUserId, score: scoreOf(m.awayUserId) };
+      return {
+        matchId: m.id,
+        homePoints: home.score.points,
+        awayPoints: away.score.points,
+        winnerUserId: decideMatch(home, away, tiebreakers),
+      };
+    });
+  const winnerByMatch = new Map(
+    results.map((r) => [r.matchId, r.winnerUserId])
+  );
+  const winners = roundMatches.map((m) =>
+    winnerByMatch.has(m.id) ? winnerByMatch.get(m.id)! : m.winnerUserId
+  );
+
+  if (winners.length === 1) {
+    await repo.saveBracketRoundInternal({
+      bracketId: bracket.id,
+      results,
+      nextRound: null,
+      championUserId: winners[0] ?? null,
+    });
+    log.info(
+      { groupId: bracket.groupId, championUserId: winners[0] },
+      "Bracket completed"
+    );
+    return;
+  }
+
+  const next = nextRoundBucket(buckets, roundKey);
+  await repo.saveBracketRoundInternal({
+    bracketId: bracket.id,
+    results,
+    nextRound: {
+      roundIndex: roundIndex + 1,
+      roundKey: next?.key ?? null,
+      roundLabel: next?.label ?? null,
+      pairings: pairNextRound(winners),
+    },
+    championUserId: null,
+  });
+  log.info(
+    { groupId: bracket.groupId, roundIndex, nextRoundKey: next?.key ?? null },
+    "Bracket round decided"
+  );
+}
+
+/**
+ * Advance the active brackets of the given groups (called after settlement).
+ * Errors are logged per group and never fail the caller.
+ */
+export async function advanceGroupBrackets(groupIds: number[]): Promise<void> {
+  const brackets = await repo.findActiveGroupBrackets(groupIds);
+  for (const bracket of brackets) {
+    try {
+      await advanceBracket(bracket);
+    } catch (err) {
+      log.warn({ groupId: bracket.groupId, err }, "Failed to advance bracket");
+    }
+  }
+}
@@ -1,8 +1,17 @@
 import { prisma } from "@repo/db";
-import { createSystemMessage } from "./chat";
+import {
+  buildFixtureNoticeBody,
+  createSystemMessage,
+  getPredictionShareMessages,
+  toChatMessagePayload,
+} from "./chat";
 import { logActivity } from "./activity-log";
 import { getLogger } from "../../../../logger";
 import type { TypedIOServer } from "../../../../types/socket";
+import {
+  buildModerationBody,
+  type ModerationEventType,
+} from "../moderation-events";
 
 const log = getLogger("groups.chat-events");
 
@@ -19,16 +28,7 @@ export async function emitSystemEvent(
   try {
     const message = await createSystemMessage(groupId, eventType, eventData);
 
-    io?.to(`group:${groupId}`).emit("message:new", {
-      id: message.id,
-      createdAt: message.createdAt.toISOString(),
-      groupId: message.groupId,
-      senderId: null,
-      type: "system_event" as const,
-      body: message.body,
-      meta: message.meta as Record<string, unknown> | null,
-      sender: null,
-    });
+    io?.to(`group:${groupId}`).emit("message:new", toChatMessagePayload(message));
   } catch (err) {
     log.warn({ groupId, eventType, err }, "Failed to emit system event");
   }
@@ -119,22 +119,91 @@ type FixtureWithTeams = {
   awayTeam: { name: string } | null;
 };
 
+/** New in-match event (from the fixture events sync) to announce in chat. */
+export type FixtureMatchEvent = {
+  fixtureId: number;
+  teamId: number | null;
+  type: string;
+  minute: number;
+  extraMinute: number | null;
+  playerName: string | null;
+};
+
+/** Event types worth a chat message; cards and substitutions stay on the match screen. */
+const ANNOUNCED_MATCH_EVENT_TYPES: ReadonlySet<string> = new Set([
+  "goal",
+  "own_goal",
+  "penalty",
+  "red_card",
+]);
+
+/**
+ * Emit live chat events: "Kicked off!" for fixtures that just went live, then
+ * one "fixture_event" message (e.g. "⚽ 54' goal") per new goal or red card.
+ * Match events go to chat only, not the activity log.
+ */
 export async function emitFixtureLiveEvents(
   fixtures: FixtureWithTeams[],
-  io?: TypedIOServer
+  io?: TypedIOServer,
+  matchEvents: FixtureMatchEvent[] = []
 ): Promise<void> {
-  await emitFixtureEventsInternal(
-    fixtures,
-    "fixture_live",
-    (f, fixtureId) => ({
-      fixtureId,
-      homeTeam: f.homeTeam?.name || "TBD",
-      awayTeam: f.awayTeam?.name || "TBD",
-    }),
-    (f) =>
-      `${f.homeTeam?.name || "TBD"} vs ${f.awayTeam?.name || "TBD"} — Kicked off!`,
-    io
+  if (fixtures.length > 0) {
+    // Kickoff reveals shared predictions to the whole group
+    await emitPredictionSharesUpdated(
+      fixtures.map((f) => f.id),
+      io
+    );
+    await emitFixtureEventsInternal(
+      fixtures,
+      "fixture_live",
+      (f, fixtureId) => ({
+        fixtureId,
+        homeTeam: f.homeTeam?.name || "TBD",
+        awayTeam: f.awayTeam?.name || "TBD",
+      }),
+      (f) =>
+        `${f.homeTeam?.name || "TBD"} vs ${f.awayTeam?.name || "TBD"} — Kicked off!`,
+      io
+    );
+  }
+
+  const announced = matchEvents.filter((e) =>
+    ANNOUNCED_MATCH_EVENT_TYPES.has(e.type)
   );
+  if (announced.length === 0) return;
+
+  const fixtureIds = [...new Set(announced.map((e) => e.fixtureId))];
+  const teamIds = [
+    ...new Set(
+      announced.map((e) => e.teamId).filter((id): id is number => id != null)
+    ),
+  ];
+  const [groupFixtures, teams] = await Promise.all([
+    prisma.groupFixtures.findMany({
+      where: { fixtureId: { in: fixtureIds } },
+      select: { groupId: true, fixtureId: true },
+    }),
+    prisma.teams.findMany({
+      where: { id: { in: teamIds } },
+      select: { id: true, name: true },
+    }),
+  ]);
+  const teamNames = new Map(teams.map((t) => [t.id, t.name]));
+
+  for (const event of announced) {
+    const eventData = {
+      fixtureId: event.fixtureId,
+      type: event.type,
+      minute: event.minute,
+      extraMinute: event.extraMinute,
+      playerName: event.playerName,
+      teamName: event.teamId != null ? (teamNames.get(event.teamId) ?? null) : null,
+    };
+    for (const gf of groupFixtures) {
+      if (gf.fixtureId !== event.fixtureId) continue;
+      await emitSystemEvent(gf.groupId, "fixture_event", eventData, io);
+    }
+  }
 }
 
 type FixtureWithScoresAndTeams = {
@@ -165,6 +234,69 @@ export async function emitFixtureFTEvents(
   );
 }
 
+/**
+ * Re-broadcast shared prediction cards for these fixtures as "message:updated",
+ * so open chats pick up the kickoff reveal and, after settlement, the points.
+ * Never fails the caller.
+ */
+export async function emitPredictionSharesUpdated(
+  fixtureIds: number[],
+  io?: TypedIOServer
+): Promise<void> {
+  if (!io || fixtureIds.length === 0) return;
+  try {
+    const messages = await getPredictionShareMessages(fixtureIds);
+    for (const message of messages) {
+      io.to(`group:${message.groupId}`).emit("message:updated", message);
+    }
+  } catch (err) {
+    log.warn({ fixtureIds, err }, "Failed to emit prediction share updates");
+  }
+}
+
+// ─── Moderation events (chat message + activity) ───────────────────────────
+
+/**
+ * Announce a moderation action (remove, ban, role change, ownership transfer)
+ * in the group chat and the activity log. Never fails the caller.
+ */
+export async function emitModerationEvent(
+  groupId: number,
+  eventType: ModerationEventType,
+  actorId: number,
+  targetUserId: number,
+  io?: TypedIOServer
+): Promise<void> {
+  try {
+    const users = await prisma.users.findMany({
+      where: { id: { in: [actorId, targetUserId] } },
+      select: { id: true, username: true },
+    });
+    const usernameById = new Map(users.map((u) => [u.id, u.username]));
+    const actorUsername = usernameById.get(actorId) || "Someone";
+    const username = usernameById.get(targetUserId) || "someone";
+    const eventData = {
+      actorId,
+      actorUsername,
+      userId: targetUserId,
+      username,
+    };
+
+    await emitSystemEvent(groupId, eventType, eventData, io);
+    await logActivity(
+      groupId,
+      eventType,
+      buildModerationBody(eventType, actorUsername, username),
+      { actorId, meta: eventData, io }
+    );
+  } catch (err) {
+    log.warn(
+      { groupId, eventType, targetUserId, err },
+      "Failed to emit moderation event"
+    );
+  }
+}
+
 // ─── Activity-only events (no chat message) ────────────────────────────────
 
 export async function emitMemberLeftEvent(
@@ -336,3 +468,102 @@ export async function emitGroupPublishedEvent(
     log.warn({ groupId, err }, "Failed to emit group_published event");
   }
 }
+
+export async function emitSeasonContinuedEvent(
+  previousGroupId: number,
+  nextGroupId: number,
+  seasonName: string,
+  actorId: number,
+  io?: TypedIOServer
+): Promise<void> {
+  try {
+    const user = await prisma.users.findUnique({
+      where: { id: actorId },
+      select: { username: true },
+    });
+    const username = user?.username || "Someone";
+    const meta = { previousGroupId, nextGroupId, seasonName, username };
+    await logActivity(
+      previousGroupId,
+      "season_continued",
+      `${username} continued the group into ${seasonName}`,
+      { actorId, meta, io }
+    );
+    await logActivity(
+      nextGroupId,
+      "season_started",
+      `New season: ${seasonName}`,
+      { actorId, meta, io }
+    );
+  } catch (err) {
+    log.warn(
+      { groupId: previousGroupId, err },
+      "Failed to emit season_continued event"
+    );
+  }
+}
+
+/**
+ * Announce the winner(s) of a decided round in chat and the activity log.
+ */
+export async function emitRoundWinnerEvent(
+  groupId: number,
+  data: {
+    roundKey: string;
+    roundLabel: string;
+    winners: Array<{ userId: number; username: string | null }>;
+    points: number;
+  },
+  io?: TypedIOServer
+): Promise<void> {
+  try {
+    const username = data.winners
+      .map((w) => w.username || "Someone")
+      .join(", ");
+    const eventData = { ...data, username };
+
+    await emitSystemEvent(groupId, "round_winner", eventData, io);
+    await logActivity(
+      groupId,
+      "round_winner",
+      `${username} won ${data.roundLabel} with ${data.points} pts`,
+      { meta: eventData, io }
+    );
+  } catch (err) {
+    log.warn({ groupId, err }, "Failed to emit round_winner event");
+  }
+}
+
+export type FixtureNoticeType =
+  | "fixture_voided"
+  | "fixture_postponed"
+  | "fixture_rescheduled";
+
+/**
+ * Tell members that a fixture was voided, postponed (and followed by the group)
+ * or rescheduled, in chat and the activity log.
+ */
+export async function emitFixtureNoticeEvent(
+  groupId: number,
+  eventType: FixtureNoticeType,
+  data: {
+    fixtureId: number;
+    homeTeam: string;
+    awayTeam: string;
+    state: string;
+    startTs: number;
+  },
+  io?: TypedIOServer
+): Promise<void> {
+  try {
+    await emitSystemEvent(groupId, eventType, data, io);
+    await logActivity(
+      groupId,
+      eventType,
+      buildFixtureNoticeBody(eventType, data),
+      { meta: data, io }
+    );
+  } catch (err) {
+    log.warn({ groupId, eventType, err }, "Failed to emit fixture notice");
+  }
+}
@@ -1,53 +1,382 @@
 import { prisma, Prisma } from "@repo/db";
 import type { LastMessageInfo } from "@repo/types";
-import { BadRequestError } from "../../../../utils/errors";
-import { assertGroupMember } from "../permissions";
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+} from "../../../../utils/errors";
+import { assertGroupMember, isGroupAdminRole } from "../permissions";
+import { hasMatchStarted } from "../helpers";
+import {
+  canSeePrediction,
+  othersPredictionsVisible,
+} from "../prediction-visibility";
 import { getLogger } from "../../../../logger";
-import type { MentionData } from "../../../../types/socket";
+import type {
+  ChatMessagePayload,
+  ChatPredictionCard,
+  ChatReactionSummary,
+  MentionData,
+  TypedIOServer,
+} from "../../../../types/socket";
+import { buildModerationBody, type ModerationEventType } from "../moderation-events";
 
 const log = getLogger("groups.chat");
 const MAX_BODY = 2000;
 const DEFAULT_LIMIT = 30;
 const MAX_LIMIT = 50;
+/** Senders can edit their message for this long after sending. */
+export const EDIT_WINDOW_MS = 15 * 60 * 1000;
+const MAX_EMOJI_LENGTH = 16;
 
-export async function sendMessage(
-  groupId: number,
-  senderId: number,
-  body: string,
-  mentions?: MentionData[]
-) {
-  await assertGroupMember(groupId, senderId);
+const MESSAGE_INCLUDE = {
+  sender: { select: { id: true, username: true, image: true } },
+  replyTo: {
+    select: {
+      id: true,
+      body: true,
+      deletedAt: true,
+      sender: { select: { id: true, username: true } },
+    },
+  },
+  reactions: {
+    select: { emoji: true, userId: true },
+    orderBy: { id: "asc" },
+  },
+  groups: {
+    select: { groupRules: { select: { predictionVisibility: true } } },
+  },
+  prediction: {
+    select: {
+      userId: true,
+      prediction: true,
+      isJoker: true,
+      points: true,
+      settledAt: true,
+      groupFixtures: {
+        select: {
+          fixtures: {
+            select: {
+              id: true,
+              startTs: true,
+              state: true,
+              result: true,
+              homeScore90: true,
+              awayScore90: true,
+              homeTeam: { select: { name: true } },
+              awayTeam: { select: { name: true } },
+            },
+          },
+        },
+      },
+    },
+  },
+} satisfies Prisma.groupMessagesInclude;
+
+type MessageWithRelations = Prisma.groupMessagesGetPayload<{
+  include: typeof MESSAGE_INCLUDE;
+}>;
+
+/** Group reactions by emoji, in order of first use. */
+function summarizeReactions(
+  reactions: Array<{ emoji: string; userId: number }>
+): ChatReactionSummary[] {
+  const byEmoji = new Map<string, number[]>();
+  for (const r of reactions) {
+    const userIds = byEmoji.get(r.emoji) ?? [];
+    userIds.push(r.userId);
+    byEmoji.set(r.emoji, userIds);
+  }
+  return [...byEmoji].map(([emoji, userIds]) => ({
+    emoji,
+    count: userIds.length,
+    userIds,
+  }));
+}
+
+/**
+ * Card for a prediction_share message. Who sees the pick follows the group's
+ * predictionVisibility rule (its owner always does), unless it was shared with revealNow.
+ */
+function toPredictionCard(
+  m: MessageWithRelations,
+  viewerId: number | null,
+  viewerPredictedFixtureIds: ReadonlySet<number>
+): ChatPredictionCard | null {
+  const p = m.prediction;
+  if (m.type !== "prediction_share" || !p) return null;
+
+  const f = p.groupFixtures.fixtures;
+  const visibility = m.groups.groupRules?.predictionVisibility;
+  const fixtureStarted = hasMatchStarted(f);
+  const revealNow =
+    (m.meta as { revealNow?: boolean } | null)?.revealNow === true;
+  // Revealed to every member, whether or not they predicted
+  const revealed =
+    revealNow ||
+    othersPredictionsVisible({
+      visibility,
+      fixtureStarted,
+      viewerHasPredicted: false,
+    });
+  const visible =
+    revealed ||
+    canSeePrediction({
+      visibility,
+      viewerId,
+      ownerId: p.userId,
+      fixtureStarted,
+      viewerHasPredicted: viewerPredictedFixtureIds.has(f.id),
+    });
+
+  return {
+    fixtureId: f.id,
+    homeTeam: f.homeTeam?.name ?? "TBD",
+    awayTeam: f.awayTeam?.name ?? "TBD",
+    kickoffAt: new Date(f.startTs * 1000).toISOString(),
+    fixtureState: f.state,
+    homeScore: f.homeScore90,
+    awayScore: f.awayScore90,
+    revealed,
+    prediction: visible ? p.prediction : null,
+    isJoker: visible ? p.isJoker : false,
+    points: visible && p.settledAt ? Number(p.points) : null,
+  };
+}
 
+/**
+ * Wire shape for REST responses and socket events.
+ * Deleted messages keep their place in the timeline but lose body, meta and reactions.
+ * viewerId and the fixtures the viewer has predicted decide whether a not-yet-revealed
+ * shared prediction is shown (see the group's predictionVisibility rule).
+ */
+export function toChatMessagePayload(
+  m: MessageWithRelations,
+  viewerId: number | null = null,
+  viewerPredictedFixtureIds: ReadonlySet<number> = new Set()
+): ChatMessagePayload {
+  const deleted = m.deletedAt !== null;
+  return {
+    id: m.id,
+    createdAt: m.createdAt.toISOString(),
+    groupId: m.groupId,
+    senderId: m.senderId,
+    type: m.type,
+    body: deleted ? "" : m.body,
+    meta: deleted ? null : (m.meta as Record<string, unknown> | null),
+    sender: m.sender
+      ? { id: m.sender.id, username: m.sender.username, image: m.sender.image }
+      : null,
+    replyTo: m.replyTo
+      ? {
+          id: m.replyTo.id,
+          body: m.replyTo.deletedAt ? "" : m.replyTo.body,
+          deleted: m.replyTo.deletedAt !== null,
+          sender: m.replyTo.sender,
+        }
+      : null,
+    reactions: deleted ? [] : summarizeReactions(m.reactions),
+    editedAt: m.editedAt?.toISOString() ?? null,
+    deletedAt: m.deletedAt?.toISOString() ?? null,
+    prediction: deleted
+      ? null
+      : toPredictionCard(m, viewerId, viewerPredictedFixtureIds),
+  };
+}
+
+function validateBody(body: string): string {
   const trimmed = body.trim();
   if (!trimmed) throw new BadRequestError("Message body cannot be empty");
   if (trimmed.length > MAX_BODY)
     throw new BadRequestError(`Max ${MAX_BODY} characters`);
+  return trimmed;
+}
 
-  // Block sends to ended groups
+function mentionsMeta(mentions?: MentionData[]) {
+  return mentions?.length
+    ? ({ mentions } as unknown as Prisma.InputJsonValue)
+    : undefined;
+}
+
+async function assertGroupOpen(groupId: number) {
   const group = await prisma.groups.findUnique({
     where: { id: groupId },
     select: { status: true },
   });
   if (group?.status === "ended") throw new BadRequestError("Group has ended");
+}
 
-  const meta = mentions?.length
-    ? ({ mentions } as unknown as Prisma.InputJsonValue)
-    : undefined;
+/** Mark the group read up to the sender's own message so prior messages don't show as unread. */
+async function markReadUpTo(groupId: number, userId: number, messageId: number) {
+  await prisma.groupMessageReads.upsert({
+    where: { groupId_userId: { groupId, userId } },
+    update: { lastReadMessageId: messageId },
+    create: { groupId, userId, lastReadMessageId: messageId },
+  });
+}
 
-  const message = await prisma.groupMessages.create({
-    data: { groupId, senderId, type: "user_message", body: trimmed, meta },
+/** Members of the group (by user id) who have predicted this fixture. */
+async function findFixturePredictorIds(
+  groupId: number,
+  fixtureId: number
+): Promise<number[]> {
+  const rows = await prisma.groupPredictions.findMany({
+    where: { groupId, groupFixtures: { fixtureId } },
+    select: { userId: true },
   });
+  return rows.map((r) => r.userId);
+}
 
-  // Auto-mark as read up to the sent message so prior messages don't show as unread
-  await prisma.groupMessageReads.upsert({
-    where: { groupId_userId: { groupId, userId: senderId } },
-    update: { lastReadMessageId: message.id },
-    create: { groupId, userId: senderId, lastReadMessageId: message.id },
+/** Which of these fixtures the user has predicted in the group. */
+async function findPredictedFixtureIds(
+  groupId: number,
+  userId: number,
+  fixtureIds: number[]
+): Promise<number[]> {
+  const rows = await prisma.groupPredictions.findMany({
+    where: { groupId, userId, groupFixtures: { fixtureId: { in: fixtureIds } } },
+    select: { groupFixtures: { select: { fixtureId: true } } },
+  });
+  return rows.map((r) => r.groupFixtures.fixtureId);
+}
+
+/**
+ * Load a live (not deleted) message of the group chat, or of a sub-league
+ * channel when subLeagueId is given; otherwise throw NotFoundError.
+ */
+async function findActiveMessage(
+  groupId: number,
+  messageId: number,
+  subLeagueId: number | null = null
+) {
+  const message = await prisma.groupMessages.findFirst({
+    where: { id: messageId, groupId, subLeagueId, deletedAt: null },
+  });
+  if (!message) {
+    throw new NotFoundError(`Message ${messageId} not found`);
+  }
+  return message;
+}
+
+/**
+ * Send a user message to the group chat, or to a sub-league channel when
+ * subLeagueId is given (the caller checks sub-league membership).
+ */
+export async function sendMessage(
+  groupId: number,
+  senderId: number,
+  body: string,
+  mentions?: MentionData[],
+  replyToId?: number,
+  subLeagueId?: number
+) {
+  await assertGroupMember(groupId, senderId);
+
+  const trimmed = validateBody(body);
+
+  // Block sends to ended groups
+  await assertGroupOpen(groupId);
+
+  if (replyToId !== undefined) {
+    await findActiveMessage(groupId, replyToId, subLeagueId ?? null);
+  }
+
+  const message = await prisma.groupMessages.create({
+    data: {
+      groupId,
+      senderId,
+      type: "user_message",
+      body: trimmed,
+      meta: mentionsMeta(mentions),
+      replyToId,
+      subLeagueId,
+    },
+    include: MESSAGE_INCLUDE,
   });
 
+  // Read markers track the group chat only
+  if (subLeagueId === undefined) {
+    await markReadUpTo(groupId, senderId, message.id);
+  }
+
   return message;
 }
 
+/**
+ * Post the sender's prediction for a group fixture as a prediction card.
+ * Other members see the pick when the group's predictionVisibility rule allows,
+ * or straight away with revealNow; points show once the prediction is settled.
+ * Broadcasts "message:new": the sender's own sockets, and under "after_own_prediction"
+ * the members who predicted the fixture, get the unhidden card.
+ */
+export async function sharePrediction(
+  groupId: number,
+  senderId: number,
+  fixtureId: number,
+  revealNow: boolean,
+  io?: TypedIOServer
+): Promise<ChatMessagePayload> {
+  await assertGroupMember(groupId, senderId);
+  await assertGroupOpen(groupId);
+
+  const prediction = await prisma.groupPredictions.findFirst({
+    where: { groupId, userId: senderId, groupFixtures: { fixtureId } },
+    select: {
+      id: true,
+      groupFixtures: {
+        select: {
+          fixtures: {
+            select: {
+              homeTeam: { select: { name: true } },
+              awayTeam: { select: { name: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+  if (!prediction) {
+    throw new BadRequestError("You have no prediction for this fixture");
+  }
+
+  const { homeTeam, awayTeam } = prediction.groupFixtures.fixtures;
+  const message = await prisma.groupMessages.create({
+    data: {
+      groupId,
+      senderId,
+      type: "prediction_share",
+      body: `Shared a prediction: ${homeTeam?.name ?? "TBD"} vs ${awayTeam?.name ?? "TBD"}`,
+      meta: { fixtureId, revealNow },
+      predictionId: prediction.id,
+    },
+    include: MESSAGE_INCLUDE,
+  });
+
+  await markReadUpTo(groupId, senderId, message.id);
+
+  log.info({ groupId, senderId, fixtureId, revealNow }, "sharePrediction");
+  const ownPayload = toChatMessagePayload(message, senderId);
+  if (io) {
+    const predictorRooms =
+      message.groups.groupRules?.predictionVisibility === "after_own_prediction"
+        ? (await findFixturePredictorIds(groupId, fixtureId))
+            .filter((id) => id !== senderId)
+            .map((id) => `user:${id}`)
+        : [];
+    io.to(`group:${groupId}`)
+      .except([`user:${senderId}`, ...predictorRooms])
+      .emit("message:new", toChatMessagePayload(message));
+    if (predictorRooms.length > 0) {
+      io.to(predictorRooms).emit(
+        "message:new",
+        toChatMessagePayload(message, null, new Set([fixtureId]))
+      );
+    }
+    io.to(`user:${senderId}`).emit("message:new", ownPayload);
+  }
+  return ownPayload;
+}
+
 export async function createSystemMessage(
   groupId: number,
   eventType: string,
@@ -62,13 +391,18 @@ export async function createSystemMessage(
       body,
       meta: { eventType, ...eventData },
     },
+    include: MESSAGE_INCLUDE,
   });
 }
 
+/**
+ * Messages of the group chat, or of a sub-league channel with opts.subLeagueId
+ * (the caller checks sub-league membership). Newest first, paged by id.
+ */
 export async function getMessages(
   groupId: number,
   userId: number,
-  opts: { before?: number; limit?: number } = {}
+  opts: { before?: number; limit?: number; subLeagueId?: number } = {}
 ) {
   await assertGroupMember(groupId, userId);
   const limit = Math.min(opts.limit ?? DEFAULT_LIMIT, MAX_LIMIT);
@@ -76,27 +410,154 @@ export async function getMessages(
   const messages = await prisma.groupMessages.findMany({
     where: {
       groupId,
+      subLeagueId: opts.subLeagueId ?? null,
       ...(opts.before ? { id: { lt: opts.before } } : {}),
     },
     orderBy: { id: "desc" },
     take: limit,
-    include: {
-      sender: { select: { id: true, username: true, image: true } },
+    include: MESSAGE_INCLUDE,
+  });
+
+  const sharedFixtureIds = messages.flatMap((m) =>
+    m.prediction ? [m.prediction.groupFixtures.fixtures.id] : []
+  );
+  const predicted = new Set(
+    sharedFixtureIds.length > 0
+      ? await findPredictedFixtureIds(groupId, userId, sharedFixtureIds)
+      : []
+  );
+
+  return messages.map((m) => toChatMessagePayload(m, userId, predicted));
+}
+
+/** Live prediction_share messages for these fixtures, as viewer-neutral payloads. */
+export async function getPredictionShareMessages(
+  fixtureIds: number[]
+): Promise<ChatMessagePayload[]> {
+  const messages = await prisma.groupMessages.findMany({
+    where: {
+      type: "prediction_share",
+      deletedAt: null,
+      prediction: { groupFixtures: { fixtureId: { in: fixtureIds } } },
     },
+    include: MESSAGE_INCLUDE,
   });
+  return messages.map((m) => toChatMessagePayload(m));
+}
 
-  return messages.map((m) => ({
-    id: m.id,
-    createdAt: m.createdAt.toISOString(),
-    groupId: m.groupId,
-    senderId: m.senderId,
-    type: m.type,
-    body: m.body,
-    meta: m.meta as Record<string, unknown> | null,
-    sender: m.sender
-      ? { id: m.sender.id, username: m.sender.username, image: m.sender.image }
-      : null,
-  }));
+/**
+ * Edit a message's body (and mentions).
+ * Only the sender, only user messages, only within EDIT_WINDOW_MS of sending.
+ * Broadcasts "message:updated".
+ */
+export async function editMessage(
+  groupId: number,
+  messageId: number,
+  userId: number,
+  body: string,
+  mentions?: MentionData[],
+  io?: TypedIOServer
+): Promise<ChatMessagePayload> {
+  await assertGroupMember(groupId, userId);
+  const trimmed = validateBody(body);
+
+  const message = await findActiveMessage(groupId, messageId);
+  if (message.type !== "user_message" || message.senderId !== userId) {
+    throw new ForbiddenError("You can only edit your own messages");
+  }
+  if (Date.now() - message.createdAt.getTime() > EDIT_WINDOW_MS) {
+    throw new BadRequestError("This message can no longer be edited");
+  }
+
+  const updated = await prisma.groupMessages.update({
+    where: { id: messageId },
+    data: {
+      body: trimmed,
+      meta: mentionsMeta(mentions) ?? Prisma.DbNull,
+      editedAt: new Date(),
+    },
+    include: MESSAGE_INCLUDE,
+  });
+
+  const payload = toChatMessagePayload(updated);
+  io?.to(`group:${groupId}`).emit("message:updated", payload);
+  return payload;
+}
+
+/**
+ * Soft-delete a message. The sender can delete their own; admins can delete any user message.
+ * Broadcasts "message:updated" with the emptied message.
+ */
+export async function deleteMessage(
+  groupId: number,
+  messageId: number,
+  userId: number,
+  io?: TypedIOServer
+): Promise<ChatMessagePayload> {
+  const { role } = await assertGroupMember(groupId, userId);
+
+  const message = await findActiveMessage(groupId, messageId);
+  if (message.type === "system_event") {
+    throw new ForbiddenError("System messages cannot be deleted");
+  }
+  if (message.senderId !== userId && !isGroupAdminRole(role)) {
+    throw new ForbiddenError("You can only delete your own messages");
+  }
+
+  const updated = await prisma.groupMessages.update({
+    where: { id: messageId },
+    data: { deletedAt: new Date() },
+    include: MESSAGE_INCLUDE,
+  });
+
+  log.info({ groupId, messageId, userId }, "deleteMessage");
+  const payload = toChatMessagePayload(updated);
+  io?.to(`group:${groupId}`).emit("message:updated", payload);
+  return payload;
+}
+
+/**
+ * Toggle the user's emoji reaction on a message.
+ * Broadcasts "message:reaction" with the message's full reaction summary.
+ */
+export async function toggleReaction(
+  groupId: number,
+  messageId: number,
+  userId: number,
+  emoji: string,
+  io?: TypedIOServer
+): Promise<ChatReactionSummary[]> {
+  await assertGroupMember(groupId, userId);
+
+  const trimmed = emoji.trim();
+  if (!trimmed || trimmed.length > MAX_EMOJI_LENGTH) {
+    throw new BadRequestError("Invalid reaction");
+  }
+  await findActiveMessage(groupId, messageId);
+
+  const key = { messageId_userId_emoji: { messageId, userId, emoji: trimmed } };
+  const existing = await prisma.groupMessageReactions.findUnique({ where: key });
+  if (existing) {
+    await prisma.groupMessageReactions.delete({ where: key });
+  } else {
+    await prisma.groupMessageReactions.create({
+      data: { messageId, userId, emoji: trimmed },
+    });
+  }
+
+  const reactions = summarizeReactions(
+    await prisma.groupMessageReactions.findMany({
+      where: { messageId },
+      select: { emoji: true, userId: true },
+      orderBy: { id: "asc" },
+    })
+  );
+  io?.to(`group:${groupId}`).emit("message:reaction", {
+    groupId,
+    messageId,
+    reactions,
+  });
+  return reactions;
 }
 
 export async function markAsRead(
@@ -137,7 +598,9 @@ export async function getUnreadCounts(
       ON gmr.group_id = gm.group_id AND gmr.user_id = ${userId}
     WHERE gm.group_id IN (${Prisma.join(groupIds)})
       AND gm.id > COALESCE(gmr.last_read_message_id, 0)
-      AND gm.type = 'user_message'
+      AND gm.type IN ('user_message', 'prediction_share')
+      AND gm.deleted_at IS NULL
+      AND gm.sub_league_id IS NULL
       AND (gm.sender_id IS NULL OR gm.sender_id != ${userId})
     GROUP BY gm.group_id
   `;
@@ -183,6 +646,8 @@ export async function getGroupsChatPreview(
     JOIN users u ON u.id = gm.sender_id
     WHERE gm.group_id IN (${Prisma.join(groupIds)})
       AND gm.sender_id IS NOT NULL
+      AND gm.deleted_at IS NULL
+      AND gm.sub_league_id IS NULL
     ORDER BY gm.group_id, gm.created_at DESC
   `;
 
@@ -237,6 +702,54 @@ export async function getGroupsChatPreview(
   return result;
 }
 
+const MATCH_EVENT_LABELS: Record<string, { icon: string; label: string }> = {
+  goal: { icon: "⚽", label: "goal" },
+  own_goal: { icon: "⚽", label: "own goal" },
+  penalty: { icon: "⚽", label: "penalty goal" },
+  red_card: { icon: "🟥", label: "red card" },
+};
+
+/** e.g. "⚽ 54' goal — Salah (Liverpool)", "🟥 90+2' red card". */
+function buildMatchEventBody(data: Record<string, unknown>): string {
+  const { icon, label } = MATCH_EVENT_LABELS[String(data.type)] ?? {
+    icon: "•",
+    label: String(data.type),
+  };
+  const minute = data.extraMinute
+    ? `${data.minute}+${data.extraMinute}'`
+    : `${data.minute}'`;
+  const who = data.playerName
+    ? ` — ${data.playerName}${data.teamName ? ` (${data.teamName})` : ""}`
+    : data.teamName
+      ? ` — ${data.teamName}`
+      : "";
+  return `${icon} ${minute} ${label}${who}`;
+}
+
+/**
+ * e.g. "Arsenal vs Spurs — postponed, predictions voided",
+ * "Arsenal vs Spurs — rescheduled to 2026-11-02 19:45 UTC".
+ */
+export function buildFixtureNoticeBody(
+  eventType: string,
+  data: Record<string, unknown>
+): string {
+  const match = `${data.homeTeam || "?"} vs ${data.awayTeam || "?"}`;
+  switch (eventType) {
+    case "fixture_voided":
+      return `${match} — ${String(data.state).toLowerCase()}, predictions voided`;
+    case "fixture_postponed":
+      return `${match} — postponed, predictions kept until it is replayed`;
+    default: {
+      const kickoff = new Date(Number(data.startTs) * 1000)
+        .toISOString()
+        .slice(0, 16)
+        .replace("T", " ");
+      return `${match} — rescheduled to ${kickoff} UTC`;
+    }
+  }
+}
+
 function buildEventBody(
   eventType: string,
   data: Record<string, unknown>
@@ -246,14 +759,33 @@ function buildEventBody(
       return `${data.username || "Someone"} joined the group`;
     case "member_left":
       return `${data.username || "Someone"} left the group`;
+    case "member_removed":
+    case "member_banned":
+    case "member_unbanned":
+    case "member_promoted":
+    case "member_demoted":
+    case "ownership_transferred":
+      return buildModerationBody(
+        eventType as ModerationEventType,
+        String(data.actorUsername || "Someone"),
+        String(data.username || "someone")
+      );
     case "fixture_live":
       return `${data.homeTeam || "?"} vs ${data.awayTeam || "?"} — Kicked off!`;
     case "fixture_ft":
       return `${data.homeTeam} ${data.homeScore90 ?? "?"}-${data.awayScore90 ?? "?"} ${data.awayTeam} — Full Time`;
+    case "fixture_event":
+      return buildMatchEventBody(data);
     case "ranking_change":
       return `${data.username || "Someone"} moved to #${data.newPosition}`;
     case "leader_change":
       return `${data.username || "Someone"} is now leading!`;
+    case "round_winner":
+      return `${data.username || "Someone"} won ${data.roundLabel} with ${data.points} pts`;
+    case "fixture_voided":
+    case "fixture_postponed":
+    case "fixture_rescheduled":
+      return buildFixtureNoticeBody(eventType, data);
     default:
       return `Event: ${eventType}`;
   }
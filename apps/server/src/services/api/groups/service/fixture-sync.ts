@@ -23,6 +23,7 @@ export type SyncNewFixturesResult = {
  * Sync new fixtures from DB to active groups with leagues/teams selection mode.
  * Finds fixtures that match each group's leagueIds/teamIds and are not yet attached,
  * then attaches them. Only NS (not started) fixtures are synced; started/finished are excluded.
+ * Leagues groups tied to a season (see seasons.ts) only get that season's fixtures.
  */
 export async function syncNewFixturesToActiveGroups(opts?: {
   dryRun?: boolean;
@@ -32,7 +33,7 @@ export async function syncNewFixturesToActiveGroups(opts?: {
 
   const groupRules = await prisma.groupRules.findMany({
     where: {
-      groups: { status: GROUP_STATUS.ACTIVE },
+      groups: { status: GROUP_STATUS.ACTIVE, archivedAt: null },
       selectionMode: { in: [SELECTION_MODE.LEAGUES, SELECTION_MODE.TEAMS] },
       OR: [
         { groupLeaguesIds: { isEmpty: false } },
@@ -44,6 +45,7 @@ export async function syncNewFixturesToActiveGroups(opts?: {
       selectionMode: true,
       groupLeaguesIds: true,
       groupTeamsIds: true,
+      groups: { select: { seasonId: true } },
     },
   });
 
@@ -62,10 +64,13 @@ export async function syncNewFixturesToActiveGroups(opts?: {
       if (isLeagues && leagueIds.length === 0) continue;
       if (!isLeagues && teamIds.length === 0) continue;
 
+      // Groups continued across seasons only follow their own season
+      const seasonId = isLeagues ? rules.groups.seasonId : null;
       const baseWhere = {
         state: { in: [...NOT_STARTED_STATES] as FixtureState[] },
         startTs: { gt: now },
         isSandbox: false,
+        ...(seasonId != null && { seasonId }),
       };
       const where = isLeagues
         ? buildFixturesByLeaguesWhere(baseWhere, leagueIds)
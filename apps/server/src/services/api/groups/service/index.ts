@@ -10,16 +10,51 @@ export { saveGroupPrediction, saveGroupPredictionsBatch } from "./predictions";
 export { getGroupGamesFilters } from "./filters";
 export { getPredictionsOverview } from "./overview";
 export { getGroupRanking } from "./ranking";
+export { getPeriodRanking, getRoundHistory } from "./round-rankings";
+export { getRankingHistory } from "./ranking-history";
+export { emitFixtureUpdates, fixtureRoom } from "./live-updates";
+export {
+  getGroupOutrights,
+  createGroupOutright,
+  saveOutrightPick,
+} from "./outrights";
+export { getGroupTies, saveTiePick } from "./ties";
+export { continueGroupToNextSeason, getAllTimeTable } from "./seasons";
+export { getGroupBracket, startGroupBracket } from "./bracket";
+export {
+  getMySubLeagues,
+  createSubLeague,
+  joinSubLeagueByCode,
+  leaveSubLeague,
+  deleteSubLeague,
+  getSubLeagueRanking,
+  getSubLeagueMessages,
+  sendSubLeagueMessage,
+} from "./sub-leagues";
 export { getGroupMembers, leaveGroup } from "./members";
+export {
+  removeGroupMember,
+  banGroupMember,
+  unbanGroupMember,
+  setGroupMemberRole,
+  transferGroupOwnership,
+} from "./moderation";
 export { sendNudge } from "./nudge";
 export { settlePredictionsForFixtures } from "./settlement";
+export { freezeGroupFixtureOdds } from "./odds-freeze";
 export {
   joinGroupByCode,
   joinPublicGroup,
   generateInviteCode,
   getInviteCode,
 } from "./join";
+export {
+  getJoinRequests,
+  acceptJoinRequest,
+  rejectJoinRequest,
+} from "./join-requests";
 export { getGroupPreview } from "./preview";
+export { getScoringStrategies, getScoringPreview } from "./scoring-strategies";
 export {
   logActivity,
   getGroupActivity,
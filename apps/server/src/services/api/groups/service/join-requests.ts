@@ -0,0 +1,217 @@
+// groups/service/join-requests.ts
+// Join-request approval for groups with requiresApproval: list, accept, reject.
+
+import { prisma } from "@repo/db";
+import type { ApiJoinRequestsResponse } from "@repo/types";
+import { assertGroupAdmin } from "../permissions";
+import { repository as repo } from "../repository";
+import {
+  DEFAULT_MAX_MEMBERS,
+  GROUP_STATUS,
+  MEMBER_STATUS,
+} from "../constants";
+import { BadRequestError, NotFoundError } from "../../../../utils/errors";
+import { invalidateRankingCache } from "../../../../lib/cache-invalidation";
+import { sendPushToUsers } from "../../../push/push.service";
+import { getLogger } from "../../../../logger";
+import type { TypedIOServer } from "../../../../types/socket";
+import { emitMemberJoinedEvent } from "./chat-events";
+
+const log = getLogger("groups.join-requests");
+
+type JoinRequestGroup = { id: number; name: string };
+
+/**
+ * Tell the group's owner and admins about a new join request (push only).
+ * Never throws; a failed notification must not fail the join.
+ */
+export async function notifyJoinRequested(
+  group: JoinRequestGroup,
+  userId: number
+): Promise<void> {
+  try {
+    const [adminIds, user] = await Promise.all([
+      repo.findGroupAdminUserIds(group.id),
+      prisma.users.findUnique({
+        where: { id: userId },
+        select: { username: true },
+      }),
+    ]);
+
+    await sendPushToUsers(adminIds, {
+      title: "Join Request",
+      body: `${user?.username || "Someone"} asked to join ${group.name}`,
+      data: { type: "join_request", groupId: group.id },
+    });
+  } catch (err) {
+    log.warn({ groupId: group.id, userId, err }, "Failed to notify join request");
+  }
+}
+
+/**
+ * Tell the requester their request was handled: a push plus an entry in their activity feed.
+ * Never throws.
+ */
+async function notifyRequester(
+  group: JoinRequestGroup,
+  userId: number,
+  approved: boolean
+): Promise<void> {
+  const eventType = approved ? "join_request_approved" : "join_request_rejected";
+  const body = approved
+    ? `Your request to join ${group.name} was approved`
+    : `Your request to join ${group.name} was declined`;
+
+  try {
+    await prisma.userActivityEvents.create({
+      data: {
+        userId,
+        groupId: group.id,
+        eventType,
+        body,
+        meta: { groupId: group.id, groupName: group.name },
+      },
+    });
+  } catch (err) {
+    log.warn({ groupId: group.id, userId, err }, "Failed to log join request outcome");
+  }
+
+  try {
+    await sendPushToUsers([userId], {
+      title: approved ? "Request Approved" : "Request Declined",
+      body,
+      data: { type: eventType, groupId: group.id },
+    });
+  } catch (err) {
+    log.warn({ groupId: group.id, userId, err }, "Failed to push join request outcome");
+  }
+}
+
+/** Throw NotFoundError unless the member record is a pending request. */
+function assertPendingRequest<T extends { status: string }>(
+  member: T | null,
+  groupId: number,
+  targetUserId: number
+): T {
+  if (!member || member.status !== MEMBER_STATUS.PENDING) {
+    throw new NotFoundError(
+      `No pending join request from user ${targetUserId} in group with id ${groupId}`
+    );
+  }
+  return member;
+}
+
+/**
+ * List pending join requests, oldest first.
+ * Only the owner and admins can see the queue.
+ */
+export async function getJoinRequests(
+  groupId: number,
+  userId: number
+): Promise<ApiJoinRequestsResponse> {
+  await assertGroupAdmin(groupId, userId);
+
+  const { members, users } = await repo.findPendingGroupMembersWithUsers(groupId);
+  const userById = new Map(users.map((u) => [u.id, u]));
+
+  const data = members.map((m) => {
+    const user = userById.get(m.userId);
+    return {
+      userId: m.userId,
+      username: user?.username ?? null,
+      image: user?.image ?? null,
+      requestedAt: m.updatedAt.toISOString(),
+    };
+  });
+
+  return {
+    status: "success",
+    data,
+    message: "Join requests fetched successfully",
+  };
+}
+
+/**
+ * Accept a pending join request.
+ * - Owner or admin only; the group must be active.
+ * - Max members is enforced here rather than when the request was made.
+ * Runs in a transaction to prevent race conditions (concurrent accepts exceeding maxMembers).
+ */
+export async function acceptJoinRequest(
+  groupId: number,
+  actorId: number,
+  targetUserId: number,
+  io?: TypedIOServer
+): Promise<{ success: boolean }> {
+  log.debug({ groupId, actorId, targetUserId }, "acceptJoinRequest - start");
+
+  const { group } = await assertGroupAdmin(groupId, actorId);
+  if (group.status !== GROUP_STATUS.ACTIVE) {
+    throw new BadRequestError("This group is not accepting new members");
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const member = assertPendingRequest(
+      await tx.groupMembers.findUnique({
+        where: { groupId_userId: { groupId, userId: targetUserId } },
+      }),
+      groupId,
+      targetUserId
+    );
+
+    if (!group.isOfficial) {
+      const rules = await tx.groupRules.findUnique({
+        where: { groupId },
+        select: { maxMembers: true },
+      });
+      const maxMembers = rules?.maxMembers ?? DEFAULT_MAX_MEMBERS;
+
+      const memberCount = await tx.groupMembers.count({
+        where: { groupId, status: MEMBER_STATUS.JOINED },
+      });
+      if (memberCount >= maxMembers) {
+        throw new BadRequestError(
+          "This group has reached its maximum number of members"
+        );
+      }
+    }
+
+    await tx.groupMembers.update({
+      where: { id: member.id },
+      data: { status: MEMBER_STATUS.JOINED },
+    });
+  });
+
+  await invalidateRankingCache([groupId]);
+  await emitMemberJoinedEvent(groupId, targetUserId, io);
+  await notifyRequester(group, targetUserId, true);
+
+  log.info({ groupId, actorId, targetUserId }, "acceptJoinRequest - success");
+  return { success: true };
+}
+
+/**
+ * Reject a pending join request. Owner or admin only.
+ * The user may request again later.
+ */
+export async function rejectJoinRequest(
+  groupId: number,
+  actorId: number,
+  targetUserId: number
+): Promise<{ success: boolean }> {
+  log.debug({ groupId, actorId, targetUserId }, "rejectJoinRequest - start");
+
+  const { group } = await assertGroupAdmin(groupId, actorId);
+  const member = assertPendingRequest(
+    await repo.findGroupMember(groupId, targetUserId),
+    groupId,
+    targetUserId
+  );
+
+  await repo.updateGroupMember(member.id, { status: MEMBER_STATUS.LEFT });
+
+  await notifyRequester(group, targetUserId, false);
+
+  log.info({ groupId, actorId, targetUserId }, "rejectJoinRequest - success");
+  return { success: true };
+}
@@ -21,6 +21,7 @@ import { repository as repo } from "../repository";
 import { getLogger } from "../../../../logger";
 import type { ApiGroupResponse } from "@repo/types";
 import { emitMemberJoinedEvent } from "./chat-events";
+import { notifyJoinRequested } from "./join-requests";
 import type { TypedIOServer } from "../../../../types/socket";
 
 const log = getLogger("groups.join");
@@ -133,6 +134,7 @@ export async function getInviteCode(
 /**
  * Join a private group using an invite code.
  * Validates: code exists, group active, not already joined, max members.
+ * If the group requires approval, a pending request is created instead.
  */
 export async function joinGroupByCode(
   code: string,
@@ -150,11 +152,17 @@ export async function joinGroupByCode(
     throw new BadRequestError("This group is not accepting new members");
   }
 
-  await validateAndJoin(group.id, userId);
+  const membershipStatus = await validateAndJoin(group.id, userId);
+  const data = { ...buildGroupItem(group), membershipStatus };
+
+  if (membershipStatus === MEMBER_STATUS.PENDING) {
+    await notifyJoinRequested(group, userId);
+    log.info({ groupId: group.id, userId }, "joinGroupByCode - pending");
+    return { status: "success", data, message: "Join request sent" };
+  }
 
   await emitMemberJoinedEvent(group.id, userId, io);
 
-  const data = buildGroupItem(group);
   log.info({ groupId: group.id, userId }, "joinGroupByCode - success");
 
   return { status: "success", data, message: "Joined group successfully" };
@@ -163,6 +171,7 @@ export async function joinGroupByCode(
 /**
  * Join a public group directly (no code needed).
  * Validates: group exists, is public, is active, not already joined, max members.
+ * If the group requires approval, a pending request is created instead.
  */
 export async function joinPublicGroup(
   groupId: number,
@@ -181,11 +190,17 @@ export async function joinPublicGroup(
     throw new BadRequestError("This group is not accepting new members");
   }
 
-  await validateAndJoin(groupId, userId);
+  const membershipStatus = await validateAndJoin(groupId, userId);
+  const data = { ...buildGroupItem(group), membershipStatus };
+
+  if (membershipStatus === MEMBER_STATUS.PENDING) {
+    await notifyJoinRequested(group, userId);
+    log.info({ groupId, userId }, "joinPublicGroup - pending");
+    return { status: "success", data, message: "Join request sent" };
+  }
 
   await emitMemberJoinedEvent(groupId, userId, io);
 
-  const data = buildGroupItem(group);
   log.info({ groupId, userId }, "joinPublicGroup - success");
 
   return { status: "success", data, message: "Joined group successfully" };
@@ -193,11 +208,16 @@ export async function joinPublicGroup(
 
 /**
  * Shared validation + join logic for both code and public flows.
- * Checks: not already joined, max members not reached, creates/reactivates member.
+ * Checks: not already joined, not banned, no pending request, max members not reached,
+ * creates/reactivates member. Groups that require approval get a pending member instead;
+ * max members is then checked when the request is accepted.
  * Runs in a transaction to prevent race conditions (concurrent joins exceeding maxMembers).
  */
-async function validateAndJoin(groupId: number, userId: number): Promise<void> {
-  await prisma.$transaction(async (tx) => {
+async function validateAndJoin(
+  groupId: number,
+  userId: number
+): Promise<typeof MEMBER_STATUS.JOINED | typeof MEMBER_STATUS.PENDING> {
+  return prisma.$transaction(async (tx) => {
     // Check if already a member
     const existingMember = await tx.groupMembers.findUnique({
       where: { groupId_userId: { groupId, userId } },
@@ -205,6 +225,20 @@ async function validateAndJoin(groupId: number, userId: number): Promise<void> {
     if (existingMember && existingMember.status === MEMBER_STATUS.JOINED) {
       throw new ConflictError("You are already a member of this group");
     }
+    if (existingMember && existingMember.status === MEMBER_STATUS.BANNED) {
+      throw new ForbiddenError("You have been banned from this group");
+    }
+    if (existingMember && existingMember.status === MEMBER_STATUS.PENDING) {
+      throw new ConflictError("Your request to join this group is pending");
+    }
+
+    const rules = await tx.groupRules.findUnique({
+      where: { groupId },
+      select: { maxMembers: true, requiresApproval: true },
+    });
+    const status = rules?.requiresApproval
+      ? MEMBER_STATUS.PENDING
+      : MEMBER_STATUS.JOINED;
 
     // Check if group is official (unlimited members)
     const groupData = await tx.groups.findUnique({
@@ -212,12 +246,8 @@ async function validateAndJoin(groupId: number, userId: number): Promise<void> {
       select: { isOfficial: true },
     });
 
-    if (!groupData?.isOfficial) {
+    if (status === MEMBER_STATUS.JOINED && !groupData?.isOfficial) {
       // Check max members (from groupRules)
-      const rules = await tx.groupRules.findUnique({
-        where: { groupId },
-        select: { maxMembers: true },
-      });
       const maxMembers = rules?.maxMembers ?? DEFAULT_MAX_MEMBERS;
 
       const memberCount = await tx.groupMembers.count({
@@ -234,7 +264,7 @@ async function validateAndJoin(groupId: number, userId: number): Promise<void> {
     if (existingMember) {
       await tx.groupMembers.update({
         where: { id: existingMember.id },
-        data: { status: MEMBER_STATUS.JOINED },
+        data: { status },
       });
     } else {
       await tx.groupMembers.create({
@@ -242,9 +272,11 @@ async function validateAndJoin(groupId: number, userId: number): Promise<void> {
           groupId,
           userId,
           role: "member",
-          status: "joined",
+          status,
         },
       });
     }
+
+    return status;
   });
 }
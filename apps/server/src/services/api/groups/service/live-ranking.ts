@@ -0,0 +1,155 @@
+// groups/service/live-ranking.ts
+// Provisional ("live") ranking: the settled ranking plus the points unsettled
+// predictions would earn on in-play fixtures if the current scores were final.
+
+import { prisma } from "@repo/db";
+import type { FixtureState } from "@repo/db";
+import { LIVE_STATES } from "@repo/utils";
+import { repository as repo } from "../repository";
+import { getCache } from "../../../../lib/cache";
+import type { RankingItem } from "../types";
+import type { ScoringRules } from "../scoring";
+import { parseFrozenOdds } from "../helpers/fixture-odds";
+import { calculateLivePoints, projectLiveRanking } from "../live-points";
+
+const liveRankingCache = getCache("ranking-live");
+
+/** Live scores move every poll, so the live ranking is cached much shorter than the settled one. */
+const LIVE_RANKING_TTL_SECONDS = 30;
+
+/**
+ * Live points per member of a group, summed over its in-play fixtures
+ * (only `fixtureId` when given). Members without live points are omitted.
+ */
+export async function loadLivePoints(
+  groupId: number,
+  fixtureId?: number
+): Promise<Map<number, number>> {
+  const livePoints = new Map<number, number>();
+
+  const [rules, groupFixtures] = await Promise.all([
+    repo.findGroupRules(groupId),
+    prisma.groupFixtures.findMany({
+      where: {
+        groupId,
+        ...(fixtureId != null && { fixtureId }),
+        fixtures: { state: { in: [...LIVE_STATES] as FixtureState[] } },
+      },
+      select: {
+        id: true,
+        frozenOdds: true,
+        fixtures: {
+          select: {
+            homeScore90: true,
+            awayScore90: true,
+            homeScoreET: true,
+            awayScoreET: true,
+            penHome: true,
+            penAway: true,
+            leg: true,
+            firstScoringTeam: true,
+          },
+        },
+      },
+    }),
+  ]);
+  if (!rules || !groupFixtures.length) return livePoints;
+
+  const scoringRules: ScoringRules = {
+    predictionMode: rules.predictionMode ?? "CorrectScore",
+    onTheNosePoints: rules.onTheNosePoints ?? 0,
+    correctDifferencePoints: rules.correctDifferencePoints ?? 0,
+    outcomePoints: rules.outcomePoints ?? 0,
+    koRoundMode: rules.koRoundMode ?? "FullTime",
+    scoringStrategy: rules.scoringStrategy,
+    scoringConfig: rules.scoringConfig as ScoringRules["scoringConfig"],
+    underdogBonus: rules.underdogBonus,
+    underdogMaxMultiplier: rules.underdogMaxMultiplier,
+  };
+  const marketRules = {
+    bttsPoints: rules.bttsPoints ?? 0,
+    overUnderPoints: rules.overUnderPoints ?? 0,
+    firstTeamToScorePoints: rules.firstTeamToScorePoints ?? 0,
+  };
+
+  const predictions = await prisma.groupPredictions.findMany({
+    where: {
+      groupFixtureId: { in: groupFixtures.map((gf) => gf.id) },
+      settledAt: null,
+    },
+    select: {
+      userId: true,
+      groupFixtureId: true,
+      prediction: true,
+      isJoker: true,
+      bttsPick: true,
+      overUnderPick: true,
+      firstTeamToScorePick: true,
+    },
+  });
+
+  const groupFixtureById = new Map(groupFixtures.map((gf) => [gf.id, gf]));
+  for (const pred of predictions) {
+    const gf = groupFixtureById.get(pred.groupFixtureId);
+    const fixture = gf?.fixtures;
+    if (!gf || fixture?.homeScore90 == null || fixture.awayScore90 == null) {
+      continue;
+    }
+    const points = calculateLivePoints(
+      pred,
+      {
+        ...fixture,
+        homeScore90: fixture.homeScore90,
+        awayScore90: fixture.awayScore90,
+      },
+      scoringRules,
+      marketRules,
+      parseFrozenOdds(gf.frozenOdds)
+    );
+    livePoints.set(pred.userId, (livePoints.get(pred.userId) ?? 0) + points);
+  }
+  return livePoints;
+}
+
+/**
+ * Settled ranking re-ranked with live points. totalPoints and rank become
+ * provisional; provisionalPoints, settledRank and provisionalRankChange show
+ * how far the in-play fixtures move each member. previousRank/rankChange are
+ * measured from the settled rank too, so they match the provisional rank.
+ */
+async function computeLiveRanking(
+  groupId: number,
+  settled: RankingItem[]
+): Promise<RankingItem[]> {
+  const livePoints = await loadLivePoints(groupId);
+  const settledByUser = new Map(settled.map((item) => [item.userId, item]));
+
+  return projectLiveRanking(settled, livePoints).map((p) => ({
+    ...settledByUser.get(p.userId)!,
+    rank: p.projectedRank,
+    totalPoints: p.projectedPoints,
+    provisionalPoints: p.livePoints,
+    settledRank: p.rank,
+    provisionalRankChange: p.rankChange,
+    previousRank: p.rank,
+    rankChange: p.rankChange,
+  }));
+}
+
+/**
+ * Live ranking of a group built on its settled ranking.
+ * Cached separately from the settled ranking, with a short TTL.
+ */
+export async function getLiveRanking(
+  groupId: number,
+  settled: RankingItem[]
+): Promise<RankingItem[]> {
+  if (liveRankingCache) {
+    return liveRankingCache.getOrSet(
+      String(groupId),
+      LIVE_RANKING_TTL_SECONDS,
+      () => computeLiveRanking(groupId, settled)
+    );
+  }
+  return computeLiveRanking(groupId, settled);
+}
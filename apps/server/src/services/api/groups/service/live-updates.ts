@@ -0,0 +1,113 @@
+// groups/service/live-updates.ts
+// Live score push: "fixture:update" to Socket.IO fixture rooms.
+//
+// Clients join `fixture:<id>` for the score only, or `fixture:<id>:group:<groupId>`
+// to also get the group's live-points projection. Emits go through io, so the
+// Redis adapter fans them out to every server instance.
+
+import { prisma } from "@repo/db";
+import { isLive } from "@repo/utils";
+import { getLogger } from "../../../../logger";
+import type {
+  FixtureUpdatePayload,
+  TypedIOServer,
+} from "../../../../types/socket";
+import { projectLiveRanking } from "../live-points";
+import { getCoreRanking } from "./ranking";
+import { loadLivePoints } from "./live-ranking";
+
+const log = getLogger("groups.live-updates");
+
+/** Socket.IO room for a fixture, optionally scoped to a group. */
+export function fixtureRoom(fixtureId: number, groupId?: number): string {
+  return groupId != null
+    ? `fixture:${fixtureId}:group:${groupId}`
+    : `fixture:${fixtureId}`;
+}
+
+async function hasSubscribers(io: TypedIOServer, room: string) {
+  const operator = io.in(room);
+  // The standalone worker's Redis emitter can't list sockets; emit unconditionally
+  if (typeof operator.fetchSockets !== "function") return true;
+  const sockets = await operator.fetchSockets();
+  return sockets.length > 0;
+}
+
+/**
+ * Emit the current state and score of the given fixtures to their rooms.
+ * Group-scoped rooms with at least one subscriber also get a provisional
+ * projection: every member's settled total plus what their prediction would
+ * earn if the live score were final. Silently catches errors per fixture.
+ */
+export async function emitFixtureUpdates(
+  fixtureIds: number[],
+  io?: TypedIOServer
+): Promise<void> {
+  if (!io || !fixtureIds.length) return;
+
+  const fixtures = await prisma.fixtures.findMany({
+    where: { id: { in: fixtureIds } },
+    select: {
+      id: true,
+      state: true,
+      liveMinute: true,
+      homeScore90: true,
+      awayScore90: true,
+      homeScoreET: true,
+      awayScoreET: true,
+      penHome: true,
+      penAway: true,
+    },
+  });
+
+  for (const fixture of fixtures) {
+    const payload: FixtureUpdatePayload = {
+      fixtureId: fixture.id,
+      state: fixture.state,
+      liveMinute: fixture.liveMinute,
+      homeScore90: fixture.homeScore90,
+      awayScore90: fixture.awayScore90,
+      homeScoreET: fixture.homeScoreET,
+      awayScoreET: fixture.awayScoreET,
+      penHome: fixture.penHome,
+      penAway: fixture.penAway,
+    };
+    io.to(fixtureRoom(fixture.id)).emit("fixture:update", payload);
+
+    try {
+      const groupFixtures = await prisma.groupFixtures.findMany({
+        where: { fixtureId: fixture.id },
+        select: { groupId: true },
+      });
+      for (const gf of groupFixtures) {
+        const room = fixtureRoom(fixture.id, gf.groupId);
+        if (!(await hasSubscribers(io, room))) continue;
+
+        // Projections only while in play; finished fixtures are scored by settlement
+        const projection = isLive(fixture.state)
+          ? await buildProjection(gf.groupId, fixture.id)
+          : undefined;
+
+        io.to(room).emit("fixture:update", {
+          ...payload,
+          groupId: gf.groupId,
+          ...(projection && { projection }),
+        });
+      }
+    } catch (err) {
+      log.warn(
+        { fixtureId: fixture.id, err },
+        "Failed to emit group fixture updates"
+      );
+    }
+  }
+}
+
+/** Live-points projection of one group for one in-play fixture. */
+async function buildProjection(groupId: number, fixtureId: number) {
+  const [ranking, livePoints] = await Promise.all([
+    getCoreRanking(groupId),
+    loadLivePoints(groupId, fixtureId),
+  ]);
+  return projectLiveRanking(ranking, livePoints);
+}
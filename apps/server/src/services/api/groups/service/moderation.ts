@@ -0,0 +1,238 @@
+// groups/service/moderation.ts
+// Member moderation: remove, ban/unban, promote/demote admins, transfer ownership.
+
+import { assertGroupAdmin, assertGroupExists, canModerate } from "../permissions";
+import { repository as repo } from "../repository";
+import { MEMBER_ROLE, MEMBER_STATUS, type MemberRole } from "../constants";
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+} from "../../../../utils/errors";
+import { invalidateRankingCache } from "../../../../lib/cache-invalidation";
+import { getLogger } from "../../../../logger";
+import type { TypedIOServer } from "../../../../types/socket";
+import { emitModerationEvent } from "./chat-events";
+
+const log = getLogger("groups.moderation");
+
+/**
+ * Load the acting admin and the joined target member.
+ * Throws BadRequestError for self-moderation, NotFoundError if the target is not
+ * a joined member, ForbiddenError if the actor's role does not outrank the target's.
+ */
+async function assertCanModerateMember(
+  groupId: number,
+  actorId: number,
+  targetUserId: number
+) {
+  if (actorId === targetUserId) {
+    throw new BadRequestError("You cannot moderate yourself");
+  }
+
+  const { group, role: actorRole } = await assertGroupAdmin(groupId, actorId);
+
+  const target = await repo.findGroupMember(groupId, targetUserId);
+  if (!target || target.status !== MEMBER_STATUS.JOINED) {
+    throw new NotFoundError(
+      `User ${targetUserId} is not a member of group with id ${groupId}`
+    );
+  }
+
+  const targetRole: MemberRole =
+    group.creatorId === targetUserId
+      ? MEMBER_ROLE.OWNER
+      : (target.role as MemberRole);
+  if (!canModerate(actorRole, targetRole)) {
+    throw new ForbiddenError(
+      `Your role cannot moderate a group ${targetRole}`
+    );
+  }
+
+  return { group, actorRole, target, targetRole };
+}
+
+/** Drop the user's open sockets from the group room so they stop receiving chat. */
+function disconnectFromGroup(
+  groupId: number,
+  userId: number,
+  io?: TypedIOServer
+) {
+  io?.in(`user:${userId}`).socketsLeave(`group:${groupId}`);
+}
+
+/**
+ * Remove a member from a group.
+ * - Owner can remove anyone; admins can remove regular members.
+ * - The member may join again later (as a regular member).
+ */
+export async function removeGroupMember(
+  groupId: number,
+  actorId: number,
+  targetUserId: number,
+  io?: TypedIOServer
+): Promise<{ success: boolean }> {
+  log.debug({ groupId, actorId, targetUserId }, "removeGroupMember - start");
+
+  const { target } = await assertCanModerateMember(
+    groupId,
+    actorId,
+    targetUserId
+  );
+  await repo.updateGroupMember(target.id, {
+    status: MEMBER_STATUS.LEFT,
+    role: MEMBER_ROLE.MEMBER,
+  });
+
+  disconnectFromGroup(groupId, targetUserId, io);
+  await invalidateRankingCache([groupId]);
+  emitModerationEvent(groupId, "member_removed", actorId, targetUserId, io);
+
+  log.info({ groupId, actorId, targetUserId }, "removeGroupMember - success");
+  return { success: true };
+}
+
+/**
+ * Ban a member from a group.
+ * Same permissions as removing; a banned user cannot rejoin until unbanned.
+ */
+export async function banGroupMember(
+  groupId: number,
+  actorId: number,
+  targetUserId: number,
+  io?: TypedIOServer
+): Promise<{ success: boolean }> {
+  log.debug({ groupId, actorId, targetUserId }, "banGroupMember - start");
+
+  const { target } = await assertCanModerateMember(
+    groupId,
+    actorId,
+    targetUserId
+  );
+  await repo.updateGroupMember(target.id, {
+    status: MEMBER_STATUS.BANNED,
+    role: MEMBER_ROLE.MEMBER,
+  });
+
+  disconnectFromGroup(groupId, targetUserId, io);
+  await invalidateRankingCache([groupId]);
+  emitModerationEvent(groupId, "member_banned", actorId, targetUserId, io);
+
+  log.info({ groupId, actorId, targetUserId }, "banGroupMember - success");
+  return { success: true };
+}
+
+/**
+ * Lift a ban. The user is not re-added; they may join again.
+ * Any admin can unban.
+ */
+export async function unbanGroupMember(
+  groupId: number,
+  actorId: number,
+  targetUserId: number,
+  io?: TypedIOServer
+): Promise<{ success: boolean }> {
+  log.debug({ groupId, actorId, targetUserId }, "unbanGroupMember - start");
+
+  await assertGroupAdmin(groupId, actorId);
+
+  const target = await repo.findGroupMember(groupId, targetUserId);
+  if (!target || target.status !== MEMBER_STATUS.BANNED) {
+    throw new NotFoundError(
+      `User ${targetUserId} is not banned from group with id ${groupId}`
+    );
+  }
+  await repo.updateGroupMember(target.id, { status: MEMBER_STATUS.LEFT });
+
+  emitModerationEvent(groupId, "member_unbanned", actorId, targetUserId, io);
+
+  log.info({ groupId, actorId, targetUserId }, "unbanGroupMember - success");
+  return { success: true };
+}
+
+/**
+ * Promote a member to admin or demote an admin to member.
+ * - Admins can promote regular members.
+ * - Only the owner can demote admins.
+ */
+export async function setGroupMemberRole(
+  groupId: number,
+  actorId: number,
+  targetUserId: number,
+  role: Exclude<MemberRole, "owner">,
+  io?: TypedIOServer
+): Promise<{ success: boolean }> {
+  log.debug(
+    { groupId, actorId, targetUserId, role },
+    "setGroupMemberRole - start"
+  );
+
+  const { target, targetRole } = await assertCanModerateMember(
+    groupId,
+    actorId,
+    targetUserId
+  );
+  if (targetRole === role) {
+    throw new BadRequestError(`User is already a group ${role}`);
+  }
+  await repo.updateGroupMember(target.id, { role });
+
+  emitModerationEvent(
+    groupId,
+    role === MEMBER_ROLE.ADMIN ? "member_promoted" : "member_demoted",
+    actorId,
+    targetUserId,
+    io
+  );
+
+  log.info(
+    { groupId, actorId, targetUserId, role },
+    "setGroupMemberRole - success"
+  );
+  return { success: true };
+}
+
+/**
+ * Transfer group ownership to another joined member.
+ * - Only the owner (creator) can do this.
+ * - The previous owner stays in the group as an admin.
+ */
+export async function transferGroupOwnership(
+  groupId: number,
+  actorId: number,
+  targetUserId: number,
+  io?: TypedIOServer
+): Promise<{ success: boolean }> {
+  log.debug({ groupId, actorId, targetUserId }, "transferGroupOwnership - start");
+
+  const group = await assertGroupExists(groupId);
+  if (group.creatorId !== actorId) {
+    throw new ForbiddenError("Only the group owner can transfer ownership");
+  }
+  if (targetUserId === actorId) {
+    throw new BadRequestError("You already own this group");
+  }
+
+  const target = await repo.findGroupMember(groupId, targetUserId);
+  if (!target || target.status !== MEMBER_STATUS.JOINED) {
+    throw new NotFoundError(
+      `User ${targetUserId} is not a member of group with id ${groupId}`
+    );
+  }
+
+  await repo.transferGroupOwnership(groupId, actorId, targetUserId);
+
+  emitModerationEvent(
+    groupId,
+    "ownership_transferred",
+    actorId,
+    targetUserId,
+    io
+  );
+
+  log.info(
+    { groupId, actorId, targetUserId },
+    "transferGroupOwnership - success"
+  );
+  return { success: true };
+}
@@ -0,0 +1,86 @@
+// groups/service/odds-freeze.ts
+// Freezes 1X2 odds per group fixture once its fixture has started, so odds-aware scoring is reproducible.
+
+import { prisma, type FixtureState } from "@repo/db";
+import { FINISHED_STATES, LIVE_STATES } from "@repo/utils";
+import { getLogger } from "../../../../logger";
+import { rulesNeedOdds } from "../scoring";
+import type { OutcomeOdds } from "../scoring-strategies";
+import { loadOutcomeOdds } from "../helpers/fixture-odds";
+
+const log = getLogger("OddsFreeze");
+
+/** Fixture states past kickoff; odds are frozen once a fixture reaches one of them. */
+const STARTED_STATES = [...LIVE_STATES, ...FINISHED_STATES] as FixtureState[];
+
+/**
+ * Snapshot the stored 1X2 odds onto group fixtures that don't have a snapshot yet.
+ *
+ * Only fixtures that have started (live or finished) and group fixtures in groups
+ * whose rules use odds (underdog bonus or an odds-aware strategy) are frozen.
+ * Fixtures without a complete 1X2 set are left unfrozen and score without odds.
+ * Idempotent: live, finished and recovery sync call it for every fixture they
+ * touched (before settling), so a fixture whose kickoff no run observed, or that
+ * went straight from NS to FT, is still frozen.
+ *
+ * @param fixtureIds - Fixture IDs to freeze odds for
+ * @returns Newly frozen odds keyed by groupFixtureId
+ */
+export async function freezeGroupFixtureOdds(
+  fixtureIds: number[]
+): Promise<Map<number, OutcomeOdds>> {
+  const frozen = new Map<number, OutcomeOdds>();
+  if (!fixtureIds.length) return frozen;
+
+  const candidates = await prisma.groupFixtures.findMany({
+    where: {
+      fixtureId: { in: fixtureIds },
+      oddsFrozenAt: null,
+      fixtures: { state: { in: STARTED_STATES } },
+    },
+    select: {
+      id: true,
+      fixtureId: true,
+      groups: {
+        select: {
+          groupRules: {
+            select: { scoringStrategy: true, underdogBonus: true },
+          },
+        },
+      },
+    },
+  });
+
+  const targets = candidates.filter((gf) => {
+    const rules = gf.groups.groupRules;
+    return rules ? rulesNeedOdds(rules) : false;
+  });
+  if (!targets.length) return frozen;
+
+  const oddsByFixture = await loadOutcomeOdds(
+    Array.from(new Set(targets.map((gf) => gf.fixtureId)))
+  );
+
+  const now = new Date();
+  const updates = targets.flatMap((gf) => {
+    const odds = oddsByFixture.get(gf.fixtureId);
+    if (!odds) return [];
+    frozen.set(gf.id, odds);
+    return [
+      prisma.groupFixtures.update({
+        where: { id: gf.id },
+        data: { frozenOdds: odds, oddsFrozenAt: now },
+      }),
+    ];
+  });
+
+  if (updates.length) {
+    await prisma.$transaction(updates);
+  }
+
+  log.info(
+    { fixtureCount: fixtureIds.length, frozen: updates.length },
+    "Froze group fixture odds"
+  );
+  return frozen;
+}
@@ -0,0 +1,227 @@
+// groups/service/outrights.ts
+// Outright (season-long) markets: list, create (creator) and member picks.
+
+import { prisma } from "@repo/db";
+import type {
+  ApiCreateGroupOutrightBody,
+  ApiGroupOutright,
+  ApiGroupOutrightsResponse,
+  ApiOutrightPick,
+} from "@repo/types";
+import {
+  BadRequestError,
+  NotFoundError,
+} from "../../../../utils/errors";
+import { nowUnixSeconds, toUnixSeconds } from "../../../../utils/dates";
+import { getLogger } from "../../../../logger";
+import { assertGroupCreator, assertGroupMember } from "../permissions";
+import { repository as repo } from "../repository";
+import type { GroupOutrightRow } from "../repository/outrights";
+import { OUTRIGHT_POINTS_MAX, SELECTION_MODE } from "../constants";
+import {
+  OUTRIGHT_PICK_COUNT,
+  hasSeasonEnded,
+  type OutrightMarket,
+} from "../outrights";
+
+const log = getLogger("groups.outrights");
+
+function toApiPick(pick: GroupOutrightRow["picks"][number]): ApiOutrightPick {
+  return {
+    userId: pick.userId,
+    username: pick.users.username,
+    teamIds: pick.teamIds,
+    correctCount: pick.correctCount,
+    points: pick.points,
+  };
+}
+
+/**
+ * Build the API outright. Other members' picks stay hidden until the deadline.
+ */
+function toApiOutright(
+  row: GroupOutrightRow,
+  userId: number,
+  now: number
+): ApiGroupOutright {
+  const deadline = toUnixSeconds(row.deadline);
+  const myPick = row.picks.find((p) => p.userId === userId);
+  return {
+    id: row.id,
+    market: row.market,
+    seasonId: row.seasonId,
+    seasonName: row.seasons.name,
+    leagueName: row.seasons.leagues?.name ?? null,
+    pickCount: row.pickCount,
+    points: row.points,
+    deadline,
+    settledAt: row.settledAt ? toUnixSeconds(row.settledAt) : null,
+    resultTeamIds: row.resultTeamIds,
+    myPick: myPick ? toApiPick(myPick) : null,
+    picks: now >= deadline ? row.picks.map(toApiPick) : null,
+  };
+}
+
+/**
+ * Get the group's outright markets with the current user's picks,
+ * plus the teams that can be picked (teams playing in those seasons).
+ */
+export async function getGroupOutrights(
+  groupId: number,
+  userId: number
+): Promise<ApiGroupOutrightsResponse> {
+  await assertGroupMember(groupId, userId);
+
+  const rows = await repo.findGroupOutrights(groupId);
+  const seasonIds = [...new Set(rows.map((r) => r.seasonId))];
+  const teamsBySeason = await Promise.all(
+    seasonIds.map((seasonId) => repo.findSeasonTeams(seasonId))
+  );
+  const teams = new Map(teamsBySeason.flat().map((t) => [t.id, t]));
+
+  const now = nowUnixSeconds();
+  return {
+    status: "success",
+    data: {
+      outrights: rows.map((row) => toApiOutright(row, userId, now)),
+      teams: [...teams.values()],
+    },
+    message: "Outrights fetched successfully",
+  };
+}
+
+/**
+ * Add an outright market to a league group (creator only).
+ * - The season must belong to one of the group's leagues and not be over.
+ * - The deadline must be in the future; picks lock at the deadline.
+ * - Champion and top 4 have a fixed pick count; relegation takes the number of relegated places.
+ */
+export async function createGroupOutright(
+  groupId: number,
+  userId: number,
+  body: ApiCreateGroupOutrightBody
+): Promise<{ status: "success"; data: { id: number }; message: string }> {
+  await assertGroupCreator(groupId, userId);
+
+  const rules = await repo.findGroupRules(groupId);
+  if (rules?.selectionMode !== SELECTION_MODE.LEAGUES) {
+    throw new BadRequestError(
+      "Outright markets are only available for league groups"
+    );
+  }
+
+  const season = await prisma.seasons.findUnique({
+    where: { id: body.seasonId },
+    select: { id: true, leagueId: true, endDate: true },
+  });
+  if (!season) {
+    throw new NotFoundError(`Season ${body.seasonId} not found`);
+  }
+  if (!(rules.groupLeaguesIds ?? []).includes(season.leagueId)) {
+    throw new BadRequestError(
+      `Season ${body.seasonId} is not in one of the group's leagues`
+    );
+  }
+
+  const now = nowUnixSeconds();
+  if (hasSeasonEnded(season.endDate, now)) {
+    throw new BadRequestError(`Season ${body.seasonId} has already ended`);
+  }
+  if (!Number.isInteger(body.deadline) || body.deadline <= now) {
+    throw new BadRequestError("Outright deadline must be in the future");
+  }
+
+  const market: OutrightMarket = body.market;
+  const countRange = OUTRIGHT_PICK_COUNT[market];
+  const pickCount = body.pickCount ?? countRange.default;
+  if (
+    !Number.isInteger(pickCount) ||
+    pickCount < countRange.min ||
+    pickCount > countRange.max
+  ) {
+    throw new BadRequestError(
+      countRange.min === countRange.max
+        ? `${market} always picks ${countRange.min} team(s)`
+        : `${market} pick count must be between ${countRange.min} and ${countRange.max}`
+    );
+  }
+
+  if (
+    !Number.isInteger(body.points) ||
+    body.points < 1 ||
+    body.points > OUTRIGHT_POINTS_MAX
+  ) {
+    throw new BadRequestError(
+      `Outright points must be between 1 and ${OUTRIGHT_POINTS_MAX}`
+    );
+  }
+
+  const created = await repo.createGroupOutright({
+    groupId,
+    seasonId: season.id,
+    market,
+    pickCount,
+    points: body.points,
+    deadline: new Date(body.deadline * 1000),
+  });
+  if (!created) {
+    throw new BadRequestError(
+      `Group already has a ${market} market for season ${season.id}`
+    );
+  }
+
+  log.info(
+    { groupId, outrightId: created.id, market, seasonId: season.id },
+    "createGroupOutright - success"
+  );
+  return {
+    status: "success",
+    data: { id: created.id },
+    message: "Outright market created successfully",
+  };
+}
+
+/**
+ * Save the member's pick for an outright market.
+ * - Rejected after the deadline or once settled.
+ * - Must name exactly pickCount distinct teams that play in the season.
+ */
+export async function saveOutrightPick(
+  groupId: number,
+  outrightId: number,
+  userId: number,
+  teamIds: number[]
+): Promise<{ status: "success"; message: string }> {
+  await assertGroupMember(groupId, userId);
+
+  const outright = await repo.findGroupOutrightById(groupId, outrightId);
+  if (!outright) {
+    throw new NotFoundError(
+      `Outright ${outrightId} does not belong to group ${groupId}`
+    );
+  }
+  if (outright.settledAt || nowUnixSeconds() >= toUnixSeconds(outright.deadline)) {
+    throw new BadRequestError("Outright picks are locked");
+  }
+
+  const unique = [...new Set(teamIds)];
+  if (unique.length !== teamIds.length || unique.length !== outright.pickCount) {
+    throw new BadRequestError(
+      `Pick exactly ${outright.pickCount} different team(s)`
+    );
+  }
+
+  const seasonTeamIds = new Set(
+    (await repo.findSeasonTeams(outright.seasonId)).map((t) => t.id)
+  );
+  const unknown = unique.filter((id) => !seasonTeamIds.has(id));
+  if (unknown.length > 0) {
+    throw new BadRequestError(
+      `Teams ${unknown.join(", ")} do not play in this season`
+    );
+  }
+
+  await repo.upsertGroupOutrightPick(outrightId, userId, unique);
+  log.info({ groupId, outrightId, userId }, "saveOutrightPick - success");
+  return { status: "success", message: "Outright pick saved successfully" };
+}
@@ -18,6 +18,7 @@ const log = getLogger("groups.overview");
  * Get predictions overview for a group.
  * - Verifies that the user is a group member (creator or joined).
  * - Returns all participants, fixtures, and predictions in a structured format.
+ * - Other members' picks follow the group's predictionVisibility rule.
  */
 export async function getPredictionsOverview(
   groupId: number,
@@ -39,24 +40,25 @@ export async function getPredictionsOverview(
   const fixtures = buildOverviewFixtures(groupFixtures);
 
   // Build predictions map and prediction points map
-  const { predictionsMap, predictionPointsMap, fixtureStartedMap } =
+  const { predictionsMap, predictionPointsMap, othersVisibleMap } =
     buildPredictionsMap(
       predictions as PredictionForOverview[],
       userId,
-      fixtures
+      fixtures,
+      groupRules?.predictionVisibility
     );
 
   // Initialize all possible combinations with null (for missing predictions)
-  // Only for current user OR for matches that have started
+  // Only for current user OR where others' picks are visible
   for (const participant of participants) {
     for (const fixture of fixtures) {
       const key = `${participant.id}_${fixture.id}`;
-      const hasStarted = fixtureStartedMap.get(fixture.id) ?? false;
+      const othersVisible = othersVisibleMap.get(fixture.id) ?? false;
 
       // Only initialize if:
       // 1. It's the current user (always show)
-      // 2. OR the match has started (show all users)
-      if (participant.id === userId || hasStarted) {
+      // 2. OR the group's visibility rule reveals this fixture (show all users)
+      if (participant.id === userId || othersVisible) {
         if (!(key in predictionsMap)) {
           predictionsMap[key] = null;
         }
@@ -1,6 +1,7 @@
 // groups/service/predictions.ts
 // Prediction services (saveGroupPrediction, saveGroupPredictionsBatch).
 
+import { Prisma } from "@repo/db";
 import { BadRequestError, NotFoundError } from "../../../../utils/errors";
 import { assertGroupMember } from "../permissions";
 import { repository as repo } from "../repository";
@@ -8,6 +9,14 @@ import { validateFixtureIdsBelongToGroup } from "../validators/group-validators"
 import { getLogger } from "../../../../logger";
 import { hasMatchStarted } from "../helpers";
 import { invalidateRankingCache } from "../../../../lib/cache-invalidation";
+import {
+  buildJokerBuckets,
+  describeJokerLimit,
+  type JokerMode,
+  type JokerRules,
+} from "../helpers/joker";
+import { DEFAULT_JOKER_FIXTURES_PER_CARD } from "../constants";
+import type { SideMarketPicks, SideMarketRules } from "../side-markets";
 
 const log = getLogger("groups.predictions");
 
@@ -20,17 +29,118 @@ function validatePredictionScores(home: number, away: number): void {
   }
 }
 
+const SIDE_MARKET_RULE_KEYS: Record<
+  keyof SideMarketPicks,
+  keyof SideMarketRules
+> = {
+  btts: "bttsPoints",
+  overUnder: "overUnderPoints",
+  firstTeamToScore: "firstTeamToScorePoints",
+};
+
+/**
+ * Reject picks on side markets the group has disabled (0 points).
+ * Clearing a pick (null) is always allowed.
+ */
+async function validateSideMarketPicks(
+  groupId: number,
+  markets: Array<Partial<SideMarketPicks> | undefined>
+): Promise<void> {
+  const keys = Object.keys(SIDE_MARKET_RULE_KEYS) as Array<keyof SideMarketPicks>;
+  const picked = keys.filter((key) => markets.some((m) => m?.[key] != null));
+  if (picked.length === 0) return;
+
+  const rules = await repo.findGroupRules(groupId);
+  for (const key of picked) {
+    const points = rules?.[SIDE_MARKET_RULE_KEYS[key]] ?? 0;
+    if (points <= 0) {
+      throw new BadRequestError(
+        `Side market "${key}" is not enabled for this group`
+      );
+    }
+  }
+}
+
+type JokerContext = {
+  rules: JokerRules;
+  /** groupFixtureId -> joker bucket key */
+  bucketByGroupFixture: Map<number, string>;
+  startedGroupFixtureIds: Set<number>;
+  /** groupFixtureIds where the user currently holds a joker */
+  currentJokers: number[];
+};
+
+async function loadJokerContext(
+  groupId: number,
+  userId: number
+): Promise<JokerContext> {
+  const [rules, fixtures, currentJokers] = await Promise.all([
+    repo.findGroupRules(groupId),
+    repo.findGroupFixturesForJoker(groupId),
+    repo.findUserJokerGroupFixtureIds(groupId, userId),
+  ]);
+  const jokerRules: JokerRules = {
+    jokerMode: (rules?.jokerMode ?? "off") as JokerMode,
+    jokerFixturesPerCard:
+      rules?.jokerFixturesPerCard ?? DEFAULT_JOKER_FIXTURES_PER_CARD,
+  };
+  return {
+    rules: jokerRules,
+    bucketByGroupFixture: buildJokerBuckets(fixtures, jokerRules),
+    startedGroupFixtureIds: new Set(
+      fixtures.filter((f) => f.started).map((f) => f.groupFixtureId)
+    ),
+    currentJokers,
+  };
+}
+
+/** A concurrent save already took the member's joker for this bucket (unique index). */
+function isJokerBucketConflict(err: unknown): boolean {
+  return (
+    err instanceof Prisma.PrismaClientKnownRequestError &&
+    err.code === "P2002" &&
+    String(err.meta?.target ?? "").includes("joker_bucket")
+  );
+}
+
+/**
+ * Resolve placing a joker on a group fixture: returns the user's other jokers in
+ * the same bucket (to be moved off), or "locked" when one of them has kicked off.
+ */
+function resolveJokerMove(
+  ctx: JokerContext,
+  groupFixtureId: number
+): { clearJokerOn: number[] } | "locked" {
+  const bucket = ctx.bucketByGroupFixture.get(groupFixtureId);
+  const others = ctx.currentJokers.filter(
+    (id) =>
+      id !== groupFixtureId && ctx.bucketByGroupFixture.get(id) === bucket
+  );
+  if (others.some((id) => ctx.startedGroupFixtureIds.has(id))) {
+    return "locked";
+  }
+  return { clearJokerOn: others };
+}
+
 /**
  * Save or update a group prediction for a specific fixture.
  * - Verifies that the user is a group member.
  * - Verifies that the fixture belongs to the group.
  * - Upserts the prediction record.
+ * - isJoker: true plays the member's joker on this fixture (moving it from another
+ *   not-yet-started fixture in the same round); false removes it; omitted leaves it as is.
+ * - markets: side-market picks; omitted picks are unchanged, null clears a pick.
  */
 export async function saveGroupPrediction(
   groupId: number,
   fixtureId: number,
   userId: number,
-  prediction: { home: number; away: number }
+  prediction: {
+    home: number;
+    away: number;
+    isJoker?: boolean;
+    markets?: Partial<SideMarketPicks>;
+  }
 ): Promise<{ status: "success"; message: string }> {
   log.debug(
     { groupId, fixtureId, userId, prediction },
@@ -38,6 +148,7 @@ export async function saveGroupPrediction(
   );
   await assertGroupMember(groupId, userId);
   validatePredictionScores(prediction.home, prediction.away);
+  await validateSideMarketPicks(groupId, [prediction.markets]);
 
   // Verify fixture belongs to group and get groupFixtureId
   const groupFixture = await repo.findGroupFixtureByGroupAndFixture(
@@ -51,6 +162,10 @@ export async function saveGroupPrediction(
     );
   }
 
+  if (groupFixture.voidedAt) {
+    throw new BadRequestError("This fixture was voided for the group");
+  }
+
   // Fetch fixture to check if match has started
   const fixture = await repo.findFixtureByGroupFixtureId(groupFixture.id);
   if (fixture && hasMatchStarted(fixture)) {
@@ -59,16 +174,48 @@ export async function saveGroupPrediction(
     );
   }
 
+  let clearJokerOn: number[] = [];
+  let jokerBucket: string | undefined;
+  let jokerRules: JokerRules | undefined;
+  if (prediction.isJoker) {
+    const ctx = await loadJokerContext(groupId, userId);
+    if (ctx.rules.jokerMode === "off") {
+      throw new BadRequestError("Jokers are not enabled for this group");
+    }
+    const move = resolveJokerMove(ctx, groupFixture.id);
+    if (move === "locked") {
+      throw new BadRequestError(
+        `Joker already played: ${describeJokerLimit(ctx.rules)}`
+      );
+    }
+    clearJokerOn = move.clearJokerOn;
+    jokerBucket = ctx.bucketByGroupFixture.get(groupFixture.id);
+    jokerRules = ctx.rules;
+  }
+
   // Format prediction as string "home:away" (e.g., "2:1")
   const predictionString = `${prediction.home}:${prediction.away}`;
 
   // Upsert prediction
-  await repo.upsertGroupPrediction({
-    userId,
-    groupFixtureId: groupFixture.id,
-    groupId,
-    prediction: predictionString,
-  });
+  try {
+    await repo.upsertGroupPrediction({
+      userId,
+      groupFixtureId: groupFixture.id,
+      groupId,
+      prediction: predictionString,
+      isJoker: prediction.isJoker,
+      jokerBucket,
+      markets: prediction.markets,
+      clearJokerOn,
+    });
+  } catch (err) {
+    if (jokerRules && isJokerBucketConflict(err)) {
+      throw new BadRequestError(
+        `Joker already played: ${describeJokerLimit(jokerRules)}`
+      );
+    }
+    throw err;
+  }
   await invalidateRankingCache([groupId]);
   log.info({ groupId, fixtureId, userId }, "saveGroupPrediction - success");
   return {
@@ -83,12 +230,20 @@ export async function saveGroupPrediction(
  * - Verifies that all fixtures belong to the group.
  * - Per-prediction validation: predictions for matches that have started are rejected
  *   (not thrown) and reported in the response. Other predictions are saved.
+ * - Jokers: at most one per round in the request; a prediction whose round joker is
+ *   already locked on a started fixture is rejected with "joker_locked".
  * - Returns saved and rejected arrays for the client to handle partial success.
  */
 export async function saveGroupPredictionsBatch(
   groupId: number,
   userId: number,
-  predictions: Array<{ fixtureId: number; home: number; away: number }>
+  predictions: Array<{
+    fixtureId: number;
+    home: number;
+    away: number;
+    isJoker?: boolean;
+    markets?: Partial<SideMarketPicks>;
+  }>
 ): Promise<{
   status: "success";
   message: string;
@@ -111,6 +266,10 @@ export async function saveGroupPredictionsBatch(
 
   // Verify user is a group member (removes duplicate validation)
   await assertGroupMember(groupId, userId);
+  await validateSideMarketPicks(
+    groupId,
+    predictions.map((p) => p.markets)
+  );
 
   // Get all fixtures and verify they belong to the group
   const fixtureIds = predictions.map((p) => p.fixtureId);
@@ -125,16 +284,31 @@ export async function saveGroupPredictionsBatch(
     groupFixtures.map((gf) => gf.id)
   );
   const startedGroupFixtureIds = new Set(startedFixtures.map((gf) => gf.id));
+  const voidedGroupFixtureIds = new Set(
+    groupFixtures.filter((gf) => gf.voidedAt).map((gf) => gf.id)
+  );
 
   // Create a map of fixtureId -> groupFixtureId for quick lookup
   const fixtureIdToGroupFixtureId = new Map(
     groupFixtures.map((gf) => [gf.fixtureId, gf.id])
   );
 
+  const jokerCtx = predictions.some((p) => p.isJoker)
+    ? await loadJokerContext(groupId, userId)
+    : null;
+  if (jokerCtx && jokerCtx.rules.jokerMode === "off") {
+    throw new BadRequestError("Jokers are not enabled for this group");
+  }
+  const jokerBucketsInRequest = new Set<string>();
+  const clearJokerOn = new Set<number>();
+
   // Split predictions into to-upsert vs rejected
   const predictionsToUpsert: Array<{
     groupFixtureId: number;
     prediction: string;
+    isJoker?: boolean;
+    jokerBucket?: string;
+    markets?: Partial<SideMarketPicks>;
   }> = [];
   const saved: Array<{ fixtureId: number }> = [];
   const rejected: Array<{ fixtureId: number; reason: string }> = [];
@@ -149,24 +323,64 @@ export async function saveGroupPredictionsBatch(
       );
     }
 
+    // Voided fixtures (postponed / cancelled) no longer take predictions
+    if (voidedGroupFixtureIds.has(groupFixtureId)) {
+      rejected.push({ fixtureId: pred.fixtureId, reason: "fixture_voided" });
+      continue;
+    }
+
     // Reject predictions for matches that have already started (kickoff passed)
     if (startedGroupFixtureIds.has(groupFixtureId)) {
       rejected.push({ fixtureId: pred.fixtureId, reason: "match_started" });
       continue;
     }
 
+    let jokerBucket: string | undefined;
+    if (pred.isJoker && jokerCtx) {
+      const bucket = jokerCtx.bucketByGroupFixture.get(groupFixtureId)!;
+      if (jokerBucketsInRequest.has(bucket)) {
+        throw new BadRequestError(
+          `Too many jokers: ${describeJokerLimit(jokerCtx.rules)}`
+        );
+      }
+      const move = resolveJokerMove(jokerCtx, groupFixtureId);
+      if (move === "locked") {
+        rejected.push({ fixtureId: pred.fixtureId, reason: "joker_locked" });
+        continue;
+      }
+      jokerBucketsInRequest.add(bucket);
+      move.clearJokerOn.forEach((id) => clearJokerOn.add(id));
+      jokerBucket = bucket;
+    }
+
     const predictionString = `${pred.home}:${pred.away}`;
-    predictionsToUpsert.push({ groupFixtureId, prediction: predictionString });
+    predictionsToUpsert.push({
+      groupFixtureId,
+      prediction: predictionString,
+      isJoker: pred.isJoker,
+      jokerBucket,
+      markets: pred.markets,
+    });
     saved.push({ fixtureId: pred.fixtureId });
   }
 
   // Update only non-rejected predictions in a single transaction
   if (predictionsToUpsert.length > 0) {
-    await repo.upsertGroupPredictionsBatch(
-      groupId,
-      userId,
-      predictionsToUpsert
-    );
+    try {
+      await repo.upsertGroupPredictionsBatch(
+        groupId,
+        userId,
+        predictionsToUpsert,
+        [...clearJokerOn]
+      );
+    } catch (err) {
+      if (jokerCtx && isJokerBucketConflict(err)) {
+        throw new BadRequestError(
+          `Joker already played: ${describeJokerLimit(jokerCtx.rules)}`
+        );
+      }
+      throw err;
+    }
     await invalidateRankingCache([groupId]);
   }
 
@@ -178,7 +392,7 @@ export async function saveGroupPredictionsBatch(
     status: "success",
     message:
       rejected.length > 0
-        ? `${saved.length} prediction(s) saved, ${rejected.length} rejected (match already started)`
+        ? `${saved.length} prediction(s) saved, ${rejected.length} rejected (match already started, voided or joker locked)`
         : `${saved.length} prediction(s) saved successfully`,
     saved,
     rejected,
@@ -0,0 +1,51 @@
+// groups/service/ranking-history.ts
+// Ranking history: each member's rank and points over time, from ranking snapshots.
+
+import type { ApiRankingHistoryResponse } from "@repo/types";
+import { assertGroupMember } from "../permissions";
+import { repository as repo } from "../repository";
+import { buildRankingHistory } from "../ranking-history";
+
+const DEFAULT_HISTORY_POINTS = 100;
+
+/**
+ * Rank and points of the group's members after each settled fixture.
+ * - userIds limits the series to those members (others are ignored).
+ * - maxPoints evenly downsamples the timeline, always keeping the latest step.
+ */
+export async function getRankingHistory(
+  groupId: number,
+  userId: number,
+  options: { userIds?: number[]; maxPoints?: number } = {}
+): Promise<ApiRankingHistoryResponse> {
+  await assertGroupMember(groupId, userId);
+
+  const { members, users } = await repo.findGroupMembersWithUsers(groupId);
+  const memberIds = new Set(members.map((m) => m.userId));
+  const userIds = (options.userIds ?? [...memberIds]).filter((id) =>
+    memberIds.has(id)
+  );
+  const rows = await repo.findRankingSnapshots(groupId, userIds);
+  const { steps, series } = buildRankingHistory(
+    rows,
+    options.maxPoints ?? DEFAULT_HISTORY_POINTS
+  );
+  const usernameById = new Map(users.map((u) => [u.id, u.username]));
+
+  return {
+    status: "success",
+    data: {
+      steps: steps.map((s) => ({
+        fixtureId: s.fixtureId,
+        at: s.at.toISOString(),
+      })),
+      series: series.map((s) => ({
+        userId: s.userId,
+        username: usernameById.get(s.userId) ?? null,
+        ranks: s.ranks,
+        totalPoints: s.totalPoints,
+      })),
+    },
+    message: "Ranking history fetched successfully",
+  };
+}
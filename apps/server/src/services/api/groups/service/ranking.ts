@@ -1,13 +1,15 @@
 // groups/service/ranking.ts
 // Group ranking service: aggregated points and stats per member.
 
-import { prisma } from "@repo/db";
+import { prisma, Prisma } from "@repo/db";
 import { assertGroupMember } from "../permissions";
 import { repository as repo } from "../repository";
 import { nowUnixSeconds } from "../../../../utils/dates";
 import { getLogger } from "../../../../logger";
 import { getCache } from "../../../../lib/cache";
-import type { RankingItem, RankingResponse } from "../types";
+import type { RankingItem, RankingMode, RankingResponse } from "../types";
+import { getTiebreakFields, rankItems } from "../ranking-order";
+import { getLiveRanking } from "./live-ranking";
 
 const log = getLogger("Ranking");
 const rankingCache = getCache("ranking");
@@ -20,6 +22,18 @@ type RawRankRow = {
   correct_score_count: string | number | bigint;
   correct_difference_count: string | number | bigint;
   correct_outcome_count: string | number | bigint;
+  jokers_used: string | number | bigint;
+  joker_points: string | number | bigint;
+};
+
+type RawOutrightRow = {
+  user_id: number;
+  outright_points: string | number | bigint;
+};
+
+type RawAdvanceRow = {
+  user_id: number;
+  advance_points: string | number | bigint;
 };
 
 function toNumber(value: string | number | bigint): number {
@@ -32,92 +46,149 @@ function toNumber(value: string | number | bigint): number {
   return 0;
 }
 
+/** Narrows the ranking to some members and/or some of the group's fixtures. */
+type RankingScope = {
+  memberIds?: ReadonlySet<number>;
+  groupFixtureIds?: number[];
+};
+
 /**
  * Compute core ranking data: SQL aggregation, member assembly, sorting,
  * rank assignment, and snapshot rank-change enrichment.
  * This is the expensive, user-independent part that can be cached.
+ * With scope.memberIds, only that subset of members is ranked (sub-leagues);
+ * ranks and rank changes are then relative to the subset.
+ * With scope.groupFixtureIds, only predictions on those fixtures count (round /
+ * weekly rankings); outright and "who advances" points and rank changes are left out.
  */
-async function computeCoreRanking(groupId: number): Promise<RankingItem[]> {
-  const [rawRows, membersWithUsers] = await Promise.all([
-    prisma.$queryRaw<RawRankRow[]>`
+async function computeCoreRanking(
+  groupId: number,
+  scope: RankingScope = {}
+): Promise<RankingItem[]> {
+  const { memberIds, groupFixtureIds } = scope;
+  if (memberIds && memberIds.size === 0) return [];
+  const inSubset = (userId: number) => !memberIds || memberIds.has(userId);
+  const memberFilter = memberIds
+    ? Prisma.sql`AND gp.user_id IN (${Prisma.join([...memberIds])})`
+    : Prisma.empty;
+  const fixtureFilter = !groupFixtureIds
+    ? Prisma.empty
+    : groupFixtureIds.length > 0
+      ? Prisma.sql`AND gp.group_fixture_id IN (${Prisma.join(groupFixtureIds)})`
+      : Prisma.sql`AND FALSE`;
+
+  const [rawRows, outrightRows, advanceRows, membersWithUsers, rules] =
+    await Promise.all([
+      prisma.$queryRaw<RawRankRow[]>`
       SELECT
         gp.user_id,
         u.username,
         COALESCE(SUM(CAST(gp.points AS INTEGER)), 0) AS total_points,
-        COUNT(gp.id)::int AS prediction_count,
+        COUNT(CASE WHEN gp.voided_at IS NULL THEN 1 END)::int AS prediction_count,
         COUNT(CASE WHEN gp.winning_correct_score = true THEN 1 END)::int AS correct_score_count,
         COUNT(CASE WHEN gp.winning_correct_difference = true THEN 1 END)::int AS correct_difference_count,
-        COUNT(CASE WHEN gp.winning_match_winner = true THEN 1 END)::int AS correct_outcome_count
+        COUNT(CASE WHEN gp.winning_match_winner = true THEN 1 END)::int AS correct_outcome_count,
+        COUNT(CASE WHEN gp.is_joker = true AND gp.settled_at IS NOT NULL THEN 1 END)::int AS jokers_used,
+        COALESCE(SUM(CASE WHEN gp.is_joker = true AND gp.settled_at IS NOT NULL THEN CAST(gp.points AS INTEGER) END), 0) AS joker_points
       FROM group_predictions gp
       JOIN group_members gm ON gm.group_id = gp.group_id AND gm.user_id = gp.user_id
       JOIN users u ON u.id = gp.user_id
       WHERE gp.group_id = ${groupId}
         AND gm.status = 'joined'::group_members_status
+        ${memberFilter}
+        ${fixtureFilter}
       GROUP BY gp.user_id, u.username
       ORDER BY total_points DESC, correct_score_count DESC, correct_difference_count DESC, u.username ASC
     `,
-    repo.findGroupMembersWithUsers(groupId),
-  ]);
+      groupFixtureIds
+        ? Promise.resolve<RawOutrightRow[]>([])
+        : prisma.$queryRaw<RawOutrightRow[]>`
+          SELECT
+            p.user_id,
+            COALESCE(SUM(p.points), 0) AS outright_points
+          FROM group_outright_picks p
+          JOIN group_outrights o ON o.id = p.outright_id
+          WHERE o.group_id = ${groupId}
+            AND o.settled_at IS NOT NULL
+          GROUP BY p.user_id
+        `,
+      groupFixtureIds
+        ? Promise.resolve<RawAdvanceRow[]>([])
+        : prisma.$queryRaw<RawAdvanceRow[]>`
+          SELECT
+            p.user_id,
+            COALESCE(SUM(p.points), 0) AS advance_points
+          FROM group_tie_picks p
+          WHERE p.group_id = ${groupId}
+            AND p.settled_at IS NOT NULL
+          GROUP BY p.user_id
+        `,
+      repo.findGroupMembersWithUsers(groupId),
+      repo.findGroupRules(groupId),
+    ]);
+
+  // Tiebreakers after totalPoints depend on the group's scoring strategy
+  const tiebreakFields = getTiebreakFields(rules?.scoringStrategy);
 
   const userById = new Map(
     membersWithUsers.users.map((u) => [u.id, { username: u.username }])
   );
 
+  // Outright points count toward the total and are also reported on their own
+  const outrightPointsByUser = new Map(
+    outrightRows.map((r) => [r.user_id, toNumber(r.outright_points)])
+  );
+  // Same for "who advances" picks on two-legged ties
+  const advancePointsByUser = new Map(
+    advanceRows.map((r) => [r.user_id, toNumber(r.advance_points)])
+  );
+
   const fromSql: RankingItem[] = rawRows.map((row) => ({
     rank: 0,
     userId: row.user_id,
     username: row.username,
-    totalPoints: toNumber(row.total_points),
+    totalPoints:
+      toNumber(row.total_points) +
+      (outrightPointsByUser.get(row.user_id) ?? 0) +
+      (advancePointsByUser.get(row.user_id) ?? 0),
     predictionCount: toNumber(row.prediction_count),
     correctScoreCount: toNumber(row.correct_score_count),
     correctDifferenceCount: toNumber(row.correct_difference_count),
     correctOutcomeCount: toNumber(row.correct_outcome_count),
+    jokersUsed: toNumber(row.jokers_used),
+    jokerPoints: toNumber(row.joker_points),
+    outrightPoints: outrightPointsByUser.get(row.user_id) ?? 0,
+    advancePoints: advancePointsByUser.get(row.user_id) ?? 0,
   }));
 
   const userIdsFromSql = new Set(fromSql.map((r) => r.userId));
   const zeroRows: RankingItem[] = [];
   for (const m of membersWithUsers.members) {
-    if (userIdsFromSql.has(m.userId)) continue;
+    if (userIdsFromSql.has(m.userId) || !inSubset(m.userId)) continue;
     const user = userById.get(m.userId);
+    const outrightPoints = outrightPointsByUser.get(m.userId) ?? 0;
+    const advancePoints = advancePointsByUser.get(m.userId) ?? 0;
     zeroRows.push({
       rank: 0,
       userId: m.userId,
       username: user?.username ?? null,
-      totalPoints: 0,
+      totalPoints: outrightPoints + advancePoints,
       predictionCount: 0,
       correctScoreCount: 0,
       correctDifferenceCount: 0,
       correctOutcomeCount: 0,
+      jokersUsed: 0,
+      jokerPoints: 0,
+      outrightPoints,
+      advancePoints,
     });
   }
 
-  // Sort by: totalPoints > correctScoreCount > correctDifferenceCount > username
-  const combined = [...fromSql, ...zeroRows].sort((a, b) => {
-    if (b.totalPoints !== a.totalPoints) return b.totalPoints - a.totalPoints;
-    if (b.correctScoreCount !== a.correctScoreCount)
-      return b.correctScoreCount - a.correctScoreCount;
-    if (b.correctDifferenceCount !== a.correctDifferenceCount)
-      return b.correctDifferenceCount - a.correctDifferenceCount;
-    const nameA = a.username ?? "";
-    const nameB = b.username ?? "";
-    return nameA.localeCompare(nameB);
-  });
+  // Sort by: totalPoints > strategy tiebreakers (classic: correctScoreCount > correctDifferenceCount) > username
+  let items: RankingItem[] = rankItems([...fromSql, ...zeroRows], tiebreakFields);
 
-  let rank = 1;
-  let items: RankingItem[] = combined.map((row, index) => {
-    const prev = index > 0 ? combined[index - 1] : null;
-    if (
-      prev &&
-      prev.totalPoints === row.totalPoints &&
-      prev.correctScoreCount === row.correctScoreCount &&
-      prev.correctDifferenceCount === row.correctDifferenceCount
-    ) {
-      // same rank as previous
-    } else {
-      rank = index + 1;
-    }
-    return { ...row, rank };
-  });
+  // Snapshots track the overall table only
+  if (groupFixtureIds) return items;
 
   // Rank change enrichment: compare current rank to most recent snapshot
   const latestSnapshot = await prisma.rankingSnapshots.findFirst({
@@ -136,8 +207,15 @@ async function computeCoreRanking(groupId: number): Promise<RankingItem[]> {
       select: { userId: true, rank: true },
     });
 
+    // Group-wide snapshot ranks become ranks within the subset (same relative order)
+    const subsetSnapshots = snapshots.filter((s) => inSubset(s.userId));
     const snapshotRankByUser = new Map(
-      snapshots.map((s) => [s.userId, s.rank])
+      subsetSnapshots.map((s) => [
+        s.userId,
+        memberIds
+          ? 1 + subsetSnapshots.filter((o) => o.rank < s.rank).length
+          : s.rank,
+      ])
     );
 
     items = items.map((item) => {
@@ -229,28 +307,61 @@ async function enrichWithNudgeData(
   });
 }
 
+/**
+ * Settled ranking of a group without membership checks or per-user enrichment.
+ * Cached when Redis is available (2 min TTL); used by internal callers such as
+ * the live fixture projection.
+ */
+export async function getCoreRanking(groupId: number): Promise<RankingItem[]> {
+  if (rankingCache) {
+    return rankingCache.getOrSet(String(groupId), 120, () =>
+      computeCoreRanking(groupId)
+    );
+  }
+  return computeCoreRanking(groupId);
+}
+
+/**
+ * Ranking of a subset of the group's members (a sub-league), on the group's own
+ * predictions. Not cached: the ranking cache is keyed by group only.
+ */
+export async function getMemberSubsetRanking(
+  groupId: number,
+  userIds: number[]
+): Promise<RankingItem[]> {
+  return computeCoreRanking(groupId, { memberIds: new Set(userIds) });
+}
+
+/**
+ * Ranking over some of the group's fixtures only (one round or week).
+ * Not cached; outright points are not included.
+ */
+export async function getFixtureScopedRanking(
+  groupId: number,
+  groupFixtureIds: number[]
+): Promise<RankingItem[]> {
+  return computeCoreRanking(groupId, { groupFixtureIds });
+}
+
 /**
  * Get group ranking: all joined members with aggregated points and stats.
  * - Verifies that the user is a group member (creator or joined).
  * - Uses raw SQL because points is stored as String; Prisma groupBy cannot SUM it.
  * - Members with 0 predictions are included with zeros.
- * - Ranks are 1-based; ties (same totalPoints and correctScoreCount) get the same rank.
+ * - Ranks are 1-based; ties (same totalPoints and strategy tiebreaker counts) get the same rank.
+ * - mode "live" adds provisional points from in-play fixtures (see live-ranking.ts).
  */
 export async function getGroupRanking(
   groupId: number,
-  userId: number
+  userId: number,
+  mode: RankingMode = "settled"
 ): Promise<RankingResponse> {
-  log.debug({ groupId, userId }, "getGroupRanking - start");
+  log.debug({ groupId, userId, mode }, "getGroupRanking - start");
   await assertGroupMember(groupId, userId);
 
-  // Core ranking: cached when Redis is available (2 min TTL)
-  let items: RankingItem[];
-  if (rankingCache) {
-    items = await rankingCache.getOrSet(String(groupId), 120, () =>
-      computeCoreRanking(groupId)
-    );
-  } else {
-    items = await computeCoreRanking(groupId);
+  let items = await getCoreRanking(groupId);
+  if (mode === "live") {
+    items = await getLiveRanking(groupId, items);
   }
 
   // Nudge enrichment: per-user, time-sensitive, never cached
@@ -265,6 +376,7 @@ export async function getGroupRanking(
   return {
     status: "success",
     data: items,
+    mode,
     message: "Ranking fetched successfully",
   };
 }
@@ -12,7 +12,18 @@ import type {
 import { nowUnixSeconds } from "../../../../utils/dates";
 import type { GroupFixturesFilter } from "../../../../types/groups";
 import { applyGroupFixturesFilter } from "../fixtures-filter";
-import { DEFAULT_MAX_MEMBERS, GROUP_STATUS } from "../constants";
+import {
+  DEFAULT_MAX_MEMBERS,
+  DEFAULT_JOKER_FIXTURES_PER_CARD,
+  GROUP_STATUS,
+} from "../constants";
+import { getScoringStrategy, resolveScoringConfig } from "../scoring-strategies";
+import { DEFAULT_UNDERDOG_MAX_MULTIPLIER } from "../scoring";
+import { DEFAULT_PREDICTION_VISIBILITY } from "../prediction-visibility";
+import {
+  DEFAULT_FOLLOW_WINDOW_DAYS,
+  DEFAULT_VOIDED_FIXTURE_POLICY,
+} from "../voided-fixtures";
 import {
   buildDraftGroupItem,
   buildActiveGroupItem,
@@ -160,6 +171,7 @@ export async function getMyGroups(userId: number, search?: string): Promise<ApiG
             placedAt: nextGamePrediction.placedAt.toISOString(),
             settled: nextGamePrediction.settled,
             points: nextGamePrediction.points ? parseInt(nextGamePrediction.points, 10) : null,
+            isJoker: nextGamePrediction.isJoker,
           }
         : null;
 
@@ -224,38 +236,45 @@ export async function getGroupById(
   filters?: GroupFixturesFilter
 ): Promise<ApiGroupResponse> {
   log.debug({ id, userId, includeFixtures, filters }, "getGroupById - start");
-  const { group } = await assertGroupMember(id, userId);
+  const { group, role } = await assertGroupMember(id, userId);
 
   const data: ApiGroupItem = buildGroupItem(group);
-  // Determine user's role: creator is owner, otherwise member
-  data.userRole = group.creatorId === userId ? "owner" : "member";
+  data.userRole = role;
 
   const isNonDraft = group.status !== "draft";
 
   // Run independent queries in parallel (all only depend on id/userId)
-  const [rules, memberCount, fixtureRows, firstGf, lastGf] = await Promise.all([
-    repo.findGroupRules(id),
-    isNonDraft ? repo.countGroupMembers(id) : null,
-    includeFixtures ? repo.fetchGroupFixturesWithPredictions(id, userId) : null,
-    // Only query firstGame separately when we won't derive it from fixtures
-    isNonDraft && !includeFixtures
-      ? prisma.groupFixtures.findFirst({
-          where: { groupId: id },
-          orderBy: { fixtures: { startTs: "asc" } },
-          select: { fixtures: { select: FIXTURE_SELECT_BASE } },
-        })
-      : null,
-    // Query lastGame when not including fixtures (for timeline bar)
-    isNonDraft && !includeFixtures
-      ? prisma.groupFixtures.findFirst({
-          where: { groupId: id },
-          orderBy: { fixtures: { startTs: "desc" } },
-          select: { fixtures: { select: FIXTURE_SELECT_BASE } },
-        })
-      : null,
-  ]);
+  const [rules, memberCount, fixtureRows, firstGf, lastGf, seasonInfo] =
+    await Promise.all([
+      repo.findGroupRules(id),
+      isNonDraft ? repo.countGroupMembers(id) : null,
+      includeFixtures ? repo.fetchGroupFixturesWithPredictions(id, userId) : null,
+      // Only query firstGame separately when we won't derive it from fixtures
+      isNonDraft && !includeFixtures
+        ? prisma.groupFixtures.findFirst({
+            where: { groupId: id },
+            orderBy: { fixtures: { startTs: "asc" } },
+            select: { fixtures: { select: FIXTURE_SELECT_BASE } },
+          })
+        : null,
+      // Query lastGame when not including fixtures (for timeline bar)
+      isNonDraft && !includeFixtures
+        ? prisma.groupFixtures.findFirst({
+            where: { groupId: id },
+            orderBy: { fixtures: { startTs: "desc" } },
+            select: { fixtures: { select: FIXTURE_SELECT_BASE } },
+          })
+        : null,
+      repo.findGroupSeasonInfo(id),
+    ]);
 
   data.inviteAccess = rules?.inviteAccess ?? "all";
+  data.requiresApproval = rules?.requiresApproval ?? false;
+  data.predictionVisibility =
+    rules?.predictionVisibility ?? DEFAULT_PREDICTION_VISIBILITY;
+  data.voidedFixturePolicy =
+    rules?.voidedFixturePolicy ?? DEFAULT_VOIDED_FIXTURE_POLICY;
+  data.followWindowDays = rules?.followWindowDays ?? DEFAULT_FOLLOW_WINDOW_DAYS;
   data.maxMembers = rules?.maxMembers ?? DEFAULT_MAX_MEMBERS;
   data.predictionMode = rules?.predictionMode ?? "CorrectScore";
   data.selectionMode = rules?.selectionMode ?? "games";
@@ -264,8 +283,28 @@ export async function getGroupById(
   data.onTheNosePoints = rules?.onTheNosePoints ?? 3;
   data.correctDifferencePoints = rules?.correctDifferencePoints ?? 2;
   data.outcomePoints = rules?.outcomePoints ?? 1;
+  data.scoringStrategy = getScoringStrategy(rules?.scoringStrategy).key;
+  data.scoringConfig = resolveScoringConfig(
+    data.scoringStrategy,
+    rules?.scoringConfig
+  );
+  data.underdogBonus = rules?.underdogBonus ?? false;
+  data.underdogMaxMultiplier =
+    rules?.underdogMaxMultiplier ?? DEFAULT_UNDERDOG_MAX_MULTIPLIER;
+  data.jokerMode = rules?.jokerMode ?? "off";
+  data.jokerFixturesPerCard =
+    rules?.jokerFixturesPerCard ?? DEFAULT_JOKER_FIXTURES_PER_CARD;
+  data.bttsPoints = rules?.bttsPoints ?? 0;
+  data.overUnderPoints = rules?.overUnderPoints ?? 0;
+  data.firstTeamToScorePoints = rules?.firstTeamToScorePoints ?? 0;
+  data.advancePoints = rules?.advancePoints ?? 0;
   data.nudgeEnabled = rules?.nudgeEnabled ?? true;
   data.nudgeWindowMinutes = rules?.nudgeWindowMinutes ?? 60;
+  data.seasonId = group.seasonId;
+  data.seasonName = seasonInfo?.season?.name ?? null;
+  data.previousGroupId = group.previousGroupId;
+  data.nextGroupId = seasonInfo?.nextGroup?.id ?? null;
+  data.archivedAt = group.archivedAt?.toISOString() ?? null;
 
   // Include fixtures if requested
   if (includeFixtures && fixtureRows) {
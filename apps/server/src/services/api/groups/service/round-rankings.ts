@@ -0,0 +1,203 @@
+// groups/service/round-rankings.ts
+// Round and weekly leaderboards, "manager of the round" announcements and round history.
+
+import type {
+  ApiPeriodRankingResponse,
+  ApiRankingPeriod,
+  ApiRankingPeriodItem,
+  ApiRoundHistoryResponse,
+} from "@repo/types";
+import { NotFoundError } from "../../../../utils/errors";
+import { getLogger } from "../../../../logger";
+import type { TypedIOServer } from "../../../../types/socket";
+import { assertGroupMember } from "../permissions";
+import { repository as repo } from "../repository";
+import { buildRoundBuckets, type RoundBucket } from "../bracket";
+import { buildPeriodBuckets, currentPeriodBucket } from "../ranking-periods";
+import { getFixtureScopedRanking } from "./ranking";
+import { emitRoundWinnerEvent } from "./chat-events";
+
+const log = getLogger("groups.round-rankings");
+
+const ROUND_HISTORY_LIMIT = 50;
+
+function toApiPeriod(bucket: RoundBucket): ApiRankingPeriodItem {
+  return {
+    key: bucket.key,
+    label: bucket.label,
+    startTs: bucket.firstStartTs,
+    fixtureCount: bucket.groupFixtureIds.length,
+    started: bucket.started,
+    finished: bucket.finished,
+  };
+}
+
+/**
+ * Ranking of one round or ISO week: points from that period's fixtures only.
+ * - Defaults to the latest period that has kicked off.
+ * - Returns every period of the group for navigation.
+ */
+export async function getPeriodRanking(
+  groupId: number,
+  userId: number,
+  period: ApiRankingPeriod,
+  key?: string
+): Promise<ApiPeriodRankingResponse> {
+  await assertGroupMember(groupId, userId);
+
+  const buckets = buildPeriodBuckets(
+    await repo.findGroupFixturesForBracket(groupId),
+    period
+  );
+  const bucket = key
+    ? buckets.find((b) => b.key === key)
+    : currentPeriodBucket(buckets);
+  if (key && !bucket) {
+    throw new NotFoundError(`Ranking period ${key} not found`);
+  }
+
+  const items = bucket
+    ? await getFixtureScopedRanking(groupId, bucket.groupFixtureIds)
+    : [];
+
+  return {
+    status: "success",
+    data: {
+      period,
+      current: bucket ? toApiPeriod(bucket) : null,
+      periods: buckets.map(toApiPeriod),
+      items,
+    },
+    message: "Period ranking fetched successfully",
+  };
+}
+
+/**
+ * Decided rounds of the group with their winners, most recent first.
+ */
+export async function getRoundHistory(
+  groupId: number,
+  userId: number
+): Promise<ApiRoundHistoryResponse> {
+  await assertGroupMember(groupId, userId);
+
+  const rows = await repo.findGroupRoundResults(groupId, ROUND_HISTORY_LIMIT);
+  const users = await repo.findUsernamesByIds([
+    ...new Set(rows.flatMap((r) => r.winnerUserIds)),
+  ]);
+  const usernameById = new Map(users.map((u) => [u.id, u.username]));
+
+  return {
+    status: "success",
+    data: rows.map((r) => ({
+      roundKey: r.roundKey,
+      roundLabel: r.roundLabel,
+      winners: r.winnerUserIds.map((id) => ({
+        userId: id,
+        username: usernameById.get(id) ?? null,
+      })),
+      winningPoints: r.winningPoints,
+      participantCount: r.participantCount,
+      decidedAt: r.createdAt.toISOString(),
+    })),
+    message: "Round history fetched successfully",
+  };
+}
+
+/**
+ * Record and announce the rounds of one group completed by this settlement.
+ * A round is decided once every fixture is finished or cancelled and every
+ * prediction on a finished fixture is settled.
+ */
+async function announceGroupRounds(
+  groupId: number,
+  settledGroupFixtureIds: Set<number>,
+  io?: TypedIOServer
+): Promise<void> {
+  const candidates = buildRoundBuckets(
+    await repo.findGroupFixturesForBracket(groupId)
+  ).filter(
+    (b) =>
+      b.finished &&
+      b.groupFixtureIds.some((id) => settledGroupFixtureIds.has(id))
+  );
+  if (candidates.length === 0) return;
+
+  const decided = await repo.findDecidedRoundKeys(
+    groupId,
+    candidates.map((b) => b.key)
+  );
+
+  for (const bucket of candidates) {
+    if (decided.has(bucket.key)) continue;
+    const unsettled = await repo.countUnsettledFinishedPredictions(
+      groupId,
+      bucket.groupFixtureIds
+    );
+    if (unsettled > 0) continue;
+
+    const ranking = await getFixtureScopedRanking(
+      groupId,
+      bucket.groupFixtureIds
+    );
+    const top = ranking.filter((item) => item.rank === 1);
+    const winningPoints = top[0]?.totalPoints ?? 0;
+    // Nobody scored: the round is recorded without a winner
+    const winners =
+      winningPoints > 0
+        ? top.map((item) => ({ userId: item.userId, username: item.username }))
+        : [];
+
+    const created = await repo.createRoundResultInternal({
+      groupId,
+      roundKey: bucket.key,
+      roundLabel: bucket.label,
+      winnerUserIds: winners.map((w) => w.userId),
+      winningPoints,
+      participantCount: ranking.filter((item) => item.predictionCount > 0)
+        .length,
+    });
+    if (!created) continue;
+    log.info(
+      { groupId, roundKey: bucket.key, winners: winners.length },
+      "Round decided"
+    );
+
+    if (winners.length > 0) {
+      await emitRoundWinnerEvent(
+        groupId,
+        {
+          roundKey: bucket.key,
+          roundLabel: bucket.label,
+          winners,
+          points: winningPoints,
+        },
+        io
+      );
+    }
+  }
+}
+
+/**
+ * Announce round winners for the groups touched by a settlement run (called
+ * after settlement). Errors are logged per group and never fail the caller.
+ */
+export async function announceRoundWinners(
+  settledGroupFixtures: Array<{ id: number; groupId: number }>,
+  io?: TypedIOServer
+): Promise<void> {
+  const byGroup = new Map<number, Set<number>>();
+  for (const gf of settledGroupFixtures) {
+    const ids = byGroup.get(gf.groupId) ?? new Set<number>();
+    ids.add(gf.id);
+    byGroup.set(gf.groupId, ids);
+  }
+
+  for (const [groupId, ids] of byGroup) {
+    try {
+      await announceGroupRounds(groupId, ids, io);
+    } catch (err) {
+      log.warn({ groupId, err }, "Failed to announce round winners");
+    }
+  }
+}
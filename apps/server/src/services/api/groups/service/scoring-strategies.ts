@@ -0,0 +1,65 @@
+// groups/service/scoring-strategies.ts
+// Scoring strategy catalogue and preview (used by group creation and admin official groups).
+
+import type {
+  ApiScoringPreviewBody,
+  ApiScoringPreviewResponse,
+  ApiScoringStrategiesResponse,
+} from "@repo/types";
+import { buildScoringPreview } from "../scoring";
+import { listScoringStrategies } from "../scoring-strategies";
+import { validateScoringStrategy } from "../validators/group-validators";
+
+/**
+ * List available scoring strategies with their configurable fields.
+ */
+export function getScoringStrategies(): ApiScoringStrategiesResponse {
+  const data = listScoringStrategies().map((s) => ({
+    key: s.key,
+    label: s.label,
+    description: s.description,
+    fields: s.fields,
+    supportsMatchWinner: s.supportsMatchWinner,
+    requiresOdds: s.requiresOdds,
+  }));
+  return {
+    status: "success",
+    data,
+    message: "Scoring strategies fetched successfully",
+  };
+}
+
+/**
+ * Score a fixed set of sample predictions with the given strategy and config.
+ * Validates the selection the same way publish/update do, so an invalid config
+ * fails here before the group is created.
+ */
+export function getScoringPreview(
+  body: ApiScoringPreviewBody
+): ApiScoringPreviewResponse {
+  const predictionMode =
+    body.predictionMode === "MatchWinner" ? "MatchWinner" : "CorrectScore";
+  const { scoringStrategy, scoringConfig } = validateScoringStrategy(
+    body.scoringStrategy,
+    body.scoringConfig,
+    predictionMode
+  );
+
+  const rows = buildScoringPreview({
+    predictionMode,
+    onTheNosePoints: body.onTheNosePoints ?? 3,
+    correctDifferencePoints: body.correctDifferencePoints ?? 2,
+    outcomePoints: body.outcomePoints ?? 1,
+    koRoundMode: "FullTime",
+    scoringStrategy,
+    scoringConfig,
+    underdogBonus: body.underdogBonus ?? false,
+    underdogMaxMultiplier: body.underdogMaxMultiplier,
+  });
+
+  return {
+    status: "success",
+    data: { scoringStrategy, scoringConfig, rows },
+    message: "Scoring preview generated successfully",
+  };
+}
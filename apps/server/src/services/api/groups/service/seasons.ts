@@ -0,0 +1,164 @@
+// groups/service/seasons.ts
+// Season-based recurring groups: continue into the next season, all-time table.
+
+import type { ApiAllTimeTableResponse, ApiGroupResponse } from "@repo/types";
+import {
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+} from "../../../../utils/errors";
+import { nowUnixSeconds } from "../../../../utils/dates";
+import { getLogger } from "../../../../logger";
+import type { TypedIOServer } from "../../../../types/socket";
+import { assertGroupCreator, assertGroupMember } from "../permissions";
+import { repository as repo } from "../repository";
+import { GROUP_STATUS, SELECTION_MODE } from "../constants";
+import { buildGroupItem } from "../builders";
+import { buildAllTimeTable, type SeasonStandings } from "../seasons";
+import { getCoreRanking } from "./ranking";
+import { emitSeasonContinuedEvent } from "./chat-events";
+
+const log = getLogger("groups.seasons");
+
+/**
+ * Continue a leagues-mode group into the next season of its league.
+ * - Only the creator (owner) can continue, and only once every fixture is finished.
+ * - The old group is archived (status "ended", archivedAt) with its final ranking frozen.
+ * - The new group is active right away: same name, avatar, rules (incl. invite
+ *   settings) and members, linked to the old group through previousGroupId.
+ */
+export async function continueGroupToNextSeason(
+  groupId: number,
+  userId: number,
+  io?: TypedIOServer
+): Promise<ApiGroupResponse> {
+  log.info({ groupId, userId }, "continueGroupToNextSeason - start");
+  await assertGroupCreator(groupId, userId);
+
+  const source = await repo.findGroupForSeasonContinuation(groupId);
+  if (!source) {
+    throw new NotFoundError(`Group with id ${groupId} not found`);
+  }
+
+  const leagueId =
+    source.season?.leagueId ?? source.groupRules?.groupLeaguesIds[0];
+  if (
+    source.groupRules?.selectionMode !== SELECTION_MODE.LEAGUES ||
+    leagueId == null
+  ) {
+    throw new BadRequestError(
+      "Only groups that follow a league can continue into a new season"
+    );
+  }
+  if (source.status === GROUP_STATUS.DRAFT) {
+    throw new BadRequestError("Draft groups cannot continue into a new season");
+  }
+  if (source.archivedAt || source.nextGroup) {
+    throw new ConflictError("Group has already continued into a new season");
+  }
+
+  const unfinished = await repo.countUnfinishedGroupFixtures(groupId);
+  if (unfinished > 0) {
+    throw new BadRequestError("Group still has unfinished fixtures");
+  }
+
+  const currentSeason =
+    source.season ?? (await repo.findLatestGroupFixtureSeason(groupId));
+  if (!currentSeason) {
+    throw new BadRequestError("Group has no season to continue from");
+  }
+  const nextSeason = await repo.findNextSeason(
+    leagueId,
+    currentSeason.startDate
+  );
+  if (!nextSeason) {
+    throw new BadRequestError("No next season is available yet");
+  }
+
+  const ranking = await getCoreRanking(groupId);
+  const group = await repo.continueGroupIntoSeasonInternal({
+    source,
+    seasonId: nextSeason.id,
+    standings: ranking.map((item) => ({
+      userId: item.userId,
+      rank: item.rank,
+      totalPoints: item.totalPoints,
+      predictionCount: item.predictionCount,
+      correctScoreCount: item.correctScoreCount,
+    })),
+    now: nowUnixSeconds(),
+  });
+
+  log.info(
+    { groupId, nextGroupId: group.id, seasonId: nextSeason.id },
+    "continueGroupToNextSeason - continued"
+  );
+
+  emitSeasonContinuedEvent(groupId, group.id, nextSeason.name, userId, io);
+
+  return {
+    status: "success",
+    data: {
+      ...buildGroupItem(group),
+      seasonId: nextSeason.id,
+      seasonName: nextSeason.name,
+      previousGroupId: groupId,
+      nextGroupId: null,
+      archivedAt: null,
+    },
+    message: "Group continued into the next season",
+  };
+}
+
+/**
+ * Get the all-time table across every season of a group's chain.
+ * Archived seasons use their frozen final standings; the live season uses the
+ * current ranking and only adds points.
+ */
+export async function getAllTimeTable(
+  groupId: number,
+  userId: number
+): Promise<ApiAllTimeTableResponse> {
+  await assertGroupMember(groupId, userId);
+
+  const chain = await repo.findGroupSeasonChain(groupId);
+  const archivedIds = chain.filter((g) => g.archivedAt).map((g) => g.id);
+  const live = chain.filter((g) => !g.archivedAt);
+
+  const [frozen, liveRankings] = await Promise.all([
+    repo.findGroupSeasonStandings(archivedIds),
+    Promise.all(live.map((g) => getCoreRanking(g.id))),
+  ]);
+  const liveById = new Map(live.map((g, i) => [g.id, liveRankings[i] ?? []]));
+
+  const seasons: SeasonStandings[] = chain.map((g) =>
+    g.archivedAt
+      ? {
+          archived: true,
+          rows: frozen
+            .filter((row) => row.groupId === g.id)
+            .map((row) => ({
+              userId: row.userId,
+              username: row.users.username,
+              rank: row.rank,
+              totalPoints: row.totalPoints,
+            })),
+        }
+      : { archived: false, rows: liveById.get(g.id) ?? [] }
+  );
+
+  return {
+    status: "success",
+    data: {
+      seasons: chain.map((g) => ({
+        groupId: g.id,
+        groupName: g.name,
+        seasonId: g.seasonId,
+        seasonName: g.seasonName,
+        archived: g.archivedAt != null,
+      })),
+      items: buildAllTimeTable(seasons),
+    },
+    message: "All-time table fetched successfully",
+  };
+}
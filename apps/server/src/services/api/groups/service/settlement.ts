@@ -3,19 +3,37 @@
 
 import { FINISHED_STATES, CANCELLED_STATES } from "@repo/utils";
 import { prisma } from "@repo/db";
-import type { FixtureState } from "@repo/db";
+import type { FixtureState, Prisma } from "@repo/db";
 import { getLogger } from "../../../../logger";
 import { parseScores } from "../../../../etl/transform/fixtures.transform";
-import { calculateScore, type ScoringRules } from "../scoring";
+import { calculateScore, rulesNeedOdds, type ScoringRules } from "../scoring";
+import type { OutcomeOdds } from "../scoring-strategies";
+import {
+  calculateSideMarketPoints,
+  parseSideMarketPicks,
+  type SideMarketRules,
+} from "../side-markets";
+import { parseFrozenOdds } from "../helpers/fixture-odds";
+import { JOKER_MULTIPLIER } from "../constants";
 import { getGroupRanking } from "./ranking";
-import { emitSystemEvent } from "./chat-events";
+import { emitPredictionSharesUpdated, emitSystemEvent } from "./chat-events";
 import {
   invalidateRankingCache,
+  invalidateLiveRankingCache,
   invalidateUserStatsCache,
   invalidateH2HCache,
 } from "../../../../lib/cache-invalidation";
 import type { TypedIOServer } from "../../../../types/socket";
 import { evaluateGroupBadges } from "./badge-evaluation";
+import { advanceGroupBrackets } from "./bracket";
+import { announceRoundWinners } from "./round-rankings";
+import { settleTiePicksForFixtures } from "./ties";
+import {
+  computeRuleVersion,
+  hasResultChanged,
+  type PredictionResult,
+  type SettlementReason,
+} from "../settlement-ledger";
 
 const log = getLogger("Settlement");
 
@@ -28,38 +46,65 @@ export type SettlementResult = {
   groupsEnded: number;
 };
 
+/** What triggered a settlement; recorded on every ledger entry. */
+export type SettlementContext = {
+  /** "resettle" rescores predictions that were already settled (default "settlement") */
+  reason?: SettlementReason;
+  /** Sync run that settled the fixtures */
+  jobRunId?: number | null;
+  /** Admin who committed a resettle */
+  adminUserId?: number | null;
+};
+
+/** A prediction with its freshly calculated result and, if settled before, the stored one. */
+export type ScoredPrediction = PredictionResult & {
+  id: number;
+  userId: number;
+  groupId: number;
+  groupFixtureId: number;
+  fixtureId: number;
+  marketPoints: number;
+  previous: PredictionResult | null;
+};
+
+type SettledFixture = {
+  id: number;
+  homeScore90: number | null;
+  awayScore90: number | null;
+  homeScoreET: number | null;
+  awayScoreET: number | null;
+  penHome: number | null;
+  penAway: number | null;
+  state: FixtureState;
+};
+
+export type ScoredSettlement = {
+  fixtures: SettledFixture[];
+  groupFixtures: Array<{ id: number; groupId: number; fixtureId: number }>;
+  groupIds: number[];
+  scored: ScoredPrediction[];
+  /** Predictions that couldn't be scored (missing data, etc.) */
+  skipped: number;
+  ruleVersionByGroup: Map<number, string>;
+};
+
 /**
- * Settle predictions for finished fixtures.
- *
- * This function processes all unsettled predictions for the given fixture IDs,
- * calculates their points based on group scoring rules, and updates them in a transaction.
- * After settling, it transitions groups to "ended" when all their fixtures are terminal.
+ * Score predictions on finished fixtures without writing anything.
+ * Shared by settlement and the resettle preview.
  *
  * Flow:
  * 1. Load finished fixtures (FT, AET, FT_PEN)
  * 2. Find group fixtures
- * 3. Load scoring rules
- * 4. Load unsettled predictions
- * 5. Calculate scores
- * 6. Batch update in transaction
- * 7. Transition completed groups to "ended" (all fixtures in FT/CAN/INT)
+ * 3. Load scoring rules (and the kickoff 1X2 odds snapshot for odds-aware rules)
+ * 4. Load unsettled predictions (settled ones too with includeSettled)
+ * 5. Calculate scores plus side markets (jokers multiply the prediction's points)
  *
- * @param fixtureIds - Array of fixture IDs to settle predictions for
- * @param io - Optional Socket.IO server for broadcasting ranking_change events
- * @returns Object with settled, skipped, and groupsEnded counts
+ * @returns null when there is nothing to score
  */
-export async function settlePredictionsForFixtures(
+export async function scorePredictionsForFixtures(
   fixtureIds: number[],
-  io?: TypedIOServer
-): Promise<SettlementResult> {
-  // Early return if no fixture IDs provided
-  if (!fixtureIds.length) {
-    log.debug("No fixture IDs provided");
-    return { settled: 0, skipped: 0, groupsEnded: 0 };
-  }
-
-  log.info({ fixtureIds, count: fixtureIds.length }, "Starting settlement");
-
+  options: { includeSettled?: boolean } = {}
+): Promise<ScoredSettlement | null> {
   // Step 1: Load finished fixtures (FT, AET, FT_PEN) including period scores for KO scoring
   const fixtures = await prisma.fixtures.findMany({
     where: {
@@ -74,14 +119,16 @@ export async function settlePredictionsForFixtures(
       awayScoreET: true,
       penHome: true,
       penAway: true,
+      leg: true,
       result: true,
       state: true,
+      firstScoringTeam: true,
     },
   });
 
   if (!fixtures.length) {
     log.debug("No finished fixtures found");
-    return { settled: 0, skipped: 0, groupsEnded: 0 };
+    return null;
   }
 
   // Build fixture map
@@ -90,20 +137,23 @@ export async function settlePredictionsForFixtures(
   log.debug({ fixtureCount: fixtures.length }, "Loaded finished fixtures");
 
   // Step 2: Find group fixtures
+  // Groups that voided the fixture (e.g. postponed, then replayed) don't score it
   const groupFixtures = await prisma.groupFixtures.findMany({
     where: {
       fixtureId: { in: fixtureIds },
+      voidedAt: null,
     },
     select: {
       id: true,
       groupId: true,
       fixtureId: true,
+      frozenOdds: true,
     },
   });
 
   if (!groupFixtures.length) {
     log.debug("No group fixtures found");
-    return { settled: 0, skipped: 0, groupsEnded: 0 };
+    return null;
   }
 
   // Build groupFixture map (groupFixtureId -> fixtureId)
@@ -135,6 +185,13 @@ export async function settlePredictionsForFixtures(
       correctDifferencePoints: true,
       outcomePoints: true,
       koRoundMode: true,
+      scoringStrategy: true,
+      scoringConfig: true,
+      underdogBonus: true,
+      underdogMaxMultiplier: true,
+      bttsPoints: true,
+      overUnderPoints: true,
+      firstTeamToScorePoints: true,
     },
   });
 
@@ -148,19 +205,56 @@ export async function settlePredictionsForFixtures(
         correctDifferencePoints: r.correctDifferencePoints,
         outcomePoints: r.outcomePoints,
         koRoundMode: r.koRoundMode as "FullTime" | "ExtraTime" | "Penalties",
+        scoringStrategy: r.scoringStrategy,
+        scoringConfig: r.scoringConfig as ScoringRules["scoringConfig"],
+        underdogBonus: r.underdogBonus,
+        underdogMaxMultiplier: r.underdogMaxMultiplier,
       } as ScoringRules,
     ])
   );
 
+  const marketRulesMap = new Map<number, SideMarketRules>(
+    groupRules.map((r) => [
+      r.groupId,
+      {
+        bttsPoints: r.bttsPoints,
+        overUnderPoints: r.overUnderPoints,
+        firstTeamToScorePoints: r.firstTeamToScorePoints,
+      },
+    ])
+  );
+
   log.debug({ rulesCount: groupRules.length }, "Loaded scoring rules");
 
-  // Step 4: Load unsettled predictions
+  // Step 3b: Odds come from the per-group-fixture snapshot, never from live odds rows,
+  // so a resettle scores the same. The sync jobs freeze it before settling (see
+  // odds-freeze.ts); a fixture still without one (no 1X2 odds) scores without odds.
+  const oddsByGroupFixture = new Map<number, OutcomeOdds>();
+  for (const gf of groupFixtures) {
+    const odds = parseFrozenOdds(gf.frozenOdds);
+    if (odds) oddsByGroupFixture.set(gf.id, odds);
+  }
+  const missingOdds = groupFixtures.filter((gf) => {
+    const rules = rulesMap.get(gf.groupId);
+    return !!rules && rulesNeedOdds(rules) && !oddsByGroupFixture.has(gf.id);
+  });
+  if (missingOdds.length) {
+    log.warn(
+      {
+        fixtureIds: [...new Set(missingOdds.map((gf) => gf.fixtureId))],
+        groupFixtureIds: missingOdds.map((gf) => gf.id),
+      },
+      "No kickoff odds snapshot; scoring without odds (no underdog bonus)"
+    );
+  }
+
+  // Step 4: Load unsettled predictions (settled ones too when resettling)
   const groupFixtureIds = groupFixtures.map((gf) => gf.id);
 
   const predictions = await prisma.groupPredictions.findMany({
     where: {
       groupFixtureId: { in: groupFixtureIds },
-      settledAt: null,
+      ...(options.includeSettled ? {} : { settledAt: null }),
     },
     select: {
       id: true,
@@ -168,27 +262,39 @@ export async function settlePredictionsForFixtures(
       groupId: true,
       groupFixtureId: true,
       prediction: true,
+      isJoker: true,
+      bttsPick: true,
+      overUnderPick: true,
+      firstTeamToScorePick: true,
+      points: true,
+      settledAt: true,
+      winningCorrectScore: true,
+      winningCorrectDifference: true,
+      winningMatchWinner: true,
     },
   });
 
   if (!predictions.length) {
-    log.debug("No unsettled predictions found");
-    return { settled: 0, skipped: 0, groupsEnded: 0 };
+    log.debug("No predictions to score found");
+    return null;
   }
 
   log.info(
     { predictionCount: predictions.length },
-    "Loaded unsettled predictions"
+    "Loaded predictions to score"
   );
 
+  // Rule version per group, recorded in the settlement ledger
+  const ruleVersionByGroup = new Map<number, string>();
+  for (const [groupId, rules] of rulesMap) {
+    ruleVersionByGroup.set(
+      groupId,
+      computeRuleVersion(rules, marketRulesMap.get(groupId)!)
+    );
+  }
+
   // Step 5: Calculate scores
-  const updates: Array<{
-    id: number;
-    points: string;
-    winningCorrectScore: boolean;
-    winningCorrectDifference: boolean;
-    winningMatchWinner: boolean;
-  }> = [];
+  const scored: ScoredPrediction[] = [];
 
   let skipped = 0;
 
@@ -253,29 +359,149 @@ export async function settlePredictionsForFixtures(
       awayScoreET: fixture.awayScoreET ?? null,
       penHome: fixture.penHome ?? null,
       penAway: fixture.penAway ?? null,
+      leg: fixture.leg,
     };
 
     // Calculate score (scoring engine uses koRoundMode and period scores internally)
     const result = calculateScore(
       { prediction: pred.prediction },
       fixtureResult,
-      rules
+      rules,
+      { odds: oddsByGroupFixture.get(pred.groupFixtureId) ?? null }
     );
 
-    updates.push({
+    // Side markets always settle on the 90-minute score
+    const markets = calculateSideMarketPoints(
+      parseSideMarketPicks(pred),
+      {
+        homeScore90,
+        awayScore90,
+        firstScoringTeam: fixture.firstScoringTeam,
+      },
+      marketRulesMap.get(pred.groupId)!
+    );
+    if (markets.firstTeamToScoreVoid) {
+      log.warn(
+        { predictionId: pred.id, fixtureId },
+        "First scoring team unknown; first-team-to-score pick voided"
+      );
+    }
+
+    // The joker doubles both shares, so marketPoints stays the market part of points
+    const multiplier = pred.isJoker ? JOKER_MULTIPLIER : 1;
+    const marketPoints = markets.points * multiplier;
+    const points = result.points * multiplier + marketPoints;
+
+    scored.push({
       id: pred.id,
-      points: String(result.points),
+      userId: pred.userId,
+      groupId: pred.groupId,
+      groupFixtureId: pred.groupFixtureId,
+      fixtureId,
+      points,
+      marketPoints,
       winningCorrectScore: result.winningCorrectScore,
       winningCorrectDifference: result.winningCorrectDifference,
       winningMatchWinner: result.winningMatchWinner,
+      previous: pred.settledAt
+        ? {
+            points: parseInt(pred.points, 10) || 0,
+            winningCorrectScore: pred.winningCorrectScore,
+            winningCorrectDifference: pred.winningCorrectDifference,
+            winningMatchWinner: pred.winningMatchWinner,
+          }
+        : null,
     });
   }
 
+  return {
+    fixtures,
+    groupFixtures,
+    groupIds: uniqueGroupIds,
+    scored,
+    skipped,
+    ruleVersionByGroup,
+  };
+}
+
+/**
+ * Settle predictions for finished fixtures.
+ *
+ * This function processes all unsettled predictions for the given fixture IDs,
+ * calculates their points based on group scoring rules, and updates them in a transaction.
+ * After settling, it transitions groups to "ended" when all their fixtures are terminal.
+ *
+ * Flow:
+ * 1-5. Score predictions (see scorePredictionsForFixtures)
+ * 6. Batch update in transaction, appending each result to the settlement ledger
+ * 7. Transition completed groups to "ended" (all fixtures in FT/CAN/INT)
+ *
+ * A resettle (context.reason "resettle") rescores settled predictions too and
+ * only rewrites the ones whose result changed.
+ *
+ * @param fixtureIds - Array of fixture IDs to settle predictions for
+ * @param io - Optional Socket.IO server for broadcasting ranking_change events
+ * @param context - What triggered the settlement (recorded in the ledger)
+ * @returns Object with settled, skipped, and groupsEnded counts
+ */
+export async function settlePredictionsForFixtures(
+  fixtureIds: number[],
+  io?: TypedIOServer,
+  context: SettlementContext = {}
+): Promise<SettlementResult> {
+  // Early return if no fixture IDs provided
+  if (!fixtureIds.length) {
+    log.debug("No fixture IDs provided");
+    return { settled: 0, skipped: 0, groupsEnded: 0 };
+  }
+
+  const reason = context.reason ?? "settlement";
+  log.info(
+    { fixtureIds, count: fixtureIds.length, reason },
+    "Starting settlement"
+  );
+
+  // "Who advances" picks settle from the legs themselves, even when nobody in
+  // the group predicted the second leg's score
+  try {
+    await settleTiePicksForFixtures(fixtureIds);
+  } catch (tieErr) {
+    log.warn({ err: tieErr }, "Failed to settle tie picks");
+  }
+
+  const scoring = await scorePredictionsForFixtures(fixtureIds, {
+    includeSettled: reason === "resettle",
+  });
+  if (!scoring) {
+    return { settled: 0, skipped: 0, groupsEnded: 0 };
+  }
+  const { fixtures, groupFixtures, skipped } = scoring;
+  const uniqueGroupIds = scoring.groupIds;
+
+  // A resettle leaves predictions whose result didn't change untouched
+  const updates =
+    reason === "resettle"
+      ? scoring.scored.filter((p) => hasResultChanged(p.previous, p))
+      : scoring.scored;
+
   if (!updates.length) {
     log.info({ skipped }, "No predictions to settle");
     return { settled: 0, skipped, groupsEnded: 0 };
   }
 
+  // Ledger entries point at the latest score change of each fixture (admin
+  // override or sync), so every award can be traced back to what caused it
+  const latestAudits = await prisma.fixtureAuditLog.findMany({
+    where: { fixtureId: { in: fixtures.map((f) => f.id) } },
+    orderBy: { createdAt: "desc" },
+    distinct: ["fixtureId"],
+    select: { id: true, fixtureId: true },
+  });
+  const auditIdByFixture = new Map(
+    latestAudits.map((a) => [a.fixtureId, a.id])
+  );
+  const fixtureById = new Map(fixtures.map((f) => [f.id, f]));
+
   // Snapshot rankings before settlement for ranking_change events
   const groupsWithCreator = await prisma.groups.findMany({
     where: { id: { in: uniqueGroupIds } },
@@ -305,20 +531,48 @@ export async function settlePredictionsForFixtures(
   const now = new Date();
 
   try {
-    await prisma.$transaction(
-      updates.map((update) =>
+    await prisma.$transaction([
+      ...updates.map((update) =>
         prisma.groupPredictions.update({
           where: { id: update.id },
           data: {
-            points: update.points,
+            points: String(update.points),
+            marketPoints: update.marketPoints,
             winningCorrectScore: update.winningCorrectScore,
             winningCorrectDifference: update.winningCorrectDifference,
             winningMatchWinner: update.winningMatchWinner,
             settledAt: now,
           },
         })
-      )
-    );
+      ),
+      // Append-only: one ledger entry per written prediction
+      prisma.settlementLedger.createMany({
+        data: updates.map((update) => {
+          const fixture = fixtureById.get(update.fixtureId)!;
+          return {
+            groupPredictionId: update.id,
+            groupId: update.groupId,
+            userId: update.userId,
+            fixtureId: update.fixtureId,
+            reason,
+            points: update.points,
+            previousPoints: update.previous?.points ?? null,
+            marketPoints: update.marketPoints,
+            ruleVersion: scoring.ruleVersionByGroup.get(update.groupId)!,
+            fixtureState: fixture.state,
+            homeScore90: fixture.homeScore90,
+            awayScore90: fixture.awayScore90,
+            homeScoreET: fixture.homeScoreET,
+            awayScoreET: fixture.awayScoreET,
+            penHome: fixture.penHome,
+            penAway: fixture.penAway,
+            jobRunId: context.jobRunId ?? null,
+            fixtureAuditLogId: auditIdByFixture.get(update.fixtureId) ?? null,
+            adminUserId: context.adminUserId ?? null,
+          };
+        }),
+      }),
+    ]);
 
     // Step 7: Transition completed groups to "ended"
     const groupsEnded = await transitionCompletedGroups(uniqueGroupIds);
@@ -329,17 +583,7 @@ export async function settlePredictionsForFixtures(
         (
           await prisma.groupFixtures.groupBy({
             by: ["groupId"],
-            where: {
-              groupId: { in: uniqueGroupIds },
-              fixtures: {
-                state: {
-                  notIn: [
-                    ...FINISHED_STATES,
-                    ...CANCELLED_STATES,
-                  ] as FixtureState[],
-                },
-              },
-            },
+            where: pendingGroupFixturesWhere(uniqueGroupIds),
           })
         ).map((g) => g.groupId)
       );
@@ -364,8 +608,29 @@ export async function settlePredictionsForFixtures(
       }
     }
 
+    // Step 7c: Advance head-to-head brackets whose round is now complete
+    try {
+      await advanceGroupBrackets(uniqueGroupIds);
+    } catch (bracketErr) {
+      log.warn({ err: bracketErr }, "Failed to advance group brackets");
+    }
+
+    // Step 7d: Record and announce winners of rounds that are now complete
+    try {
+      await announceRoundWinners(groupFixtures, io);
+    } catch (roundErr) {
+      log.warn({ err: roundErr }, "Failed to announce round winners");
+    }
+
     // Invalidate ranking cache so "after" snapshots are fresh
     await invalidateRankingCache(uniqueGroupIds);
+    await invalidateLiveRankingCache(uniqueGroupIds);
+
+    // Shared prediction cards in chat now show points
+    await emitPredictionSharesUpdated(
+      fixtures.map((f) => f.id),
+      io
+    );
 
     // Detect ranking changes and emit ranking_change chat events (top 3 only)
     const afterResults = await Promise.allSettled(
@@ -481,7 +746,7 @@ export async function settlePredictionsForFixtures(
 
     // Invalidate user-stats and H2H caches for affected users
     const affectedUserIds = [
-      ...new Set(predictions.map((p) => p.userId)),
+      ...new Set(updates.map((p) => p.userId)),
     ];
     await Promise.all([
       invalidateUserStatsCache(affectedUserIds),
@@ -502,28 +767,46 @@ export async function settlePredictionsForFixtures(
   }
 }
 
+/**
+ * Group fixtures that still keep a group open: not yet finished or cancelled, or
+ * postponed and followed by the group (not voided) while it waits for a new date.
+ */
+function pendingGroupFixturesWhere(
+  groupIds: number[]
+): Prisma.groupFixturesWhereInput {
+  return {
+    groupId: { in: groupIds },
+    OR: [
+      {
+        fixtures: {
+          state: {
+            notIn: [...FINISHED_STATES, ...CANCELLED_STATES] as FixtureState[],
+          },
+        },
+      },
+      { voidedAt: null, fixtures: { state: "POSTPONED" } },
+    ],
+  };
+}
+
 /**
  * Transition groups to "ended" when all their fixtures are in a terminal state
- * (FT = finished, CAN = cancelled, INT = interrupted).
+ * (FT = finished, CAN = cancelled, INT = interrupted). A followed postponed
+ * fixture is not terminal until it is replayed or voided.
  * Only affects groups that are currently "active".
  *
  * @param groupIds - Group IDs to check (typically those touched by settlement)
  * @returns Number of groups transitioned to ended
  */
-async function transitionCompletedGroups(groupIds: number[]): Promise<number> {
+export async function transitionCompletedGroups(
+  groupIds: number[]
+): Promise<number> {
   if (!groupIds.length) return 0;
 
   // Single query: find groups that still have non-terminal fixtures
   const groupsWithPending = await prisma.groupFixtures.groupBy({
     by: ["groupId"],
-    where: {
-      groupId: { in: groupIds },
-      fixtures: {
-        state: {
-          notIn: [...FINISHED_STATES, ...CANCELLED_STATES] as FixtureState[],
-        },
-      },
-    },
+    where: pendingGroupFixturesWhere(groupIds),
   });
 
   const pendingGroupIds = new Set(groupsWithPending.map((g) => g.groupId));
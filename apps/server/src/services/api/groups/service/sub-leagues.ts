@@ -0,0 +1,261 @@
+// groups/service/sub-leagues.ts
+// Sub-leagues: private sub-tables of a group's members that reuse the group's
+// predictions, with their own ranking, chat channel and invite code.
+
+import { randomBytes } from "crypto";
+import type {
+  ApiSubLeague,
+  ApiSubLeagueRankingResponse,
+  ApiSubLeagueResponse,
+  ApiSubLeaguesResponse,
+} from "@repo/types";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from "../../../../utils/errors";
+import { getLogger } from "../../../../logger";
+import type { ChatMessagePayload } from "../../../../types/socket";
+import { assertGroupMember } from "../permissions";
+import { repository as repo } from "../repository";
+import type { SubLeagueRow } from "../repository/sub-leagues";
+import {
+  GROUP_STATUS,
+  MAX_SUB_LEAGUES_PER_MEMBER,
+  SUB_LEAGUE_NAME_MAX,
+} from "../constants";
+import { getMemberSubsetRanking } from "./ranking";
+import { getMessages, sendMessage, toChatMessagePayload } from "./chat";
+
+const log = getLogger("groups.sub-leagues");
+
+/**
+ * Generate a random 8-character hex invite code.
+ */
+function generateCode(): string {
+  return randomBytes(4).toString("hex");
+}
+
+function toApiSubLeague(row: SubLeagueRow, userId: number): ApiSubLeague {
+  return {
+    id: row.id,
+    groupId: row.groupId,
+    name: row.name,
+    creatorId: row.creatorId,
+    isCreator: row.creatorId === userId,
+    memberCount: row._count.members,
+    inviteCode: row.inviteCode,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Assert that the user is a member of both the group and its sub-league.
+ * Returns the sub-league and its member ids.
+ */
+async function assertSubLeagueMember(
+  groupId: number,
+  subLeagueId: number,
+  userId: number
+): Promise<{ subLeague: SubLeagueRow; memberIds: number[] }> {
+  await assertGroupMember(groupId, userId);
+
+  const subLeague = await repo.findSubLeagueById(subLeagueId);
+  if (!subLeague || subLeague.groupId !== groupId) {
+    throw new NotFoundError(`Sub-league ${subLeagueId} not found`);
+  }
+  const memberIds = await repo.findSubLeagueMemberIds(subLeagueId);
+  if (!memberIds.includes(userId)) {
+    throw new ForbiddenError("You are not a member of this sub-league");
+  }
+  return { subLeague, memberIds };
+}
+
+/**
+ * Sub-leagues of the group that the user belongs to.
+ */
+export async function getMySubLeagues(
+  groupId: number,
+  userId: number
+): Promise<ApiSubLeaguesResponse> {
+  await assertGroupMember(groupId, userId);
+
+  const rows = await repo.findUserSubLeaguesInGroup(groupId, userId);
+  return {
+    status: "success",
+    data: rows.map((row) => toApiSubLeague(row, userId)),
+    message: "Sub-leagues fetched successfully",
+  };
+}
+
+/**
+ * Create a sub-league inside an active group; the creator is its first member.
+ * Each member can create up to MAX_SUB_LEAGUES_PER_MEMBER per group.
+ */
+export async function createSubLeague(
+  groupId: number,
+  userId: number,
+  name: string
+): Promise<ApiSubLeagueResponse> {
+  const { group } = await assertGroupMember(groupId, userId);
+  if (group.status !== GROUP_STATUS.ACTIVE) {
+    throw new BadRequestError(
+      "Sub-leagues can only be created in active groups"
+    );
+  }
+
+  const trimmed = name.trim();
+  if (!trimmed || trimmed.length > SUB_LEAGUE_NAME_MAX) {
+    throw new BadRequestError(
+      `Sub-league name must be 1-${SUB_LEAGUE_NAME_MAX} characters`
+    );
+  }
+
+  const created = await repo.countSubLeaguesCreatedInGroup(groupId, userId);
+  if (created >= MAX_SUB_LEAGUES_PER_MEMBER) {
+    throw new ConflictError(
+      `You can create up to ${MAX_SUB_LEAGUES_PER_MEMBER} sub-leagues in a group`
+    );
+  }
+
+  const row = await repo.createSubLeague({
+    groupId,
+    creatorId: userId,
+    name: trimmed,
+    inviteCode: generateCode(),
+  });
+  log.info({ groupId, subLeagueId: row.id, userId }, "Sub-league created");
+
+  return {
+    status: "success",
+    data: toApiSubLeague(row, userId),
+    message: "Sub-league created successfully",
+  };
+}
+
+/**
+ * Join a sub-league with its invite code. Only members of the sub-league's
+ * group can join; joining twice is a no-op.
+ */
+export async function joinSubLeagueByCode(
+  groupId: number,
+  userId: number,
+  inviteCode: string
+): Promise<ApiSubLeagueResponse> {
+  await assertGroupMember(groupId, userId);
+
+  const subLeague = await repo.findSubLeagueByInviteCode(inviteCode.trim());
+  if (!subLeague || subLeague.groupId !== groupId) {
+    throw new NotFoundError("Invalid invite code");
+  }
+
+  await repo.addSubLeagueMember(subLeague.id, userId);
+  const row = (await repo.findSubLeagueById(subLeague.id)) ?? subLeague;
+  log.info({ groupId, subLeagueId: subLeague.id, userId }, "Sub-league joined");
+
+  return {
+    status: "success",
+    data: toApiSubLeague(row, userId),
+    message: "Joined sub-league successfully",
+  };
+}
+
+/**
+ * Leave a sub-league. The last member leaving deletes it.
+ */
+export async function leaveSubLeague(
+  groupId: number,
+  subLeagueId: number,
+  userId: number
+): Promise<{ status: "success"; message: string }> {
+  await assertSubLeagueMember(groupId, subLeagueId, userId);
+
+  const { deleted } = await repo.removeSubLeagueMemberInternal(
+    subLeagueId,
+    userId
+  );
+  log.info({ groupId, subLeagueId, userId, deleted }, "Sub-league left");
+
+  return { status: "success", message: "Left sub-league successfully" };
+}
+
+/**
+ * Delete a sub-league with its chat channel (sub-league creator only).
+ */
+export async function deleteSubLeague(
+  groupId: number,
+  subLeagueId: number,
+  userId: number
+): Promise<{ status: "success"; message: string }> {
+  const { subLeague } = await assertSubLeagueMember(
+    groupId,
+    subLeagueId,
+    userId
+  );
+  if (subLeague.creatorId !== userId) {
+    throw new ForbiddenError("Only the sub-league creator can delete it");
+  }
+
+  await repo.deleteSubLeague(subLeagueId);
+  log.info({ groupId, subLeagueId, userId }, "Sub-league deleted");
+
+  return { status: "success", message: "Sub-league deleted successfully" };
+}
+
+/**
+ * Ranking of the sub-league: the group's settled points, ranked among its members.
+ */
+export async function getSubLeagueRanking(
+  groupId: number,
+  subLeagueId: number,
+  userId: number
+): Promise<ApiSubLeagueRankingResponse> {
+  const { subLeague, memberIds } = await assertSubLeagueMember(
+    groupId,
+    subLeagueId,
+    userId
+  );
+
+  const items = await getMemberSubsetRanking(groupId, memberIds);
+  return {
+    status: "success",
+    data: { subLeague: toApiSubLeague(subLeague, userId), items },
+    message: "Sub-league ranking fetched successfully",
+  };
+}
+
+/**
+ * Messages of the sub-league's chat channel (newest first).
+ */
+export async function getSubLeagueMessages(
+  groupId: number,
+  subLeagueId: number,
+  userId: number,
+  opts: { before?: number; limit?: number } = {}
+): Promise<ChatMessagePayload[]> {
+  await assertSubLeagueMember(groupId, subLeagueId, userId);
+  return getMessages(groupId, userId, { ...opts, subLeagueId });
+}
+
+/**
+ * Send a message to the sub-league's chat channel.
+ */
+export async function sendSubLeagueMessage(
+  groupId: number,
+  subLeagueId: number,
+  userId: number,
+  body: string,
+  replyToId?: number
+): Promise<ChatMessagePayload> {
+  await assertSubLeagueMember(groupId, subLeagueId, userId);
+  const message = await sendMessage(
+    groupId,
+    userId,
+    body,
+    undefined,
+    replyToId,
+    subLeagueId
+  );
+  return toChatMessagePayload(message);
+}
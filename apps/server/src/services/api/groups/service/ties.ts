@@ -0,0 +1,249 @@
+// groups/service/ties.ts
+// Two-legged ties: list a group's ties with both legs, "who advances" picks,
+// and settlement of those picks once the second leg is finished.
+
+import { prisma } from "@repo/db";
+import type {
+  ApiFixtureTie,
+  ApiGroupTie,
+  ApiGroupTiesResponse,
+  ApiTiePick,
+} from "@repo/types";
+import { BadRequestError, NotFoundError } from "../../../../utils/errors";
+import { nowUnixSeconds, toUnixSeconds } from "../../../../utils/dates";
+import { getLogger } from "../../../../logger";
+import {
+  invalidateRankingCache,
+  invalidateLiveRankingCache,
+} from "../../../../lib/cache-invalidation";
+import { assertGroupMember } from "../permissions";
+import { repository as repo } from "../repository";
+import type { GroupTiePickRow, TieLegRow } from "../repository/ties";
+import {
+  computeTieAggregate,
+  isSecondLeg,
+  orderTieLegs,
+  resolveTieWinner,
+  scoreTiePick,
+} from "../two-legged-ties";
+
+const log = getLogger("groups.ties");
+
+function toApiTiePick(pick: GroupTiePickRow): ApiTiePick {
+  return {
+    userId: pick.userId,
+    username: pick.users.username,
+    teamId: pick.teamId,
+    isCorrect: pick.isCorrect,
+    points: pick.points,
+  };
+}
+
+/** Legs grouped by tie; ties without exactly two legs are left out. */
+function groupLegsByTie(
+  legs: TieLegRow[]
+): Map<string, { first: TieLegRow; second: TieLegRow }> {
+  const byTie = new Map<string, TieLegRow[]>();
+  for (const leg of legs) {
+    if (!leg.aggregateId) continue;
+    byTie.set(leg.aggregateId, [...(byTie.get(leg.aggregateId) ?? []), leg]);
+  }
+  const ties = new Map<string, { first: TieLegRow; second: TieLegRow }>();
+  for (const [aggregateId, tieLegs] of byTie) {
+    const ordered = orderTieLegs(tieLegs);
+    if (ordered) ties.set(aggregateId, ordered);
+  }
+  return ties;
+}
+
+/**
+ * Build the API tie from its two legs (first leg first).
+ */
+export function toApiFixtureTie(
+  aggregateId: string,
+  legs: { first: TieLegRow; second: TieLegRow }
+): ApiFixtureTie {
+  const { first, second } = legs;
+  return {
+    aggregateId,
+    legs: [first, second].map((leg) => ({
+      fixtureId: leg.id,
+      leg: leg.leg,
+      startTs: leg.startTs,
+      state: String(leg.state),
+      homeTeamId: leg.homeTeamId,
+      awayTeamId: leg.awayTeamId,
+      homeScore: leg.homeScoreET ?? leg.homeScore90,
+      awayScore: leg.awayScoreET ?? leg.awayScore90,
+      penHome: leg.penHome,
+      penAway: leg.penAway,
+    })),
+    aggregate: computeTieAggregate(first, second),
+    winnerTeamId: resolveTieWinner(first, second),
+  };
+}
+
+/**
+ * The tie a fixture belongs to, with both legs; null for single matches.
+ */
+export async function findFixtureTie(
+  aggregateId: string | null
+): Promise<ApiFixtureTie | null> {
+  if (!aggregateId) return null;
+  const legs = groupLegsByTie(await repo.findTieLegs([aggregateId])).get(
+    aggregateId
+  );
+  return legs ? toApiFixtureTie(aggregateId, legs) : null;
+}
+
+/**
+ * Get the group's two-legged ties with both legs, the aggregate and the
+ * "who advances" picks. Other members' picks stay hidden until the first leg kicks off.
+ */
+export async function getGroupTies(
+  groupId: number,
+  userId: number
+): Promise<ApiGroupTiesResponse> {
+  await assertGroupMember(groupId, userId);
+
+  const [rules, aggregateIds, picks] = await Promise.all([
+    repo.findGroupRules(groupId),
+    repo.findGroupTieAggregateIds(groupId),
+    repo.findGroupTiePicks(groupId),
+  ]);
+  const ties = groupLegsByTie(await repo.findTieLegs(aggregateIds));
+
+  const now = nowUnixSeconds();
+  const result: ApiGroupTie[] = [];
+  for (const [aggregateId, legs] of ties) {
+    const tiePicks = picks.filter((p) => p.aggregateId === aggregateId);
+    const myPick = tiePicks.find((p) => p.userId === userId);
+    const locked = now >= legs.first.startTs;
+    const settledAt = tiePicks.find((p) => p.settledAt)?.settledAt ?? null;
+    result.push({
+      ...toApiFixtureTie(aggregateId, legs),
+      homeTeam: legs.first.homeTeam,
+      awayTeam: legs.first.awayTeam,
+      locked,
+      settledAt: settledAt ? toUnixSeconds(settledAt) : null,
+      myPick: myPick ? toApiTiePick(myPick) : null,
+      picks: locked ? tiePicks.map(toApiTiePick) : null,
+    });
+  }
+  result.sort((a, b) => a.legs[0]!.startTs - b.legs[0]!.startTs);
+
+  return {
+    status: "success",
+    data: { ties: result, advancePoints: rules?.advancePoints ?? 0 },
+    message: "Ties fetched successfully",
+  };
+}
+
+/**
+ * Save the member's "who advances" pick for a tie.
+ * - The group must have the market on (advancePoints > 0).
+ * - The tie must have a leg in the group; picks lock when the first leg kicks off.
+ * - The team must be one of the tie's two teams.
+ */
+export async function saveTiePick(
+  groupId: number,
+  aggregateId: string,
+  userId: number,
+  teamId: number
+): Promise<{ status: "success"; message: string }> {
+  await assertGroupMember(groupId, userId);
+
+  const rules = await repo.findGroupRules(groupId);
+  if (!rules?.advancePoints) {
+    throw new BadRequestError("Who advances picks are off for this group");
+  }
+
+  const aggregateIds = await repo.findGroupTieAggregateIds(groupId);
+  const legs = aggregateIds.includes(aggregateId)
+    ? groupLegsByTie(await repo.findTieLegs([aggregateId])).get(aggregateId)
+    : undefined;
+  if (!legs) {
+    throw new NotFoundError(
+      `Tie ${aggregateId} does not belong to group ${groupId}`
+    );
+  }
+  if (nowUnixSeconds() >= legs.first.startTs) {
+    throw new BadRequestError("Tie picks are locked");
+  }
+  if (teamId !== legs.first.homeTeamId && teamId !== legs.first.awayTeamId) {
+    throw new BadRequestError(`Team ${teamId} does not play in this tie`);
+  }
+
+  await repo.upsertGroupTiePick(groupId, userId, aggregateId, teamId);
+  log.info({ groupId, aggregateId, userId }, "saveTiePick - success");
+  return { status: "success", message: "Tie pick saved successfully" };
+}
+
+/**
+ * Settle "who advances" picks of ties decided by these fixtures (finished second
+ * legs). Picks are re-scored from the current legs, so a score correction
+ * resettles them. Groups with the market off score 0.
+ *
+ * @returns Number of picks written
+ */
+export async function settleTiePicksForFixtures(
+  fixtureIds: number[]
+): Promise<number> {
+  if (!fixtureIds.length) return 0;
+
+  const secondLegs = await prisma.fixtures.findMany({
+    where: { id: { in: fixtureIds }, aggregateId: { not: null } },
+    select: { aggregateId: true, leg: true },
+  });
+  const aggregateIds = [
+    ...new Set(
+      secondLegs.flatMap((f) =>
+        f.aggregateId && isSecondLeg(f.leg) ? [f.aggregateId] : []
+      )
+    ),
+  ];
+  if (!aggregateIds.length) return 0;
+
+  const winners = new Map<string, number>();
+  for (const [aggregateId, legs] of groupLegsByTie(
+    await repo.findTieLegs(aggregateIds)
+  )) {
+    const winner = resolveTieWinner(legs.first, legs.second);
+    if (winner != null) winners.set(aggregateId, winner);
+  }
+  if (!winners.size) return 0;
+
+  const picks = await prisma.groupTiePicks.findMany({
+    where: { aggregateId: { in: [...winners.keys()] } },
+    select: {
+      id: true,
+      groupId: true,
+      aggregateId: true,
+      teamId: true,
+      groups: { select: { groupRules: { select: { advancePoints: true } } } },
+    },
+  });
+  if (!picks.length) return 0;
+
+  const now = new Date();
+  await prisma.$transaction(
+    picks.map((pick) => {
+      const result = scoreTiePick(
+        pick.teamId,
+        winners.get(pick.aggregateId)!,
+        pick.groups.groupRules?.advancePoints ?? 0
+      );
+      return prisma.groupTiePicks.update({
+        where: { id: pick.id },
+        data: { ...result, settledAt: now },
+      });
+    })
+  );
+
+  const groupIds = [...new Set(picks.map((p) => p.groupId))];
+  await invalidateRankingCache(groupIds);
+  await invalidateLiveRankingCache(groupIds);
+
+  log.info({ ties: winners.size, picks: picks.length }, "Settled tie picks");
+  return picks.length;
+}
@@ -13,11 +13,21 @@ import type {
   groupPredictionMode,
   groupKoRoundMode,
   groupInviteAccess,
+  groupJokerMode,
+  groupPredictionVisibility,
+  groupVoidedFixturePolicy,
 } from "@repo/db";
 import { BadRequestError, ForbiddenError } from "../../../../utils/errors";
 import { GROUP_STATUS, NUDGE_WINDOW_MIN, NUDGE_WINDOW_MAX } from "../constants";
 import { buildGroupItem } from "../builders";
-import { assertGroupCreator } from "../permissions";
+import { assertGroupAdmin, assertGroupCreator } from "../permissions";
+import {
+  validateScoringStrategy,
+  validateUnderdogMaxMultiplier,
+  validateJokerFixturesPerCard,
+  validateSideMarketPoints,
+} from "../validators/group-validators";
+import { DEFAULT_SCORING_STRATEGY } from "../scoring-strategies";
 import { repository as repo } from "../repository";
 import { getLogger } from "../../../../logger";
 import type { TypedIOServer } from "../../../../types/socket";
@@ -33,13 +43,13 @@ const log = getLogger("groups.update");
 
 /**
  * Update a group.
- * Verifies that the user is the creator.
+ * Verifies that the user is a group admin or the owner.
  * Only updates fields that are provided.
- * Returns 404 if group doesn't exist or user is not the creator.
+ * Returns 404 if group doesn't exist, 403 if user is not an admin.
  */
 export async function updateGroup(
   id: number,
-  args: ApiUpdateGroupBody & { creatorId: number },
+  args: ApiUpdateGroupBody & { actorId: number },
   io?: TypedIOServer
 ): Promise<ApiGroupResponse> {
   log.debug(
@@ -47,17 +57,31 @@ export async function updateGroup(
     "updateGroup - start"
   );
   const {
-    creatorId,
+    actorId,
     name,
     description,
     privacy,
     fixtureIds,
     inviteAccess,
+    requiresApproval,
+    predictionVisibility,
+    voidedFixturePolicy,
+    followWindowDays,
     nudgeEnabled,
     nudgeWindowMinutes,
     onTheNosePoints,
     correctDifferencePoints,
     outcomePoints,
+    scoringStrategy,
+    scoringConfig,
+    underdogBonus,
+    underdogMaxMultiplier,
+    jokerMode,
+    jokerFixturesPerCard,
+    bttsPoints,
+    overUnderPoints,
+    firstTeamToScorePoints,
+    advancePoints,
     avatarType,
     avatarValue,
   } = args;
@@ -72,8 +96,17 @@ export async function updateGroup(
     );
   }
 
-  // Verify group exists and user is creator
-  await assertGroupCreator(id, creatorId);
+  validateUnderdogMaxMultiplier(underdogMaxMultiplier);
+  validateJokerFixturesPerCard(jokerFixturesPerCard);
+  validateSideMarketPoints({
+    bttsPoints,
+    overUnderPoints,
+    firstTeamToScorePoints,
+    advancePoints,
+  });
+
+  // Verify group exists and user is an admin (owner included)
+  await assertGroupAdmin(id, actorId);
 
   // Build update data
   const updateData: Prisma.groupsUpdateInput = {};
@@ -98,10 +131,21 @@ export async function updateGroup(
     updateData.avatarValue = avatarValue;
   }
 
+  const hasStrategyUpdate =
+    scoringStrategy !== undefined || scoringConfig !== undefined;
   const hasScoringUpdate =
     onTheNosePoints !== undefined ||
     correctDifferencePoints !== undefined ||
-    outcomePoints !== undefined;
+    outcomePoints !== undefined ||
+    underdogBonus !== undefined ||
+    underdogMaxMultiplier !== undefined ||
+    jokerMode !== undefined ||
+    jokerFixturesPerCard !== undefined ||
+    bttsPoints !== undefined ||
+    overUnderPoints !== undefined ||
+    firstTeamToScorePoints !== undefined ||
+    advancePoints !== undefined ||
+    hasStrategyUpdate;
 
   if (hasScoringUpdate) {
     const firstFixture = await prisma.groupFixtures.findFirst({
@@ -117,12 +161,26 @@ export async function updateGroup(
 
   const hasRulesUpdate =
     inviteAccess !== undefined ||
+    requiresApproval !== undefined ||
+    predictionVisibility !== undefined ||
+    voidedFixturePolicy !== undefined ||
+    followWindowDays !== undefined ||
     nudgeEnabled !== undefined ||
     nudgeWindowMinutes !== undefined ||
     hasScoringUpdate;
   const rulesUpdateData: Prisma.groupRulesUpdateInput = {};
   if (inviteAccess !== undefined)
     rulesUpdateData.inviteAccess = inviteAccess as groupInviteAccess;
+  if (requiresApproval !== undefined)
+    rulesUpdateData.requiresApproval = requiresApproval;
+  if (predictionVisibility !== undefined)
+    rulesUpdateData.predictionVisibility =
+      predictionVisibility as groupPredictionVisibility;
+  if (voidedFixturePolicy !== undefined)
+    rulesUpdateData.voidedFixturePolicy =
+      voidedFixturePolicy as groupVoidedFixturePolicy;
+  if (followWindowDays !== undefined)
+    rulesUpdateData.followWindowDays = followWindowDays;
   if (nudgeEnabled !== undefined) rulesUpdateData.nudgeEnabled = nudgeEnabled;
   if (nudgeWindowMinutes !== undefined)
     rulesUpdateData.nudgeWindowMinutes = nudgeWindowMinutes;
@@ -132,6 +190,31 @@ export async function updateGroup(
     rulesUpdateData.correctDifferencePoints = correctDifferencePoints;
   if (outcomePoints !== undefined)
     rulesUpdateData.outcomePoints = outcomePoints;
+  if (underdogBonus !== undefined) rulesUpdateData.underdogBonus = underdogBonus;
+  if (underdogMaxMultiplier !== undefined)
+    rulesUpdateData.underdogMaxMultiplier = underdogMaxMultiplier;
+  if (jokerMode !== undefined)
+    rulesUpdateData.jokerMode = jokerMode as groupJokerMode;
+  if (jokerFixturesPerCard !== undefined)
+    rulesUpdateData.jokerFixturesPerCard = jokerFixturesPerCard;
+  if (bttsPoints !== undefined) rulesUpdateData.bttsPoints = bttsPoints;
+  if (advancePoints !== undefined)
+    rulesUpdateData.advancePoints = advancePoints;
+  if (overUnderPoints !== undefined)
+    rulesUpdateData.overUnderPoints = overUnderPoints;
+  if (firstTeamToScorePoints !== undefined)
+    rulesUpdateData.firstTeamToScorePoints = firstTeamToScorePoints;
+  if (hasStrategyUpdate) {
+    // Config alone re-validates against the group's current strategy
+    const currentRules = await repo.findGroupRules(id);
+    const validated = validateScoringStrategy(
+      scoringStrategy ?? currentRules?.scoringStrategy ?? DEFAULT_SCORING_STRATEGY,
+      scoringConfig,
+      currentRules?.predictionMode ?? "CorrectScore"
+    );
+    rulesUpdateData.scoringStrategy = validated.scoringStrategy;
+    rulesUpdateData.scoringConfig = validated.scoringConfig;
+  }
 
   // Capture current fixture IDs before the update (for change detection)
   let oldFixtureIds: Set<number> | undefined;
@@ -172,15 +255,15 @@ export async function updateGroup(
     const newIds = new Set(fixtureIds);
     const added = fixtureIds.filter((fid) => !oldFixtureIds!.has(fid));
     const removed = Array.from(oldFixtureIds).filter((fid) => !newIds.has(fid));
-    if (added.length > 0) emitGamesAddedEvent(id, added.length, creatorId, io);
-    if (removed.length > 0) emitGamesRemovedEvent(id, removed.length, creatorId, io);
+    if (added.length > 0) emitGamesAddedEvent(id, added.length, actorId, io);
+    if (removed.length > 0) emitGamesRemovedEvent(id, removed.length, actorId, io);
   }
 
   // Rules changes
   if (hasRulesUpdate) {
     const changedRuleFields = Object.keys(rulesUpdateData);
     if (changedRuleFields.length > 0) {
-      emitRulesChangedEvent(id, changedRuleFields, creatorId, io);
+      emitRulesChangedEvent(id, changedRuleFields, actorId, io);
     }
   }
 
@@ -191,12 +274,12 @@ export async function updateGroup(
     if (description !== undefined && description !== oldGroup.description) infoChanges.push("description");
     if (privacy !== undefined && privacy !== oldGroup.privacy) infoChanges.push("privacy");
     if (infoChanges.length > 0) {
-      emitGroupInfoChangedEvent(id, infoChanges, creatorId, io);
+      emitGroupInfoChangedEvent(id, infoChanges, actorId, io);
     }
   }
 
   const data = buildGroupItem(group);
-  log.info({ id, creatorId }, "updateGroup - success");
+  log.info({ id, actorId }, "updateGroup - success");
   return {
     status: "success",
     data,
@@ -234,7 +317,20 @@ export async function publishGroup(
     outcomePoints,
     predictionMode,
     koRoundMode,
+    scoringStrategy,
+    scoringConfig,
+    underdogBonus,
+    underdogMaxMultiplier,
+    jokerMode,
+    jokerFixturesPerCard,
+    bttsPoints,
+    overUnderPoints,
+    firstTeamToScorePoints,
+    advancePoints,
     inviteAccess,
+    predictionVisibility,
+    voidedFixturePolicy,
+    followWindowDays,
     maxMembers,
     nudgeEnabled,
     nudgeWindowMinutes,
@@ -250,6 +346,15 @@ export async function publishGroup(
     );
   }
 
+  validateUnderdogMaxMultiplier(underdogMaxMultiplier);
+  validateJokerFixturesPerCard(jokerFixturesPerCard);
+  validateSideMarketPoints({
+    bttsPoints,
+    overUnderPoints,
+    firstTeamToScorePoints,
+    advancePoints,
+  });
+
   // 1. Business validations
   // Verify group exists and user is creator
   const existingGroup = await assertGroupCreator(id, creatorId);
@@ -261,6 +366,15 @@ export async function publishGroup(
     );
   }
 
+  const scoringSelection =
+    scoringStrategy !== undefined || scoringConfig !== undefined
+      ? validateScoringStrategy(
+          scoringStrategy ?? DEFAULT_SCORING_STRATEGY,
+          scoringConfig,
+          predictionMode ?? "CorrectScore"
+        )
+      : undefined;
+
   // 2. Build data for repository
   const publishData = {
     groupId: id,
@@ -278,9 +392,27 @@ export async function publishGroup(
     ...(koRoundMode !== undefined && {
       koRoundMode: koRoundMode as groupKoRoundMode,
     }),
+    ...scoringSelection,
+    ...(underdogBonus !== undefined && { underdogBonus }),
+    ...(underdogMaxMultiplier !== undefined && { underdogMaxMultiplier }),
+    ...(jokerMode !== undefined && {
+      jokerMode: jokerMode as groupJokerMode,
+    }),
+    ...(jokerFixturesPerCard !== undefined && { jokerFixturesPerCard }),
+    ...(bttsPoints !== undefined && { bttsPoints }),
+    ...(overUnderPoints !== undefined && { overUnderPoints }),
+    ...(firstTeamToScorePoints !== undefined && { firstTeamToScorePoints }),
+    ...(advancePoints !== undefined && { advancePoints }),
     ...(inviteAccess !== undefined && {
       inviteAccess: inviteAccess as groupInviteAccess,
     }),
+    ...(predictionVisibility !== undefined && {
+      predictionVisibility: predictionVisibility as groupPredictionVisibility,
+    }),
+    ...(voidedFixturePolicy !== undefined && {
+      voidedFixturePolicy: voidedFixturePolicy as groupVoidedFixturePolicy,
+    }),
+    ...(followWindowDays !== undefined && { followWindowDays }),
     ...(maxMembers !== undefined && { maxMembers }),
     ...(nudgeEnabled !== undefined && { nudgeEnabled }),
     ...(nudgeWindowMinutes !== undefined && { nudgeWindowMinutes }),
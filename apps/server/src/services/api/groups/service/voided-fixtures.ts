@@ -0,0 +1,260 @@
+// groups/service/voided-fixtures.ts
+// Applies each group's voided-fixture policy to postponed, cancelled and
+// rescheduled fixtures: void the fixture for the group, or follow it to its new date.
+
+import { CANCELLED_STATES } from "@repo/utils";
+import { prisma } from "@repo/db";
+import type { FixtureState, Prisma } from "@repo/db";
+import { getLogger } from "../../../../logger";
+import { nowUnixSeconds } from "../../../../utils/dates";
+import type { FixtureReschedule } from "../../../../etl/sync/sync.fixtures";
+import type { TypedIOServer } from "../../../../types/socket";
+import {
+  invalidateRankingCache,
+  invalidateLiveRankingCache,
+} from "../../../../lib/cache-invalidation";
+import { GROUP_STATUS } from "../constants";
+import {
+  DEFAULT_FOLLOW_WINDOW_DAYS,
+  DEFAULT_VOIDED_FIXTURE_POLICY,
+  decideRescheduledFixture,
+  decideVoidedFixture,
+  type VoidedFixtureDecision,
+} from "../voided-fixtures";
+import { emitFixtureNoticeEvent, type FixtureNoticeType } from "./chat-events";
+import { transitionCompletedGroups } from "./settlement";
+
+const log = getLogger("groups.voided-fixtures");
+
+export type VoidedFixturePolicyResult = {
+  /** Group fixtures voided (with their open predictions) */
+  voided: number;
+  /** Group fixtures kept open for a postponed match */
+  followed: number;
+};
+
+const groupFixtureSelect = {
+  id: true,
+  groupId: true,
+  fixtureId: true,
+  fixtures: {
+    select: {
+      state: true,
+      startTs: true,
+      homeTeam: { select: { name: true } },
+      awayTeam: { select: { name: true } },
+    },
+  },
+  groups: {
+    select: {
+      groupRules: {
+        select: { voidedFixturePolicy: true, followWindowDays: true },
+      },
+    },
+  },
+} satisfies Prisma.groupFixturesSelect;
+
+type PolicyGroupFixture = Prisma.groupFixturesGetPayload<{
+  select: typeof groupFixtureSelect;
+}>;
+
+type Decided = {
+  groupFixture: PolicyGroupFixture;
+  decision: VoidedFixtureDecision;
+  /** Notice for a followed fixture (voided ones always get "fixture_voided") */
+  followNotice: FixtureNoticeType;
+};
+
+async function findOpenGroupFixtures(
+  where: Prisma.groupFixturesWhereInput
+): Promise<PolicyGroupFixture[]> {
+  return prisma.groupFixtures.findMany({
+    where: { ...where, voidedAt: null },
+    select: groupFixtureSelect,
+  });
+}
+
+function rulesOf(gf: PolicyGroupFixture) {
+  return {
+    policy:
+      gf.groups.groupRules?.voidedFixturePolicy ??
+      DEFAULT_VOIDED_FIXTURE_POLICY,
+    windowDays:
+      gf.groups.groupRules?.followWindowDays ?? DEFAULT_FOLLOW_WINDOW_DAYS,
+  };
+}
+
+function noticeData(gf: PolicyGroupFixture) {
+  return {
+    fixtureId: gf.fixtureId,
+    homeTeam: gf.fixtures.homeTeam?.name || "TBD",
+    awayTeam: gf.fixtures.awayTeam?.name || "TBD",
+    state: gf.fixtures.state,
+    startTs: gf.fixtures.startTs,
+  };
+}
+
+/**
+ * Void or follow each decided group fixture. Voiding settles the fixture's open
+ * predictions as void (0 points, not counted) and may end groups whose last open
+ * fixture this was.
+ */
+async function applyDecisions(
+  decided: Decided[],
+  io?: TypedIOServer
+): Promise<VoidedFixturePolicyResult> {
+  const toVoid = decided.filter((d) => d.decision === "void");
+  const followed = decided.filter((d) => d.decision === "follow");
+
+  if (toVoid.length > 0) {
+    const now = new Date();
+    const groupFixtureIds = toVoid.map((d) => d.groupFixture.id);
+    await prisma.$transaction([
+      ...toVoid.map((d) =>
+        prisma.groupFixtures.update({
+          where: { id: d.groupFixture.id },
+          data: {
+            voidedAt: now,
+            voidReason: d.groupFixture.fixtures.state,
+          },
+        })
+      ),
+      prisma.groupPredictions.updateMany({
+        where: { groupFixtureId: { in: groupFixtureIds }, settledAt: null },
+        data: {
+          voidedAt: now,
+          settledAt: now,
+          points: "0",
+          marketPoints: 0,
+          winningCorrectScore: false,
+          winningCorrectDifference: false,
+          winningMatchWinner: false,
+        },
+      }),
+    ]);
+
+    const groupIds = [...new Set(toVoid.map((d) => d.groupFixture.groupId))];
+    await invalidateRankingCache(groupIds);
+    await invalidateLiveRankingCache(groupIds);
+    await transitionCompletedGroups(groupIds);
+  }
+
+  for (const d of toVoid) {
+    await emitFixtureNoticeEvent(
+      d.groupFixture.groupId,
+      "fixture_voided",
+      noticeData(d.groupFixture),
+      io
+    );
+  }
+  for (const d of followed) {
+    await emitFixtureNoticeEvent(
+      d.groupFixture.groupId,
+      d.followNotice,
+      noticeData(d.groupFixture),
+      io
+    );
+  }
+
+  if (decided.length > 0) {
+    log.info(
+      { voided: toVoid.length, followed: followed.length },
+      "Applied voided-fixture policy"
+    );
+  }
+  return { voided: toVoid.length, followed: followed.length };
+}
+
+/**
+ * Apply each group's policy to fixtures a sync just cancelled or rescheduled.
+ * - Cancelled (postponed, abandoned, ...): void, or follow a postponement.
+ * - Rescheduled postponed fixture: follow it when the new date is within the
+ *   group's window, otherwise void it.
+ * Group fixtures that are already voided are left alone.
+ */
+export async function applyVoidedFixturePolicy(
+  changes: {
+    cancelledFixtureIds: number[];
+    rescheduledFixtures: FixtureReschedule[];
+  },
+  io?: TypedIOServer
+): Promise<VoidedFixturePolicyResult> {
+  const { cancelledFixtureIds, rescheduledFixtures } = changes;
+  if (!cancelledFixtureIds.length && !rescheduledFixtures.length) {
+    return { voided: 0, followed: 0 };
+  }
+
+  const nowTs = nowUnixSeconds();
+  const decided: Decided[] = [];
+
+  if (cancelledFixtureIds.length > 0) {
+    const cancelled = await findOpenGroupFixtures({
+      fixtureId: { in: cancelledFixtureIds },
+    });
+    for (const gf of cancelled) {
+      decided.push({
+        groupFixture: gf,
+        decision: decideVoidedFixture({
+          ...rulesOf(gf),
+          state: gf.fixtures.state,
+          originalStartTs: gf.fixtures.startTs,
+          nowTs,
+        }),
+        followNotice: "fixture_postponed",
+      });
+    }
+  }
+
+  if (rescheduledFixtures.length > 0) {
+    const byFixture = new Map(rescheduledFixtures.map((r) => [r.fixtureId, r]));
+    const rescheduled = await findOpenGroupFixtures({
+      fixtureId: { in: [...byFixture.keys()] },
+    });
+    for (const gf of rescheduled) {
+      const r = byFixture.get(gf.fixtureId)!;
+      decided.push({
+        groupFixture: gf,
+        decision: decideRescheduledFixture({
+          ...rulesOf(gf),
+          previousStartTs: r.previousStartTs,
+          startTs: r.startTs,
+        }),
+        followNotice: "fixture_rescheduled",
+      });
+    }
+  }
+
+  return applyDecisions(decided, io);
+}
+
+/**
+ * Void fixtures of active groups that are still cancelled and no longer
+ * followed: postponements whose follow window has passed without a new date.
+ * Run periodically; fixtures synced before the policy existed are caught too.
+ */
+export async function voidExpiredPostponements(
+  io?: TypedIOServer
+): Promise<VoidedFixturePolicyResult> {
+  const open = await findOpenGroupFixtures({
+    groups: { status: GROUP_STATUS.ACTIVE },
+    fixtures: { state: { in: [...CANCELLED_STATES] as FixtureState[] } },
+  });
+
+  const nowTs = nowUnixSeconds();
+  const decided: Decided[] = open.map((gf) => ({
+    groupFixture: gf,
+    decision: decideVoidedFixture({
+      ...rulesOf(gf),
+      state: gf.fixtures.state,
+      originalStartTs: gf.fixtures.startTs,
+      nowTs,
+    }),
+    followNotice: "fixture_postponed",
+  }));
+
+  // Followed fixtures were already announced when they were postponed
+  return applyDecisions(
+    decided.filter((d) => d.decision === "void"),
+    io
+  );
+}
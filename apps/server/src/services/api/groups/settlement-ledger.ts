@@ -0,0 +1,136 @@
+// groups/settlement-ledger.ts
+// Settlement ledger helpers: rule versions, changed results and the projected rank
+// changes of a resettle. Pure — no DB.
+
+import { createHash } from "node:crypto";
+import type { RankingItem } from "./types";
+import type { ScoringRules } from "./scoring";
+import type { SideMarketRules } from "./side-markets";
+import { rankItems, type TiebreakField } from "./ranking-order";
+
+export type SettlementReason = "settlement" | "resettle";
+
+/** A prediction's result: points plus the flags that feed the ranking tiebreakers. */
+export type PredictionResult = {
+  points: number;
+  winningCorrectScore: boolean;
+  winningCorrectDifference: boolean;
+  winningMatchWinner: boolean;
+};
+
+export type RankChange = {
+  userId: number;
+  username: string | null;
+  previousRank: number;
+  newRank: number;
+  previousPoints: number;
+  newPoints: number;
+};
+
+/**
+ * Short, stable version of a group's scoring rules: the same rules always give
+ * the same version, any change gives a new one.
+ */
+export function computeRuleVersion(
+  rules: ScoringRules,
+  marketRules: SideMarketRules
+): string {
+  return createHash("sha256")
+    .update(JSON.stringify({ rules, marketRules }))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Whether rescoring changed a prediction (never-settled predictions always count).
+ */
+export function hasResultChanged(
+  previous: PredictionResult | null,
+  next: PredictionResult
+): boolean {
+  return (
+    !previous ||
+    previous.points !== next.points ||
+    previous.winningCorrectScore !== next.winningCorrectScore ||
+    previous.winningCorrectDifference !== next.winningCorrectDifference ||
+    previous.winningMatchWinner !== next.winningMatchWinner
+  );
+}
+
+const countDelta = (previous: boolean | undefined, next: boolean) =>
+  Number(next) - Number(previous ?? false);
+
+/**
+ * Apply rescored predictions to the current ranking and return the members whose
+ * rank or points would change, in their new order.
+ */
+export function projectRankChanges(
+  items: RankingItem[],
+  changes: Array<{
+    userId: number;
+    previous: PredictionResult | null;
+    next: PredictionResult;
+  }>,
+  tiebreakFields: TiebreakField[]
+): RankChange[] {
+  const deltas = new Map<
+    number,
+    Record<TiebreakField, number> & { points: number }
+  >();
+  for (const { userId, previous, next } of changes) {
+    const d = deltas.get(userId) ?? {
+      points: 0,
+      correctScoreCount: 0,
+      correctDifferenceCount: 0,
+      correctOutcomeCount: 0,
+    };
+    d.points += next.points - (previous?.points ?? 0);
+    d.correctScoreCount += countDelta(
+      previous?.winningCorrectScore,
+      next.winningCorrectScore
+    );
+    d.correctDifferenceCount += countDelta(
+      previous?.winningCorrectDifference,
+      next.winningCorrectDifference
+    );
+    d.correctOutcomeCount += countDelta(
+      previous?.winningMatchWinner,
+      next.winningMatchWinner
+    );
+    deltas.set(userId, d);
+  }
+
+  const before = new Map(items.map((item) => [item.userId, item]));
+  const projected = rankItems(
+    items.map((item) => {
+      const d = deltas.get(item.userId);
+      if (!d) return item;
+      return {
+        ...item,
+        totalPoints: item.totalPoints + d.points,
+        correctScoreCount: item.correctScoreCount + d.correctScoreCount,
+        correctDifferenceCount:
+          item.correctDifferenceCount + d.correctDifferenceCount,
+        correctOutcomeCount: item.correctOutcomeCount + d.correctOutcomeCount,
+      };
+    }),
+    tiebreakFields
+  );
+
+  const result: RankChange[] = [];
+  for (const item of projected) {
+    const prev = before.get(item.userId)!;
+    if (prev.rank === item.rank && prev.totalPoints === item.totalPoints) {
+      continue;
+    }
+    result.push({
+      userId: item.userId,
+      username: item.username,
+      previousRank: prev.rank,
+      newRank: item.rank,
+      previousPoints: prev.totalPoints,
+      newPoints: item.totalPoints,
+    });
+  }
+  return result;
+}
@@ -0,0 +1,123 @@
+// groups/side-markets.ts
+// Pure scoring for the optional side markets of a group fixture. No DB, no side effects.
+//
+// Side markets are picked next to the main "home:away" prediction and always
+// settle on the 90-minute score, whatever koRoundMode says:
+// - btts: both teams to score (yes/no)
+// - overUnder: total goals over/under OVER_UNDER_LINE
+// - firstTeamToScore: home / away / none (goalless)
+// A market is enabled when its points in group rules are > 0.
+
+export type OverUnderPick = "over" | "under";
+export type FirstTeamToScorePick = "home" | "away" | "none";
+
+export type SideMarketPicks = {
+  btts: boolean | null;
+  overUnder: OverUnderPick | null;
+  firstTeamToScore: FirstTeamToScorePick | null;
+};
+
+export type SideMarketRules = {
+  bttsPoints: number;
+  overUnderPoints: number;
+  firstTeamToScorePoints: number;
+};
+
+export type SideMarketFixture = {
+  homeScore90: number;
+  awayScore90: number;
+  /** "home" | "away" from provider goal events; null when unknown. */
+  firstScoringTeam: string | null;
+};
+
+export type SideMarketResult = {
+  points: number;
+  btts: boolean | null;
+  overUnder: boolean | null;
+  firstTeamToScore: boolean | null;
+  /** True when a first-team pick could not be settled because the first scorer is unknown. */
+  firstTeamToScoreVoid: boolean;
+};
+
+/** Goal line for the over/under market (half line, so no push). */
+export const OVER_UNDER_LINE = 2.5;
+
+export const OVER_UNDER_PICKS: readonly OverUnderPick[] = ["over", "under"];
+export const FIRST_TEAM_TO_SCORE_PICKS: readonly FirstTeamToScorePick[] = [
+  "home",
+  "away",
+  "none",
+];
+
+/** Narrow the stored pick columns of a group prediction to SideMarketPicks. */
+export function parseSideMarketPicks(row: {
+  bttsPick: boolean | null;
+  overUnderPick: string | null;
+  firstTeamToScorePick: string | null;
+}): SideMarketPicks {
+  return {
+    btts: row.bttsPick,
+    overUnder: OVER_UNDER_PICKS.includes(row.overUnderPick as OverUnderPick)
+      ? (row.overUnderPick as OverUnderPick)
+      : null,
+    firstTeamToScore: FIRST_TEAM_TO_SCORE_PICKS.includes(
+      row.firstTeamToScorePick as FirstTeamToScorePick
+    )
+      ? (row.firstTeamToScorePick as FirstTeamToScorePick)
+      : null,
+  };
+}
+
+/**
+ * Actual first-team-to-score outcome: "none" for a goalless 90 minutes,
+ * otherwise the provider's first scoring team. Null when it is not known.
+ */
+export function resolveFirstTeamToScore(
+  fixture: SideMarketFixture
+): FirstTeamToScorePick | null {
+  if (fixture.homeScore90 === 0 && fixture.awayScore90 === 0) return "none";
+  if (fixture.firstScoringTeam === "home" || fixture.firstScoringTeam === "away")
+    return fixture.firstScoringTeam;
+  return null;
+}
+
+/**
+ * Points earned on side markets. Disabled markets (0 points) and missing picks
+ * are ignored; hit flags are null for them. Jokers are applied by the caller.
+ */
+export function calculateSideMarketPoints(
+  picks: SideMarketPicks,
+  fixture: SideMarketFixture,
+  rules: SideMarketRules
+): SideMarketResult {
+  let points = 0;
+  let btts: boolean | null = null;
+  let overUnder: boolean | null = null;
+  let firstTeamToScore: boolean | null = null;
+  let firstTeamToScoreVoid = false;
+
+  if (rules.bttsPoints > 0 && picks.btts != null) {
+    const actual = fixture.homeScore90 > 0 && fixture.awayScore90 > 0;
+    btts = picks.btts === actual;
+    if (btts) points += rules.bttsPoints;
+  }
+
+  if (rules.overUnderPoints > 0 && picks.overUnder != null) {
+    const total = fixture.homeScore90 + fixture.awayScore90;
+    const actual: OverUnderPick = total > OVER_UNDER_LINE ? "over" : "under";
+    overUnder = picks.overUnder === actual;
+    if (overUnder) points += rules.overUnderPoints;
+  }
+
+  if (rules.firstTeamToScorePoints > 0 && picks.firstTeamToScore != null) {
+    const actual = resolveFirstTeamToScore(fixture);
+    if (actual == null) {
+      firstTeamToScoreVoid = true;
+    } else {
+      firstTeamToScore = picks.firstTeamToScore === actual;
+      if (firstTeamToScore) points += rules.firstTeamToScorePoints;
+    }
+  }
+
+  return { points, btts, overUnder, firstTeamToScore, firstTeamToScoreVoid };
+}
@@ -0,0 +1,119 @@
+// groups/two-legged-ties.ts
+// Two-legged ties: fixtures sharing an aggregateId. Orders the legs, resolves the
+// team that advances from the aggregate score and scores "who advances" picks.
+// Pure functions, no DB access.
+
+import { isFinished } from "@repo/utils";
+
+/** A leg of a tie with the fields needed to resolve the aggregate. */
+export type TieLeg = {
+  id: number;
+  leg: string | null;
+  startTs: number;
+  state: string;
+  homeTeamId: number;
+  awayTeamId: number;
+  homeScore90: number | null;
+  awayScore90: number | null;
+  homeScoreET: number | null;
+  awayScoreET: number | null;
+  penHome: number | null;
+  penAway: number | null;
+};
+
+export type TieAggregate = {
+  /** Goals of the first leg's home team over both legs (after extra time). */
+  home: number;
+  /** Goals of the first leg's away team over both legs (after extra time). */
+  away: number;
+};
+
+export type TiePickResult = {
+  isCorrect: boolean;
+  points: number;
+};
+
+/** Whether a fixture's leg marker ("2/2") is the second leg of a two-legged tie. */
+export function isSecondLeg(leg: string | null | undefined): boolean {
+  return leg === "2/2";
+}
+
+/**
+ * First and second leg of a tie: by leg marker, falling back to kickoff order.
+ * Returns null unless the tie has exactly two legs.
+ */
+export function orderTieLegs<T extends Pick<TieLeg, "leg" | "startTs">>(
+  legs: T[]
+): { first: T; second: T } | null {
+  if (legs.length !== 2) return null;
+  const [a, b] = [...legs].sort((x, y) => {
+    if (isSecondLeg(x.leg) !== isSecondLeg(y.leg)) {
+      return isSecondLeg(x.leg) ? 1 : -1;
+    }
+    return x.startTs - y.startTs;
+  }) as [T, T];
+  return { first: a, second: b };
+}
+
+/** Final score of a leg: after extra time when it was played, else 90 minutes. */
+function legScore(leg: TieLeg): { home: number; away: number } | null {
+  if (leg.homeScoreET != null && leg.awayScoreET != null) {
+    return { home: leg.homeScoreET, away: leg.awayScoreET };
+  }
+  if (leg.homeScore90 == null || leg.awayScore90 == null) return null;
+  return { home: leg.homeScore90, away: leg.awayScore90 };
+}
+
+/**
+ * Aggregate score from the first leg's home/away point of view, counting goals
+ * that have been scored so far (unfinished legs with a score count too).
+ * Returns null when the first leg has no score yet.
+ */
+export function computeTieAggregate(
+  first: TieLeg,
+  second: TieLeg
+): TieAggregate | null {
+  const firstScore = legScore(first);
+  if (!firstScore) return null;
+  const aggregate = { home: firstScore.home, away: firstScore.away };
+  const secondScore = legScore(second);
+  if (!secondScore) return aggregate;
+  // The second leg is usually played the other way round
+  const swapped = second.homeTeamId === first.awayTeamId;
+  aggregate.home += swapped ? secondScore.away : secondScore.home;
+  aggregate.away += swapped ? secondScore.home : secondScore.away;
+  return aggregate;
+}
+
+/**
+ * Team that advances once both legs are finished: the aggregate winner after
+ * the second leg's extra time, or the second leg's penalty shootout winner when
+ * the aggregate is level (no away-goals rule).
+ * Returns null while a leg is unfinished or when the result can't be decided.
+ */
+export function resolveTieWinner(first: TieLeg, second: TieLeg): number | null {
+  if (!isFinished(first.state) || !isFinished(second.state)) return null;
+  const aggregate = computeTieAggregate(first, second);
+  if (!aggregate || legScore(second) == null) return null;
+
+  if (aggregate.home !== aggregate.away) {
+    return aggregate.home > aggregate.away
+      ? first.homeTeamId
+      : first.awayTeamId;
+  }
+  if (second.penHome == null || second.penAway == null) return null;
+  if (second.penHome === second.penAway) return null;
+  return second.penHome > second.penAway
+    ? second.homeTeamId
+    : second.awayTeamId;
+}
+
+/** Score a "who advances" pick: the market's points when the picked team went through. */
+export function scoreTiePick(
+  teamId: number,
+  winnerTeamId: number,
+  points: number
+): TiePickResult {
+  const isCorrect = teamId === winnerTeamId;
+  return { isCorrect, points: isCorrect ? points : 0 };
+}
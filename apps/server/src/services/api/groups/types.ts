@@ -3,6 +3,7 @@
 
 import type { Prisma } from "@repo/db";
 import { FIXTURE_SELECT_BASE, FIXTURE_SELECT_WITH_RESULT } from "../fixtures/selects";
+import type { SideMarketPicks } from "./side-markets";
 
 /**
  * Type for fixture data from Prisma with relations (without result).
@@ -29,6 +30,12 @@ export type PredictionRow = {
   placedAt: Date;
   settledAt: Date | null;
   points: number | string | null;
+  isJoker?: boolean;
+  bttsPick?: boolean | null;
+  overUnderPick?: string | null;
+  firstTeamToScorePick?: string | null;
+  marketPoints?: number;
+  voidedAt?: Date | null;
 };
 
 /**
@@ -41,6 +48,11 @@ export type ParsedPrediction = {
   placedAt: string;
   settled: boolean;
   points: number | null;
+  isJoker: boolean;
+  markets?: SideMarketPicks;
+  marketPoints?: number;
+  /** Settled as void: the fixture was postponed/cancelled for the group */
+  voided?: boolean;
 };
 
 /**
@@ -112,18 +124,36 @@ export type RankingItem = {
   correctScoreCount: number;
   correctDifferenceCount: number;
   correctOutcomeCount: number;
+  /** Settled joker predictions (unsettled jokers stay hidden from other members) */
+  jokersUsed: number;
+  /** Points earned by joker predictions (already multiplied) */
+  jokerPoints: number;
+  /** Points from settled outright picks (already included in totalPoints) */
+  outrightPoints: number;
+  /** Points from settled "who advances" tie picks (already included in totalPoints) */
+  advancePoints: number;
   nudgeable?: boolean;
   nudgeFixtureId?: number;
   nudgedByMe?: boolean;
   nudgeReceivedCount?: number;
-  /** Rank from the previous fixture settlement */
+  /** Rank from the previous fixture settlement (live mode: the settled rank) */
   previousRank?: number;
-  /** Rank change: positive = went up, negative = went down, 0 = same */
+  /** Rank change: positive = went up, negative = went down, 0 = same (live mode: from the settled rank) */
   rankChange?: number;
+  /** Live mode: provisional points from in-play fixtures (already included in totalPoints) */
+  provisionalPoints?: number;
+  /** Live mode: rank on settled points only */
+  settledRank?: number;
+  /** Live mode: settledRank − provisional rank (positive = moving up) */
+  provisionalRankChange?: number;
 };
 
+/** "settled" sums settled points only; "live" adds provisional points from in-play fixtures. */
+export type RankingMode = "settled" | "live";
+
 export type RankingResponse = {
   status: "success";
   data: RankingItem[];
+  mode: RankingMode;
   message: string;
 };
@@ -3,6 +3,20 @@
 
 import { BadRequestError } from "../../../../utils/errors";
 import type { GroupsRepository } from "../repository/interface";
+import {
+  getScoringStrategy,
+  isScoringStrategyKey,
+  parseScoringConfig,
+  type ScoringStrategyConfig,
+  type ScoringStrategyKey,
+} from "../scoring-strategies";
+import {
+  UNDERDOG_MAX_MULTIPLIER_MIN,
+  UNDERDOG_MAX_MULTIPLIER_MAX,
+  JOKER_FIXTURES_PER_CARD_MIN,
+  JOKER_FIXTURES_PER_CARD_MAX,
+  SIDE_MARKET_POINTS_MAX,
+} from "../constants";
 
 /**
  * Validate that all fixtureIds belong to the specified group.
@@ -19,7 +33,9 @@ export async function validateFixtureIdsBelongToGroup(
   groupId: number,
   fixtureIds: number[],
   repo: GroupsRepository
-): Promise<Array<{ id: number; groupId: number; fixtureId: number }>> {
+): Promise<
+  Array<{ id: number; groupId: number; fixtureId: number; voidedAt: Date | null }>
+> {
   const groupFixtures = await repo.findGroupFixturesByFixtureIds(
     groupId,
     fixtureIds
@@ -33,3 +49,94 @@ export async function validateFixtureIdsBelongToGroup(
 
   return groupFixtures;
 }
+
+/**
+ * Validate a scoring strategy selection and normalize its config.
+ * Missing config fields are filled with the strategy defaults.
+ *
+ * @param strategy - Strategy key (e.g. "classic", "oddsWeighted")
+ * @param config - Raw strategy config from the request (optional)
+ * @param predictionMode - Group prediction mode the strategy must support
+ * @returns The validated strategy key and the normalized config
+ * @throws BadRequestError if the strategy is unknown, unsupported for the mode, or the config is invalid
+ */
+export function validateScoringStrategy(
+  strategy: string,
+  config: unknown,
+  predictionMode: string
+): { scoringStrategy: ScoringStrategyKey; scoringConfig: ScoringStrategyConfig } {
+  if (!isScoringStrategyKey(strategy)) {
+    throw new BadRequestError(`Unknown scoring strategy "${strategy}"`);
+  }
+  if (
+    predictionMode === "MatchWinner" &&
+    !getScoringStrategy(strategy).supportsMatchWinner
+  ) {
+    throw new BadRequestError(
+      `Scoring strategy "${strategy}" requires CorrectScore prediction mode`
+    );
+  }
+  const parsed = parseScoringConfig(strategy, config);
+  if ("error" in parsed) {
+    throw new BadRequestError(parsed.error);
+  }
+  return { scoringStrategy: strategy, scoringConfig: parsed.config };
+}
+
+/**
+ * Validate the underdog bonus cap.
+ *
+ * @param value - Max multiplier for the underdog bonus (optional)
+ * @throws BadRequestError if the value is outside the allowed range
+ */
+export function validateUnderdogMaxMultiplier(value: number | undefined): void {
+  if (
+    value !== undefined &&
+    (value < UNDERDOG_MAX_MULTIPLIER_MIN || value > UNDERDOG_MAX_MULTIPLIER_MAX)
+  ) {
+    throw new BadRequestError(
+      `underdogMaxMultiplier must be between ${UNDERDOG_MAX_MULTIPLIER_MIN} and ${UNDERDOG_MAX_MULTIPLIER_MAX}`
+    );
+  }
+}
+
+/**
+ * Validate joker settings.
+ *
+ * @param fixturesPerCard - Fixtures per joker when jokerMode is "fixtures" (optional)
+ * @throws BadRequestError if the value is outside the allowed range
+ */
+export function validateJokerFixturesPerCard(
+  fixturesPerCard: number | undefined
+): void {
+  if (
+    fixturesPerCard !== undefined &&
+    (fixturesPerCard < JOKER_FIXTURES_PER_CARD_MIN ||
+      fixturesPerCard > JOKER_FIXTURES_PER_CARD_MAX)
+  ) {
+    throw new BadRequestError(
+      `jokerFixturesPerCard must be between ${JOKER_FIXTURES_PER_CARD_MIN} and ${JOKER_FIXTURES_PER_CARD_MAX}`
+    );
+  }
+}
+
+/**
+ * Validate side market points (BTTS, over/under, first team to score, who advances).
+ *
+ * @param points - Points per market (optional); 0 disables a market
+ * @throws BadRequestError if any value is outside the allowed range
+ */
+export function validateSideMarketPoints(points: {
+  bttsPoints?: number;
+  overUnderPoints?: number;
+  firstTeamToScorePoints?: number;
+  advancePoints?: number;
+}): void {
+  for (const [key, value] of Object.entries(points)) {
+    if (value !== undefined && (value < 0 || value > SIDE_MARKET_POINTS_MAX)) {
+      throw new BadRequestError(
+        `${key} must be between 0 and ${SIDE_MARKET_POINTS_MAX}`
+      );
+    }
+  }
+}
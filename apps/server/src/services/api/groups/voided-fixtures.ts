@@ -0,0 +1,64 @@
+// groups/voided-fixtures.ts
+// Voided-fixture policy: whether a group voids a postponed/cancelled fixture or
+// follows it to its new date. Pure — no DB.
+
+export type VoidedFixturePolicy = "void" | "follow";
+
+export type VoidedFixtureDecision = "void" | "follow";
+
+export const DEFAULT_VOIDED_FIXTURE_POLICY: VoidedFixturePolicy = "void";
+
+export const DEFAULT_FOLLOW_WINDOW_DAYS = 7;
+
+/** Only postponed matches can be replayed; other cancelled states are always voided. */
+const FOLLOWABLE_STATES: ReadonlySet<string> = new Set(["POSTPONED"]);
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+/** Whether a new kickoff is within windowDays of the original one. */
+export function isWithinFollowWindow(
+  originalStartTs: number,
+  newStartTs: number,
+  windowDays: number
+): boolean {
+  return newStartTs - originalStartTs <= windowDays * DAY_SECONDS;
+}
+
+/**
+ * Decide what a group does with a fixture that moved into a cancelled state.
+ * - "void": predictions are settled as void and the fixture stops counting.
+ * - "follow": predictions stay open; the group waits for the new date.
+ * With "follow", a postponed fixture is voided once the window after its
+ * original kickoff has passed without it being rescheduled.
+ */
+export function decideVoidedFixture(args: {
+  policy: VoidedFixturePolicy;
+  state: string;
+  originalStartTs: number;
+  windowDays: number;
+  nowTs: number;
+}): VoidedFixtureDecision {
+  if (args.policy !== "follow" || !FOLLOWABLE_STATES.has(args.state)) {
+    return "void";
+  }
+  return isWithinFollowWindow(args.originalStartTs, args.nowTs, args.windowDays)
+    ? "follow"
+    : "void";
+}
+
+/**
+ * Decide what a group does with a postponed fixture that came back with a new
+ * kickoff: follow it when the group follows postponements and the new date is
+ * within the window, otherwise void it.
+ */
+export function decideRescheduledFixture(args: {
+  policy: VoidedFixturePolicy;
+  previousStartTs: number;
+  startTs: number;
+  windowDays: number;
+}): VoidedFixtureDecision {
+  return args.policy === "follow" &&
+    isWithinFollowWindow(args.previousStartTs, args.startTs, args.windowDays)
+    ? "follow"
+    : "void";
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+
+import { computeStandingsFromFixtures } from "../compute";
+
+const TEAMS = [
+  { id: 1, name: "Arsenal" },
+  { id: 2, name: "Brentford" },
+  { id: 3, name: "Chelsea" },
+  { id: 4, name: "Everton" },
+];
+
+function match(homeTeamId: number, awayTeamId: number, homeScore: number, awayScore: number) {
+  return { homeTeamId, awayTeamId, homeScore, awayScore };
+}
+
+describe("computeStandingsFromFixtures", () => {
+  it("awards 3 points for a win and 1 for a draw", () => {
+    const table = computeStandingsFromFixtures(
+      [match(1, 2, 2, 0), match(3, 4, 1, 1)],
+      TEAMS
+    );
+
+    expect(table.map((r) => [r.teamId, r.points])).toEqual([
+      [1, 3],
+      [3, 1],
+      [4, 1],
+      [2, 0],
+    ]);
+    expect(table[0]).toEqual({
+      teamId: 1,
+      position: 1,
+      points: 3,
+      played: 1,
+      won: 1,
+      drawn: 0,
+      lost: 0,
+      goalsFor: 2,
+      goalsAgainst: 0,
+      goalDifference: 2,
+    });
+    expect(table[3]).toMatchObject({ lost: 1, goalDifference: -2 });
+  });
+
+  it("breaks ties by goal difference, then goals scored", () => {
+    const table = computeStandingsFromFixtures(
+      [match(1, 4, 1, 0), match(2, 4, 3, 2), match(3, 4, 3, 0)],
+      TEAMS
+    );
+
+    // All three winners have 3 points: Chelsea +3, Brentford +1 (3 scored), Arsenal +1 (1 scored)
+    expect(table.map((r) => r.teamId)).toEqual([3, 2, 1, 4]);
+  });
+
+  it("falls back to team name when everything else is equal", () => {
+    const table = computeStandingsFromFixtures([match(3, 2, 0, 0)], TEAMS);
+
+    expect(table.map((r) => r.teamId)).toEqual([2, 3, 1, 4]);
+    expect(table.map((r) => r.position)).toEqual([1, 2, 3, 4]);
+  });
+
+  it("lists teams without a finished fixture with zeros", () => {
+    const table = computeStandingsFromFixtures([], TEAMS);
+
+    expect(table).toHaveLength(4);
+    expect(table.every((r) => r.played === 0 && r.points === 0)).toBe(true);
+  });
+
+  it("ignores fixtures of teams not in the list", () => {
+    const table = computeStandingsFromFixtures([match(1, 99, 5, 0)], TEAMS);
+
+    expect(table).toHaveLength(4);
+    expect(table[0]).toMatchObject({ teamId: 1, points: 3, goalsFor: 5 });
+  });
+});
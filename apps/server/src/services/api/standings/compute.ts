@@ -0,0 +1,90 @@
+// standings/compute.ts
+// Pure league table computation from finished fixtures (fallback when the provider has no standings).
+
+export type StandingsFixtureInput = {
+  homeTeamId: number;
+  awayTeamId: number;
+  homeScore: number;
+  awayScore: number;
+};
+
+export type StandingsTeamInput = {
+  id: number;
+  name: string;
+};
+
+export type ComputedStandingRow = {
+  teamId: number;
+  position: number;
+  points: number;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifference: number;
+};
+
+const POINTS_WIN = 3;
+const POINTS_DRAW = 1;
+
+/**
+ * Build a league table from finished fixtures (3 points for a win, 1 for a draw).
+ * Order: points, goal difference, goals scored, then team name.
+ * Only teams present in `teams` are listed; teams without a finished fixture
+ * appear with zeros so the table is complete from the first matchday.
+ */
+export function computeStandingsFromFixtures(
+  fixtures: StandingsFixtureInput[],
+  teams: StandingsTeamInput[]
+): ComputedStandingRow[] {
+  const rows = new Map<number, Omit<ComputedStandingRow, "position">>();
+  for (const team of teams) {
+    rows.set(team.id, {
+      teamId: team.id,
+      points: 0,
+      played: 0,
+      won: 0,
+      drawn: 0,
+      lost: 0,
+      goalsFor: 0,
+      goalsAgainst: 0,
+      goalDifference: 0,
+    });
+  }
+
+  const apply = (teamId: number, scored: number, conceded: number) => {
+    const row = rows.get(teamId);
+    if (!row) return;
+    row.played++;
+    row.goalsFor += scored;
+    row.goalsAgainst += conceded;
+    row.goalDifference = row.goalsFor - row.goalsAgainst;
+    if (scored > conceded) {
+      row.won++;
+      row.points += POINTS_WIN;
+    } else if (scored === conceded) {
+      row.drawn++;
+      row.points += POINTS_DRAW;
+    } else {
+      row.lost++;
+    }
+  };
+
+  for (const f of fixtures) {
+    apply(f.homeTeamId, f.homeScore, f.awayScore);
+    apply(f.awayTeamId, f.awayScore, f.homeScore);
+  }
+
+  const nameById = new Map(teams.map((t) => [t.id, t.name]));
+  return [...rows.values()]
+    .sort(
+      (a, b) =>
+        b.points - a.points ||
+        b.goalDifference - a.goalDifference ||
+        b.goalsFor - a.goalsFor ||
+        (nameById.get(a.teamId) ?? "").localeCompare(nameById.get(b.teamId) ?? "")
+    )
+    .map((row, i) => ({ ...row, position: i + 1 }));
+}
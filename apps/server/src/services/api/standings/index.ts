@@ -0,0 +1,5 @@
+// standings/index.ts
+// Standings API: service + table computation.
+
+export { getSeasonStandings } from "./service";
+export { computeStandingsFromFixtures } from "./compute";
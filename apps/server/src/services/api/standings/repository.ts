@@ -0,0 +1,82 @@
+// standings/repository.ts
+// Repository layer for standings - persisted table and the fixtures used to recompute it.
+
+import { prisma, FixtureState } from "@repo/db";
+import { FINISHED_STATES } from "@repo/utils";
+
+const STANDING_TEAM_SELECT = {
+  id: true,
+  externalId: true,
+  name: true,
+  imagePath: true,
+  shortCode: true,
+} as const;
+
+/**
+ * Find a season by its provider external id.
+ */
+export async function findSeasonByExternalId(externalId: string) {
+  return await prisma.seasons.findUnique({
+    where: { externalId },
+    select: { id: true, name: true },
+  });
+}
+
+/**
+ * Find the persisted standings of a season, ordered by position.
+ */
+export async function findSeasonStandings(seasonId: number) {
+  return await prisma.standings.findMany({
+    where: { seasonId },
+    select: {
+      position: true,
+      points: true,
+      played: true,
+      won: true,
+      drawn: true,
+      lost: true,
+      goalsFor: true,
+      goalsAgainst: true,
+      goalDifference: true,
+      form: true,
+      updatedAt: true,
+      teams: { select: STANDING_TEAM_SELECT },
+    },
+    orderBy: [{ position: "asc" }, { teamId: "asc" }],
+  });
+}
+
+/**
+ * Find the season's finished fixtures that have a 90-minute score.
+ */
+export async function findFinishedSeasonFixtures(seasonId: number) {
+  return await prisma.fixtures.findMany({
+    where: {
+      seasonId,
+      state: { in: [...FINISHED_STATES] as FixtureState[] },
+      homeScore90: { not: null },
+      awayScore90: { not: null },
+    },
+    select: {
+      homeTeamId: true,
+      awayTeamId: true,
+      homeScore90: true,
+      awayScore90: true,
+    },
+  });
+}
+
+/**
+ * Find every team that plays a fixture in the season (any state).
+ */
+export async function findSeasonFixtureTeams(seasonId: number) {
+  return await prisma.teams.findMany({
+    where: {
+      OR: [
+        { fixtures_fixtures_home_team_idToteams: { some: { seasonId } } },
+        { fixtures_fixtures_away_team_idToteams: { some: { seasonId } } },
+      ],
+    },
+    select: STANDING_TEAM_SELECT,
+  });
+}
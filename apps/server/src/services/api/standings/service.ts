@@ -0,0 +1,94 @@
+// standings/service.ts
+// API service for league standings (read from DB, recompute from fixtures as fallback).
+
+import type { ApiStandingsResponse } from "@repo/types";
+import { toUnixSeconds } from "../../../utils/dates";
+import { computeStandingsFromFixtures } from "./compute";
+import {
+  findFinishedSeasonFixtures,
+  findSeasonByExternalId,
+  findSeasonFixtureTeams,
+  findSeasonStandings,
+} from "./repository";
+
+const EMPTY: ApiStandingsResponse = {
+  standings: [],
+  source: "fixtures",
+  updatedAt: null,
+};
+
+/**
+ * Get the league table of a season by its provider external id.
+ * - Returns the persisted table (kept fresh by the sync-standings job).
+ * - When the season has no persisted rows yet, recomputes the table from the
+ *   season's finished fixtures.
+ * - Unknown season → empty table.
+ */
+export async function getSeasonStandings(
+  seasonExternalId: string
+): Promise<ApiStandingsResponse> {
+  const season = await findSeasonByExternalId(seasonExternalId);
+  if (!season) return EMPTY;
+
+  const rows = await findSeasonStandings(season.id);
+  if (rows.length > 0) {
+    const updatedAt = Math.max(...rows.map((r) => toUnixSeconds(r.updatedAt)));
+    return {
+      standings: rows.map((r) => ({
+        position: r.position,
+        teamExternalId: r.teams.externalId,
+        teamName: r.teams.name,
+        teamImagePath: r.teams.imagePath,
+        teamShortCode: r.teams.shortCode,
+        points: r.points,
+        played: r.played,
+        won: r.won,
+        drawn: r.drawn,
+        lost: r.lost,
+        goalsFor: r.goalsFor,
+        goalsAgainst: r.goalsAgainst,
+        goalDifference: r.goalDifference,
+      })),
+      source: "provider",
+      updatedAt,
+    };
+  }
+
+  const [fixtures, teams] = await Promise.all([
+    findFinishedSeasonFixtures(season.id),
+    findSeasonFixtureTeams(season.id),
+  ]);
+  const teamById = new Map(teams.map((t) => [t.id, t]));
+  const table = computeStandingsFromFixtures(
+    fixtures.map((f) => ({
+      homeTeamId: f.homeTeamId,
+      awayTeamId: f.awayTeamId,
+      homeScore: f.homeScore90!,
+      awayScore: f.awayScore90!,
+    })),
+    teams
+  );
+
+  return {
+    standings: table.map((row) => {
+      const team = teamById.get(row.teamId)!;
+      return {
+        position: row.position,
+        teamExternalId: team.externalId,
+        teamName: team.name,
+        teamImagePath: team.imagePath,
+        teamShortCode: team.shortCode,
+        points: row.points,
+        played: row.played,
+        won: row.won,
+        drawn: row.drawn,
+        lost: row.lost,
+        goalsFor: row.goalsFor,
+        goalsAgainst: row.goalsAgainst,
+        goalDifference: row.goalDifference,
+      };
+    }),
+    source: "fixtures",
+    updatedAt: null,
+  };
+}
@@ -37,11 +37,11 @@ export async function findOverallStats(userId: number) {
       u.username,
       u.image,
       COALESCE(SUM(CAST(gp.points AS INTEGER)), 0) AS total_points,
-      COUNT(gp.id)::int AS prediction_count,
-      COUNT(gp.settled_at)::int AS settled_count,
+      COUNT(CASE WHEN gp.voided_at IS NULL THEN gp.id END)::int AS prediction_count,
+      COUNT(CASE WHEN gp.voided_at IS NULL THEN gp.settled_at END)::int AS settled_count,
       COUNT(CASE WHEN gp.winning_correct_score = true THEN 1 END)::int AS correct_score_count,
       COUNT(CASE WHEN gp.winning_match_winner = true AND gp.winning_correct_score = false THEN 1 END)::int AS correct_outcome_count,
-      COUNT(DISTINCT CASE WHEN gp.settled_at IS NOT NULL THEN gf.fixture_id END)::int AS unique_settled_fixtures
+      COUNT(DISTINCT CASE WHEN gp.settled_at IS NOT NULL AND gp.voided_at IS NULL THEN gf.fixture_id END)::int AS unique_settled_fixtures
     FROM users u
     LEFT JOIN group_predictions gp ON gp.user_id = u.id
     LEFT JOIN group_fixtures gf ON gf.id = gp.group_fixture_id AND gf.group_id = gp.group_id
@@ -61,8 +61,8 @@ export async function findPerGroupStats(userId: number) {
       g.name AS group_name,
       g.status::text AS group_status,
       COALESCE(SUM(CAST(gp.points AS INTEGER)), 0) AS total_points,
-      COUNT(gp.id)::int AS prediction_count,
-      COUNT(gp.settled_at)::int AS settled_count,
+      COUNT(CASE WHEN gp.voided_at IS NULL THEN gp.id END)::int AS prediction_count,
+      COUNT(CASE WHEN gp.voided_at IS NULL THEN gp.settled_at END)::int AS settled_count,
       COUNT(CASE WHEN gp.winning_correct_score = true THEN 1 END)::int AS correct_score_count,
       COUNT(CASE WHEN gp.winning_match_winner = true AND gp.winning_correct_score = false THEN 1 END)::int AS correct_outcome_count
     FROM group_members gm
@@ -116,6 +116,7 @@ export async function findDistribution(userId: number) {
     LEFT JOIN group_rules gr ON gr.group_id = gp.group_id
     WHERE gp.user_id = ${userId}
       AND gp.settled_at IS NOT NULL
+      AND gp.voided_at IS NULL
       AND (gm.id IS NOT NULL)
   `;
   return (
@@ -141,6 +142,7 @@ export async function findRecentForm(userId: number) {
     JOIN group_fixtures gf ON gf.id = gp.group_fixture_id AND gf.group_id = gp.group_id
     WHERE gp.user_id = ${userId}
       AND gp.settled_at IS NOT NULL
+      AND gp.voided_at IS NULL
     ORDER BY gp.settled_at DESC
     LIMIT 10
   `;
@@ -161,6 +163,7 @@ export async function findSparklineData(userId: number) {
       FROM group_predictions gp
       WHERE gp.user_id = ${userId}
         AND gp.settled_at IS NOT NULL
+        AND gp.voided_at IS NULL
     )
     SELECT group_id, points, settled_at
     FROM ordered
@@ -179,6 +182,7 @@ export async function findStreakData(userId: number) {
     LEFT JOIN group_members gm ON gm.group_id = gp.group_id AND gm.user_id = gp.user_id AND gm.status = 'joined'::group_members_status
     WHERE gp.user_id = ${userId}
       AND gp.settled_at IS NOT NULL
+      AND gp.voided_at IS NULL
       AND gm.id IS NOT NULL
     ORDER BY gp.settled_at ASC
   `;
@@ -220,6 +224,7 @@ export async function findStreakDataDesc(userId: number) {
     LEFT JOIN group_members gm ON gm.group_id = gp.group_id AND gm.user_id = gp.user_id AND gm.status = 'joined'::group_members_status
     WHERE gp.user_id = ${userId}
       AND gp.settled_at IS NOT NULL
+      AND gp.voided_at IS NULL
       AND gm.id IS NOT NULL
     ORDER BY gp.settled_at DESC
   `;
@@ -281,6 +286,7 @@ export async function findBestLeague(userId: number): Promise<{
       LEFT JOIN leagues l ON l.id = f.league_id
       WHERE gp.user_id = ${userId}
         AND gp.settled_at IS NOT NULL
+        AND gp.voided_at IS NULL
         AND f.league_id IS NOT NULL
         AND l.id IS NOT NULL
       GROUP BY f.league_id, l.name
@@ -397,7 +403,7 @@ export async function findH2HUserStats(
       gp.group_id,
       COALESCE(SUM(CAST(gp.points AS INTEGER)), 0) AS total_points,
       COUNT(CASE WHEN gp.winning_correct_score = true THEN 1 END)::int AS correct_score_count,
-      COUNT(gp.id)::int AS prediction_count
+      COUNT(CASE WHEN gp.voided_at IS NULL THEN gp.id END)::int AS prediction_count
     FROM group_predictions gp
     JOIN group_members gm ON gm.group_id = gp.group_id AND gm.user_id = gp.user_id
     WHERE gm.status = 'joined'::group_members_status
@@ -476,6 +482,7 @@ export async function findSeasonStats(
     LEFT JOIN group_members gm ON gm.group_id = gp.group_id AND gm.user_id = gp.user_id AND gm.status = 'joined'::group_members_status
     WHERE gp.user_id = ${userId}
       AND gp.settled_at IS NOT NULL
+      AND gp.voided_at IS NULL
       AND gm.id IS NOT NULL
       AND f.start_ts >= ${startTs}
       AND f.start_ts < ${endTs}
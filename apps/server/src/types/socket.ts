@@ -13,6 +13,72 @@ export interface MentionData {
   display: string;
 }
 
+/** Reactions on one message, grouped by emoji. */
+export interface ChatReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: number[];
+}
+
+/** Quoted parent shown above a reply. */
+export interface ChatReplyPreview {
+  id: number;
+  body: string;
+  deleted: boolean;
+  sender: { id: number; username: string | null } | null;
+}
+
+/** A member's pick for a group fixture, embedded in a prediction_share message. */
+export interface ChatPredictionCard {
+  fixtureId: number;
+  homeTeam: string;
+  awayTeam: string;
+  kickoffAt: string;
+  fixtureState: string;
+  homeScore: number | null;
+  awayScore: number | null;
+  /** False while hidden from other members (before kickoff, unless shared openly) */
+  revealed: boolean;
+  /** "home:away"; null when hidden from the viewer */
+  prediction: string | null;
+  isJoker: boolean;
+  /** Points earned; null until settled */
+  points: number | null;
+}
+
+export interface ChatMessagePayload {
+  id: number;
+  createdAt: string;
+  groupId: number;
+  senderId: number | null;
+  type: "user_message" | "system_event" | "prediction_share";
+  /** Empty once the message is deleted */
+  body: string;
+  meta: Record<string, unknown> | null;
+  sender: {
+    id: number;
+    username: string | null;
+    image: string | null;
+  } | null;
+  replyTo: ChatReplyPreview | null;
+  reactions: ChatReactionSummary[];
+  editedAt: string | null;
+  deletedAt: string | null;
+  /** Set on prediction_share messages (null if the prediction no longer exists) */
+  prediction: ChatPredictionCard | null;
+}
+
+export interface MessageReactionPayload {
+  groupId: number;
+  messageId: number;
+  reactions: ChatReactionSummary[];
+}
+
+export interface FixtureSubscription {
+  fixtureId: number;
+  groupId?: number;
+}
+
 export interface ClientToServerEvents {
   "group:join": (groupId: number) => void;
   "group:leave": (groupId: number) => void;
@@ -20,14 +86,33 @@ export interface ClientToServerEvents {
     groupId: number;
     body: string;
     mentions?: MentionData[];
+    replyToId?: number;
     tempId?: string;
   }) => void;
+  /** Sender only, within the edit window */
+  "message:edit": (data: {
+    groupId: number;
+    messageId: number;
+    body: string;
+    mentions?: MentionData[];
+  }) => void;
+  /** Sender or a group admin */
+  "message:delete": (data: { groupId: number; messageId: number }) => void;
+  /** Toggles the current user's reaction */
+  "message:react": (data: {
+    groupId: number;
+    messageId: number;
+    emoji: string;
+  }) => void;
   "typing:start": (groupId: number) => void;
   "typing:stop": (groupId: number) => void;
   "messages:read": (data: {
     groupId: number;
     lastReadMessageId: number;
   }) => void;
+  /** Live score updates; with groupId also receives that group's live-points projection. */
+  "fixture:subscribe": (data: FixtureSubscription) => void;
+  "fixture:unsubscribe": (data: FixtureSubscription) => void;
   // Admin namespace events
   "admin:join": () => void;
 }
@@ -50,6 +135,36 @@ export interface ActivityPayload {
   actor: { id: number; username: string | null } | null;
 }
 
+/** One member's provisional standing while a fixture is in play. */
+export interface FixtureLiveProjectionItem {
+  userId: number;
+  username: string | null;
+  /** Points the member's prediction would earn if the current score were final */
+  livePoints: number;
+  /** Settled total + livePoints */
+  projectedPoints: number;
+  /** Settled rank */
+  rank: number;
+  projectedRank: number;
+  /** Positive = moving up, negative = moving down */
+  rankChange: number;
+}
+
+export interface FixtureUpdatePayload {
+  fixtureId: number;
+  state: string;
+  liveMinute: number | null;
+  homeScore90: number | null;
+  awayScore90: number | null;
+  homeScoreET: number | null;
+  awayScoreET: number | null;
+  penHome: number | null;
+  penAway: number | null;
+  /** Set on updates sent to a group-scoped subscription */
+  groupId?: number;
+  projection?: FixtureLiveProjectionItem[];
+}
+
 export interface ServerToClientEvents {
   "invite:received": (payload: InviteReceivedPayload) => void;
   "invite:cancelled": (payload: { inviteId: number }) => void;
@@ -58,22 +173,12 @@ export interface ServerToClientEvents {
     userId: number;
     username: string | null;
   }) => void;
-  "message:new": (message: {
-    id: number;
-    createdAt: string;
-    groupId: number;
-    senderId: number | null;
-    type: "user_message" | "system_event";
-    body: string;
-    meta: Record<string, unknown> | null;
-    sender: {
-      id: number;
-      username: string | null;
-      image: string | null;
-    } | null;
-    tempId?: string;
-  }) => void;
+  "message:new": (message: ChatMessagePayload & { tempId?: string }) => void;
+  /** Edited or deleted message, full replacement */
+  "message:updated": (message: ChatMessagePayload) => void;
+  "message:reaction": (payload: MessageReactionPayload) => void;
   "activity:new": (payload: ActivityPayload) => void;
+  "fixture:update": (payload: FixtureUpdatePayload) => void;
   "typing:start": (data: { userId: number; username: string | null }) => void;
   "typing:stop": (data: { userId: number }) => void;
   error: (data: { event: string; message: string }) => void;
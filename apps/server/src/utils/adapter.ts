@@ -1,13 +1,17 @@
 import {
+  createCompositeSportsDataAdapter,
   createSportsDataAdapter,
   PROVIDER_CONFIG,
   type AdapterConfig,
+  type CompositeSportsDataAdapter,
+  type ISportsDataAdapter,
   type SportsDataProvider,
   type SportsDataLogger,
   type SportMonksConfig,
   type ApiFootballConfig,
 } from "@repo/sports-data";
 import { getLogger } from "../logger";
+import { createPrismaIdMapper } from "./provider-id-mapper";
 
 const log = getLogger("SportsDataAdapter");
 
@@ -41,31 +45,62 @@ function getProviderConfig(
   }
 }
 
+function warnMissingConfig(
+  provider: SportsDataProvider,
+  config: Partial<SportMonksConfig> | Partial<ApiFootballConfig>
+) {
+  if (
+    provider === "sportmonks" &&
+    (!("token" in config && config.token) ||
+      !("footballBaseUrl" in config && config.footballBaseUrl) ||
+      !("coreBaseUrl" in config && config.coreBaseUrl))
+  ) {
+    log.warn(
+      "Missing SPORTMONKS env vars (SPORTMONKS_API_TOKEN, SPORTMONKS_FOOTBALL_BASE_URL, SPORTMONKS_CORE_BASE_URL). API calls will fail at runtime."
+    );
+  } else if (
+    provider === "api-football" &&
+    !("apiKey" in config && config.apiKey)
+  ) {
+    log.warn(
+      "Missing API_FOOTBALL_KEY env var. API calls will fail at runtime."
+    );
+  }
+}
+
 const current = PROVIDER_CONFIG.current;
+const fallback =
+  PROVIDER_CONFIG.fallback && PROVIDER_CONFIG.fallback !== current
+    ? PROVIDER_CONFIG.fallback
+    : null;
 const config = getProviderConfig(current);
+warnMissingConfig(current, config);
 
-if (
-  current === "sportmonks" &&
-  (!("token" in config && config.token) ||
-    !("footballBaseUrl" in config && config.footballBaseUrl) ||
-    !("coreBaseUrl" in config && config.coreBaseUrl))
-) {
-  log.warn(
-    "Missing SPORTMONKS env vars (SPORTMONKS_API_TOKEN, SPORTMONKS_FOOTBALL_BASE_URL, SPORTMONKS_CORE_BASE_URL). API calls will fail at runtime."
-  );
-} else if (
-  current === "api-football" &&
-  !("apiKey" in config && config.apiKey)
-) {
-  log.warn(
-    "Missing API_FOOTBALL_KEY env var. API calls will fail at runtime."
-  );
-}
+/**
+ * Composite adapter when SPORTS_DATA_FALLBACK_PROVIDER is set: fixture reads
+ * fail over to the fallback provider when the primary's circuit is open, and
+ * finished fixtures can be cross-checked against it before settlement.
+ */
+export const compositeAdapter: CompositeSportsDataAdapter | null = fallback
+  ? (() => {
+      const fallbackConfig = getProviderConfig(fallback);
+      warnMissingConfig(fallback, fallbackConfig);
+      log.info({ primary: current, fallback }, "Sports data failover enabled");
+      return createCompositeSportsDataAdapter({
+        primary: { provider: current, config } as AdapterConfig,
+        secondary: { provider: fallback, config: fallbackConfig } as AdapterConfig,
+        mapper: createPrismaIdMapper(fallback),
+        logger,
+      });
+    })()
+  : null;
 
-export const adapter = createSportsDataAdapter({
-  provider: current,
-  config,
-} as AdapterConfig);
+export const adapter: ISportsDataAdapter =
+  compositeAdapter ??
+  createSportsDataAdapter({
+    provider: current,
+    config,
+  } as AdapterConfig);
 
 export const currentProvider = PROVIDER_CONFIG.current;
 export const currentProviderLabel = PROVIDER_CONFIG.getLabel();
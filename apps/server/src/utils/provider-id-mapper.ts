@@ -0,0 +1,126 @@
+// utils/provider-id-mapper.ts
+// Prisma-backed ProviderIdMapper for the composite sports-data adapter.
+// Mappings live in provider_mappings. Catalog mappings are stored by the
+// sync-provider-mappings job; fixture mappings are also learned by matching
+// teams and kickoff against our fixtures table.
+
+import { prisma } from "@repo/db";
+import type { ExternalId } from "@repo/types/sport-data/common";
+import type {
+  MappedEntity,
+  PrimaryFixtureFields,
+  ProviderIdMapper,
+  SportsDataProvider,
+} from "@repo/sports-data";
+import { getLogger } from "../logger";
+
+const log = getLogger("ProviderIdMapper");
+
+/** Max kickoff difference between providers for the same fixture. */
+const FIXTURE_MATCH_WINDOW_SECONDS = 2 * 60 * 60;
+
+export function createPrismaIdMapper(
+  secondaryProvider: SportsDataProvider
+): ProviderIdMapper {
+  async function lookup(
+    entity: MappedEntity,
+    ids: ExternalId[],
+    from: "primaryId" | "secondaryId"
+  ): Promise<Map<string, ExternalId>> {
+    const keys = [...new Set(ids.map(String))];
+    if (!keys.length) return new Map();
+
+    const rows = await prisma.providerMappings.findMany({
+      where: {
+        provider: secondaryProvider,
+        entityType: entity,
+        [from]: { in: keys },
+      },
+      select: { primaryId: true, secondaryId: true },
+    });
+    const to = from === "primaryId" ? "secondaryId" : "primaryId";
+    return new Map(rows.map((r) => [r[from], r[to]]));
+  }
+
+  return {
+    toSecondary: (entity, ids) => lookup(entity, ids, "primaryId"),
+    toPrimary: (entity, ids) => lookup(entity, ids, "secondaryId"),
+
+    async matchFixture(secondaryId, fixture) {
+      const candidates = await prisma.fixtures.findMany({
+        where: {
+          homeTeam: { externalId: String(fixture.homeTeamExternalId) },
+          awayTeam: { externalId: String(fixture.awayTeamExternalId) },
+          startTs: {
+            gte: fixture.startTs - FIXTURE_MATCH_WINDOW_SECONDS,
+            lte: fixture.startTs + FIXTURE_MATCH_WINDOW_SECONDS,
+          },
+        },
+        select: { externalId: true },
+        take: 2,
+      });
+      if (candidates.length !== 1) return null;
+
+      const primaryId = candidates[0]!.externalId;
+      try {
+        await prisma.providerMappings.create({
+          data: {
+            provider: secondaryProvider,
+            entityType: "fixture",
+            primaryId,
+            secondaryId: String(secondaryId),
+          },
+        });
+        log.info(
+          { primaryId, secondaryId, provider: secondaryProvider },
+          "Learned fixture mapping"
+        );
+      } catch (err) {
+        // Either side already mapped (e.g. by a concurrent run): keep the existing mapping
+        log.warn(
+          { primaryId, secondaryId, err },
+          "Failed to store fixture mapping"
+        );
+        return null;
+      }
+      return primaryId;
+    },
+
+    async saveMappings(entity, pairs) {
+      // skipDuplicates: pairs conflicting with either unique index keep the stored mapping
+      const { count } = await prisma.providerMappings.createMany({
+        data: pairs.map((p) => ({
+          provider: secondaryProvider,
+          entityType: entity,
+          primaryId: String(p.primaryId),
+          secondaryId: String(p.secondaryId),
+        })),
+        skipDuplicates: true,
+      });
+      if (count) {
+        log.info(
+          { entity, count, provider: secondaryProvider },
+          "Stored provider mappings"
+        );
+      }
+      return count;
+    },
+
+    async primaryFixtureFields(ids) {
+      const rows = await prisma.fixtures.findMany({
+        where: { externalId: { in: ids.map(String) } },
+        select: {
+          externalId: true,
+          name: true,
+          stage: true,
+          round: true,
+          leg: true,
+          aggregateId: true,
+        },
+      });
+      return new Map<string, PrimaryFixtureFields>(
+        rows.map(({ externalId, ...fields }) => [externalId, fields])
+      );
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import "@repo/env";
+import Fastify, { type FastifyInstance } from "fastify";
+import { Emitter } from "@socket.io/redis-emitter";
+import {
+  createRedisClient,
+  disconnectRedis,
+  isRedisConfigured,
+} from "@repo/redis";
+import { logger, getLogger } from "./logger";
+import { startJobWorker } from "./jobs/jobs.worker";
+import type { ServerToClientEvents, TypedIOServer } from "./types/socket";
+
+/**
+ * Standalone job worker
+ * ---------------------
+ * Runs the job queue worker without the HTTP server, so long jobs (seeds, syncs)
+ * don't share a process with requests. Started by `services/worker`.
+ *
+ * Env:
+ * - JOBS_WORKER_CONCURRENCY: entries processed in parallel (default 2)
+ * - REDIS_URL: required; `fastify.io` is a Socket.IO Redis emitter, so live scores, chat
+ *   system messages and admin alerts from jobs reach clients through the API instances
+ *
+ * Run API instances with JOBS_WORKER_ENABLED=false to leave all queued jobs to this worker.
+ */
+export async function runWorker(): Promise<void> {
+  const workerLogger = getLogger("Worker");
+
+  if (!isRedisConfigured()) {
+    throw new Error(
+      "REDIS_URL is required: the worker emits Socket.IO events through the Redis adapter"
+    );
+  }
+
+  // Pino logger is compatible with FastifyBaseLogger at runtime; TypeScript types don't match
+  const fastify = Fastify({
+    loggerInstance: logger,
+  }) as unknown as FastifyInstance;
+
+  // Publishes to the same channels as the API's @socket.io/redis-adapter.
+  // Emit-only: no fetchSockets/middleware, which job handlers don't need.
+  const pubClient = createRedisClient({
+    onEvent: (e) => {
+      if (e.type === "error")
+        workerLogger.error({ err: e.error }, "Socket.IO Redis emitter error");
+    },
+  });
+  const emitter = new Emitter<ServerToClientEvents>(pubClient);
+  fastify.decorate("io", emitter as unknown as TypedIOServer);
+  fastify.addHook("onClose", async () => {
+    await pubClient.quit();
+  });
+
+  const concurrency = Number(process.env.JOBS_WORKER_CONCURRENCY ?? 2);
+  const worker = startJobWorker(fastify, {
+    workerId: `${process.env.HOSTNAME ?? "unknown-host"}:${process.pid}`,
+    concurrency: Number.isFinite(concurrency) ? concurrency : 2,
+  });
+
+  const shutdown = async (signal: string): Promise<void> => {
+    workerLogger.info({ signal }, "Received signal, stopping worker");
+    try {
+      await worker.stop();
+      await fastify.close();
+      await disconnectRedis();
+      process.exit(0);
+    } catch (err) {
+      workerLogger.error({ err }, "Error during worker shutdown");
+      process.exit(1);
+    }
+  };
+
+  process.on("SIGINT", () => shutdown("SIGINT"));
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+  process.on("unhandledRejection", (e) => {
+    workerLogger.fatal({ err: e }, "unhandledRejection");
+    process.exit(1);
+  });
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { use } from "react";
+import {
+  useGroupBracket,
+  type BracketEntrant,
+  type BracketMatch,
+} from "@/hooks/use-groups";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Swords } from "lucide-react";
+
+export default function BracketPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = use(params);
+  const groupId = Number(id);
+  const { data: bracket, isLoading } = useGroupBracket(groupId);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <Skeleton key={i} className="h-20 w-full rounded-xl" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!bracket) {
+    return (
+      <div className="flex flex-col items-center justify-center rounded-lg border border-dashed p-12 text-center">
+        <Swords className="mb-4 h-12 w-12 text-muted-foreground/50" />
+        <h3 className="text-lg font-medium">No bracket yet</h3>
+        <p className="mt-1 text-sm text-muted-foreground">
+          The group creator can start a head-to-head bracket from the app
+        </p>
+      </div>
+    );
+  }
+
+  const champion = bracket.rounds
+    .flatMap((round) => round.matches)
+    .flatMap((match) => [match.home, match.away])
+    .find((entrant) => entrant?.userId === bracket.championUserId);
+
+  return (
+    <div className="space-y-4">
+      {champion && (
+        <Card className="bg-gradient-to-b from-yellow-400/20 to-yellow-400/5 border-yellow-300 text-center">
+          <CardContent className="p-4">
+            <span className="text-2xl">🏆</span>
+            <p className="mt-1 text-sm font-bold">{entrantName(champion)}</p>
+            <p className="text-xs text-muted-foreground">champion</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-4 md:grid-flow-col md:auto-cols-fr">
+        {bracket.rounds.map((round) => (
+          <Card key={round.roundIndex}>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">
+                {round.roundIndex === bracket.roundCount - 1
+                  ? "Final"
+                  : `Round ${round.roundIndex + 1}`}
+              </CardTitle>
+              <p className="text-xs text-muted-foreground">
+                {round.roundLabel ?? "Waiting for games"}
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {round.matches.map((match) => (
+                <MatchCard key={match.id} match={match} />
+              ))}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function entrantName(entrant: BracketEntrant) {
+  return entrant.username ?? `User ${entrant.userId}`;
+}
+
+function MatchCard({ match }: { match: BracketMatch }) {
+  const winner = match.decided ? match.winnerUserId : null;
+
+  return (
+    <div className="rounded-lg border px-3 py-2">
+      <EntrantLine
+        entrant={match.home}
+        points={match.homePoints}
+        isWinner={winner != null && winner === match.home?.userId}
+      />
+      <EntrantLine
+        entrant={match.away}
+        points={match.awayPoints}
+        isWinner={winner != null && winner === match.away?.userId}
+      />
+    </div>
+  );
+}
+
+function EntrantLine({
+  entrant,
+  points,
+  isWinner,
+}: {
+  entrant: BracketEntrant | null;
+  points: number | null;
+  isWinner: boolean;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-2 py-0.5">
+      <span
+        className={`truncate text-sm ${
+          entrant ? "" : "text-muted-foreground"
+        } ${isWinner ? "font-bold text-primary" : "font-medium"}`}
+      >
+        {entrant ? entrantName(entrant) : "Bye"}
+      </span>
+      {points != null && (
+        <span className="text-sm font-bold">{points}</span>
+      )}
+    </div>
+  );
+}
@@ -1,35 +1,63 @@
 "use client";
 
 import { use, useState, useEffect, useRef, useCallback } from "react";
-import { useQueryClient, useInfiniteQuery } from "@tanstack/react-query";
+import {
+  useQueryClient,
+  useInfiniteQuery,
+  useQuery,
+  type InfiniteData,
+} from "@tanstack/react-query";
 import { apiClient } from "@/lib/api-client";
 import { useAuth } from "@/lib/auth";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { Send, Loader2 } from "lucide-react";
+import { Send, Loader2, Reply, Pencil, Trash2, X, SmilePlus } from "lucide-react";
 import { io, type Socket } from "socket.io-client";
 
+type ReactionSummary = {
+  emoji: string;
+  count: number;
+  userIds: number[];
+};
+
 type ChatMessage = {
   id: number;
   body: string;
   createdAt: string;
   type: "user_message" | "system_event";
   senderId: number | null;
+  meta: Record<string, unknown> | null;
   sender: {
     id: number;
     username: string | null;
     image: string | null;
   } | null;
+  replyTo: {
+    id: number;
+    body: string;
+    deleted: boolean;
+    sender: { id: number; username: string | null } | null;
+  } | null;
+  reactions: ReactionSummary[];
+  editedAt: string | null;
+  deletedAt: string | null;
 };
 
 type MessagesResponse = {
   data: ChatMessage[];
 };
 
+type MessagesCache = InfiniteData<MessagesResponse, number | undefined>;
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL ?? "http://localhost:4000";
 
+/** Matches the server's edit window for own messages. */
+const EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+const QUICK_REACTIONS = ["👍", "❤️", "😂", "😮", "😢", "⚽", "🔥"];
+
 function useMessages(groupId: number) {
   return useInfiniteQuery({
     queryKey: ["groups", groupId, "messages"],
@@ -49,6 +77,32 @@ function useMessages(groupId: number) {
   });
 }
 
+function useGroupRole(groupId: number) {
+  return useQuery({
+    queryKey: ["groups", groupId],
+    queryFn: () =>
+      apiClient.fetch<{
+        status: string;
+        data: { userRole?: "owner" | "admin" | "member" };
+      }>(`/api/groups/${groupId}`),
+    select: (res) => res.data.userRole ?? "member",
+  });
+}
+
+function updateMessage(
+  old: MessagesCache | undefined,
+  messageId: number,
+  update: (message: ChatMessage) => ChatMessage,
+): MessagesCache | undefined {
+  if (!old) return old;
+  return {
+    ...old,
+    pages: old.pages.map((page) => ({
+      data: page.data.map((m) => (m.id === messageId ? update(m) : m)),
+    })),
+  };
+}
+
 export default function ChatPage({
   params,
 }: {
@@ -60,8 +114,13 @@ export default function ChatPage({
   const queryClient = useQueryClient();
   const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } =
     useMessages(groupId);
+  const { data: role } = useGroupRole(groupId);
+  const isAdmin = role === "owner" || role === "admin";
 
   const [text, setText] = useState("");
+  const [replyTo, setReplyTo] = useState<ChatMessage | null>(null);
+  const [editing, setEditing] = useState<ChatMessage | null>(null);
+  const [pickerFor, setPickerFor] = useState<number | null>(null);
   const [sending, setSending] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -78,33 +137,54 @@ export default function ChatPage({
     });
 
     socket.on("connect", () => {
-      socket.emit("joinGroup", groupId);
+      socket.emit("group:join", groupId);
     });
 
+    const queryKey = ["groups", groupId, "messages"];
+
     socket.on("message:new", (message: ChatMessage) => {
-      queryClient.setQueryData(
-        ["groups", groupId, "messages"],
-        (old: typeof data) => {
-          if (!old) return old;
-          return {
-            ...old,
-            pages: [
-              { data: [message, ...old.pages[0]!.data] },
-              ...old.pages.slice(1),
-            ],
-          };
-        },
+      queryClient.setQueryData<MessagesCache>(queryKey, (old) => {
+        if (!old) return old;
+        // REST sends also arrive over the socket
+        if (old.pages.some((p) => p.data.some((m) => m.id === message.id))) {
+          return old;
+        }
+        return {
+          ...old,
+          pages: [
+            { data: [message, ...old.pages[0]!.data] },
+            ...old.pages.slice(1),
+          ],
+        };
+      });
+    });
+
+    socket.on("message:updated", (message: ChatMessage) => {
+      queryClient.setQueryData<MessagesCache>(queryKey, (old) =>
+        updateMessage(old, message.id, () => message),
       );
     });
 
+    socket.on(
+      "message:reaction",
+      (payload: { messageId: number; reactions: ReactionSummary[] }) => {
+        queryClient.setQueryData<MessagesCache>(queryKey, (old) =>
+          updateMessage(old, payload.messageId, (m) => ({
+            ...m,
+            reactions: payload.reactions,
+          })),
+        );
+      },
+    );
+
     socketRef.current = socket;
 
     return () => {
-      socket.emit("leaveGroup", groupId);
+      socket.emit("group:leave", groupId);
       socket.disconnect();
       socketRef.current = null;
     };
-  }, [groupId, queryClient, data]);
+  }, [groupId, queryClient]);
 
   // Auto-scroll to bottom on new messages
   const firstPageLength = data?.pages?.[0]?.data?.length;
@@ -128,18 +208,76 @@ export default function ChatPage({
 
     setSending(true);
     try {
-      await apiClient.fetch(`/api/groups/${groupId}/messages`, {
-        method: "POST",
-        body: { body: trimmed },
-      });
+      if (editing) {
+        const res = await apiClient.fetch<{ data: ChatMessage }>(
+          `/api/groups/${groupId}/messages/${editing.id}`,
+          { method: "PATCH", body: { body: trimmed } },
+        );
+        queryClient.setQueryData<MessagesCache>(
+          ["groups", groupId, "messages"],
+          (old) => updateMessage(old, res.data.id, () => res.data),
+        );
+      } else {
+        await apiClient.fetch(`/api/groups/${groupId}/messages`, {
+          method: "POST",
+          body: replyTo
+            ? { body: trimmed, replyToId: replyTo.id }
+            : { body: trimmed },
+        });
+        // Refetch to show the new message
+        queryClient.invalidateQueries({ queryKey: ["groups", groupId, "messages"] });
+      }
       setText("");
-      // Refetch to show the new message
-      queryClient.invalidateQueries({ queryKey: ["groups", groupId, "messages"] });
+      setReplyTo(null);
+      setEditing(null);
     } finally {
       setSending(false);
     }
   }
 
+  async function handleDelete(msg: ChatMessage) {
+    if (!window.confirm("Delete this message for everyone?")) return;
+    const res = await apiClient.fetch<{ data: ChatMessage }>(
+      `/api/groups/${groupId}/messages/${msg.id}`,
+      { method: "DELETE" },
+    );
+    queryClient.setQueryData<MessagesCache>(
+      ["groups", groupId, "messages"],
+      (old) => updateMessage(old, res.data.id, () => res.data),
+    );
+    if (editing?.id === msg.id) cancelContext();
+    if (replyTo?.id === msg.id) setReplyTo(null);
+  }
+
+  async function handleReact(msg: ChatMessage, emoji: string) {
+    setPickerFor(null);
+    const res = await apiClient.fetch<{ data: ReactionSummary[] }>(
+      `/api/groups/${groupId}/messages/${msg.id}/reactions`,
+      { method: "POST", body: { emoji } },
+    );
+    queryClient.setQueryData<MessagesCache>(
+      ["groups", groupId, "messages"],
+      (old) => updateMessage(old, msg.id, (m) => ({ ...m, reactions: res.data })),
+    );
+  }
+
+  function startReply(msg: ChatMessage) {
+    setEditing(null);
+    setReplyTo(msg);
+  }
+
+  function startEdit(msg: ChatMessage) {
+    setReplyTo(null);
+    setEditing(msg);
+    setText(msg.body);
+  }
+
+  function cancelContext() {
+    if (editing) setText("");
+    setReplyTo(null);
+    setEditing(null);
+  }
+
   const allMessages = data?.pages.flatMap((p) => p.data).reverse() ?? [];
 
   return (
@@ -189,6 +327,12 @@ export default function ChatPage({
               const isMe = msg.sender.id === user?.id;
               const showAvatar =
                 i === 0 || allMessages[i - 1]?.sender?.id !== msg.sender.id;
+              const isDeleted = msg.deletedAt != null;
+              const canEdit =
+                isMe &&
+                !isDeleted &&
+                Date.now() - new Date(msg.createdAt).getTime() < EDIT_WINDOW_MS;
+              const canDelete = !isDeleted && (isMe || isAdmin);
 
               return (
                 <div
@@ -205,7 +349,7 @@ export default function ChatPage({
                     <div className="w-8 shrink-0" />
                   )}
                   <div
-                    className={`max-w-[70%] ${isMe ? "items-end" : "items-start"}`}
+                    className={`group relative max-w-[70%] ${isMe ? "items-end" : "items-start"}`}
                   >
                     {showAvatar && !isMe && (
                       <p className="mb-0.5 text-xs font-medium text-muted-foreground">
@@ -214,19 +358,127 @@ export default function ChatPage({
                     )}
                     <div
                       className={`rounded-2xl px-3 py-2 text-sm ${
-                        isMe
-                          ? "bg-primary text-primary-foreground"
-                          : "bg-muted"
+                        isDeleted
+                          ? "border italic text-muted-foreground"
+                          : isMe
+                            ? "bg-primary text-primary-foreground"
+                            : "bg-muted"
                       }`}
                     >
-                      {msg.body}
+                      {msg.replyTo && !isDeleted && (
+                        <div className="mb-1 border-l-2 border-current pl-2 text-xs opacity-80">
+                          <p className="font-medium">
+                            {msg.replyTo.sender?.username ?? "Unknown"}
+                          </p>
+                          <p className="line-clamp-2">
+                            {msg.replyTo.deleted
+                              ? "Message deleted"
+                              : msg.replyTo.body}
+                          </p>
+                        </div>
+                      )}
+                      {isDeleted ? "This message was deleted" : msg.body}
                     </div>
+                    {msg.reactions?.length > 0 && (
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {msg.reactions.map((r) => {
+                          const mine = user ? r.userIds.includes(user.id) : false;
+                          return (
+                            <button
+                              key={r.emoji}
+                              type="button"
+                              onClick={() => handleReact(msg, r.emoji)}
+                              className={`rounded-full border px-2 py-0.5 text-xs ${
+                                mine ? "border-primary bg-primary/10" : "bg-background"
+                              }`}
+                            >
+                              {r.emoji} {r.count}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
                     <p className="mt-0.5 text-[10px] text-muted-foreground">
+                      {msg.editedAt && !isDeleted && "edited · "}
                       {new Date(msg.createdAt).toLocaleTimeString("en-GB", {
                         hour: "2-digit",
                         minute: "2-digit",
                       })}
                     </p>
+
+                    {/* Hover actions */}
+                    {!isDeleted && (
+                      <div
+                        className={`absolute top-0 hidden items-center gap-0.5 rounded-md border bg-background p-0.5 shadow-sm group-hover:flex ${
+                          isMe ? "right-full mr-1" : "left-full ml-1"
+                        }`}
+                      >
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          title="React"
+                          onClick={() =>
+                            setPickerFor(pickerFor === msg.id ? null : msg.id)
+                          }
+                        >
+                          <SmilePlus className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          title="Reply"
+                          onClick={() => startReply(msg)}
+                        >
+                          <Reply className="h-3.5 w-3.5" />
+                        </Button>
+                        {canEdit && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            title="Edit"
+                            onClick={() => startEdit(msg)}
+                          >
+                            <Pencil className="h-3.5 w-3.5" />
+                          </Button>
+                        )}
+                        {canDelete && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 text-destructive"
+                            title="Delete"
+                            onClick={() => handleDelete(msg)}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                    {pickerFor === msg.id && (
+                      <div
+                        className={`absolute z-10 mt-1 flex gap-1 rounded-full border bg-background px-2 py-1 shadow-md ${
+                          isMe ? "right-0" : "left-0"
+                        }`}
+                      >
+                        {QUICK_REACTIONS.map((emoji) => (
+                          <button
+                            key={emoji}
+                            type="button"
+                            className="text-lg transition-transform hover:scale-125"
+                            onClick={() => handleReact(msg, emoji)}
+                          >
+                            {emoji}
+                          </button>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </div>
               );
@@ -236,6 +488,36 @@ export default function ChatPage({
         )}
       </div>
 
+      {/* Reply / edit context */}
+      {(replyTo || editing) && (
+        <div className="flex items-center gap-2 border-t bg-muted/50 px-3 py-2 text-xs">
+          {editing ? (
+            <Pencil className="h-4 w-4 shrink-0 text-primary" />
+          ) : (
+            <Reply className="h-4 w-4 shrink-0 text-primary" />
+          )}
+          <div className="min-w-0 flex-1">
+            <p className="font-medium text-primary">
+              {editing
+                ? "Editing message"
+                : `Replying to ${replyTo?.sender?.username ?? "Unknown"}`}
+            </p>
+            <p className="truncate text-muted-foreground">
+              {(editing ?? replyTo)?.body}
+            </p>
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={cancelContext}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
       {/* Input */}
       <form
         onSubmit={handleSend}
@@ -1,7 +1,12 @@
 "use client";
 
 import { use } from "react";
-import { useGroupRanking, type RankingItem } from "@/hooks/use-groups";
+import {
+  useGroupRanking,
+  useRankingHistory,
+  type RankingHistory,
+  type RankingItem,
+} from "@/hooks/use-groups";
 import {
   Card,
   CardContent,
@@ -17,6 +22,7 @@ import {
   Crosshair,
   ArrowUpDown,
   Hash,
+  Zap,
 } from "lucide-react";
 
 export default function RankingPage({
@@ -27,6 +33,7 @@ export default function RankingPage({
   const { id } = use(params);
   const groupId = Number(id);
   const { data: ranking, isLoading } = useGroupRanking(groupId);
+  const { data: history } = useRankingHistory(groupId);
 
   if (isLoading) {
     return (
@@ -61,6 +68,11 @@ export default function RankingPage({
         </div>
       )}
 
+      {/* Position over time */}
+      {history && history.steps.length >= 2 && (
+        <PositionChart history={history} ranking={ranking} />
+      )}
+
       {/* Full table */}
       <Card>
         <CardHeader className="pb-3">
@@ -68,7 +80,7 @@ export default function RankingPage({
         </CardHeader>
         <CardContent>
           {/* Header */}
-          <div className="mb-2 grid grid-cols-[2.5rem_1fr_4rem_4rem_4rem_4rem_5rem] items-center gap-2 px-2 text-xs font-medium text-muted-foreground">
+          <div className="mb-2 grid grid-cols-[2.5rem_1fr_4rem_4rem_4rem_4rem_4rem_4rem_5rem] items-center gap-2 px-2 text-xs font-medium text-muted-foreground">
             <span>#</span>
             <span>Player</span>
             <span className="text-center" title="Predictions">
@@ -83,6 +95,12 @@ export default function RankingPage({
             <span className="text-center" title="Correct outcome">
               <Target className="mx-auto h-3 w-3" />
             </span>
+            <span className="text-center" title="Joker points">
+              <Zap className="mx-auto h-3 w-3" />
+            </span>
+            <span className="text-center" title="Outright points">
+              <Trophy className="mx-auto h-3 w-3" />
+            </span>
             <span className="text-right">Points</span>
           </div>
 
@@ -98,6 +116,83 @@ export default function RankingPage({
   );
 }
 
+const CHART_COLORS = [
+  "#eab308",
+  "#3b82f6",
+  "#22c55e",
+  "#ef4444",
+  "#a855f7",
+];
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = 12;
+
+function PositionChart({
+  history,
+  ranking,
+}: {
+  history: RankingHistory;
+  ranking: RankingItem[];
+}) {
+  // Lines for the current top 5; the y axis is rank (1 at the top)
+  const topIds = ranking.slice(0, CHART_COLORS.length).map((r) => r.userId);
+  const lines = topIds
+    .map((userId) => history.series.find((s) => s.userId === userId))
+    .filter((s) => s !== undefined);
+  const maxRank = Math.max(
+    2,
+    ...history.series.flatMap((s) =>
+      s.ranks.filter((r): r is number => r !== null)
+    )
+  );
+  const stepCount = history.steps.length;
+  const x = (i: number) =>
+    CHART_PADDING + (i * (CHART_WIDTH - 2 * CHART_PADDING)) / (stepCount - 1);
+  const y = (rank: number) =>
+    CHART_PADDING +
+    ((rank - 1) * (CHART_HEIGHT - 2 * CHART_PADDING)) / (maxRank - 1);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Position Over Time</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          className="h-48 w-full"
+          preserveAspectRatio="none"
+        >
+          {lines.map((series, index) => (
+            <polyline
+              key={series.userId}
+              fill="none"
+              stroke={CHART_COLORS[index]}
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+              points={series.ranks
+                .map((rank, i) => (rank === null ? null : `${x(i)},${y(rank)}`))
+                .filter((p) => p !== null)
+                .join(" ")}
+            />
+          ))}
+        </svg>
+        <div className="mt-2 flex flex-wrap gap-3 text-xs text-muted-foreground">
+          {lines.map((series, index) => (
+            <span key={series.userId} className="flex items-center gap-1">
+              <span
+                className="h-2 w-2 rounded-full"
+                style={{ backgroundColor: CHART_COLORS[index] }}
+              />
+              {series.username ?? `User ${series.userId}`}
+            </span>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 function PodiumCard({ item, place }: { item: RankingItem; place: 1 | 2 | 3 }) {
   const colors = {
     1: "from-yellow-400/20 to-yellow-400/5 border-yellow-300",
@@ -129,7 +224,7 @@ function RankingRow({ item, index }: { item: RankingItem; index: number }) {
 
   return (
     <div
-      className={`grid grid-cols-[2.5rem_1fr_4rem_4rem_4rem_4rem_5rem] items-center gap-2 rounded-lg px-2 py-2.5 ${
+      className={`grid grid-cols-[2.5rem_1fr_4rem_4rem_4rem_4rem_4rem_4rem_5rem] items-center gap-2 rounded-lg px-2 py-2.5 ${
         index < 3 ? "bg-muted/30" : "hover:bg-muted/30"
       }`}
     >
@@ -175,6 +270,13 @@ function RankingRow({ item, index }: { item: RankingItem; index: number }) {
       </span>
       <span className="text-center text-sm">{item.correctDifferenceCount}</span>
       <span className="text-center text-sm">{item.correctOutcomeCount}</span>
+      <span
+        className="text-center text-sm"
+        title={`${item.jokersUsed} joker${item.jokersUsed === 1 ? "" : "s"} played`}
+      >
+        {item.jokerPoints}
+      </span>
+      <span className="text-center text-sm">{item.outrightPoints}</span>
 
       {/* Points */}
       <span className="text-right text-sm font-bold">{item.totalPoints}</span>
@@ -0,0 +1,102 @@
+"use client";
+
+import { use } from "react";
+import {
+  useSubLeagueRanking,
+  useSubLeagues,
+  type SubLeague,
+} from "@/hooks/use-groups";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { UsersRound } from "lucide-react";
+
+export default function SubLeaguesPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = use(params);
+  const groupId = Number(id);
+  const { data: subLeagues, isLoading } = useSubLeagues(groupId);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {Array.from({ length: 3 }).map((_, i) => (
+          <Skeleton key={i} className="h-32 w-full rounded-xl" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!subLeagues || subLeagues.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center rounded-lg border border-dashed p-12 text-center">
+        <UsersRound className="mb-4 h-12 w-12 text-muted-foreground/50" />
+        <h3 className="text-lg font-medium">No sub-leagues yet</h3>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Create a sub-league or join one with its invite code from the app
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      {subLeagues.map((subLeague) => (
+        <SubLeagueCard
+          key={subLeague.id}
+          groupId={groupId}
+          subLeague={subLeague}
+        />
+      ))}
+    </div>
+  );
+}
+
+function SubLeagueCard({
+  groupId,
+  subLeague,
+}: {
+  groupId: number;
+  subLeague: SubLeague;
+}) {
+  const { data: items, isLoading } = useSubLeagueRanking(
+    groupId,
+    subLeague.id
+  );
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">{subLeague.name}</CardTitle>
+        <p className="text-xs text-muted-foreground">
+          {subLeague.memberCount} members · invite code {subLeague.inviteCode}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-1">
+        {isLoading
+          ? Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-8 w-full rounded-md" />
+            ))
+          : items?.map((item) => (
+              <div
+                key={item.userId}
+                className="flex items-center gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-muted/50"
+              >
+                <span className="w-6 text-muted-foreground">{item.rank}</span>
+                <span className="flex-1 truncate">
+                  {item.username ?? `User ${item.userId}`}
+                </span>
+                <span className="font-semibold">{item.totalPoints}</span>
+              </div>
+            ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,6 +8,8 @@ import {
   Trophy,
   Users,
   MessageCircle,
+  Swords,
+  UsersRound,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -15,6 +17,8 @@ const tabs = [
   { key: "", label: "Lobby", icon: LayoutGrid },
   { key: "/predictions", label: "Predictions", icon: Target },
   { key: "/ranking", label: "Ranking", icon: Trophy },
+  { key: "/bracket", label: "Bracket", icon: Swords },
+  { key: "/sub-leagues", label: "Sub-leagues", icon: UsersRound },
   { key: "/members", label: "Members", icon: Users },
   { key: "/chat", label: "Chat", icon: MessageCircle },
 ];
@@ -49,6 +49,10 @@ export type RankingItem = {
   correctScoreCount: number;
   correctDifferenceCount: number;
   correctOutcomeCount: number;
+  jokersUsed: number;
+  jokerPoints: number;
+  outrightPoints: number;
+  advancePoints: number;
   previousRank?: number;
   rankChange?: number;
 };
@@ -67,6 +71,111 @@ export function useGroupRanking(groupId: number) {
   });
 }
 
+export type RankingHistory = {
+  steps: { fixtureId: number; at: string }[];
+  series: {
+    userId: number;
+    username: string | null;
+    ranks: (number | null)[];
+    totalPoints: (number | null)[];
+  }[];
+};
+
+type RankingHistoryResponse = {
+  status: string;
+  data: RankingHistory;
+};
+
+export function useRankingHistory(groupId: number) {
+  return useQuery({
+    queryKey: ["groups", groupId, "ranking", "history"],
+    queryFn: () =>
+      apiClient.fetch<RankingHistoryResponse>(
+        `/api/groups/${groupId}/ranking/history?maxPoints=60`
+      ),
+    select: (data) => data.data,
+  });
+}
+
+export type BracketEntrant = { userId: number; username: string | null };
+
+export type BracketMatch = {
+  id: number;
+  slot: number;
+  home: BracketEntrant | null;
+  away: BracketEntrant | null;
+  homePoints: number | null;
+  awayPoints: number | null;
+  winnerUserId: number | null;
+  decided: boolean;
+};
+
+export type GroupBracket = {
+  status: "active" | "completed";
+  championUserId: number | null;
+  roundCount: number;
+  rounds: {
+    roundIndex: number;
+    roundLabel: string | null;
+    matches: BracketMatch[];
+  }[];
+};
+
+type BracketResponse = {
+  status: string;
+  data: GroupBracket | null;
+};
+
+export function useGroupBracket(groupId: number) {
+  return useQuery({
+    queryKey: ["groups", groupId, "bracket"],
+    queryFn: () =>
+      apiClient.fetch<BracketResponse>(`/api/groups/${groupId}/bracket`),
+    select: (data) => data.data,
+  });
+}
+
+export type SubLeague = {
+  id: number;
+  groupId: number;
+  name: string;
+  creatorId: number;
+  isCreator: boolean;
+  memberCount: number;
+  inviteCode: string;
+  createdAt: string;
+};
+
+type SubLeaguesResponse = {
+  status: string;
+  data: SubLeague[];
+};
+
+type SubLeagueRankingResponse = {
+  status: string;
+  data: { subLeague: SubLeague; items: RankingItem[] };
+};
+
+export function useSubLeagues(groupId: number) {
+  return useQuery({
+    queryKey: ["groups", groupId, "sub-leagues"],
+    queryFn: () =>
+      apiClient.fetch<SubLeaguesResponse>(`/api/groups/${groupId}/sub-leagues`),
+    select: (data) => data.data,
+  });
+}
+
+export function useSubLeagueRanking(groupId: number, subLeagueId: number) {
+  return useQuery({
+    queryKey: ["groups", groupId, "sub-leagues", subLeagueId, "ranking"],
+    queryFn: () =>
+      apiClient.fetch<SubLeagueRankingResponse>(
+        `/api/groups/${groupId}/sub-leagues/${subLeagueId}/ranking`
+      ),
+    select: (data) => data.data.items,
+  });
+}
+
 type LobbySummaryResponse = {
   status: string;
   data: {
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "group_rules" ADD COLUMN     "scoring_strategy" VARCHAR(40) NOT NULL DEFAULT 'classic',
+ADD COLUMN     "scoring_config" JSONB NOT NULL DEFAULT '{}';
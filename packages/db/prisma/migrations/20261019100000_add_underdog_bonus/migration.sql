@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "group_fixtures" ADD COLUMN     "frozen_odds" JSONB,
+ADD COLUMN     "odds_frozen_at" TIMESTAMPTZ(6);
+
+-- AlterTable
+ALTER TABLE "group_rules" ADD COLUMN     "underdog_bonus" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "underdog_max_multiplier" INTEGER NOT NULL DEFAULT 3;
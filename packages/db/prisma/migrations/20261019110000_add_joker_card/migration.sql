@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "group_joker_mode" AS ENUM ('off', 'round', 'fixtures');
+
+-- AlterTable
+ALTER TABLE "group_predictions" ADD COLUMN     "is_joker" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "group_rules" ADD COLUMN     "joker_fixtures_per_card" INTEGER NOT NULL DEFAULT 5,
+ADD COLUMN     "joker_mode" "group_joker_mode" NOT NULL DEFAULT 'off';
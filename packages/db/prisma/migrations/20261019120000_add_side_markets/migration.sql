@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "fixtures" ADD COLUMN     "first_scoring_team" VARCHAR(4);
+
+-- AlterTable
+ALTER TABLE "group_predictions" ADD COLUMN     "btts_pick" BOOLEAN,
+ADD COLUMN     "first_team_to_score_pick" VARCHAR(4),
+ADD COLUMN     "market_points" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "over_under_pick" VARCHAR(5);
+
+-- AlterTable
+ALTER TABLE "group_rules" ADD COLUMN     "btts_points" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "first_team_to_score_points" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "over_under_points" INTEGER NOT NULL DEFAULT 0;
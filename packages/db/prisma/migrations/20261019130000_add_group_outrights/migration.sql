@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "group_outright_market" AS ENUM ('champion', 'top4', 'relegation');
+
+-- CreateTable
+CREATE TABLE "group_outrights" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "group_id" INTEGER NOT NULL,
+    "season_id" INTEGER NOT NULL,
+    "market" "group_outright_market" NOT NULL,
+    "pick_count" INTEGER NOT NULL,
+    "points" INTEGER NOT NULL,
+    "deadline" TIMESTAMPTZ(6) NOT NULL,
+    "settled_at" TIMESTAMPTZ(6),
+    "result_team_ids" INTEGER[],
+
+    CONSTRAINT "group_outrights_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "group_outright_picks" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "outright_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "team_ids" INTEGER[],
+    "correct_count" INTEGER NOT NULL DEFAULT 0,
+    "points" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "group_outright_picks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "group_outrights_season_settled_idx" ON "group_outrights"("season_id", "settled_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "group_outrights_group_season_market_unique" ON "group_outrights"("group_id", "season_id", "market");
+
+-- CreateIndex
+CREATE INDEX "group_outright_picks_user_idx" ON "group_outright_picks"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "group_outright_picks_outright_user_unique" ON "group_outright_picks"("outright_id", "user_id");
+
+-- AddForeignKey
+ALTER TABLE "group_outrights" ADD CONSTRAINT "group_outrights_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_outrights" ADD CONSTRAINT "group_outrights_season_id_fkey" FOREIGN KEY ("season_id") REFERENCES "seasons"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "group_outright_picks" ADD CONSTRAINT "group_outright_picks_outright_id_fkey" FOREIGN KEY ("outright_id") REFERENCES "group_outrights"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_outright_picks" ADD CONSTRAINT "group_outright_picks_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "standings" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "season_id" INTEGER NOT NULL,
+    "team_id" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL,
+    "points" INTEGER NOT NULL,
+    "played" INTEGER NOT NULL,
+    "won" INTEGER NOT NULL,
+    "drawn" INTEGER NOT NULL,
+    "lost" INTEGER NOT NULL,
+    "goals_for" INTEGER NOT NULL,
+    "goals_against" INTEGER NOT NULL,
+    "goal_difference" INTEGER NOT NULL,
+    "form" VARCHAR(10),
+
+    CONSTRAINT "standings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "standings_season_position_idx" ON "standings"("season_id", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "standings_season_team_unique" ON "standings"("season_id", "team_id");
+
+-- AddForeignKey
+ALTER TABLE "standings" ADD CONSTRAINT "standings_season_id_fkey" FOREIGN KEY ("season_id") REFERENCES "seasons"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "standings" ADD CONSTRAINT "standings_team_id_fkey" FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
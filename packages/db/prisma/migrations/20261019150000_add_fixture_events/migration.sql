@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "fixture_events" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "fixture_id" INTEGER NOT NULL,
+    "external_id" VARCHAR(100) NOT NULL,
+    "team_id" INTEGER,
+    "type" VARCHAR(20) NOT NULL,
+    "minute" INTEGER NOT NULL,
+    "extra_minute" INTEGER,
+    "player_name" TEXT,
+    "related_player_name" TEXT,
+    "detail" TEXT,
+
+    CONSTRAINT "fixture_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "fixture_events_fixture_minute_idx" ON "fixture_events"("fixture_id", "minute");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fixture_events_fixture_external_uniq" ON "fixture_events"("fixture_id", "external_id");
+
+-- AddForeignKey
+ALTER TABLE "fixture_events" ADD CONSTRAINT "fixture_events_fixture_id_fkey" FOREIGN KEY ("fixture_id") REFERENCES "fixtures"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fixture_events" ADD CONSTRAINT "fixture_events_team_id_fkey" FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "provider_mappings" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "provider" VARCHAR(30) NOT NULL,
+    "entity_type" VARCHAR(20) NOT NULL,
+    "primary_id" VARCHAR(100) NOT NULL,
+    "secondary_id" VARCHAR(100) NOT NULL,
+
+    CONSTRAINT "provider_mappings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "provider_mappings_primary_uniq" ON "provider_mappings"("provider", "entity_type", "primary_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "provider_mappings_secondary_uniq" ON "provider_mappings"("provider", "entity_type", "secondary_id");
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "group_members_status" ADD VALUE 'banned';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "group_rules" ADD COLUMN "requires_approval" BOOLEAN NOT NULL DEFAULT false;
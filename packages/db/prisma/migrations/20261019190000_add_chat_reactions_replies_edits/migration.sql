@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "group_messages" ADD COLUMN "reply_to_id" INTEGER,
+ADD COLUMN "edited_at" TIMESTAMPTZ(6),
+ADD COLUMN "deleted_at" TIMESTAMPTZ(6);
+
+-- CreateTable
+CREATE TABLE "group_message_reactions" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "message_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "emoji" VARCHAR(16) NOT NULL,
+
+    CONSTRAINT "group_message_reactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "group_message_reactions_message_id_idx" ON "group_message_reactions"("message_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "group_message_reactions_message_id_user_id_emoji_key" ON "group_message_reactions"("message_id", "user_id", "emoji");
+
+-- AddForeignKey
+ALTER TABLE "group_messages" ADD CONSTRAINT "group_messages_reply_to_id_fkey" FOREIGN KEY ("reply_to_id") REFERENCES "group_messages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_message_reactions" ADD CONSTRAINT "group_message_reactions_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "group_messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_message_reactions" ADD CONSTRAINT "group_message_reactions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
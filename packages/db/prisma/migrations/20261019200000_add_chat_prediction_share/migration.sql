@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "group_message_type" ADD VALUE 'prediction_share';
+
+-- AlterTable
+ALTER TABLE "group_messages" ADD COLUMN "prediction_id" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "group_messages_prediction_id_idx" ON "group_messages"("prediction_id");
+
+-- AddForeignKey
+ALTER TABLE "group_messages" ADD CONSTRAINT "group_messages_prediction_id_fkey" FOREIGN KEY ("prediction_id") REFERENCES "group_predictions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "group_prediction_visibility" AS ENUM ('always', 'after_own_prediction', 'after_kickoff');
+
+-- AlterTable
+ALTER TABLE "group_rules" ADD COLUMN     "prediction_visibility" "group_prediction_visibility" NOT NULL DEFAULT 'after_kickoff';
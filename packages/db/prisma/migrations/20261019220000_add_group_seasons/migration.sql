@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "groups" ADD COLUMN     "archived_at" TIMESTAMPTZ(6),
+ADD COLUMN     "previous_group_id" INTEGER,
+ADD COLUMN     "season_id" INTEGER;
+
+-- CreateTable
+CREATE TABLE "group_season_standings" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "group_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "total_points" INTEGER NOT NULL,
+    "prediction_count" INTEGER NOT NULL,
+    "correct_score_count" INTEGER NOT NULL,
+
+    CONSTRAINT "group_season_standings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "groups_previous_group_id_key" ON "groups"("previous_group_id");
+
+-- CreateIndex
+CREATE INDEX "groups_season_id_idx" ON "groups"("season_id");
+
+-- CreateIndex
+CREATE INDEX "group_season_standings_user_id_idx" ON "group_season_standings"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "group_season_standings_group_id_user_id_key" ON "group_season_standings"("group_id", "user_id");
+
+-- AddForeignKey
+ALTER TABLE "groups" ADD CONSTRAINT "groups_season_id_fkey" FOREIGN KEY ("season_id") REFERENCES "seasons"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "groups" ADD CONSTRAINT "groups_previous_group_id_fkey" FOREIGN KEY ("previous_group_id") REFERENCES "groups"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_season_standings" ADD CONSTRAINT "group_season_standings_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_season_standings" ADD CONSTRAINT "group_season_standings_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
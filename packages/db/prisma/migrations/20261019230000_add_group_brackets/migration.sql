@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "group_bracket_status" AS ENUM ('active', 'completed');
+
+-- CreateTable
+CREATE TABLE "group_brackets" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "group_id" INTEGER NOT NULL,
+    "status" "group_bracket_status" NOT NULL DEFAULT 'active',
+    "champion_user_id" INTEGER,
+    "completed_at" TIMESTAMPTZ(6),
+
+    CONSTRAINT "group_brackets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "group_bracket_matches" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "bracket_id" INTEGER NOT NULL,
+    "round_index" INTEGER NOT NULL,
+    "round_key" VARCHAR(120),
+    "round_label" VARCHAR(80),
+    "slot" INTEGER NOT NULL,
+    "home_user_id" INTEGER,
+    "away_user_id" INTEGER,
+    "home_points" INTEGER,
+    "away_points" INTEGER,
+    "winner_user_id" INTEGER,
+    "decided_at" TIMESTAMPTZ(6),
+
+    CONSTRAINT "group_bracket_matches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "group_brackets_group_id_key" ON "group_brackets"("group_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "group_bracket_matches_bracket_id_round_index_slot_key" ON "group_bracket_matches"("bracket_id", "round_index", "slot");
+
+-- AddForeignKey
+ALTER TABLE "group_brackets" ADD CONSTRAINT "group_brackets_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_bracket_matches" ADD CONSTRAINT "group_bracket_matches_bracket_id_fkey" FOREIGN KEY ("bracket_id") REFERENCES "group_brackets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_bracket_matches" ADD CONSTRAINT "group_bracket_matches_home_user_id_fkey" FOREIGN KEY ("home_user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_bracket_matches" ADD CONSTRAINT "group_bracket_matches_away_user_id_fkey" FOREIGN KEY ("away_user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
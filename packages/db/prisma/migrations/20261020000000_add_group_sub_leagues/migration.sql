@@ -0,0 +1,55 @@
+-- AlterTable
+ALTER TABLE "group_messages" ADD COLUMN "sub_league_id" INTEGER;
+
+-- CreateTable
+CREATE TABLE "group_sub_leagues" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "group_id" INTEGER NOT NULL,
+    "creator_id" INTEGER NOT NULL,
+    "name" VARCHAR(60) NOT NULL,
+    "invite_code" VARCHAR(16) NOT NULL,
+
+    CONSTRAINT "group_sub_leagues_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "group_sub_league_members" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sub_league_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+
+    CONSTRAINT "group_sub_league_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "group_sub_leagues_invite_code_key" ON "group_sub_leagues"("invite_code");
+
+-- CreateIndex
+CREATE INDEX "group_sub_leagues_group_id_idx" ON "group_sub_leagues"("group_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "group_sub_league_members_sub_league_id_user_id_key" ON "group_sub_league_members"("sub_league_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "group_sub_league_members_user_id_idx" ON "group_sub_league_members"("user_id");
+
+-- CreateIndex
+CREATE INDEX "group_messages_sub_league_id_id_idx" ON "group_messages"("sub_league_id", "id" DESC);
+
+-- AddForeignKey
+ALTER TABLE "group_messages" ADD CONSTRAINT "group_messages_sub_league_id_fkey" FOREIGN KEY ("sub_league_id") REFERENCES "group_sub_leagues"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_sub_leagues" ADD CONSTRAINT "group_sub_leagues_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_sub_leagues" ADD CONSTRAINT "group_sub_leagues_creator_id_fkey" FOREIGN KEY ("creator_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_sub_league_members" ADD CONSTRAINT "group_sub_league_members_sub_league_id_fkey" FOREIGN KEY ("sub_league_id") REFERENCES "group_sub_leagues"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_sub_league_members" ADD CONSTRAINT "group_sub_league_members_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
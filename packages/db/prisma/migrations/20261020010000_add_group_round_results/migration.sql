@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "group_round_results" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "group_id" INTEGER NOT NULL,
+    "round_key" VARCHAR(120) NOT NULL,
+    "round_label" VARCHAR(80) NOT NULL,
+    "winner_user_ids" INTEGER[],
+    "winning_points" INTEGER NOT NULL,
+    "participant_count" INTEGER NOT NULL,
+
+    CONSTRAINT "group_round_results_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "group_round_results_group_id_round_key_key" ON "group_round_results"("group_id", "round_key");
+
+-- CreateIndex
+CREATE INDEX "group_round_results_group_id_created_at_idx" ON "group_round_results"("group_id", "created_at" DESC);
+
+-- AddForeignKey
+ALTER TABLE "group_round_results" ADD CONSTRAINT "group_round_results_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "settlement_ledger" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "group_prediction_id" INTEGER NOT NULL,
+    "group_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "fixture_id" INTEGER NOT NULL,
+    "reason" VARCHAR(20) NOT NULL,
+    "points" INTEGER NOT NULL,
+    "previous_points" INTEGER,
+    "market_points" INTEGER NOT NULL,
+    "rule_version" VARCHAR(16) NOT NULL,
+    "fixture_state" VARCHAR(20) NOT NULL,
+    "home_score_90" INTEGER,
+    "away_score_90" INTEGER,
+    "home_score_et" INTEGER,
+    "away_score_et" INTEGER,
+    "pen_home" INTEGER,
+    "pen_away" INTEGER,
+    "job_run_id" INTEGER,
+    "fixture_audit_log_id" INTEGER,
+    "admin_user_id" INTEGER,
+
+    CONSTRAINT "settlement_ledger_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "settlement_ledger_group_prediction_id_created_at_idx" ON "settlement_ledger"("group_prediction_id", "created_at" DESC);
+
+-- CreateIndex
+CREATE INDEX "settlement_ledger_fixture_id_created_at_idx" ON "settlement_ledger"("fixture_id", "created_at" DESC);
+
+-- CreateIndex
+CREATE INDEX "settlement_ledger_group_id_created_at_idx" ON "settlement_ledger"("group_id", "created_at" DESC);
+
+-- AddForeignKey
+ALTER TABLE "settlement_ledger" ADD CONSTRAINT "settlement_ledger_group_prediction_id_fkey" FOREIGN KEY ("group_prediction_id") REFERENCES "group_predictions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "settlement_ledger" ADD CONSTRAINT "settlement_ledger_job_run_id_fkey" FOREIGN KEY ("job_run_id") REFERENCES "job_runs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "settlement_ledger" ADD CONSTRAINT "settlement_ledger_fixture_audit_log_id_fkey" FOREIGN KEY ("fixture_audit_log_id") REFERENCES "fixture_audit_log"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "group_voided_fixture_policy" AS ENUM ('void', 'follow');
+
+-- AlterTable
+ALTER TABLE "group_rules" ADD COLUMN     "voided_fixture_policy" "group_voided_fixture_policy" NOT NULL DEFAULT 'void',
+ADD COLUMN     "follow_window_days" INTEGER NOT NULL DEFAULT 7;
+
+-- AlterTable
+ALTER TABLE "group_fixtures" ADD COLUMN     "voided_at" TIMESTAMPTZ(6),
+ADD COLUMN     "void_reason" VARCHAR(20);
+
+-- AlterTable
+ALTER TABLE "group_predictions" ADD COLUMN     "voided_at" TIMESTAMPTZ(6);
+
+-- Backfill: fixtures already cancelled/postponed are voided under the default policy
+UPDATE "group_fixtures" gf
+SET "voided_at" = CURRENT_TIMESTAMP, "void_reason" = f."state"::text
+FROM "fixtures" f
+WHERE f."id" = gf."fixture_id"
+  AND f."state" IN ('CANCELLED', 'POSTPONED', 'SUSPENDED', 'ABANDONED', 'INTERRUPTED', 'WO', 'AWARDED', 'DELETED');
+
+UPDATE "group_predictions" gp
+SET "voided_at" = CURRENT_TIMESTAMP, "settled_at" = CURRENT_TIMESTAMP, "points" = '0'
+FROM "group_fixtures" gf
+WHERE gf."id" = gp."group_fixture_id"
+  AND gf."voided_at" IS NOT NULL
+  AND gp."settled_at" IS NULL;
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "group_rules" ADD COLUMN "advance_points" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "group_tie_picks" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "group_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "aggregate_id" TEXT NOT NULL,
+    "team_id" INTEGER NOT NULL,
+    "settled_at" TIMESTAMPTZ(6),
+    "is_correct" BOOLEAN NOT NULL DEFAULT false,
+    "points" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "group_tie_picks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "group_tie_picks_aggregate_idx" ON "group_tie_picks"("aggregate_id");
+
+-- CreateIndex
+CREATE INDEX "group_tie_picks_user_idx" ON "group_tie_picks"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "group_tie_picks_group_user_tie_unique" ON "group_tie_picks"("group_id", "user_id", "aggregate_id");
+
+-- AddForeignKey
+ALTER TABLE "group_tie_picks" ADD CONSTRAINT "group_tie_picks_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_tie_picks" ADD CONSTRAINT "group_tie_picks_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "job_trigger_by" ADD VALUE 'job_chain';
+ALTER TYPE "job_trigger_by" ADD VALUE 'domain_event';
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "job_queue_status" AS ENUM ('queued', 'running', 'succeeded', 'dead');
+
+-- CreateTable
+CREATE TABLE "job_queue" (
+    "id" SERIAL NOT NULL,
+    "job_key" TEXT NOT NULL,
+    "status" "job_queue_status" NOT NULL DEFAULT 'queued',
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "payload" JSONB NOT NULL DEFAULT '{}',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "max_attempts" INTEGER NOT NULL DEFAULT 1,
+    "run_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "locked_at" TIMESTAMPTZ(6),
+    "locked_by" TEXT,
+    "last_error" TEXT,
+    "last_run_id" INTEGER,
+    "triggered_by" "job_trigger_by",
+    "triggered_by_id" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+    "finished_at" TIMESTAMPTZ(6),
+
+    CONSTRAINT "job_queue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "job_queue_status_priority_run_at_idx" ON "job_queue"("status", "priority" DESC, "run_at");
+
+-- CreateIndex
+CREATE INDEX "job_queue_job_key_status_idx" ON "job_queue"("job_key", "status");
+
+-- CreateIndex
+CREATE INDEX "job_queue_last_run_id_idx" ON "job_queue"("last_run_id");
+
+-- AddForeignKey
+ALTER TABLE "job_queue" ADD CONSTRAINT "job_queue_last_run_id_fkey" FOREIGN KEY ("last_run_id") REFERENCES "job_runs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "group_fixtures" ADD COLUMN "joker_slot" INTEGER;
+
+-- AlterTable
+ALTER TABLE "group_predictions" ADD COLUMN "joker_bucket" VARCHAR(100);
+
+-- Backfill: slot = kickoff order within the group (the order "fixtures"-mode buckets used so far)
+UPDATE "group_fixtures" gf
+SET "joker_slot" = s."slot"
+FROM (
+    SELECT gf2."id",
+           ROW_NUMBER() OVER (PARTITION BY gf2."group_id" ORDER BY f."start_ts", gf2."id") - 1 AS "slot"
+    FROM "group_fixtures" gf2
+    JOIN "fixtures" f ON f."id" = gf2."fixture_id"
+) s
+WHERE gf."id" = s."id";
+
+-- Existing jokers keep a NULL joker_bucket (not covered by the unique index) until they are saved again.
+
+-- CreateIndex
+CREATE UNIQUE INDEX "group_fixtures_group_joker_slot_unique" ON "group_fixtures"("group_id", "joker_slot");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "group_predictions_member_joker_bucket_unique" ON "group_predictions"("group_id", "user_id", "joker_bucket");
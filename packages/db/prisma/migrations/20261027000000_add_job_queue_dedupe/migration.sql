@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "job_queue" ADD COLUMN "dedupe" BOOLEAN NOT NULL DEFAULT false;
+
+-- At most one pending deduped entry per job, so concurrent deduped enqueues
+-- resolve with ON CONFLICT instead of racing a check-then-insert.
+-- (Partial index: not expressible in schema.prisma)
+CREATE UNIQUE INDEX "job_queue_job_key_dedupe_pending_key" ON "job_queue"("job_key")
+WHERE "dedupe" AND "status" IN ('queued', 'running');
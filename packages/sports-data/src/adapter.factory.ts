@@ -4,8 +4,11 @@
  */
 
 import type { ISportsDataAdapter } from "./adapter.interface";
+import type { CompositeSportsDataAdapter } from "./adapters/composite/composite.adapter";
 import type { SportMonksConfig } from "./adapters/sportmonks/sportmonks.config";
 import type { ApiFootballConfig } from "./adapters/api-football/api-football.config";
+import type { ProviderIdMapper } from "./adapters/composite/id-mapper";
+import type { SportsDataLogger } from "./logger";
 import { PROVIDER_CONFIG, type SportsDataProvider } from "./config/provider.config";
 
 export type AdapterConfig =
@@ -37,3 +40,28 @@ export function createSportsDataAdapter(
       );
   }
 }
+
+export type CompositeAdapterConfig = {
+  primary: AdapterConfig;
+  secondary: AdapterConfig;
+  mapper: ProviderIdMapper;
+  logger?: SportsDataLogger;
+};
+
+/**
+ * Primary adapter that fails over to the secondary when its circuit is open.
+ * See CompositeSportsDataAdapter for which methods fail over.
+ */
+export function createCompositeSportsDataAdapter(
+  opts: CompositeAdapterConfig
+): CompositeSportsDataAdapter {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const { CompositeSportsDataAdapter: Composite } =
+    require("./adapters/composite/composite.adapter");
+  return new Composite({
+    primary: createSportsDataAdapter(opts.primary),
+    secondary: createSportsDataAdapter(opts.secondary),
+    mapper: opts.mapper,
+    logger: opts.logger,
+  });
+}
@@ -8,6 +8,7 @@ import type {
   CountryDTO,
   ExternalId,
   FixtureDTO,
+  FixtureEventDTO,
   FixtureState,
   LeagueDTO,
   MarketDTO,
@@ -81,6 +82,11 @@ export interface ISportsDataAdapter {
     opts?: FixtureFetchOptions
   ): Promise<FixtureDTO[]>;
 
+  // ── Match events (base class provides fallback) ──
+
+  /** In-match events (goals, cards, substitutions) of the given fixtures. */
+  fetchFixtureEvents(fixtureIds: ExternalId[]): Promise<FixtureEventDTO[]>;
+
   // ── League-centric methods (for league-based providers) ──
 
   fetchFixturesByLeague(leagueId: ExternalId): Promise<FixtureDTO[]>;
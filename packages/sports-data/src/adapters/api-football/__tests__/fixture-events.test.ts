@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { FixtureEventType } from "@repo/types/sport-data/common";
+import { buildFixtureEvents } from "../helpers";
+import type { AFFixtureEventRaw, AFFixtureRaw } from "../api-football.types";
+
+function afEvent(overrides: Partial<AFFixtureEventRaw>): AFFixtureEventRaw {
+  return {
+    time: { elapsed: 23, extra: null },
+    team: { id: 10, name: "Home" },
+    player: { id: 7, name: "Scorer" },
+    assist: { id: null, name: null },
+    type: "Goal",
+    detail: "Normal Goal",
+    comments: null,
+    ...overrides,
+  };
+}
+
+function afFixture(events: AFFixtureEventRaw[] | undefined): AFFixtureRaw {
+  return { fixture: { id: 500 }, events } as AFFixtureRaw;
+}
+
+describe("buildFixtureEvents (API-Football)", () => {
+  it("maps a goal with a synthesized id", () => {
+    const [event] = buildFixtureEvents(
+      afFixture([
+        afEvent({
+          time: { elapsed: 90, extra: 3 },
+          assist: { id: 8, name: "Assister" },
+        }),
+      ])
+    );
+    expect(event).toEqual({
+      externalId: "500-goal-90-3-10-7",
+      fixtureExternalId: 500,
+      teamExternalId: 10,
+      type: FixtureEventType.GOAL,
+      minute: 90,
+      extraMinute: 3,
+      playerName: "Scorer",
+      relatedPlayerName: "Assister",
+      detail: "Normal Goal",
+    });
+  });
+
+  it("keeps the synthesized id stable across polls", () => {
+    const poll = () => buildFixtureEvents(afFixture([afEvent({})]))[0]!;
+    expect(poll().externalId).toBe(poll().externalId);
+  });
+
+  it("maps goal details, cards, substitutions and VAR", () => {
+    const types = buildFixtureEvents(
+      afFixture([
+        afEvent({ detail: "Own Goal" }),
+        afEvent({ detail: "Penalty" }),
+        afEvent({ detail: "Missed Penalty" }),
+        afEvent({ type: "Card", detail: "Yellow Card" }),
+        afEvent({ type: "Card", detail: "Red Card" }),
+        afEvent({ type: "subst", detail: "Substitution 1" }),
+        afEvent({ type: "Var", detail: "Goal cancelled" }),
+      ])
+    ).map((e) => e.type);
+    expect(types).toEqual([
+      FixtureEventType.OWN_GOAL,
+      FixtureEventType.PENALTY,
+      FixtureEventType.MISSED_PENALTY,
+      FixtureEventType.YELLOW_CARD,
+      FixtureEventType.RED_CARD,
+      FixtureEventType.SUBSTITUTION,
+      FixtureEventType.VAR,
+    ]);
+  });
+
+  it("prefers the provider comment as detail", () => {
+    const [event] = buildFixtureEvents(
+      afFixture([
+        afEvent({ type: "Card", detail: "Yellow Card", comments: "Foul" }),
+      ])
+    );
+    expect(event!.detail).toBe("Foul");
+  });
+
+  it("drops untracked event types", () => {
+    expect(
+      buildFixtureEvents(afFixture([afEvent({ type: "Corner" })]))
+    ).toEqual([]);
+  });
+
+  it("returns [] when events were not included", () => {
+    expect(buildFixtureEvents(afFixture(undefined))).toEqual([]);
+  });
+});
@@ -4,6 +4,7 @@ import {
   type CountryDTO,
   type ExternalId,
   type FixtureDTO,
+  type FixtureEventDTO,
   type LeagueDTO,
   type MarketDTO,
   type OddsDTO,
@@ -35,6 +36,7 @@ import type {
 import {
   AFHttp,
   buildFixture,
+  buildFixtureEvents,
   buildOdds,
   buildStanding,
   composeSeasonId,
@@ -314,6 +316,37 @@ export class ApiFootballAdapter extends BaseSportsDataAdapter {
     return result;
   }
 
+  async fetchFixtureEvents(
+    externalIds: ExternalId[]
+  ): Promise<FixtureEventDTO[]> {
+    const startMs = performance.now();
+    this.logger.info("fetchFixtureEvents", {
+      externalIdsCount: externalIds?.length ?? 0,
+    });
+    if (!externalIds?.length) {
+      this.logger.info("fetchFixtureEvents", { count: 0 });
+      return [];
+    }
+
+    // Events are only returned when fixtures are fetched by id/ids (max 20 per request)
+    const CHUNK_SIZE = 20;
+    const out: FixtureEventDTO[] = [];
+
+    for (let i = 0; i < externalIds.length; i += CHUNK_SIZE) {
+      const ids = externalIds.slice(i, i + CHUNK_SIZE).join("-");
+      const rows = await this.http.get<AFFixtureRaw>("fixtures", { ids });
+      for (const raw of rows) {
+        out.push(...buildFixtureEvents(raw));
+      }
+    }
+
+    this.logger.info("fetchFixtureEvents", {
+      count: out.length,
+      durationMs: Math.round(performance.now() - startMs),
+    });
+    return out;
+  }
+
   async fetchTeamsBySeason(
     seasonExternalId: ExternalId
   ): Promise<TeamDTO[]> {
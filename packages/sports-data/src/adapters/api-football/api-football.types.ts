@@ -149,6 +149,18 @@ export interface AFFixtureScoreRaw {
   penalty: AFFixtureGoalsRaw;
 }
 
+/** Match event; only returned when fixtures are fetched by id/ids. */
+export interface AFFixtureEventRaw {
+  time: { elapsed: number; extra: number | null };
+  team: { id: number; name: string | null };
+  player?: { id: number | null; name: string | null };
+  /** Assist for goals, player coming off for substitutions */
+  assist?: { id: number | null; name: string | null };
+  type: string; // "Goal" | "Card" | "subst" | "Var"
+  detail: string; // for goals: "Normal Goal" | "Own Goal" | "Penalty" | "Missed Penalty"
+  comments?: string | null;
+}
+
 export interface AFFixtureRaw {
   fixture: AFFixtureInfoRaw;
   league: AFFixtureLeagueRaw;
@@ -158,6 +170,7 @@ export interface AFFixtureRaw {
   };
   goals: AFFixtureGoalsRaw;
   score: AFFixtureScoreRaw;
+  events?: AFFixtureEventRaw[];
 }
 
 /* ----------------------- Standings ----------------------- */
@@ -8,14 +8,17 @@ import { noopLogger } from "../../logger";
 
 import type {
   AFResponse,
+  AFFixtureEventRaw,
   AFFixtureRaw,
   AFStandingRowRaw,
   AFOddsRaw,
   AFOddValueRaw,
 } from "./api-football.types";
 import {
+  FixtureEventType,
   FixtureState,
   type FixtureDTO,
+  type FixtureEventDTO,
   type OddsDTO,
   type StandingDTO,
 } from "@repo/types/sport-data/common";
@@ -314,6 +317,97 @@ export class AFHttp {
 /**
  * Build FixtureDTO from raw API-Football fixture response.
  */
+/**
+ * Derives which team scored first in regulation time from fixture events.
+ * Own goals are reported under the conceding team, so they are credited to the opponent.
+ * Returns undefined when events were not included (unknown), null when no goal.
+ */
+export function pickFirstScoringTeam(
+  events: AFFixtureEventRaw[] | undefined,
+  homeId: number,
+  awayId: number
+): "home" | "away" | null | undefined {
+  if (!Array.isArray(events)) return undefined;
+
+  const goals = events
+    .filter(
+      (e) =>
+        e.type === "Goal" &&
+        e.detail !== "Missed Penalty" &&
+        e.time.elapsed <= 90
+    )
+    .sort(
+      (a, b) =>
+        a.time.elapsed - b.time.elapsed ||
+        (a.time.extra ?? 0) - (b.time.extra ?? 0)
+    );
+
+  const first = goals[0];
+  if (!first) return null;
+
+  let teamId = first.team.id;
+  if (first.detail === "Own Goal") teamId = teamId === homeId ? awayId : homeId;
+
+  if (teamId === homeId) return "home";
+  if (teamId === awayId) return "away";
+  return null;
+}
+
+/** Maps an API-Football event type/detail pair to our event type; null = not tracked. */
+function mapEventType(e: AFFixtureEventRaw): FixtureEventType | null {
+  switch (e.type) {
+    case "Goal":
+      if (e.detail === "Own Goal") return FixtureEventType.OWN_GOAL;
+      if (e.detail === "Penalty") return FixtureEventType.PENALTY;
+      if (e.detail === "Missed Penalty") return FixtureEventType.MISSED_PENALTY;
+      return FixtureEventType.GOAL;
+    case "Card":
+      return e.detail === "Yellow Card"
+        ? FixtureEventType.YELLOW_CARD
+        : FixtureEventType.RED_CARD;
+    case "subst":
+      return FixtureEventType.SUBSTITUTION;
+    case "Var":
+      return FixtureEventType.VAR;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Build FixtureEventDTOs from a fixture's events.
+ * API-Football events have no ID, so one is derived from the fixture, type,
+ * minute, team and player (stable across polls even if events are removed by VAR).
+ */
+export function buildFixtureEvents(raw: AFFixtureRaw): FixtureEventDTO[] {
+  if (!Array.isArray(raw.events)) return [];
+
+  const out: FixtureEventDTO[] = [];
+  for (const e of raw.events) {
+    const type = mapEventType(e);
+    if (!type) continue;
+    out.push({
+      externalId: [
+        raw.fixture.id,
+        type,
+        e.time.elapsed,
+        e.time.extra ?? 0,
+        e.team?.id ?? "",
+        e.player?.id ?? e.player?.name ?? "",
+      ].join("-"),
+      fixtureExternalId: raw.fixture.id,
+      teamExternalId: e.team?.id ?? null,
+      type,
+      minute: e.time.elapsed,
+      extraMinute: e.time.extra ?? null,
+      playerName: e.player?.name ?? null,
+      relatedPlayerName: e.assist?.name ?? null,
+      detail: e.comments ?? e.detail ?? null,
+    });
+  }
+  return out;
+}
+
 export function buildFixture(raw: AFFixtureRaw): FixtureDTO {
   const homeName = raw.teams.home?.name ?? "";
   const awayName = raw.teams.away?.name ?? "";
@@ -358,6 +452,11 @@ export function buildFixture(raw: AFFixtureRaw): FixtureDTO {
     round: raw.league.round ?? null,
     leg: null, // Not directly available
     aggregateId: null, // Not directly available
+    firstScoringTeam: pickFirstScoringTeam(
+      raw.events,
+      raw.teams.home.id,
+      raw.teams.away.id
+    ),
     hasOdds: false, // Would need a separate odds call
     leagueName: raw.league.name ?? "",
     countryName: raw.league.country ?? "",
@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import type {
+  CountryDTO,
+  LeagueDTO,
+  SeasonDTO,
+  TeamDTO,
+} from "@repo/types/sport-data/common";
+import {
+  matchCountries,
+  matchLeagues,
+  matchSeasons,
+  matchTeams,
+  normalizeName,
+} from "../catalog-matcher";
+
+function season(overrides: Partial<SeasonDTO>): SeasonDTO {
+  return {
+    externalId: 1,
+    name: "2025/2026",
+    startDate: "2025-08-15",
+    endDate: "2026-05-24",
+    isCurrent: true,
+    leagueExternalId: 8,
+    leagueName: "Premier League",
+    countryName: "England",
+    ...overrides,
+  };
+}
+
+describe("normalizeName", () => {
+  it("drops case, diacritics, punctuation and club-form tokens", () => {
+    expect(normalizeName("Atlético Madrid")).toBe("atletico madrid");
+    expect(normalizeName("Arsenal FC")).toBe("arsenal");
+    expect(normalizeName("1. FC Köln")).toBe("1 koln");
+    expect(normalizeName("Brighton & Hove Albion")).toBe(
+      "brighton hove albion"
+    );
+  });
+});
+
+describe("matchCountries", () => {
+  it("matches by ISO code, then by name", () => {
+    const primary: CountryDTO[] = [
+      { externalId: 462, name: "England", iso2: "EN" },
+      { externalId: 32, name: "Spain", iso2: "ES" },
+    ];
+    const secondary: CountryDTO[] = [
+      { externalId: "GB-ENG", name: "England", iso2: "GB-ENG" },
+      { externalId: "ES", name: "Spain", iso2: "es" },
+    ];
+    expect(matchCountries(primary, secondary)).toEqual([
+      { primaryId: 32, secondaryId: "ES" },
+      { primaryId: 462, secondaryId: "GB-ENG" },
+    ]);
+  });
+
+  it("never pairs an ambiguous name", () => {
+    const primary: CountryDTO[] = [{ externalId: 1, name: "Georgia" }];
+    const secondary: CountryDTO[] = [
+      { externalId: "GE", name: "Georgia" },
+      { externalId: "US-GA", name: "Georgia" },
+    ];
+    expect(matchCountries(primary, secondary)).toEqual([]);
+  });
+});
+
+describe("matchLeagues", () => {
+  it("tells same-named leagues apart by their mapped country", () => {
+    const primary: LeagueDTO[] = [
+      { externalId: 8, name: "Premier League", countryExternalId: 462 },
+      { externalId: 609, name: "Premier League", countryExternalId: 266 },
+    ];
+    const secondary: LeagueDTO[] = [
+      { externalId: 39, name: "Premier League", countryExternalId: "GB-ENG" },
+      { externalId: 235, name: "Premier League", countryExternalId: "RU" },
+    ];
+    const countries = new Map([
+      ["GB-ENG", 462],
+      ["RU", 266],
+    ]);
+    expect(matchLeagues(primary, secondary, countries)).toEqual([
+      { primaryId: 8, secondaryId: 39 },
+      { primaryId: 609, secondaryId: 235 },
+    ]);
+  });
+
+  it("falls back to a globally unique name", () => {
+    const primary: LeagueDTO[] = [
+      { externalId: 2, name: "UEFA Champions League", countryExternalId: 41 },
+    ];
+    const secondary: LeagueDTO[] = [
+      {
+        externalId: 2,
+        name: "UEFA Champions League",
+        countryExternalId: "World",
+      },
+    ];
+    expect(matchLeagues(primary, secondary, new Map())).toEqual([
+      { primaryId: 2, secondaryId: 2 },
+    ]);
+  });
+});
+
+describe("matchSeasons", () => {
+  it("matches by mapped league and start year", () => {
+    const primary = [
+      season({ externalId: 25583, leagueExternalId: 8 }),
+      season({ externalId: 25659, leagueExternalId: 564 }),
+    ];
+    const secondary = [
+      season({ externalId: "39-2025", leagueExternalId: 39, startDate: "" }),
+      season({ externalId: "140-2025", leagueExternalId: 140 }),
+    ];
+    expect(matchSeasons(primary, secondary, new Map([["39", 8]]))).toEqual([
+      { primaryId: 25583, secondaryId: "39-2025" },
+    ]);
+  });
+});
+
+describe("matchTeams", () => {
+  it("matches by name, then by short code", () => {
+    const primary: TeamDTO[] = [
+      { externalId: 19, name: "Arsenal", shortCode: "ARS" },
+      { externalId: 18, name: "Chelsea", shortCode: "CHE" },
+      { externalId: 14, name: "Manchester United", shortCode: "MUN" },
+    ];
+    const secondary: TeamDTO[] = [
+      { externalId: 42, name: "Arsenal FC", shortCode: "ARS" },
+      { externalId: 49, name: "Chelsea", shortCode: "CHE" },
+      { externalId: 33, name: "Manchester Utd", shortCode: "mun" },
+    ];
+    expect(matchTeams(primary, secondary)).toEqual([
+      { primaryId: 19, secondaryId: 42 },
+      { primaryId: 18, secondaryId: 49 },
+      { primaryId: 14, secondaryId: 33 },
+    ]);
+  });
+
+  it("does not reuse a secondary team already paired by name", () => {
+    const primary: TeamDTO[] = [
+      { externalId: 1, name: "Inter", shortCode: "INT" },
+      { externalId: 2, name: "Inter Miami", shortCode: "INT" },
+    ];
+    const secondary: TeamDTO[] = [
+      { externalId: 505, name: "Inter", shortCode: "INT" },
+    ];
+    expect(matchTeams(primary, secondary)).toEqual([
+      { primaryId: 1, secondaryId: 505 },
+    ]);
+  });
+});
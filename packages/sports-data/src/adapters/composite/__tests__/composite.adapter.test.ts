@@ -0,0 +1,384 @@
+import { describe, it, expect, vi } from "vitest";
+import type {
+  ExternalId,
+  FixtureDTO,
+  TeamDTO,
+} from "@repo/types/sport-data/common";
+import type { ISportsDataAdapter } from "../../../adapter.interface";
+import { SportsDataError } from "../../../errors";
+import { CompositeSportsDataAdapter } from "../composite.adapter";
+import type { MappedEntity, MappingPair, ProviderIdMapper } from "../id-mapper";
+
+const circuitOpen = () =>
+  Promise.reject(new SportsDataError("CIRCUIT_OPEN", "Circuit open"));
+
+/** Provider stub: every fetch not given rejects, so unexpected calls fail loudly. */
+function fakeAdapter(methods: Partial<ISportsDataAdapter>): ISportsDataAdapter {
+  return new Proxy({ getStats: () => ({}), ...methods } as ISportsDataAdapter, {
+    get: (target, prop) =>
+      prop in target
+        ? target[prop as keyof ISportsDataAdapter]
+        : () => Promise.reject(new Error(`unexpected call: ${String(prop)}`)),
+  });
+}
+
+/** In-memory mapper that keeps both sides unique, like provider_mappings. */
+function memoryMapper(
+  seed: Partial<Record<MappedEntity, Array<[ExternalId, ExternalId]>>> = {}
+) {
+  const pairs = new Map<MappedEntity, MappingPair[]>();
+  const stored = (entity: MappedEntity) => pairs.get(entity) ?? [];
+  const saveMappings = vi.fn(
+    async (entity: MappedEntity, added: MappingPair[]) => {
+      const list = stored(entity);
+      let count = 0;
+      for (const p of added) {
+        const taken = list.some(
+          (m) =>
+            String(m.primaryId) === String(p.primaryId) ||
+            String(m.secondaryId) === String(p.secondaryId)
+        );
+        if (taken) continue;
+        list.push(p);
+        count++;
+      }
+      pairs.set(entity, list);
+      return count;
+    }
+  );
+  for (const [entity, list] of Object.entries(seed)) {
+    pairs.set(
+      entity as MappedEntity,
+      list.map(([primaryId, secondaryId]) => ({ primaryId, secondaryId }))
+    );
+  }
+  const lookup = (
+    entity: MappedEntity,
+    ids: ExternalId[],
+    from: keyof MappingPair
+  ) => {
+    const keys = new Set(ids.map(String));
+    const to = from === "primaryId" ? "secondaryId" : "primaryId";
+    return new Map(
+      stored(entity)
+        .filter((m) => keys.has(String(m[from])))
+        .map((m) => [String(m[from]), m[to]])
+    );
+  };
+  const mapper = {
+    toSecondary: async (entity, ids) => lookup(entity, ids, "primaryId"),
+    toPrimary: async (entity, ids) => lookup(entity, ids, "secondaryId"),
+    matchFixture: vi.fn(async () => null),
+    saveMappings,
+  } satisfies ProviderIdMapper;
+  return { mapper, stored };
+}
+
+const KICKOFF = Date.UTC(2026, 9, 18, 14, 0) / 1000;
+
+function fixture(overrides: Partial<FixtureDTO> = {}): FixtureDTO {
+  return {
+    externalId: 1000,
+    name: "Home vs Away",
+    leagueExternalId: 8,
+    seasonExternalId: 25583,
+    homeTeamExternalId: 19,
+    awayTeamExternalId: 18,
+    startIso: new Date(KICKOFF * 1000).toISOString(),
+    startTs: KICKOFF,
+    state: "FT",
+    liveMinute: null,
+    result: "2-1",
+    homeScore: 2,
+    awayScore: 1,
+    homeScore90: 2,
+    awayScore90: 1,
+    ...overrides,
+  } as FixtureDTO;
+}
+
+/** The same match as reported by the secondary provider. */
+function secondaryFixture(overrides: Partial<FixtureDTO> = {}): FixtureDTO {
+  return fixture({
+    externalId: 9000,
+    leagueExternalId: 39,
+    seasonExternalId: "39-2026",
+    homeTeamExternalId: 42,
+    awayTeamExternalId: 49,
+    ...overrides,
+  });
+}
+
+const CATALOG_MAPPINGS = {
+  league: [[8, 39]],
+  season: [[25583, "39-2026"]],
+  team: [
+    [19, 42],
+    [18, 49],
+  ],
+} satisfies Partial<Record<MappedEntity, Array<[ExternalId, ExternalId]>>>;
+
+describe("CompositeSportsDataAdapter — failover", () => {
+  it("translates secondary fixtures back to primary IDs", async () => {
+    const { mapper } = memoryMapper({
+      ...CATALOG_MAPPINGS,
+      fixture: [[1000, 9000]],
+    });
+    const secondary = fakeAdapter({
+      fetchFixturesBySeason: vi.fn(async () => [secondaryFixture()]),
+    });
+    const adapter = new CompositeSportsDataAdapter({
+      primary: fakeAdapter({ fetchFixturesBySeason: circuitOpen }),
+      secondary,
+      mapper,
+    });
+
+    const [f] = await adapter.fetchFixturesBySeason(25583);
+
+    expect(secondary.fetchFixturesBySeason).toHaveBeenCalledWith(
+      "39-2026",
+      undefined
+    );
+    expect(f).toMatchObject({
+      externalId: 1000,
+      leagueExternalId: 8,
+      seasonExternalId: 25583,
+      homeTeamExternalId: 19,
+      awayTeamExternalId: 18,
+    });
+    expect(adapter.getStats()).toMatchObject({
+      failovers: 1,
+      droppedEntities: 0,
+    });
+  });
+
+  it("throws UNMAPPED when the requested season has no mapping", async () => {
+    const adapter = new CompositeSportsDataAdapter({
+      primary: fakeAdapter({ fetchFixturesBySeason: circuitOpen }),
+      secondary: fakeAdapter({}),
+      mapper: memoryMapper().mapper,
+    });
+
+    await expect(adapter.fetchFixturesBySeason(25583)).rejects.toMatchObject({
+      code: "UNMAPPED",
+    });
+  });
+
+  it("throws UNMAPPED when none of the season's fixtures have mapped teams", async () => {
+    const adapter = new CompositeSportsDataAdapter({
+      primary: fakeAdapter({ fetchFixturesBySeason: circuitOpen }),
+      secondary: fakeAdapter({
+        fetchFixturesBySeason: async () => [secondaryFixture()],
+      }),
+      mapper: memoryMapper({ season: CATALOG_MAPPINGS.season }).mapper,
+    });
+
+    await expect(adapter.fetchFixturesBySeason(25583)).rejects.toMatchObject({
+      code: "UNMAPPED",
+    });
+  });
+
+  it("drops unmapped live fixtures of leagues we do not follow", async () => {
+    const { mapper } = memoryMapper({
+      ...CATALOG_MAPPINGS,
+      fixture: [[1000, 9000]],
+    });
+    const adapter = new CompositeSportsDataAdapter({
+      primary: fakeAdapter({ fetchLiveFixtures: circuitOpen }),
+      secondary: fakeAdapter({
+        fetchLiveFixtures: async () => [
+          secondaryFixture({ state: "INPLAY_1ST_HALF" }),
+          secondaryFixture({ externalId: 9001, homeTeamExternalId: 700 }),
+        ],
+      }),
+      mapper,
+    });
+
+    const live = await adapter.fetchLiveFixtures();
+
+    expect(live.map((f) => f.externalId)).toEqual([1000]);
+    expect(adapter.getStats()).toMatchObject({ droppedEntities: 1 });
+  });
+
+  it("does not fail over on errors other than an open circuit", async () => {
+    const adapter = new CompositeSportsDataAdapter({
+      primary: fakeAdapter({
+        fetchLiveFixtures: () =>
+          Promise.reject(new SportsDataError("RATE_LIMIT", "Rate limit", 429)),
+      }),
+      secondary: fakeAdapter({}),
+      mapper: memoryMapper().mapper,
+    });
+
+    await expect(adapter.fetchLiveFixtures()).rejects.toMatchObject({
+      code: "RATE_LIMIT",
+    });
+  });
+});
+
+describe("CompositeSportsDataAdapter — crossCheckFinalScores", () => {
+  it("compares fixtures through their stored mapping", async () => {
+    const adapter = new CompositeSportsDataAdapter({
+      primary: fakeAdapter({ fetchFixturesByIds: async () => [fixture()] }),
+      secondary: fakeAdapter({
+        fetchFixturesByIds: async () => [secondaryFixture({ homeScore90: 3 })],
+      }),
+      mapper: memoryMapper({ fixture: [[1000, 9000]] }).mapper,
+    });
+
+    const [check] = await adapter.crossCheckFinalScores([1000]);
+
+    expect(check).toMatchObject({ externalId: 1000, status: "mismatch" });
+  });
+
+  it("finds unmapped fixtures per kickoff day by their mapped teams and stores the matches in one batch", async () => {
+    const nextDay = KICKOFF + 24 * 60 * 60;
+    const { mapper, stored } = memoryMapper({
+      team: [...CATALOG_MAPPINGS.team, [20, 50], [21, 51]],
+    });
+    const fetchFixturesBetween = vi.fn(
+      async (startIso: string, _endIso: string) =>
+        startIso.startsWith("2026-10-18")
+          ? [
+              secondaryFixture(),
+              // Same teams but outside the kickoff window: a different match
+              secondaryFixture({
+                externalId: 9005,
+                startTs: KICKOFF + 6 * 60 * 60,
+              }),
+              // Not one of ours
+              secondaryFixture({ externalId: 9006, homeTeamExternalId: 700 }),
+            ]
+          : [
+              secondaryFixture({
+                externalId: 9100,
+                homeTeamExternalId: 50,
+                awayTeamExternalId: 51,
+                startTs: nextDay,
+              }),
+            ]
+    );
+    const adapter = new CompositeSportsDataAdapter({
+      primary: fakeAdapter({
+        fetchFixturesByIds: async () => [
+          fixture(),
+          fixture({
+            externalId: 1001,
+            homeTeamExternalId: 20,
+            awayTeamExternalId: 21,
+            startTs: nextDay,
+          }),
+        ],
+      }),
+      secondary: fakeAdapter({ fetchFixturesBetween }),
+      mapper,
+    });
+
+    const checks = await adapter.crossCheckFinalScores([1000, 1001]);
+
+    expect(checks.map((c) => c.status)).toEqual(["agree", "agree"]);
+    expect(
+      fetchFixturesBetween.mock.calls.map(([start, end]) => [start, end])
+    ).toEqual([
+      ["2026-10-18T11:00:00.000Z", "2026-10-18T17:00:00.000Z"],
+      ["2026-10-19T11:00:00.000Z", "2026-10-19T17:00:00.000Z"],
+    ]);
+    expect(mapper.saveMappings).toHaveBeenCalledTimes(1);
+    expect(stored("fixture")).toEqual([
+      { primaryId: 1000, secondaryId: 9000 },
+      { primaryId: 1001, secondaryId: 9100 },
+    ]);
+    expect(mapper.matchFixture).not.toHaveBeenCalled();
+  });
+
+  it("leaves fixtures with unmapped teams unverified without searching the secondary", async () => {
+    const adapter = new CompositeSportsDataAdapter({
+      primary: fakeAdapter({ fetchFixturesByIds: async () => [fixture()] }),
+      secondary: fakeAdapter({}),
+      mapper: memoryMapper().mapper,
+    });
+
+    const [check] = await adapter.crossCheckFinalScores([1000]);
+
+    expect(check).toMatchObject({ status: "unverified", secondary: null });
+  });
+});
+
+describe("CompositeSportsDataAdapter — syncMappings", () => {
+  it("matches the catalogs and stores countries, leagues, seasons and teams", async () => {
+    const teams = (list: Array<[ExternalId, string]>): TeamDTO[] =>
+      list.map(([externalId, name]) => ({ externalId, name }));
+    const primary = fakeAdapter({
+      fetchCountries: async () => [
+        { externalId: 462, name: "England", iso2: "EN" },
+      ],
+      fetchLeagues: async () => [
+        { externalId: 8, name: "Premier League", countryExternalId: 462 },
+      ],
+      fetchSeasons: async () => [
+        {
+          externalId: 25583,
+          name: "2026/2027",
+          startDate: "2026-08-14",
+          endDate: "2027-05-23",
+          isCurrent: true,
+          leagueExternalId: 8,
+          leagueName: "Premier League",
+          countryName: "England",
+        },
+      ],
+      fetchTeamsBySeason: async () =>
+        teams([
+          [19, "Arsenal"],
+          [18, "Chelsea"],
+          [1, "Sunderland"],
+        ]),
+    });
+    const secondary = fakeAdapter({
+      fetchCountries: async () => [
+        { externalId: "GB-ENG", name: "England", iso2: "GB-ENG" },
+      ],
+      fetchLeagues: async () => [
+        { externalId: 39, name: "Premier League", countryExternalId: "GB-ENG" },
+      ],
+      fetchSeasons: async () => [
+        {
+          externalId: "39-2026",
+          name: "2026/2027",
+          startDate: "2026-08-15",
+          endDate: "2027-05-24",
+          isCurrent: true,
+          leagueExternalId: 39,
+          leagueName: "Premier League",
+          countryName: "England",
+        },
+      ],
+      fetchTeamsBySeason: vi.fn(async () =>
+        teams([
+          [42, "Arsenal FC"],
+          [49, "Chelsea FC"],
+        ])
+      ),
+    });
+    const { mapper, stored } = memoryMapper();
+    const adapter = new CompositeSportsDataAdapter({
+      primary,
+      secondary,
+      mapper,
+    });
+
+    const result = await adapter.syncMappings([25583]);
+
+    expect(secondary.fetchTeamsBySeason).toHaveBeenCalledWith("39-2026");
+    expect(result).toEqual({
+      country: { matched: 1, saved: 1, unmatched: 0 },
+      league: { matched: 1, saved: 1, unmatched: 0 },
+      season: { matched: 1, saved: 1, unmatched: 0 },
+      team: { matched: 2, saved: 2, unmatched: 1 },
+    });
+    expect(stored("team")).toEqual([
+      { primaryId: 19, secondaryId: 42 },
+      { primaryId: 18, secondaryId: 49 },
+    ]);
+  });
+});
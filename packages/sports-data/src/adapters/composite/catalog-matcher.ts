@@ -0,0 +1,172 @@
+/**
+ * Catalog matching between the primary and the secondary provider.
+ * Pure functions: given both providers' DTOs, return the ID pairs that match
+ * one-to-one. Ambiguous keys (two candidates on either side) are never paired.
+ */
+
+import type {
+  CountryDTO,
+  ExternalId,
+  LeagueDTO,
+  SeasonDTO,
+  TeamDTO,
+} from "@repo/types/sport-data/common";
+import type { MappingPair } from "./id-mapper";
+
+/** Secondary -> primary IDs, keyed by stringified secondary ID. */
+type IdMap = Map<string, ExternalId>;
+
+type KeyFn<T> = (item: T) => string | null;
+
+/** Club-form tokens that providers add or omit ("Arsenal FC" vs "Arsenal"). */
+const NOISE_TOKENS = new Set(["fc", "cf", "afc", "sc", "ac", "fk", "cd", "sv"]);
+
+/** Lowercase, without diacritics, punctuation and club-form tokens. */
+export function normalizeName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter((token) => token && !NOISE_TOKENS.has(token))
+    .join(" ");
+}
+
+function startYear(season: SeasonDTO): string | null {
+  return (
+    /^\d{4}/.exec(season.startDate)?.[0] ??
+    /^\d{4}/.exec(season.name)?.[0] ??
+    null
+  );
+}
+
+function groupByKey<T>(items: T[], key: KeyFn<T>): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    if (!k) continue;
+    const group = groups.get(k);
+    if (group) group.push(item);
+    else groups.set(k, [item]);
+  }
+  return groups;
+}
+
+/**
+ * Pair items whose key is unique on both sides. Each pass only sees what the
+ * previous passes left unpaired, so stricter keys go first.
+ */
+function matchInPasses<
+  P extends { externalId: ExternalId },
+  S extends { externalId: ExternalId },
+>(
+  primary: P[],
+  secondary: S[],
+  passes: Array<[KeyFn<P>, KeyFn<S>]>
+): MappingPair[] {
+  const pairs: MappingPair[] = [];
+  let leftPrimary = primary;
+  let leftSecondary = secondary;
+
+  for (const [primaryKey, secondaryKey] of passes) {
+    const secondaryGroups = groupByKey(leftSecondary, secondaryKey);
+    const paired = new Set<S>();
+    const unpaired: P[] = [];
+    for (const [k, group] of groupByKey(leftPrimary, primaryKey)) {
+      const candidates = secondaryGroups.get(k);
+      if (group.length === 1 && candidates?.length === 1) {
+        pairs.push({
+          primaryId: group[0]!.externalId,
+          secondaryId: candidates[0]!.externalId,
+        });
+        paired.add(candidates[0]!);
+      } else {
+        unpaired.push(...group);
+      }
+    }
+    // Items without a key in this pass stay in play for the next one
+    const keyless = leftPrimary.filter((p) => !primaryKey(p));
+    leftPrimary = [...unpaired, ...keyless];
+    leftSecondary = leftSecondary.filter((s) => !paired.has(s));
+  }
+  return pairs;
+}
+
+/** By ISO code, then by name. */
+export function matchCountries(
+  primary: CountryDTO[],
+  secondary: CountryDTO[]
+): MappingPair[] {
+  const iso = (c: CountryDTO) => c.iso2?.toUpperCase() ?? null;
+  const name = (c: CountryDTO) => normalizeName(c.name) || null;
+  return matchInPasses(primary, secondary, [
+    [iso, iso],
+    [name, name],
+  ]);
+}
+
+/**
+ * By country and name, then by name alone.
+ * `countries` maps secondary country IDs to primary ones.
+ */
+export function matchLeagues(
+  primary: LeagueDTO[],
+  secondary: LeagueDTO[],
+  countries: IdMap
+): MappingPair[] {
+  const name = (l: LeagueDTO) => normalizeName(l.name) || null;
+  const primaryCountry = (l: LeagueDTO) =>
+    l.countryExternalId != null ? String(l.countryExternalId) : null;
+  const secondaryCountry = (l: LeagueDTO) => {
+    const id =
+      l.countryExternalId != null
+        ? countries.get(String(l.countryExternalId))
+        : null;
+    return id != null ? String(id) : null;
+  };
+  const withCountry =
+    (country: (l: LeagueDTO) => string | null) => (l: LeagueDTO) => {
+      const c = country(l);
+      const n = name(l);
+      return c && n ? `${c}:${n}` : null;
+    };
+  return matchInPasses(primary, secondary, [
+    [withCountry(primaryCountry), withCountry(secondaryCountry)],
+    [name, name],
+  ]);
+}
+
+/**
+ * By league and start year.
+ * `leagues` maps secondary league IDs to primary ones.
+ */
+export function matchSeasons(
+  primary: SeasonDTO[],
+  secondary: SeasonDTO[],
+  leagues: IdMap
+): MappingPair[] {
+  const key = (league: ExternalId | undefined, season: SeasonDTO) => {
+    const year = startYear(season);
+    return league != null && year ? `${league}:${year}` : null;
+  };
+  return matchInPasses(primary, secondary, [
+    [
+      (s) => key(s.leagueExternalId, s),
+      (s) => key(leagues.get(String(s.leagueExternalId)), s),
+    ],
+  ]);
+}
+
+/** Teams of the same season: by name, then by short code. */
+export function matchTeams(
+  primary: TeamDTO[],
+  secondary: TeamDTO[]
+): MappingPair[] {
+  const name = (t: TeamDTO) => normalizeName(t.name) || null;
+  const code = (t: TeamDTO) => t.shortCode?.toUpperCase() || null;
+  return matchInPasses(primary, secondary, [
+    [name, name],
+    [code, code],
+  ]);
+}
@@ -0,0 +1,784 @@
+/**
+ * CompositeSportsDataAdapter — primary provider with failover to a secondary one.
+ *
+ * Fixture and standings reads go to the primary; when its circuit breaker is
+ * open they are retried on the secondary, with every ID translated through a
+ * ProviderIdMapper (primary IDs in, primary IDs out). Entities that cannot be
+ * mapped are dropped rather than synced under foreign IDs; a read whose own
+ * season/league/fixture IDs are unmapped fails with UNMAPPED instead.
+ *
+ * Catalog (countries, leagues, seasons, teams), odds and match events stay
+ * primary-only: their IDs are provider-specific and a mixed sync would create
+ * duplicates (events would also be re-announced as new goals). The catalog
+ * mappings themselves are learned by syncMappings.
+ */
+
+import type {
+  BookmakerDTO,
+  CountryDTO,
+  ExternalId,
+  FixtureDTO,
+  FixtureEventDTO,
+  FixtureState,
+  LeagueDTO,
+  MarketDTO,
+  OddsDTO,
+  SeasonDTO,
+  SeasonPreviewDTO,
+  StandingDTO,
+  TeamDTO,
+} from "@repo/types/sport-data/common";
+import type {
+  ISportsDataAdapter,
+  FixtureFetchOptions,
+  FixturesBySeasonOptions,
+  OddsFetchOptions,
+  ProviderCapabilities,
+} from "../../adapter.interface";
+import { SportsDataError } from "../../errors";
+import { noopLogger, type SportsDataLogger } from "../../logger";
+import {
+  matchCountries,
+  matchLeagues,
+  matchSeasons,
+  matchTeams,
+} from "./catalog-matcher";
+import type { MappedEntity, MappingPair, ProviderIdMapper } from "./id-mapper";
+
+export type CompositeAdapterOptions = {
+  primary: ISportsDataAdapter;
+  secondary: ISportsDataAdapter;
+  mapper: ProviderIdMapper;
+  logger?: SportsDataLogger;
+};
+
+/** Final score as used by settlement. */
+export type FinalScore = {
+  state: FixtureState;
+  homeScore90: number | null;
+  awayScore90: number | null;
+  homeScoreET: number | null;
+  awayScoreET: number | null;
+  penHome: number | null;
+  penAway: number | null;
+};
+
+/**
+ * Cross-provider check of one fixture (primary external ID).
+ * "unverified" when the secondary has no finished result to compare with.
+ */
+export type FinalScoreCheck = {
+  externalId: ExternalId;
+  status: "agree" | "mismatch" | "unverified";
+  primary: FinalScore | null;
+  secondary: FinalScore | null;
+};
+
+/** Outcome of syncMappings for one entity; `unmatched` counts primary entities. */
+export type MappingSyncCounts = {
+  matched: number;
+  saved: number;
+  unmatched: number;
+};
+
+export type MappingSyncResult = Record<
+  Exclude<MappedEntity, "fixture">,
+  MappingSyncCounts
+>;
+
+const FINAL_STATES: ReadonlySet<FixtureState> = new Set<FixtureState>([
+  "FT",
+  "AET",
+  "FT_PEN",
+]);
+
+/** Max kickoff difference between providers when learning fixture mappings. */
+const MATCH_WINDOW_SECONDS = 3 * 60 * 60;
+
+function isCircuitOpen(err: unknown): boolean {
+  return err instanceof SportsDataError && err.code === "CIRCUIT_OPEN";
+}
+
+function toFinalScore(f: FixtureDTO): FinalScore {
+  return {
+    state: f.state,
+    homeScore90: f.homeScore90 ?? f.homeScore,
+    awayScore90: f.awayScore90 ?? f.awayScore,
+    homeScoreET: f.homeScoreET ?? null,
+    awayScoreET: f.awayScoreET ?? null,
+    penHome: f.penHome ?? null,
+    penAway: f.penAway ?? null,
+  };
+}
+
+/** ET and penalties are compared only when both providers report them. */
+function scoresAgree(a: FinalScore, b: FinalScore): boolean {
+  const same = (x: number | null, y: number | null) =>
+    x == null || y == null || x === y;
+  return (
+    a.homeScore90 === b.homeScore90 &&
+    a.awayScore90 === b.awayScore90 &&
+    same(a.homeScoreET, b.homeScoreET) &&
+    same(a.awayScoreET, b.awayScoreET) &&
+    same(a.penHome, b.penHome) &&
+    same(a.penAway, b.penAway)
+  );
+}
+
+export class CompositeSportsDataAdapter implements ISportsDataAdapter {
+  private readonly primary: ISportsDataAdapter;
+  private readonly secondary: ISportsDataAdapter;
+  private readonly mapper: ProviderIdMapper;
+  private readonly logger: SportsDataLogger;
+  private failovers = 0;
+  private droppedEntities = 0;
+
+  constructor(opts: CompositeAdapterOptions) {
+    this.primary = opts.primary;
+    this.secondary = opts.secondary;
+    this.mapper = opts.mapper;
+    this.logger = opts.logger ?? noopLogger;
+  }
+
+  get capabilities(): ProviderCapabilities {
+    return this.primary.capabilities;
+  }
+
+  // ── Primary-only ──
+
+  fetchCountries(): Promise<CountryDTO[]> {
+    return this.primary.fetchCountries();
+  }
+
+  fetchLeagues(): Promise<LeagueDTO[]> {
+    return this.primary.fetchLeagues();
+  }
+
+  fetchSeasons(): Promise<SeasonDTO[]> {
+    return this.primary.fetchSeasons();
+  }
+
+  fetchTeams(): Promise<TeamDTO[]> {
+    return this.primary.fetchTeams();
+  }
+
+  fetchCountryById(id: ExternalId): Promise<CountryDTO | null> {
+    return this.primary.fetchCountryById(id);
+  }
+
+  fetchLeagueById(id: ExternalId): Promise<LeagueDTO | null> {
+    return this.primary.fetchLeagueById(id);
+  }
+
+  fetchSeasonById(id: ExternalId): Promise<SeasonDTO | null> {
+    return this.primary.fetchSeasonById(id);
+  }
+
+  fetchTeamById(id: ExternalId): Promise<TeamDTO | null> {
+    return this.primary.fetchTeamById(id);
+  }
+
+  fetchFixtureEvents(fixtureIds: ExternalId[]): Promise<FixtureEventDTO[]> {
+    return this.primary.fetchFixtureEvents(fixtureIds);
+  }
+
+  fetchTeamsByLeague(leagueId: ExternalId): Promise<TeamDTO[]> {
+    return this.primary.fetchTeamsByLeague(leagueId);
+  }
+
+  fetchTeamsBySeason(seasonId: ExternalId): Promise<TeamDTO[]> {
+    return this.primary.fetchTeamsBySeason(seasonId);
+  }
+
+  fetchAllSeasons(): Promise<SeasonDTO[]> {
+    return this.primary.fetchAllSeasons();
+  }
+
+  fetchSeasonPreview(seasonId: ExternalId): Promise<SeasonPreviewDTO | null> {
+    return this.primary.fetchSeasonPreview(seasonId);
+  }
+
+  fetchOddsBetween(
+    startIso: string,
+    endIso: string,
+    opts?: OddsFetchOptions
+  ): Promise<OddsDTO[]> {
+    return this.primary.fetchOddsBetween(startIso, endIso, opts);
+  }
+
+  fetchBookmakers(): Promise<BookmakerDTO[]> {
+    return this.primary.fetchBookmakers();
+  }
+
+  fetchMarkets(): Promise<MarketDTO[]> {
+    return this.primary.fetchMarkets();
+  }
+
+  // ── With failover ──
+
+  fetchFixturesBySeason(
+    seasonId: ExternalId,
+    opts?: FixturesBySeasonOptions
+  ): Promise<FixtureDTO[]> {
+    return this.withFailover(
+      "fetchFixturesBySeason",
+      () => this.primary.fetchFixturesBySeason(seasonId, opts),
+      async () => {
+        const secondaryId = await this.requireSecondaryId("season", seasonId);
+        return this.fixturesToPrimary(
+          await this.secondary.fetchFixturesBySeason(secondaryId, opts),
+          { requireAny: true }
+        );
+      }
+    );
+  }
+
+  fetchLiveFixtures(opts?: FixtureFetchOptions): Promise<FixtureDTO[]> {
+    return this.withFailover(
+      "fetchLiveFixtures",
+      () => this.primary.fetchLiveFixtures(opts),
+      async () =>
+        this.fixturesToPrimary(await this.secondary.fetchLiveFixtures(opts))
+    );
+  }
+
+  fetchFixtureById(id: ExternalId): Promise<FixtureDTO | null> {
+    return this.withFailover(
+      "fetchFixtureById",
+      () => this.primary.fetchFixtureById(id),
+      async () => {
+        const secondaryId = await this.requireSecondaryId("fixture", id);
+        const fixture = await this.secondary.fetchFixtureById(secondaryId);
+        if (!fixture) return null;
+        const [translated] = await this.fixturesToPrimary([fixture], {
+          requireAny: true,
+        });
+        return translated ?? null;
+      }
+    );
+  }
+
+  fetchFixturesBetween(
+    startIso: string,
+    endIso: string,
+    opts?: FixtureFetchOptions
+  ): Promise<FixtureDTO[]> {
+    return this.withFailover(
+      "fetchFixturesBetween",
+      () => this.primary.fetchFixturesBetween(startIso, endIso, opts),
+      async () =>
+        this.fixturesToPrimary(
+          await this.secondary.fetchFixturesBetween(startIso, endIso, opts)
+        )
+    );
+  }
+
+  fetchFixturesByIds(
+    ids: ExternalId[],
+    opts?: FixtureFetchOptions
+  ): Promise<FixtureDTO[]> {
+    return this.withFailover(
+      "fetchFixturesByIds",
+      () => this.primary.fetchFixturesByIds(ids, opts),
+      async () => {
+        if (!ids.length) return [];
+        const secondaryIds = await this.idsToSecondary("fixture", ids);
+        if (!secondaryIds.length) throw this.unmappedError("fixture", ids);
+        return this.fixturesToPrimary(
+          await this.secondary.fetchFixturesByIds(secondaryIds, opts),
+          { requireAny: true }
+        );
+      }
+    );
+  }
+
+  fetchFixturesByLeague(leagueId: ExternalId): Promise<FixtureDTO[]> {
+    return this.withFailover(
+      "fetchFixturesByLeague",
+      () => this.primary.fetchFixturesByLeague(leagueId),
+      async () => {
+        const secondaryId = await this.requireSecondaryId("league", leagueId);
+        return this.fixturesToPrimary(
+          await this.secondary.fetchFixturesByLeague(secondaryId),
+          { requireAny: true }
+        );
+      }
+    );
+  }
+
+  fetchStandingsByLeague(leagueId: ExternalId): Promise<StandingDTO[]> {
+    return this.withFailover(
+      "fetchStandingsByLeague",
+      () => this.primary.fetchStandingsByLeague(leagueId),
+      async () => {
+        const secondaryId = await this.requireSecondaryId("league", leagueId);
+        return this.standingsToPrimary(
+          await this.secondary.fetchStandingsByLeague(secondaryId)
+        );
+      }
+    );
+  }
+
+  fetchStandingsBySeason(seasonId: ExternalId): Promise<StandingDTO[]> {
+    return this.withFailover(
+      "fetchStandingsBySeason",
+      () => this.primary.fetchStandingsBySeason(seasonId),
+      async () => {
+        const secondaryId = await this.requireSecondaryId("season", seasonId);
+        return this.standingsToPrimary(
+          await this.secondary.fetchStandingsBySeason(secondaryId)
+        );
+      }
+    );
+  }
+
+  // ── Cross-check ──
+
+  /**
+   * Fetch the final scores of the given primary fixtures from both providers
+   * and compare them. Unlike the failover reads this queries both providers,
+   * so it throws when either is unavailable.
+   */
+  async crossCheckFinalScores(ids: ExternalId[]): Promise<FinalScoreCheck[]> {
+    if (!ids.length) return [];
+
+    const primaryFixtures = await this.primary.fetchFixturesByIds(ids, {
+      includeScores: true,
+    });
+    const secondaryByPrimaryId =
+      await this.fetchSecondaryCounterparts(primaryFixtures);
+
+    const checks: FinalScoreCheck[] = primaryFixtures.map((f) => {
+      const primary = toFinalScore(f);
+      const counterpart = secondaryByPrimaryId.get(String(f.externalId));
+      const secondary = counterpart ? toFinalScore(counterpart) : null;
+
+      const comparable =
+        secondary != null &&
+        FINAL_STATES.has(secondary.state) &&
+        secondary.homeScore90 != null &&
+        secondary.awayScore90 != null;
+      return {
+        externalId: f.externalId,
+        status: !comparable
+          ? "unverified"
+          : scoresAgree(primary, secondary)
+            ? "agree"
+            : "mismatch",
+        primary,
+        secondary,
+      };
+    });
+
+    this.logger.info("crossCheckFinalScores", {
+      count: checks.length,
+      mismatches: checks.filter((c) => c.status === "mismatch").length,
+      unverified: checks.filter((c) => c.status === "unverified").length,
+    });
+    return checks;
+  }
+
+  // ── Mapping sync ──
+
+  /**
+   * Match both providers' catalogs (ISO code, names, start year, short code)
+   * and store the one-to-one pairs through the mapper. Countries, leagues and
+   * current seasons are matched in full; teams only for the given primary
+   * seasons, one teams call per season and provider. Existing mappings are kept.
+   */
+  async syncMappings(seasonIds: ExternalId[]): Promise<MappingSyncResult> {
+    const save = this.mapper.saveMappings?.bind(this.mapper);
+    if (!save) throw new Error("syncMappings requires mapper.saveMappings");
+    const counts = async (
+      entity: MappedEntity,
+      total: number,
+      pairs: MappingPair[]
+    ): Promise<MappingSyncCounts> => ({
+      matched: pairs.length,
+      saved: pairs.length ? await save(entity, pairs) : 0,
+      unmatched: total - pairs.length,
+    });
+
+    const [primaryCountries, secondaryCountries] = await Promise.all([
+      this.primary.fetchCountries(),
+      this.secondary.fetchCountries(),
+    ]);
+    const country = await counts(
+      "country",
+      primaryCountries.length,
+      matchCountries(primaryCountries, secondaryCountries)
+    );
+
+    // Later entities are keyed through what is stored, including older mappings
+    const [primaryLeagues, secondaryLeagues] = await Promise.all([
+      this.primary.fetchLeagues(),
+      this.secondary.fetchLeagues(),
+    ]);
+    const countryIds = await this.mapper.toPrimary(
+      "country",
+      secondaryLeagues.flatMap((l) =>
+        l.countryExternalId != null ? [l.countryExternalId] : []
+      )
+    );
+    const league = await counts(
+      "league",
+      primaryLeagues.length,
+      matchLeagues(primaryLeagues, secondaryLeagues, countryIds)
+    );
+
+    const [primarySeasons, secondarySeasons] = await Promise.all([
+      this.primary.fetchSeasons(),
+      this.secondary.fetchSeasons(),
+    ]);
+    const leagueIds = await this.mapper.toPrimary(
+      "league",
+      secondarySeasons.map((s) => s.leagueExternalId)
+    );
+    const season = await counts(
+      "season",
+      primarySeasons.length,
+      matchSeasons(primarySeasons, secondarySeasons, leagueIds)
+    );
+
+    // A team plays in several seasons: first match wins
+    const seasonIdMap = await this.mapper.toSecondary("season", seasonIds);
+    const primaryTeamIds = new Set<string>();
+    const teamPairs = new Map<string, MappingPair>();
+    const unmappedSeasons: ExternalId[] = [];
+    for (const seasonId of seasonIds) {
+      const secondaryId = seasonIdMap.get(String(seasonId));
+      if (secondaryId == null) {
+        unmappedSeasons.push(seasonId);
+        continue;
+      }
+      const [primaryTeams, secondaryTeams] = await Promise.all([
+        this.primary.fetchTeamsBySeason(seasonId),
+        this.secondary.fetchTeamsBySeason(secondaryId),
+      ]);
+      for (const t of primaryTeams) primaryTeamIds.add(String(t.externalId));
+      for (const pair of matchTeams(primaryTeams, secondaryTeams)) {
+        if (!teamPairs.has(String(pair.primaryId))) {
+          teamPairs.set(String(pair.primaryId), pair);
+        }
+      }
+    }
+    if (unmappedSeasons.length) {
+      this.logger.warn("No secondary season mapping, teams not matched", {
+        seasonIds: unmappedSeasons,
+      });
+    }
+    const team = await counts("team", primaryTeamIds.size, [
+      ...teamPairs.values(),
+    ]);
+
+    const result: MappingSyncResult = { country, league, season, team };
+    this.logger.info("syncMappings", result);
+    return result;
+  }
+
+  // ── Observability ──
+
+  healthCheck(): Promise<{ reachable: boolean; latencyMs: number; error?: string }> {
+    return this.primary.healthCheck();
+  }
+
+  getStats(): Record<string, unknown> {
+    return {
+      primary: this.primary.getStats(),
+      secondary: this.secondary.getStats(),
+      failovers: this.failovers,
+      droppedEntities: this.droppedEntities,
+    };
+  }
+
+  // ── Internals ──
+
+  private async withFailover<T>(
+    method: string,
+    primaryCall: () => Promise<T>,
+    secondaryCall: () => Promise<T>
+  ): Promise<T> {
+    try {
+      return await primaryCall();
+    } catch (err) {
+      if (!isCircuitOpen(err)) throw err;
+      this.failovers++;
+      this.logger.warn("Primary provider circuit open, failing over", {
+        method,
+      });
+      return secondaryCall();
+    }
+  }
+
+  private async idsToSecondary(
+    entity: MappedEntity,
+    ids: ExternalId[]
+  ): Promise<ExternalId[]> {
+    const map = await this.mapper.toSecondary(entity, ids);
+    const missing = ids.filter((id) => !map.has(String(id)));
+    if (missing.length) {
+      this.droppedEntities += missing.length;
+      this.logger.warn("No secondary mapping", { entity, ids: missing });
+    }
+    return ids
+      .map((id) => map.get(String(id)))
+      .filter((id): id is ExternalId => id != null);
+  }
+
+  private unmappedError(entity: MappedEntity, ids: ExternalId[]): SportsDataError {
+    return new SportsDataError(
+      "UNMAPPED",
+      `No secondary mapping for ${entity} ${ids.join(", ")}`
+    );
+  }
+
+  private async requireSecondaryId(
+    entity: MappedEntity,
+    id: ExternalId
+  ): Promise<ExternalId> {
+    const [secondaryId] = await this.idsToSecondary(entity, [id]);
+    if (secondaryId == null) throw this.unmappedError(entity, [id]);
+    return secondaryId;
+  }
+
+  private async toPrimaryMaps(
+    entities: Partial<Record<MappedEntity, ExternalId[]>>
+  ): Promise<Partial<Record<MappedEntity, Map<string, ExternalId>>>> {
+    const entries = await Promise.all(
+      Object.entries(entities).map(
+        async ([entity, ids]) =>
+          [
+            entity,
+            await this.mapper.toPrimary(entity as MappedEntity, ids ?? []),
+          ] as const
+      )
+    );
+    return Object.fromEntries(entries);
+  }
+
+  /**
+   * Secondary fixtures with primary IDs, paired with their secondary ID.
+   * Fixtures whose teams or fixture ID cannot be mapped are dropped.
+   */
+  private async translateFixtures(
+    fixtures: FixtureDTO[]
+  ): Promise<Array<{ secondaryId: ExternalId; fixture: FixtureDTO }>> {
+    if (!fixtures.length) return [];
+
+    const nonNull = (ids: Array<ExternalId | null>) =>
+      ids.filter((id): id is ExternalId => id != null);
+    const maps = await this.toPrimaryMaps({
+      fixture: fixtures.map((f) => f.externalId),
+      team: fixtures.flatMap((f) => [f.homeTeamExternalId, f.awayTeamExternalId]),
+      league: nonNull(fixtures.map((f) => f.leagueExternalId)),
+      season: nonNull(fixtures.map((f) => f.seasonExternalId)),
+      country: nonNull(fixtures.map((f) => f.countryExternalId)),
+    });
+    const lookup = (entity: MappedEntity, id: ExternalId | null) =>
+      id != null ? (maps[entity]?.get(String(id)) ?? null) : null;
+
+    const out: Array<{ secondaryId: ExternalId; fixture: FixtureDTO }> = [];
+    let unmappedTeams = 0;
+    let unmatched = 0;
+    for (const f of fixtures) {
+      const homeTeamExternalId = lookup("team", f.homeTeamExternalId);
+      const awayTeamExternalId = lookup("team", f.awayTeamExternalId);
+      if (homeTeamExternalId == null || awayTeamExternalId == null) {
+        unmappedTeams++;
+        continue;
+      }
+
+      const translated: FixtureDTO = {
+        ...f,
+        homeTeamExternalId,
+        awayTeamExternalId,
+        // Unmapped league/season resolve to null, so sync skips the fixture
+        leagueExternalId: lookup("league", f.leagueExternalId),
+        seasonExternalId: lookup("season", f.seasonExternalId),
+        countryExternalId: lookup("country", f.countryExternalId),
+        aggregateId: null,
+      };
+      const externalId =
+        lookup("fixture", f.externalId) ??
+        (await this.mapper.matchFixture?.(f.externalId, translated)) ??
+        null;
+      if (externalId == null) {
+        unmatched++;
+        continue;
+      }
+      out.push({ secondaryId: f.externalId, fixture: { ...translated, externalId } });
+    }
+    if (unmappedTeams || unmatched) {
+      this.droppedEntities += unmappedTeams + unmatched;
+      this.logger.warn("Dropped secondary fixtures without primary mapping", {
+        unmappedTeams,
+        unmatched,
+      });
+    }
+
+    const fields = await this.mapper.primaryFixtureFields?.(
+      out.map((o) => o.fixture.externalId)
+    );
+    if (fields) {
+      for (const o of out) {
+        const known = fields.get(String(o.fixture.externalId));
+        if (known) o.fixture = { ...o.fixture, ...known };
+      }
+    }
+    return out;
+  }
+
+  /**
+   * `requireAny` is for reads scoped to our own season/league/fixtures: there
+   * every secondary fixture should map, so losing all of them means the team
+   * mappings are missing rather than that there was nothing to sync.
+   */
+  private async fixturesToPrimary(
+    fixtures: FixtureDTO[],
+    opts: { requireAny?: boolean } = {}
+  ): Promise<FixtureDTO[]> {
+    const translated = (await this.translateFixtures(fixtures)).map(
+      (t) => t.fixture
+    );
+    if (opts.requireAny && fixtures.length && !translated.length) {
+      throw new SportsDataError(
+        "UNMAPPED",
+        `None of ${fixtures.length} secondary fixtures could be mapped`
+      );
+    }
+    return translated;
+  }
+
+  /** Throws UNMAPPED when rows exist but none of them could be mapped. */
+  private async standingsToPrimary(rows: StandingDTO[]): Promise<StandingDTO[]> {
+    if (!rows.length) return [];
+
+    const maps = await this.toPrimaryMaps({
+      team: rows.map((r) => r.teamExternalId),
+      season: rows.map((r) => r.seasonExternalId),
+      league: rows.map((r) => r.leagueExternalId),
+    });
+    const out: StandingDTO[] = [];
+    let dropped = 0;
+    for (const r of rows) {
+      const teamExternalId = maps.team?.get(String(r.teamExternalId));
+      const seasonExternalId = maps.season?.get(String(r.seasonExternalId));
+      const leagueExternalId = maps.league?.get(String(r.leagueExternalId));
+      if (teamExternalId == null || seasonExternalId == null || leagueExternalId == null) {
+        dropped++;
+        continue;
+      }
+      // Stage/group IDs are provider-specific and have no mapping
+      out.push({
+        ...r,
+        teamExternalId,
+        seasonExternalId,
+        leagueExternalId,
+        stageExternalId: null,
+        groupExternalId: null,
+      });
+    }
+    if (dropped) {
+      this.droppedEntities += dropped;
+      this.logger.warn("Dropped secondary standings without primary mapping", {
+        dropped,
+        total: rows.length,
+      });
+      if (!out.length) {
+        throw new SportsDataError(
+          "UNMAPPED",
+          `None of ${rows.length} secondary standings rows could be mapped`
+        );
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Secondary fixtures for the given primary fixtures, keyed by primary ID.
+   * Fixtures without a mapping are looked up per kickoff day and matched on
+   * their mapped teams and kickoff; the learned pairs are stored in one batch.
+   * Fixtures whose teams are unmapped are left unverified.
+   */
+  private async fetchSecondaryCounterparts(
+    primaryFixtures: FixtureDTO[]
+  ): Promise<Map<string, FixtureDTO>> {
+    const result = new Map<string, FixtureDTO>();
+    if (!primaryFixtures.length) return result;
+
+    const ids = primaryFixtures.map((f) => f.externalId);
+    const idMap = await this.mapper.toSecondary("fixture", ids);
+    const primaryBySecondary = new Map<string, string>();
+    for (const [primaryId, secondaryId] of idMap) {
+      primaryBySecondary.set(String(secondaryId), primaryId);
+    }
+
+    if (idMap.size) {
+      const mapped = await this.secondary.fetchFixturesByIds(
+        [...idMap.values()],
+        { includeScores: true }
+      );
+      for (const f of mapped) {
+        const primaryId = primaryBySecondary.get(String(f.externalId));
+        if (primaryId != null) result.set(primaryId, f);
+      }
+    }
+
+    const unmapped = primaryFixtures.filter((f) => !idMap.has(String(f.externalId)));
+    if (!unmapped.length) return result;
+
+    const teamIds = await this.mapper.toSecondary(
+      "team",
+      unmapped.flatMap((f) => [f.homeTeamExternalId, f.awayTeamExternalId])
+    );
+    const teamsKey = (home: ExternalId, away: ExternalId) => `${home}:${away}`;
+    const wantedByDay = new Map<string, Array<{ fixture: FixtureDTO; key: string }>>();
+    let unmappedTeams = 0;
+    for (const f of unmapped) {
+      const home = teamIds.get(String(f.homeTeamExternalId));
+      const away = teamIds.get(String(f.awayTeamExternalId));
+      if (home == null || away == null) {
+        unmappedTeams++;
+        continue;
+      }
+      const day = new Date(f.startTs * 1000).toISOString().slice(0, 10);
+      const wanted = wantedByDay.get(day) ?? [];
+      wanted.push({ fixture: f, key: teamsKey(home, away) });
+      wantedByDay.set(day, wanted);
+    }
+    if (unmappedTeams) {
+      this.droppedEntities += unmappedTeams;
+      this.logger.warn("No secondary team mapping, fixtures left unverified", {
+        count: unmappedTeams,
+      });
+    }
+
+    const learned: MappingPair[] = [];
+    for (const wanted of wantedByDay.values()) {
+      const kickoffs = wanted.map((w) => w.fixture.startTs);
+      const candidates = await this.secondary.fetchFixturesBetween(
+        new Date((Math.min(...kickoffs) - MATCH_WINDOW_SECONDS) * 1000).toISOString(),
+        new Date((Math.max(...kickoffs) + MATCH_WINDOW_SECONDS) * 1000).toISOString(),
+        { includeScores: true }
+      );
+      const candidatesByTeams = new Map<string, FixtureDTO[]>();
+      for (const c of candidates) {
+        const key = teamsKey(c.homeTeamExternalId, c.awayTeamExternalId);
+        candidatesByTeams.set(key, [...(candidatesByTeams.get(key) ?? []), c]);
+      }
+      for (const { fixture, key } of wanted) {
+        const matches = (candidatesByTeams.get(key) ?? []).filter(
+          (c) => Math.abs(c.startTs - fixture.startTs) <= MATCH_WINDOW_SECONDS
+        );
+        if (matches.length !== 1) continue;
+        result.set(String(fixture.externalId), matches[0]!);
+        learned.push({
+          primaryId: fixture.externalId,
+          secondaryId: matches[0]!.externalId,
+        });
+      }
+    }
+    if (learned.length) await this.mapper.saveMappings?.("fixture", learned);
+    return result;
+  }
+}
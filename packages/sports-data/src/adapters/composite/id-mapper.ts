@@ -0,0 +1,59 @@
+/**
+ * ID mapping between the primary and the secondary provider.
+ * The composite adapter only talks to this interface; persistence lives with the consumer.
+ */
+
+import type {
+  ExternalId,
+  FixtureDTO,
+} from "@repo/types/sport-data/common";
+
+/** Entities whose external IDs differ between providers. */
+export type MappedEntity = "country" | "league" | "season" | "team" | "fixture";
+
+/** One primary <-> secondary ID pair of an entity. */
+export type MappingPair = { primaryId: ExternalId; secondaryId: ExternalId };
+
+/**
+ * Fixture fields that are provider-specific (naming, round labels, aggregate IDs).
+ * On failover they are taken from what the primary provider last reported.
+ */
+export type PrimaryFixtureFields = Pick<
+  FixtureDTO,
+  "name" | "stage" | "round" | "leg" | "aggregateId"
+>;
+
+export interface ProviderIdMapper {
+  /** Primary -> secondary IDs. Keys are stringified primary IDs; unmapped IDs are absent. */
+  toSecondary(
+    entity: MappedEntity,
+    ids: ExternalId[]
+  ): Promise<Map<string, ExternalId>>;
+
+  /** Secondary -> primary IDs. Keys are stringified secondary IDs; unmapped IDs are absent. */
+  toPrimary(
+    entity: MappedEntity,
+    ids: ExternalId[]
+  ): Promise<Map<string, ExternalId>>;
+
+  /**
+   * Find the primary fixture for a secondary fixture without a fixture mapping.
+   * `fixture` already carries primary team/league/season IDs. Implementations
+   * should remember the match so the next lookup is a plain mapping hit.
+   */
+  matchFixture?(
+    secondaryId: ExternalId,
+    fixture: FixtureDTO
+  ): Promise<ExternalId | null>;
+
+  /**
+   * Store mappings found by catalog or kickoff matching. Pairs whose primary or
+   * secondary ID is already mapped are skipped; returns how many were stored.
+   */
+  saveMappings?(entity: MappedEntity, pairs: MappingPair[]): Promise<number>;
+
+  /** Provider-specific fields of known primary fixtures, keyed by stringified primary ID. */
+  primaryFixtureFields?(
+    ids: ExternalId[]
+  ): Promise<Map<string, PrimaryFixtureFields>>;
+}
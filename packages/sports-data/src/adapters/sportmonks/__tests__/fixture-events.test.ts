@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { FixtureEventType } from "@repo/types/sport-data/common";
+import { buildFixtureEvents } from "../helpers";
+import type { FixtureEvent } from "../sportmonks.types";
+
+function smEvent(overrides: Partial<FixtureEvent>): FixtureEvent {
+  return {
+    id: 1,
+    fixture_id: 500,
+    period_id: 1,
+    participant_id: 10,
+    type_id: 14,
+    section: "event",
+    player_id: null,
+    related_player_id: null,
+    player_name: "Scorer",
+    related_player_name: null,
+    result: "1-0",
+    info: null,
+    addition: null,
+    minute: 23,
+    extra_minute: null,
+    injured: null,
+    on_bench: false,
+    coach_id: null,
+    sub_type_id: null,
+    detailed_period_id: null,
+    sort_order: 1,
+    ...overrides,
+  } as FixtureEvent;
+}
+
+describe("buildFixtureEvents (SportMonks)", () => {
+  it("maps a goal with the provider event id and score as detail", () => {
+    const [event] = buildFixtureEvents([
+      smEvent({ related_player_name: "Assister", extra_minute: 2 }),
+    ]);
+    expect(event).toEqual({
+      externalId: 1,
+      fixtureExternalId: 500,
+      teamExternalId: 10,
+      type: FixtureEventType.GOAL,
+      minute: 23,
+      extraMinute: 2,
+      playerName: "Scorer",
+      relatedPlayerName: "Assister",
+      detail: "1-0",
+    });
+  });
+
+  it("maps goal, card and substitution type ids", () => {
+    const types = buildFixtureEvents([
+      smEvent({ id: 1, type_id: 15 }),
+      smEvent({ id: 2, type_id: 16 }),
+      smEvent({ id: 3, type_id: 17 }),
+      smEvent({ id: 4, type_id: 18 }),
+      smEvent({ id: 5, type_id: 19 }),
+      smEvent({ id: 6, type_id: 20 }),
+      smEvent({ id: 7, type_id: 10 }),
+    ]).map((e) => e.type);
+    expect(types).toEqual([
+      FixtureEventType.OWN_GOAL,
+      FixtureEventType.PENALTY,
+      FixtureEventType.MISSED_PENALTY,
+      FixtureEventType.SUBSTITUTION,
+      FixtureEventType.YELLOW_CARD,
+      FixtureEventType.RED_CARD,
+      FixtureEventType.VAR,
+    ]);
+  });
+
+  it("maps a second yellow to a red card with its own detail", () => {
+    const [event] = buildFixtureEvents([
+      smEvent({ type_id: 21, result: null, info: "Foul" }),
+    ]);
+    expect(event!.type).toBe(FixtureEventType.RED_CARD);
+    expect(event!.detail).toBe("Second yellow card");
+  });
+
+  it("drops untracked event types", () => {
+    expect(buildFixtureEvents([smEvent({ type_id: 999 })])).toEqual([]);
+  });
+
+  it("returns [] when events were not included", () => {
+    expect(buildFixtureEvents(undefined)).toEqual([]);
+  });
+});
@@ -9,6 +9,7 @@ import { noopLogger } from "../../logger";
 /** Environment-backed configuration defaults */
 
 import type {
+  FixtureEvent,
   FixtureSportmonks,
   ParticipantsSportmonks,
   PeriodSportmonks,
@@ -20,7 +21,9 @@ import {
   FixtureDTO,
   FixtureState,
   FixtureScoreBreakdown,
+  FixtureEventType,
   StandingDTO,
+  type FixtureEventDTO,
 } from "@repo/types/sport-data/common";
 
 // SportMonks has separate APIs for different data types
@@ -489,6 +492,100 @@ export function pickScoreString(
   return `${home}:${away}`;
 }
 
+// Event type_id constants (confirm via /v3/core/types)
+const EVENT_TYPE_GOAL = 14;
+const EVENT_TYPE_OWN_GOAL = 15;
+const EVENT_TYPE_PENALTY = 16;
+const EVENT_TYPE_MISSED_PENALTY = 17;
+const EVENT_TYPE_SUBSTITUTION = 18;
+const EVENT_TYPE_YELLOW_CARD = 19;
+const EVENT_TYPE_RED_CARD = 20;
+const EVENT_TYPE_YELLOW_RED_CARD = 21;
+const EVENT_TYPE_VAR = 10;
+
+const SM_EVENT_TYPE_MAP: Record<number, FixtureEventType> = {
+  [EVENT_TYPE_GOAL]: FixtureEventType.GOAL,
+  [EVENT_TYPE_OWN_GOAL]: FixtureEventType.OWN_GOAL,
+  [EVENT_TYPE_PENALTY]: FixtureEventType.PENALTY,
+  [EVENT_TYPE_MISSED_PENALTY]: FixtureEventType.MISSED_PENALTY,
+  [EVENT_TYPE_SUBSTITUTION]: FixtureEventType.SUBSTITUTION,
+  [EVENT_TYPE_YELLOW_CARD]: FixtureEventType.YELLOW_CARD,
+  [EVENT_TYPE_RED_CARD]: FixtureEventType.RED_CARD,
+  // Second yellow is a sending-off; the detail keeps the distinction
+  [EVENT_TYPE_YELLOW_RED_CARD]: FixtureEventType.RED_CARD,
+  [EVENT_TYPE_VAR]: FixtureEventType.VAR,
+};
+
+/**
+ * Maps SportMonks events to FixtureEventDTO.
+ * Event types we don't track (e.g. corners, shootout kicks) are dropped.
+ */
+export function buildFixtureEvents(
+  events: FixtureEvent[] | undefined
+): FixtureEventDTO[] {
+  if (!Array.isArray(events)) return [];
+
+  const out: FixtureEventDTO[] = [];
+  for (const e of events) {
+    const type = SM_EVENT_TYPE_MAP[e.type_id];
+    if (!type) continue;
+    out.push({
+      externalId: e.id,
+      fixtureExternalId: e.fixture_id,
+      teamExternalId: e.participant_id ?? null,
+      type,
+      minute: e.minute,
+      extraMinute: e.extra_minute ?? null,
+      playerName: e.player_name ?? null,
+      relatedPlayerName: e.related_player_name ?? null,
+      detail:
+        e.type_id === EVENT_TYPE_YELLOW_RED_CARD
+          ? "Second yellow card"
+          : (e.result ?? e.info ?? null),
+    });
+  }
+  return out;
+}
+
+/**
+ * Derives which team scored first in regulation time from the events include.
+ * Own goals are credited to the opponent of the event participant.
+ * Returns undefined when events were not included (unknown), null when no goal.
+ */
+export function pickFirstScoringTeam(
+  events: FixtureEvent[] | undefined,
+  homeId: number,
+  awayId: number
+): "home" | "away" | null | undefined {
+  if (!Array.isArray(events)) return undefined;
+
+  const goals = events
+    .filter(
+      (e) =>
+        (e.type_id === EVENT_TYPE_GOAL ||
+          e.type_id === EVENT_TYPE_OWN_GOAL ||
+          e.type_id === EVENT_TYPE_PENALTY) &&
+        e.minute <= 90
+    )
+    .sort(
+      (a, b) =>
+        a.minute - b.minute ||
+        (a.extra_minute ?? 0) - (b.extra_minute ?? 0) ||
+        (a.sort_order ?? 0) - (b.sort_order ?? 0)
+    );
+
+  const first = goals[0];
+  if (!first) return null;
+
+  let teamId = first.participant_id;
+  if (first.type_id === EVENT_TYPE_OWN_GOAL)
+    teamId = teamId === homeId ? awayId : homeId;
+
+  if (teamId === homeId) return "home";
+  if (teamId === awayId) return "away";
+  return null;
+}
+
 /**
  * Extracts home and away team IDs from SportMonks participants array
  * SportMonks stores team relationships in participants with position metadata
@@ -581,6 +678,7 @@ export function buildFixtures(f: FixtureSportmonks): FixtureDTO | null {
     round: f?.round?.name ?? null,
     leg: f?.leg ?? null,
     aggregateId: f?.aggregate_id ?? null,
+    firstScoringTeam: pickFirstScoringTeam(f.events, homeId, awayId),
     hasOdds: f.has_odds,
     leagueName: f.league?.name ?? "",
     countryName: f.league?.country?.name ?? "",
@@ -17,6 +17,7 @@ import {
   type MarketDTO,
   type OddsDTO,
   type FixtureDTO,
+  type FixtureEventDTO,
   type LeagueDTO,
   type SeasonDTO,
   type SeasonPreviewDTO,
@@ -42,6 +43,7 @@ import {
   type RequestOpts,
   buildOdds,
   buildFixtures,
+  buildFixtureEvents,
   buildStanding,
 } from "./helpers";
 import type {
@@ -225,7 +227,7 @@ export class SportMonksAdapter extends BaseSportsDataAdapter {
   /** Translates generic opts to SportMonks IncludeNode[]. Kept internal—not exposed in public API. */
   private buildFixtureInclude(opts?: FixtureFetchOptions): IncludeNode[] {
     const extra: IncludeNode[] = [];
-    if (opts?.includeScores === true) extra.push("scores");
+    if (opts?.includeScores === true) extra.push("scores", "events");
     if (opts?.includeOdds === true)
       extra.push({
         name: "odds",
@@ -520,6 +522,47 @@ export class SportMonksAdapter extends BaseSportsDataAdapter {
     return out;
   }
 
+  /**
+   * Fetches in-match events (goals, cards, substitutions) for fixtures.
+   * Uses fixtures/multi with only the events include (same 50-ID chunking).
+   */
+  async fetchFixtureEvents(
+    externalIds: ExternalId[]
+  ): Promise<FixtureEventDTO[]> {
+    const MAX_IDS_PER_REQUEST = 50;
+    const startMs = performance.now();
+    this.logger.info("fetchFixtureEvents", {
+      externalIdsCount: externalIds?.length ?? 0,
+    });
+
+    // SportMonks only accepts numeric IDs — filter out sandbox/test IDs
+    const numericIds = (externalIds ?? []).filter((id) =>
+      /^\d+$/.test(String(id))
+    );
+    if (!numericIds.length) {
+      this.logger.info("fetchFixtureEvents", { count: 0 });
+      return [];
+    }
+
+    const out: FixtureEventDTO[] = [];
+    for (let i = 0; i < numericIds.length; i += MAX_IDS_PER_REQUEST) {
+      const chunk = numericIds.slice(i, i + MAX_IDS_PER_REQUEST);
+      const rows = await this.httpFootball.get<FixtureSportmonks>(
+        `fixtures/multi/${chunk.join(",")}`,
+        { include: ["events"] }
+      );
+      for (const f of rows) {
+        out.push(...buildFixtureEvents(f.events));
+      }
+    }
+
+    this.logger.info("fetchFixtureEvents", {
+      count: out.length,
+      durationMs: Math.round(performance.now() - startMs),
+    });
+    return out;
+  }
+
   /* ----------------------- Reference Data Methods ----------------------- */
 
   /**
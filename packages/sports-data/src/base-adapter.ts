@@ -11,6 +11,7 @@ import type {
   CountryDTO,
   ExternalId,
   FixtureDTO,
+  FixtureEventDTO,
   LeagueDTO,
   MarketDTO,
   OddsDTO,
@@ -85,6 +86,12 @@ export abstract class BaseSportsDataAdapter implements ISportsDataAdapter {
     return [];
   }
 
+  async fetchFixtureEvents(
+    _fixtureIds: ExternalId[]
+  ): Promise<FixtureEventDTO[]> {
+    return [];
+  }
+
   async fetchFixturesByLeague(_leagueId: ExternalId): Promise<FixtureDTO[]> {
     return [];
   }
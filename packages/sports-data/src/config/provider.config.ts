@@ -7,6 +7,11 @@ export const PROVIDER_CONFIG = {
   current: (process.env.SPORTS_DATA_PROVIDER as SportsDataProvider) ||
     "sportmonks",
 
+  /** Secondary provider the composite adapter fails over to (unset = no failover). */
+  fallback:
+    (process.env.SPORTS_DATA_FALLBACK_PROVIDER as SportsDataProvider | undefined) ||
+    null,
+
   labels: {
     sportmonks: "SportMonks",
     "api-football": "API-Football",
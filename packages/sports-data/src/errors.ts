@@ -8,6 +8,7 @@ export type SportsDataErrorCode =
   | "SERVER_ERROR"
   | "NETWORK_ERROR"
   | "CIRCUIT_OPEN"
+  | "UNMAPPED"
   | "UNKNOWN";
 
 export class SportsDataError extends Error {
@@ -8,8 +8,24 @@ export type {
 export { BaseSportsDataAdapter } from "./base-adapter";
 export {
   createSportsDataAdapter,
+  createCompositeSportsDataAdapter,
   type AdapterConfig,
+  type CompositeAdapterConfig,
 } from "./adapter.factory";
+export {
+  CompositeSportsDataAdapter,
+  type CompositeAdapterOptions,
+  type FinalScore,
+  type FinalScoreCheck,
+  type MappingSyncCounts,
+  type MappingSyncResult,
+} from "./adapters/composite/composite.adapter";
+export type {
+  MappedEntity,
+  MappingPair,
+  PrimaryFixtureFields,
+  ProviderIdMapper,
+} from "./adapters/composite/id-mapper";
 export {
   PROVIDER_CONFIG,
   type SportsDataProvider,
@@ -271,6 +271,11 @@ export interface AdminUpdateJobResponse {
   message: string;
 }
 
+/** Edge of a job's run graph: an upstream/downstream job chain or a domain event trigger. */
+export type AdminJobGraphEdge =
+  | { type: "job"; jobKey: string; minRowsAffected: number | null }
+  | { type: "event"; event: string };
+
 /** Single job with last 10 runs (for job detail page). */
 export interface AdminJobDetailResponse {
   status: string;
@@ -295,6 +300,11 @@ export interface AdminJobDetailResponse {
       errorMessage: string | null;
       meta: Record<string, unknown>;
     }>;
+    /** What triggers this job (upstream jobs / events) and which jobs it triggers. */
+    graph: {
+      upstream: AdminJobGraphEdge[];
+      downstream: AdminJobGraphEdge[];
+    };
   } | null;
   message: string;
 }
@@ -345,6 +355,35 @@ export interface AdminRunJobResponse {
   message: string;
 }
 
+/** Job queue entry (queued / running / retrying / dead-lettered run). */
+export interface AdminJobQueueEntry {
+  id: number;
+  jobKey: string;
+  status: "queued" | "running" | "succeeded" | "dead";
+  priority: number;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lockedBy: string | null;
+  lastError: string | null;
+  lastRunId: number | null;
+  triggeredBy: string | null;
+  createdAt: string;
+  finishedAt: string | null;
+}
+
+export interface AdminJobQueueListResponse {
+  status: string;
+  data: AdminJobQueueEntry[];
+  message: string;
+}
+
+export interface AdminRequeueJobResponse {
+  status: string;
+  data: { queueId: number; jobKey: string };
+  message: string;
+}
+
 export interface AdminRunAllJobsResponse {
   status: string;
   data: {
@@ -958,6 +997,74 @@ export interface AdminFixtureResettleResponse {
   predictionsRecalculated: number;
 }
 
+/** A prediction whose points would change on resettle */
+export interface AdminResettlePredictionChange {
+  predictionId: number;
+  userId: number;
+  username: string | null;
+  previousPoints: number | null;
+  newPoints: number;
+}
+
+/** A member whose rank or points would change on resettle */
+export interface AdminResettleRankChange {
+  userId: number;
+  username: string | null;
+  previousRank: number;
+  newRank: number;
+  previousPoints: number;
+  newPoints: number;
+}
+
+/** Response shape for GET /admin/fixtures/:id/resettle/preview */
+export interface AdminFixtureResettlePreviewResponse {
+  fixtureId: number;
+  state: string;
+  predictionsChanged: number;
+  groups: Array<{
+    groupId: number;
+    groupName: string;
+    ruleVersion: string;
+    predictionChanges: AdminResettlePredictionChange[];
+    rankChanges: AdminResettleRankChange[];
+  }>;
+}
+
+/** One settlement ledger row, with what triggered it */
+export interface AdminSettlementLedgerEntry {
+  id: number;
+  createdAt: string;
+  groupId: number;
+  groupPredictionId: number;
+  userId: number;
+  username: string | null;
+  reason: "settlement" | "resettle";
+  points: number;
+  previousPoints: number | null;
+  marketPoints: number;
+  ruleVersion: string;
+  fixtureState: string;
+  homeScore90: number | null;
+  awayScore90: number | null;
+  homeScoreET: number | null;
+  awayScoreET: number | null;
+  penHome: number | null;
+  penAway: number | null;
+  jobRun: { id: number; jobKey: string } | null;
+  fixtureAudit: {
+    id: number;
+    source: string;
+    changes: Record<string, { old: unknown; new: unknown }>;
+    createdAt: string;
+  } | null;
+  adminUserId: number | null;
+}
+
+/** Response shape for GET /admin/fixtures/:id/ledger */
+export interface AdminFixtureLedgerResponse {
+  data: AdminSettlementLedgerEntry[];
+}
+
 /** Response shape for GET /admin/fixtures/:id/settlement (groups summary) */
 export interface AdminFixtureGroupsSummaryResponse {
   totalGroups: number;
@@ -1243,6 +1350,16 @@ export interface AdminCreateOfficialGroupBody {
   outcomePoints?: number;
   predictionMode?: string;
   koRoundMode?: string;
+  scoringStrategy?: string;
+  scoringConfig?: Record<string, number>;
+  underdogBonus?: boolean;
+  underdogMaxMultiplier?: number;
+  jokerMode?: string;
+  jokerFixturesPerCard?: number;
+  bttsPoints?: number;
+  overUnderPoints?: number;
+  firstTeamToScorePoints?: number;
+  advancePoints?: number;
   badges?: Array<{
     name: string;
     description: string;
@@ -1309,6 +1426,16 @@ export interface AdminOfficialGroupDetailsResponse {
       outcomePoints: number;
       koRoundMode: string;
       predictionMode: string;
+      scoringStrategy: string;
+      scoringConfig: Record<string, number>;
+      underdogBonus: boolean;
+      underdogMaxMultiplier: number;
+      jokerMode: string;
+      jokerFixturesPerCard: number;
+      bttsPoints: number;
+      overUnderPoints: number;
+      firstTeamToScorePoints: number;
+      advancePoints: number;
       maxMembers: number;
       inviteAccess: string;
       nudgeEnabled: boolean;
@@ -1326,6 +1453,16 @@ export interface AdminUpdateOfficialGroupRulesBody {
   outcomePoints?: number;
   predictionMode?: string;
   koRoundMode?: string;
+  scoringStrategy?: string;
+  scoringConfig?: Record<string, number>;
+  underdogBonus?: boolean;
+  underdogMaxMultiplier?: number;
+  jokerMode?: string;
+  jokerFixturesPerCard?: number;
+  bttsPoints?: number;
+  overUnderPoints?: number;
+  firstTeamToScorePoints?: number;
+  advancePoints?: number;
   maxMembers?: number;
   inviteAccess?: string;
   nudgeEnabled?: boolean;
@@ -1529,3 +1666,51 @@ export interface AdminBadgeDefinitionSearchResponse {
   data: AdminBadgeDefinitionSearchItem[];
   message: string;
 }
+
+// ─── Outright settlement ───
+
+/** Season with outright markets (GET /admin/outrights/seasons). */
+export interface AdminOutrightSeasonItem {
+  seasonId: number;
+  seasonName: string;
+  leagueName: string | null;
+  endDate: string;
+  /** True once endDate has passed; settlement can be confirmed. */
+  hasEnded: boolean;
+  groupCount: number;
+  outrightCount: number;
+  unsettledCount: number;
+}
+
+export interface AdminOutrightSeasonsResponse {
+  status: string;
+  data: AdminOutrightSeasonItem[];
+  message: string;
+}
+
+export interface AdminOutrightSettlementItem {
+  outrightId: number;
+  groupId: number;
+  groupName: string;
+  market: "champion" | "top4" | "relegation";
+  pickCount: number;
+  points: number;
+  resultTeams: Array<{ id: number; name: string }>;
+  pickCountTotal: number;
+  /** Picks with at least one correct team. */
+  winnerCount: number;
+  pointsAwarded: number;
+  /** Previous settlement time (unix seconds) when re-settling. */
+  settledAt: number | null;
+}
+
+/** Settlement computed from the current provider standings. */
+export interface AdminOutrightSettlementResponse {
+  status: string;
+  data: {
+    seasonId: number;
+    standings: Array<{ position: number; teamId: number | null; teamName: string }>;
+    items: AdminOutrightSettlementItem[];
+  };
+  message: string;
+}
@@ -68,6 +68,8 @@ export type ApiUpcomingFixturesResponse = {
     stage: string | null;
     round: string | null;
     leg?: string | null;
+    /** Links the two legs of a tie; null for single matches. */
+    aggregateId?: string | null;
     league?: {
       id: number;
       name: string;
@@ -119,6 +121,14 @@ export type ApiUpcomingFixturesResponse = {
       placedAt: string;
       settled: boolean;
       points: number | null;
+      /** Whether this prediction is the member's joker (double points). */
+      isJoker: boolean;
+      /** Side-market picks (null = not picked). */
+      markets?: ApiSideMarketPicks;
+      /** Side-market share of points, including the joker multiplier. */
+      marketPoints?: number;
+      /** Settled as void: the fixture was postponed/cancelled for the group (0 points, not counted). */
+      voided?: boolean;
     } | null;
   }>;
   pagination: {
@@ -258,6 +268,41 @@ export type ApiTeamsResponse = {
   message: string;
 };
 
+/**
+ * Where a standings table came from: the synced provider table, or a
+ * recompute from our finished fixtures when the provider has none.
+ */
+export type ApiStandingsSource = "provider" | "fixtures";
+
+/**
+ * One row of a league table returned by the Get Standings endpoint.
+ */
+export type ApiStandingItem = {
+  position: number;
+  teamExternalId: string | number;
+  teamName: string;
+  teamImagePath: string | null;
+  teamShortCode: string | null;
+  points: number;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifference: number;
+};
+
+/**
+ * Response from the Get Standings endpoint.
+ * `updatedAt` is the last sync (unix seconds); null for a recomputed table.
+ */
+export type ApiStandingsResponse = {
+  standings: ApiStandingItem[];
+  source: ApiStandingsSource;
+  updatedAt: number | null;
+};
+
 /**
  * Group privacy setting.
  */
@@ -273,6 +318,103 @@ export type ApiGroupStatus = "draft" | "active" | "ended";
  */
 export type ApiInviteAccess = "all" | "admin_only";
 
+/**
+ * When members can see each other's picks for a fixture before kickoff.
+ * "always": at any time; "after_own_prediction": once the viewer has predicted
+ * the fixture; "after_kickoff": only after kickoff. Own picks are always visible.
+ */
+export type ApiPredictionVisibility =
+  | "always"
+  | "after_own_prediction"
+  | "after_kickoff";
+
+/**
+ * What a group does with a postponed or cancelled fixture:
+ * "void" settles its predictions as void; "follow" keeps them open for a
+ * postponed match rescheduled within followWindowDays.
+ */
+export type ApiVoidedFixturePolicy = "void" | "follow";
+
+/**
+ * Scoring strategy key. "classic" uses the exact / difference / outcome point tiers.
+ */
+export type ApiScoringStrategyKey =
+  | "classic"
+  | "goalDifferenceProximity"
+  | "totalGoals"
+  | "teamGoals"
+  | "oddsWeighted";
+
+/**
+ * Strategy-specific integer settings, keyed by field (e.g. { basePoints: 3 }).
+ */
+export type ApiScoringStrategyConfig = Record<string, number>;
+
+/**
+ * A configurable field of a scoring strategy.
+ */
+export type ApiScoringStrategyField = {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  default: number;
+};
+
+/**
+ * Scoring strategy description returned by GET /api/groups/scoring-strategies.
+ */
+export type ApiScoringStrategy = {
+  key: ApiScoringStrategyKey;
+  label: string;
+  description: string;
+  fields: ApiScoringStrategyField[];
+  /** Whether the strategy can be used with MatchWinner (1/X/2) prediction mode. */
+  supportsMatchWinner: boolean;
+  /** Whether points depend on the match odds. */
+  requiresOdds: boolean;
+};
+
+export type ApiScoringStrategiesResponse = {
+  status: "success";
+  data: ApiScoringStrategy[];
+  message: string;
+};
+
+/**
+ * Body for POST /api/groups/scoring-preview.
+ */
+export type ApiScoringPreviewBody = {
+  scoringStrategy: ApiScoringStrategyKey;
+  scoringConfig?: ApiScoringStrategyConfig;
+  predictionMode?: string;
+  onTheNosePoints?: number;
+  correctDifferencePoints?: number;
+  outcomePoints?: number;
+  underdogBonus?: boolean;
+  underdogMaxMultiplier?: number;
+};
+
+/**
+ * A sample prediction scored with the previewed rules.
+ * Sample odds (home favourite) are used for odds-aware strategies.
+ */
+export type ApiScoringPreviewRow = {
+  prediction: string;
+  result: string;
+  points: number;
+};
+
+export type ApiScoringPreviewResponse = {
+  status: "success";
+  data: {
+    scoringStrategy: ApiScoringStrategyKey;
+    scoringConfig: ApiScoringStrategyConfig;
+    rows: ApiScoringPreviewRow[];
+  };
+  message: string;
+};
+
 /**
  * Body for creating a group.
  */
@@ -301,6 +443,14 @@ export type ApiUpdateGroupBody = {
   privacy?: ApiGroupPrivacy;
   fixtureIds?: number[];
   inviteAccess?: ApiInviteAccess;
+  /** Joins become pending requests that an owner/admin must accept. */
+  requiresApproval?: boolean;
+  /** When members can see each other's picks. */
+  predictionVisibility?: ApiPredictionVisibility;
+  /** Void postponed/cancelled fixtures or follow them to their new date. */
+  voidedFixturePolicy?: ApiVoidedFixturePolicy;
+  /** Days after the original kickoff a followed fixture may move (1–30). */
+  followWindowDays?: number;
   /** Whether members can nudge each other for upcoming games. */
   nudgeEnabled?: boolean;
   /** Minutes before kickoff within which nudge is allowed (15–1440). */
@@ -311,12 +461,46 @@ export type ApiUpdateGroupBody = {
   correctDifferencePoints?: number;
   /** Scoring: points for correct outcome. Only editable before first game starts. */
   outcomePoints?: number;
+  /** Scoring strategy key. Only editable before first game starts. */
+  scoringStrategy?: ApiScoringStrategyKey;
+  /** Strategy-specific settings (see GET /api/groups/scoring-strategies). Only editable before first game starts. */
+  scoringConfig?: ApiScoringStrategyConfig;
+  /** Multiply outcome points by the kickoff odds of the outcome. Only editable before first game starts. */
+  underdogBonus?: boolean;
+  /** Cap for the underdog multiplier (2–10). Only editable before first game starts. */
+  underdogMaxMultiplier?: number;
+  /** Joker card mode. Only editable before first game starts. */
+  jokerMode?: ApiJokerMode;
+  /** Fixtures per joker when jokerMode is "fixtures" (2–20). Only editable before first game starts. */
+  jokerFixturesPerCard?: number;
+  /** Side market points (0 disables the market). Only editable before first game starts. */
+  bttsPoints?: number;
+  overUnderPoints?: number;
+  firstTeamToScorePoints?: number;
+  /** "Who advances" points for two-legged ties (0 disables). Only editable before first game starts. */
+  advancePoints?: number;
   /** Avatar type: "gradient" | "emoji" | "image". */
   avatarType?: string;
   /** Avatar value: gradient index, emoji string, or image URL. */
   avatarValue?: string;
 };
 
+/**
+ * Joker card mode. "round": one joker per competition round;
+ * "fixtures": one joker per N fixtures (by kickoff order).
+ */
+export type ApiJokerMode = "off" | "round" | "fixtures";
+
+/**
+ * Side-market picks on a group fixture, settled on the 90-minute score:
+ * both teams to score, over/under 2.5 goals, and which team scores first.
+ */
+export type ApiSideMarketPicks = {
+  btts: boolean | null;
+  overUnder: "over" | "under" | null;
+  firstTeamToScore: "home" | "away" | "none" | null;
+};
+
 /**
  * Body for publishing a group.
  */
@@ -329,7 +513,31 @@ export type ApiPublishGroupBody = {
   outcomePoints?: number;
   predictionMode?: string;
   koRoundMode?: string;
+  /** Scoring strategy key. Default "classic". */
+  scoringStrategy?: ApiScoringStrategyKey;
+  /** Strategy-specific settings; missing fields use the strategy defaults. */
+  scoringConfig?: ApiScoringStrategyConfig;
+  /** Multiply outcome points by the kickoff odds of the outcome. Default false. */
+  underdogBonus?: boolean;
+  /** Cap for the underdog multiplier (2–10). Default 3. */
+  underdogMaxMultiplier?: number;
+  /** Joker card mode. Default "off". */
+  jokerMode?: ApiJokerMode;
+  /** Fixtures per joker when jokerMode is "fixtures" (2–20). Default 5. */
+  jokerFixturesPerCard?: number;
+  /** Side market points (0 disables the market). Default 0. */
+  bttsPoints?: number;
+  overUnderPoints?: number;
+  firstTeamToScorePoints?: number;
+  /** "Who advances" points for two-legged ties (0 disables). Default 0. */
+  advancePoints?: number;
   inviteAccess?: ApiInviteAccess;
+  /** When members can see each other's picks. Default "after_kickoff". */
+  predictionVisibility?: ApiPredictionVisibility;
+  /** Postponed/cancelled fixture handling. Default "void". */
+  voidedFixturePolicy?: ApiVoidedFixturePolicy;
+  /** Follow window in days (1–30). Default 7. */
+  followWindowDays?: number;
   /** Maximum number of members in the group. Default 50. */
   maxMembers?: number;
   /** Whether members can nudge each other for upcoming games. */
@@ -377,6 +585,10 @@ export type ApiGroupItem = {
    * The current user's role in this group.
    */
   userRole?: "owner" | "admin" | "member";
+  /**
+   * Set on join responses: "pending" when the group requires approval.
+   */
+  membershipStatus?: "joined" | "pending";
   createdAt: string;
   updatedAt: string;
   /**
@@ -446,6 +658,14 @@ export type ApiGroupItem = {
   missedPredictionsCount?: number;
   /** Who can access the invite link. */
   inviteAccess?: ApiInviteAccess;
+  /** Whether joining requires owner/admin approval. */
+  requiresApproval?: boolean;
+  /** When members can see each other's picks. Default "after_kickoff". */
+  predictionVisibility?: ApiPredictionVisibility;
+  /** Postponed/cancelled fixture handling. Default "void". */
+  voidedFixturePolicy?: ApiVoidedFixturePolicy;
+  /** Follow window in days for postponed fixtures. Default 7. */
+  followWindowDays?: number;
   /** Maximum number of members allowed in the group. */
   maxMembers?: number;
   /** Avatar type: "gradient" | "emoji" | "image". */
@@ -474,6 +694,24 @@ export type ApiGroupItem = {
   onTheNosePoints?: number;
   correctDifferencePoints?: number;
   outcomePoints?: number;
+  /** Scoring strategy key (e.g. "classic", "oddsWeighted"). */
+  scoringStrategy?: ApiScoringStrategyKey;
+  /** Strategy-specific settings with defaults filled in. */
+  scoringConfig?: ApiScoringStrategyConfig;
+  /** Whether outcome points are multiplied by the kickoff odds (underdog bonus). */
+  underdogBonus?: boolean;
+  /** Cap for the underdog multiplier. */
+  underdogMaxMultiplier?: number;
+  /** Joker card mode: one double-points prediction per round or per N fixtures. */
+  jokerMode?: ApiJokerMode;
+  /** Fixtures per joker when jokerMode is "fixtures". */
+  jokerFixturesPerCard?: number;
+  /** Side market points; 0 means the market is disabled. */
+  bttsPoints?: number;
+  overUnderPoints?: number;
+  firstTeamToScorePoints?: number;
+  /** "Who advances" points for two-legged ties; 0 means the market is disabled. */
+  advancePoints?: number;
   /** Whether nudge is enabled for this group. */
   nudgeEnabled?: boolean;
   /** Nudge window in minutes before kickoff. */
@@ -484,6 +722,15 @@ export type ApiGroupItem = {
   userRankChange?: number;
   /** ISO timestamp of the last message in the group chat. Only for active/ended groups. */
   lastMessageAt?: string;
+  /** Season the group covers (leagues mode groups continued across seasons). */
+  seasonId?: number | null;
+  seasonName?: string | null;
+  /** Group of the previous season this group continues, if any. */
+  previousGroupId?: number | null;
+  /** Group this one continued into for the next season, if any. */
+  nextGroupId?: number | null;
+  /** ISO timestamp set when the group continued into a new season. */
+  archivedAt?: string | null;
 };
 
 /**
@@ -571,6 +818,40 @@ export type ApiGroupMembersResponse = {
   message: string;
 };
 
+/**
+ * Pending join request in GET /api/groups/:id/join-requests response.
+ */
+export type ApiJoinRequestItem = {
+  userId: number;
+  username: string | null;
+  image: string | null;
+  requestedAt: string; // ISO timestamp
+};
+
+/**
+ * Response from GET /api/groups/:id/join-requests.
+ */
+export type ApiJoinRequestsResponse = {
+  status: "success";
+  data: ApiJoinRequestItem[];
+  message: string;
+};
+
+/**
+ * Body for PATCH /api/groups/:id/members/:userId/role.
+ * Ownership moves only via transfer-ownership.
+ */
+export type ApiUpdateMemberRoleBody = {
+  role: "admin" | "member";
+};
+
+/**
+ * Body for POST /api/groups/:id/transfer-ownership.
+ */
+export type ApiTransferOwnershipBody = {
+  userId: number;
+};
+
 // ─── Users search (for inviting to group) ─────────────────────────────────────
 
 /**
@@ -692,6 +973,10 @@ export type ApiSaveGroupPredictionsBatchBody = {
     fixtureId: number;
     home: number;
     away: number;
+    /** true = play the joker on this fixture, false = remove it, omitted = unchanged. */
+    isJoker?: boolean;
+    /** Side-market picks; omitted = unchanged, null = clear the pick. */
+    markets?: Partial<ApiSideMarketPicks>;
   }>;
 };
 
@@ -823,6 +1108,14 @@ export type ApiRankingItem = {
   correctScoreCount: number;
   correctDifferenceCount: number;
   correctOutcomeCount: number;
+  /** Settled predictions played as a joker. */
+  jokersUsed: number;
+  /** Points earned by those joker predictions (already doubled). */
+  jokerPoints: number;
+  /** Points from settled outright (season-long) picks, included in totalPoints. */
+  outrightPoints: number;
+  /** Points from settled "who advances" tie picks, included in totalPoints. */
+  advancePoints: number;
   /** True if this member has no prediction for an upcoming fixture in the nudge window. */
   nudgeable?: boolean;
   /** Earliest fixture id in the nudge window they have not predicted. */
@@ -831,10 +1124,16 @@ export type ApiRankingItem = {
   nudgedByMe?: boolean;
   /** Phase 2: number of nudges received (for sleeper badge). */
   nudgeReceivedCount?: number;
-  /** Rank from the previous fixture settlement. */
+  /** Rank from the previous fixture settlement (live mode: the settled rank). */
   previousRank?: number;
-  /** Rank change since last settlement: positive = went up, negative = went down, 0 = same. */
+  /** Rank change since last settlement: positive = went up, negative = went down, 0 = same. In live mode, measured from the settled rank. */
   rankChange?: number;
+  /** Live mode: provisional points from in-play fixtures, included in totalPoints. */
+  provisionalPoints?: number;
+  /** Live mode: rank on settled points only. */
+  settledRank?: number;
+  /** Live mode: movement from settledRank to the provisional rank (positive = up). */
+  provisionalRankChange?: number;
 };
 
 /**
@@ -855,15 +1154,376 @@ export type ApiNudgeResponse = {
   remaining?: number;
 };
 
+/**
+ * Ranking mode for GET /api/groups/:id/ranking?mode=.
+ * "live" adds provisional points from fixtures that are in play.
+ */
+export type ApiRankingMode = "settled" | "live";
+
 /**
  * Response from GET /api/groups/:id/ranking.
  */
 export type ApiRankingResponse = {
   status: "success";
   data: ApiRankingItem[];
+  mode: ApiRankingMode;
+  message: string;
+};
+
+/**
+ * Ranking period for GET /api/groups/:id/ranking/period?period=.
+ * "round" groups fixtures by competition round, "week" by ISO week of kickoff.
+ */
+export type ApiRankingPeriod = "round" | "week";
+
+/**
+ * One round or week of the group's fixtures.
+ */
+export type ApiRankingPeriodItem = {
+  key: string;
+  label: string;
+  startTs: number;
+  fixtureCount: number;
+  started: boolean;
+  finished: boolean;
+};
+
+/**
+ * Response from GET /api/groups/:id/ranking/period: points earned in one round or
+ * week only (outright points are not included), plus every period for navigation.
+ */
+export type ApiPeriodRankingResponse = {
+  status: "success";
+  data: {
+    period: ApiRankingPeriod;
+    current: ApiRankingPeriodItem | null;
+    periods: ApiRankingPeriodItem[];
+    items: ApiRankingItem[];
+  };
   message: string;
 };
 
+/**
+ * A decided round of the group with its winner(s) ("manager of the round").
+ */
+export type ApiRoundResult = {
+  roundKey: string;
+  roundLabel: string;
+  winners: Array<{ userId: number; username: string | null }>;
+  winningPoints: number;
+  participantCount: number;
+  decidedAt: string;
+};
+
+/**
+ * Response from GET /api/groups/:id/ranking/rounds (most recent first).
+ */
+export type ApiRoundHistoryResponse = {
+  status: "success";
+  data: ApiRoundResult[];
+  message: string;
+};
+
+/**
+ * A point on the ranking timeline: the table after one fixture was settled.
+ */
+export type ApiRankingHistoryStep = {
+  fixtureId: number;
+  at: string;
+};
+
+/**
+ * One member's rank and points over time, aligned with the response's steps
+ * (null where the member had no snapshot, e.g. before joining).
+ */
+export type ApiRankingHistorySeries = {
+  userId: number;
+  username: string | null;
+  ranks: Array<number | null>;
+  totalPoints: Array<number | null>;
+};
+
+/**
+ * Response from GET /api/groups/:id/ranking/history. Steps are oldest first and
+ * evenly downsampled to at most maxPoints (the latest step is always kept).
+ */
+export type ApiRankingHistoryResponse = {
+  status: "success";
+  data: {
+    steps: ApiRankingHistoryStep[];
+    series: ApiRankingHistorySeries[];
+  };
+  message: string;
+};
+
+/**
+ * One season (group) of a chain of groups continued across seasons.
+ */
+export type ApiAllTimeSeason = {
+  groupId: number;
+  groupName: string;
+  seasonId: number | null;
+  seasonName: string | null;
+  /** Archived seasons use their frozen final ranking; the current one is live. */
+  archived: boolean;
+};
+
+/**
+ * Row of the all-time table: points summed over every season of the chain.
+ */
+export type ApiAllTimeTableItem = {
+  rank: number;
+  userId: number;
+  username: string | null;
+  totalPoints: number;
+  seasonsPlayed: number;
+  /** Seasons finished first (archived seasons only). */
+  seasonWins: number;
+  /** Best final rank in an archived season; null when none is archived yet. */
+  bestRank: number | null;
+};
+
+/**
+ * Response from GET /api/groups/:id/all-time.
+ */
+export type ApiAllTimeTableResponse = {
+  status: "success";
+  data: {
+    seasons: ApiAllTimeSeason[];
+    items: ApiAllTimeTableItem[];
+  };
+  message: string;
+};
+
+export type ApiBracketStatus = "active" | "completed";
+
+export type ApiBracketEntrant = {
+  userId: number;
+  username: string | null;
+};
+
+/**
+ * One head-to-head pairing. A null side is a bye; points are set once the
+ * round is decided.
+ */
+export type ApiBracketMatch = {
+  id: number;
+  slot: number;
+  home: ApiBracketEntrant | null;
+  away: ApiBracketEntrant | null;
+  homePoints: number | null;
+  awayPoints: number | null;
+  winnerUserId: number | null;
+  decided: boolean;
+};
+
+/**
+ * One bracket round, played on a competition round of the group's fixtures.
+ */
+export type ApiBracketRound = {
+  roundIndex: number;
+  /** Competition round label (e.g. "12"); null until a round is scheduled. */
+  roundLabel: string | null;
+  matches: ApiBracketMatch[];
+};
+
+/**
+ * Head-to-head knockout bracket of a group (GET /api/groups/:id/bracket).
+ */
+export type ApiGroupBracket = {
+  status: ApiBracketStatus;
+  championUserId: number | null;
+  /** Total rounds until the final. */
+  roundCount: number;
+  rounds: ApiBracketRound[];
+};
+
+export type ApiGroupBracketResponse = {
+  status: "success";
+  /** null when the group has no bracket. */
+  data: ApiGroupBracket | null;
+  message: string;
+};
+
+/**
+ * Sub-league of a group ("office table"): a private subset of members ranked on
+ * the group's own predictions, with its own chat channel and invite code.
+ */
+export type ApiSubLeague = {
+  id: number;
+  groupId: number;
+  name: string;
+  creatorId: number;
+  isCreator: boolean;
+  memberCount: number;
+  inviteCode: string;
+  createdAt: string;
+};
+
+export type ApiSubLeaguesResponse = {
+  status: "success";
+  data: ApiSubLeague[];
+  message: string;
+};
+
+export type ApiSubLeagueResponse = {
+  status: "success";
+  data: ApiSubLeague;
+  message: string;
+};
+
+export type ApiCreateSubLeagueBody = {
+  name: string;
+};
+
+export type ApiJoinSubLeagueBody = {
+  inviteCode: string;
+};
+
+/**
+ * Response from GET /api/groups/:id/sub-leagues/:subLeagueId/ranking.
+ * Ranks are recomputed among the sub-league members only.
+ */
+export type ApiSubLeagueRankingResponse = {
+  status: "success";
+  data: {
+    subLeague: ApiSubLeague;
+    items: ApiRankingItem[];
+  };
+  message: string;
+};
+
+/** Season-long market: league champion, top 4 (any order) or relegated teams. */
+export type ApiOutrightMarket = "champion" | "top4" | "relegation";
+
+export type ApiOutrightTeam = {
+  id: number;
+  name: string;
+  imagePath: string | null;
+};
+
+export type ApiOutrightPick = {
+  userId: number;
+  username: string | null;
+  teamIds: number[];
+  /** Set once the outright is settled. */
+  correctCount: number;
+  points: number;
+};
+
+/**
+ * Outright market of a group (GET /api/groups/:id/outrights).
+ * Other members' picks are only returned after the deadline.
+ */
+export type ApiGroupOutright = {
+  id: number;
+  market: ApiOutrightMarket;
+  seasonId: number;
+  seasonName: string;
+  leagueName: string | null;
+  /** Number of teams each member picks. */
+  pickCount: number;
+  /** Points per correctly picked team. */
+  points: number;
+  /** Unix seconds; picks lock at this time. */
+  deadline: number;
+  /** Unix seconds; null until an admin confirms the settlement. */
+  settledAt: number | null;
+  resultTeamIds: number[];
+  myPick: ApiOutrightPick | null;
+  picks: ApiOutrightPick[] | null;
+};
+
+export type ApiGroupOutrightsResponse = {
+  status: "success";
+  data: { outrights: ApiGroupOutright[]; teams: ApiOutrightTeam[] };
+  message: string;
+};
+
+/**
+ * Body for POST /api/groups/:id/outrights.
+ */
+export type ApiCreateGroupOutrightBody = {
+  market: ApiOutrightMarket;
+  seasonId: number;
+  points: number;
+  /** Relegation only; champion and top4 have a fixed count. */
+  pickCount?: number;
+  /** Unix seconds. */
+  deadline: number;
+};
+
+/**
+ * Body for PUT /api/groups/:id/outrights/:outrightId/pick.
+ */
+export type ApiSaveOutrightPickBody = {
+  teamIds: number[];
+};
+
+/**
+ * A leg of a two-legged tie. Scores are the leg's final score
+ * (after extra time when it was played).
+ */
+export type ApiTieLeg = {
+  fixtureId: number;
+  leg: string | null;
+  startTs: number;
+  state: string;
+  homeTeamId: number;
+  awayTeamId: number;
+  homeScore: number | null;
+  awayScore: number | null;
+  penHome: number | null;
+  penAway: number | null;
+};
+
+/**
+ * Two-legged tie (fixtures sharing an aggregateId). The aggregate is from the
+ * first leg's home/away point of view and counts goals scored so far.
+ */
+export type ApiFixtureTie = {
+  aggregateId: string;
+  legs: ApiTieLeg[];
+  aggregate: { home: number; away: number } | null;
+  /** Team that advanced; null until both legs are finished. */
+  winnerTeamId: number | null;
+};
+
+export type ApiTiePick = {
+  userId: number;
+  username: string | null;
+  teamId: number;
+  isCorrect: boolean;
+  points: number;
+};
+
+export type ApiGroupTie = ApiFixtureTie & {
+  homeTeam: { id: number; name: string; imagePath: string | null };
+  awayTeam: { id: number; name: string; imagePath: string | null };
+  /** Picks lock when the first leg kicks off. */
+  locked: boolean;
+  settledAt: number | null;
+  myPick: ApiTiePick | null;
+  /** Other members' picks; null until picks lock. */
+  picks: ApiTiePick[] | null;
+};
+
+/**
+ * Response from GET /api/groups/:id/ties.
+ */
+export type ApiGroupTiesResponse = {
+  status: "success";
+  data: { ties: ApiGroupTie[]; advancePoints: number };
+  message: string;
+};
+
+/**
+ * Body for PUT /api/groups/:id/ties/:aggregateId/pick.
+ */
+export type ApiSaveTiePickBody = {
+  teamId: number;
+};
+
 /**
  * Activity feed item (cross-group system events + user-specific reminders).
  */
@@ -889,6 +1549,17 @@ export type ApiActivityFeedResponse = {
   };
 };
 
+/**
+ * Another member's pick in GET /api/fixtures/:id (only when the group's
+ * predictionVisibility rule lets the viewer see it).
+ */
+export type ApiFixtureDetailMemberPrediction = {
+  userId: number;
+  username: string | null;
+  prediction: string;
+  points: number | null;
+};
+
 /**
  * Prediction item in GET /api/fixtures/:id response (user's prediction in one group).
  */
@@ -899,6 +1570,25 @@ export type ApiFixtureDetailPrediction = {
   settled: boolean;
   points: number | null;
   predictionMode: string;
+  /** Whether other members' picks are visible to the viewer in this group. */
+  othersVisible: boolean;
+  /** Other joined members' picks; empty while othersVisible is false. */
+  memberPredictions: ApiFixtureDetailMemberPrediction[];
+};
+
+/**
+ * In-match event of a fixture (goal, card, substitution), in match order.
+ * `side` is the team the event belongs to (for own goals: the player's team).
+ */
+export type ApiFixtureEventItem = {
+  id: number;
+  type: string;
+  minute: number;
+  extraMinute: number | null;
+  side: "home" | "away" | null;
+  playerName: string | null;
+  relatedPlayerName: string | null;
+  detail: string | null;
 };
 
 /**
@@ -913,6 +1603,8 @@ export type ApiFixtureDetailData = {
   stage: string | null;
   round: string | null;
   leg: string | null;
+  /** Both legs with the aggregate when this fixture is part of a two-legged tie. */
+  tie: ApiFixtureTie | null;
   liveMinute: number | null;
   result: string | null;
   homeScore90: number | null;
@@ -944,6 +1636,7 @@ export type ApiFixtureDetailData = {
     imagePath: string | null;
     iso2: string | null;
   } | null;
+  events: ApiFixtureEventItem[];
   predictions: ApiFixtureDetailPrediction[];
 };
 
@@ -26,3 +26,18 @@ export type RecoveryOverdueFixturesJobMeta = {
 export type PredictionRemindersJobMeta = {
   reminderWindowHours?: number;
 };
+
+/**
+ * Queue settings for any job, stored under `jobs.meta.queue`.
+ * All fields are optional; missing ones fall back to the API defaults.
+ */
+export type JobQueueMeta = {
+  /** Total attempts before the entry is dead-lettered (1 = no retry). */
+  maxAttempts?: number;
+  /** Delay before the first retry. */
+  backoffSeconds?: number;
+  /** Each further retry waits `backoffSeconds * backoffMultiplier^(attempt - 1)`. */
+  backoffMultiplier?: number;
+  /** Higher runs first when several entries are due. */
+  priority?: number;
+};
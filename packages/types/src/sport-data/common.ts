@@ -212,6 +212,12 @@ export type FixtureDTO = {
   /** Aggregate ID linking two-legged fixtures together -> fixtures.aggregate_id */
   aggregateId: ExternalId | null;
 
+  /**
+   * Team that scored first in regulation time, from goal events -> fixtures.first_scoring_team.
+   * Undefined when the response carried no events (unknown, not "no goal").
+   */
+  firstScoringTeam?: "home" | "away" | null;
+
   hasOdds: boolean;
 
   leagueName: string;
@@ -287,3 +293,39 @@ export type StandingDTO = {
   /** Group external ID (for group stages) */
   groupExternalId: ExternalId | null;
 };
+
+/** Kind of an in-match event (provider-agnostic) */
+export const FixtureEventType = {
+  GOAL: "goal",
+  OWN_GOAL: "own_goal",
+  PENALTY: "penalty",
+  MISSED_PENALTY: "missed_penalty",
+  YELLOW_CARD: "yellow_card",
+  RED_CARD: "red_card",
+  SUBSTITUTION: "substitution",
+  VAR: "var",
+} as const;
+
+export type FixtureEventType =
+  (typeof FixtureEventType)[keyof typeof FixtureEventType];
+
+/** In-match event (goal, card, substitution) of a fixture */
+export type FixtureEventDTO = {
+  /** Provider event ID (synthesized when the provider has none) */
+  externalId: ExternalId;
+  /** Fixture external ID */
+  fixtureExternalId: ExternalId;
+  /** Team external ID the event belongs to (for own goals: the team of the player) */
+  teamExternalId: ExternalId | null;
+  type: FixtureEventType;
+  /** Match minute (e.g. 90 for 90+3) */
+  minute: number;
+  /** Stoppage-time minutes (e.g. 3 for 90+3) */
+  extraMinute: number | null;
+  /** Player who scored / was booked / came on */
+  playerName: string | null;
+  /** Assist / player going off for substitutions */
+  relatedPlayerName: string | null;
+  /** Provider detail text (e.g. "Second Yellow card", score after the goal) */
+  detail: string | null;
+};
@@ -1,23 +1,12 @@
-const job = process.env.JOB;
-
-function stamp() {
-  return new Date().toISOString();
-}
-
-if (!job) {
-  console.error(`[worker] Missing JOB env var`);
+/**
+ * Job worker service
+ * ------------------
+ * Consumes the Postgres job queue (`job_queue`) using the API's job runners.
+ * See apps/server/src/worker.ts for configuration.
+ */
+import { runWorker } from "server/worker";
+
+runWorker().catch((err: unknown) => {
+  console.error("[worker] Failed to start", err);
   process.exit(1);
-}
-
-if (job === "jobA") {
-  console.log(`[jobA] tick @ ${stamp()} (every 1 minute)`);
-  process.exit(0);
-}
-
-if (job === "jobB") {
-  console.log(`[jobB] tick @ ${stamp()} (every 30 seconds)`);
-  process.exit(0);
-}
-
-console.error(`[worker] Unknown JOB="${job}"`);
-process.exit(1);
+});